@@ -0,0 +1,8 @@
+CREATE TABLE `launcher_settings` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`streamlink_path` text,
+	`chatterino_path` text,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `launcher_settings` (`id`) VALUES (1);
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `player_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`player_type` text NOT NULL,
+	`player_path` text,
+	`player_args` text,
+	`vod_passthrough` text DEFAULT 'hls' NOT NULL,
+	`window_title` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "player_profiles_player_type_valid" CHECK("player_profiles"."player_type" IN ('vlc', 'mpv', 'generic')),
+	CONSTRAINT "player_profiles_vod_passthrough_valid" CHECK("player_profiles"."vod_passthrough" IN ('none', 'hls', 'http'))
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `player_profiles_name_unique` ON `player_profiles` (`name`);
+--> statement-breakpoint
+ALTER TABLE `launcher_settings` ADD `default_player_profile_id` integer REFERENCES player_profiles(id) ON DELETE set null;
+--> statement-breakpoint
+INSERT INTO `player_profiles` (`name`, `player_type`, `player_path`, `player_args`, `vod_passthrough`, `window_title`) VALUES
+	('VLC', 'vlc', NULL, NULL, 'hls', '{author} - {title}'),
+	('mpv', 'mpv', 'mpv', NULL, 'hls', '{author} - {title}');
+--> statement-breakpoint
+UPDATE `launcher_settings` SET `default_player_profile_id` = (SELECT `id` FROM `player_profiles` WHERE `name` = 'VLC') WHERE `id` = 1;
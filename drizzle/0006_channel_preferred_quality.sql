@@ -0,0 +1 @@
+ALTER TABLE `followed_channels` ADD `preferred_quality` text;
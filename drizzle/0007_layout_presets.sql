@@ -0,0 +1,14 @@
+CREATE TABLE `layout_presets` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`slots` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `layout_presets_name_unique` ON `layout_presets` (`name`);
+--> statement-breakpoint
+INSERT INTO `layout_presets` (`name`, `slots`) VALUES
+	('2x2', '[{"x":0,"y":0,"width":50,"height":50},{"x":50,"y":0,"width":50,"height":50},{"x":0,"y":50,"width":50,"height":50},{"x":50,"y":50,"width":50,"height":50}]'),
+	('1+3', '[{"x":0,"y":0,"width":67,"height":100},{"x":67,"y":0,"width":33,"height":33},{"x":67,"y":33,"width":33,"height":34},{"x":67,"y":67,"width":33,"height":33}]'),
+	('Side by side', '[{"x":0,"y":0,"width":50,"height":100},{"x":50,"y":0,"width":50,"height":100}]');
@@ -0,0 +1,16 @@
+CREATE TABLE `watch_sessions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`kind` text NOT NULL,
+	`channel_name` text,
+	`vod_id` text,
+	`quality` text NOT NULL,
+	`started_at` text NOT NULL,
+	`ended_at` text,
+	`duration_seconds` integer,
+	CONSTRAINT "watch_sessions_kind_valid" CHECK("watch_sessions"."kind" IN ('live', 'vod')),
+	CONSTRAINT "watch_sessions_duration_non_negative" CHECK("watch_sessions"."duration_seconds" >= 0)
+);
+--> statement-breakpoint
+CREATE INDEX `watch_sessions_started_at_idx` ON `watch_sessions` (`started_at`);
+--> statement-breakpoint
+CREATE INDEX `watch_sessions_channel_name_idx` ON `watch_sessions` (`channel_name`);
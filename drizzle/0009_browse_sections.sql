@@ -0,0 +1,17 @@
+CREATE TABLE `browse_sections` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`category_name` text NOT NULL,
+	`category_id` text,
+	`box_art_url` text,
+	`sort_order` integer DEFAULT 0 NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `browse_sections_category_name_unique` ON `browse_sections` (`category_name`);
+--> statement-breakpoint
+CREATE INDEX `browse_sections_sort_order_idx` ON `browse_sections` (`sort_order`);
+--> statement-breakpoint
+INSERT INTO `browse_sections` (`category_name`, `sort_order`) VALUES
+	('Software and Game Development', 0),
+	('EverQuest', 1),
+	('Dota 2', 2);
@@ -0,0 +1,6 @@
+CREATE TABLE `hidden_channels` (
+	`channel_id` text PRIMARY KEY NOT NULL,
+	`channel_name` text NOT NULL,
+	`profile_image_url` text,
+	`hidden_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
@@ -0,0 +1,26 @@
+CREATE TABLE `channel_ranks` (
+	`channel_id` text PRIMARY KEY NOT NULL,
+	`channel_name` text NOT NULL,
+	`profile_image_url` text,
+	`rank` text NOT NULL,
+	`sort_order` integer DEFAULT 0 NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "channel_ranks_rank_valid" CHECK("channel_ranks"."rank" IN ('favorite', 'followed', 'known', 'hidden'))
+);
+--> statement-breakpoint
+CREATE INDEX `channel_ranks_rank_sort_idx` ON `channel_ranks` (`rank`,`sort_order`);
+--> statement-breakpoint
+INSERT INTO `channel_ranks` (`channel_id`, `channel_name`, `profile_image_url`, `rank`, `sort_order`)
+SELECT `channel_id`, `channel_name`, `profile_image_url`, 'favorite', `sort_order`
+FROM `followed_channels`
+WHERE `is_favorite` = 1;
+--> statement-breakpoint
+INSERT OR IGNORE INTO `channel_ranks` (`channel_id`, `channel_name`, `profile_image_url`, `rank`, `updated_at`)
+SELECT `channel_id`, `channel_name`, `profile_image_url`, 'hidden', `hidden_at`
+FROM `hidden_channels`;
+--> statement-breakpoint
+DROP TABLE `hidden_channels`;
+--> statement-breakpoint
+DROP INDEX IF EXISTS `followed_channels_favorite_sort_idx`;
+--> statement-breakpoint
+UPDATE `followed_channels` SET `is_favorite` = 0, `sort_order` = 0;
@@ -0,0 +1,9 @@
+CREATE TABLE `ignored_follows` (
+	`channel_id` text PRIMARY KEY NOT NULL,
+	`channel_name` text NOT NULL,
+	`ignored_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `followed_channels` ADD `is_twitch_follow` integer DEFAULT true NOT NULL CONSTRAINT "followed_channels_is_twitch_follow_bool" CHECK("is_twitch_follow" IN (0, 1));
+--> statement-breakpoint
+ALTER TABLE `followed_channels` ADD `is_local_follow` integer DEFAULT false NOT NULL CONSTRAINT "followed_channels_is_local_follow_bool" CHECK("is_local_follow" IN (0, 1));
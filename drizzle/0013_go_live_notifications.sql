@@ -0,0 +1,25 @@
+CREATE TABLE `notification_rules` (
+	`channel_id` text PRIMARY KEY NOT NULL,
+	`channel_name` text NOT NULL,
+	`is_enabled` integer DEFAULT true NOT NULL,
+	`game_names` text DEFAULT '[]' NOT NULL,
+	`quiet_start_minute` integer,
+	`quiet_end_minute` integer,
+	`min_downtime_minutes` integer DEFAULT 30 NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "notification_rules_is_enabled_bool" CHECK("notification_rules"."is_enabled" IN (0, 1)),
+	CONSTRAINT "notification_rules_quiet_hours_valid" CHECK(("notification_rules"."quiet_start_minute" IS NULL AND "notification_rules"."quiet_end_minute" IS NULL) OR ("notification_rules"."quiet_start_minute" IS NOT NULL AND "notification_rules"."quiet_end_minute" IS NOT NULL AND "notification_rules"."quiet_start_minute" BETWEEN 0 AND 1439 AND "notification_rules"."quiet_end_minute" BETWEEN 0 AND 1439)),
+	CONSTRAINT "notification_rules_min_downtime_non_negative" CHECK("notification_rules"."min_downtime_minutes" >= 0)
+);
+--> statement-breakpoint
+CREATE TABLE `notifications` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`channel_id` text NOT NULL,
+	`channel_name` text NOT NULL,
+	`title` text NOT NULL,
+	`game_name` text NOT NULL,
+	`stream_started_at` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `notifications_created_at_idx` ON `notifications` (`created_at`);
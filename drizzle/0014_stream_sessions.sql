@@ -0,0 +1,16 @@
+CREATE TABLE `stream_sessions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`channel_id` text NOT NULL,
+	`channel_name` text NOT NULL,
+	`started_at` text NOT NULL,
+	`ended_at` text,
+	`last_seen_at` text NOT NULL,
+	`peak_viewers` integer DEFAULT 0 NOT NULL,
+	`viewer_sample_total` integer DEFAULT 0 NOT NULL,
+	`viewer_sample_count` integer DEFAULT 0 NOT NULL,
+	`segments` text DEFAULT '[]' NOT NULL,
+	CONSTRAINT "stream_sessions_viewers_non_negative" CHECK("stream_sessions"."peak_viewers" >= 0 AND "stream_sessions"."viewer_sample_total" >= 0 AND "stream_sessions"."viewer_sample_count" >= 0)
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `stream_sessions_channel_started_idx` ON `stream_sessions` (`channel_id`,`started_at`);--> statement-breakpoint
+CREATE INDEX `stream_sessions_ended_at_idx` ON `stream_sessions` (`ended_at`);
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `schedule_segments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`channel_id` text NOT NULL,
+	`channel_name` text NOT NULL,
+	`title` text NOT NULL,
+	`category_name` text,
+	`start_time` text NOT NULL,
+	`end_time` text,
+	`is_recurring` integer DEFAULT false NOT NULL,
+	`fetched_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `schedule_segments_channel_id_idx` ON `schedule_segments` (`channel_id`);--> statement-breakpoint
+CREATE INDEX `schedule_segments_start_time_idx` ON `schedule_segments` (`start_time`);
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE `clips` (
+	`id` text PRIMARY KEY NOT NULL,
+	`broadcaster_id` text NOT NULL,
+	`broadcaster_name` text NOT NULL,
+	`creator_name` text NOT NULL,
+	`video_id` text,
+	`game_id` text NOT NULL,
+	`title` text NOT NULL,
+	`view_count` integer DEFAULT 0 NOT NULL,
+	`duration_seconds` integer NOT NULL,
+	`vod_offset_seconds` integer,
+	`thumbnail_url` text NOT NULL,
+	`created_at` text NOT NULL,
+	`fetched_at` text NOT NULL,
+	CONSTRAINT "clips_counts_non_negative" CHECK("clips"."view_count" >= 0 AND "clips"."duration_seconds" >= 0)
+);
+--> statement-breakpoint
+CREATE INDEX `clips_broadcaster_created_idx` ON `clips` (`broadcaster_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `clips_game_created_idx` ON `clips` (`game_id`,`created_at`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `vods` ADD `video_type` text DEFAULT 'archive' NOT NULL CONSTRAINT "vods_video_type_valid" CHECK("video_type" IN ('archive', 'highlight', 'upload'));
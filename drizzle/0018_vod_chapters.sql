@@ -0,0 +1,5 @@
+CREATE TABLE `vod_chapters` (
+	`vod_id` text PRIMARY KEY NOT NULL,
+	`chapters` text DEFAULT '[]' NOT NULL,
+	`fetched_at` text NOT NULL
+);
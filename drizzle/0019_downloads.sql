@@ -0,0 +1,28 @@
+CREATE TABLE `downloads` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`kind` text NOT NULL,
+	`channel_name` text NOT NULL,
+	`vod_id` text,
+	`title` text,
+	`quality` text NOT NULL,
+	`start_offset_seconds` integer,
+	`end_offset_seconds` integer,
+	`output_path` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`bytes_written` integer DEFAULT 0 NOT NULL,
+	`error` text,
+	`is_auto_recording` integer DEFAULT false NOT NULL,
+	`created_at` text NOT NULL,
+	`started_at` text,
+	`finished_at` text,
+	CONSTRAINT "downloads_kind_valid" CHECK("downloads"."kind" IN ('vod', 'live')),
+	CONSTRAINT "downloads_status_valid" CHECK("downloads"."status" IN ('queued', 'running', 'completed', 'failed', 'canceled')),
+	CONSTRAINT "downloads_offsets_valid" CHECK("downloads"."start_offset_seconds" >= 0 AND "downloads"."end_offset_seconds" > coalesce("downloads"."start_offset_seconds", 0)),
+	CONSTRAINT "downloads_bytes_written_non_negative" CHECK("downloads"."bytes_written" >= 0),
+	CONSTRAINT "downloads_is_auto_recording_bool" CHECK("downloads"."is_auto_recording" IN (0, 1))
+);
+--> statement-breakpoint
+CREATE INDEX `downloads_status_idx` ON `downloads` (`status`);--> statement-breakpoint
+CREATE INDEX `downloads_created_at_idx` ON `downloads` (`created_at`);--> statement-breakpoint
+ALTER TABLE `launcher_settings` ADD `download_directory` text;--> statement-breakpoint
+ALTER TABLE `launcher_settings` ADD `auto_record_favorites` integer DEFAULT false NOT NULL CONSTRAINT "launcher_settings_auto_record_favorites_bool" CHECK("auto_record_favorites" IN (0, 1));
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `library_files` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`path` text NOT NULL,
+	`channel_name` text,
+	`vod_id` text,
+	`size_bytes` integer DEFAULT 0 NOT NULL,
+	`is_partial` integer DEFAULT false NOT NULL,
+	`modified_at` text NOT NULL,
+	`scanned_at` text NOT NULL,
+	CONSTRAINT "library_files_size_bytes_non_negative" CHECK("library_files"."size_bytes" >= 0),
+	CONSTRAINT "library_files_is_partial_bool" CHECK("library_files"."is_partial" IN (0, 1))
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `library_files_path_unique` ON `library_files` (`path`);--> statement-breakpoint
+CREATE INDEX `library_files_vod_id_idx` ON `library_files` (`vod_id`);--> statement-breakpoint
+ALTER TABLE `launcher_settings` ADD `library_directory` text;--> statement-breakpoint
+ALTER TABLE `launcher_settings` ADD `retention_days` integer CONSTRAINT "launcher_settings_retention_days_positive" CHECK("retention_days" > 0);
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE `playlist_items` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`playlist_id` integer NOT NULL,
+	`vod_id` text NOT NULL,
+	`channel_name` text NOT NULL,
+	`title` text NOT NULL,
+	`duration_seconds` integer DEFAULT 0 NOT NULL,
+	`thumbnail_url` text NOT NULL,
+	`video_type` text DEFAULT 'archive' NOT NULL,
+	`vod_created_at` text NOT NULL,
+	`sort_order` integer DEFAULT 0 NOT NULL,
+	`added_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`playlist_id`) REFERENCES `playlists`(`id`) ON UPDATE no action ON DELETE cascade,
+	CONSTRAINT "playlist_items_duration_non_negative" CHECK("playlist_items"."duration_seconds" >= 0),
+	CONSTRAINT "playlist_items_video_type_valid" CHECK("playlist_items"."video_type" IN ('archive', 'highlight', 'upload'))
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `playlist_items_playlist_vod_idx` ON `playlist_items` (`playlist_id`,`vod_id`);--> statement-breakpoint
+CREATE INDEX `playlist_items_playlist_sort_idx` ON `playlist_items` (`playlist_id`,`sort_order`);--> statement-breakpoint
+CREATE TABLE `playlists` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`is_watch_later` integer DEFAULT false NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "playlists_is_watch_later_bool" CHECK("playlists"."is_watch_later" IN (0, 1))
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `playlists_name_unique` ON `playlists` (`name`);--> statement-breakpoint
+INSERT INTO `playlists` (`name`, `is_watch_later`) VALUES
+	('Watch Later', 1);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `vods` ADD `progress_dismissed_at` text;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE `watched_vods` (
+	`vod_id` text PRIMARY KEY NOT NULL,
+	`watched_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `watched_vods_watched_at_idx` ON `watched_vods` (`watched_at`);--> statement-breakpoint
+INSERT INTO `watched_vods` (`vod_id`, `watched_at`) SELECT `vod_id`, COALESCE(`playback_updated_at`, CURRENT_TIMESTAMP) FROM `vods` WHERE `duration_seconds` > 0 AND `playback_position_seconds` * 100 >= `duration_seconds` * 90;
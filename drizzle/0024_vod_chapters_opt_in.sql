@@ -0,0 +1,22 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_launcher_settings` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`streamlink_path` text,
+	`chatterino_path` text,
+	`default_player_profile_id` integer,
+	`download_directory` text,
+	`auto_record_favorites` integer DEFAULT false NOT NULL,
+	`library_directory` text,
+	`retention_days` integer,
+	`vod_chapters_enabled` integer DEFAULT false NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`default_player_profile_id`) REFERENCES `player_profiles`(`id`) ON UPDATE no action ON DELETE set null,
+	CONSTRAINT "launcher_settings_auto_record_favorites_bool" CHECK("__new_launcher_settings"."auto_record_favorites" IN (0, 1)),
+	CONSTRAINT "launcher_settings_retention_days_positive" CHECK("__new_launcher_settings"."retention_days" > 0),
+	CONSTRAINT "launcher_settings_vod_chapters_enabled_bool" CHECK("__new_launcher_settings"."vod_chapters_enabled" IN (0, 1))
+);
+--> statement-breakpoint
+INSERT INTO `__new_launcher_settings`("id", "streamlink_path", "chatterino_path", "default_player_profile_id", "download_directory", "auto_record_favorites", "library_directory", "retention_days", "updated_at") SELECT "id", "streamlink_path", "chatterino_path", "default_player_profile_id", "download_directory", "auto_record_favorites", "library_directory", "retention_days", "updated_at" FROM `launcher_settings`;--> statement-breakpoint
+DROP TABLE `launcher_settings`;--> statement-breakpoint
+ALTER TABLE `__new_launcher_settings` RENAME TO `launcher_settings`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
@@ -1,3 +1,5 @@
+-- Hand-run upgrade that adds check constraints to databases created before they existed.
+-- It manages its own transaction, so it is kept out of the drizzle journal.
 BEGIN TRANSACTION;
 --> statement-breakpoint
 PRAGMA foreign_keys=OFF;
@@ -5,9 +5,13 @@ import { useState } from "react";
 import { AuthSection } from "@/src/features/auth/components/auth-section";
 import { useAuth } from "@/src/features/auth/hooks/use-auth";
 import { useChannels } from "@/src/features/channels/hooks/use-channels";
+import { useLiveEvents } from "@/src/features/live-events/hooks/use-live-events";
+import { MultiViewBar } from "@/src/features/multi-view/components/multi-view-bar";
 import { Sidebar } from "@/src/features/sidebar/components/sidebar";
 import { Header } from "@/src/shared/components/header";
 import { LayoutProvider, useLayout } from "@/src/shared/context/layout-context";
+import { MultiViewProvider } from "@/src/shared/context/multi-view-context";
+import { PlayerProfileProvider } from "@/src/shared/context/player-profile-context";
 
 import appCss from "./globals.css?url";
 
@@ -45,7 +49,11 @@ function RootComponent() {
 			<body className="bg-background text-text-primary">
 				<QueryClientProvider client={queryClient}>
 					<LayoutProvider>
-						<AuthenticatedLayout />
+						<PlayerProfileProvider>
+							<MultiViewProvider>
+								<AuthenticatedLayout />
+							</MultiViewProvider>
+						</PlayerProfileProvider>
 					</LayoutProvider>
 				</QueryClientProvider>
 				<Scripts />
@@ -113,6 +121,7 @@ const sidebarMargins = {
 function AppShell() {
 	const { isSidebarOpen, toggleSidebar } = useLayout();
 	const { isFetching, refetch: refetchChannels } = useChannels();
+	useLiveEvents();
 
 	const marginClass = isSidebarOpen ? sidebarMargins.open : sidebarMargins.closed;
 
@@ -130,6 +139,8 @@ function AppShell() {
 				<main className="p-6 max-w-7xl mx-auto">
 					<Outlet />
 				</main>
+
+				<MultiViewBar />
 			</div>
 		</div>
 	);
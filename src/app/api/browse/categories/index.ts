@@ -0,0 +1,34 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { parseSearchQuery } from "@/src/features/browse/browse.validators";
+import { searchCategories } from "@/src/services/twitch-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/browse/categories/")({
+	server: {
+		handlers: {
+			GET: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const url = new URL(request.url);
+				const query = parseSearchQuery(url.searchParams.get("query"));
+
+				if (query instanceof Error) {
+					return createErrorResponse(query.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const categories = await searchCategories(query);
+
+				if (categories instanceof Error) {
+					return createErrorResponse(categories.message, ErrorCode.TWITCH_API_ERROR, 500);
+				}
+
+				return Response.json({ categories });
+			},
+		},
+	},
+});
@@ -0,0 +1,34 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { parseSearchQuery } from "@/src/features/browse/browse.validators";
+import { searchChannels } from "@/src/services/twitch-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/browse/channels/")({
+	server: {
+		handlers: {
+			GET: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const url = new URL(request.url);
+				const query = parseSearchQuery(url.searchParams.get("query"));
+
+				if (query instanceof Error) {
+					return createErrorResponse(query.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const channels = await searchChannels(query);
+
+				if (channels instanceof Error) {
+					return createErrorResponse(channels.message, ErrorCode.TWITCH_API_ERROR, 500);
+				}
+
+				return Response.json({ channels });
+			},
+		},
+	},
+});
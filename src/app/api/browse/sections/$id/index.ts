@@ -0,0 +1,41 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { deleteBrowseSection } from "@/src/features/browse/browse.repository";
+import { parseBrowseSectionId } from "@/src/features/browse/browse.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/browse/sections/$id/")({
+	server: {
+		handlers: {
+			DELETE: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parseBrowseSectionId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = deleteBrowseSection(id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (!result) {
+					return createErrorResponse(
+						"Browse section not found",
+						ErrorCode.NOT_FOUND,
+						404,
+					);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
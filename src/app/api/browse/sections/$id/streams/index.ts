@@ -0,0 +1,63 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getBrowseSectionById } from "@/src/features/browse/browse.repository";
+import {
+	parseBrowseSectionId,
+	parseBrowseStreamsLimit,
+} from "@/src/features/browse/browse.validators";
+import { CategoryNotFoundError, getBrowseSectionStreams } from "@/src/services/browse-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/browse/sections/$id/streams/")({
+	server: {
+		handlers: {
+			GET: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parseBrowseSectionId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const url = new URL(request.url);
+				const limit = parseBrowseStreamsLimit(url.searchParams.get("limit"));
+
+				if (limit instanceof Error) {
+					return createErrorResponse(limit.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const section = getBrowseSectionById(id);
+
+				if (section instanceof Error) {
+					return createErrorResponse(section.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (section === null) {
+					return createErrorResponse(
+						"Browse section not found",
+						ErrorCode.NOT_FOUND,
+						404,
+					);
+				}
+
+				const cursor = url.searchParams.get("cursor") ?? undefined;
+				const page = await getBrowseSectionStreams(section, { limit, cursor });
+
+				if (page instanceof CategoryNotFoundError) {
+					return createErrorResponse(page.message, ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (page instanceof Error) {
+					return createErrorResponse(page.message, ErrorCode.TWITCH_API_ERROR, 500);
+				}
+
+				return Response.json(page);
+			},
+		},
+	},
+});
@@ -0,0 +1,67 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	createBrowseSection,
+	getAllBrowseSections,
+	getBrowseSectionByName,
+} from "@/src/features/browse/browse.repository";
+import { validateBrowseSectionRequest } from "@/src/features/browse/browse.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/browse/sections/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const sections = getAllBrowseSections();
+
+				if (sections instanceof Error) {
+					return createErrorResponse(sections.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ sections });
+			},
+
+			POST: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const body = await parseRequestBody(request, validateBrowseSectionRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const existing = getBrowseSectionByName(body.categoryName);
+
+				if (existing instanceof Error) {
+					return createErrorResponse(existing.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (existing !== null) {
+					return createErrorResponse(
+						`A section for "${body.categoryName}" already exists`,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const section = createBrowseSection(body);
+
+				if (section instanceof Error) {
+					return createErrorResponse(section.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ section }, { status: 201 });
+			},
+		},
+	},
+});
@@ -0,0 +1,60 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { ChannelNotFoundError } from "@/src/services/channel-rank-service";
+import { followChannel, unfollowChannel } from "@/src/services/follow-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+const CHANNEL_ID_PATTERN = /^[0-9]+$/;
+
+export const Route = createFileRoute("/api/channels/$id/follow/")({
+	server: {
+		handlers: {
+			POST: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				if (!CHANNEL_ID_PATTERN.test(params.id)) {
+					return createErrorResponse("Invalid channel ID", ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = await followChannel(params.id);
+
+				if (result instanceof ChannelNotFoundError) {
+					return createErrorResponse(result.message, ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ success: true }, { status: 201 });
+			},
+
+			DELETE: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				if (!CHANNEL_ID_PATTERN.test(params.id)) {
+					return createErrorResponse("Invalid channel ID", ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = unfollowChannel(params.id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (!result) {
+					return createErrorResponse("Channel is not followed", ErrorCode.NOT_FOUND, 404);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
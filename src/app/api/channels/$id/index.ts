@@ -0,0 +1,149 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getChannelRank } from "@/src/features/channel-ranks/channel-ranks.repository";
+import { resolveChannelRank } from "@/src/features/channel-ranks/channel-ranks.validators";
+import { getFollowedChannelDetails } from "@/src/features/channels/followed-channels.repository";
+import { getVodsByChannelId, upsertVodsFromTwitch } from "@/src/features/vods/vods.repository";
+import { getStreams, getUsers, getVideos } from "@/src/services/twitch-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseDurationToSeconds } from "@/src/shared/utils/format";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+import type { ChannelDetails, FollowSource, Stream } from "@/src/features/channels/channels.types";
+import type { VodSummary } from "@/src/features/vods/vods.types";
+import type { TwitchStream, TwitchVideo } from "@/src/services/twitch-service";
+
+const CHANNEL_VOD_LIMIT = 12;
+
+function transformStream(stream: TwitchStream): Stream {
+	return {
+		title: stream.title,
+		gameName: stream.gameName,
+		viewerCount: stream.viewerCount,
+		thumbnailUrl: stream.thumbnailUrl,
+		startedAt: stream.startedAt,
+	};
+}
+
+function transformVideo(video: TwitchVideo): VodSummary {
+	return {
+		id: video.id,
+		title: video.title,
+		durationSeconds: parseDurationToSeconds(video.duration) ?? 0,
+		createdAt: video.createdAt,
+		thumbnailUrl: video.thumbnailUrl,
+		videoType: video.type,
+	};
+}
+
+function getFollowSource(followed: { isTwitchFollow: boolean } | null): FollowSource | null {
+	if (followed === null) {
+		return null;
+	}
+
+	return followed.isTwitchFollow ? "twitch" : "local";
+}
+
+export const Route = createFileRoute("/api/channels/$id/")({
+	server: {
+		handlers: {
+			GET: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const { id } = params;
+
+				if (!/^[0-9]+$/.test(id)) {
+					return createErrorResponse("Invalid channel ID", ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const followed = getFollowedChannelDetails(id);
+
+				if (followed instanceof Error) {
+					return createErrorResponse(followed.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const storedRank = getChannelRank(id);
+
+				if (storedRank instanceof Error) {
+					return createErrorResponse(storedRank.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				let channelName = followed?.channelName ?? null;
+				let profileImage = followed?.profileImageUrl ?? "";
+
+				// Channels we don't follow have no local row, so ask Twitch who they are
+				if (followed === null) {
+					const users = await getUsers({ ids: [id] });
+
+					if (users instanceof Error) {
+						return createErrorResponse(users.message, ErrorCode.TWITCH_API_ERROR, 500);
+					}
+
+					const user = users[0];
+					if (user === undefined) {
+						return createErrorResponse("Channel not found", ErrorCode.NOT_FOUND, 404);
+					}
+
+					channelName = user.displayName;
+					profileImage = user.profileImageUrl;
+				}
+
+				const streams = await getStreams({ userIds: [id] });
+
+				if (streams instanceof Error) {
+					return createErrorResponse(streams.message, ErrorCode.TWITCH_API_ERROR, 500);
+				}
+
+				const rawStream = streams[0];
+
+				let channelVods =
+					followed !== null ? getVodsByChannelId(id, CHANNEL_VOD_LIMIT) : [];
+
+				if (channelVods instanceof Error) {
+					return createErrorResponse(channelVods.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (channelVods.length === 0) {
+					const videos = await getVideos(id, CHANNEL_VOD_LIMIT);
+
+					if (videos instanceof Error) {
+						return createErrorResponse(videos.message, ErrorCode.TWITCH_API_ERROR, 500);
+					}
+
+					// Only followed channels can own cached VODs (foreign key on vods.channel_id)
+					if (followed !== null) {
+						const upsertResult = upsertVodsFromTwitch(videos);
+						if (upsertResult instanceof Error) {
+							console.warn(
+								"[channels] Failed to cache channel VODs:",
+								upsertResult.message,
+							);
+						}
+					}
+
+					channelVods = videos.map(transformVideo);
+				}
+
+				const details: ChannelDetails = {
+					id,
+					channelName: channelName ?? id,
+					profileImage,
+					isFollowed: followed !== null,
+					followSource: getFollowSource(followed),
+					followedAt: followed?.followedAt ?? null,
+					rank: resolveChannelRank(storedRank?.rank ?? null, followed !== null),
+					isLive: rawStream !== undefined,
+					lastSeenAt: followed?.lastSeenAt ?? null,
+					preferredQuality: followed?.preferredQuality ?? null,
+					stream: rawStream !== undefined ? transformStream(rawStream) : null,
+					vods: channelVods,
+				};
+
+				return Response.json(details);
+			},
+		},
+	},
+});
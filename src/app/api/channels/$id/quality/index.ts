@@ -0,0 +1,38 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { validateSetPreferredQualityRequest } from "@/src/features/channels/channels.validators";
+import { setPreferredQuality } from "@/src/features/channels/followed-channels.repository";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/channels/$id/quality/")({
+	server: {
+		handlers: {
+			PUT: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const body = await parseRequestBody(request, validateSetPreferredQualityRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const result = setPreferredQuality(params.id, body.quality);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (!result) {
+					return createErrorResponse("Channel not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				return Response.json({ preferredQuality: body.quality });
+			},
+		},
+	},
+});
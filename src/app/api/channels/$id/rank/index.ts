@@ -0,0 +1,42 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { validateSetChannelRankRequest } from "@/src/features/channel-ranks/channel-ranks.validators";
+import { ChannelNotFoundError, updateChannelRank } from "@/src/services/channel-rank-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/channels/$id/rank/")({
+	server: {
+		handlers: {
+			PUT: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				if (!/^[0-9]+$/.test(params.id)) {
+					return createErrorResponse("Invalid channel ID", ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const body = await parseRequestBody(request, validateSetChannelRankRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const result = await updateChannelRank(params.id, body.rank);
+
+				if (result instanceof ChannelNotFoundError) {
+					return createErrorResponse(result.message, ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ rank: result });
+			},
+		},
+	},
+});
@@ -0,0 +1,40 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { parseStreamHeatmapDays } from "@/src/features/stream-sessions/stream-sessions.validators";
+import { getStreamHeatmap } from "@/src/services/stream-heatmap-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+const CHANNEL_ID_PATTERN = /^[0-9]+$/;
+
+export const Route = createFileRoute("/api/channels/$id/sessions/")({
+	server: {
+		handlers: {
+			GET: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				if (!CHANNEL_ID_PATTERN.test(params.id)) {
+					return createErrorResponse("Invalid channel ID", ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const url = new URL(request.url);
+				const days = parseStreamHeatmapDays(url.searchParams.get("days"));
+
+				if (days instanceof Error) {
+					return createErrorResponse(days.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const heatmap = getStreamHeatmap(params.id, days);
+
+				if (heatmap instanceof Error) {
+					return createErrorResponse(heatmap.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json(heatmap);
+			},
+		},
+	},
+});
@@ -1,13 +1,13 @@
 import { createFileRoute } from "@tanstack/react-router";
 
 import { getAuth } from "@/src/features/auth/auth.repository";
-import { getAllFollowedChannels } from "@/src/features/channels/followed-channels.repository";
-import { getFollowedStreams } from "@/src/services/twitch-service";
-import { scheduleLiveStateUpdate } from "@/src/services/video-cache-service";
+import { getRankOrder } from "@/src/features/channel-ranks/channel-ranks.validators";
+import { getUnwatchedVodCounts } from "@/src/features/vods/vods.repository";
+import { getLiveState } from "@/src/services/live-state-service";
+import { TrackedStreamsError } from "@/src/services/tracked-channels-service";
 import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
 
 import type { SidebarChannel } from "@/src/features/sidebar/sidebar.types";
-import type { TwitchStream } from "@/src/services/twitch-service";
 
 export const Route = createFileRoute("/api/channels/followed/")({
 	server: {
@@ -23,36 +23,42 @@ export const Route = createFileRoute("/api/channels/followed/")({
 					return createErrorResponse("Not authenticated", ErrorCode.UNAUTHORIZED, 401);
 				}
 
-				const followedChannelsResult = getAllFollowedChannels();
-				const liveStreamsResult = await getFollowedStreams(authResult.userId);
+				const trackedResult = await getLiveState(authResult.userId);
 
-				if (followedChannelsResult instanceof Error) {
+				if (trackedResult instanceof TrackedStreamsError) {
 					return createErrorResponse(
-						followedChannelsResult.message,
-						ErrorCode.DATABASE_ERROR,
+						trackedResult.message,
+						ErrorCode.TWITCH_API_ERROR,
 						500,
 					);
 				}
 
-				if (liveStreamsResult instanceof Error) {
+				if (trackedResult instanceof Error) {
 					return createErrorResponse(
-						liveStreamsResult.message,
-						ErrorCode.TWITCH_API_ERROR,
+						trackedResult.message,
+						ErrorCode.DATABASE_ERROR,
 						500,
 					);
 				}
 
-				const liveStreamsByChannelId = new Map<string, TwitchStream>();
-				const liveChannelIds: Array<string> = [];
-				for (const stream of liveStreamsResult) {
-					liveStreamsByChannelId.set(stream.userId, stream);
-					liveChannelIds.push(stream.userId);
-				}
+				const { liveStreamsByChannelId } = trackedResult;
 
-				scheduleLiveStateUpdate(liveChannelIds, "followed-channels-api", false);
+				const unwatchedCounts = getUnwatchedVodCounts();
+
+				if (unwatchedCounts instanceof Error) {
+					return createErrorResponse(
+						unwatchedCounts.message,
+						ErrorCode.DATABASE_ERROR,
+						500,
+					);
+				}
 
 				const channels: Array<SidebarChannel> = [];
-				for (const channel of followedChannelsResult) {
+				for (const channel of trackedResult.channels) {
+					if (channel.rank === "hidden") {
+						continue;
+					}
+
 					const stream = liveStreamsByChannelId.get(channel.channelId);
 					const isLive = stream !== undefined;
 
@@ -61,16 +67,18 @@ export const Route = createFileRoute("/api/channels/followed/")({
 						channelName: channel.channelName,
 						profileImage: channel.profileImageUrl,
 						isLive,
-						isFavorite: channel.isFavorite,
+						rank: channel.rank,
+						followSource: channel.followSource,
 						viewerCount: stream?.viewerCount ?? null,
 						lastSeenAt: isLive ? null : channel.lastSeenAt,
 						gameName: stream?.gameName ?? null,
+						unwatchedVodCount: unwatchedCounts.get(channel.channelId) ?? 0,
 					});
 				}
 
 				channels.sort((a, b) => {
-					if (a.isFavorite && !b.isFavorite) return -1;
-					if (!a.isFavorite && b.isFavorite) return 1;
+					const rankDiff = getRankOrder(a.rank) - getRankOrder(b.rank);
+					if (rankDiff !== 0) return rankDiff;
 
 					if (a.lastSeenAt !== null && b.lastSeenAt !== null) {
 						const diff =
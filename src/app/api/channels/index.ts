@@ -1,16 +1,15 @@
 import { createFileRoute } from "@tanstack/react-router";
 
 import { getAuth } from "@/src/features/auth/auth.repository";
-import {
-	getAllFollowedChannels,
-	getLatestVodsByChannelIds,
-} from "@/src/features/channels/followed-channels.repository";
-import { getFollowedStreams } from "@/src/services/twitch-service";
-import { scheduleLiveStateUpdate } from "@/src/services/video-cache-service";
+import { getRankOrder } from "@/src/features/channel-ranks/channel-ranks.validators";
+import { getLatestVodsByChannelIds } from "@/src/features/channels/followed-channels.repository";
+import { getLiveState } from "@/src/services/live-state-service";
+import { TrackedStreamsError } from "@/src/services/tracked-channels-service";
 import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
 
 import type { Channel, Stream } from "@/src/features/channels/channels.types";
 import type { VodSummary } from "@/src/features/vods/vods.types";
+import type { TrackedChannel } from "@/src/services/tracked-channels-service";
 import type { TwitchStream } from "@/src/services/twitch-service";
 
 function transformStream(stream: TwitchStream): Stream {
@@ -37,38 +36,32 @@ export const Route = createFileRoute("/api/channels/")({
 					return createErrorResponse("Not authenticated", ErrorCode.UNAUTHORIZED, 401);
 				}
 
-				const followedChannelsResult = getAllFollowedChannels();
+				const trackedResult = await getLiveState(authResult.userId);
 
-				if (followedChannelsResult instanceof Error) {
+				if (trackedResult instanceof TrackedStreamsError) {
 					return createErrorResponse(
-						followedChannelsResult.message,
-						ErrorCode.DATABASE_ERROR,
+						trackedResult.message,
+						ErrorCode.TWITCH_API_ERROR,
 						500,
 					);
 				}
 
-				const liveStreamsResult = await getFollowedStreams(authResult.userId);
-
-				if (liveStreamsResult instanceof Error) {
+				if (trackedResult instanceof Error) {
 					return createErrorResponse(
-						liveStreamsResult.message,
-						ErrorCode.TWITCH_API_ERROR,
+						trackedResult.message,
+						ErrorCode.DATABASE_ERROR,
 						500,
 					);
 				}
 
-				const liveStreamsByChannelId = new Map<string, TwitchStream>();
-				const liveChannelIds: Array<string> = [];
-				for (const stream of liveStreamsResult) {
-					liveStreamsByChannelId.set(stream.userId, stream);
-					liveChannelIds.push(stream.userId);
-				}
-
-				scheduleLiveStateUpdate(liveChannelIds, "channels-api", true);
+				const { channels, liveStreamsByChannelId } = trackedResult;
 
 				const offlineFavoriteIds: Array<string> = [];
-				for (const channel of followedChannelsResult) {
-					if (channel.isFavorite && !liveStreamsByChannelId.has(channel.channelId)) {
+				for (const channel of channels) {
+					if (
+						channel.rank === "favorite" &&
+						!liveStreamsByChannelId.has(channel.channelId)
+					) {
 						offlineFavoriteIds.push(channel.channelId);
 					}
 				}
@@ -90,45 +83,51 @@ export const Route = createFileRoute("/api/channels/")({
 							durationSeconds: cached.latestVod.durationSeconds,
 							createdAt: cached.latestVod.createdAt,
 							thumbnailUrl: cached.latestVod.thumbnailUrl,
+							videoType: cached.latestVod.videoType,
 						});
 					}
 				}
 
-				const favoriteChannels: Array<Channel> = [];
-				const liveNonFavoriteChannels: Array<Channel> = [];
+				const favoriteChannels: Array<TrackedChannel> = [];
+				const liveOtherChannels: Array<TrackedChannel> = [];
+
+				for (const channel of channels) {
+					if (channel.rank === "favorite") {
+						favoriteChannels.push(channel);
+					} else if (
+						channel.rank !== "hidden" &&
+						liveStreamsByChannelId.has(channel.channelId)
+					) {
+						liveOtherChannels.push(channel);
+					}
+				}
+
+				favoriteChannels.sort((a, b) => a.sortOrder - b.sortOrder);
+				liveOtherChannels.sort((a, b) => {
+					const rankDiff = getRankOrder(a.rank) - getRankOrder(b.rank);
+					if (rankDiff !== 0) return rankDiff;
 
-				for (const channel of followedChannelsResult) {
+					const aViewers = liveStreamsByChannelId.get(a.channelId)?.viewerCount ?? 0;
+					const bViewers = liveStreamsByChannelId.get(b.channelId)?.viewerCount ?? 0;
+					return bViewers - aViewers;
+				});
+
+				const allChannels: Array<Channel> = [];
+				for (const channel of [...favoriteChannels, ...liveOtherChannels]) {
 					const rawStream = liveStreamsByChannelId.get(channel.channelId);
-					const isLive = rawStream !== undefined;
-					const stream = rawStream !== undefined ? transformStream(rawStream) : null;
-
-					if (channel.isFavorite) {
-						favoriteChannels.push({
-							id: channel.channelId,
-							channelName: channel.channelName,
-							profileImage: channel.profileImageUrl,
-							isLive,
-							isFavorite: true,
-							stream,
-							latestVod: vodsByChannelId.get(channel.channelId) ?? null,
-						});
-						continue;
-					}
 
-					if (isLive) {
-						liveNonFavoriteChannels.push({
-							id: channel.channelId,
-							channelName: channel.channelName,
-							profileImage: channel.profileImageUrl,
-							isLive,
-							isFavorite: false,
-							stream,
-							latestVod: null,
-						});
-					}
+					allChannels.push({
+						id: channel.channelId,
+						channelName: channel.channelName,
+						profileImage: channel.profileImageUrl,
+						isLive: rawStream !== undefined,
+						rank: channel.rank,
+						preferredQuality: channel.preferredQuality,
+						stream: rawStream !== undefined ? transformStream(rawStream) : null,
+						latestVod: vodsByChannelId.get(channel.channelId) ?? null,
+					});
 				}
 
-				const allChannels = [...favoriteChannels, ...liveNonFavoriteChannels];
 				return Response.json(allChannels);
 			},
 		},
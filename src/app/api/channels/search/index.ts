@@ -1,5 +1,6 @@
 import { createFileRoute } from "@tanstack/react-router";
 
+import { parseVideoTypeFilter } from "@/src/features/vods/vods.validators";
 import { getUsers, getVideos } from "@/src/services/twitch-service";
 import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
 import { requireAuth } from "@/src/shared/utils/require-auth";
@@ -16,6 +17,7 @@ export const Route = createFileRoute("/api/channels/search/")({
 				const url = new URL(request.url);
 				const channelName = url.searchParams.get("channelName");
 				const limitParam = url.searchParams.get("limit");
+				const type = parseVideoTypeFilter(url.searchParams.get("type"));
 
 				if (channelName === null || channelName.trim() === "") {
 					return createErrorResponse(
@@ -35,6 +37,10 @@ export const Route = createFileRoute("/api/channels/search/")({
 					);
 				}
 
+				if (type instanceof Error) {
+					return createErrorResponse(type.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
 				const channelsResult = await getUsers({ logins: [channelName] });
 				if (channelsResult instanceof Error) {
 					return createErrorResponse(
@@ -53,7 +59,7 @@ export const Route = createFileRoute("/api/channels/search/")({
 					);
 				}
 
-				const videosResult = await getVideos(channel.id, limit);
+				const videosResult = await getVideos(channel.id, limit, type);
 				if (videosResult instanceof Error) {
 					return createErrorResponse(
 						videosResult.message,
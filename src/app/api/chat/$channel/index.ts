@@ -1,5 +1,6 @@
 import { createFileRoute } from "@tanstack/react-router";
 
+import { getLaunchErrorDetails } from "@/src/services/launcher-config-service";
 import { launchChatterino } from "@/src/services/chatterino-service";
 import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
 import { requireAuth } from "@/src/shared/utils/require-auth";
@@ -18,10 +19,15 @@ export const Route = createFileRoute("/api/chat/$channel/")({
 				const result = await launchChatterino(channel);
 
 				if (result instanceof Error) {
-					return createErrorResponse(result.message, ErrorCode.CHATTERINO_ERROR, 500);
+					return createErrorResponse(
+						result.message,
+						ErrorCode.CHATTERINO_ERROR,
+						500,
+						getLaunchErrorDetails(result),
+					);
 				}
 
-				return Response.json({ success: true });
+				return Response.json({ success: true, session: result });
 			},
 		},
 	},
@@ -0,0 +1,38 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { parseClipsQuery } from "@/src/features/clips/clips.validators";
+import { CategoryNotFoundError, getClipsForQuery } from "@/src/services/clips-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/clips/")({
+	server: {
+		handlers: {
+			GET: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const url = new URL(request.url);
+				const query = parseClipsQuery(url.searchParams);
+
+				if (query instanceof Error) {
+					return createErrorResponse(query.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = await getClipsForQuery(query);
+
+				if (result instanceof CategoryNotFoundError) {
+					return createErrorResponse(result.message, ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.TWITCH_API_ERROR, 500);
+				}
+
+				return Response.json(result);
+			},
+		},
+	},
+});
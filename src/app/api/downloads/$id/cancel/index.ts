@@ -0,0 +1,37 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { parseDownloadId } from "@/src/features/downloads/downloads.validators";
+import { cancelDownload } from "@/src/services/download-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/downloads/$id/cancel/")({
+	server: {
+		handlers: {
+			POST: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parseDownloadId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = cancelDownload(id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.INTERNAL_ERROR, 500);
+				}
+
+				if (result === null) {
+					return createErrorResponse("Download not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				return Response.json({ download: result });
+			},
+		},
+	},
+});
@@ -0,0 +1,76 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { deleteDownload, getDownloadById } from "@/src/features/downloads/downloads.repository";
+import { isActiveDownload, parseDownloadId } from "@/src/features/downloads/downloads.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/downloads/$id/")({
+	server: {
+		handlers: {
+			GET: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parseDownloadId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const download = getDownloadById(id);
+
+				if (download instanceof Error) {
+					return createErrorResponse(download.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (download === null) {
+					return createErrorResponse("Download not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				return Response.json({ download });
+			},
+			// Removes the download from the list; the file itself stays on disk
+			DELETE: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parseDownloadId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const download = getDownloadById(id);
+
+				if (download instanceof Error) {
+					return createErrorResponse(download.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (download === null) {
+					return createErrorResponse("Download not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (isActiveDownload(download)) {
+					return createErrorResponse(
+						"Cancel the download before removing it",
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const result = deleteDownload(id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
@@ -0,0 +1,57 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getDownloads } from "@/src/features/downloads/downloads.repository";
+import { parseCreateDownloadRequest } from "@/src/features/downloads/downloads.validators";
+import { AlreadyRecordingError, createDownload } from "@/src/services/download-service";
+import { VideoNotFoundError } from "@/src/services/twitch-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/downloads/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const result = getDownloads();
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ downloads: result });
+			},
+			POST: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const body = await parseRequestBody(request, parseCreateDownloadRequest);
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const result = await createDownload(body);
+
+				if (result instanceof VideoNotFoundError) {
+					return createErrorResponse(result.message, ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (result instanceof AlreadyRecordingError) {
+					return createErrorResponse(result.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.INTERNAL_ERROR, 500);
+				}
+
+				return Response.json({ download: result }, { status: 201 });
+			},
+		},
+	},
+});
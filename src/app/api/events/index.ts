@@ -0,0 +1,33 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { subscribeToLiveEvents } from "@/src/services/live-state-service";
+import { subscribeToNotifications } from "@/src/services/notification-service";
+import { createEventStreamResponse } from "@/src/shared/utils/server-sent-events";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/events/")({
+	server: {
+		handlers: {
+			GET: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				return createEventStreamResponse(request, (send) => {
+					const unsubscribeLiveEvents = subscribeToLiveEvents((event) => {
+						send(event.type, event);
+					});
+					const unsubscribeNotifications = subscribeToNotifications((notification) => {
+						send("notification", notification);
+					});
+
+					return () => {
+						unsubscribeLiveEvents();
+						unsubscribeNotifications();
+					};
+				});
+			},
+		},
+	},
+});
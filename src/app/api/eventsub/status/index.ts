@@ -0,0 +1,19 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getEventSubStatus } from "@/src/services/eventsub-service";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/eventsub/status/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				return Response.json(getEventSubStatus());
+			},
+		},
+	},
+});
@@ -0,0 +1,112 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { parseEventSubWebhookBody } from "@/src/features/eventsub/eventsub.validators";
+import {
+	handleEventSubNotification,
+	isFreshEventSubMessage,
+	verifyEventSubSignature,
+} from "@/src/services/eventsub-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { getEventSubWebhookSecret } from "@/src/shared/utils/eventsub-config";
+
+// Receives signed deliveries such as `twitch event trigger stream.online --forward-address
+// http://localhost:9442/api/eventsub/webhook --secret <EVENTSUB_WEBHOOK_SECRET>`. Twitch calls
+// this directly, so the signature stands in for the usual session check.
+export const Route = createFileRoute("/api/eventsub/webhook/")({
+	server: {
+		handlers: {
+			POST: async function handler({ request }) {
+				const secret = getEventSubWebhookSecret();
+
+				if (secret === undefined) {
+					return createErrorResponse(
+						"EventSub webhook receiver is disabled",
+						ErrorCode.NOT_FOUND,
+						404,
+					);
+				}
+
+				const messageId = request.headers.get("Twitch-Eventsub-Message-Id");
+				const messageTimestamp = request.headers.get("Twitch-Eventsub-Message-Timestamp");
+				const messageType = request.headers.get("Twitch-Eventsub-Message-Type");
+				const signature = request.headers.get("Twitch-Eventsub-Message-Signature");
+
+				if (
+					messageId === null ||
+					messageTimestamp === null ||
+					messageType === null ||
+					signature === null
+				) {
+					return createErrorResponse(
+						"Missing EventSub headers",
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				// The signature covers the exact bytes sent, so read the body before parsing it
+				const body = await request.text();
+
+				if (
+					!verifyEventSubSignature({
+						secret,
+						messageId,
+						messageTimestamp,
+						body,
+						signature,
+					})
+				) {
+					return createErrorResponse("Invalid signature", ErrorCode.FORBIDDEN, 403);
+				}
+
+				// Redeliveries still get a 2xx so Twitch stops retrying
+				if (!isFreshEventSubMessage(messageId, messageTimestamp)) {
+					return new Response(null, { status: 204 });
+				}
+
+				let data: unknown;
+				try {
+					data = JSON.parse(body);
+				} catch {
+					return createErrorResponse("Invalid JSON", ErrorCode.PARSE_ERROR, 400);
+				}
+
+				const webhookBody = parseEventSubWebhookBody(data);
+
+				if (webhookBody instanceof Error) {
+					return createErrorResponse(webhookBody.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				if (messageType === "webhook_callback_verification") {
+					if (webhookBody.challenge === null) {
+						return createErrorResponse(
+							"Missing challenge",
+							ErrorCode.INVALID_INPUT,
+							400,
+						);
+					}
+
+					return new Response(webhookBody.challenge, {
+						headers: { "Content-Type": "text/plain" },
+					});
+				}
+
+				if (messageType === "revocation") {
+					console.warn(
+						`[eventsub] ${webhookBody.subscriptionType} webhook subscription revoked: ${webhookBody.status}`,
+					);
+					return new Response(null, { status: 204 });
+				}
+
+				if (messageType === "notification") {
+					await handleEventSubNotification(
+						webhookBody.subscriptionType,
+						webhookBody.event,
+					);
+				}
+
+				return new Response(null, { status: 204 });
+			},
+		},
+	},
+});
@@ -1,6 +1,6 @@
 import { createFileRoute } from "@tanstack/react-router";
 
-import { addFavorite } from "@/src/features/channels/followed-channels.repository";
+import { ChannelNotFoundError, updateChannelRank } from "@/src/services/channel-rank-service";
 import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
 import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
 import { validateAddFavoriteRequest } from "@/src/features/channels/channels.validators";
@@ -21,7 +21,11 @@ export const Route = createFileRoute("/api/favorites/")({
 					return body;
 				}
 
-				const result = addFavorite(body);
+				const result = await updateChannelRank(body.id, "favorite");
+
+				if (result instanceof ChannelNotFoundError) {
+					return createErrorResponse("Channel not found", ErrorCode.NOT_FOUND, 404);
+				}
 
 				if (result instanceof Error) {
 					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
@@ -0,0 +1,49 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	clearChannelRank,
+	getChannelRank,
+} from "@/src/features/channel-ranks/channel-ranks.repository";
+import { isValidChannelId } from "@/src/features/hidden-channels/hidden-channels.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/hidden-channels/$id/")({
+	server: {
+		handlers: {
+			DELETE: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				if (!isValidChannelId(params.id)) {
+					return createErrorResponse(
+						"Channel id must be a numeric Twitch user id",
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const stored = getChannelRank(params.id);
+
+				if (stored instanceof Error) {
+					return createErrorResponse(stored.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (stored?.rank !== "hidden") {
+					return createErrorResponse("Channel is not hidden", ErrorCode.NOT_FOUND, 404);
+				}
+
+				// Clearing the rank drops the channel back to its follow state
+				const result = clearChannelRank(params.id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
@@ -0,0 +1,68 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	getRankedChannels,
+	setChannelRank,
+} from "@/src/features/channel-ranks/channel-ranks.repository";
+import { validateHideChannelRequest } from "@/src/features/hidden-channels/hidden-channels.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+import type { HiddenChannel } from "@/src/features/hidden-channels/hidden-channels.types";
+
+export const Route = createFileRoute("/api/hidden-channels/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const rankedChannels = getRankedChannels("hidden");
+
+				if (rankedChannels instanceof Error) {
+					return createErrorResponse(
+						rankedChannels.message,
+						ErrorCode.DATABASE_ERROR,
+						500,
+					);
+				}
+
+				const channels: Array<HiddenChannel> = [];
+				for (const channel of rankedChannels) {
+					channels.push({
+						channelId: channel.channelId,
+						channelName: channel.channelName,
+						profileImageUrl: channel.profileImageUrl,
+						hiddenAt: channel.updatedAt,
+					});
+				}
+
+				return Response.json({ channels });
+			},
+
+			POST: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const body = await parseRequestBody(request, validateHideChannelRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const result = setChannelRank({ ...body, rank: "hidden" });
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ success: true }, { status: 201 });
+			},
+		},
+	},
+});
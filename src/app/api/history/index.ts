@@ -0,0 +1,64 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	getChannelWatchTotals,
+	getDailyWatchTotals,
+	getRecentWatchSessions,
+	getWatchTotals,
+} from "@/src/features/history/history.repository";
+import { parseHistoryDays } from "@/src/features/history/history.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const Route = createFileRoute("/api/history/")({
+	server: {
+		handlers: {
+			GET: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const url = new URL(request.url);
+				const days = parseHistoryDays(url.searchParams.get("days"));
+
+				if (days instanceof Error) {
+					return createErrorResponse(days.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const since = new Date(Date.now() - days * MS_PER_DAY).toISOString();
+
+				const totals = getWatchTotals(since);
+				if (totals instanceof Error) {
+					return createErrorResponse(totals.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const channels = getChannelWatchTotals(since);
+				if (channels instanceof Error) {
+					return createErrorResponse(channels.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const daily = getDailyWatchTotals(since);
+				if (daily instanceof Error) {
+					return createErrorResponse(daily.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const recent = getRecentWatchSessions();
+				if (recent instanceof Error) {
+					return createErrorResponse(recent.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({
+					days,
+					totalSeconds: totals.totalSeconds,
+					sessionCount: totals.sessionCount,
+					channels,
+					daily,
+					recent,
+				});
+			},
+		},
+	},
+});
@@ -0,0 +1,82 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	getLauncherSettings,
+	updateLauncherSettings,
+} from "@/src/features/launcher/launcher.repository";
+import { validateUpdateLauncherSettingsRequest } from "@/src/features/launcher/launcher.validators";
+import { getPlayerProfileById } from "@/src/features/player-profiles/player-profiles.repository";
+import { EXECUTABLE_KINDS, getExecutableStatus } from "@/src/services/launcher-config-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+function createLauncherResponse() {
+	const settings = getLauncherSettings();
+
+	if (settings instanceof Error) {
+		return createErrorResponse(settings.message, ErrorCode.DATABASE_ERROR, 500);
+	}
+
+	const executables = [];
+	for (const kind of EXECUTABLE_KINDS) {
+		executables.push(getExecutableStatus(kind));
+	}
+
+	return Response.json({ settings, executables });
+}
+
+export const Route = createFileRoute("/api/launcher/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				return createLauncherResponse();
+			},
+
+			PUT: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const body = await parseRequestBody(request, validateUpdateLauncherSettingsRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				if (
+					body.defaultPlayerProfileId !== undefined &&
+					body.defaultPlayerProfileId !== null
+				) {
+					const profile = getPlayerProfileById(body.defaultPlayerProfileId);
+
+					if (profile instanceof Error) {
+						return createErrorResponse(profile.message, ErrorCode.DATABASE_ERROR, 500);
+					}
+
+					if (profile === null) {
+						return createErrorResponse(
+							"Player profile not found",
+							ErrorCode.NOT_FOUND,
+							404,
+						);
+					}
+				}
+
+				const result = updateLauncherSettings(body);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return createLauncherResponse();
+			},
+		},
+	},
+});
@@ -0,0 +1,90 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	deleteLayoutPreset,
+	getLayoutPresetByName,
+	updateLayoutPreset,
+} from "@/src/features/multi-view/layout-presets.repository";
+import {
+	parseLayoutPresetId,
+	validateLayoutPresetRequest,
+} from "@/src/features/multi-view/multi-view.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/layout-presets/$id/")({
+	server: {
+		handlers: {
+			PUT: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parseLayoutPresetId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const body = await parseRequestBody(request, validateLayoutPresetRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const existing = getLayoutPresetByName(body.name);
+
+				if (existing instanceof Error) {
+					return createErrorResponse(existing.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (existing !== null && existing.id !== id) {
+					return createErrorResponse(
+						`A layout preset named "${body.name}" already exists`,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const preset = updateLayoutPreset(id, body);
+
+				if (preset instanceof Error) {
+					return createErrorResponse(preset.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (preset === null) {
+					return createErrorResponse("Layout preset not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				return Response.json({ preset });
+			},
+
+			DELETE: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parseLayoutPresetId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = deleteLayoutPreset(id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (!result) {
+					return createErrorResponse("Layout preset not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
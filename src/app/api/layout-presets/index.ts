@@ -0,0 +1,67 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	createLayoutPreset,
+	getAllLayoutPresets,
+	getLayoutPresetByName,
+} from "@/src/features/multi-view/layout-presets.repository";
+import { validateLayoutPresetRequest } from "@/src/features/multi-view/multi-view.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/layout-presets/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const presets = getAllLayoutPresets();
+
+				if (presets instanceof Error) {
+					return createErrorResponse(presets.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ presets });
+			},
+
+			POST: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const body = await parseRequestBody(request, validateLayoutPresetRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const existing = getLayoutPresetByName(body.name);
+
+				if (existing instanceof Error) {
+					return createErrorResponse(existing.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (existing !== null) {
+					return createErrorResponse(
+						`A layout preset named "${body.name}" already exists`,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const preset = createLayoutPreset(body);
+
+				if (preset instanceof Error) {
+					return createErrorResponse(preset.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ preset }, { status: 201 });
+			},
+		},
+	},
+});
@@ -0,0 +1,38 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { parseLibraryFileId } from "@/src/features/library/library.validators";
+import { deleteLibraryFileFromDisk } from "@/src/services/library-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/library/$id/")({
+	server: {
+		handlers: {
+			// Unlike removing a download, this deletes the file from disk
+			DELETE: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parseLibraryFileId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = deleteLibraryFileFromDisk(id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.INTERNAL_ERROR, 500);
+				}
+
+				if (result === null) {
+					return createErrorResponse("Library file not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
@@ -0,0 +1,26 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getLibrary } from "@/src/services/library-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/library/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const library = getLibrary();
+
+				if (library instanceof Error) {
+					return createErrorResponse(library.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json(library);
+			},
+		},
+	},
+});
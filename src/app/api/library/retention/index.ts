@@ -0,0 +1,27 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { applyRetention } from "@/src/services/library-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/library/retention/")({
+	server: {
+		handlers: {
+			// Runs the retention rule now instead of waiting for the next scheduled run
+			POST: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const retention = applyRetention();
+
+				if (retention instanceof Error) {
+					return createErrorResponse(retention.message, ErrorCode.INTERNAL_ERROR, 500);
+				}
+
+				return Response.json({ retention });
+			},
+		},
+	},
+});
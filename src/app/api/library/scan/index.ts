@@ -0,0 +1,26 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { scanLibrary } from "@/src/services/library-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/library/scan/")({
+	server: {
+		handlers: {
+			POST: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const scan = await scanLibrary();
+
+				if (scan instanceof Error) {
+					return createErrorResponse(scan.message, ErrorCode.INTERNAL_ERROR, 500);
+				}
+
+				return Response.json({ scan });
+			},
+		},
+	},
+});
@@ -0,0 +1,56 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	clearNotifications,
+	getRecentNotifications,
+} from "@/src/features/notifications/notifications.repository";
+import { parseNotificationLimit } from "@/src/features/notifications/notifications.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/notifications/")({
+	server: {
+		handlers: {
+			GET: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const url = new URL(request.url);
+				const limit = parseNotificationLimit(url.searchParams.get("limit"));
+
+				if (limit instanceof Error) {
+					return createErrorResponse(limit.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const notifications = getRecentNotifications(limit);
+
+				if (notifications instanceof Error) {
+					return createErrorResponse(
+						notifications.message,
+						ErrorCode.DATABASE_ERROR,
+						500,
+					);
+				}
+
+				return Response.json({ notifications });
+			},
+
+			DELETE: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const result = clearNotifications();
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
@@ -0,0 +1,68 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	deleteNotificationRule,
+	upsertNotificationRule,
+} from "@/src/features/notifications/notifications.repository";
+import { validateNotificationRuleRequest } from "@/src/features/notifications/notifications.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/notifications/rules/$id/")({
+	server: {
+		handlers: {
+			PUT: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				if (!/^[0-9]+$/.test(params.id)) {
+					return createErrorResponse("Invalid channel ID", ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const body = await parseRequestBody(request, validateNotificationRuleRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const rule = upsertNotificationRule(params.id, body);
+
+				if (rule instanceof Error) {
+					return createErrorResponse(rule.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ rule });
+			},
+
+			DELETE: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				if (!/^[0-9]+$/.test(params.id)) {
+					return createErrorResponse("Invalid channel ID", ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = deleteNotificationRule(params.id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (!result) {
+					return createErrorResponse(
+						"Notification rule not found",
+						ErrorCode.NOT_FOUND,
+						404,
+					);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
@@ -0,0 +1,26 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getNotificationRules } from "@/src/features/notifications/notifications.repository";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/notifications/rules/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const rules = getNotificationRules();
+
+				if (rules instanceof Error) {
+					return createErrorResponse(rules.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ rules });
+			},
+		},
+	},
+});
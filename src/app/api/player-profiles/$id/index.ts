@@ -0,0 +1,98 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	deletePlayerProfile,
+	getPlayerProfileByName,
+	updatePlayerProfile,
+} from "@/src/features/player-profiles/player-profiles.repository";
+import {
+	parsePlayerProfileId,
+	validatePlayerProfileRequest,
+} from "@/src/features/player-profiles/player-profiles.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/player-profiles/$id/")({
+	server: {
+		handlers: {
+			PUT: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parsePlayerProfileId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const body = await parseRequestBody(request, validatePlayerProfileRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const existing = getPlayerProfileByName(body.name);
+
+				if (existing instanceof Error) {
+					return createErrorResponse(existing.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (existing !== null && existing.id !== id) {
+					return createErrorResponse(
+						`A player profile named "${body.name}" already exists`,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const profile = updatePlayerProfile(id, body);
+
+				if (profile instanceof Error) {
+					return createErrorResponse(profile.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (profile === null) {
+					return createErrorResponse(
+						"Player profile not found",
+						ErrorCode.NOT_FOUND,
+						404,
+					);
+				}
+
+				return Response.json({ profile });
+			},
+
+			DELETE: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parsePlayerProfileId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = deletePlayerProfile(id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (!result) {
+					return createErrorResponse(
+						"Player profile not found",
+						ErrorCode.NOT_FOUND,
+						404,
+					);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
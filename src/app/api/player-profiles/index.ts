@@ -0,0 +1,77 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getLauncherSettings } from "@/src/features/launcher/launcher.repository";
+import {
+	createPlayerProfile,
+	getAllPlayerProfiles,
+	getPlayerProfileByName,
+} from "@/src/features/player-profiles/player-profiles.repository";
+import { validatePlayerProfileRequest } from "@/src/features/player-profiles/player-profiles.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/player-profiles/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const profiles = getAllPlayerProfiles();
+
+				if (profiles instanceof Error) {
+					return createErrorResponse(profiles.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const settings = getLauncherSettings();
+
+				if (settings instanceof Error) {
+					return createErrorResponse(settings.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({
+					profiles,
+					defaultProfileId: settings.defaultPlayerProfileId,
+				});
+			},
+
+			POST: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const body = await parseRequestBody(request, validatePlayerProfileRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const existing = getPlayerProfileByName(body.name);
+
+				if (existing instanceof Error) {
+					return createErrorResponse(existing.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (existing !== null) {
+					return createErrorResponse(
+						`A player profile named "${body.name}" already exists`,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const profile = createPlayerProfile(body);
+
+				if (profile instanceof Error) {
+					return createErrorResponse(profile.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ profile }, { status: 201 });
+			},
+		},
+	},
+});
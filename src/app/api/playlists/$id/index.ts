@@ -0,0 +1,151 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	deletePlaylist,
+	getPlaylistById,
+	getPlaylistByName,
+	getPlaylistItems,
+	renamePlaylist,
+} from "@/src/features/playlists/playlists.repository";
+import {
+	parsePlaylistId,
+	validatePlaylistNameRequest,
+} from "@/src/features/playlists/playlists.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/playlists/$id/")({
+	server: {
+		handlers: {
+			GET: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parsePlaylistId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const playlist = getPlaylistById(id);
+
+				if (playlist instanceof Error) {
+					return createErrorResponse(playlist.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (playlist === null) {
+					return createErrorResponse("Playlist not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				const items = getPlaylistItems(id);
+
+				if (items instanceof Error) {
+					return createErrorResponse(items.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ playlist, items });
+			},
+
+			PUT: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parsePlaylistId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const body = await parseRequestBody(request, validatePlaylistNameRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const playlist = getPlaylistById(id);
+
+				if (playlist instanceof Error) {
+					return createErrorResponse(playlist.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (playlist === null) {
+					return createErrorResponse("Playlist not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (playlist.isWatchLater) {
+					return createErrorResponse(
+						"Watch Later can't be renamed",
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const existing = getPlaylistByName(body.name);
+
+				if (existing instanceof Error) {
+					return createErrorResponse(existing.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (existing !== null && existing.id !== id) {
+					return createErrorResponse(
+						`A playlist named "${body.name}" already exists`,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const result = renamePlaylist(id, body.name);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ playlist: { ...playlist, name: body.name } });
+			},
+
+			DELETE: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parsePlaylistId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const playlist = getPlaylistById(id);
+
+				if (playlist instanceof Error) {
+					return createErrorResponse(playlist.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (playlist === null) {
+					return createErrorResponse("Playlist not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (playlist.isWatchLater) {
+					return createErrorResponse(
+						"Watch Later can't be deleted",
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const result = deletePlaylist(id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
@@ -0,0 +1,41 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { removePlaylistItem } from "@/src/features/playlists/playlists.repository";
+import { parsePlaylistId } from "@/src/features/playlists/playlists.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/playlists/$id/items/$vodId/")({
+	server: {
+		handlers: {
+			DELETE: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parsePlaylistId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = removePlaylistItem(id, params.vodId);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (!result) {
+					return createErrorResponse(
+						"VOD is not in this playlist",
+						ErrorCode.NOT_FOUND,
+						404,
+					);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
@@ -0,0 +1,59 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getPlaylistById } from "@/src/features/playlists/playlists.repository";
+import {
+	parsePlaylistId,
+	validateAddPlaylistItemRequest,
+} from "@/src/features/playlists/playlists.validators";
+import { addVodToPlaylist } from "@/src/services/playlist-service";
+import { VideoNotFoundError } from "@/src/services/twitch-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/playlists/$id/items/")({
+	server: {
+		handlers: {
+			POST: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parsePlaylistId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const body = await parseRequestBody(request, validateAddPlaylistItemRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const playlist = getPlaylistById(id);
+
+				if (playlist instanceof Error) {
+					return createErrorResponse(playlist.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (playlist === null) {
+					return createErrorResponse("Playlist not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				const result = await addVodToPlaylist(id, body.vodId);
+
+				if (result instanceof VideoNotFoundError) {
+					return createErrorResponse(result.message, ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.INTERNAL_ERROR, 500);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
@@ -0,0 +1,121 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { parseWatchProfileId } from "@/src/features/player-profiles/player-profiles.validators";
+import {
+	getNextUnwatchedItem,
+	getPlaylistById,
+} from "@/src/features/playlists/playlists.repository";
+import { parsePlaylistId } from "@/src/features/playlists/playlists.validators";
+import {
+	PlayerLaunchError,
+	PlayerProfileNotFoundError,
+	resolveWatchProfile,
+	watchVod,
+} from "@/src/services/watch-launch-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+import { parseWatchQuality } from "@/src/shared/utils/stream-quality";
+
+export const Route = createFileRoute("/api/playlists/$id/play-next/")({
+	server: {
+		handlers: {
+			POST: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parsePlaylistId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				let body: unknown = null;
+
+				try {
+					body = await request.json();
+				} catch {
+					// No body or invalid JSON - use the default profile and quality
+				}
+
+				const profileId = parseWatchProfileId(body);
+
+				if (profileId instanceof Error) {
+					return createErrorResponse(profileId.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const requestedQuality = parseWatchQuality(body);
+
+				if (requestedQuality instanceof Error) {
+					return createErrorResponse(
+						requestedQuality.message,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const profile = resolveWatchProfile(profileId);
+
+				if (profile instanceof PlayerProfileNotFoundError) {
+					return createErrorResponse(profile.message, ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (profile instanceof Error) {
+					return createErrorResponse(profile.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const playlist = getPlaylistById(id);
+
+				if (playlist instanceof Error) {
+					return createErrorResponse(playlist.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (playlist === null) {
+					return createErrorResponse("Playlist not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				const nextItem = getNextUnwatchedItem(id);
+
+				if (nextItem instanceof Error) {
+					return createErrorResponse(nextItem.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (nextItem === null) {
+					return createErrorResponse(
+						"Everything in this playlist has been watched",
+						ErrorCode.NOT_FOUND,
+						404,
+					);
+				}
+
+				const { playbackPositionSeconds, ...item } = nextItem;
+				const startTimeSeconds =
+					playbackPositionSeconds > 0 ? playbackPositionSeconds : undefined;
+
+				const result = await watchVod(item.vodId, {
+					profile,
+					requestedQuality,
+					startTimeSeconds,
+					channelName: item.channelName,
+					title: item.title,
+				});
+
+				if (result instanceof PlayerLaunchError) {
+					return createErrorResponse(
+						result.message,
+						ErrorCode.STREAMLINK_ERROR,
+						500,
+						result.details,
+					);
+				}
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ success: true, session: result, item });
+			},
+		},
+	},
+});
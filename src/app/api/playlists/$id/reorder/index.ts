@@ -0,0 +1,43 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { reorderPlaylistItems } from "@/src/features/playlists/playlists.repository";
+import {
+	parsePlaylistId,
+	validateReorderPlaylistRequest,
+} from "@/src/features/playlists/playlists.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/playlists/$id/reorder/")({
+	server: {
+		handlers: {
+			PUT: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const id = parsePlaylistId(params.id);
+
+				if (id instanceof Error) {
+					return createErrorResponse(id.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const body = await parseRequestBody(request, validateReorderPlaylistRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const result = reorderPlaylistItems(id, body.orderedVodIds);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
@@ -0,0 +1,78 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import {
+	createPlaylist,
+	getPlaylistById,
+	getPlaylistByName,
+	getPlaylists,
+} from "@/src/features/playlists/playlists.repository";
+import { validatePlaylistNameRequest } from "@/src/features/playlists/playlists.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/playlists/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const playlists = getPlaylists();
+
+				if (playlists instanceof Error) {
+					return createErrorResponse(playlists.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ playlists });
+			},
+
+			POST: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const body = await parseRequestBody(request, validatePlaylistNameRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const existing = getPlaylistByName(body.name);
+
+				if (existing instanceof Error) {
+					return createErrorResponse(existing.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (existing !== null) {
+					return createErrorResponse(
+						`A playlist named "${body.name}" already exists`,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const created = createPlaylist(body.name);
+
+				if (created instanceof Error) {
+					return createErrorResponse(created.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const playlist = getPlaylistById(created.id);
+
+				if (playlist instanceof Error || playlist === null) {
+					return createErrorResponse(
+						"Failed to load the new playlist",
+						ErrorCode.DATABASE_ERROR,
+						500,
+					);
+				}
+
+				return Response.json({ playlist }, { status: 201 });
+			},
+		},
+	},
+});
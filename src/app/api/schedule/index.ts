@@ -0,0 +1,37 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getScheduleSegments } from "@/src/features/schedule/schedule.repository";
+import { parseScheduleRange } from "@/src/features/schedule/schedule.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/schedule/")({
+	server: {
+		handlers: {
+			GET: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const url = new URL(request.url);
+				const range = parseScheduleRange(
+					url.searchParams.get("start"),
+					url.searchParams.get("end"),
+				);
+
+				if (range instanceof Error) {
+					return createErrorResponse(range.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const segments = getScheduleSegments(range.start, range.end);
+
+				if (segments instanceof Error) {
+					return createErrorResponse(segments.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json(segments);
+			},
+		},
+	},
+});
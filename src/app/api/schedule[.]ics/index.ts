@@ -0,0 +1,41 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getScheduleSegments } from "@/src/features/schedule/schedule.repository";
+import { formatScheduleCalendar } from "@/src/services/schedule-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Keeps recently finished streams on the calendar alongside upcoming ones
+const PAST_DAYS = 7;
+const UPCOMING_DAYS = 31;
+
+export const Route = createFileRoute("/api/schedule.ics/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const now = Date.now();
+				const segments = getScheduleSegments(
+					new Date(now - PAST_DAYS * MS_PER_DAY).toISOString(),
+					new Date(now + UPCOMING_DAYS * MS_PER_DAY).toISOString(),
+				);
+
+				if (segments instanceof Error) {
+					return createErrorResponse(segments.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return new Response(formatScheduleCalendar(segments), {
+					headers: {
+						"Content-Type": "text/calendar; charset=utf-8",
+						"Content-Disposition": 'inline; filename="draks-tv-schedule.ics"',
+					},
+				});
+			},
+		},
+	},
+});
@@ -0,0 +1,30 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { stopPlayerSession } from "@/src/services/player-session-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/sessions/$id/")({
+	server: {
+		handlers: {
+			DELETE: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const result = stopPlayerSession(params.id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.INTERNAL_ERROR, 500);
+				}
+
+				if (result === null) {
+					return createErrorResponse("Session not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				return Response.json({ session: result });
+			},
+		},
+	},
+});
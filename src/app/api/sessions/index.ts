@@ -0,0 +1,19 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getPlayerSessions } from "@/src/services/player-session-service";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/sessions/")({
+	server: {
+		handlers: {
+			GET: async function handler() {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				return Response.json({ sessions: getPlayerSessions() });
+			},
+		},
+	},
+});
@@ -2,6 +2,7 @@ import { createFileRoute } from "@tanstack/react-router";
 
 import { scheduleLatestVodUpdate } from "@/src/services/video-cache-service";
 import { upsertVodsFromTwitch } from "@/src/features/vods/vods.repository";
+import { parseVideoTypeFilter } from "@/src/features/vods/vods.validators";
 import { getVideos } from "@/src/services/twitch-service";
 import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
 import { requireAuth } from "@/src/shared/utils/require-auth";
@@ -18,6 +19,7 @@ export const Route = createFileRoute("/api/videos/")({
 				const url = new URL(request.url);
 				const channelId = url.searchParams.get("channelId");
 				const limitParam = url.searchParams.get("limit");
+				const type = parseVideoTypeFilter(url.searchParams.get("type"));
 
 				if (channelId === null) {
 					return createErrorResponse(
@@ -37,7 +39,11 @@ export const Route = createFileRoute("/api/videos/")({
 					);
 				}
 
-				const result = await getVideos(channelId, limit);
+				if (type instanceof Error) {
+					return createErrorResponse(type.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = await getVideos(channelId, limit, type);
 
 				if (result instanceof Error) {
 					return createErrorResponse(result.message, ErrorCode.TWITCH_API_ERROR, 500);
@@ -48,7 +54,8 @@ export const Route = createFileRoute("/api/videos/")({
 					return createErrorResponse(upsertResult.message, ErrorCode.DATABASE_ERROR, 500);
 				}
 
-				const newestVideo = result[0];
+				// The channel card's latest VOD is always the newest past broadcast
+				const newestVideo = type === "archive" ? result[0] : undefined;
 				if (newestVideo !== undefined) {
 					scheduleLatestVodUpdate(channelId, newestVideo.id, newestVideo.createdAt);
 				}
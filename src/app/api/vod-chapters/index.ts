@@ -0,0 +1,34 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { parseVodChapterIds } from "@/src/features/vod-chapters/vod-chapters.validators";
+import { getVodChapterLists } from "@/src/services/vod-chapters-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/vod-chapters/")({
+	server: {
+		handlers: {
+			GET: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const url = new URL(request.url);
+				const ids = parseVodChapterIds(url.searchParams.get("ids"));
+
+				if (ids instanceof Error) {
+					return createErrorResponse(ids.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = await getVodChapterLists(ids);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.TWITCH_API_ERROR, 500);
+				}
+
+				return Response.json({ chapters: result });
+			},
+		},
+	},
+});
@@ -0,0 +1,30 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { dismissRecentProgress } from "@/src/features/vods/vods.repository";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/vod-progress/$id/dismiss/")({
+	server: {
+		handlers: {
+			POST: async function handler({ params }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const result = dismissRecentProgress(params.id);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (!result) {
+					return createErrorResponse("VOD not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				return Response.json({ success: true });
+			},
+		},
+	},
+});
@@ -58,6 +58,10 @@ export const Route = createFileRoute("/api/vod-progress/")({
 					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
 				}
 
+				if (!result) {
+					return createErrorResponse("VOD not found", ErrorCode.NOT_FOUND, 404);
+				}
+
 				return Response.json({ success: true }, { status: 201 });
 			},
 		},
@@ -0,0 +1,58 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getWatchedVodIds, setVodsWatched } from "@/src/features/vods/vods.repository";
+import {
+	parseWatchedVodIdsParam,
+	validateSetWatchedRequest,
+} from "@/src/features/vods/vods.validators";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/vod-progress/watched/")({
+	server: {
+		handlers: {
+			GET: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const url = new URL(request.url);
+				const ids = parseWatchedVodIdsParam(url.searchParams.get("ids"));
+
+				if (ids instanceof Error) {
+					return createErrorResponse(ids.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const result = getWatchedVodIds(ids);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ watchedVodIds: result });
+			},
+			PUT: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const body = await parseRequestBody(request, validateSetWatchedRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const result = setVodsWatched(body.vodIds, body.watched);
+
+				if (result instanceof Error) {
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				return Response.json({ updatedCount: result });
+			},
+		},
+	},
+});
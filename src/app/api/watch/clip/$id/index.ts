@@ -0,0 +1,92 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getClipLaunchDetails } from "@/src/features/clips/clips.repository";
+import { parseWatchProfileId } from "@/src/features/player-profiles/player-profiles.validators";
+import { getLaunchErrorDetails } from "@/src/services/launcher-config-service";
+import { launchClip } from "@/src/services/streamlink-service";
+import {
+	PlayerProfileNotFoundError,
+	resolveWatchProfile,
+} from "@/src/services/watch-launch-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+import { DEFAULT_STREAM_QUALITY, parseWatchQuality } from "@/src/shared/utils/stream-quality";
+
+const CLIP_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export const Route = createFileRoute("/api/watch/clip/$id/")({
+	server: {
+		handlers: {
+			POST: async function handler({ params, request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const { id } = params;
+
+				if (!CLIP_ID_PATTERN.test(id)) {
+					return createErrorResponse("Invalid clip ID", ErrorCode.INVALID_INPUT, 400);
+				}
+
+				let body: unknown = null;
+
+				try {
+					body = await request.json();
+				} catch {
+					// No body or invalid JSON - launch with the defaults
+				}
+
+				const profileId = parseWatchProfileId(body);
+
+				if (profileId instanceof Error) {
+					return createErrorResponse(profileId.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const profile = resolveWatchProfile(profileId);
+
+				if (profile instanceof PlayerProfileNotFoundError) {
+					return createErrorResponse(profile.message, ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (profile instanceof Error) {
+					return createErrorResponse(profile.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const requestedQuality = parseWatchQuality(body);
+
+				if (requestedQuality instanceof Error) {
+					return createErrorResponse(
+						requestedQuality.message,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const clipDetails = getClipLaunchDetails(id);
+
+				if (clipDetails instanceof Error) {
+					return createErrorResponse(clipDetails.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const result = await launchClip(id, {
+					profile,
+					quality: requestedQuality ?? DEFAULT_STREAM_QUALITY,
+					channelName: clipDetails?.channelName ?? null,
+					title: clipDetails?.title ?? null,
+				});
+
+				if (result instanceof Error) {
+					return createErrorResponse(
+						result.message,
+						ErrorCode.STREAMLINK_ERROR,
+						500,
+						getLaunchErrorDetails(result),
+					);
+				}
+
+				return Response.json({ success: true, session: result });
+			},
+		},
+	},
+});
@@ -1,27 +1,76 @@
 import { createFileRoute } from "@tanstack/react-router";
 
-import { launchLiveStream } from "@/src/services/streamlink-service";
+import { parseWatchProfileId } from "@/src/features/player-profiles/player-profiles.validators";
+import {
+	PlayerLaunchError,
+	PlayerProfileNotFoundError,
+	resolveWatchProfile,
+	watchLiveStream,
+} from "@/src/services/watch-launch-service";
 import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
 import { requireAuth } from "@/src/shared/utils/require-auth";
+import { parseWatchQuality } from "@/src/shared/utils/stream-quality";
 
 export const Route = createFileRoute("/api/watch/live/$channel/")({
 	server: {
 		handlers: {
-			POST: async ({ params }) => {
+			POST: async ({ params, request }) => {
 				const auth = requireAuth();
 				if (!auth.authenticated) {
 					return auth.response;
 				}
 
 				const { channel } = params;
+				let body: unknown = null;
 
-				const result = await launchLiveStream(channel);
+				try {
+					body = await request.json();
+				} catch {
+					// No body or invalid JSON - proceed with the default profile
+				}
+
+				const profileId = parseWatchProfileId(body);
+
+				if (profileId instanceof Error) {
+					return createErrorResponse(profileId.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const requestedQuality = parseWatchQuality(body);
+
+				if (requestedQuality instanceof Error) {
+					return createErrorResponse(
+						requestedQuality.message,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const profile = resolveWatchProfile(profileId);
+
+				if (profile instanceof PlayerProfileNotFoundError) {
+					return createErrorResponse(profile.message, ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (profile instanceof Error) {
+					return createErrorResponse(profile.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const result = await watchLiveStream(channel, { profile, requestedQuality });
+
+				if (result instanceof PlayerLaunchError) {
+					return createErrorResponse(
+						result.message,
+						ErrorCode.STREAMLINK_ERROR,
+						500,
+						result.details,
+					);
+				}
 
 				if (result instanceof Error) {
-					return createErrorResponse(result.message, ErrorCode.STREAMLINK_ERROR, 500);
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
 				}
 
-				return Response.json({ success: true });
+				return Response.json({ success: true, session: result });
 			},
 		},
 	},
@@ -0,0 +1,96 @@
+import { createFileRoute } from "@tanstack/react-router";
+
+import { getLayoutPresetById } from "@/src/features/multi-view/layout-presets.repository";
+import { validateMultiViewRequest } from "@/src/features/multi-view/multi-view.validators";
+import { getLaunchErrorDetails } from "@/src/services/launcher-config-service";
+import { launchMultiView } from "@/src/services/multi-view-service";
+import {
+	PlayerProfileNotFoundError,
+	resolveChannelQuality,
+	resolveWatchProfile,
+} from "@/src/services/watch-launch-service";
+import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
+import { parseRequestBody } from "@/src/shared/utils/parse-request-body";
+import { requireAuth } from "@/src/shared/utils/require-auth";
+
+export const Route = createFileRoute("/api/watch/multi/")({
+	server: {
+		handlers: {
+			POST: async function handler({ request }) {
+				const auth = requireAuth();
+				if (!auth.authenticated) {
+					return auth.response;
+				}
+
+				const body = await parseRequestBody(request, validateMultiViewRequest);
+
+				if (body instanceof Response) {
+					return body;
+				}
+
+				const { profileId } = body;
+
+				const profile = resolveWatchProfile(profileId);
+
+				if (profile instanceof PlayerProfileNotFoundError) {
+					return createErrorResponse(profile.message, ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (profile instanceof Error) {
+					return createErrorResponse(profile.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const preset = getLayoutPresetById(body.presetId);
+
+				if (preset instanceof Error) {
+					return createErrorResponse(preset.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				if (preset === null) {
+					return createErrorResponse("Layout preset not found", ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (body.channels.length > preset.slots.length) {
+					return createErrorResponse(
+						`Layout preset "${preset.name}" only has room for ${preset.slots.length} streams`,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				// Same fallback as single launches: request, then channel preference, then "best"
+				const streams: Array<{ channel: string; quality: string }> = [];
+				for (const channel of body.channels) {
+					const quality = resolveChannelQuality(body.quality, channel);
+
+					if (quality instanceof Error) {
+						return createErrorResponse(quality.message, ErrorCode.DATABASE_ERROR, 500);
+					}
+
+					streams.push({ channel, quality });
+				}
+
+				const result = await launchMultiView(streams, {
+					profile,
+					preset,
+					screen: body.screen,
+				});
+
+				if (result.sessions.length === 0 && result.firstError !== null) {
+					return createErrorResponse(
+						result.firstError.message,
+						ErrorCode.STREAMLINK_ERROR,
+						500,
+						getLaunchErrorDetails(result.firstError),
+					);
+				}
+
+				return Response.json({
+					success: true,
+					sessions: result.sessions,
+					failures: result.failures,
+				});
+			},
+		},
+	},
+});
@@ -1,8 +1,17 @@
 import { createFileRoute } from "@tanstack/react-router";
 
-import { launchVod } from "@/src/services/streamlink-service";
+import { parseWatchProfileId } from "@/src/features/player-profiles/player-profiles.validators";
+import { getVodLaunchDetails } from "@/src/features/vods/vods.repository";
+import {
+	PlayerLaunchError,
+	PlayerProfileNotFoundError,
+	resolveWatchProfile,
+	watchVod,
+} from "@/src/services/watch-launch-service";
 import { createErrorResponse, ErrorCode } from "@/src/shared/utils/api-errors";
 import { requireAuth } from "@/src/shared/utils/require-auth";
+import { parseWatchQuality } from "@/src/shared/utils/stream-quality";
+import { isRecord } from "@/src/shared/utils/validation";
 
 export const Route = createFileRoute("/api/watch/vod/$id/")({
 	server: {
@@ -14,24 +23,73 @@ export const Route = createFileRoute("/api/watch/vod/$id/")({
 				}
 
 				const { id } = params;
+				let body: unknown = null;
 				let startTime: number | undefined;
 
 				try {
-					const body = await request.json();
-					if (typeof body.startTime === "number" && body.startTime > 0) {
-						startTime = body.startTime;
-					}
+					body = await request.json();
 				} catch {
 					// No body or invalid JSON - proceed without startTime
 				}
 
-				const result = await launchVod(id, startTime);
+				if (isRecord(body) && typeof body.startTime === "number" && body.startTime > 0) {
+					startTime = body.startTime;
+				}
+
+				const profileId = parseWatchProfileId(body);
+
+				if (profileId instanceof Error) {
+					return createErrorResponse(profileId.message, ErrorCode.INVALID_INPUT, 400);
+				}
+
+				const requestedQuality = parseWatchQuality(body);
+
+				if (requestedQuality instanceof Error) {
+					return createErrorResponse(
+						requestedQuality.message,
+						ErrorCode.INVALID_INPUT,
+						400,
+					);
+				}
+
+				const profile = resolveWatchProfile(profileId);
+
+				if (profile instanceof PlayerProfileNotFoundError) {
+					return createErrorResponse(profile.message, ErrorCode.NOT_FOUND, 404);
+				}
+
+				if (profile instanceof Error) {
+					return createErrorResponse(profile.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const vodDetails = getVodLaunchDetails(id);
+
+				if (vodDetails instanceof Error) {
+					return createErrorResponse(vodDetails.message, ErrorCode.DATABASE_ERROR, 500);
+				}
+
+				const result = await watchVod(id, {
+					profile,
+					requestedQuality,
+					startTimeSeconds: startTime,
+					channelName: vodDetails?.channelName ?? null,
+					title: vodDetails?.title ?? null,
+				});
+
+				if (result instanceof PlayerLaunchError) {
+					return createErrorResponse(
+						result.message,
+						ErrorCode.STREAMLINK_ERROR,
+						500,
+						result.details,
+					);
+				}
 
 				if (result instanceof Error) {
-					return createErrorResponse(result.message, ErrorCode.STREAMLINK_ERROR, 500);
+					return createErrorResponse(result.message, ErrorCode.DATABASE_ERROR, 500);
 				}
 
-				return Response.json({ success: true });
+				return Response.json({ success: true, session: result });
 			},
 		},
 	},
@@ -0,0 +1,40 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+
+import { BrowseSections } from "@/src/features/browse/components/browse-sections";
+import { CategorySearch } from "@/src/features/browse/components/category-search";
+import { ChannelSearch } from "@/src/features/browse/components/channel-search";
+import { ArrowLeftIcon } from "@/src/shared/components/icons";
+
+export const Route = createFileRoute("/browse")({
+	component: BrowsePage,
+});
+
+function BrowsePage() {
+	return (
+		<section className="animate-[fadeIn_0.2s_ease]">
+			<div className="mb-5 flex items-center gap-4">
+				<Link
+					to="/"
+					className="flex items-center gap-2 rounded-md px-4 py-2.5 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary"
+				>
+					<ArrowLeftIcon className="h-4 w-4" />
+					Back
+				</Link>
+				<h2 className="text-xl font-semibold">Browse</h2>
+			</div>
+
+			<div className="mb-8 grid gap-6 lg:grid-cols-2">
+				<div>
+					<h3 className="mb-3 text-lg font-semibold">Channels</h3>
+					<ChannelSearch />
+				</div>
+				<div>
+					<h3 className="mb-3 text-lg font-semibold">Categories</h3>
+					<CategorySearch />
+				</div>
+			</div>
+
+			<BrowseSections isEditable />
+		</section>
+	);
+}
@@ -0,0 +1,393 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useCallback, useMemo, useState } from "react";
+
+import { RankSelect } from "@/src/features/channel-ranks/components/rank-select";
+import { useSetChannelRank } from "@/src/features/channel-ranks/hooks/use-channel-ranks";
+import { FollowButton } from "@/src/features/channels/components/follow-button";
+import {
+	useChannelDetails,
+	useSetPreferredQuality,
+	useToggleFavorite,
+} from "@/src/features/channels/hooks/use-channels";
+import { useOpenChat, useWatchLive, useWatchVod } from "@/src/features/channels/hooks/use-launch";
+import { ClipsPanel } from "@/src/features/clips/components/clips-panel";
+import { useCreateDownload } from "@/src/features/downloads/hooks/use-downloads";
+import { useLocalVodIds } from "@/src/features/library/hooks/use-library";
+import { useToggleWatchLater } from "@/src/features/playlists/hooks/use-playlists";
+import { useSessions } from "@/src/features/sessions/hooks/use-sessions";
+import { StreamHistorySection } from "@/src/features/stream-sessions/components/stream-history-section";
+import { StreamUptime } from "@/src/features/stream-sessions/components/stream-uptime";
+import { useVodChaptersBulk } from "@/src/features/vod-chapters/hooks/use-vod-chapters";
+import { VodCard } from "@/src/features/vods/components/vod-card";
+import {
+	useSaveVodProgress,
+	useSetVodsWatched,
+	useVodProgressBulk,
+	useWatchedVodIds,
+} from "@/src/features/vods/hooks/use-vod-progress";
+import { ArrowLeftIcon, ChatIcon, FilmIcon, StarIcon } from "@/src/shared/components/icons";
+import { QualitySelect } from "@/src/shared/components/quality-select";
+import {
+	formatDate,
+	formatDurationSeconds,
+	formatThumbnail,
+	formatViewers,
+} from "@/src/shared/utils/format";
+
+import type { ChannelRank } from "@/src/features/channel-ranks/channel-ranks.types";
+import type { ChannelDetails } from "@/src/features/channels/channels.types";
+import type { VodCardData } from "@/src/features/vods/components/vod-card";
+import type { VodProgressSelect, VodSummary } from "@/src/features/vods/vods.types";
+
+export const Route = createFileRoute("/channels/$id")({
+	component: ChannelPage,
+});
+
+const EMPTY_VOD_IDS: Array<string> = [];
+
+type ContentTab = "vods" | "clips";
+
+function getTabClassName(isActive: boolean) {
+	const base = "border-b-2 pb-1 text-lg font-semibold transition-colors cursor-pointer";
+
+	if (isActive) {
+		return `${base} border-twitch-purple text-text-primary`;
+	}
+
+	return `${base} border-transparent text-text-muted hover:text-text-primary`;
+}
+
+function getVodCardData(vod: VodSummary, channelName: string): VodCardData {
+	return {
+		id: vod.id,
+		title: vod.title,
+		channelName,
+		createdAt: vod.createdAt,
+		durationSeconds: vod.durationSeconds,
+		durationLabel: formatDurationSeconds(vod.durationSeconds),
+		thumbnailUrl: vod.thumbnailUrl,
+		videoType: vod.videoType,
+	};
+}
+
+function getFollowLabel(channel: ChannelDetails) {
+	if (!channel.isFollowed) {
+		return "Not followed";
+	}
+
+	const source = channel.followSource === "local" ? "locally" : "on Twitch";
+
+	if (channel.followedAt !== null) {
+		return `Following ${source} since ${new Date(channel.followedAt).toLocaleDateString()}`;
+	}
+
+	return `Following ${source}`;
+}
+
+function getOfflineLabel(channel: ChannelDetails) {
+	if (channel.lastSeenAt !== null) {
+		return `Offline · last live ${formatDate(channel.lastSeenAt)}`;
+	}
+
+	return "Offline";
+}
+
+function ChannelPage() {
+	const { id } = Route.useParams();
+	const { channel, isLoading, error } = useChannelDetails(id);
+
+	return (
+		<section className="animate-[fadeIn_0.2s_ease]">
+			<div className="mb-5 flex items-center gap-4">
+				<Link
+					to="/"
+					className="flex items-center gap-2 rounded-md px-4 py-2.5 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary"
+				>
+					<ArrowLeftIcon className="h-4 w-4" />
+					Back
+				</Link>
+				<h2 className="text-xl font-semibold">Channel</h2>
+			</div>
+
+			{isLoading && (
+				<div className="flex items-center justify-center py-16 text-text-dim">
+					<span>Loading</span>
+					<span className="ml-3 h-6 w-6 animate-spin rounded-full border-2 border-surface-border-muted border-t-twitch-purple" />
+				</div>
+			)}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{channel !== null && <ChannelDetailsView channel={channel} />}
+		</section>
+	);
+}
+
+function ChannelDetailsView({ channel }: { channel: ChannelDetails }) {
+	const toggleFavoriteMutation = useToggleFavorite();
+	const setPreferredQualityMutation = useSetPreferredQuality();
+	const setChannelRankMutation = useSetChannelRank();
+	const watchLiveMutation = useWatchLive();
+	const watchVodMutation = useWatchVod();
+	const createDownloadMutation = useCreateDownload();
+	const openChatMutation = useOpenChat();
+	const saveProgressMutation = useSaveVodProgress();
+	const setWatchedMutation = useSetVodsWatched();
+	const { watchingState } = useSessions();
+	const [contentTab, setContentTab] = useState<ContentTab>("vods");
+	const clipSource = useMemo(() => ({ channelId: channel.id }), [channel.id]);
+
+	const vodIds = useMemo(() => {
+		if (channel.vods.length === 0) {
+			return EMPTY_VOD_IDS;
+		}
+
+		const ids: Array<string> = [];
+		for (const vod of channel.vods) {
+			ids.push(vod.id);
+		}
+		return ids;
+	}, [channel.vods]);
+
+	const { data: progressData } = useVodProgressBulk(vodIds);
+	const { chaptersByVodId } = useVodChaptersBulk(vodIds);
+	const watchedVodIds = useWatchedVodIds(vodIds);
+	const localVodIds = useLocalVodIds();
+	const { queuedVodIds, toggleWatchLater } = useToggleWatchLater();
+
+	const vodProgressMap = useMemo(() => {
+		const map = new Map<string, VodProgressSelect>();
+
+		if (!progressData) {
+			return map;
+		}
+
+		for (const item of progressData) {
+			map.set(item.vodId, item);
+		}
+
+		return map;
+	}, [progressData]);
+
+	const isWatchingLive =
+		watchLiveMutation.isPending ||
+		watchingState.liveChannelNames.has(channel.channelName.toLowerCase());
+
+	const handleWatchLive = useCallback(() => {
+		watchLiveMutation.mutate({
+			channel: channel.channelName,
+			quality: channel.preferredQuality ?? undefined,
+		});
+	}, [watchLiveMutation, channel.channelName, channel.preferredQuality]);
+
+	const handleWatchVod = useCallback(
+		(vodId: string, startTimeSeconds?: number, quality?: string) => {
+			watchVodMutation.mutate({ id: vodId, startTimeSeconds, quality });
+		},
+		[watchVodMutation],
+	);
+
+	const handleToggleWatched = useCallback(
+		(vodId: string, watched: boolean) => {
+			setWatchedMutation.mutate({ vodIds: [vodId], watched });
+		},
+		[setWatchedMutation],
+	);
+
+	const handleDownloadVod = useCallback(
+		(vodId: string, quality?: string) => {
+			createDownloadMutation.mutate({
+				kind: "vod",
+				vodId,
+				quality: quality ?? null,
+				startOffsetSeconds: null,
+				endOffsetSeconds: null,
+			});
+		},
+		[createDownloadMutation],
+	);
+
+	const isFavorite = channel.rank === "favorite";
+
+	function handleRankChange(rank: ChannelRank | null) {
+		setChannelRankMutation.mutate({ channelId: channel.id, rank });
+	}
+
+	function handleQualityChange(value: string) {
+		setPreferredQualityMutation.mutate({
+			channelId: channel.id,
+			quality: value === "" ? null : value,
+		});
+	}
+
+	return (
+		<>
+			<div className="mb-8 flex flex-wrap items-center gap-5 rounded-lg border border-surface-border-muted bg-surface-card p-5">
+				{channel.profileImage !== "" && (
+					<img
+						src={channel.profileImage}
+						alt={channel.channelName}
+						className={`h-20 w-20 rounded-full object-cover ring-2 ${
+							channel.isLive ? "ring-live" : "ring-surface-border-muted"
+						}`}
+					/>
+				)}
+
+				<div className="min-w-0 flex-1">
+					<div className="flex items-center gap-3">
+						<h3 className="truncate text-2xl font-bold text-twitch-purple-light">
+							{channel.channelName}
+						</h3>
+						{channel.isLive && (
+							<span className="rounded bg-live px-2.5 py-1 text-xs font-bold uppercase text-white">
+								Live
+							</span>
+						)}
+					</div>
+					<div className="mt-1 flex flex-wrap gap-3 text-sm text-text-muted">
+						<span>{getFollowLabel(channel)}</span>
+						{!channel.isLive && <span>{getOfflineLabel(channel)}</span>}
+					</div>
+				</div>
+
+				<div className="flex items-center gap-2">
+					<RankSelect
+						value={channel.rank}
+						channelName={channel.channelName}
+						isFollowed={channel.isFollowed}
+						disabled={setChannelRankMutation.isPending}
+						onChange={handleRankChange}
+					/>
+					{channel.isFollowed && (
+						<button
+							type="button"
+							onClick={() => toggleFavoriteMutation.mutate(channel.id)}
+							disabled={toggleFavoriteMutation.isPending}
+							aria-pressed={isFavorite}
+							className={`flex items-center gap-2 rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2 text-sm font-semibold transition-all hover:border-surface-border enabled:cursor-pointer disabled:opacity-50 ${
+								isFavorite ? "text-favorite" : "text-text-muted"
+							}`}
+						>
+							<StarIcon className="h-4 w-4" filled={isFavorite} />
+							{isFavorite ? "Favorited" : "Favorite"}
+						</button>
+					)}
+					<FollowButton
+						channelId={channel.id}
+						channelName={channel.channelName}
+						isFollowed={channel.isFollowed}
+					/>
+					{channel.isFollowed && (
+						<QualitySelect
+							value={channel.preferredQuality ?? ""}
+							defaultLabel="Default"
+							ariaLabel={`Preferred quality for ${channel.channelName}`}
+							disabled={setPreferredQualityMutation.isPending}
+							onChange={handleQualityChange}
+						/>
+					)}
+				</div>
+			</div>
+
+			{channel.stream !== null && (
+				<div className="mb-8 flex flex-col gap-5 rounded-lg border border-live bg-surface-card p-5 md:flex-row">
+					<img
+						src={formatThumbnail(channel.stream.thumbnailUrl, 440, 248)}
+						alt={channel.stream.title}
+						className="aspect-video w-full rounded object-cover md:w-80"
+					/>
+					<div className="flex min-w-0 flex-1 flex-col gap-2">
+						<p className="text-base text-text-primary">{channel.stream.title}</p>
+						<div className="flex flex-wrap gap-3 text-sm text-text-muted">
+							<span>{channel.stream.gameName}</span>
+							<span className="font-semibold text-live">
+								{formatViewers(channel.stream.viewerCount)} viewers
+							</span>
+							<StreamUptime startedAt={channel.stream.startedAt} />
+						</div>
+						<div className="mt-auto flex gap-2">
+							<button
+								type="button"
+								onClick={handleWatchLive}
+								disabled={isWatchingLive}
+								className="rounded-md bg-twitch-purple px-4 py-2.5 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover enabled:cursor-pointer disabled:cursor-not-allowed disabled:opacity-70"
+							>
+								{isWatchingLive ? "Watching" : "Watch Live"}
+							</button>
+							<button
+								type="button"
+								onClick={() => openChatMutation.mutate(channel.channelName)}
+								disabled={openChatMutation.isPending}
+								aria-label={`Open chat for ${channel.channelName}`}
+								title="Open Chat"
+								className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2.5 text-text-muted transition-all hover:text-text-primary enabled:cursor-pointer disabled:opacity-50"
+							>
+								<ChatIcon className="h-5 w-5" />
+							</button>
+						</div>
+					</div>
+				</div>
+			)}
+
+			<StreamHistorySection channelId={channel.id} />
+
+			<div className="mb-4 flex items-center justify-between">
+				<div className="flex gap-5">
+					<button
+						type="button"
+						onClick={() => setContentTab("vods")}
+						aria-pressed={contentTab === "vods"}
+						className={getTabClassName(contentTab === "vods")}
+					>
+						Latest VODs
+					</button>
+					<button
+						type="button"
+						onClick={() => setContentTab("clips")}
+						aria-pressed={contentTab === "clips"}
+						className={getTabClassName(contentTab === "clips")}
+					>
+						Clips
+					</button>
+				</div>
+				<Link
+					to="/vods"
+					search={{ channel: channel.channelName }}
+					className="flex items-center gap-2 rounded-md px-3 py-2 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary"
+				>
+					<FilmIcon className="h-4 w-4" />
+					View all VODs
+				</Link>
+			</div>
+
+			{contentTab === "clips" && (
+				<ClipsPanel source={clipSource} emptyLabel="No clips in this period." />
+			)}
+
+			{contentTab === "vods" && channel.vods.length === 0 && (
+				<p className="text-sm text-text-dim">No VODs available for this channel.</p>
+			)}
+
+			{contentTab === "vods" && (
+				<div className="grid grid-cols-[repeat(auto-fill,minmax(320px,1fr))] gap-4">
+					{channel.vods.map((vod) => (
+						<VodCard
+							key={vod.id}
+							vod={getVodCardData(vod, channel.channelName)}
+							progress={vodProgressMap.get(vod.id) ?? null}
+							chapters={chaptersByVodId.get(vod.id) ?? null}
+							onWatch={handleWatchVod}
+							onSaveProgress={saveProgressMutation.mutate}
+							onDownload={handleDownloadVod}
+							hasLocalCopy={localVodIds.has(vod.id)}
+							onQueue={toggleWatchLater}
+							onToggleWatched={handleToggleWatched}
+							isWatched={watchedVodIds.has(vod.id)}
+							isQueued={queuedVodIds.has(vod.id)}
+						/>
+					))}
+				</div>
+			)}
+		</>
+	);
+}
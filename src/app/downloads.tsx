@@ -0,0 +1,39 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+
+import { DownloadsList } from "@/src/features/downloads/components/downloads-list";
+import { NewDownloadForm } from "@/src/features/downloads/components/new-download-form";
+import { RecordingSettingsSection } from "@/src/features/downloads/components/recording-settings-section";
+import { LibrarySection } from "@/src/features/library/components/library-section";
+import { LibrarySettingsSection } from "@/src/features/library/components/library-settings-section";
+import { ArrowLeftIcon } from "@/src/shared/components/icons";
+
+export const Route = createFileRoute("/downloads")({
+	component: DownloadsPage,
+});
+
+function DownloadsPage() {
+	return (
+		<section className="animate-[fadeIn_0.2s_ease]">
+			<div className="mb-5 flex items-center gap-4">
+				<Link
+					to="/"
+					className="flex items-center gap-2 rounded-md px-4 py-2.5 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary"
+				>
+					<ArrowLeftIcon className="h-4 w-4" />
+					Back
+				</Link>
+				<h2 className="text-xl font-semibold">Downloads</h2>
+			</div>
+
+			<NewDownloadForm />
+
+			<DownloadsList />
+
+			<LibrarySection />
+
+			<RecordingSettingsSection />
+
+			<LibrarySettingsSection />
+		</section>
+	);
+}
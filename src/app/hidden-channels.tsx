@@ -0,0 +1,32 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+
+import { HiddenChannelList } from "@/src/features/hidden-channels/components/hidden-channel-list";
+import { ArrowLeftIcon } from "@/src/shared/components/icons";
+
+export const Route = createFileRoute("/hidden-channels")({
+	component: HiddenChannelsPage,
+});
+
+function HiddenChannelsPage() {
+	return (
+		<section className="animate-[fadeIn_0.2s_ease]">
+			<div className="mb-5 flex items-center gap-4">
+				<Link
+					to="/settings"
+					className="flex items-center gap-2 rounded-md px-4 py-2.5 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary"
+				>
+					<ArrowLeftIcon className="h-4 w-4" />
+					Back
+				</Link>
+				<h2 className="text-xl font-semibold">Hidden Channels</h2>
+			</div>
+
+			<p className="mb-5 text-sm text-text-dim">
+				Hidden channels are left out of browse, the sidebar and the live channels on the
+				home page. Favorites always stay visible.
+			</p>
+
+			<HiddenChannelList />
+		</section>
+	);
+}
@@ -0,0 +1,99 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useState } from "react";
+
+import { ChannelWatchTotals } from "@/src/features/history/components/channel-watch-totals";
+import { DailyWatchChart } from "@/src/features/history/components/daily-watch-chart";
+import { RecentWatchSessions } from "@/src/features/history/components/recent-watch-sessions";
+import { useHistory } from "@/src/features/history/hooks/use-history";
+import { HISTORY_RANGE_OPTIONS } from "@/src/features/history/history.validators";
+import { ArrowLeftIcon } from "@/src/shared/components/icons";
+import { formatDurationSeconds } from "@/src/shared/utils/format";
+
+export const Route = createFileRoute("/history")({
+	component: HistoryPage,
+});
+
+function getRangeButtonClassName(isActive: boolean) {
+	const base = "rounded-md px-3 py-1.5 text-sm font-semibold transition-all cursor-pointer";
+
+	if (isActive) {
+		return `${base} bg-twitch-purple text-white`;
+	}
+
+	return `${base} text-text-muted hover:bg-surface-elevated hover:text-text-primary`;
+}
+
+function HistoryPage() {
+	const [days, setDays] = useState(30);
+	const { data, isLoading, error } = useHistory(days);
+
+	return (
+		<section className="animate-[fadeIn_0.2s_ease]">
+			<div className="mb-5 flex items-center gap-4">
+				<Link
+					to="/"
+					className="flex items-center gap-2 rounded-md px-4 py-2.5 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary"
+				>
+					<ArrowLeftIcon className="h-4 w-4" />
+					Back
+				</Link>
+				<h2 className="text-xl font-semibold">Watch History</h2>
+
+				<div className="ml-auto flex gap-1">
+					{HISTORY_RANGE_OPTIONS.map((option) => (
+						<button
+							key={option}
+							type="button"
+							onClick={() => setDays(option)}
+							className={getRangeButtonClassName(option === days)}
+						>
+							{option}d
+						</button>
+					))}
+				</div>
+			</div>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading history...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{data !== null && (
+				<>
+					<div className="mb-6 flex gap-8">
+						<div>
+							<div className="text-xs uppercase text-text-dim">Time watched</div>
+							<div className="text-2xl font-bold text-text-primary">
+								{formatDurationSeconds(data.totalSeconds)}
+							</div>
+						</div>
+						<div>
+							<div className="text-xs uppercase text-text-dim">Launches</div>
+							<div className="text-2xl font-bold text-text-primary">
+								{data.sessionCount}
+							</div>
+						</div>
+					</div>
+
+					<h3 className="mb-3 text-lg font-semibold">Per day</h3>
+					<div className="mb-8">
+						<DailyWatchChart daily={data.daily} days={data.days} />
+					</div>
+
+					<div className="grid grid-cols-1 gap-8 lg:grid-cols-2">
+						<div>
+							<h3 className="mb-3 text-lg font-semibold">Per channel</h3>
+							<ChannelWatchTotals
+								channels={data.channels}
+								totalSeconds={data.totalSeconds}
+							/>
+						</div>
+						<div>
+							<h3 className="mb-3 text-lg font-semibold">Recent launches</h3>
+							<RecentWatchSessions sessions={data.recent} />
+						</div>
+					</div>
+				</>
+			)}
+		</section>
+	);
+}
@@ -1,7 +1,9 @@
-import { createFileRoute } from "@tanstack/react-router";
+import { createFileRoute, Link } from "@tanstack/react-router";
 
+import { BrowseSections } from "@/src/features/browse/components/browse-sections";
 import { ChannelGrid } from "@/src/features/channels/components/channel-grid";
 import { useChannels } from "@/src/features/channels/hooks/use-channels";
+import { ContinueWatchingSection } from "@/src/features/vods/components/continue-watching-section";
 
 export const Route = createFileRoute("/")({
 	component: ChannelsPage,
@@ -29,7 +31,23 @@ function ChannelsPage() {
 
 	return (
 		<section className="animate-[fadeIn_0.2s_ease]">
+			<ContinueWatchingSection />
+
 			<ChannelGrid channels={channels} />
+
+			{/* Sections only fetch their streams once scrolled near, keeping the first load light */}
+			<div className="mt-10 border-t border-surface-border pt-6">
+				<div className="mb-4 flex items-center justify-between">
+					<h2 className="text-xl font-semibold">Browse</h2>
+					<Link
+						to="/browse"
+						className="text-sm font-semibold text-twitch-purple-light hover:underline"
+					>
+						Manage categories
+					</Link>
+				</div>
+				<BrowseSections />
+			</div>
 		</section>
 	);
 }
@@ -0,0 +1,33 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+
+import { NotificationHistory } from "@/src/features/notifications/components/notification-history";
+import { NotificationPermission } from "@/src/features/notifications/components/notification-permission";
+import { NotificationRulesSection } from "@/src/features/notifications/components/notification-rules-section";
+import { ArrowLeftIcon } from "@/src/shared/components/icons";
+
+export const Route = createFileRoute("/notifications")({
+	component: NotificationsPage,
+});
+
+function NotificationsPage() {
+	return (
+		<section className="animate-[fadeIn_0.2s_ease]">
+			<div className="mb-5 flex items-center gap-4">
+				<Link
+					to="/settings"
+					className="flex items-center gap-2 rounded-md px-4 py-2.5 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary"
+				>
+					<ArrowLeftIcon className="h-4 w-4" />
+					Back
+				</Link>
+				<h2 className="text-xl font-semibold">Notifications</h2>
+			</div>
+
+			<NotificationPermission />
+
+			<NotificationRulesSection />
+
+			<NotificationHistory />
+		</section>
+	);
+}
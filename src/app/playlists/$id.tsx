@@ -0,0 +1,173 @@
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
+import { useState } from "react";
+
+import { PlaylistItemsGrid } from "@/src/features/playlists/components/playlist-items-grid";
+import {
+	useDeletePlaylist,
+	usePlaylist,
+	usePlayNext,
+	useRenamePlaylist,
+} from "@/src/features/playlists/hooks/use-playlists";
+import { parsePlaylistId } from "@/src/features/playlists/playlists.validators";
+import { ArrowLeftIcon } from "@/src/shared/components/icons";
+
+import type { Playlist, PlaylistItem } from "@/src/features/playlists/playlists.types";
+
+export const Route = createFileRoute("/playlists/$id")({
+	component: PlaylistPage,
+});
+
+function PlaylistPage() {
+	const { id } = Route.useParams();
+	const playlistId = parsePlaylistId(id);
+	const { playlist, items, isLoading, error } = usePlaylist(
+		playlistId instanceof Error ? null : playlistId,
+	);
+
+	return (
+		<section className="animate-[fadeIn_0.2s_ease]">
+			<div className="mb-5 flex items-center gap-4">
+				<Link
+					to="/playlists"
+					className="flex items-center gap-2 rounded-md px-4 py-2.5 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary"
+				>
+					<ArrowLeftIcon className="h-4 w-4" />
+					Back
+				</Link>
+				<h2 className="text-xl font-semibold">Playlist</h2>
+			</div>
+
+			{playlistId instanceof Error && (
+				<p className="text-sm text-live">{playlistId.message}</p>
+			)}
+
+			{isLoading && (
+				<div className="flex items-center justify-center py-16 text-text-dim">
+					<span>Loading</span>
+					<span className="ml-3 h-6 w-6 animate-spin rounded-full border-2 border-surface-border-muted border-t-twitch-purple" />
+				</div>
+			)}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{playlist !== null && <PlaylistView playlist={playlist} items={items} />}
+		</section>
+	);
+}
+
+function PlaylistView({ playlist, items }: { playlist: Playlist; items: Array<PlaylistItem> }) {
+	const navigate = useNavigate();
+	const playNextMutation = usePlayNext();
+	const renameMutation = useRenamePlaylist();
+	const deleteMutation = useDeletePlaylist();
+	// Null while not renaming
+	const [nameInput, setNameInput] = useState<string | null>(null);
+
+	function handleRenameSubmit(event: React.FormEvent) {
+		event.preventDefault();
+
+		if (nameInput === null) {
+			return;
+		}
+
+		renameMutation.mutate(
+			{ id: playlist.id, name: nameInput },
+			{ onSuccess: () => setNameInput(null) },
+		);
+	}
+
+	function handleDelete() {
+		if (!window.confirm(`Delete the playlist "${playlist.name}"?`)) {
+			return;
+		}
+
+		deleteMutation.mutate(playlist.id, {
+			onSuccess: () => navigate({ to: "/playlists" }),
+		});
+	}
+
+	const mutationError =
+		playNextMutation.error ?? renameMutation.error ?? deleteMutation.error ?? null;
+
+	return (
+		<div>
+			<div className="mb-4 flex flex-wrap items-center gap-3">
+				{nameInput === null ? (
+					<h3 className="text-lg font-semibold">{playlist.name}</h3>
+				) : (
+					<form onSubmit={handleRenameSubmit} className="flex gap-2">
+						<input
+							type="text"
+							value={nameInput}
+							onChange={(event) => setNameInput(event.target.value)}
+							aria-label="Playlist name"
+							maxLength={50}
+							className="rounded border border-surface-border-muted bg-surface-elevated px-2 py-1.5 text-sm text-text-primary focus:border-twitch-purple focus:outline-none"
+							autoFocus
+						/>
+						<button
+							type="submit"
+							disabled={renameMutation.isPending || nameInput.trim() === ""}
+							className="rounded bg-twitch-purple px-3 py-1.5 text-xs font-semibold text-white transition-all hover:bg-twitch-purple-hover enabled:cursor-pointer disabled:opacity-50"
+						>
+							Save
+						</button>
+						<button
+							type="button"
+							onClick={() => setNameInput(null)}
+							className="rounded border border-surface-border-muted bg-surface-elevated px-3 py-1.5 text-xs font-semibold text-text-muted transition-all hover:text-text-primary cursor-pointer"
+						>
+							Cancel
+						</button>
+					</form>
+				)}
+				<span className="text-sm text-text-muted">
+					{items.length} {items.length === 1 ? "VOD" : "VODs"}
+				</span>
+
+				<div className="ml-auto flex gap-2">
+					<button
+						type="button"
+						onClick={() => playNextMutation.mutate(playlist.id)}
+						disabled={playNextMutation.isPending || items.length === 0}
+						className="rounded-md bg-twitch-purple px-4 py-2 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover enabled:cursor-pointer disabled:opacity-50"
+						title="Play the first VOD you haven't finished, from where you left off"
+					>
+						Play next
+					</button>
+					{!playlist.isWatchLater && nameInput === null && (
+						<button
+							type="button"
+							onClick={() => setNameInput(playlist.name)}
+							className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2 text-sm font-semibold text-text-muted transition-all hover:border-twitch-purple hover:text-text-primary cursor-pointer"
+						>
+							Rename
+						</button>
+					)}
+					{!playlist.isWatchLater && (
+						<button
+							type="button"
+							onClick={handleDelete}
+							disabled={deleteMutation.isPending}
+							className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2 text-sm font-semibold text-text-muted transition-all hover:border-live hover:text-live enabled:cursor-pointer disabled:opacity-50"
+						>
+							Delete
+						</button>
+					)}
+				</div>
+			</div>
+
+			{playNextMutation.data !== undefined && (
+				<p className="mb-3 text-sm text-text-muted">
+					Playing {playNextMutation.data.item.title}
+				</p>
+			)}
+
+			{mutationError !== null && (
+				<p className="mb-3 text-sm text-live">{mutationError.message}</p>
+			)}
+
+			<PlaylistItemsGrid playlistId={playlist.id} items={items} />
+		</div>
+	);
+}
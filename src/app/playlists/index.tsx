@@ -0,0 +1,27 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+
+import { PlaylistsList } from "@/src/features/playlists/components/playlists-list";
+import { ArrowLeftIcon } from "@/src/shared/components/icons";
+
+export const Route = createFileRoute("/playlists/")({
+	component: PlaylistsPage,
+});
+
+function PlaylistsPage() {
+	return (
+		<section className="animate-[fadeIn_0.2s_ease]">
+			<div className="mb-5 flex items-center gap-4">
+				<Link
+					to="/"
+					className="flex items-center gap-2 rounded-md px-4 py-2.5 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary"
+				>
+					<ArrowLeftIcon className="h-4 w-4" />
+					Back
+				</Link>
+				<h2 className="text-xl font-semibold">Playlists</h2>
+			</div>
+
+			<PlaylistsList />
+		</section>
+	);
+}
@@ -0,0 +1,96 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useMemo, useState } from "react";
+
+import { ScheduleWeekView } from "@/src/features/schedule/components/schedule-week-view";
+import { useSchedule } from "@/src/features/schedule/hooks/use-schedule";
+import { ArrowLeftIcon, ChevronLeftIcon, ChevronRightIcon } from "@/src/shared/components/icons";
+
+export const Route = createFileRoute("/schedule")({
+	component: SchedulePage,
+});
+
+const CALENDAR_FEED_PATH = "/api/schedule.ics";
+
+const NAV_BUTTON_CLASS_NAME =
+	"rounded-md p-2 text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary cursor-pointer";
+
+// Weeks start on Monday in local time
+function getWeekStart(weekOffset: number) {
+	const start = new Date();
+	start.setHours(0, 0, 0, 0);
+	const daysSinceMonday = (start.getDay() + 6) % 7;
+	start.setDate(start.getDate() - daysSinceMonday + weekOffset * 7);
+	return start;
+}
+
+function SchedulePage() {
+	const [weekOffset, setWeekOffset] = useState(0);
+
+	const { weekStart, start, end } = useMemo(() => {
+		const startDate = getWeekStart(weekOffset);
+		const endDate = new Date(startDate);
+		endDate.setDate(startDate.getDate() + 7);
+		return { weekStart: startDate, start: startDate.toISOString(), end: endDate.toISOString() };
+	}, [weekOffset]);
+
+	const { segments, isLoading, error } = useSchedule(start, end);
+
+	return (
+		<section className="animate-[fadeIn_0.2s_ease]">
+			<div className="mb-5 flex items-center gap-4">
+				<Link
+					to="/"
+					className="flex items-center gap-2 rounded-md px-4 py-2.5 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary"
+				>
+					<ArrowLeftIcon className="h-4 w-4" />
+					Back
+				</Link>
+				<h2 className="text-xl font-semibold">Schedule</h2>
+
+				<div className="ml-auto flex items-center gap-1">
+					<button
+						type="button"
+						onClick={() => setWeekOffset((offset) => offset - 1)}
+						aria-label="Previous week"
+						className={NAV_BUTTON_CLASS_NAME}
+					>
+						<ChevronLeftIcon className="h-4 w-4" />
+					</button>
+					<button
+						type="button"
+						onClick={() => setWeekOffset(0)}
+						disabled={weekOffset === 0}
+						className="rounded-md px-3 py-1.5 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary enabled:cursor-pointer disabled:opacity-50"
+					>
+						This week
+					</button>
+					<button
+						type="button"
+						onClick={() => setWeekOffset((offset) => offset + 1)}
+						aria-label="Next week"
+						className={NAV_BUTTON_CLASS_NAME}
+					>
+						<ChevronRightIcon className="h-4 w-4" />
+					</button>
+				</div>
+			</div>
+
+			<p className="mb-5 text-sm text-text-dim">
+				Upcoming streams from your favorites&apos; Twitch schedules, refreshed in the
+				background. Copy the{" "}
+				<a href={CALENDAR_FEED_PATH} className="text-twitch-purple-light hover:underline">
+					iCalendar feed
+				</a>{" "}
+				link to subscribe from your calendar app.
+			</p>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading schedule...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{!isLoading && error === null && (
+				<ScheduleWeekView weekStart={weekStart} segments={segments} />
+			)}
+		</section>
+	);
+}
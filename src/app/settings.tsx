@@ -0,0 +1,63 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+
+import { LiveUpdatesSection } from "@/src/features/eventsub/components/live-updates-section";
+import { LayoutPresetsSection } from "@/src/features/multi-view/components/layout-presets-section";
+import { PlayerProfilesSection } from "@/src/features/player-profiles/components/player-profiles-section";
+import { VodChaptersSettingsSection } from "@/src/features/vod-chapters/components/vod-chapters-settings-section";
+import { ArrowLeftIcon } from "@/src/shared/components/icons";
+
+export const Route = createFileRoute("/settings")({
+	component: SettingsPage,
+});
+
+function SettingsPage() {
+	return (
+		<section className="animate-[fadeIn_0.2s_ease]">
+			<div className="mb-5 flex items-center gap-4">
+				<Link
+					to="/"
+					className="flex items-center gap-2 rounded-md px-4 py-2.5 text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary"
+				>
+					<ArrowLeftIcon className="h-4 w-4" />
+					Back
+				</Link>
+				<h2 className="text-xl font-semibold">Settings</h2>
+			</div>
+
+			<PlayerProfilesSection />
+
+			<LayoutPresetsSection />
+
+			<LiveUpdatesSection />
+
+			<VodChaptersSettingsSection />
+
+			<section className="mb-8">
+				<h3 className="text-lg font-semibold">Notifications</h3>
+				<p className="mb-3 text-xs text-text-dim">
+					Desktop alerts when favorites go live, with per-channel category filters and
+					quiet hours.
+				</p>
+				<Link
+					to="/notifications"
+					className="text-sm font-semibold text-twitch-purple-light hover:underline"
+				>
+					Manage notifications
+				</Link>
+			</section>
+
+			<section className="mb-8">
+				<h3 className="text-lg font-semibold">Hidden Channels</h3>
+				<p className="mb-3 text-xs text-text-dim">
+					Channels you hid from browse, the sidebar and the live grid.
+				</p>
+				<Link
+					to="/hidden-channels"
+					className="text-sm font-semibold text-twitch-purple-light hover:underline"
+				>
+					Review hidden channels
+				</Link>
+			</section>
+		</section>
+	);
+}
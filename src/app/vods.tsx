@@ -1,23 +1,69 @@
 import { createFileRoute, Link } from "@tanstack/react-router";
 import { useCallback, useMemo, useState } from "react";
 
-import { watchVod } from "@/src/features/vods/api/vods-mutations";
+import { FollowButton } from "@/src/features/channels/components/follow-button";
+import { useWatchVod } from "@/src/features/channels/hooks/use-launch";
+import { ClipsPanel } from "@/src/features/clips/components/clips-panel";
+import { useCreateDownload } from "@/src/features/downloads/hooks/use-downloads";
+import { useLocalVodIds } from "@/src/features/library/hooks/use-library";
+import { useToggleWatchLater } from "@/src/features/playlists/hooks/use-playlists";
+import { useFollowedChannels } from "@/src/features/sidebar/hooks/use-followed-channels";
+import { useVodChaptersBulk } from "@/src/features/vod-chapters/hooks/use-vod-chapters";
 import { VodCard } from "@/src/features/vods/components/vod-card";
-import { useSaveVodProgress, useVodProgressBulk } from "@/src/features/vods/hooks/use-vod-progress";
+import {
+	useSaveVodProgress,
+	useSetVodsWatched,
+	useVodProgressBulk,
+	useWatchedVodIds,
+} from "@/src/features/vods/hooks/use-vod-progress";
 import { useVodSearch } from "@/src/features/vods/hooks/use-vods";
+import { VIDEO_TYPE_FILTERS } from "@/src/features/vods/vods.validators";
 import { ArrowLeftIcon, SearchIcon } from "@/src/shared/components/icons";
 import { formatDuration, parseDurationToSeconds } from "@/src/shared/utils/format";
 
+import type { ClipSource } from "@/src/features/clips/clips.types";
 import type { VodCardData } from "@/src/features/vods/components/vod-card";
 import type { VodProgressSelect } from "@/src/features/vods/vods.types";
-import type { TwitchVideo } from "@/src/services/twitch-service";
+import type { TwitchVideo, TwitchVideoTypeFilter } from "@/src/services/twitch-service";
+
+type VodsSearch = {
+	channel?: string | undefined;
+};
 
 export const Route = createFileRoute("/vods")({
+	validateSearch: (search: Record<string, unknown>): VodsSearch => ({
+		channel: typeof search.channel === "string" ? search.channel : undefined,
+	}),
 	component: VodsPage,
 });
 
 const EMPTY_VOD_IDS: Array<string> = [];
 
+type ContentTab = "vods" | "channel-clips" | "category-clips";
+
+const CONTENT_TABS: Array<{ value: ContentTab; label: string }> = [
+	{ value: "vods", label: "VODs" },
+	{ value: "channel-clips", label: "Channel clips" },
+	{ value: "category-clips", label: "Category clips" },
+];
+
+const VIDEO_TYPE_LABELS: Record<TwitchVideoTypeFilter, string> = {
+	archive: "Past broadcasts",
+	highlight: "Highlights",
+	upload: "Uploads",
+	all: "All",
+};
+
+function getTabClassName(isActive: boolean) {
+	const base = "rounded-md px-3 py-1.5 text-sm font-semibold transition-all cursor-pointer";
+
+	if (isActive) {
+		return `${base} bg-twitch-purple text-white`;
+	}
+
+	return `${base} text-text-muted hover:bg-surface-elevated hover:text-text-primary`;
+}
+
 function getVodCardData(vod: TwitchVideo): VodCardData {
 	return {
 		id: vod.id,
@@ -27,16 +73,27 @@ function getVodCardData(vod: TwitchVideo): VodCardData {
 		durationSeconds: parseDurationToSeconds(vod.duration),
 		durationLabel: formatDuration(vod.duration),
 		thumbnailUrl: vod.thumbnailUrl,
+		videoType: vod.type,
 	};
 }
 
 function VodsPage() {
-	const [searchInput, setSearchInput] = useState("");
-	const [searchQuery, setSearchQuery] = useState<string | null>(null);
+	// Prefilled when arriving from a channel page's "View all VODs" link
+	const { channel: initialChannel } = Route.useSearch();
+	const [searchInput, setSearchInput] = useState(initialChannel ?? "");
+	const [searchQuery, setSearchQuery] = useState<string | null>(initialChannel ?? null);
+	const [contentTab, setContentTab] = useState<ContentTab>("vods");
+	const [categoryQuery, setCategoryQuery] = useState<string | null>(null);
+	const [videoType, setVideoType] = useState<TwitchVideoTypeFilter>("archive");
+	const [isUnwatchedOnly, setIsUnwatchedOnly] = useState(false);
+	const isCategoryTab = contentTab === "category-clips";
 
 	const saveProgressMutation = useSaveVodProgress();
+	const watchVodMutation = useWatchVod();
+	const createDownloadMutation = useCreateDownload();
+	const setWatchedMutation = useSetVodsWatched();
 
-	const { data: vodSearchData, isLoading, error } = useVodSearch(searchQuery);
+	const { data: vodSearchData, isLoading, error } = useVodSearch(searchQuery, videoType);
 
 	const vodIds = useMemo(() => {
 		if (!vodSearchData || vodSearchData.videos.length === 0) {
@@ -47,6 +104,34 @@ function VodsPage() {
 	}, [vodSearchData]);
 
 	const { data: progressData } = useVodProgressBulk(vodIds);
+	const { chaptersByVodId } = useVodChaptersBulk(vodIds);
+	const watchedVodIds = useWatchedVodIds(vodIds);
+	const localVodIds = useLocalVodIds();
+	const { queuedVodIds, toggleWatchLater } = useToggleWatchLater();
+	const { channels: followedChannels } = useFollowedChannels();
+
+	const searchedChannel = vodSearchData?.channel ?? null;
+
+	const clipSource = useMemo((): ClipSource | null => {
+		if (contentTab === "category-clips") {
+			return categoryQuery !== null ? { gameName: categoryQuery } : null;
+		}
+
+		return searchedChannel !== null ? { channelId: searchedChannel.id } : null;
+	}, [contentTab, categoryQuery, searchedChannel]);
+	const isSearchedChannelFollowed = useMemo(() => {
+		if (searchedChannel === null) {
+			return false;
+		}
+
+		for (const channel of followedChannels) {
+			if (channel.id === searchedChannel.id) {
+				return channel.followSource !== null;
+			}
+		}
+
+		return false;
+	}, [followedChannels, searchedChannel]);
 
 	const vodProgressMap = useMemo(() => {
 		const map = new Map<string, VodProgressSelect>();
@@ -62,26 +147,69 @@ function VodsPage() {
 		return map;
 	}, [progressData]);
 
+	const visibleVods = useMemo(() => {
+		if (vodSearchData === null) {
+			return [];
+		}
+
+		if (!isUnwatchedOnly) {
+			return vodSearchData.videos;
+		}
+
+		return vodSearchData.videos.filter((video) => !watchedVodIds.has(video.id));
+	}, [vodSearchData, isUnwatchedOnly, watchedVodIds]);
+
+	const unwatchedVodIds = useMemo(() => {
+		const ids: Array<string> = [];
+		for (const video of visibleVods) {
+			if (!watchedVodIds.has(video.id)) {
+				ids.push(video.id);
+			}
+		}
+		return ids;
+	}, [visibleVods, watchedVodIds]);
+
 	function handleSearch(event: React.FormEvent) {
 		event.preventDefault();
 		const trimmed = searchInput.trim();
 
-		if (trimmed !== "") {
+		if (trimmed === "") {
+			return;
+		}
+
+		if (isCategoryTab) {
+			setCategoryQuery(trimmed);
+		} else {
 			setSearchQuery(trimmed);
 		}
 	}
 
-	const handleWatchVod = useCallback((vodId: string, startTimeSeconds?: number) => {
-		if (startTimeSeconds === undefined) {
-			watchVod({ id: vodId }).catch((watchError: unknown) => {
-				console.error("Failed to launch VOD:", watchError);
+	const handleWatchVod = useCallback(
+		(vodId: string, startTimeSeconds?: number, quality?: string) => {
+			watchVodMutation.mutate({ id: vodId, startTimeSeconds, quality });
+		},
+		[watchVodMutation],
+	);
+
+	const handleToggleWatched = useCallback(
+		(vodId: string, watched: boolean) => {
+			setWatchedMutation.mutate({ vodIds: [vodId], watched });
+		},
+		[setWatchedMutation],
+	);
+
+	const handleDownloadVod = useCallback(
+		(vodId: string, quality?: string) => {
+			createDownloadMutation.mutate({
+				kind: "vod",
+				vodId,
+				quality: quality ?? null,
+				startOffsetSeconds: null,
+				endOffsetSeconds: null,
 			});
-			return;
-		}
-		watchVod({ id: vodId, startTimeSeconds }).catch((watchError: unknown) => {
-			console.error("Failed to launch VOD:", watchError);
-		});
-	}, []);
+		},
+		[createDownloadMutation],
+	);
 
 	return (
 		<section className="animate-[fadeIn_0.2s_ease]">
@@ -94,6 +222,20 @@ function VodsPage() {
 					Back
 				</Link>
 				<h2 className="text-xl font-semibold">Search VODs</h2>
+
+				<div className="ml-auto flex gap-1">
+					{CONTENT_TABS.map((tab) => (
+						<button
+							key={tab.value}
+							type="button"
+							onClick={() => setContentTab(tab.value)}
+							aria-pressed={tab.value === contentTab}
+							className={getTabClassName(tab.value === contentTab)}
+						>
+							{tab.label}
+						</button>
+					))}
+				</div>
 			</div>
 
 			<form
@@ -105,8 +247,8 @@ function VodsPage() {
 					type="text"
 					value={searchInput}
 					onChange={(event) => setSearchInput(event.target.value)}
-					placeholder="Enter channel name..."
-					aria-label="Search channel name"
+					placeholder={isCategoryTab ? "Enter category name..." : "Enter channel name..."}
+					aria-label={isCategoryTab ? "Search category name" : "Search channel name"}
 					className="flex-1 border-none bg-transparent py-2.5 text-sm text-text-primary placeholder:text-text-dim focus:outline-none"
 					autoFocus
 				/>
@@ -118,33 +260,116 @@ function VodsPage() {
 				</button>
 			</form>
 
-			{isLoading && (
+			{!isCategoryTab && isLoading && (
 				<div className="flex items-center justify-center py-16 text-text-dim">
 					<span>Searching</span>
 					<span className="ml-3 h-6 w-6 animate-spin rounded-full border-2 border-surface-border-muted border-t-twitch-purple" />
 				</div>
 			)}
 
-			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+			{!isCategoryTab && error !== null && (
+				<p className="text-sm text-live">{error.message}</p>
+			)}
 
-			{vodSearchData !== null && (
+			{!isCategoryTab && searchedChannel !== null && (
+				<div className="mb-4 flex max-w-[600px] items-center gap-3">
+					<img
+						src={searchedChannel.profileImageUrl}
+						alt=""
+						className="h-10 w-10 flex-shrink-0 rounded-full object-cover"
+					/>
+					<Link
+						to="/channels/$id"
+						params={{ id: searchedChannel.id }}
+						className="min-w-0 flex-1 truncate text-base font-semibold text-twitch-purple-light hover:underline"
+					>
+						{searchedChannel.displayName}
+					</Link>
+					<FollowButton
+						channelId={searchedChannel.id}
+						channelName={searchedChannel.displayName}
+						isFollowed={isSearchedChannelFollowed}
+					/>
+				</div>
+			)}
+
+			{contentTab === "vods" && (
+				<div className="mb-4 flex flex-wrap items-center gap-1">
+					{VIDEO_TYPE_FILTERS.map((option) => (
+						<button
+							key={option}
+							type="button"
+							onClick={() => setVideoType(option)}
+							aria-pressed={option === videoType}
+							className={getTabClassName(option === videoType)}
+						>
+							{VIDEO_TYPE_LABELS[option]}
+						</button>
+					))}
+					<span className="mx-2 h-5 w-px bg-surface-border-muted" />
+					<button
+						type="button"
+						onClick={() => setIsUnwatchedOnly((current) => !current)}
+						aria-pressed={isUnwatchedOnly}
+						className={getTabClassName(isUnwatchedOnly)}
+					>
+						Unwatched only
+					</button>
+					<button
+						type="button"
+						onClick={() =>
+							setWatchedMutation.mutate({ vodIds: unwatchedVodIds, watched: true })
+						}
+						disabled={unwatchedVodIds.length === 0 || setWatchedMutation.isPending}
+						className="ml-auto rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-1.5 text-sm font-semibold text-text-muted transition-all hover:border-twitch-purple hover:text-text-primary enabled:cursor-pointer disabled:opacity-50"
+					>
+						Mark all watched
+					</button>
+				</div>
+			)}
+
+			{contentTab === "vods" && setWatchedMutation.error !== null && (
+				<p className="mb-3 text-sm text-live">{setWatchedMutation.error.message}</p>
+			)}
+
+			{contentTab !== "vods" && (
+				<ClipsPanel source={clipSource} emptyLabel="No clips in this period." />
+			)}
+
+			{contentTab === "vods" && vodSearchData !== null && (
 				<div className="grid grid-cols-[repeat(auto-fill,minmax(320px,1fr))] gap-4">
-					{vodSearchData.videos.map((vod) => (
+					{visibleVods.map((vod) => (
 						<VodCard
 							key={vod.id}
 							vod={getVodCardData(vod)}
 							progress={vodProgressMap.get(vod.id) ?? null}
+							chapters={chaptersByVodId.get(vod.id) ?? null}
 							onWatch={handleWatchVod}
 							onSaveProgress={saveProgressMutation.mutate}
+							onDownload={handleDownloadVod}
+							hasLocalCopy={localVodIds.has(vod.id)}
+							onQueue={toggleWatchLater}
+							onToggleWatched={handleToggleWatched}
+							isQueued={queuedVodIds.has(vod.id)}
+							isWatched={watchedVodIds.has(vod.id)}
 							showOfflineBadge={false}
 						/>
 					))}
 				</div>
 			)}
 
-			{vodSearchData !== null && vodSearchData.videos.length === 0 && (
-				<p className="text-sm text-text-dim">No VODs found for {searchQuery}</p>
-			)}
+			{contentTab === "vods" &&
+				vodSearchData !== null &&
+				vodSearchData.videos.length === 0 && (
+					<p className="text-sm text-text-dim">No VODs found for {searchQuery}</p>
+				)}
+
+			{contentTab === "vods" &&
+				vodSearchData !== null &&
+				vodSearchData.videos.length > 0 &&
+				visibleVods.length === 0 && (
+					<p className="text-sm text-text-dim">Everything here has been watched</p>
+				)}
 		</section>
 	);
 }
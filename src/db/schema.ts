@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { check, index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { check, index, integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
 
 export const auth = sqliteTable("auth", {
 	id: integer("id").primaryKey(),
@@ -10,6 +10,90 @@ export const auth = sqliteTable("auth", {
 	updatedAt: text("updated_at").default(sql`CURRENT_TIMESTAMP`),
 });
 
+export const playerProfiles = sqliteTable(
+	"player_profiles",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		name: text("name").notNull().unique(),
+		playerType: text("player_type", { enum: ["vlc", "mpv", "generic"] }).notNull(),
+		playerPath: text("player_path"),
+		playerArgs: text("player_args"),
+		vodPassthrough: text("vod_passthrough", { enum: ["none", "hls", "http"] })
+			.notNull()
+			.default("hls"),
+		windowTitle: text("window_title"),
+		createdAt: text("created_at")
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: text("updated_at")
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => [
+		check(
+			"player_profiles_player_type_valid",
+			sql`${table.playerType} IN ('vlc', 'mpv', 'generic')`,
+		),
+		check(
+			"player_profiles_vod_passthrough_valid",
+			sql`${table.vodPassthrough} IN ('none', 'hls', 'http')`,
+		),
+	],
+);
+
+export const layoutPresets = sqliteTable("layout_presets", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	name: text("name").notNull().unique(),
+	// JSON array of window slots, each as percentages of the screen ({ x, y, width, height })
+	slots: text("slots").notNull(),
+	createdAt: text("created_at")
+		.default(sql`CURRENT_TIMESTAMP`)
+		.notNull(),
+	updatedAt: text("updated_at")
+		.default(sql`CURRENT_TIMESTAMP`)
+		.notNull(),
+});
+
+export const launcherSettings = sqliteTable(
+	"launcher_settings",
+	{
+		id: integer("id").primaryKey(),
+		streamlinkPath: text("streamlink_path"),
+		chatterinoPath: text("chatterino_path"),
+		defaultPlayerProfileId: integer("default_player_profile_id").references(
+			() => playerProfiles.id,
+			{ onDelete: "set null" },
+		),
+		// Null saves downloads to data/downloads next to the database
+		downloadDirectory: text("download_directory"),
+		autoRecordFavorites: integer("auto_record_favorites", { mode: "boolean" })
+			.notNull()
+			.default(false),
+		// Null scans the download directory
+		libraryDirectory: text("library_directory"),
+		// Watched local copies older than this are deleted; null keeps them forever
+		retentionDays: integer("retention_days"),
+		// Chapters come from Twitch's undocumented web player API, so they stay off until opted in
+		vodChaptersEnabled: integer("vod_chapters_enabled", { mode: "boolean" })
+			.notNull()
+			.default(false),
+		updatedAt: text("updated_at")
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => [
+		check(
+			"launcher_settings_auto_record_favorites_bool",
+			sql`${table.autoRecordFavorites} IN (0, 1)`,
+		),
+		check("launcher_settings_retention_days_positive", sql`${table.retentionDays} > 0`),
+		check(
+			"launcher_settings_vod_chapters_enabled_bool",
+			sql`${table.vodChaptersEnabled} IN (0, 1)`,
+		),
+	],
+);
+
 export const vods = sqliteTable(
 	"vods",
 	{
@@ -21,8 +105,13 @@ export const vods = sqliteTable(
 		durationSeconds: integer("duration_seconds").notNull().default(0),
 		createdAt: text("created_at").notNull(),
 		thumbnailUrl: text("thumbnail_url").notNull(),
+		videoType: text("video_type", { enum: ["archive", "highlight", "upload"] })
+			.notNull()
+			.default("archive"),
 		playbackPositionSeconds: integer("playback_position_seconds").notNull().default(0),
 		playbackUpdatedAt: text("playback_updated_at"),
+		// Hidden from continue watching until playback moves again
+		progressDismissedAt: text("progress_dismissed_at"),
 		fetchedAt: text("fetched_at")
 			.default(sql`CURRENT_TIMESTAMP`)
 			.notNull(),
@@ -33,9 +122,25 @@ export const vods = sqliteTable(
 		index("vods_playback_updated_idx").on(table.playbackUpdatedAt),
 		check("vods_duration_non_negative", sql`${table.durationSeconds} >= 0`),
 		check("vods_playback_position_non_negative", sql`${table.playbackPositionSeconds} >= 0`),
+		check(
+			"vods_video_type_valid",
+			sql`${table.videoType} IN ('archive', 'highlight', 'upload')`,
+		),
 	],
 );
 
+// Kept apart from vods, which only caches VODs of followed channels, so any VOD can be marked
+export const watchedVods = sqliteTable(
+	"watched_vods",
+	{
+		vodId: text("vod_id").primaryKey(),
+		watchedAt: text("watched_at")
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => [index("watched_vods_watched_at_idx").on(table.watchedAt)],
+);
+
 export const followedChannels = sqliteTable(
 	"followed_channels",
 	{
@@ -43,11 +148,17 @@ export const followedChannels = sqliteTable(
 		channelName: text("channel_name").notNull(),
 		profileImageUrl: text("profile_image_url").notNull(),
 		isLive: integer("is_live", { mode: "boolean" }).notNull().default(false),
+		// Superseded by channel_ranks and no longer written. Dropping them needs a table
+		// rebuild, which would cascade-delete every cached VOD inside the migration transaction.
 		isFavorite: integer("is_favorite", { mode: "boolean" }).notNull().default(false),
 		sortOrder: integer("sort_order").notNull().default(0),
 		lastSeenAt: text("last_seen_at"),
 		latestVodId: text("latest_vod_id"),
+		preferredQuality: text("preferred_quality"),
 		followedAt: text("followed_at"),
+		// A channel can be followed on Twitch, locally in the app, or both
+		isTwitchFollow: integer("is_twitch_follow", { mode: "boolean" }).notNull().default(true),
+		isLocalFollow: integer("is_local_follow", { mode: "boolean" }).notNull().default(false),
 		fetchedAt: text("fetched_at")
 			.default(sql`CURRENT_TIMESTAMP`)
 			.notNull(),
@@ -57,10 +168,324 @@ export const followedChannels = sqliteTable(
 	},
 	(table) => [
 		index("followed_channels_channel_name_idx").on(table.channelName),
-		index("followed_channels_favorite_sort_idx").on(table.isFavorite, table.sortOrder),
 		index("followed_channels_is_live_idx").on(table.isLive),
 		index("followed_channels_latest_vod_id_idx").on(table.latestVodId),
 		check("followed_channels_is_live_bool", sql`${table.isLive} IN (0, 1)`),
 		check("followed_channels_is_favorite_bool", sql`${table.isFavorite} IN (0, 1)`),
+		check("followed_channels_is_twitch_follow_bool", sql`${table.isTwitchFollow} IN (0, 1)`),
+		check("followed_channels_is_local_follow_bool", sql`${table.isLocalFollow} IN (0, 1)`),
+	],
+);
+
+// Twitch follows unfollowed in the app. Twitch has no follow write API, so the sync skips these instead
+export const ignoredFollows = sqliteTable("ignored_follows", {
+	channelId: text("channel_id").primaryKey(),
+	channelName: text("channel_name").notNull(),
+	ignoredAt: text("ignored_at")
+		.default(sql`CURRENT_TIMESTAMP`)
+		.notNull(),
+});
+
+export const watchSessions = sqliteTable(
+	"watch_sessions",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		kind: text("kind", { enum: ["live", "vod"] }).notNull(),
+		channelName: text("channel_name"),
+		vodId: text("vod_id"),
+		quality: text("quality").notNull(),
+		startedAt: text("started_at").notNull(),
+		// Both stay null until the player exits (or forever, if the server restarted meanwhile)
+		endedAt: text("ended_at"),
+		durationSeconds: integer("duration_seconds"),
+	},
+	(table) => [
+		index("watch_sessions_started_at_idx").on(table.startedAt),
+		index("watch_sessions_channel_name_idx").on(table.channelName),
+		check("watch_sessions_kind_valid", sql`${table.kind} IN ('live', 'vod')`),
+		check("watch_sessions_duration_non_negative", sql`${table.durationSeconds} >= 0`),
+	],
+);
+
+export const browseSections = sqliteTable(
+	"browse_sections",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		categoryName: text("category_name").notNull().unique(),
+		// Resolved from the name through the Twitch API the first time the section is loaded
+		categoryId: text("category_id"),
+		boxArtUrl: text("box_art_url"),
+		sortOrder: integer("sort_order").notNull().default(0),
+		createdAt: text("created_at")
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => [index("browse_sections_sort_order_idx").on(table.sortOrder)],
+);
+
+// Kept apart from followed_channels so a rank survives unfollow cleanup and covers channels never followed
+export const channelRanks = sqliteTable(
+	"channel_ranks",
+	{
+		channelId: text("channel_id").primaryKey(),
+		channelName: text("channel_name").notNull(),
+		profileImageUrl: text("profile_image_url"),
+		rank: text("rank", { enum: ["favorite", "followed", "known", "hidden"] }).notNull(),
+		// Only meaningful for favorites, which can be dragged into order
+		sortOrder: integer("sort_order").notNull().default(0),
+		updatedAt: text("updated_at")
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => [
+		index("channel_ranks_rank_sort_idx").on(table.rank, table.sortOrder),
+		check(
+			"channel_ranks_rank_valid",
+			sql`${table.rank} IN ('favorite', 'followed', 'known', 'hidden')`,
+		),
+	],
+);
+
+// Channels without a rule fall back to the defaults when they're favorites, and are skipped otherwise
+export const notificationRules = sqliteTable(
+	"notification_rules",
+	{
+		channelId: text("channel_id").primaryKey(),
+		channelName: text("channel_name").notNull(),
+		isEnabled: integer("is_enabled", { mode: "boolean" }).notNull().default(true),
+		// JSON array of category names; an empty array notifies for any category
+		gameNames: text("game_names").notNull().default("[]"),
+		// Minutes after local midnight. A start later than the end wraps past midnight
+		quietStartMinute: integer("quiet_start_minute"),
+		quietEndMinute: integer("quiet_end_minute"),
+		minDowntimeMinutes: integer("min_downtime_minutes").notNull().default(30),
+		updatedAt: text("updated_at")
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => [
+		check("notification_rules_is_enabled_bool", sql`${table.isEnabled} IN (0, 1)`),
+		check(
+			"notification_rules_quiet_hours_valid",
+			sql`(${table.quietStartMinute} IS NULL AND ${table.quietEndMinute} IS NULL) OR (${table.quietStartMinute} IS NOT NULL AND ${table.quietEndMinute} IS NOT NULL AND ${table.quietStartMinute} BETWEEN 0 AND 1439 AND ${table.quietEndMinute} BETWEEN 0 AND 1439)`,
+		),
+		check(
+			"notification_rules_min_downtime_non_negative",
+			sql`${table.minDowntimeMinutes} >= 0`,
+		),
+	],
+);
+
+export const notifications = sqliteTable(
+	"notifications",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		channelId: text("channel_id").notNull(),
+		channelName: text("channel_name").notNull(),
+		title: text("title").notNull(),
+		gameName: text("game_name").notNull(),
+		streamStartedAt: text("stream_started_at").notNull(),
+		createdAt: text("created_at")
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => [index("notifications_created_at_idx").on(table.createdAt)],
+);
+
+// One row per broadcast. Open sessions (ended_at NULL) are sampled on every live poll
+export const streamSessions = sqliteTable(
+	"stream_sessions",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		channelId: text("channel_id").notNull(),
+		channelName: text("channel_name").notNull(),
+		// Twitch's started_at, which identifies the broadcast across polls
+		startedAt: text("started_at").notNull(),
+		endedAt: text("ended_at"),
+		lastSeenAt: text("last_seen_at").notNull(),
+		peakViewers: integer("peak_viewers").notNull().default(0),
+		viewerSampleTotal: integer("viewer_sample_total").notNull().default(0),
+		viewerSampleCount: integer("viewer_sample_count").notNull().default(0),
+		// JSON array of { at, title, gameName }, appended whenever the title or category changes
+		segments: text("segments").notNull().default("[]"),
+	},
+	(table) => [
+		uniqueIndex("stream_sessions_channel_started_idx").on(table.channelId, table.startedAt),
+		index("stream_sessions_ended_at_idx").on(table.endedAt),
+		check(
+			"stream_sessions_viewers_non_negative",
+			sql`${table.peakViewers} >= 0 AND ${table.viewerSampleTotal} >= 0 AND ${table.viewerSampleCount} >= 0`,
+		),
+	],
+);
+
+export const scheduleSegments = sqliteTable(
+	"schedule_segments",
+	{
+		// Twitch's segment id, unique per occurrence even for recurring segments
+		id: text("id").primaryKey(),
+		channelId: text("channel_id").notNull(),
+		channelName: text("channel_name").notNull(),
+		title: text("title").notNull(),
+		categoryName: text("category_name"),
+		startTime: text("start_time").notNull(),
+		endTime: text("end_time"),
+		isRecurring: integer("is_recurring", { mode: "boolean" }).notNull().default(false),
+		fetchedAt: text("fetched_at").notNull(),
+	},
+	(table) => [
+		index("schedule_segments_channel_id_idx").on(table.channelId),
+		index("schedule_segments_start_time_idx").on(table.startTime),
+	],
+);
+
+export const clips = sqliteTable(
+	"clips",
+	{
+		id: text("id").primaryKey(),
+		broadcasterId: text("broadcaster_id").notNull(),
+		broadcasterName: text("broadcaster_name").notNull(),
+		creatorName: text("creator_name").notNull(),
+		videoId: text("video_id"),
+		gameId: text("game_id").notNull(),
+		title: text("title").notNull(),
+		viewCount: integer("view_count").notNull().default(0),
+		// Clips are fractional seconds long, so this is the rounded-up length
+		durationSeconds: integer("duration_seconds").notNull(),
+		vodOffsetSeconds: integer("vod_offset_seconds"),
+		thumbnailUrl: text("thumbnail_url").notNull(),
+		createdAt: text("created_at").notNull(),
+		fetchedAt: text("fetched_at").notNull(),
+	},
+	(table) => [
+		index("clips_broadcaster_created_idx").on(table.broadcasterId, table.createdAt),
+		index("clips_game_created_idx").on(table.gameId, table.createdAt),
+		check(
+			"clips_counts_non_negative",
+			sql`${table.viewCount} >= 0 AND ${table.durationSeconds} >= 0`,
+		),
+	],
+);
+
+// Keyed by VOD id alone since chapters are also shown for channels we don't follow
+export const vodChapters = sqliteTable("vod_chapters", {
+	vodId: text("vod_id").primaryKey(),
+	// JSON array of { positionSeconds, durationSeconds, gameName, description }
+	chapters: text("chapters").notNull().default("[]"),
+	fetchedAt: text("fetched_at").notNull(),
+});
+
+export const downloads = sqliteTable(
+	"downloads",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		kind: text("kind", { enum: ["vod", "live"] }).notNull(),
+		channelName: text("channel_name").notNull(),
+		vodId: text("vod_id"),
+		title: text("title"),
+		quality: text("quality").notNull(),
+		// VOD range to download; null offsets mean the start or end of the VOD
+		startOffsetSeconds: integer("start_offset_seconds"),
+		endOffsetSeconds: integer("end_offset_seconds"),
+		outputPath: text("output_path").notNull(),
+		status: text("status", {
+			enum: ["queued", "running", "completed", "failed", "canceled"],
+		})
+			.notNull()
+			.default("queued"),
+		bytesWritten: integer("bytes_written").notNull().default(0),
+		error: text("error"),
+		// Started by auto-recording rather than from the downloads page
+		isAutoRecording: integer("is_auto_recording", { mode: "boolean" }).notNull().default(false),
+		createdAt: text("created_at").notNull(),
+		startedAt: text("started_at"),
+		finishedAt: text("finished_at"),
+	},
+	(table) => [
+		index("downloads_status_idx").on(table.status),
+		index("downloads_created_at_idx").on(table.createdAt),
+		check("downloads_kind_valid", sql`${table.kind} IN ('vod', 'live')`),
+		check(
+			"downloads_status_valid",
+			sql`${table.status} IN ('queued', 'running', 'completed', 'failed', 'canceled')`,
+		),
+		check(
+			"downloads_offsets_valid",
+			sql`${table.startOffsetSeconds} >= 0 AND ${table.endOffsetSeconds} > coalesce(${table.startOffsetSeconds}, 0)`,
+		),
+		check("downloads_bytes_written_non_negative", sql`${table.bytesWritten} >= 0`),
+		check("downloads_is_auto_recording_bool", sql`${table.isAutoRecording} IN (0, 1)`),
+	],
+);
+
+// Video files found by the last library scan, plus downloads that completed since
+export const libraryFiles = sqliteTable(
+	"library_files",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		path: text("path").notNull().unique(),
+		// Taken from the channel folder the file sits in, when there is one
+		channelName: text("channel_name"),
+		vodId: text("vod_id"),
+		sizeBytes: integer("size_bytes").notNull().default(0),
+		// Partial copies come from ranged downloads and are never played in place of the VOD
+		isPartial: integer("is_partial", { mode: "boolean" }).notNull().default(false),
+		modifiedAt: text("modified_at").notNull(),
+		scannedAt: text("scanned_at").notNull(),
+	},
+	(table) => [
+		index("library_files_vod_id_idx").on(table.vodId),
+		check("library_files_size_bytes_non_negative", sql`${table.sizeBytes} >= 0`),
+		check("library_files_is_partial_bool", sql`${table.isPartial} IN (0, 1)`),
+	],
+);
+
+export const playlists = sqliteTable(
+	"playlists",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		name: text("name").notNull().unique(),
+		// The built-in Watch Later list, seeded by its migration, can't be renamed or deleted
+		isWatchLater: integer("is_watch_later", { mode: "boolean" }).notNull().default(false),
+		createdAt: text("created_at")
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: text("updated_at")
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => [check("playlists_is_watch_later_bool", sql`${table.isWatchLater} IN (0, 1)`)],
+);
+
+export const playlistItems = sqliteTable(
+	"playlist_items",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		playlistId: integer("playlist_id")
+			.notNull()
+			.references(() => playlists.id, { onDelete: "cascade" }),
+		vodId: text("vod_id").notNull(),
+		// Copied when added, so VODs of channels we don't follow still show up
+		channelName: text("channel_name").notNull(),
+		title: text("title").notNull(),
+		durationSeconds: integer("duration_seconds").notNull().default(0),
+		thumbnailUrl: text("thumbnail_url").notNull(),
+		videoType: text("video_type", { enum: ["archive", "highlight", "upload"] })
+			.notNull()
+			.default("archive"),
+		vodCreatedAt: text("vod_created_at").notNull(),
+		sortOrder: integer("sort_order").notNull().default(0),
+		addedAt: text("added_at")
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	},
+	(table) => [
+		uniqueIndex("playlist_items_playlist_vod_idx").on(table.playlistId, table.vodId),
+		index("playlist_items_playlist_sort_idx").on(table.playlistId, table.sortOrder),
+		check("playlist_items_duration_non_negative", sql`${table.durationSeconds} >= 0`),
+		check(
+			"playlist_items_video_type_valid",
+			sql`${table.videoType} IN ('archive', 'highlight', 'upload')`,
+		),
 	],
 );
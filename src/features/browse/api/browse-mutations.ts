@@ -0,0 +1,26 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+import { JSON_HEADERS } from "@/src/shared/utils/http";
+
+import type { BrowseSectionInput } from "../browse.types";
+
+export async function createBrowseSectionApi(input: BrowseSectionInput) {
+	const response = await fetch("/api/browse/sections", {
+		method: "POST",
+		headers: JSON_HEADERS,
+		body: JSON.stringify(input),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to add browse section");
+		throw new Error(message);
+	}
+}
+
+export async function deleteBrowseSectionApi(id: number) {
+	const response = await fetch(`/api/browse/sections/${id}`, { method: "DELETE" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to remove browse section");
+		throw new Error(message);
+	}
+}
@@ -0,0 +1,84 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import {
+	parseBrowseSectionsResponse,
+	parseBrowseStreamsResponse,
+	parseCategorySearchResponse,
+	parseChannelSearchResponse,
+} from "../browse.validators";
+
+export async function fetchBrowseSections() {
+	const response = await fetch("/api/browse/sections");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch browse sections");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseBrowseSectionsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
+
+export async function fetchBrowseSectionStreams(
+	sectionId: number,
+	{ limit, cursor }: { limit: number; cursor: string | null },
+) {
+	const params = new URLSearchParams({ limit: limit.toString() });
+	if (cursor !== null) {
+		params.set("cursor", cursor);
+	}
+
+	const response = await fetch(`/api/browse/sections/${sectionId}/streams?${params.toString()}`);
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch streams");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseBrowseStreamsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
+
+export async function fetchCategorySearch(query: string) {
+	const response = await fetch(`/api/browse/categories?query=${encodeURIComponent(query)}`);
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to search categories");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseCategorySearchResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
+
+export async function fetchBrowseChannelSearch(query: string) {
+	const response = await fetch(`/api/browse/channels?query=${encodeURIComponent(query)}`);
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to search channels");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseChannelSearchResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
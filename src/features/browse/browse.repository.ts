@@ -0,0 +1,108 @@
+import { asc, eq, sql } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { browseSections } from "@/src/db/schema";
+
+import type { BrowseSection, BrowseSectionInput } from "./browse.types";
+
+const BROWSE_SECTION_COLUMNS = {
+	id: browseSections.id,
+	categoryName: browseSections.categoryName,
+	categoryId: browseSections.categoryId,
+	boxArtUrl: browseSections.boxArtUrl,
+	sortOrder: browseSections.sortOrder,
+};
+
+export function getAllBrowseSections(): Array<BrowseSection> | Error {
+	try {
+		return database
+			.select(BROWSE_SECTION_COLUMNS)
+			.from(browseSections)
+			.orderBy(asc(browseSections.sortOrder), asc(browseSections.id))
+			.all();
+	} catch (error) {
+		console.error("[browse.repository] getAllBrowseSections failed:", error);
+		return new Error("Failed to get browse sections");
+	}
+}
+
+export function getBrowseSectionById(id: number) {
+	try {
+		const row = database
+			.select(BROWSE_SECTION_COLUMNS)
+			.from(browseSections)
+			.where(eq(browseSections.id, id))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[browse.repository] getBrowseSectionById failed:", error);
+		return new Error("Failed to get browse section");
+	}
+}
+
+export function getBrowseSectionByName(categoryName: string) {
+	try {
+		const row = database
+			.select({ id: browseSections.id })
+			.from(browseSections)
+			.where(sql`lower(${browseSections.categoryName}) = lower(${categoryName})`)
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[browse.repository] getBrowseSectionByName failed:", error);
+		return new Error("Failed to get browse section");
+	}
+}
+
+export function createBrowseSection(input: BrowseSectionInput): BrowseSection | Error {
+	try {
+		// New sections go to the end of the list
+		const row = database
+			.insert(browseSections)
+			.values({
+				categoryName: input.categoryName,
+				categoryId: input.categoryId,
+				boxArtUrl: input.boxArtUrl,
+				sortOrder: sql`(SELECT COALESCE(MAX(${browseSections.sortOrder}), -1) + 1 FROM ${browseSections})`,
+			})
+			.returning(BROWSE_SECTION_COLUMNS)
+			.get();
+
+		return row;
+	} catch (error) {
+		console.error("[browse.repository] createBrowseSection failed:", error);
+		return new Error("Failed to create browse section");
+	}
+}
+
+export function setBrowseSectionCategory(id: number, categoryId: string, boxArtUrl: string) {
+	try {
+		database
+			.update(browseSections)
+			.set({ categoryId, boxArtUrl })
+			.where(eq(browseSections.id, id))
+			.run();
+
+		return null;
+	} catch (error) {
+		console.error("[browse.repository] setBrowseSectionCategory failed:", error);
+		return new Error("Failed to update browse section");
+	}
+}
+
+export function deleteBrowseSection(id: number) {
+	try {
+		const deleted = database
+			.delete(browseSections)
+			.where(eq(browseSections.id, id))
+			.returning({ id: browseSections.id })
+			.all();
+
+		return deleted.length > 0;
+	} catch (error) {
+		console.error("[browse.repository] deleteBrowseSection failed:", error);
+		return new Error("Failed to delete browse section");
+	}
+}
@@ -0,0 +1,46 @@
+export type BrowseSection = {
+	id: number;
+	categoryName: string;
+	categoryId: string | null;
+	boxArtUrl: string | null;
+	sortOrder: number;
+};
+
+export type BrowseSectionInput = {
+	categoryName: string;
+	categoryId: string | null;
+	boxArtUrl: string | null;
+};
+
+export type BrowseStream = {
+	userId: string;
+	userLogin: string;
+	userName: string;
+	title: string;
+	gameName: string;
+	viewerCount: number;
+	thumbnailUrl: string;
+	startedAt: string;
+};
+
+export type BrowseStreamsPage = {
+	streams: Array<BrowseStream>;
+	cursor: string | null;
+};
+
+export type BrowseCategory = {
+	id: string;
+	name: string;
+	boxArtUrl: string;
+};
+
+export type BrowseChannel = {
+	id: string;
+	login: string;
+	displayName: string;
+	isLive: boolean;
+	gameName: string;
+	title: string;
+	profileImageUrl: string;
+	startedAt: string;
+};
@@ -0,0 +1,215 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type {
+	BrowseCategory,
+	BrowseChannel,
+	BrowseSection,
+	BrowseSectionInput,
+	BrowseStream,
+	BrowseStreamsPage,
+} from "./browse.types";
+
+const MAX_CATEGORY_NAME_LENGTH = 100;
+const MAX_SEARCH_QUERY_LENGTH = 100;
+const MAX_STREAMS_LIMIT = 100;
+
+// A section starts with a handful of channels; "view more" pulls bigger pages
+export const BROWSE_PREVIEW_LIMIT = 4;
+export const BROWSE_MORE_LIMIT = 8;
+
+export function parseBrowseSectionId(value: string) {
+	const id = Number(value);
+
+	if (!Number.isInteger(id) || id <= 0) {
+		return new Error("Section id must be a positive integer");
+	}
+
+	return id;
+}
+
+export function parseBrowseStreamsLimit(value: string | null) {
+	if (value === null) {
+		return BROWSE_PREVIEW_LIMIT;
+	}
+
+	const limit = Number(value);
+
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_STREAMS_LIMIT) {
+		return new Error(`limit must be an integer between 1 and ${MAX_STREAMS_LIMIT}`);
+	}
+
+	return limit;
+}
+
+export function parseSearchQuery(value: string | null) {
+	if (value === null || value.trim() === "") {
+		return new Error("query param required");
+	}
+
+	const query = value.trim();
+
+	if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+		return new Error(`query must not exceed ${MAX_SEARCH_QUERY_LENGTH} characters`);
+	}
+
+	return query;
+}
+
+function parseOptionalString(value: unknown, fieldName: string) {
+	if (value === undefined || value === null) {
+		return null;
+	}
+
+	if (typeof value !== "string") {
+		return new Error(`${fieldName} must be a string or null`);
+	}
+
+	const trimmed = value.trim();
+
+	if (trimmed === "") {
+		return null;
+	}
+
+	return trimmed;
+}
+
+export function validateBrowseSectionRequest(body: unknown): BrowseSectionInput | Error {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	if (typeof body.categoryName !== "string" || body.categoryName.trim().length === 0) {
+		return new Error("categoryName is required and must be a non-empty string");
+	}
+
+	const categoryName = body.categoryName.trim();
+
+	if (categoryName.length > MAX_CATEGORY_NAME_LENGTH) {
+		return new Error(`categoryName must not exceed ${MAX_CATEGORY_NAME_LENGTH} characters`);
+	}
+
+	const categoryId = parseOptionalString(body.categoryId, "categoryId");
+	if (categoryId instanceof Error) {
+		return categoryId;
+	}
+
+	const boxArtUrl = parseOptionalString(body.boxArtUrl, "boxArtUrl");
+	if (boxArtUrl instanceof Error) {
+		return boxArtUrl;
+	}
+
+	return { categoryName, categoryId, boxArtUrl };
+}
+
+function isNullableString(value: unknown) {
+	return value === null || typeof value === "string";
+}
+
+function isBrowseSection(value: unknown): value is BrowseSection {
+	return (
+		isRecord(value) &&
+		typeof value.id === "number" &&
+		typeof value.categoryName === "string" &&
+		isNullableString(value.categoryId) &&
+		isNullableString(value.boxArtUrl) &&
+		typeof value.sortOrder === "number"
+	);
+}
+
+function isBrowseStream(value: unknown): value is BrowseStream {
+	return (
+		isRecord(value) &&
+		typeof value.userId === "string" &&
+		typeof value.userLogin === "string" &&
+		typeof value.userName === "string" &&
+		typeof value.title === "string" &&
+		typeof value.gameName === "string" &&
+		typeof value.viewerCount === "number" &&
+		typeof value.thumbnailUrl === "string" &&
+		typeof value.startedAt === "string"
+	);
+}
+
+function isBrowseCategory(value: unknown): value is BrowseCategory {
+	return (
+		isRecord(value) &&
+		typeof value.id === "string" &&
+		typeof value.name === "string" &&
+		typeof value.boxArtUrl === "string"
+	);
+}
+
+function isBrowseChannel(value: unknown): value is BrowseChannel {
+	return (
+		isRecord(value) &&
+		typeof value.id === "string" &&
+		typeof value.login === "string" &&
+		typeof value.displayName === "string" &&
+		typeof value.isLive === "boolean" &&
+		typeof value.gameName === "string" &&
+		typeof value.title === "string" &&
+		typeof value.profileImageUrl === "string" &&
+		typeof value.startedAt === "string"
+	);
+}
+
+function parseArray<T>(value: unknown, isItem: (item: unknown) => item is T) {
+	if (!Array.isArray(value)) {
+		return null;
+	}
+
+	const items: Array<T> = [];
+	for (const item of value) {
+		if (!isItem(item)) {
+			return null;
+		}
+		items.push(item);
+	}
+
+	return items;
+}
+
+export function parseBrowseSectionsResponse(data: unknown): Array<BrowseSection> | Error {
+	const sections = isRecord(data) ? parseArray(data.sections, isBrowseSection) : null;
+
+	if (sections === null) {
+		return new Error("Invalid browse sections response");
+	}
+
+	return sections;
+}
+
+export function parseBrowseStreamsResponse(data: unknown): BrowseStreamsPage | Error {
+	if (!isRecord(data)) {
+		return new Error("Invalid browse streams response");
+	}
+
+	const cursor = data.cursor;
+	const streams = parseArray(data.streams, isBrowseStream);
+
+	if (streams === null || (cursor !== null && typeof cursor !== "string")) {
+		return new Error("Invalid browse streams response");
+	}
+
+	return { streams, cursor };
+}
+
+export function parseCategorySearchResponse(data: unknown): Array<BrowseCategory> | Error {
+	const categories = isRecord(data) ? parseArray(data.categories, isBrowseCategory) : null;
+
+	if (categories === null) {
+		return new Error("Invalid category search response");
+	}
+
+	return categories;
+}
+
+export function parseChannelSearchResponse(data: unknown): Array<BrowseChannel> | Error {
+	const channels = isRecord(data) ? parseArray(data.channels, isBrowseChannel) : null;
+
+	if (channels === null) {
+		return new Error("Invalid channel search response");
+	}
+
+	return channels;
+}
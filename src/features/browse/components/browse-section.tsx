@@ -0,0 +1,89 @@
+import { memo, useRef } from "react";
+
+import { BrowseStreamCard } from "@/src/features/browse/components/browse-stream-card";
+import { useBrowseSectionStreams } from "@/src/features/browse/hooks/use-browse";
+import { useHasBeenInView } from "@/src/features/browse/hooks/use-in-view";
+import { XMarkIcon } from "@/src/shared/components/icons";
+import { formatThumbnail } from "@/src/shared/utils/format";
+
+import type { BrowseSection as BrowseSectionData } from "@/src/features/browse/browse.types";
+
+type BrowseSectionProps = {
+	section: BrowseSectionData;
+	onRemove?: ((section: BrowseSectionData) => void) | undefined;
+	isRemoving?: boolean;
+};
+
+const BrowseSection = memo(function BrowseSection({
+	section,
+	onRemove,
+	isRemoving = false,
+}: BrowseSectionProps) {
+	const sectionRef = useRef<HTMLElement>(null);
+	const hasBeenInView = useHasBeenInView(sectionRef);
+
+	const { streams, isLoading, error, hasMore, isLoadingMore, loadMore } = useBrowseSectionStreams(
+		section.id,
+		hasBeenInView,
+	);
+
+	const isEmpty = hasBeenInView && !isLoading && error === null && streams.length === 0;
+
+	return (
+		<section ref={sectionRef} className="mb-8 min-h-[12rem]">
+			<div className="mb-3 flex items-center gap-3">
+				{section.boxArtUrl !== null && (
+					<img
+						src={formatThumbnail(section.boxArtUrl, 30, 40)}
+						alt=""
+						className="h-10 w-[30px] rounded object-cover"
+					/>
+				)}
+				<h3 className="text-lg font-semibold">{section.categoryName}</h3>
+				{onRemove !== undefined && (
+					<button
+						type="button"
+						onClick={() => onRemove(section)}
+						disabled={isRemoving}
+						aria-label={`Remove the ${section.categoryName} section`}
+						title="Remove section"
+						className="ml-auto rounded-md p-2 text-text-dim transition-all hover:bg-surface-elevated hover:text-live cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+					>
+						<XMarkIcon className="h-4 w-4" />
+					</button>
+				)}
+			</div>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading live channels...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{isEmpty && (
+				<p className="text-sm text-text-dim">
+					No one is live in {section.categoryName} right now.
+				</p>
+			)}
+
+			{streams.length > 0 && (
+				<div className="grid grid-cols-[repeat(auto-fill,minmax(240px,1fr))] gap-4">
+					{streams.map((stream) => (
+						<BrowseStreamCard key={stream.userId} stream={stream} />
+					))}
+				</div>
+			)}
+
+			{hasMore && streams.length > 0 && (
+				<button
+					type="button"
+					onClick={() => loadMore()}
+					disabled={isLoadingMore}
+					className="mt-3 rounded-md px-3 py-1.5 text-sm font-semibold text-twitch-purple-light transition-all hover:bg-surface-elevated cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+				>
+					{isLoadingMore ? "Loading..." : "View more"}
+				</button>
+			)}
+		</section>
+	);
+});
+
+export { BrowseSection };
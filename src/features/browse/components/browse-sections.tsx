@@ -0,0 +1,58 @@
+import { memo, useCallback } from "react";
+
+import { BrowseSection } from "@/src/features/browse/components/browse-section";
+import { useBrowseSections, useDeleteBrowseSection } from "@/src/features/browse/hooks/use-browse";
+
+import type { BrowseSection as BrowseSectionData } from "@/src/features/browse/browse.types";
+
+type BrowseSectionsProps = {
+	isEditable?: boolean;
+};
+
+const BrowseSections = memo(function BrowseSections({ isEditable = false }: BrowseSectionsProps) {
+	const { sections, isLoading, error } = useBrowseSections();
+	const deleteMutation = useDeleteBrowseSection();
+
+	const { mutate: deleteSection } = deleteMutation;
+	const handleRemove = useCallback(
+		(section: BrowseSectionData) => {
+			if (!window.confirm(`Remove the "${section.categoryName}" section?`)) {
+				return;
+			}
+
+			deleteSection(section.id);
+		},
+		[deleteSection],
+	);
+
+	if (isLoading) {
+		return <p className="text-sm text-text-dim">Loading sections...</p>;
+	}
+
+	if (error !== null) {
+		return <p className="text-sm text-live">{error.message}</p>;
+	}
+
+	if (sections.length === 0) {
+		return <p className="text-sm text-text-dim">No categories added yet.</p>;
+	}
+
+	return (
+		<div>
+			{deleteMutation.error !== null && (
+				<p className="mb-3 text-sm text-live">{deleteMutation.error.message}</p>
+			)}
+
+			{sections.map((section) => (
+				<BrowseSection
+					key={section.id}
+					section={section}
+					onRemove={isEditable ? handleRemove : undefined}
+					isRemoving={deleteMutation.isPending && deleteMutation.variables === section.id}
+				/>
+			))}
+		</div>
+	);
+});
+
+export { BrowseSections };
@@ -0,0 +1,153 @@
+import { Link } from "@tanstack/react-router";
+import { memo, useCallback } from "react";
+
+import { useWatchLive } from "@/src/features/channels/hooks/use-launch";
+import { useHideChannel } from "@/src/features/hidden-channels/hooks/use-hidden-channels";
+import { useSessions } from "@/src/features/sessions/hooks/use-sessions";
+import { EyeSlashIcon, GridIcon } from "@/src/shared/components/icons";
+import { useMultiView } from "@/src/shared/context/multi-view-context";
+import { formatThumbnail, formatViewers } from "@/src/shared/utils/format";
+
+import type { BrowseStream } from "@/src/features/browse/browse.types";
+
+type BrowseStreamCardProps = {
+	stream: BrowseStream;
+};
+
+function getWatchButtonClassName(isWatching: boolean) {
+	const base = "flex-1 py-2 px-3 rounded-md border text-sm font-semibold transition-all";
+
+	if (isWatching) {
+		return `${base} bg-twitch-purple border-twitch-purple text-white cursor-not-allowed`;
+	}
+
+	return `${base} bg-surface-elevated border-surface-border-muted text-text-primary hover:bg-twitch-purple hover:border-twitch-purple cursor-pointer`;
+}
+
+function getMultiViewButtonClassName(isSelected: boolean, isDisabled: boolean) {
+	const base = "py-2 px-2.5 rounded-md border transition-all";
+
+	if (isSelected) {
+		return `${base} bg-twitch-purple border-twitch-purple text-white cursor-pointer`;
+	}
+
+	if (isDisabled) {
+		return `${base} bg-surface-elevated border-surface-border-muted opacity-50 cursor-not-allowed text-text-muted`;
+	}
+
+	return `${base} bg-surface-elevated border-surface-border-muted text-text-muted hover:text-text-primary hover:bg-twitch-purple hover:border-twitch-purple cursor-pointer`;
+}
+
+function getHideButtonClassName(isHiding: boolean) {
+	const base = "py-2 px-2.5 rounded-md border transition-all";
+
+	if (isHiding) {
+		return `${base} bg-surface-elevated border-surface-border-muted opacity-50 cursor-not-allowed text-text-muted`;
+	}
+
+	return `${base} bg-surface-elevated border-surface-border-muted text-text-muted hover:text-text-primary hover:bg-twitch-purple hover:border-twitch-purple cursor-pointer`;
+}
+
+const BrowseStreamCard = memo(function BrowseStreamCard({ stream }: BrowseStreamCardProps) {
+	const watchLiveMutation = useWatchLive();
+	const hideChannelMutation = useHideChannel();
+	const isHiding = hideChannelMutation.isPending;
+	const { watchingState } = useSessions();
+
+	const isWatching =
+		watchLiveMutation.isPending ||
+		watchingState.liveChannelNames.has(stream.userLogin.toLowerCase());
+
+	const multiView = useMultiView();
+	const isInMultiView = multiView.isSelected(stream.userLogin);
+	const isMultiViewDisabled = !isInMultiView && multiView.isFull;
+
+	const handleWatchClick = useCallback(() => {
+		if (isWatching) return;
+		watchLiveMutation.mutate({ channel: stream.userLogin });
+	}, [isWatching, watchLiveMutation, stream.userLogin]);
+
+	// Browse streams don't carry a profile image; the hidden list falls back to an initial
+	const handleHideClick = useCallback(() => {
+		if (isHiding) return;
+		hideChannelMutation.mutate({
+			channelId: stream.userId,
+			channelName: stream.userLogin,
+			profileImageUrl: null,
+		});
+	}, [isHiding, hideChannelMutation, stream.userId, stream.userLogin]);
+
+	const { toggleChannel } = multiView;
+	const handleMultiViewClick = useCallback(() => {
+		toggleChannel(stream.userLogin);
+	}, [toggleChannel, stream.userLogin]);
+
+	return (
+		<div className="bg-surface-card border border-surface-border-muted rounded-lg overflow-hidden transition-all hover:-translate-y-0.5 hover:border-surface-border">
+			<div className="relative aspect-video bg-surface-elevated">
+				<img
+					src={formatThumbnail(stream.thumbnailUrl, 440, 248)}
+					alt={stream.userName}
+					className="w-full h-full object-cover"
+					loading="lazy"
+				/>
+				<span className="absolute top-2 left-2 bg-live text-white text-xs font-bold px-2 py-0.5 rounded uppercase">
+					Live
+				</span>
+				<span className="absolute bottom-2 left-2 bg-black/80 text-white text-xs font-medium px-2 py-0.5 rounded">
+					{formatViewers(stream.viewerCount)} viewers
+				</span>
+			</div>
+
+			<div className="p-3">
+				<Link
+					to="/channels/$id"
+					params={{ id: stream.userId }}
+					className="block font-semibold text-sm text-twitch-purple-light truncate hover:underline"
+				>
+					{stream.userName}
+				</Link>
+				<div
+					className="text-sm text-text-primary mt-1 line-clamp-2 min-h-[2.5rem]"
+					title={stream.title}
+				>
+					{stream.title}
+				</div>
+
+				<div className="flex gap-2 mt-3">
+					<button
+						type="button"
+						onClick={handleWatchClick}
+						disabled={isWatching}
+						className={getWatchButtonClassName(isWatching)}
+					>
+						{isWatching ? "Watching" : "Watch"}
+					</button>
+					<button
+						type="button"
+						onClick={handleMultiViewClick}
+						disabled={isMultiViewDisabled}
+						aria-label={`Toggle ${stream.userName} in multi-view`}
+						aria-pressed={isInMultiView}
+						title={isInMultiView ? "Remove from multi-view" : "Add to multi-view"}
+						className={getMultiViewButtonClassName(isInMultiView, isMultiViewDisabled)}
+					>
+						<GridIcon className="w-4 h-4" />
+					</button>
+					<button
+						type="button"
+						onClick={handleHideClick}
+						disabled={isHiding}
+						aria-label={`Hide ${stream.userName}`}
+						title="Hide channel"
+						className={getHideButtonClassName(isHiding)}
+					>
+						<EyeSlashIcon className="w-4 h-4" />
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+});
+
+export { BrowseStreamCard };
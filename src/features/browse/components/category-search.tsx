@@ -0,0 +1,114 @@
+import { memo, useState } from "react";
+
+import {
+	useBrowseSections,
+	useCategorySearch,
+	useCreateBrowseSection,
+} from "@/src/features/browse/hooks/use-browse";
+import { PlusIcon, SearchIcon } from "@/src/shared/components/icons";
+import { formatThumbnail } from "@/src/shared/utils/format";
+
+import type { BrowseCategory } from "@/src/features/browse/browse.types";
+
+const CategorySearch = memo(function CategorySearch() {
+	const [searchInput, setSearchInput] = useState("");
+	const [searchQuery, setSearchQuery] = useState<string | null>(null);
+
+	const { categories, isLoading, error } = useCategorySearch(searchQuery);
+	const { sections } = useBrowseSections();
+	const createMutation = useCreateBrowseSection();
+
+	const addedCategoryNames = new Set<string>();
+	for (const section of sections) {
+		addedCategoryNames.add(section.categoryName.toLowerCase());
+	}
+
+	function handleSearch(event: React.FormEvent) {
+		event.preventDefault();
+		const trimmed = searchInput.trim();
+
+		if (trimmed !== "") {
+			setSearchQuery(trimmed);
+		}
+	}
+
+	function handleAdd(category: BrowseCategory) {
+		createMutation.mutate({
+			categoryName: category.name,
+			categoryId: category.id,
+			boxArtUrl: category.boxArtUrl,
+		});
+	}
+
+	return (
+		<div>
+			<form
+				onSubmit={handleSearch}
+				className="mb-3 flex max-w-[600px] items-center gap-3 rounded-lg border border-surface-border-muted bg-surface-card px-4 py-1"
+			>
+				<SearchIcon className="h-5 w-5 flex-shrink-0 text-text-dim" />
+				<input
+					type="text"
+					value={searchInput}
+					onChange={(event) => setSearchInput(event.target.value)}
+					placeholder="Find a category to add..."
+					aria-label="Search categories"
+					className="flex-1 border-none bg-transparent py-2.5 text-sm text-text-primary placeholder:text-text-dim focus:outline-none"
+				/>
+				<button
+					type="submit"
+					className="flex-shrink-0 rounded-md bg-twitch-purple px-4 py-2.5 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover"
+				>
+					Search
+				</button>
+			</form>
+
+			{isLoading && <p className="text-sm text-text-dim">Searching...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{createMutation.error !== null && (
+				<p className="text-sm text-live">{createMutation.error.message}</p>
+			)}
+
+			{categories !== null && categories.length === 0 && (
+				<p className="text-sm text-text-dim">No categories found for {searchQuery}</p>
+			)}
+
+			{categories !== null && categories.length > 0 && (
+				<ul className="flex max-w-[600px] flex-col gap-1">
+					{categories.map((category) => {
+						const isAdded = addedCategoryNames.has(category.name.toLowerCase());
+
+						return (
+							<li
+								key={category.id}
+								className="flex items-center gap-3 rounded-md px-2 py-1.5 hover:bg-surface-elevated"
+							>
+								<img
+									src={formatThumbnail(category.boxArtUrl, 30, 40)}
+									alt=""
+									className="h-10 w-[30px] rounded object-cover"
+								/>
+								<span className="flex-1 truncate text-sm text-text-primary">
+									{category.name}
+								</span>
+								<button
+									type="button"
+									onClick={() => handleAdd(category)}
+									disabled={isAdded || createMutation.isPending}
+									className="flex items-center gap-1.5 rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-1.5 text-xs font-semibold text-text-primary transition-all hover:border-twitch-purple hover:bg-twitch-purple cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+								>
+									<PlusIcon className="h-3.5 w-3.5" />
+									{isAdded ? "Added" : "Add section"}
+								</button>
+							</li>
+						);
+					})}
+				</ul>
+			)}
+		</div>
+	);
+});
+
+export { CategorySearch };
@@ -0,0 +1,89 @@
+import { Link } from "@tanstack/react-router";
+import { memo, useState } from "react";
+
+import { useBrowseChannelSearch } from "@/src/features/browse/hooks/use-browse";
+import { SearchIcon } from "@/src/shared/components/icons";
+
+const ChannelSearch = memo(function ChannelSearch() {
+	const [searchInput, setSearchInput] = useState("");
+	const [searchQuery, setSearchQuery] = useState<string | null>(null);
+
+	const { channels, isLoading, error } = useBrowseChannelSearch(searchQuery);
+
+	function handleSearch(event: React.FormEvent) {
+		event.preventDefault();
+		const trimmed = searchInput.trim();
+
+		if (trimmed !== "") {
+			setSearchQuery(trimmed);
+		}
+	}
+
+	return (
+		<div>
+			<form
+				onSubmit={handleSearch}
+				className="mb-3 flex max-w-[600px] items-center gap-3 rounded-lg border border-surface-border-muted bg-surface-card px-4 py-1"
+			>
+				<SearchIcon className="h-5 w-5 flex-shrink-0 text-text-dim" />
+				<input
+					type="text"
+					value={searchInput}
+					onChange={(event) => setSearchInput(event.target.value)}
+					placeholder="Find any channel..."
+					aria-label="Search channels"
+					className="flex-1 border-none bg-transparent py-2.5 text-sm text-text-primary placeholder:text-text-dim focus:outline-none"
+				/>
+				<button
+					type="submit"
+					className="flex-shrink-0 rounded-md bg-twitch-purple px-4 py-2.5 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover"
+				>
+					Search
+				</button>
+			</form>
+
+			{isLoading && <p className="text-sm text-text-dim">Searching...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{channels !== null && channels.length === 0 && (
+				<p className="text-sm text-text-dim">No channels found for {searchQuery}</p>
+			)}
+
+			{channels !== null && channels.length > 0 && (
+				<ul className="flex max-w-[600px] flex-col gap-1">
+					{channels.map((channel) => (
+						<li key={channel.id}>
+							<Link
+								to="/channels/$id"
+								params={{ id: channel.id }}
+								className="flex items-center gap-3 rounded-md px-2 py-1.5 transition-all hover:bg-surface-elevated"
+							>
+								<img
+									src={channel.profileImageUrl}
+									alt=""
+									className="h-9 w-9 flex-shrink-0 rounded-full object-cover"
+								/>
+								<div className="min-w-0 flex-1">
+									<div className="truncate text-sm font-semibold text-text-primary">
+										{channel.displayName}
+									</div>
+									<div className="truncate text-xs text-text-dim">
+										{channel.isLive ? channel.title : channel.gameName}
+									</div>
+								</div>
+								{channel.isLive && (
+									<span className="rounded bg-live px-2 py-0.5 text-xs font-bold uppercase text-white">
+										Live
+									</span>
+								)}
+							</Link>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+});
+
+export { ChannelSearch };
@@ -0,0 +1,142 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+
+import {
+	createBrowseSectionApi,
+	deleteBrowseSectionApi,
+} from "@/src/features/browse/api/browse-mutations";
+import {
+	fetchBrowseChannelSearch,
+	fetchBrowseSections,
+	fetchBrowseSectionStreams,
+	fetchCategorySearch,
+} from "@/src/features/browse/api/browse-queries";
+import { BROWSE_MORE_LIMIT, BROWSE_PREVIEW_LIMIT } from "@/src/features/browse/browse.validators";
+import {
+	getBrowseChannelSearchQueryKey,
+	getBrowseStreamsQueryKey,
+	getCategorySearchQueryKey,
+	QUERY_KEYS,
+} from "@/src/shared/query-keys";
+
+import type { BrowseSection, BrowseStream } from "@/src/features/browse/browse.types";
+
+const EMPTY_SECTIONS: Array<BrowseSection> = [];
+const FIRST_PAGE_CURSOR: string | null = null;
+
+export function useBrowseSections() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.browseSections,
+		queryFn: fetchBrowseSections,
+		staleTime: 5 * 60 * 1000,
+	});
+
+	return {
+		sections: data ?? EMPTY_SECTIONS,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+export function useBrowseSectionStreams(sectionId: number, isEnabled: boolean) {
+	const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } =
+		useInfiniteQuery({
+			queryKey: getBrowseStreamsQueryKey(sectionId),
+			queryFn: ({ pageParam }) =>
+				fetchBrowseSectionStreams(sectionId, {
+					limit: pageParam === null ? BROWSE_PREVIEW_LIMIT : BROWSE_MORE_LIMIT,
+					cursor: pageParam,
+				}),
+			initialPageParam: FIRST_PAGE_CURSOR,
+			getNextPageParam: (lastPage) => lastPage.cursor,
+			enabled: isEnabled,
+			staleTime: 2 * 60 * 1000,
+		});
+
+	// Viewer counts shift between page requests, so a channel can show up on two pages
+	const streams = useMemo(() => {
+		const result: Array<BrowseStream> = [];
+		const seenUserIds = new Set<string>();
+
+		for (const page of data?.pages ?? []) {
+			for (const stream of page.streams) {
+				if (!seenUserIds.has(stream.userId)) {
+					seenUserIds.add(stream.userId);
+					result.push(stream);
+				}
+			}
+		}
+
+		return result;
+	}, [data]);
+
+	return {
+		streams,
+		isLoading,
+		error: error instanceof Error ? error : null,
+		hasMore: hasNextPage,
+		isLoadingMore: isFetchingNextPage,
+		loadMore: fetchNextPage,
+	};
+}
+
+export function useCategorySearch(query: string | null) {
+	const { data, isLoading, error } = useQuery({
+		queryKey: getCategorySearchQueryKey(query ?? ""),
+		queryFn: async () => {
+			if (query === null) {
+				return null;
+			}
+
+			return fetchCategorySearch(query);
+		},
+		enabled: query !== null,
+	});
+
+	return {
+		categories: data ?? null,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+export function useBrowseChannelSearch(query: string | null) {
+	const { data, isLoading, error } = useQuery({
+		queryKey: getBrowseChannelSearchQueryKey(query ?? ""),
+		queryFn: async () => {
+			if (query === null) {
+				return null;
+			}
+
+			return fetchBrowseChannelSearch(query);
+		},
+		enabled: query !== null,
+	});
+
+	return {
+		channels: data ?? null,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+function useBrowseSectionsMutation<TVariables>(
+	mutationFn: (variables: TVariables) => Promise<void>,
+) {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn,
+		onSettled: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.browseSections });
+		},
+	});
+}
+
+export function useCreateBrowseSection() {
+	return useBrowseSectionsMutation(createBrowseSectionApi);
+}
+
+export function useDeleteBrowseSection() {
+	return useBrowseSectionsMutation(deleteBrowseSectionApi);
+}
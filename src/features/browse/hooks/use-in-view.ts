@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+
+import type { RefObject } from "react";
+
+// Starts loading a little before the element scrolls into view
+const ROOT_MARGIN = "200px";
+
+/**
+ * Flips to true the first time the element comes near the viewport and stays true,
+ * so content that has loaded once isn't torn down when scrolled away.
+ */
+export function useHasBeenInView(ref: RefObject<Element | null>) {
+	const [hasBeenInView, setHasBeenInView] = useState(false);
+
+	useEffect(() => {
+		const element = ref.current;
+
+		if (hasBeenInView || element === null) {
+			return;
+		}
+
+		const observer = new IntersectionObserver(
+			(entries) => {
+				for (const entry of entries) {
+					if (entry.isIntersecting) {
+						setHasBeenInView(true);
+						observer.disconnect();
+						return;
+					}
+				}
+			},
+			{ rootMargin: ROOT_MARGIN },
+		);
+
+		observer.observe(element);
+
+		return () => observer.disconnect();
+	}, [ref, hasBeenInView]);
+
+	return hasBeenInView;
+}
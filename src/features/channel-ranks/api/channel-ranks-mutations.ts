@@ -0,0 +1,23 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+import { JSON_HEADERS } from "@/src/shared/utils/http";
+
+import type { ChannelRank } from "../channel-ranks.types";
+
+export async function setChannelRankApi({
+	channelId,
+	rank,
+}: {
+	channelId: string;
+	rank: ChannelRank | null;
+}) {
+	const response = await fetch(`/api/channels/${channelId}/rank`, {
+		method: "PUT",
+		headers: JSON_HEADERS,
+		body: JSON.stringify({ rank }),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to set channel rank");
+		throw new Error(message);
+	}
+}
@@ -0,0 +1,172 @@
+import { and, asc, eq, max, sql } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { channelRanks } from "@/src/db/schema";
+
+import type { ChannelRank, ChannelRankInput, RankedChannel } from "./channel-ranks.types";
+
+const RANKED_CHANNEL_COLUMNS = {
+	channelId: channelRanks.channelId,
+	channelName: channelRanks.channelName,
+	profileImageUrl: channelRanks.profileImageUrl,
+	rank: channelRanks.rank,
+	sortOrder: channelRanks.sortOrder,
+	updatedAt: channelRanks.updatedAt,
+};
+
+export function getRankedChannels(rank: ChannelRank): Array<RankedChannel> | Error {
+	try {
+		return database
+			.select(RANKED_CHANNEL_COLUMNS)
+			.from(channelRanks)
+			.where(eq(channelRanks.rank, rank))
+			.orderBy(asc(channelRanks.sortOrder), asc(channelRanks.channelName))
+			.all();
+	} catch (error) {
+		console.error("[channel-ranks.repository] getRankedChannels failed:", error);
+		return new Error("Failed to get ranked channels");
+	}
+}
+
+export function getChannelRankMap() {
+	try {
+		const rows = database.select(RANKED_CHANNEL_COLUMNS).from(channelRanks).all();
+
+		const ranks = new Map<string, RankedChannel>();
+		for (const row of rows) {
+			ranks.set(row.channelId, row);
+		}
+
+		return ranks;
+	} catch (error) {
+		console.error("[channel-ranks.repository] getChannelRankMap failed:", error);
+		return new Error("Failed to get channel ranks");
+	}
+}
+
+export function getChannelIdsByRank(rank: ChannelRank) {
+	try {
+		const rows = database
+			.select({ channelId: channelRanks.channelId })
+			.from(channelRanks)
+			.where(eq(channelRanks.rank, rank))
+			.all();
+
+		const ids = new Set<string>();
+		for (const row of rows) {
+			ids.add(row.channelId);
+		}
+
+		return ids;
+	} catch (error) {
+		console.error("[channel-ranks.repository] getChannelIdsByRank failed:", error);
+		return new Error("Failed to get channel ranks");
+	}
+}
+
+export function getChannelRank(channelId: string) {
+	try {
+		const row = database
+			.select(RANKED_CHANNEL_COLUMNS)
+			.from(channelRanks)
+			.where(eq(channelRanks.channelId, channelId))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[channel-ranks.repository] getChannelRank failed:", error);
+		return new Error("Failed to get channel rank");
+	}
+}
+
+export function setChannelRank(input: ChannelRankInput) {
+	try {
+		database.transaction((transaction) => {
+			const existing = transaction
+				.select({ rank: channelRanks.rank, sortOrder: channelRanks.sortOrder })
+				.from(channelRanks)
+				.where(eq(channelRanks.channelId, input.channelId))
+				.get();
+
+			// New favorites go to the end; re-saving an existing favorite keeps its place
+			let sortOrder = 0;
+			if (existing?.rank === "favorite" && input.rank === "favorite") {
+				sortOrder = existing.sortOrder;
+			} else if (input.rank === "favorite") {
+				const result = transaction
+					.select({ maxOrder: max(channelRanks.sortOrder) })
+					.from(channelRanks)
+					.where(eq(channelRanks.rank, "favorite"))
+					.get();
+
+				sortOrder =
+					result?.maxOrder !== null && result?.maxOrder !== undefined
+						? result.maxOrder + 1
+						: 0;
+			}
+
+			transaction
+				.insert(channelRanks)
+				.values({ ...input, sortOrder })
+				.onConflictDoUpdate({
+					target: channelRanks.channelId,
+					set: {
+						channelName: input.channelName,
+						profileImageUrl: input.profileImageUrl,
+						rank: input.rank,
+						sortOrder,
+						updatedAt: sql`CURRENT_TIMESTAMP`,
+					},
+				})
+				.run();
+		});
+
+		return null;
+	} catch (error) {
+		console.error("[channel-ranks.repository] setChannelRank failed:", error);
+		return new Error("Failed to set channel rank");
+	}
+}
+
+export function clearChannelRank(channelId: string) {
+	try {
+		const deleted = database
+			.delete(channelRanks)
+			.where(eq(channelRanks.channelId, channelId))
+			.returning({ channelId: channelRanks.channelId })
+			.all();
+
+		return deleted.length > 0;
+	} catch (error) {
+		console.error("[channel-ranks.repository] clearChannelRank failed:", error);
+		return new Error("Failed to clear channel rank");
+	}
+}
+
+export function reorderFavorites(orderedIds: Array<string>) {
+	try {
+		database.transaction((transaction) => {
+			for (let index = 0; index < orderedIds.length; index++) {
+				const channelId = orderedIds[index];
+
+				if (channelId !== undefined) {
+					transaction
+						.update(channelRanks)
+						.set({ sortOrder: index, updatedAt: sql`CURRENT_TIMESTAMP` })
+						.where(
+							and(
+								eq(channelRanks.channelId, channelId),
+								eq(channelRanks.rank, "favorite"),
+							),
+						)
+						.run();
+				}
+			}
+		});
+
+		return null;
+	} catch (error) {
+		console.error("[channel-ranks.repository] reorderFavorites failed:", error);
+		return new Error("Failed to reorder favorites");
+	}
+}
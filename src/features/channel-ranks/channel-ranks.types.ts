@@ -0,0 +1,18 @@
+// Highest to lowest. A followed channel without a stored rank counts as "followed"
+export type ChannelRank = "favorite" | "followed" | "known" | "hidden";
+
+export type RankedChannel = {
+	channelId: string;
+	channelName: string;
+	profileImageUrl: string | null;
+	rank: ChannelRank;
+	sortOrder: number;
+	updatedAt: string;
+};
+
+export type ChannelRankInput = {
+	channelId: string;
+	channelName: string;
+	profileImageUrl: string | null;
+	rank: ChannelRank;
+};
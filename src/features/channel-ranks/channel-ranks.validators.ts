@@ -0,0 +1,51 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { ChannelRank } from "./channel-ranks.types";
+
+export const CHANNEL_RANKS: Array<ChannelRank> = ["favorite", "followed", "known", "hidden"];
+
+export const CHANNEL_RANK_LABELS: Record<ChannelRank, string> = {
+	favorite: "Favorite",
+	followed: "Followed",
+	known: "Known",
+	hidden: "Hidden",
+};
+
+export function isChannelRank(value: unknown): value is ChannelRank {
+	return value === "favorite" || value === "followed" || value === "known" || value === "hidden";
+}
+
+// Lower sorts first
+export function getRankOrder(rank: ChannelRank) {
+	return CHANNEL_RANKS.indexOf(rank);
+}
+
+/**
+ * The stored rank wins; otherwise following the channel makes it "followed",
+ * and anything else is untracked (null).
+ */
+export function resolveChannelRank(storedRank: ChannelRank | null, isFollowed: boolean) {
+	if (storedRank !== null) {
+		return storedRank;
+	}
+
+	if (isFollowed) {
+		return "followed";
+	}
+
+	return null;
+}
+
+export function validateSetChannelRankRequest(body: unknown): { rank: ChannelRank | null } | Error {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	const rank = body.rank;
+
+	if (rank !== null && !isChannelRank(rank)) {
+		return new Error(`rank must be null or one of: ${CHANNEL_RANKS.join(", ")}`);
+	}
+
+	return { rank };
+}
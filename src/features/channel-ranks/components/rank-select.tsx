@@ -0,0 +1,52 @@
+import { memo } from "react";
+
+import {
+	CHANNEL_RANK_LABELS,
+	CHANNEL_RANKS,
+	isChannelRank,
+} from "@/src/features/channel-ranks/channel-ranks.validators";
+
+import type { ChannelRank } from "@/src/features/channel-ranks/channel-ranks.types";
+
+type RankSelectProps = {
+	value: ChannelRank | null;
+	channelName: string;
+	// Followed channels fall back to "followed", so they have no untracked option
+	isFollowed: boolean;
+	disabled?: boolean;
+	onChange: (rank: ChannelRank | null) => void;
+};
+
+const RankSelect = memo(function RankSelect({
+	value,
+	channelName,
+	isFollowed,
+	disabled = false,
+	onChange,
+}: RankSelectProps) {
+	const ariaLabel = `Rank for ${channelName}`;
+
+	function handleChange(nextValue: string) {
+		onChange(isChannelRank(nextValue) ? nextValue : null);
+	}
+
+	return (
+		<select
+			value={value ?? ""}
+			onChange={(event) => handleChange(event.target.value)}
+			disabled={disabled}
+			aria-label={ariaLabel}
+			title={ariaLabel}
+			className="rounded-md border border-surface-border-muted bg-surface-elevated px-2 py-2.5 text-sm text-text-muted transition-all hover:text-text-primary focus:border-twitch-purple focus:outline-none enabled:cursor-pointer disabled:opacity-50"
+		>
+			{!isFollowed && <option value="">Not tracked</option>}
+			{CHANNEL_RANKS.map((rank) => (
+				<option key={rank} value={rank}>
+					{CHANNEL_RANK_LABELS[rank]}
+				</option>
+			))}
+		</select>
+	);
+});
+
+export { RankSelect };
@@ -0,0 +1,22 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { setChannelRankApi } from "@/src/features/channel-ranks/api/channel-ranks-mutations";
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+export function useSetChannelRank() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: setChannelRankApi,
+		// A rank change can move a channel into or out of every channel list
+		onSettled: async () => {
+			await Promise.all([
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.channels }),
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.followedChannels }),
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.channelDetails }),
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.hiddenChannels }),
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.browseStreams }),
+			]);
+		},
+	});
+}
@@ -31,11 +31,60 @@ export async function reorderFavoritesApi(orderedIds: Array<string>) {
 	}
 }
 
-export async function watchLive(channel: string) {
-	const response = await fetch(`/api/watch/live/${channel}`, { method: "POST" });
+export async function watchLive({
+	channel,
+	profileId,
+	quality,
+}: {
+	channel: string;
+	profileId: number | null;
+	quality?: string | undefined;
+}) {
+	const response = await fetch(`/api/watch/live/${channel}`, {
+		method: "POST",
+		headers: JSON_HEADERS,
+		body: JSON.stringify({ profileId, quality }),
+	});
 
 	if (!response.ok) {
 		const message = await extractApiErrorMessage(response, "Failed to launch stream");
 		throw new Error(message);
 	}
 }
+
+export async function setPreferredQualityApi({
+	channelId,
+	quality,
+}: {
+	channelId: string;
+	quality: string | null;
+}) {
+	const response = await fetch(`/api/channels/${channelId}/quality`, {
+		method: "PUT",
+		headers: JSON_HEADERS,
+		body: JSON.stringify({ quality }),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to save preferred quality");
+		throw new Error(message);
+	}
+}
+
+export async function followChannelApi(channelId: string) {
+	const response = await fetch(`/api/channels/${channelId}/follow`, { method: "POST" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to follow channel");
+		throw new Error(message);
+	}
+}
+
+export async function unfollowChannelApi(channelId: string) {
+	const response = await fetch(`/api/channels/${channelId}/follow`, { method: "DELETE" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to unfollow channel");
+		throw new Error(message);
+	}
+}
@@ -1,4 +1,4 @@
-import { isChannelArray } from "@/src/features/channels/channels.validators";
+import { isChannelArray, parseChannelDetails } from "@/src/features/channels/channels.validators";
 import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
 
 export async function fetchChannels() {
@@ -16,3 +16,20 @@ export async function fetchChannels() {
 
 	return data;
 }
+
+export async function fetchChannelDetails(channelId: string) {
+	const response = await fetch(`/api/channels/${channelId}`);
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch channel");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseChannelDetails(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
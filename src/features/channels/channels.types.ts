@@ -1,5 +1,9 @@
+import type { ChannelRank } from "@/src/features/channel-ranks/channel-ranks.types";
 import type { VodSummary } from "@/src/features/vods/vods.types";
 
+// Twitch follows win the label when a channel is followed both ways
+export type FollowSource = "twitch" | "local";
+
 export type Stream = {
 	title: string;
 	gameName: string;
@@ -12,8 +16,9 @@ export type Channel = {
 	id: string;
 	channelName: string;
 	profileImage: string;
-	isFavorite: boolean;
+	rank: ChannelRank;
 	isLive: boolean;
+	preferredQuality: string | null;
 	stream: Stream | null;
 	latestVod: VodSummary | null;
 };
@@ -21,3 +26,18 @@ export type Channel = {
 export type FavoriteInput = {
 	id: string;
 };
+
+export type ChannelDetails = {
+	id: string;
+	channelName: string;
+	profileImage: string;
+	isFollowed: boolean;
+	followSource: FollowSource | null;
+	followedAt: string | null;
+	rank: ChannelRank | null;
+	isLive: boolean;
+	lastSeenAt: string | null;
+	preferredQuality: string | null;
+	stream: Stream | null;
+	vods: Array<VodSummary>;
+};
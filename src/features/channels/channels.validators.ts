@@ -1,11 +1,18 @@
+import { isChannelRank } from "@/src/features/channel-ranks/channel-ranks.validators";
+import { isTwitchVideoType } from "@/src/features/vods/vods.validators";
+import { parseStreamQuality } from "@/src/shared/utils/stream-quality";
 import { isRecord } from "@/src/shared/utils/validation";
 
-import type { Channel, Stream } from "./channels.types";
+import type { Channel, ChannelDetails, FollowSource, Stream } from "./channels.types";
 import type { VodSummary } from "@/src/features/vods/vods.types";
 
 const MAX_ID_LENGTH = 50;
 const MAX_ORDERED_IDS_COUNT = 1000;
 
+export function isFollowSource(value: unknown): value is FollowSource {
+	return value === "twitch" || value === "local";
+}
+
 export function isStream(value: unknown): value is Stream {
 	if (!isRecord(value)) {
 		return false;
@@ -30,7 +37,8 @@ export function isVodSummary(value: unknown): value is VodSummary {
 		typeof value.title === "string" &&
 		typeof value.durationSeconds === "number" &&
 		typeof value.createdAt === "string" &&
-		typeof value.thumbnailUrl === "string"
+		typeof value.thumbnailUrl === "string" &&
+		isTwitchVideoType(value.videoType)
 	);
 }
 
@@ -54,12 +62,16 @@ export function isChannel(value: unknown): value is Channel {
 		return false;
 	}
 
+	const preferredQuality = value.preferredQuality;
+	const preferredQualityValid = preferredQuality === null || typeof preferredQuality === "string";
+
 	return (
 		typeof value.id === "string" &&
 		typeof value.channelName === "string" &&
 		typeof value.profileImage === "string" &&
-		typeof value.isFavorite === "boolean" &&
-		typeof value.isLive === "boolean"
+		isChannelRank(value.rank) &&
+		typeof value.isLive === "boolean" &&
+		preferredQualityValid
 	);
 }
 
@@ -77,6 +89,56 @@ export function isChannelArray(value: unknown): value is Array<Channel> {
 	return true;
 }
 
+function isNullableString(value: unknown) {
+	return value === null || typeof value === "string";
+}
+
+function isVodSummaryArray(value: unknown): value is Array<VodSummary> {
+	if (!Array.isArray(value)) {
+		return false;
+	}
+
+	for (const item of value) {
+		if (!isVodSummary(item)) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+function isChannelDetails(value: unknown): value is ChannelDetails {
+	if (!isRecord(value)) {
+		return false;
+	}
+
+	if (value.stream !== null && !isStream(value.stream)) {
+		return false;
+	}
+
+	return (
+		typeof value.id === "string" &&
+		typeof value.channelName === "string" &&
+		typeof value.profileImage === "string" &&
+		typeof value.isFollowed === "boolean" &&
+		(value.followSource === null || isFollowSource(value.followSource)) &&
+		isNullableString(value.followedAt) &&
+		(value.rank === null || isChannelRank(value.rank)) &&
+		typeof value.isLive === "boolean" &&
+		isNullableString(value.lastSeenAt) &&
+		isNullableString(value.preferredQuality) &&
+		isVodSummaryArray(value.vods)
+	);
+}
+
+export function parseChannelDetails(data: unknown): ChannelDetails | Error {
+	if (!isChannelDetails(data)) {
+		return new Error("Invalid channel details payload");
+	}
+
+	return data;
+}
+
 export function validateAddFavoriteRequest(body: unknown) {
 	if (!isRecord(body)) {
 		return new Error("Request body must be an object");
@@ -125,3 +187,21 @@ export function validateReorderFavoritesRequest(body: unknown) {
 		orderedIds,
 	};
 }
+
+export function validateSetPreferredQualityRequest(body: unknown) {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	if (body.quality === null) {
+		return { quality: null };
+	}
+
+	const quality = parseStreamQuality(body.quality);
+
+	if (quality instanceof Error) {
+		return quality;
+	}
+
+	return { quality };
+}
@@ -1,8 +1,17 @@
+import { Link } from "@tanstack/react-router";
 import { memo, useCallback } from "react";
 
-import { useToggleFavorite } from "@/src/features/channels/hooks/use-channels";
+import {
+	useSetPreferredQuality,
+	useToggleFavorite,
+} from "@/src/features/channels/hooks/use-channels";
 import { useOpenChat, useWatchLive, useWatchVod } from "@/src/features/channels/hooks/use-launch";
-import { ChatIcon, StarIcon } from "@/src/shared/components/icons";
+import { useHideChannel } from "@/src/features/hidden-channels/hooks/use-hidden-channels";
+import { useSessions } from "@/src/features/sessions/hooks/use-sessions";
+import { StreamUptime } from "@/src/features/stream-sessions/components/stream-uptime";
+import { ChatIcon, EyeSlashIcon, GridIcon, StarIcon } from "@/src/shared/components/icons";
+import { QualitySelect } from "@/src/shared/components/quality-select";
+import { useMultiView } from "@/src/shared/context/multi-view-context";
 import {
 	formatDate,
 	formatDurationSeconds,
@@ -36,10 +45,24 @@ function getWatchButtonText(isWatchingLive: boolean, isWatchingVod: boolean, isL
 	return "Watch VOD";
 }
 
-function getChatButtonClassName(isOpeningChat: boolean) {
+function getIconButtonClassName(isBusy: boolean) {
 	const base = "py-2.5 px-3 rounded-md border transition-all";
 
-	if (isOpeningChat) {
+	if (isBusy) {
+		return `${base} bg-surface-elevated border-surface-border-muted opacity-50 cursor-not-allowed text-text-muted`;
+	}
+
+	return `${base} bg-surface-elevated border-surface-border-muted text-text-muted hover:text-text-primary hover:bg-twitch-purple hover:border-twitch-purple cursor-pointer`;
+}
+
+function getMultiViewButtonClassName(isSelected: boolean, isDisabled: boolean) {
+	const base = "py-2.5 px-3 rounded-md border transition-all";
+
+	if (isSelected) {
+		return `${base} bg-twitch-purple border-twitch-purple text-white cursor-pointer`;
+	}
+
+	if (isDisabled) {
 		return `${base} bg-surface-elevated border-surface-border-muted opacity-50 cursor-not-allowed text-text-muted`;
 	}
 
@@ -83,8 +106,9 @@ function arePropsEqual(prevProps: ChannelCardProps, nextProps: ChannelCardProps)
 	if (prev.id !== next.id) return false;
 	if (prev.channelName !== next.channelName) return false;
 	if (prev.profileImage !== next.profileImage) return false;
-	if (prev.isFavorite !== next.isFavorite) return false;
+	if (prev.rank !== next.rank) return false;
 	if (prev.isLive !== next.isLive) return false;
+	if (prev.preferredQuality !== next.preferredQuality) return false;
 
 	// Check stream (can be null)
 	if (prev.stream === null && next.stream === null) {
@@ -124,13 +148,29 @@ const ChannelCard = memo(function ChannelCard({
 	const watchLiveMutation = useWatchLive();
 	const watchVodMutation = useWatchVod();
 	const openChatMutation = useOpenChat();
+	const setPreferredQualityMutation = useSetPreferredQuality();
+	const hideChannelMutation = useHideChannel();
 
 	const isToggling =
 		toggleFavoriteMutation.isPending && toggleFavoriteMutation.variables === channel.id;
-	const isWatchingLive = watchLiveMutation.isPending;
-	const isWatchingVod = watchVodMutation.isPending;
+	const { watchingState } = useSessions();
+
+	// Pending covers the gap between clicking and the session showing up in the registry
+	const isWatchingLive =
+		watchLiveMutation.isPending ||
+		(channel.isLive && watchingState.liveChannelNames.has(channel.channelName.toLowerCase()));
+	const isWatchingVod =
+		watchVodMutation.isPending ||
+		(!channel.isLive &&
+			channel.latestVod !== null &&
+			watchingState.vodIds.has(channel.latestVod.id));
 	const isWatching = isWatchingLive || isWatchingVod;
 	const isOpeningChat = openChatMutation.isPending;
+	const isHiding = hideChannelMutation.isPending;
+
+	const multiView = useMultiView();
+	const isInMultiView = multiView.isSelected(channel.channelName);
+	const isMultiViewDisabled = !isInMultiView && multiView.isFull;
 
 	let offlineLabel = "Offline - No VODs";
 	if (channel.latestVod !== null) {
@@ -140,23 +180,36 @@ const ChannelCard = memo(function ChannelCard({
 	const handleWatchClick = useCallback(() => {
 		if (isWatching) return;
 
+		const quality = channel.preferredQuality ?? undefined;
+
 		if (channel.isLive) {
-			watchLiveMutation.mutate(channel.channelName);
+			watchLiveMutation.mutate({ channel: channel.channelName, quality });
 			return;
 		}
 
 		if (channel.latestVod !== null) {
-			watchVodMutation.mutate({ id: channel.latestVod.id });
+			watchVodMutation.mutate({ id: channel.latestVod.id, quality });
 		}
 	}, [
 		isWatching,
 		channel.isLive,
 		channel.channelName,
 		channel.latestVod,
+		channel.preferredQuality,
 		watchLiveMutation,
 		watchVodMutation,
 	]);
 
+	const handleQualityChange = useCallback(
+		(value: string) => {
+			setPreferredQualityMutation.mutate({
+				channelId: channel.id,
+				quality: value === "" ? null : value,
+			});
+		},
+		[setPreferredQualityMutation, channel.id],
+	);
+
 	const handleFavoriteClick = useCallback(
 		(event: React.MouseEvent) => {
 			event.stopPropagation();
@@ -172,7 +225,22 @@ const ChannelCard = memo(function ChannelCard({
 		openChatMutation.mutate(channel.channelName);
 	}, [isOpeningChat, openChatMutation, channel.channelName]);
 
-	const favoriteButtonLabel = channel.isFavorite
+	const handleHideClick = useCallback(() => {
+		if (isHiding) return;
+		hideChannelMutation.mutate({
+			channelId: channel.id,
+			channelName: channel.channelName,
+			profileImageUrl: channel.profileImage,
+		});
+	}, [isHiding, hideChannelMutation, channel.id, channel.channelName, channel.profileImage]);
+
+	const { toggleChannel } = multiView;
+	const handleMultiViewClick = useCallback(() => {
+		toggleChannel(channel.channelName);
+	}, [toggleChannel, channel.channelName]);
+
+	const isFavorite = channel.rank === "favorite";
+	const favoriteButtonLabel = isFavorite
 		? `Remove ${channel.channelName} from favorites`
 		: `Add ${channel.channelName} to favorites`;
 
@@ -203,6 +271,13 @@ const ChannelCard = memo(function ChannelCard({
 					</span>
 				)}
 
+				{channel.isLive && channel.stream !== null && (
+					<StreamUptime
+						startedAt={channel.stream.startedAt}
+						className="absolute bottom-2 right-2 bg-black/80 text-white text-sm font-medium px-2 py-1 rounded"
+					/>
+				)}
+
 				{!channel.isLive && (
 					<div className="absolute inset-0 bg-black/50 flex items-center justify-center">
 						<span className="bg-black/70 text-text-secondary text-sm font-semibold px-3 py-1.5 rounded uppercase">
@@ -222,12 +297,12 @@ const ChannelCard = memo(function ChannelCard({
 					onClick={handleFavoriteClick}
 					disabled={isToggling}
 					aria-label={favoriteButtonLabel}
-					aria-pressed={channel.isFavorite}
+					aria-pressed={isFavorite}
 					className={`absolute top-2.5 right-2.5 bg-black/60 p-2 rounded-full transition-all hover:bg-black/80 hover:scale-110 ${
-						channel.isFavorite ? "text-favorite" : "text-text-dim"
+						isFavorite ? "text-favorite" : "text-text-dim"
 					} ${isToggling ? "opacity-50 cursor-not-allowed" : ""}`}
 				>
-					<StarIcon className="w-5 h-5" filled={channel.isFavorite} />
+					<StarIcon className="w-5 h-5" filled={isFavorite} />
 				</button>
 			</div>
 
@@ -246,9 +321,13 @@ const ChannelCard = memo(function ChannelCard({
 							{channel.channelName.charAt(0).toUpperCase()}
 						</div>
 					)}
-					<span className="font-semibold text-base text-twitch-purple-light truncate">
+					<Link
+						to="/channels/$id"
+						params={{ id: channel.id }}
+						className="font-semibold text-base text-twitch-purple-light truncate hover:underline"
+					>
 						{channel.channelName}
-					</span>
+					</Link>
 				</div>
 
 				{channel.isLive && channel.stream !== null && (
@@ -295,6 +374,13 @@ const ChannelCard = memo(function ChannelCard({
 						>
 							{getWatchButtonText(isWatchingLive, isWatchingVod, channel.isLive)}
 						</button>
+						<QualitySelect
+							value={channel.preferredQuality ?? ""}
+							defaultLabel="Default"
+							ariaLabel={`Preferred quality for ${channel.channelName}`}
+							disabled={setPreferredQualityMutation.isPending}
+							onChange={handleQualityChange}
+						/>
 						{channel.isLive && (
 							<button
 								type="button"
@@ -302,11 +388,41 @@ const ChannelCard = memo(function ChannelCard({
 								disabled={isOpeningChat}
 								aria-label={`Open chat for ${channel.channelName}`}
 								title={isOpeningChat ? "Opening..." : "Open Chat"}
-								className={getChatButtonClassName(isOpeningChat)}
+								className={getIconButtonClassName(isOpeningChat)}
 							>
 								<ChatIcon className="w-5 h-5" />
 							</button>
 						)}
+						{channel.isLive && (
+							<button
+								type="button"
+								onClick={handleMultiViewClick}
+								disabled={isMultiViewDisabled}
+								aria-label={`Toggle ${channel.channelName} in multi-view`}
+								aria-pressed={isInMultiView}
+								title={
+									isInMultiView ? "Remove from multi-view" : "Add to multi-view"
+								}
+								className={getMultiViewButtonClassName(
+									isInMultiView,
+									isMultiViewDisabled,
+								)}
+							>
+								<GridIcon className="w-5 h-5" />
+							</button>
+						)}
+						{!isFavorite && (
+							<button
+								type="button"
+								onClick={handleHideClick}
+								disabled={isHiding}
+								aria-label={`Hide ${channel.channelName}`}
+								title="Hide channel"
+								className={getIconButtonClassName(isHiding)}
+							>
+								<EyeSlashIcon className="w-5 h-5" />
+							</button>
+						)}
 					</div>
 				)}
 			</div>
@@ -13,6 +13,7 @@ import { memo, useCallback, useMemo } from "react";
 import { ChannelCard } from "@/src/features/channels/components/channel-card";
 import { useReorderFavorites } from "@/src/features/channels/hooks/use-channels";
 import { useWatchVod } from "@/src/features/channels/hooks/use-launch";
+import { useVodChaptersBulk } from "@/src/features/vod-chapters/hooks/use-vod-chapters";
 import { VodCard } from "@/src/features/vods/components/vod-card";
 import { useSaveVodProgress, useVodProgressBulk } from "@/src/features/vods/hooks/use-vod-progress";
 import { GripIcon } from "@/src/shared/components/icons";
@@ -21,6 +22,7 @@ import { formatDurationSeconds } from "@/src/shared/utils/format";
 import type { Channel } from "@/src/features/channels/channels.types";
 import type { VodCardData } from "@/src/features/vods/components/vod-card";
 import type { SaveProgressInput, VodProgressSelect } from "@/src/features/vods/vods.types";
+import type { TwitchVideoChapter } from "@/src/services/twitch-service";
 
 function getVodCardData(channel: Channel): VodCardData | null {
 	if (channel.latestVod === null) {
@@ -35,6 +37,7 @@ function getVodCardData(channel: Channel): VodCardData | null {
 		durationSeconds: channel.latestVod.durationSeconds,
 		durationLabel: formatDurationSeconds(channel.latestVod.durationSeconds),
 		thumbnailUrl: channel.latestVod.thumbnailUrl,
+		videoType: channel.latestVod.videoType,
 	};
 }
 
@@ -46,6 +49,7 @@ type SortableChannelCardProps = {
 	channel: Channel;
 	priority: boolean;
 	vodProgressMap: Map<string, VodProgressSelect>;
+	chaptersByVodId: Map<string, Array<TwitchVideoChapter>>;
 	onWatchVod: (vodId: string, startTimeSeconds?: number) => void;
 	onSaveProgress: (data: SaveProgressInput) => void;
 };
@@ -54,9 +58,11 @@ const SortableChannelCard = memo(function SortableChannelCard({
 	channel,
 	priority,
 	vodProgressMap,
+	chaptersByVodId,
 	onWatchVod,
 	onSaveProgress,
 }: SortableChannelCardProps) {
+	const isFavorite = channel.rank === "favorite";
 	const {
 		attributes,
 		listeners,
@@ -67,7 +73,7 @@ const SortableChannelCard = memo(function SortableChannelCard({
 		isDragging,
 	} = useSortable({
 		id: channel.id,
-		disabled: !channel.isFavorite,
+		disabled: !isFavorite,
 	});
 
 	const style = useMemo(
@@ -79,11 +85,11 @@ const SortableChannelCard = memo(function SortableChannelCard({
 	);
 
 	const vodCardData = getVodCardData(channel);
-	const shouldShowVodCard = channel.isFavorite && !channel.isLive && vodCardData !== null;
+	const shouldShowVodCard = isFavorite && !channel.isLive && vodCardData !== null;
 
 	return (
 		<div ref={setNodeRef} style={style} className="relative">
-			{channel.isFavorite && (
+			{isFavorite && (
 				<div
 					ref={setActivatorNodeRef}
 					{...attributes}
@@ -98,6 +104,7 @@ const SortableChannelCard = memo(function SortableChannelCard({
 					<VodCard
 						vod={vodCardData}
 						progress={vodProgressMap.get(vodCardData.id) ?? null}
+						chapters={chaptersByVodId.get(vodCardData.id) ?? null}
 						onWatch={onWatchVod}
 						onSaveProgress={onSaveProgress}
 						showOfflineBadge={true}
@@ -129,7 +136,7 @@ function ChannelGrid({ channels }: ChannelGridProps) {
 			const liveNonFavoriteChannels: Array<Channel> = [];
 
 			for (const channel of channels) {
-				if (channel.isFavorite) {
+				if (channel.rank === "favorite") {
 					if (channel.isLive) {
 						liveFavoriteChannels.push(channel);
 					} else {
@@ -169,6 +176,7 @@ function ChannelGrid({ channels }: ChannelGridProps) {
 	}, [offlineFavoriteChannels]);
 
 	const { data: vodProgressData } = useVodProgressBulk(offlineVodIds);
+	const { chaptersByVodId } = useVodChaptersBulk(offlineVodIds);
 
 	const vodProgressMap = useMemo(() => {
 		const map = new Map<string, VodProgressSelect>();
@@ -179,12 +187,8 @@ function ChannelGrid({ channels }: ChannelGridProps) {
 	}, [vodProgressData]);
 
 	const handleWatchVod = useCallback(
-		(vodId: string, startTimeSeconds?: number) => {
-			if (startTimeSeconds === undefined) {
-				watchVodMutation.mutate({ id: vodId });
-				return;
-			}
-			watchVodMutation.mutate({ id: vodId, startTimeSeconds });
+		(vodId: string, startTimeSeconds?: number, quality?: string) => {
+			watchVodMutation.mutate({ id: vodId, startTimeSeconds, quality });
 		},
 		[watchVodMutation],
 	);
@@ -250,6 +254,7 @@ function ChannelGrid({ channels }: ChannelGridProps) {
 							channel={channel}
 							priority={priorityIds.has(channel.id)}
 							vodProgressMap={vodProgressMap}
+							chaptersByVodId={chaptersByVodId}
 							onWatchVod={handleWatchVod}
 							onSaveProgress={saveProgressMutation.mutate}
 						/>
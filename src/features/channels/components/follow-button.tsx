@@ -0,0 +1,45 @@
+import { memo } from "react";
+
+import { useFollowChannel, useUnfollowChannel } from "@/src/features/channels/hooks/use-channels";
+
+type FollowButtonProps = {
+	channelId: string;
+	channelName: string;
+	isFollowed: boolean;
+};
+
+const FollowButton = memo(function FollowButton({
+	channelId,
+	channelName,
+	isFollowed,
+}: FollowButtonProps) {
+	const followMutation = useFollowChannel();
+	const unfollowMutation = useUnfollowChannel();
+	const isPending = followMutation.isPending || unfollowMutation.isPending;
+
+	function handleClick() {
+		if (isFollowed) {
+			unfollowMutation.mutate(channelId);
+		} else {
+			followMutation.mutate(channelId);
+		}
+	}
+
+	return (
+		<button
+			type="button"
+			onClick={handleClick}
+			disabled={isPending}
+			aria-label={isFollowed ? `Unfollow ${channelName}` : `Follow ${channelName}`}
+			className={`rounded-md border px-3 py-2 text-sm font-semibold transition-all enabled:cursor-pointer disabled:opacity-50 ${
+				isFollowed
+					? "border-surface-border-muted bg-surface-elevated text-text-muted hover:border-surface-border hover:text-text-primary"
+					: "border-twitch-purple bg-twitch-purple text-white hover:bg-twitch-purple-hover"
+			}`}
+		>
+			{isFollowed ? "Unfollow" : "Follow"}
+		</button>
+	);
+});
+
+export { FollowButton };
@@ -1,9 +1,8 @@
-import { and, asc, count, desc, eq, inArray, max, notInArray, sql } from "drizzle-orm";
+import { and, asc, desc, eq, inArray, ne, notInArray, sql } from "drizzle-orm";
 
 import { database } from "@/src/db";
-import { followedChannels, vods } from "@/src/db/schema";
+import { channelRanks, followedChannels, ignoredFollows, vods } from "@/src/db/schema";
 
-import type { FavoriteInput } from "@/src/features/channels/channels.types";
 import type { VodSummary } from "@/src/features/vods/vods.types";
 
 type FollowedChannelUpsertInput = {
@@ -13,6 +12,12 @@ type FollowedChannelUpsertInput = {
 	followedAt: string | null;
 };
 
+type LocalFollowInput = {
+	channelId: string;
+	channelName: string;
+	profileImageUrl: string;
+};
+
 export function getAllFollowedChannels() {
 	try {
 		return database
@@ -20,15 +25,16 @@ export function getAllFollowedChannels() {
 				channelId: followedChannels.channelId,
 				channelName: followedChannels.channelName,
 				profileImageUrl: followedChannels.profileImageUrl,
-				isFavorite: followedChannels.isFavorite,
-				sortOrder: followedChannels.sortOrder,
 				isLive: followedChannels.isLive,
 				lastSeenAt: followedChannels.lastSeenAt,
 				latestVodId: followedChannels.latestVodId,
+				preferredQuality: followedChannels.preferredQuality,
+				isTwitchFollow: followedChannels.isTwitchFollow,
+				isLocalFollow: followedChannels.isLocalFollow,
 				updatedAt: followedChannels.updatedAt,
 			})
 			.from(followedChannels)
-			.orderBy(asc(followedChannels.sortOrder))
+			.orderBy(asc(followedChannels.channelName))
 			.all();
 	} catch (error) {
 		console.error("[followed-channels.repository] getAllFollowedChannels failed:", error);
@@ -55,150 +61,120 @@ export function getFollowedChannelIdentity(channelId: string) {
 	}
 }
 
-export function getProfileImagesByChannelIds(channelIds: Array<string>) {
+export function getFollowedChannelDetails(channelId: string) {
 	try {
-		if (channelIds.length === 0) {
-			return new Map<string, string>();
-		}
-
-		const rows = database
+		const row = database
 			.select({
 				channelId: followedChannels.channelId,
+				channelName: followedChannels.channelName,
 				profileImageUrl: followedChannels.profileImageUrl,
+				lastSeenAt: followedChannels.lastSeenAt,
+				preferredQuality: followedChannels.preferredQuality,
+				followedAt: followedChannels.followedAt,
+				isTwitchFollow: followedChannels.isTwitchFollow,
+				isLocalFollow: followedChannels.isLocalFollow,
 			})
 			.from(followedChannels)
-			.where(inArray(followedChannels.channelId, channelIds))
-			.all();
+			.where(eq(followedChannels.channelId, channelId))
+			.get();
 
-		return new Map(rows.map((row) => [row.channelId, row.profileImageUrl]));
+		return row ?? null;
 	} catch (error) {
-		console.error(
-			"[followed-channels.repository] getProfileImagesByChannelIds failed:",
-			error,
-		);
-		return new Error("Failed to get profile images");
+		console.error("[followed-channels.repository] getFollowedChannelDetails failed:", error);
+		return new Error("Failed to get followed channel");
 	}
 }
 
-export function getFavoriteChannelIds() {
+export function getPreferredQualityByChannelName(channelName: string) {
 	try {
-		const rows = database
-			.select({ channelId: followedChannels.channelId })
+		const row = database
+			.select({ preferredQuality: followedChannels.preferredQuality })
 			.from(followedChannels)
-			.where(eq(followedChannels.isFavorite, true))
-			.orderBy(asc(followedChannels.sortOrder))
-			.all();
+			.where(sql`lower(${followedChannels.channelName}) = ${channelName.toLowerCase()}`)
+			.get();
 
-		return rows.map((row) => row.channelId);
+		return row?.preferredQuality ?? null;
 	} catch (error) {
-		console.error("[followed-channels.repository] getFavoriteChannelIds failed:", error);
-		return new Error("Failed to get favorite channel ids");
+		console.error(
+			"[followed-channels.repository] getPreferredQualityByChannelName failed:",
+			error,
+		);
+		return new Error("Failed to get preferred quality");
 	}
 }
 
-export function addFavorite(favorite: FavoriteInput) {
+export function getPreferredQualityByVodId(vodId: string) {
 	try {
-		const transactionResult = database.transaction((transaction) => {
-			const result = transaction
-				.select({ maxOrder: max(followedChannels.sortOrder) })
-				.from(followedChannels)
-				.where(eq(followedChannels.isFavorite, true))
-				.get();
-
-			const nextSortOrder =
-				result?.maxOrder !== null && result?.maxOrder !== undefined
-					? result.maxOrder + 1
-					: 0;
-
-			const inserted = transaction
-				.update(followedChannels)
-				.set({
-					isFavorite: true,
-					sortOrder: nextSortOrder,
-					updatedAt: sql`CURRENT_TIMESTAMP`,
-				})
-				.where(eq(followedChannels.channelId, favorite.id))
-				.returning({ id: followedChannels.channelId })
-				.get();
-
-			if (inserted === undefined) {
-				return new Error("Insert did not return a row");
-			}
-
-			return null;
-		});
-
-		if (transactionResult instanceof Error) {
-			return transactionResult;
-		}
+		const row = database
+			.select({ preferredQuality: followedChannels.preferredQuality })
+			.from(vods)
+			.innerJoin(followedChannels, eq(vods.channelId, followedChannels.channelId))
+			.where(eq(vods.vodId, vodId))
+			.get();
 
-		return null;
+		return row?.preferredQuality ?? null;
 	} catch (error) {
-		console.error("[followed-channels.repository] addFavorite failed:", error);
-		return new Error("Failed to add favorite");
+		console.error("[followed-channels.repository] getPreferredQualityByVodId failed:", error);
+		return new Error("Failed to get preferred quality");
 	}
 }
 
-export function removeFavorite(twitchId: string) {
+export function setPreferredQuality(channelId: string, quality: string | null) {
 	try {
-		const deleted = database
+		const updated = database
 			.update(followedChannels)
 			.set({
-				isFavorite: false,
-				sortOrder: 0,
+				preferredQuality: quality,
 				updatedAt: sql`CURRENT_TIMESTAMP`,
 			})
-			.where(eq(followedChannels.channelId, twitchId))
+			.where(eq(followedChannels.channelId, channelId))
 			.returning({ channelId: followedChannels.channelId })
 			.all();
 
-		return deleted.length > 0;
+		return updated.length > 0;
 	} catch (error) {
-		console.error("[followed-channels.repository] removeFavorite failed:", error);
-		return new Error("Failed to remove favorite");
+		console.error("[followed-channels.repository] setPreferredQuality failed:", error);
+		return new Error("Failed to set preferred quality");
 	}
 }
 
-export function isFavorite(twitchId: string) {
+export function getProfileImagesByChannelIds(channelIds: Array<string>) {
 	try {
-		const result = database
-			.select({ count: count() })
+		if (channelIds.length === 0) {
+			return new Map<string, string>();
+		}
+
+		const rows = database
+			.select({
+				channelId: followedChannels.channelId,
+				profileImageUrl: followedChannels.profileImageUrl,
+			})
 			.from(followedChannels)
-			.where(
-				and(
-					eq(followedChannels.channelId, twitchId),
-					eq(followedChannels.isFavorite, true),
-				),
-			)
-			.get();
+			.where(inArray(followedChannels.channelId, channelIds))
+			.all();
 
-		return result !== undefined && result.count > 0;
+		return new Map(rows.map((row) => [row.channelId, row.profileImageUrl]));
 	} catch (error) {
-		console.error("[followed-channels.repository] isFavorite failed:", error);
-		return new Error("Failed to check favorite status");
+		console.error("[followed-channels.repository] getProfileImagesByChannelIds failed:", error);
+		return new Error("Failed to get profile images");
 	}
 }
 
-export function reorderFavorites(orderedIds: Array<string>) {
+// Only followed favorites: cached VODs hang off followed_channels
+export function getFavoriteChannelIds() {
 	try {
-		database.transaction((transaction) => {
-			for (let index = 0; index < orderedIds.length; index++) {
-				const channelId = orderedIds[index];
-
-				if (channelId !== undefined) {
-					transaction
-						.update(followedChannels)
-						.set({ sortOrder: index, updatedAt: sql`CURRENT_TIMESTAMP` })
-						.where(eq(followedChannels.channelId, channelId))
-						.run();
-				}
-			}
-		});
+		const rows = database
+			.select({ channelId: followedChannels.channelId })
+			.from(followedChannels)
+			.innerJoin(channelRanks, eq(channelRanks.channelId, followedChannels.channelId))
+			.where(eq(channelRanks.rank, "favorite"))
+			.orderBy(asc(channelRanks.sortOrder))
+			.all();
 
-		return null;
+		return rows.map((row) => row.channelId);
 	} catch (error) {
-		console.error("[followed-channels.repository] reorderFavorites failed:", error);
-		return new Error("Failed to reorder favorites");
+		console.error("[followed-channels.repository] getFavoriteChannelIds failed:", error);
+		return new Error("Failed to get favorite channel ids");
 	}
 }
 
@@ -216,6 +192,7 @@ export function upsertFollowedChannels(
 						channelName: channel.channelName,
 						profileImageUrl: channel.profileImageUrl,
 						followedAt: channel.followedAt,
+						isTwitchFollow: true,
 						fetchedAt,
 						updatedAt: sql`CURRENT_TIMESTAMP`,
 					})
@@ -225,6 +202,7 @@ export function upsertFollowedChannels(
 							channelName: channel.channelName,
 							profileImageUrl: channel.profileImageUrl,
 							followedAt: channel.followedAt,
+							isTwitchFollow: true,
 							fetchedAt,
 							updatedAt: sql`CURRENT_TIMESTAMP`,
 						},
@@ -240,6 +218,10 @@ export function upsertFollowedChannels(
 	}
 }
 
+/**
+ * Drops Twitch follows missing from the latest sync. Channels also followed locally
+ * keep their row (and cached VODs) and just lose the Twitch source.
+ */
 export function removeUnfollowedChannels(channelIds: Array<string>) {
 	try {
 		if (channelIds.length === 0) {
@@ -249,10 +231,28 @@ export function removeUnfollowedChannels(channelIds: Array<string>) {
 			return null;
 		}
 
-		database
-			.delete(followedChannels)
-			.where(notInArray(followedChannels.channelId, channelIds))
-			.run();
+		database.transaction((transaction) => {
+			transaction
+				.delete(followedChannels)
+				.where(
+					and(
+						notInArray(followedChannels.channelId, channelIds),
+						eq(followedChannels.isLocalFollow, false),
+					),
+				)
+				.run();
+
+			transaction
+				.update(followedChannels)
+				.set({ isTwitchFollow: false, updatedAt: sql`CURRENT_TIMESTAMP` })
+				.where(
+					and(
+						notInArray(followedChannels.channelId, channelIds),
+						eq(followedChannels.isTwitchFollow, true),
+					),
+				)
+				.run();
+		});
 
 		return null;
 	} catch (error) {
@@ -261,6 +261,110 @@ export function removeUnfollowedChannels(channelIds: Array<string>) {
 	}
 }
 
+export function getLocalOnlyFollowIds() {
+	try {
+		const rows = database
+			.select({ channelId: followedChannels.channelId })
+			.from(followedChannels)
+			.where(eq(followedChannels.isTwitchFollow, false))
+			.all();
+
+		return rows.map((row) => row.channelId);
+	} catch (error) {
+		console.error("[followed-channels.repository] getLocalOnlyFollowIds failed:", error);
+		return new Error("Failed to get local follows");
+	}
+}
+
+export function addLocalFollow(input: LocalFollowInput, followedAt: string) {
+	try {
+		database
+			.insert(followedChannels)
+			.values({
+				...input,
+				followedAt,
+				isTwitchFollow: false,
+				isLocalFollow: true,
+				updatedAt: sql`CURRENT_TIMESTAMP`,
+			})
+			.onConflictDoUpdate({
+				target: followedChannels.channelId,
+				set: { isLocalFollow: true, updatedAt: sql`CURRENT_TIMESTAMP` },
+			})
+			.run();
+
+		return null;
+	} catch (error) {
+		console.error("[followed-channels.repository] addLocalFollow failed:", error);
+		return new Error("Failed to follow channel");
+	}
+}
+
+// Names and avatars of local-only follows aren't covered by the Twitch follow sync
+export function updateFollowedChannelIdentities(channels: Array<LocalFollowInput>) {
+	try {
+		database.transaction((transaction) => {
+			for (const channel of channels) {
+				transaction
+					.update(followedChannels)
+					.set({
+						channelName: channel.channelName,
+						profileImageUrl: channel.profileImageUrl,
+						updatedAt: sql`CURRENT_TIMESTAMP`,
+					})
+					.where(eq(followedChannels.channelId, channel.channelId))
+					.run();
+			}
+		});
+
+		return null;
+	} catch (error) {
+		console.error(
+			"[followed-channels.repository] updateFollowedChannelIdentities failed:",
+			error,
+		);
+		return new Error("Failed to update followed channels");
+	}
+}
+
+/**
+ * Removes a follow together with what would bring the channel back: a Twitch follow is
+ * remembered as ignored so the sync skips it, and a favorite or known rank is cleared.
+ * Hidden channels stay hidden. Pass the channel name only for Twitch follows.
+ */
+export function deleteFollowedChannel(channelId: string, ignoredChannelName: string | null) {
+	try {
+		return database.transaction((transaction) => {
+			if (ignoredChannelName !== null) {
+				transaction
+					.insert(ignoredFollows)
+					.values({ channelId, channelName: ignoredChannelName })
+					.onConflictDoUpdate({
+						target: ignoredFollows.channelId,
+						set: { channelName: ignoredChannelName },
+					})
+					.run();
+			}
+
+			const deleted = transaction
+				.delete(followedChannels)
+				.where(eq(followedChannels.channelId, channelId))
+				.returning({ channelId: followedChannels.channelId })
+				.all();
+
+			transaction
+				.delete(channelRanks)
+				.where(and(eq(channelRanks.channelId, channelId), ne(channelRanks.rank, "hidden")))
+				.run();
+
+			return deleted.length > 0;
+		});
+	} catch (error) {
+		console.error("[followed-channels.repository] deleteFollowedChannel failed:", error);
+		return new Error("Failed to unfollow channel");
+	}
+}
+
 export function updateLiveStates(currentlyLiveChannelIds: Array<string>, lastSeenAt: string) {
 	try {
 		return database.transaction((transaction) => {
@@ -282,7 +386,29 @@ export function updateLiveStates(currentlyLiveChannelIds: Array<string>, lastSee
 				.returning({ channelId: followedChannels.channelId })
 				.all();
 
+			let wentLive: Array<{
+				channelId: string;
+				channelName: string;
+				previousLastSeenAt: string | null;
+			}> = [];
+
 			if (currentlyLiveChannelIds.length > 0) {
+				// Read before the update, which overwrites lastSeenAt for every live channel
+				wentLive = transaction
+					.select({
+						channelId: followedChannels.channelId,
+						channelName: followedChannels.channelName,
+						previousLastSeenAt: followedChannels.lastSeenAt,
+					})
+					.from(followedChannels)
+					.where(
+						and(
+							eq(followedChannels.isLive, false),
+							inArray(followedChannels.channelId, currentlyLiveChannelIds),
+						),
+					)
+					.all();
+
 				transaction
 					.update(followedChannels)
 					.set({
@@ -294,7 +420,7 @@ export function updateLiveStates(currentlyLiveChannelIds: Array<string>, lastSee
 					.run();
 			}
 
-			return wentOffline.map((row) => row.channelId);
+			return { wentOffline: wentOffline.map((row) => row.channelId), wentLive };
 		});
 	} catch (error) {
 		console.error("[followed-channels.repository] updateLiveStates failed:", error);
@@ -359,6 +485,7 @@ export function getLatestVodsByChannelIds(channelIds: Array<string>) {
 					durationSeconds: vods.durationSeconds,
 					createdAt: vods.createdAt,
 					thumbnailUrl: vods.thumbnailUrl,
+					videoType: vods.videoType,
 				},
 			})
 			.from(followedChannels)
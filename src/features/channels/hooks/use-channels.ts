@@ -2,12 +2,16 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useMemo } from "react";
 
 import {
+	followChannelApi,
 	reorderFavoritesApi,
+	setPreferredQualityApi,
 	toggleFavorite,
+	unfollowChannelApi,
 } from "@/src/features/channels/api/channels-mutations";
-import { fetchChannels } from "@/src/features/channels/api/channels-queries";
-import { QUERY_KEYS } from "@/src/shared/query-keys";
+import { fetchChannelDetails, fetchChannels } from "@/src/features/channels/api/channels-queries";
+import { getChannelDetailsQueryKey, QUERY_KEYS } from "@/src/shared/query-keys";
 
+import type { ChannelRank } from "@/src/features/channel-ranks/channel-ranks.types";
 import type { Channel } from "@/src/features/channels/channels.types";
 import type { SidebarChannel } from "@/src/features/sidebar/sidebar.types";
 
@@ -18,10 +22,9 @@ export function useChannels() {
 	const { data, isLoading, isFetching, error, refetch } = useQuery({
 		queryKey: QUERY_KEYS.channels,
 		queryFn: fetchChannels,
-		staleTime: 30_000,
+		// Kept current by useLiveEvents rather than polling
+		staleTime: Infinity,
 		gcTime: 5 * 60 * 1000,
-		refetchInterval: 30_000,
-		refetchIntervalInBackground: false,
 	});
 
 	// Memoize to ensure stable reference - only changes when data actually changes
@@ -39,6 +42,21 @@ export function useChannels() {
 	};
 }
 
+export function useChannelDetails(channelId: string) {
+	const { data, isLoading, error } = useQuery({
+		queryKey: getChannelDetailsQueryKey(channelId),
+		queryFn: () => fetchChannelDetails(channelId),
+		refetchInterval: 60_000,
+		refetchIntervalInBackground: false,
+	});
+
+	return {
+		channel: data ?? null,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
 type ToggleFavoriteMutationContext = {
 	previousChannels: Array<Channel> | undefined;
 	previousFollowedChannels: Array<SidebarChannel> | undefined;
@@ -49,7 +67,7 @@ type ToggleFavoriteMutationContext = {
  * This is critical for memoization - React.memo will skip re-renders for channels
  * whose object reference hasn't changed.
  */
-function updateChannelFavoriteStatus<T extends { id: string; isFavorite: boolean }>(
+function updateChannelFavoriteStatus<T extends { id: string; rank: ChannelRank }>(
 	channels: Array<T>,
 	channelId: string,
 ): Array<T> {
@@ -66,7 +84,9 @@ function updateChannelFavoriteStatus<T extends { id: string; isFavorite: boolean
 	if (targetChannel === undefined) {
 		return channels;
 	}
-	result[targetIndex] = { ...targetChannel, isFavorite: !targetChannel.isFavorite };
+	// Unfavoriting lands on "followed" here; the refetch corrects it for unfollowed channels
+	const rank = targetChannel.rank === "favorite" ? "followed" : "favorite";
+	result[targetIndex] = { ...targetChannel, rank };
 
 	return result;
 }
@@ -123,6 +143,7 @@ export function useToggleFavorite() {
 			await Promise.all([
 				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.channels }),
 				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.followedChannels }),
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.channelDetails }),
 			]);
 		},
 	});
@@ -144,7 +165,7 @@ export function useReorderFavorites() {
 				const nonFavoriteChannels: Array<Channel> = [];
 
 				for (const channel of previousChannels) {
-					if (channel.isFavorite) {
+					if (channel.rank === "favorite") {
 						channelMap.set(channel.id, channel);
 					} else {
 						nonFavoriteChannels.push(channel);
@@ -178,3 +199,98 @@ export function useReorderFavorites() {
 		},
 	});
 }
+
+export function useSetPreferredQuality() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: setPreferredQualityApi,
+		onMutate: async ({ channelId, quality }) => {
+			await queryClient.cancelQueries({ queryKey: QUERY_KEYS.channels });
+
+			const previousChannels = queryClient.getQueryData<Array<Channel>>(QUERY_KEYS.channels);
+
+			if (previousChannels !== undefined) {
+				const updatedChannels: Array<Channel> = [];
+				for (const channel of previousChannels) {
+					if (channel.id === channelId) {
+						updatedChannels.push({ ...channel, preferredQuality: quality });
+					} else {
+						updatedChannels.push(channel);
+					}
+				}
+
+				queryClient.setQueryData(QUERY_KEYS.channels, updatedChannels);
+			}
+
+			return { previousChannels };
+		},
+		onError: (_error, _variables, context) => {
+			if (context?.previousChannels !== undefined) {
+				queryClient.setQueryData(QUERY_KEYS.channels, context.previousChannels);
+			}
+		},
+		onSettled: async () => {
+			await Promise.all([
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.channels }),
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.channelDetails }),
+			]);
+		},
+	});
+}
+
+// Following changes which channels every list shows, so refetch them all
+function useInvalidateFollows() {
+	const queryClient = useQueryClient();
+
+	return async function invalidateFollows() {
+		await Promise.all([
+			queryClient.invalidateQueries({ queryKey: QUERY_KEYS.channels }),
+			queryClient.invalidateQueries({ queryKey: QUERY_KEYS.followedChannels }),
+			queryClient.invalidateQueries({ queryKey: QUERY_KEYS.channelDetails }),
+		]);
+	};
+}
+
+export function useFollowChannel() {
+	const invalidateFollows = useInvalidateFollows();
+
+	return useMutation({
+		mutationFn: followChannelApi,
+		onSettled: invalidateFollows,
+	});
+}
+
+export function useUnfollowChannel() {
+	const queryClient = useQueryClient();
+	const invalidateFollows = useInvalidateFollows();
+
+	return useMutation({
+		mutationFn: unfollowChannelApi,
+		onMutate: async (channelId: string) => {
+			await queryClient.cancelQueries({ queryKey: QUERY_KEYS.followedChannels });
+
+			const previousFollowedChannels = queryClient.getQueryData<Array<SidebarChannel>>(
+				QUERY_KEYS.followedChannels,
+			);
+
+			if (previousFollowedChannels !== undefined) {
+				queryClient.setQueryData(
+					QUERY_KEYS.followedChannels,
+					previousFollowedChannels.filter((channel) => channel.id !== channelId),
+				);
+			}
+
+			return { previousFollowedChannels };
+		},
+		onError: (_error, _channelId, context) => {
+			if (context?.previousFollowedChannels !== undefined) {
+				queryClient.setQueryData(
+					QUERY_KEYS.followedChannels,
+					context.previousFollowedChannels,
+				);
+			}
+		},
+		onSettled: invalidateFollows,
+	});
+}
@@ -1,23 +1,58 @@
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 
 import { watchLive } from "@/src/features/channels/api/channels-mutations";
 import { openChat } from "@/src/features/channels/api/chat-mutations";
 import { watchVod } from "@/src/features/vods/api/vods-mutations";
+import { usePlayerProfileSelection } from "@/src/shared/context/player-profile-context";
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+type WatchLiveVariables = {
+	channel: string;
+	quality?: string | undefined;
+};
+
+type WatchVodVariables = {
+	id: string;
+	startTimeSeconds?: number | undefined;
+	quality?: string | undefined;
+};
+
+// Every launch registers a session on the server, so refresh the "now watching" state
+function useInvalidateSessions() {
+	const queryClient = useQueryClient();
+
+	return async function invalidateSessions() {
+		await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.sessions });
+	};
+}
 
 export function useWatchLive() {
+	const { selectedProfileId } = usePlayerProfileSelection();
+	const invalidateSessions = useInvalidateSessions();
+
 	return useMutation({
-		mutationFn: watchLive,
+		mutationFn: ({ channel, quality }: WatchLiveVariables) =>
+			watchLive({ channel, quality, profileId: selectedProfileId }),
+		onSuccess: invalidateSessions,
 	});
 }
 
 export function useWatchVod() {
+	const { selectedProfileId } = usePlayerProfileSelection();
+	const invalidateSessions = useInvalidateSessions();
+
 	return useMutation({
-		mutationFn: watchVod,
+		mutationFn: ({ id, startTimeSeconds, quality }: WatchVodVariables) =>
+			watchVod({ id, startTimeSeconds, quality, profileId: selectedProfileId }),
+		onSuccess: invalidateSessions,
 	});
 }
 
 export function useOpenChat() {
+	const invalidateSessions = useInvalidateSessions();
+
 	return useMutation({
 		mutationFn: openChat,
+		onSuccess: invalidateSessions,
 	});
 }
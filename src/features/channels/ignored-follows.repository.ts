@@ -0,0 +1,53 @@
+import { eq, notInArray } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { ignoredFollows } from "@/src/db/schema";
+
+export function getIgnoredFollowIds() {
+	try {
+		const rows = database
+			.select({ channelId: ignoredFollows.channelId })
+			.from(ignoredFollows)
+			.all();
+
+		const ids = new Set<string>();
+		for (const row of rows) {
+			ids.add(row.channelId);
+		}
+
+		return ids;
+	} catch (error) {
+		console.error("[ignored-follows.repository] getIgnoredFollowIds failed:", error);
+		return new Error("Failed to get ignored follows");
+	}
+}
+
+export function unignoreFollow(channelId: string) {
+	try {
+		database.delete(ignoredFollows).where(eq(ignoredFollows.channelId, channelId)).run();
+
+		return null;
+	} catch (error) {
+		console.error("[ignored-follows.repository] unignoreFollow failed:", error);
+		return new Error("Failed to clear ignored follow");
+	}
+}
+
+// Once a channel is unfollowed on Twitch too, a later Twitch follow should show up again
+export function pruneIgnoredFollows(twitchFollowIds: Array<string>) {
+	try {
+		if (twitchFollowIds.length === 0) {
+			return null;
+		}
+
+		database
+			.delete(ignoredFollows)
+			.where(notInArray(ignoredFollows.channelId, twitchFollowIds))
+			.run();
+
+		return null;
+	} catch (error) {
+		console.error("[ignored-follows.repository] pruneIgnoredFollows failed:", error);
+		return new Error("Failed to prune ignored follows");
+	}
+}
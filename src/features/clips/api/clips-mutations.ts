@@ -0,0 +1,29 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+import { JSON_HEADERS } from "@/src/shared/utils/http";
+
+export async function watchClip({
+	id,
+	profileId,
+	quality,
+}: {
+	id: string;
+	profileId: number | null;
+	quality?: string | undefined;
+}) {
+	const body: { profileId: number | null; quality?: string } = { profileId };
+
+	if (quality !== undefined) {
+		body.quality = quality;
+	}
+
+	const response = await fetch(`/api/watch/clip/${encodeURIComponent(id)}`, {
+		method: "POST",
+		headers: JSON_HEADERS,
+		body: JSON.stringify(body),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to launch clip");
+		throw new Error(message);
+	}
+}
@@ -0,0 +1,30 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseClipsResponse } from "../clips.validators";
+
+import type { ClipsQuery } from "../clips.types";
+
+export async function fetchClips({ source, period }: ClipsQuery) {
+	const params = new URLSearchParams({ period });
+
+	if ("channelId" in source) {
+		params.set("channelId", source.channelId);
+	} else {
+		params.set("gameName", source.gameName);
+	}
+
+	const response = await fetch(`/api/clips?${params.toString()}`);
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch clips");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseClipsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
@@ -0,0 +1,120 @@
+import { and, desc, eq, gte } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { clips } from "@/src/db/schema";
+
+import type { TwitchClip } from "@/src/services/twitch-service";
+
+type CachedClipsFilter = {
+	broadcasterId?: string | undefined;
+	gameId?: string | undefined;
+	since: string | undefined;
+	limit: number;
+};
+
+export function upsertClips(twitchClips: Array<TwitchClip>, fetchedAt: string) {
+	try {
+		if (twitchClips.length === 0) {
+			return null;
+		}
+
+		database.transaction((transaction) => {
+			for (const clip of twitchClips) {
+				const durationSeconds = Math.ceil(clip.durationSeconds);
+
+				transaction
+					.insert(clips)
+					.values({
+						id: clip.id,
+						broadcasterId: clip.broadcasterId,
+						broadcasterName: clip.broadcasterName,
+						creatorName: clip.creatorName,
+						videoId: clip.videoId,
+						gameId: clip.gameId,
+						title: clip.title,
+						viewCount: clip.viewCount,
+						durationSeconds,
+						vodOffsetSeconds: clip.vodOffsetSeconds,
+						thumbnailUrl: clip.thumbnailUrl,
+						createdAt: clip.createdAt,
+						fetchedAt,
+					})
+					.onConflictDoUpdate({
+						target: clips.id,
+						set: {
+							broadcasterName: clip.broadcasterName,
+							videoId: clip.videoId,
+							title: clip.title,
+							viewCount: clip.viewCount,
+							vodOffsetSeconds: clip.vodOffsetSeconds,
+							thumbnailUrl: clip.thumbnailUrl,
+							fetchedAt,
+						},
+					})
+					.run();
+			}
+		});
+
+		return null;
+	} catch (error) {
+		console.error("[clips.repository] upsertClips failed:", error);
+		return new Error("Failed to upsert clips");
+	}
+}
+
+export function getCachedClips(filter: CachedClipsFilter): Array<TwitchClip> | Error {
+	try {
+		const conditions = [];
+
+		if (filter.broadcasterId !== undefined) {
+			conditions.push(eq(clips.broadcasterId, filter.broadcasterId));
+		}
+
+		if (filter.gameId !== undefined) {
+			conditions.push(eq(clips.gameId, filter.gameId));
+		}
+
+		if (filter.since !== undefined) {
+			conditions.push(gte(clips.createdAt, filter.since));
+		}
+
+		return database
+			.select({
+				id: clips.id,
+				broadcasterId: clips.broadcasterId,
+				broadcasterName: clips.broadcasterName,
+				creatorName: clips.creatorName,
+				videoId: clips.videoId,
+				gameId: clips.gameId,
+				title: clips.title,
+				viewCount: clips.viewCount,
+				createdAt: clips.createdAt,
+				thumbnailUrl: clips.thumbnailUrl,
+				durationSeconds: clips.durationSeconds,
+				vodOffsetSeconds: clips.vodOffsetSeconds,
+			})
+			.from(clips)
+			.where(and(...conditions))
+			.orderBy(desc(clips.viewCount))
+			.limit(filter.limit)
+			.all();
+	} catch (error) {
+		console.error("[clips.repository] getCachedClips failed:", error);
+		return new Error("Failed to get cached clips");
+	}
+}
+
+export function getClipLaunchDetails(clipId: string) {
+	try {
+		const row = database
+			.select({ title: clips.title, channelName: clips.broadcasterName })
+			.from(clips)
+			.where(eq(clips.id, clipId))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[clips.repository] getClipLaunchDetails failed:", error);
+		return new Error("Failed to get clip details");
+	}
+}
@@ -0,0 +1,17 @@
+import type { TwitchClip } from "@/src/services/twitch-service";
+
+export type ClipPeriod = "day" | "week" | "month" | "all";
+
+// Twitch looks clips up by exactly one broadcaster or one category
+export type ClipSource = { channelId: string } | { gameName: string };
+
+export type ClipsQuery = {
+	source: ClipSource;
+	period: ClipPeriod;
+};
+
+export type ClipsResponse = {
+	clips: Array<TwitchClip>;
+	// True when Twitch couldn't be reached and the clips come from the local cache
+	isCached: boolean;
+};
@@ -0,0 +1,86 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { ClipPeriod, ClipsQuery, ClipsResponse } from "./clips.types";
+import type { TwitchClip } from "@/src/services/twitch-service";
+
+const CHANNEL_ID_PATTERN = /^[0-9]+$/;
+const MAX_GAME_NAME_LENGTH = 100;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const CLIP_PERIODS: Array<ClipPeriod> = ["day", "week", "month", "all"];
+
+const CLIP_PERIOD_DAYS: Record<Exclude<ClipPeriod, "all">, number> = {
+	day: 1,
+	week: 7,
+	month: 30,
+};
+
+function isClipPeriod(value: unknown): value is ClipPeriod {
+	return CLIP_PERIODS.some((period) => period === value);
+}
+
+export function getClipPeriodStart(period: ClipPeriod) {
+	if (period === "all") {
+		return undefined;
+	}
+
+	return new Date(Date.now() - CLIP_PERIOD_DAYS[period] * MS_PER_DAY).toISOString();
+}
+
+export function parseClipsQuery(searchParams: URLSearchParams): ClipsQuery | Error {
+	const channelId = searchParams.get("channelId");
+	const gameName = searchParams.get("gameName")?.trim() ?? null;
+	const period = searchParams.get("period") ?? "week";
+
+	if (!isClipPeriod(period)) {
+		return new Error(`period must be one of: ${CLIP_PERIODS.join(", ")}`);
+	}
+
+	if ((channelId === null) === (gameName === null)) {
+		return new Error("Provide exactly one of channelId or gameName");
+	}
+
+	if (channelId !== null) {
+		if (!CHANNEL_ID_PATTERN.test(channelId)) {
+			return new Error("Invalid channel ID");
+		}
+		return { source: { channelId }, period };
+	}
+
+	if (gameName === null || gameName === "" || gameName.length > MAX_GAME_NAME_LENGTH) {
+		return new Error(`gameName must be 1-${MAX_GAME_NAME_LENGTH} characters`);
+	}
+
+	return { source: { gameName }, period };
+}
+
+function isTwitchClip(value: unknown): value is TwitchClip {
+	return (
+		isRecord(value) &&
+		typeof value.id === "string" &&
+		typeof value.broadcasterId === "string" &&
+		typeof value.broadcasterName === "string" &&
+		typeof value.creatorName === "string" &&
+		(value.videoId === null || typeof value.videoId === "string") &&
+		typeof value.gameId === "string" &&
+		typeof value.title === "string" &&
+		typeof value.viewCount === "number" &&
+		typeof value.createdAt === "string" &&
+		typeof value.thumbnailUrl === "string" &&
+		typeof value.durationSeconds === "number" &&
+		(value.vodOffsetSeconds === null || typeof value.vodOffsetSeconds === "number")
+	);
+}
+
+export function parseClipsResponse(data: unknown): ClipsResponse | Error {
+	if (
+		!isRecord(data) ||
+		typeof data.isCached !== "boolean" ||
+		!Array.isArray(data.clips) ||
+		!data.clips.every(isTwitchClip)
+	) {
+		return new Error("Invalid clips response");
+	}
+
+	return { clips: data.clips, isCached: data.isCached };
+}
@@ -0,0 +1,92 @@
+import { memo, useState } from "react";
+
+import { QualitySelect } from "@/src/shared/components/quality-select";
+import { formatDate, formatSecondsToTime, formatViewers } from "@/src/shared/utils/format";
+
+import type { TwitchClip } from "@/src/services/twitch-service";
+
+type ClipCardProps = {
+	clip: TwitchClip;
+	isLaunching: boolean;
+	onWatch: (id: string, quality?: string) => void;
+	onWatchVod: (vodId: string, startTimeSeconds: number) => void;
+};
+
+const ClipCard = memo(function ClipCard({ clip, isLaunching, onWatch, onWatchVod }: ClipCardProps) {
+	// Empty string lets the server pick its default quality
+	const [quality, setQuality] = useState("");
+
+	function handleWatchClick() {
+		onWatch(clip.id, quality === "" ? undefined : quality);
+	}
+
+	function handleWatchVodClick() {
+		if (clip.videoId !== null && clip.vodOffsetSeconds !== null) {
+			onWatchVod(clip.videoId, clip.vodOffsetSeconds);
+		}
+	}
+
+	return (
+		<div className="overflow-hidden rounded-lg border border-surface-border-muted bg-surface-card transition-all hover:-translate-y-0.5 hover:border-surface-border">
+			<div className="relative aspect-video bg-surface-elevated">
+				<img
+					src={clip.thumbnailUrl}
+					alt={clip.title}
+					className="h-full w-full object-cover"
+					loading="lazy"
+				/>
+				<span className="absolute bottom-2 right-2 rounded bg-black/80 px-2 py-1 text-sm font-medium text-white">
+					{formatSecondsToTime(Math.round(clip.durationSeconds))}
+				</span>
+				<span className="absolute bottom-2 left-2 rounded bg-black/80 px-2 py-1 text-xs font-medium text-white">
+					{formatViewers(clip.viewCount)} views
+				</span>
+			</div>
+
+			<div className="p-4">
+				<div
+					className="mb-2 line-clamp-2 min-h-[2.5rem] text-sm text-text-primary"
+					title={clip.title}
+				>
+					{clip.title}
+				</div>
+				<div className="mb-3 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-text-muted">
+					<span className="font-semibold text-twitch-purple-light">
+						{clip.broadcasterName}
+					</span>
+					<span>{formatDate(clip.createdAt)}</span>
+					<span className="text-xs text-text-dim">Clipped by {clip.creatorName}</span>
+				</div>
+
+				<div className="flex flex-wrap gap-2">
+					<button
+						type="button"
+						onClick={handleWatchClick}
+						disabled={isLaunching}
+						className="flex-1 rounded-md border border-surface-border-muted bg-surface-elevated px-4 py-2.5 text-sm font-semibold text-text-primary transition-all hover:border-twitch-purple hover:bg-twitch-purple enabled:cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+					>
+						Watch Clip
+					</button>
+					<QualitySelect
+						value={quality}
+						defaultLabel="Default"
+						ariaLabel={`Quality for ${clip.title}`}
+						onChange={setQuality}
+					/>
+					{clip.videoId !== null && clip.vodOffsetSeconds !== null && (
+						<button
+							type="button"
+							onClick={handleWatchVodClick}
+							title="Watch the VOD from this moment"
+							className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2.5 text-sm font-semibold text-text-muted transition-all hover:border-twitch-purple hover:text-text-primary cursor-pointer"
+						>
+							VOD
+						</button>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+});
+
+export { ClipCard };
@@ -0,0 +1,106 @@
+import { memo, useCallback, useState } from "react";
+
+import { useWatchVod } from "@/src/features/channels/hooks/use-launch";
+import { CLIP_PERIODS } from "@/src/features/clips/clips.validators";
+import { ClipCard } from "@/src/features/clips/components/clip-card";
+import { useClips, useWatchClip } from "@/src/features/clips/hooks/use-clips";
+
+import type { ClipPeriod, ClipSource } from "@/src/features/clips/clips.types";
+
+type ClipsPanelProps = {
+	source: ClipSource | null;
+	emptyLabel: string;
+};
+
+const PERIOD_LABELS: Record<ClipPeriod, string> = {
+	day: "24h",
+	week: "7d",
+	month: "30d",
+	all: "All time",
+};
+
+function getPeriodButtonClassName(isActive: boolean) {
+	const base = "rounded-md px-3 py-1.5 text-sm font-semibold transition-all cursor-pointer";
+
+	if (isActive) {
+		return `${base} bg-twitch-purple text-white`;
+	}
+
+	return `${base} text-text-muted hover:bg-surface-elevated hover:text-text-primary`;
+}
+
+const ClipsPanel = memo(function ClipsPanel({ source, emptyLabel }: ClipsPanelProps) {
+	const [period, setPeriod] = useState<ClipPeriod>("week");
+	const { clips, isCached, isLoading, error } = useClips(source, period);
+	const watchClipMutation = useWatchClip();
+	const watchVodMutation = useWatchVod();
+
+	const { mutate: watchClipMutate } = watchClipMutation;
+	const handleWatchClip = useCallback(
+		(id: string, quality?: string) => {
+			watchClipMutate({ id, quality });
+		},
+		[watchClipMutate],
+	);
+
+	const { mutate: watchVodMutate } = watchVodMutation;
+	const handleWatchVod = useCallback(
+		(vodId: string, startTimeSeconds: number) => {
+			watchVodMutate({ id: vodId, startTimeSeconds });
+		},
+		[watchVodMutate],
+	);
+
+	return (
+		<div>
+			<div className="mb-4 flex flex-wrap items-center gap-3">
+				<div className="flex gap-1">
+					{CLIP_PERIODS.map((option) => (
+						<button
+							key={option}
+							type="button"
+							onClick={() => setPeriod(option)}
+							className={getPeriodButtonClassName(option === period)}
+						>
+							{PERIOD_LABELS[option]}
+						</button>
+					))}
+				</div>
+				{isCached && (
+					<span className="text-xs text-text-dim">
+						Twitch is unavailable, showing saved clips
+					</span>
+				)}
+			</div>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading clips...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{watchClipMutation.error !== null && (
+				<p className="mb-3 text-sm text-live">{watchClipMutation.error.message}</p>
+			)}
+
+			{source !== null && !isLoading && error === null && clips.length === 0 && (
+				<p className="text-sm text-text-dim">{emptyLabel}</p>
+			)}
+
+			<div className="grid grid-cols-[repeat(auto-fill,minmax(320px,1fr))] gap-4">
+				{clips.map((clip) => (
+					<ClipCard
+						key={clip.id}
+						clip={clip}
+						isLaunching={
+							watchClipMutation.isPending &&
+							watchClipMutation.variables.id === clip.id
+						}
+						onWatch={handleWatchClip}
+						onWatchVod={handleWatchVod}
+					/>
+				))}
+			</div>
+		</div>
+	);
+});
+
+export { ClipsPanel };
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { watchClip } from "@/src/features/clips/api/clips-mutations";
+import { fetchClips } from "@/src/features/clips/api/clips-queries";
+import { usePlayerProfileSelection } from "@/src/shared/context/player-profile-context";
+import { getClipsQueryKey, QUERY_KEYS } from "@/src/shared/query-keys";
+
+import type { ClipSource, ClipPeriod } from "@/src/features/clips/clips.types";
+import type { TwitchClip } from "@/src/services/twitch-service";
+
+type WatchClipVariables = {
+	id: string;
+	quality?: string | undefined;
+};
+
+const EMPTY_CLIPS: Array<TwitchClip> = [];
+
+function getSourceKey(source: ClipSource) {
+	return "channelId" in source ? `channel:${source.channelId}` : `game:${source.gameName}`;
+}
+
+export function useClips(source: ClipSource | null, period: ClipPeriod) {
+	const { data, isLoading, error } = useQuery({
+		queryKey:
+			source !== null ? getClipsQueryKey(getSourceKey(source), period) : QUERY_KEYS.clips,
+		queryFn: async () => {
+			if (source === null) {
+				return null;
+			}
+
+			return fetchClips({ source, period });
+		},
+		enabled: source !== null,
+	});
+
+	return {
+		clips: data?.clips ?? EMPTY_CLIPS,
+		isCached: data?.isCached ?? false,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+export function useWatchClip() {
+	const queryClient = useQueryClient();
+	const { selectedProfileId } = usePlayerProfileSelection();
+
+	return useMutation({
+		mutationFn: ({ id, quality }: WatchClipVariables) =>
+			watchClip({ id, quality, profileId: selectedProfileId }),
+		onSuccess: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.sessions });
+		},
+	});
+}
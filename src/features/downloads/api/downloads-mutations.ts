@@ -0,0 +1,45 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+import { JSON_HEADERS } from "@/src/shared/utils/http";
+
+import { parseDownloadResponse } from "../downloads.validators";
+
+import type { CreateDownloadRequest } from "../downloads.types";
+
+export async function createDownloadApi(request: CreateDownloadRequest) {
+	const response = await fetch("/api/downloads", {
+		method: "POST",
+		headers: JSON_HEADERS,
+		body: JSON.stringify(request),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to start download");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseDownloadResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
+
+export async function cancelDownloadApi(id: number) {
+	const response = await fetch(`/api/downloads/${id}/cancel`, { method: "POST" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to cancel download");
+		throw new Error(message);
+	}
+}
+
+export async function deleteDownloadApi(id: number) {
+	const response = await fetch(`/api/downloads/${id}`, { method: "DELETE" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to remove download");
+		throw new Error(message);
+	}
+}
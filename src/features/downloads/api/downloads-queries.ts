@@ -0,0 +1,20 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseDownloadsResponse } from "../downloads.validators";
+
+export async function fetchDownloads() {
+	const response = await fetch("/api/downloads");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch downloads");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseDownloadsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
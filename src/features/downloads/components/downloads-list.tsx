@@ -0,0 +1,146 @@
+import { memo } from "react";
+
+import {
+	useCancelDownload,
+	useDeleteDownload,
+	useDownloads,
+} from "@/src/features/downloads/hooks/use-downloads";
+import { isActiveDownload } from "@/src/features/downloads/downloads.validators";
+import { formatBytes, formatDate, formatSecondsToTime } from "@/src/shared/utils/format";
+
+import type { Download, DownloadStatus } from "@/src/features/downloads/downloads.types";
+
+function getStatusLabel(status: DownloadStatus) {
+	if (status === "queued") return "Queued";
+	if (status === "running") return "Downloading";
+	if (status === "completed") return "Completed";
+	if (status === "failed") return "Failed";
+	return "Canceled";
+}
+
+function getStatusClassName(status: DownloadStatus) {
+	if (status === "running") return "text-twitch-purple-light";
+	if (status === "failed") return "text-live";
+	return "text-text-dim";
+}
+
+function getDownloadTitle(download: Download) {
+	if (download.kind === "live") {
+		return `${download.channelName} live recording`;
+	}
+
+	return download.title ?? `VOD ${download.vodId ?? ""}`;
+}
+
+function getRangeLabel(download: Download) {
+	if (download.startOffsetSeconds === null && download.endOffsetSeconds === null) {
+		return null;
+	}
+
+	const start = formatSecondsToTime(download.startOffsetSeconds ?? 0);
+	const end =
+		download.endOffsetSeconds === null ? "end" : formatSecondsToTime(download.endOffsetSeconds);
+
+	return `${start} – ${end}`;
+}
+
+const DownloadsList = memo(function DownloadsList() {
+	const { downloads, isLoading, error } = useDownloads();
+	const cancelMutation = useCancelDownload();
+	const deleteMutation = useDeleteDownload();
+
+	const mutationError = cancelMutation.error ?? deleteMutation.error;
+
+	return (
+		<section className="mb-8">
+			<h3 className="text-lg font-semibold">Downloads</h3>
+			<p className="mb-3 text-xs text-text-dim">
+				Removing a download only clears it from this list; the file stays on disk.
+			</p>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading downloads...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{mutationError !== null && (
+				<p className="mb-3 text-sm text-live">{mutationError.message}</p>
+			)}
+
+			{!isLoading && error === null && downloads.length === 0 && (
+				<p className="text-sm text-text-dim">Nothing downloaded yet.</p>
+			)}
+
+			<ul className="flex max-w-[900px] flex-col gap-2">
+				{downloads.map((download) => {
+					const isActive = isActiveDownload(download);
+					const rangeLabel = getRangeLabel(download);
+					const isCanceling =
+						cancelMutation.isPending && cancelMutation.variables === download.id;
+					const isRemoving =
+						deleteMutation.isPending && deleteMutation.variables === download.id;
+
+					return (
+						<li
+							key={download.id}
+							className="rounded-lg border border-surface-border-muted bg-surface-card px-4 py-3"
+						>
+							<div className="flex items-start gap-3">
+								<div className="min-w-0 flex-1">
+									<div
+										className="truncate text-sm font-semibold text-text-primary"
+										title={getDownloadTitle(download)}
+									>
+										{getDownloadTitle(download)}
+									</div>
+									<div className="flex flex-wrap items-center gap-x-3 text-xs text-text-muted">
+										<span className={getStatusClassName(download.status)}>
+											{getStatusLabel(download.status)}
+										</span>
+										<span>{formatBytes(download.bytesWritten)}</span>
+										<span>{download.channelName}</span>
+										{rangeLabel !== null && <span>{rangeLabel}</span>}
+										{download.isAutoRecording && <span>Auto-recorded</span>}
+										<span>{formatDate(download.createdAt)}</span>
+									</div>
+									<div
+										className="mt-1 truncate font-mono text-xs text-text-dim"
+										title={download.outputPath}
+									>
+										{download.outputPath}
+									</div>
+									{download.error !== null && (
+										<div className="mt-1 text-xs text-live">
+											{download.error}
+										</div>
+									)}
+								</div>
+								{isActive && (
+									<button
+										type="button"
+										onClick={() => cancelMutation.mutate(download.id)}
+										disabled={isCanceling}
+										className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-1.5 text-xs font-semibold text-text-primary transition-all hover:border-live hover:text-live enabled:cursor-pointer disabled:opacity-50"
+									>
+										{download.kind === "live" ? "Stop" : "Cancel"}
+									</button>
+								)}
+								{!isActive && (
+									<button
+										type="button"
+										onClick={() => deleteMutation.mutate(download.id)}
+										disabled={isRemoving}
+										className="rounded-md px-2 py-1 text-xs font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-live enabled:cursor-pointer disabled:opacity-50"
+									>
+										{isRemoving ? "Removing..." : "Remove"}
+									</button>
+								)}
+							</div>
+						</li>
+					);
+				})}
+			</ul>
+		</section>
+	);
+});
+
+export { DownloadsList };
@@ -0,0 +1,227 @@
+import { memo, useState } from "react";
+
+import { useCreateDownload } from "@/src/features/downloads/hooks/use-downloads";
+import { QualitySelect } from "@/src/shared/components/quality-select";
+import { parseTimeToSeconds } from "@/src/shared/utils/format";
+
+import type { CreateDownloadRequest, DownloadKind } from "@/src/features/downloads/downloads.types";
+
+const INPUT_CLASS_NAME =
+	"w-full rounded border border-surface-border-muted bg-surface-elevated px-2 py-1.5 text-sm text-text-primary placeholder:text-text-dim focus:border-twitch-purple focus:outline-none";
+
+const LABEL_CLASS_NAME = "mb-1 block text-xs text-text-muted";
+
+// Accepts a bare ID or a pasted link such as https://www.twitch.tv/videos/123
+const VOD_INPUT_PATTERN = /^(?:.*\/videos\/)?(\d+)(?:[/?#].*)?$/;
+const CHANNEL_INPUT_PATTERN = /^(?:.*twitch\.tv\/)?([a-zA-Z0-9_]{1,25})\/?$/;
+
+function getKindClassName(isActive: boolean) {
+	const baseClassName =
+		"rounded-md px-3 py-1.5 text-xs font-semibold transition-all cursor-pointer";
+
+	if (isActive) {
+		return `${baseClassName} bg-twitch-purple text-white`;
+	}
+
+	return `${baseClassName} text-text-muted hover:bg-surface-elevated hover:text-text-primary`;
+}
+
+function parseOptionalTime(value: string, fieldLabel: string) {
+	if (value.trim() === "") {
+		return null;
+	}
+
+	const seconds = parseTimeToSeconds(value.trim());
+
+	if (seconds === null) {
+		return new Error(`${fieldLabel} must be H:MM:SS or MM:SS`);
+	}
+
+	return seconds;
+}
+
+function buildRequest(
+	kind: DownloadKind,
+	target: string,
+	startInput: string,
+	endInput: string,
+	quality: string,
+): CreateDownloadRequest | Error {
+	const selectedQuality = quality === "" ? null : quality;
+
+	if (kind === "live") {
+		const match = CHANNEL_INPUT_PATTERN.exec(target.trim());
+
+		if (match?.[1] === undefined) {
+			return new Error("Enter a channel name or link");
+		}
+
+		return { kind: "live", channelName: match[1], quality: selectedQuality };
+	}
+
+	const match = VOD_INPUT_PATTERN.exec(target.trim());
+
+	if (match?.[1] === undefined) {
+		return new Error("Enter a VOD ID or link");
+	}
+
+	const startOffsetSeconds = parseOptionalTime(startInput, "Start");
+	if (startOffsetSeconds instanceof Error) {
+		return startOffsetSeconds;
+	}
+
+	const endOffsetSeconds = parseOptionalTime(endInput, "End");
+	if (endOffsetSeconds instanceof Error) {
+		return endOffsetSeconds;
+	}
+
+	if (endOffsetSeconds !== null && endOffsetSeconds <= (startOffsetSeconds ?? 0)) {
+		return new Error("End must be after start");
+	}
+
+	return {
+		kind: "vod",
+		vodId: match[1],
+		quality: selectedQuality,
+		startOffsetSeconds,
+		endOffsetSeconds,
+	};
+}
+
+const NewDownloadForm = memo(function NewDownloadForm() {
+	const [kind, setKind] = useState<DownloadKind>("vod");
+	const [target, setTarget] = useState("");
+	const [startInput, setStartInput] = useState("");
+	const [endInput, setEndInput] = useState("");
+	// Empty string defers to the channel's preferred quality on the server
+	const [quality, setQuality] = useState("");
+	const [validationError, setValidationError] = useState<string | null>(null);
+
+	const createMutation = useCreateDownload();
+
+	function handleKindChange(nextKind: DownloadKind) {
+		setKind(nextKind);
+		setValidationError(null);
+		createMutation.reset();
+	}
+
+	function handleSubmit(event: React.FormEvent) {
+		event.preventDefault();
+
+		const request = buildRequest(kind, target, startInput, endInput, quality);
+
+		if (request instanceof Error) {
+			setValidationError(request.message);
+			return;
+		}
+
+		setValidationError(null);
+		createMutation.mutate(request, {
+			onSuccess: () => {
+				setTarget("");
+				setStartInput("");
+				setEndInput("");
+			},
+		});
+	}
+
+	const errorMessage = validationError ?? createMutation.error?.message ?? null;
+
+	return (
+		<section className="mb-8">
+			<h3 className="text-lg font-semibold">New Download</h3>
+			<p className="mb-3 text-xs text-text-dim">
+				Saves a VOD, or part of one, or records a live stream until it ends.
+			</p>
+
+			<form
+				onSubmit={handleSubmit}
+				className="flex max-w-[700px] flex-col gap-3 rounded-lg border border-surface-border-muted bg-surface-card p-4"
+			>
+				<div className="flex gap-2">
+					<button
+						type="button"
+						onClick={() => handleKindChange("vod")}
+						className={getKindClassName(kind === "vod")}
+					>
+						VOD
+					</button>
+					<button
+						type="button"
+						onClick={() => handleKindChange("live")}
+						className={getKindClassName(kind === "live")}
+					>
+						Live stream
+					</button>
+				</div>
+
+				<div>
+					<label htmlFor="download-target" className={LABEL_CLASS_NAME}>
+						{kind === "vod" ? "VOD ID or link" : "Channel name or link"}
+					</label>
+					<input
+						id="download-target"
+						type="text"
+						value={target}
+						onChange={(event) => setTarget(event.target.value)}
+						placeholder={
+							kind === "vod" ? "https://www.twitch.tv/videos/..." : "channel"
+						}
+						className={INPUT_CLASS_NAME}
+					/>
+				</div>
+
+				{kind === "vod" && (
+					<div className="grid grid-cols-2 gap-3">
+						<div>
+							<label htmlFor="download-start" className={LABEL_CLASS_NAME}>
+								Start (optional)
+							</label>
+							<input
+								id="download-start"
+								type="text"
+								value={startInput}
+								onChange={(event) => setStartInput(event.target.value)}
+								placeholder="0:00:00"
+								className={INPUT_CLASS_NAME}
+							/>
+						</div>
+						<div>
+							<label htmlFor="download-end" className={LABEL_CLASS_NAME}>
+								End (optional)
+							</label>
+							<input
+								id="download-end"
+								type="text"
+								value={endInput}
+								onChange={(event) => setEndInput(event.target.value)}
+								placeholder="1:30:00"
+								className={INPUT_CLASS_NAME}
+							/>
+						</div>
+					</div>
+				)}
+
+				{errorMessage !== null && <p className="text-sm text-live">{errorMessage}</p>}
+
+				<div className="flex gap-2">
+					<QualitySelect
+						value={quality}
+						defaultLabel="Default"
+						ariaLabel="Download quality"
+						onChange={setQuality}
+					/>
+					<button
+						type="submit"
+						disabled={createMutation.isPending}
+						className="rounded bg-twitch-purple px-4 py-2 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover enabled:cursor-pointer disabled:opacity-50"
+					>
+						{kind === "vod" ? "Download" : "Start recording"}
+					</button>
+				</div>
+			</form>
+		</section>
+	);
+});
+
+export { NewDownloadForm };
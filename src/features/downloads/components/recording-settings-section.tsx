@@ -0,0 +1,90 @@
+import { memo, useState } from "react";
+
+import {
+	useLauncherSettings,
+	useUpdateLauncherSettings,
+} from "@/src/features/launcher/hooks/use-launcher-settings";
+
+const RecordingSettingsSection = memo(function RecordingSettingsSection() {
+	const { settings, isLoading, error } = useLauncherSettings();
+	const updateMutation = useUpdateLauncherSettings();
+	// Null until edited, so the saved folder shows once settings load
+	const [directoryInput, setDirectoryInput] = useState<string | null>(null);
+
+	const savedDirectory = settings?.downloadDirectory ?? "";
+	const directoryValue = directoryInput ?? savedDirectory;
+
+	function handleAutoRecordChange(event: React.ChangeEvent<HTMLInputElement>) {
+		updateMutation.mutate({ autoRecordFavorites: event.target.checked });
+	}
+
+	function handleDirectorySubmit(event: React.FormEvent) {
+		event.preventDefault();
+		updateMutation.mutate(
+			{ downloadDirectory: directoryValue.trim() === "" ? null : directoryValue.trim() },
+			{ onSuccess: () => setDirectoryInput(null) },
+		);
+	}
+
+	return (
+		<section className="mb-8">
+			<h3 className="text-lg font-semibold">Recording</h3>
+			<p className="mb-3 text-xs text-text-dim">
+				Downloads are saved in one folder per channel as MPEG-TS files.
+			</p>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading settings...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{settings !== null && (
+				<div className="flex max-w-[700px] flex-col gap-3">
+					<label className="flex items-center gap-2 text-sm text-text-primary">
+						<input
+							type="checkbox"
+							checked={settings.autoRecordFavorites}
+							onChange={handleAutoRecordChange}
+							disabled={updateMutation.isPending}
+							className="accent-twitch-purple"
+						/>
+						Record favorites automatically when they go live
+					</label>
+
+					<form onSubmit={handleDirectorySubmit}>
+						<label
+							htmlFor="download-directory"
+							className="mb-1 block text-xs text-text-muted"
+						>
+							Download folder
+						</label>
+						<div className="flex gap-2">
+							<input
+								id="download-directory"
+								type="text"
+								value={directoryValue}
+								onChange={(event) => setDirectoryInput(event.target.value)}
+								placeholder="data/downloads"
+								className="flex-1 rounded border border-surface-border-muted bg-surface-elevated px-2 py-1.5 text-sm text-text-primary placeholder:text-text-dim focus:border-twitch-purple focus:outline-none"
+							/>
+							<button
+								type="submit"
+								disabled={
+									updateMutation.isPending || directoryValue === savedDirectory
+								}
+								className="rounded bg-twitch-purple px-4 py-1.5 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover enabled:cursor-pointer disabled:opacity-50"
+							>
+								Save
+							</button>
+						</div>
+					</form>
+
+					{updateMutation.error !== null && (
+						<p className="text-sm text-live">{updateMutation.error.message}</p>
+					)}
+				</div>
+			)}
+		</section>
+	);
+});
+
+export { RecordingSettingsSection };
@@ -0,0 +1,199 @@
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { downloads } from "@/src/db/schema";
+
+import { ACTIVE_DOWNLOAD_STATUSES } from "./downloads.validators";
+
+import type { Download, DownloadKind, DownloadStatus } from "./downloads.types";
+
+type NewDownload = {
+	kind: DownloadKind;
+	channelName: string;
+	vodId: string | null;
+	title: string | null;
+	quality: string;
+	startOffsetSeconds: number | null;
+	endOffsetSeconds: number | null;
+	outputPath: string;
+	isAutoRecording: boolean;
+	createdAt: string;
+};
+
+type FinishedDownload = {
+	status: Extract<DownloadStatus, "completed" | "failed" | "canceled">;
+	bytesWritten: number;
+	error: string | null;
+	finishedAt: string;
+};
+
+const DOWNLOAD_COLUMNS = {
+	id: downloads.id,
+	kind: downloads.kind,
+	channelName: downloads.channelName,
+	vodId: downloads.vodId,
+	title: downloads.title,
+	quality: downloads.quality,
+	startOffsetSeconds: downloads.startOffsetSeconds,
+	endOffsetSeconds: downloads.endOffsetSeconds,
+	outputPath: downloads.outputPath,
+	status: downloads.status,
+	bytesWritten: downloads.bytesWritten,
+	error: downloads.error,
+	isAutoRecording: downloads.isAutoRecording,
+	createdAt: downloads.createdAt,
+	startedAt: downloads.startedAt,
+	finishedAt: downloads.finishedAt,
+};
+
+export function insertDownload(download: NewDownload): Download | Error {
+	try {
+		return database.insert(downloads).values(download).returning(DOWNLOAD_COLUMNS).get();
+	} catch (error) {
+		console.error("[downloads.repository] insertDownload failed:", error);
+		return new Error("Failed to create download");
+	}
+}
+
+export function getDownloads(): Array<Download> | Error {
+	try {
+		return database
+			.select(DOWNLOAD_COLUMNS)
+			.from(downloads)
+			.orderBy(desc(downloads.createdAt), desc(downloads.id))
+			.all();
+	} catch (error) {
+		console.error("[downloads.repository] getDownloads failed:", error);
+		return new Error("Failed to get downloads");
+	}
+}
+
+export function getDownloadById(id: number): Download | null | Error {
+	try {
+		const row = database
+			.select(DOWNLOAD_COLUMNS)
+			.from(downloads)
+			.where(eq(downloads.id, id))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[downloads.repository] getDownloadById failed:", error);
+		return new Error("Failed to get download");
+	}
+}
+
+export function getQueuedDownloads(): Array<Download> | Error {
+	try {
+		return database
+			.select(DOWNLOAD_COLUMNS)
+			.from(downloads)
+			.where(eq(downloads.status, "queued"))
+			.orderBy(asc(downloads.id))
+			.all();
+	} catch (error) {
+		console.error("[downloads.repository] getQueuedDownloads failed:", error);
+		return new Error("Failed to get queued downloads");
+	}
+}
+
+export function hasActiveLiveRecording(channelName: string) {
+	try {
+		const row = database
+			.select({ id: downloads.id })
+			.from(downloads)
+			.where(
+				and(
+					eq(downloads.kind, "live"),
+					eq(downloads.channelName, channelName),
+					inArray(downloads.status, ACTIVE_DOWNLOAD_STATUSES),
+				),
+			)
+			.get();
+
+		return row !== undefined;
+	} catch (error) {
+		console.error("[downloads.repository] hasActiveLiveRecording failed:", error);
+		return new Error("Failed to check live recordings");
+	}
+}
+
+export function markDownloadRunning(id: number, startedAt: string) {
+	try {
+		database
+			.update(downloads)
+			.set({ status: "running", startedAt, error: null })
+			.where(eq(downloads.id, id))
+			.run();
+
+		return null;
+	} catch (error) {
+		console.error("[downloads.repository] markDownloadRunning failed:", error);
+		return new Error("Failed to start download");
+	}
+}
+
+export function updateDownloadProgress(id: number, bytesWritten: number) {
+	try {
+		database
+			.update(downloads)
+			.set({ bytesWritten })
+			.where(and(eq(downloads.id, id), eq(downloads.status, "running")))
+			.run();
+
+		return null;
+	} catch (error) {
+		console.error("[downloads.repository] updateDownloadProgress failed:", error);
+		return new Error("Failed to update download progress");
+	}
+}
+
+export function finishDownload(id: number, finished: FinishedDownload) {
+	try {
+		database
+			.update(downloads)
+			.set(finished)
+			.where(and(eq(downloads.id, id), inArray(downloads.status, ACTIVE_DOWNLOAD_STATUSES)))
+			.run();
+
+		return null;
+	} catch (error) {
+		console.error("[downloads.repository] finishDownload failed:", error);
+		return new Error("Failed to finish download");
+	}
+}
+
+/**
+ * Fails downloads left running by a previous server process. Their Streamlink process died
+ * with it, so the partial file is all that's left.
+ */
+export function failInterruptedDownloads(finishedAt: string) {
+	try {
+		const failed = database
+			.update(downloads)
+			.set({ status: "failed", error: "Interrupted by a server restart", finishedAt })
+			.where(eq(downloads.status, "running"))
+			.returning({ id: downloads.id })
+			.all();
+
+		return failed.length;
+	} catch (error) {
+		console.error("[downloads.repository] failInterruptedDownloads failed:", error);
+		return new Error("Failed to clean up interrupted downloads");
+	}
+}
+
+export function deleteDownload(id: number) {
+	try {
+		const deleted = database
+			.delete(downloads)
+			.where(eq(downloads.id, id))
+			.returning({ id: downloads.id })
+			.all();
+
+		return deleted.length > 0;
+	} catch (error) {
+		console.error("[downloads.repository] deleteDownload failed:", error);
+		return new Error("Failed to delete download");
+	}
+}
@@ -0,0 +1,37 @@
+export type DownloadKind = "vod" | "live";
+
+export type DownloadStatus = "queued" | "running" | "completed" | "failed" | "canceled";
+
+export type Download = {
+	id: number;
+	kind: DownloadKind;
+	channelName: string;
+	vodId: string | null;
+	title: string | null;
+	quality: string;
+	startOffsetSeconds: number | null;
+	endOffsetSeconds: number | null;
+	outputPath: string;
+	status: DownloadStatus;
+	bytesWritten: number;
+	error: string | null;
+	isAutoRecording: boolean;
+	createdAt: string;
+	startedAt: string | null;
+	finishedAt: string | null;
+};
+
+export type CreateDownloadRequest =
+	| {
+			kind: "vod";
+			vodId: string;
+			// Null defers to the channel's preferred quality, then "best"
+			quality: string | null;
+			startOffsetSeconds: number | null;
+			endOffsetSeconds: number | null;
+	  }
+	| {
+			kind: "live";
+			channelName: string;
+			quality: string | null;
+	  };
@@ -0,0 +1,157 @@
+import { parseStreamQuality } from "@/src/shared/utils/stream-quality";
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type {
+	CreateDownloadRequest,
+	Download,
+	DownloadKind,
+	DownloadStatus,
+} from "./downloads.types";
+
+const VOD_ID_PATTERN = /^[0-9]+$/;
+const CHANNEL_NAME_PATTERN = /^[a-zA-Z0-9_]{1,25}$/;
+
+export const ACTIVE_DOWNLOAD_STATUSES: Array<DownloadStatus> = ["queued", "running"];
+
+function isDownloadKind(value: unknown): value is DownloadKind {
+	return value === "vod" || value === "live";
+}
+
+function isDownloadStatus(value: unknown): value is DownloadStatus {
+	return (
+		value === "queued" ||
+		value === "running" ||
+		value === "completed" ||
+		value === "failed" ||
+		value === "canceled"
+	);
+}
+
+export function isActiveDownload(download: Download) {
+	return ACTIVE_DOWNLOAD_STATUSES.includes(download.status);
+}
+
+export function parseDownloadId(value: string) {
+	const id = Number(value);
+
+	if (!Number.isInteger(id) || id <= 0) {
+		return new Error("Download id must be a positive integer");
+	}
+
+	return id;
+}
+
+function parseOffset(value: unknown, fieldName: string) {
+	if (value === undefined || value === null) {
+		return null;
+	}
+
+	if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+		return new Error(`${fieldName} must be a non-negative integer or null`);
+	}
+
+	return value;
+}
+
+function parseOptionalQuality(body: Record<string, unknown>) {
+	if (body.quality === undefined || body.quality === null) {
+		return null;
+	}
+
+	return parseStreamQuality(body.quality);
+}
+
+export function parseCreateDownloadRequest(body: unknown): CreateDownloadRequest | Error {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	if (!isDownloadKind(body.kind)) {
+		return new Error('kind must be "vod" or "live"');
+	}
+
+	const quality = parseOptionalQuality(body);
+	if (quality instanceof Error) {
+		return quality;
+	}
+
+	if (body.kind === "live") {
+		if (typeof body.channelName !== "string" || !CHANNEL_NAME_PATTERN.test(body.channelName)) {
+			return new Error("channelName must be a valid Twitch login");
+		}
+
+		return { kind: "live", channelName: body.channelName.toLowerCase(), quality };
+	}
+
+	if (typeof body.vodId !== "string" || !VOD_ID_PATTERN.test(body.vodId)) {
+		return new Error("Invalid VOD ID");
+	}
+
+	const startOffsetSeconds = parseOffset(body.startOffsetSeconds, "startOffsetSeconds");
+	if (startOffsetSeconds instanceof Error) {
+		return startOffsetSeconds;
+	}
+
+	const endOffsetSeconds = parseOffset(body.endOffsetSeconds, "endOffsetSeconds");
+	if (endOffsetSeconds instanceof Error) {
+		return endOffsetSeconds;
+	}
+
+	if (endOffsetSeconds !== null && endOffsetSeconds <= (startOffsetSeconds ?? 0)) {
+		return new Error("endOffsetSeconds must be after startOffsetSeconds");
+	}
+
+	return {
+		kind: "vod",
+		vodId: body.vodId,
+		quality,
+		startOffsetSeconds,
+		endOffsetSeconds,
+	};
+}
+
+function isNullableString(value: unknown) {
+	return value === null || typeof value === "string";
+}
+
+function isNullableNumber(value: unknown) {
+	return value === null || typeof value === "number";
+}
+
+function isDownload(value: unknown): value is Download {
+	return (
+		isRecord(value) &&
+		typeof value.id === "number" &&
+		isDownloadKind(value.kind) &&
+		typeof value.channelName === "string" &&
+		isNullableString(value.vodId) &&
+		isNullableString(value.title) &&
+		typeof value.quality === "string" &&
+		isNullableNumber(value.startOffsetSeconds) &&
+		isNullableNumber(value.endOffsetSeconds) &&
+		typeof value.outputPath === "string" &&
+		isDownloadStatus(value.status) &&
+		typeof value.bytesWritten === "number" &&
+		isNullableString(value.error) &&
+		typeof value.isAutoRecording === "boolean" &&
+		typeof value.createdAt === "string" &&
+		isNullableString(value.startedAt) &&
+		isNullableString(value.finishedAt)
+	);
+}
+
+export function parseDownloadsResponse(data: unknown): Array<Download> | Error {
+	if (!isRecord(data) || !Array.isArray(data.downloads) || !data.downloads.every(isDownload)) {
+		return new Error("Invalid downloads response");
+	}
+
+	return data.downloads;
+}
+
+export function parseDownloadResponse(data: unknown): Download | Error {
+	if (!isRecord(data) || !isDownload(data.download)) {
+		return new Error("Invalid download response");
+	}
+
+	return data.download;
+}
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import {
+	cancelDownloadApi,
+	createDownloadApi,
+	deleteDownloadApi,
+} from "@/src/features/downloads/api/downloads-mutations";
+import { fetchDownloads } from "@/src/features/downloads/api/downloads-queries";
+import { isActiveDownload } from "@/src/features/downloads/downloads.validators";
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+import type { Download } from "@/src/features/downloads/downloads.types";
+
+const EMPTY_DOWNLOADS: Array<Download> = [];
+
+// Matches how often the server samples file sizes
+const ACTIVE_DOWNLOADS_REFETCH_INTERVAL_MS = 5_000;
+
+export function useDownloads() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.downloads,
+		queryFn: fetchDownloads,
+		// Only poll while something is queued or running
+		refetchInterval: (query) =>
+			query.state.data?.some(isActiveDownload) === true
+				? ACTIVE_DOWNLOADS_REFETCH_INTERVAL_MS
+				: false,
+	});
+
+	return {
+		downloads: data ?? EMPTY_DOWNLOADS,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+function useDownloadsMutation<TVariables, TData>(
+	mutationFn: (variables: TVariables) => Promise<TData>,
+) {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn,
+		onSettled: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.downloads });
+		},
+	});
+}
+
+export function useCreateDownload() {
+	return useDownloadsMutation(createDownloadApi);
+}
+
+export function useCancelDownload() {
+	return useDownloadsMutation(cancelDownloadApi);
+}
+
+export function useDeleteDownload() {
+	return useDownloadsMutation(deleteDownloadApi);
+}
@@ -0,0 +1,20 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseEventSubStatusResponse } from "../eventsub.validators";
+
+export async function fetchEventSubStatus() {
+	const response = await fetch("/api/eventsub/status");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch EventSub status");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseEventSubStatusResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
@@ -0,0 +1,49 @@
+import { memo } from "react";
+
+import { useEventSubStatus } from "@/src/features/eventsub/hooks/use-eventsub-status";
+
+import type { EventSubStatus } from "@/src/features/eventsub/eventsub.types";
+
+function getStatusMessage(status: EventSubStatus) {
+	if (!status.isEnabled) {
+		return "EventSub is turned off with EVENTSUB_ENABLED=false. Live state is polled every 30 seconds.";
+	}
+
+	if (!status.isConnected) {
+		return "EventSub is disconnected. Live state is polled every 30 seconds until it reconnects.";
+	}
+
+	return `EventSub is connected and pushing changes for ${status.subscribedChannelCount} favorite channels. Everything else is polled every 2 minutes.`;
+}
+
+const LiveUpdatesSection = memo(function LiveUpdatesSection() {
+	const { status, isLoading, error } = useEventSubStatus();
+
+	return (
+		<section className="mb-8">
+			<h3 className="text-lg font-semibold">Live Updates</h3>
+			<p className="mb-3 text-xs text-text-dim">
+				Favorites go live instantly through Twitch EventSub when it's connected.
+			</p>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading status...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{status !== null && (
+				<div className="flex items-center gap-2 text-sm text-text-muted">
+					<span
+						className={`h-2 w-2 flex-shrink-0 rounded-full ${status.isConnected ? "bg-twitch-purple" : "bg-text-dim"}`}
+					/>
+					<span>{getStatusMessage(status)}</span>
+				</div>
+			)}
+
+			{status !== null && status.lastError !== null && (
+				<p className="mt-2 text-xs text-live">{status.lastError}</p>
+			)}
+		</section>
+	);
+});
+
+export { LiveUpdatesSection };
@@ -0,0 +1,53 @@
+export type EventSubSubscriptionType = "stream.online" | "stream.offline" | "channel.update";
+
+// Normalized from the three subscription types so live state handles one shape
+export type EventSubLiveUpdate =
+	| {
+			type: "online";
+			channelId: string;
+			channelLogin: string;
+			channelName: string;
+			startedAt: string;
+	  }
+	| { type: "offline"; channelId: string }
+	| { type: "update"; channelId: string; title: string; gameName: string };
+
+export type EventSubSession = {
+	id: string;
+	keepaliveTimeoutSeconds: number | null;
+	reconnectUrl: string | null;
+};
+
+type EventSubMessageMetadata = {
+	messageId: string;
+	messageTimestamp: string;
+};
+
+export type EventSubWebSocketMessage = EventSubMessageMetadata &
+	(
+		| { messageType: "session_welcome" | "session_reconnect"; session: EventSubSession }
+		| { messageType: "session_keepalive" }
+		| { messageType: "notification"; subscriptionType: string; event: unknown }
+		| {
+				messageType: "revocation";
+				subscriptionId: string;
+				subscriptionType: string;
+				status: string;
+		  }
+	);
+
+export type EventSubWebhookBody = {
+	subscriptionId: string;
+	subscriptionType: string;
+	status: string;
+	event: unknown;
+	challenge: string | null;
+};
+
+export type EventSubStatus = {
+	isEnabled: boolean;
+	isConnected: boolean;
+	subscribedChannelCount: number;
+	connectedAt: string | null;
+	lastError: string | null;
+};
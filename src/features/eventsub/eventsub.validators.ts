@@ -0,0 +1,201 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type {
+	EventSubLiveUpdate,
+	EventSubSession,
+	EventSubStatus,
+	EventSubSubscriptionType,
+	EventSubWebhookBody,
+	EventSubWebSocketMessage,
+} from "./eventsub.types";
+
+// Versions Twitch expects when creating each subscription
+export const EVENTSUB_SUBSCRIPTION_VERSIONS: Record<EventSubSubscriptionType, string> = {
+	"stream.online": "1",
+	"stream.offline": "1",
+	"channel.update": "2",
+};
+
+export const EVENTSUB_SUBSCRIPTION_TYPES: Array<EventSubSubscriptionType> = [
+	"stream.online",
+	"stream.offline",
+	"channel.update",
+];
+
+function parseSession(value: unknown): EventSubSession | Error {
+	if (!isRecord(value) || typeof value.id !== "string") {
+		return new Error("EventSub session is missing an id");
+	}
+
+	const keepalive = value.keepalive_timeout_seconds;
+	const reconnectUrl = value.reconnect_url;
+
+	return {
+		id: value.id,
+		keepaliveTimeoutSeconds: typeof keepalive === "number" ? keepalive : null,
+		reconnectUrl: typeof reconnectUrl === "string" ? reconnectUrl : null,
+	};
+}
+
+function parseSubscription(value: unknown) {
+	if (!isRecord(value) || typeof value.id !== "string" || typeof value.type !== "string") {
+		return new Error("EventSub subscription is missing an id or type");
+	}
+
+	return {
+		id: value.id,
+		type: value.type,
+		status: typeof value.status === "string" ? value.status : "",
+	};
+}
+
+export function parseEventSubWebSocketMessage(data: unknown): EventSubWebSocketMessage | Error {
+	if (!isRecord(data) || !isRecord(data.metadata) || !isRecord(data.payload)) {
+		return new Error("EventSub message must have metadata and payload");
+	}
+
+	const { message_id: messageId, message_type: messageType } = data.metadata;
+	const messageTimestamp = data.metadata.message_timestamp;
+
+	if (typeof messageId !== "string" || typeof messageTimestamp !== "string") {
+		return new Error("EventSub message is missing its id or timestamp");
+	}
+
+	const metadata = { messageId, messageTimestamp };
+
+	if (messageType === "session_welcome" || messageType === "session_reconnect") {
+		const session = parseSession(data.payload.session);
+		if (session instanceof Error) {
+			return session;
+		}
+		return { ...metadata, messageType, session };
+	}
+
+	if (messageType === "session_keepalive") {
+		return { ...metadata, messageType };
+	}
+
+	if (messageType === "notification" || messageType === "revocation") {
+		const subscription = parseSubscription(data.payload.subscription);
+		if (subscription instanceof Error) {
+			return subscription;
+		}
+
+		if (messageType === "revocation") {
+			return {
+				...metadata,
+				messageType,
+				subscriptionId: subscription.id,
+				subscriptionType: subscription.type,
+				status: subscription.status,
+			};
+		}
+
+		return {
+			...metadata,
+			messageType,
+			subscriptionType: subscription.type,
+			event: data.payload.event,
+		};
+	}
+
+	return new Error(`Unknown EventSub message type: ${String(messageType)}`);
+}
+
+export function parseEventSubWebhookBody(data: unknown): EventSubWebhookBody | Error {
+	if (!isRecord(data)) {
+		return new Error("EventSub webhook body must be an object");
+	}
+
+	const subscription = parseSubscription(data.subscription);
+	if (subscription instanceof Error) {
+		return subscription;
+	}
+
+	return {
+		subscriptionId: subscription.id,
+		subscriptionType: subscription.type,
+		status: subscription.status,
+		event: data.event,
+		challenge: typeof data.challenge === "string" ? data.challenge : null,
+	};
+}
+
+/**
+ * Returns null for subscription types live state doesn't use, so callers can ignore them.
+ */
+export function parseEventSubLiveUpdate(
+	subscriptionType: string,
+	event: unknown,
+): EventSubLiveUpdate | Error | null {
+	if (!isRecord(event) || typeof event.broadcaster_user_id !== "string") {
+		return new Error(`${subscriptionType} event is missing broadcaster_user_id`);
+	}
+
+	const channelId = event.broadcaster_user_id;
+
+	if (subscriptionType === "stream.online") {
+		const { broadcaster_user_login: login, broadcaster_user_name: name } = event;
+
+		if (typeof login !== "string" || typeof name !== "string") {
+			return new Error("stream.online event is missing the broadcaster name");
+		}
+
+		if (typeof event.started_at !== "string") {
+			return new Error("stream.online event is missing started_at");
+		}
+
+		// Reruns and premieres don't show up as live streams in Helix either
+		if (event.type !== "live") {
+			return null;
+		}
+
+		return {
+			type: "online",
+			channelId,
+			channelLogin: login,
+			channelName: name,
+			startedAt: event.started_at,
+		};
+	}
+
+	if (subscriptionType === "stream.offline") {
+		return { type: "offline", channelId };
+	}
+
+	if (subscriptionType === "channel.update") {
+		if (typeof event.title !== "string" || typeof event.category_name !== "string") {
+			return new Error("channel.update event is missing title or category_name");
+		}
+
+		return {
+			type: "update",
+			channelId,
+			title: event.title,
+			gameName: event.category_name,
+		};
+	}
+
+	return null;
+}
+
+export function parseEventSubStatusResponse(data: unknown): EventSubStatus | Error {
+	if (
+		!isRecord(data) ||
+		typeof data.isEnabled !== "boolean" ||
+		typeof data.isConnected !== "boolean" ||
+		typeof data.subscribedChannelCount !== "number" ||
+		(data.connectedAt !== null && typeof data.connectedAt !== "string") ||
+		(data.lastError !== null && typeof data.lastError !== "string")
+	) {
+		return new Error("Invalid EventSub status response");
+	}
+
+	return {
+		isEnabled: data.isEnabled,
+		isConnected: data.isConnected,
+		subscribedChannelCount: data.subscribedChannelCount,
+		connectedAt: data.connectedAt,
+		lastError: data.lastError,
+	};
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { fetchEventSubStatus } from "@/src/features/eventsub/api/eventsub-queries";
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+export function useEventSubStatus() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.eventSubStatus,
+		queryFn: fetchEventSubStatus,
+		refetchInterval: 30_000,
+		refetchIntervalInBackground: false,
+	});
+
+	return {
+		status: data ?? null,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
@@ -0,0 +1,26 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+import { JSON_HEADERS } from "@/src/shared/utils/http";
+
+import type { HideChannelInput } from "../hidden-channels.types";
+
+export async function hideChannelApi(input: HideChannelInput) {
+	const response = await fetch("/api/hidden-channels", {
+		method: "POST",
+		headers: JSON_HEADERS,
+		body: JSON.stringify(input),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to hide channel");
+		throw new Error(message);
+	}
+}
+
+export async function unhideChannelApi(channelId: string) {
+	const response = await fetch(`/api/hidden-channels/${channelId}`, { method: "DELETE" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to unhide channel");
+		throw new Error(message);
+	}
+}
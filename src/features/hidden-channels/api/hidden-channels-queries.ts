@@ -0,0 +1,20 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseHiddenChannelsResponse } from "../hidden-channels.validators";
+
+export async function fetchHiddenChannels() {
+	const response = await fetch("/api/hidden-channels");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch hidden channels");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseHiddenChannelsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
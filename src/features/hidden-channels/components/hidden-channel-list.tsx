@@ -0,0 +1,87 @@
+import { Link } from "@tanstack/react-router";
+import { memo } from "react";
+
+import {
+	useHiddenChannels,
+	useUnhideChannel,
+} from "@/src/features/hidden-channels/hooks/use-hidden-channels";
+import { formatDate } from "@/src/shared/utils/format";
+
+const HiddenChannelList = memo(function HiddenChannelList() {
+	const { channels, isLoading, error } = useHiddenChannels();
+	const unhideMutation = useUnhideChannel();
+
+	if (isLoading) {
+		return <p className="text-sm text-text-dim">Loading hidden channels...</p>;
+	}
+
+	if (error !== null) {
+		return <p className="text-sm text-live">{error.message}</p>;
+	}
+
+	if (channels.length === 0) {
+		return (
+			<p className="text-sm text-text-dim">
+				No hidden channels. Use the hide button on a channel card, in the sidebar or in
+				browse to hide one.
+			</p>
+		);
+	}
+
+	return (
+		<div>
+			{unhideMutation.error !== null && (
+				<p className="mb-3 text-sm text-live">{unhideMutation.error.message}</p>
+			)}
+
+			<ul className="flex max-w-[600px] flex-col gap-1">
+				{channels.map((channel) => {
+					const isUnhiding =
+						unhideMutation.isPending && unhideMutation.variables === channel.channelId;
+
+					return (
+						<li
+							key={channel.channelId}
+							className="flex items-center gap-3 rounded-md px-2 py-2 hover:bg-surface-elevated"
+						>
+							{channel.profileImageUrl !== null && (
+								<img
+									src={channel.profileImageUrl}
+									alt=""
+									className="h-9 w-9 flex-shrink-0 rounded-full object-cover"
+								/>
+							)}
+							{channel.profileImageUrl === null && (
+								<div className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full bg-surface-elevated text-sm font-semibold text-text-muted">
+									{channel.channelName.charAt(0).toUpperCase()}
+								</div>
+							)}
+							<div className="min-w-0 flex-1">
+								<Link
+									to="/channels/$id"
+									params={{ id: channel.channelId }}
+									className="block truncate text-sm font-semibold text-twitch-purple-light hover:underline"
+								>
+									{channel.channelName}
+								</Link>
+								<div className="text-xs text-text-dim">
+									Hidden {formatDate(channel.hiddenAt)}
+								</div>
+							</div>
+							<button
+								type="button"
+								onClick={() => unhideMutation.mutate(channel.channelId)}
+								disabled={isUnhiding}
+								className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-1.5 text-xs font-semibold text-text-primary transition-all hover:border-twitch-purple hover:bg-twitch-purple cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+							>
+								{isUnhiding ? "Unhiding..." : "Unhide"}
+							</button>
+						</li>
+					);
+				})}
+			</ul>
+		</div>
+	);
+});
+
+export { HiddenChannelList };
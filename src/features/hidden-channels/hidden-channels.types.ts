@@ -0,0 +1,12 @@
+export type HiddenChannel = {
+	channelId: string;
+	channelName: string;
+	profileImageUrl: string | null;
+	hiddenAt: string;
+};
+
+export type HideChannelInput = {
+	channelId: string;
+	channelName: string;
+	profileImageUrl: string | null;
+};
@@ -0,0 +1,66 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { HiddenChannel, HideChannelInput } from "./hidden-channels.types";
+
+const CHANNEL_ID_PATTERN = /^[0-9]{1,20}$/;
+const CHANNEL_NAME_PATTERN = /^[a-zA-Z0-9_]{1,25}$/;
+const MAX_URL_LENGTH = 2048;
+
+export function isValidChannelId(value: string) {
+	return CHANNEL_ID_PATTERN.test(value);
+}
+
+export function validateHideChannelRequest(body: unknown): HideChannelInput | Error {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	if (typeof body.channelId !== "string" || !isValidChannelId(body.channelId)) {
+		return new Error("channelId must be a numeric Twitch user id");
+	}
+
+	if (typeof body.channelName !== "string" || !CHANNEL_NAME_PATTERN.test(body.channelName)) {
+		return new Error("channelName must be a valid Twitch channel name");
+	}
+
+	const profileImageUrl = body.profileImageUrl ?? null;
+
+	if (
+		profileImageUrl !== null &&
+		(typeof profileImageUrl !== "string" || profileImageUrl.length > MAX_URL_LENGTH)
+	) {
+		return new Error(`profileImageUrl must be a string up to ${MAX_URL_LENGTH} characters`);
+	}
+
+	return {
+		channelId: body.channelId,
+		channelName: body.channelName,
+		profileImageUrl: profileImageUrl === "" ? null : profileImageUrl,
+	};
+}
+
+function isHiddenChannel(value: unknown): value is HiddenChannel {
+	return (
+		isRecord(value) &&
+		typeof value.channelId === "string" &&
+		typeof value.channelName === "string" &&
+		(value.profileImageUrl === null || typeof value.profileImageUrl === "string") &&
+		typeof value.hiddenAt === "string"
+	);
+}
+
+export function parseHiddenChannelsResponse(data: unknown): Array<HiddenChannel> | Error {
+	if (!isRecord(data) || !Array.isArray(data.channels)) {
+		return new Error("Invalid hidden channels response");
+	}
+
+	const channels: Array<HiddenChannel> = [];
+	for (const channel of data.channels) {
+		if (!isHiddenChannel(channel)) {
+			return new Error("Invalid hidden channels response");
+		}
+		channels.push(channel);
+	}
+
+	return channels;
+}
@@ -0,0 +1,119 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import {
+	hideChannelApi,
+	unhideChannelApi,
+} from "@/src/features/hidden-channels/api/hidden-channels-mutations";
+import { fetchHiddenChannels } from "@/src/features/hidden-channels/api/hidden-channels-queries";
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+import type { Channel } from "@/src/features/channels/channels.types";
+import type { HiddenChannel } from "@/src/features/hidden-channels/hidden-channels.types";
+import type { SidebarChannel } from "@/src/features/sidebar/sidebar.types";
+
+const EMPTY_HIDDEN_CHANNELS: Array<HiddenChannel> = [];
+
+type HideChannelMutationContext = {
+	previousChannels: Array<Channel> | undefined;
+	previousFollowedChannels: Array<SidebarChannel> | undefined;
+};
+
+function removeChannel<T extends { id: string }>(channels: Array<T>, channelId: string) {
+	const result: Array<T> = [];
+	for (const channel of channels) {
+		if (channel.id !== channelId) {
+			result.push(channel);
+		}
+	}
+	return result;
+}
+
+// Every list that filters hidden channels on the server needs a refetch
+function useInvalidateChannelLists() {
+	const queryClient = useQueryClient();
+
+	return async function invalidateChannelLists() {
+		await Promise.all([
+			queryClient.invalidateQueries({ queryKey: QUERY_KEYS.hiddenChannels }),
+			queryClient.invalidateQueries({ queryKey: QUERY_KEYS.channels }),
+			queryClient.invalidateQueries({ queryKey: QUERY_KEYS.followedChannels }),
+			queryClient.invalidateQueries({ queryKey: QUERY_KEYS.browseStreams }),
+			queryClient.invalidateQueries({ queryKey: QUERY_KEYS.channelDetails }),
+		]);
+	};
+}
+
+export function useHiddenChannels() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.hiddenChannels,
+		queryFn: fetchHiddenChannels,
+	});
+
+	return {
+		channels: data ?? EMPTY_HIDDEN_CHANNELS,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+export function useHideChannel() {
+	const queryClient = useQueryClient();
+	const invalidateChannelLists = useInvalidateChannelLists();
+
+	return useMutation({
+		mutationFn: hideChannelApi,
+		onMutate: async ({ channelId }) => {
+			await Promise.all([
+				queryClient.cancelQueries({ queryKey: QUERY_KEYS.channels }),
+				queryClient.cancelQueries({ queryKey: QUERY_KEYS.followedChannels }),
+			]);
+
+			const previousChannels = queryClient.getQueryData<Array<Channel>>(QUERY_KEYS.channels);
+			const previousFollowedChannels = queryClient.getQueryData<Array<SidebarChannel>>(
+				QUERY_KEYS.followedChannels,
+			);
+
+			if (previousChannels !== undefined) {
+				queryClient.setQueryData(
+					QUERY_KEYS.channels,
+					removeChannel(previousChannels, channelId),
+				);
+			}
+
+			if (previousFollowedChannels !== undefined) {
+				queryClient.setQueryData(
+					QUERY_KEYS.followedChannels,
+					removeChannel(previousFollowedChannels, channelId),
+				);
+			}
+
+			const context: HideChannelMutationContext = {
+				previousChannels,
+				previousFollowedChannels,
+			};
+
+			return context;
+		},
+		onError: (_error, _input, context) => {
+			if (context?.previousChannels !== undefined) {
+				queryClient.setQueryData(QUERY_KEYS.channels, context.previousChannels);
+			}
+			if (context?.previousFollowedChannels !== undefined) {
+				queryClient.setQueryData(
+					QUERY_KEYS.followedChannels,
+					context.previousFollowedChannels,
+				);
+			}
+		},
+		onSettled: invalidateChannelLists,
+	});
+}
+
+export function useUnhideChannel() {
+	const invalidateChannelLists = useInvalidateChannelLists();
+
+	return useMutation({
+		mutationFn: unhideChannelApi,
+		onSettled: invalidateChannelLists,
+	});
+}
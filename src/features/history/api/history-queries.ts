@@ -0,0 +1,20 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseHistoryResponse } from "../history.validators";
+
+export async function fetchHistory(days: number) {
+	const response = await fetch(`/api/history?days=${days}`);
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch watch history");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseHistoryResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
@@ -0,0 +1,63 @@
+import { memo } from "react";
+
+import { formatDate, formatDurationSeconds } from "@/src/shared/utils/format";
+
+import type { ChannelWatchTotal } from "@/src/features/history/history.types";
+
+type ChannelWatchTotalsProps = {
+	channels: Array<ChannelWatchTotal>;
+	totalSeconds: number;
+};
+
+function getSharePercent(channelSeconds: number, totalSeconds: number) {
+	if (totalSeconds <= 0) {
+		return 0;
+	}
+	return Math.round((channelSeconds / totalSeconds) * 100);
+}
+
+const ChannelWatchTotals = memo(function ChannelWatchTotals({
+	channels,
+	totalSeconds,
+}: ChannelWatchTotalsProps) {
+	if (channels.length === 0) {
+		return <p className="text-sm text-text-dim">Nothing watched in this period.</p>;
+	}
+
+	return (
+		<ul className="flex flex-col gap-2">
+			{channels.map((channel) => {
+				const sharePercent = getSharePercent(channel.totalSeconds, totalSeconds);
+
+				return (
+					<li
+						key={channel.channelName ?? "unknown"}
+						className="rounded-lg border border-surface-border-muted bg-surface-card px-4 py-3"
+					>
+						<div className="mb-2 flex items-center justify-between gap-3">
+							<span className="truncate font-semibold text-twitch-purple-light">
+								{channel.channelName ?? "Unknown channel"}
+							</span>
+							<span className="shrink-0 text-sm text-text-primary">
+								{formatDurationSeconds(channel.totalSeconds)}
+							</span>
+						</div>
+						<div className="mb-2 h-1.5 overflow-hidden rounded-full bg-surface-elevated">
+							<div
+								className="h-full rounded-full bg-twitch-purple"
+								style={{ width: `${sharePercent}%` }}
+							/>
+						</div>
+						<div className="flex gap-3 text-xs text-text-dim">
+							<span>{channel.sessionCount} sessions</span>
+							<span>{sharePercent}% of total</span>
+							<span>Last watched {formatDate(channel.lastWatchedAt)}</span>
+						</div>
+					</li>
+				);
+			})}
+		</ul>
+	);
+});
+
+export { ChannelWatchTotals };
@@ -0,0 +1,70 @@
+import { memo } from "react";
+
+import { formatDurationSeconds } from "@/src/shared/utils/format";
+
+import type { DailyWatchTotal } from "@/src/features/history/history.types";
+
+type DailyWatchChartProps = {
+	daily: Array<DailyWatchTotal>;
+	days: number;
+};
+
+function toLocalDateKey(date: Date) {
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// The API only returns days with activity, so pad the range with empty days
+function getChartDays(daily: Array<DailyWatchTotal>, days: number) {
+	const totalsByDate = new Map<string, number>();
+	for (const total of daily) {
+		totalsByDate.set(total.date, total.totalSeconds);
+	}
+
+	const chartDays: Array<{ date: string; totalSeconds: number }> = [];
+	const cursor = new Date();
+	cursor.setDate(cursor.getDate() - (days - 1));
+
+	for (let index = 0; index < days; index++) {
+		const date = toLocalDateKey(cursor);
+		chartDays.push({ date, totalSeconds: totalsByDate.get(date) ?? 0 });
+		cursor.setDate(cursor.getDate() + 1);
+	}
+
+	return chartDays;
+}
+
+function getMaxSeconds(chartDays: Array<{ totalSeconds: number }>) {
+	let max = 0;
+	for (const day of chartDays) {
+		max = Math.max(max, day.totalSeconds);
+	}
+	return max;
+}
+
+const DailyWatchChart = memo(function DailyWatchChart({ daily, days }: DailyWatchChartProps) {
+	const chartDays = getChartDays(daily, days);
+	const maxSeconds = getMaxSeconds(chartDays);
+
+	return (
+		<div className="flex h-40 items-end gap-px rounded-lg border border-surface-border-muted bg-surface-card p-3">
+			{chartDays.map((day) => (
+				<div
+					key={day.date}
+					title={`${day.date}: ${formatDurationSeconds(day.totalSeconds)}`}
+					className="flex h-full flex-1 items-end"
+				>
+					<div
+						className="w-full rounded-t-sm bg-twitch-purple"
+						style={{
+							height: `${maxSeconds > 0 ? (day.totalSeconds / maxSeconds) * 100 : 0}%`,
+						}}
+					/>
+				</div>
+			))}
+		</div>
+	);
+});
+
+export { DailyWatchChart };
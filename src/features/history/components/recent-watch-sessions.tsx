@@ -0,0 +1,56 @@
+import { memo } from "react";
+
+import { formatDurationSeconds } from "@/src/shared/utils/format";
+import { getStreamQualityLabel } from "@/src/shared/utils/stream-quality";
+
+import type { WatchSession } from "@/src/features/history/history.types";
+
+type RecentWatchSessionsProps = {
+	sessions: Array<WatchSession>;
+};
+
+function getDurationLabel(session: WatchSession) {
+	if (session.durationSeconds !== null) {
+		return formatDurationSeconds(session.durationSeconds);
+	}
+
+	if (session.endedAt === null) {
+		return "In progress";
+	}
+
+	return "Unknown";
+}
+
+const RecentWatchSessions = memo(function RecentWatchSessions({
+	sessions,
+}: RecentWatchSessionsProps) {
+	if (sessions.length === 0) {
+		return <p className="text-sm text-text-dim">No launches recorded yet.</p>;
+	}
+
+	return (
+		<ul className="divide-y divide-surface-border-muted rounded-lg border border-surface-border-muted bg-surface-card">
+			{sessions.map((session) => (
+				<li key={session.id} className="flex items-center gap-3 px-4 py-2.5 text-sm">
+					<span className="w-12 shrink-0 rounded bg-surface-elevated px-2 py-0.5 text-center text-xs font-semibold uppercase text-text-muted">
+						{session.kind === "live" ? "Live" : "VOD"}
+					</span>
+					<span className="min-w-0 flex-1 truncate text-text-primary">
+						{session.channelName ?? session.vodId ?? "Unknown"}
+					</span>
+					<span className="shrink-0 text-xs text-text-dim">
+						{getStreamQualityLabel(session.quality)}
+					</span>
+					<span className="w-40 shrink-0 text-right text-xs text-text-dim">
+						{new Date(session.startedAt).toLocaleString()}
+					</span>
+					<span className="w-20 shrink-0 text-right text-text-muted">
+						{getDurationLabel(session)}
+					</span>
+				</li>
+			))}
+		</ul>
+	);
+});
+
+export { RecentWatchSessions };
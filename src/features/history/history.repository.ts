@@ -0,0 +1,119 @@
+import { desc, eq, gte, sql } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { watchSessions } from "@/src/db/schema";
+
+import type { WatchSessionInput } from "./history.types";
+
+const totalSecondsColumn = sql<number>`coalesce(sum(${watchSessions.durationSeconds}), 0)`;
+const sessionCountColumn = sql<number>`count(*)`;
+// Stored timestamps are UTC; the server runs on the viewer's machine, so localtime is their day
+const localDateColumn = sql<string>`date(${watchSessions.startedAt}, 'localtime')`;
+
+export function createWatchSession(input: WatchSessionInput) {
+	try {
+		const row = database
+			.insert(watchSessions)
+			.values(input)
+			.returning({ id: watchSessions.id })
+			.get();
+
+		return row.id;
+	} catch (error) {
+		console.error("[history.repository] createWatchSession failed:", error);
+		return new Error("Failed to record watch session");
+	}
+}
+
+export function finishWatchSession(id: number, endedAt: string, durationSeconds: number) {
+	try {
+		const updated = database
+			.update(watchSessions)
+			.set({ endedAt, durationSeconds })
+			.where(eq(watchSessions.id, id))
+			.returning({ id: watchSessions.id })
+			.all();
+
+		return updated.length > 0;
+	} catch (error) {
+		console.error("[history.repository] finishWatchSession failed:", error);
+		return new Error("Failed to finish watch session");
+	}
+}
+
+export function getWatchTotals(since: string) {
+	try {
+		const row = database
+			.select({ totalSeconds: totalSecondsColumn, sessionCount: sessionCountColumn })
+			.from(watchSessions)
+			.where(gte(watchSessions.startedAt, since))
+			.get();
+
+		return row ?? { totalSeconds: 0, sessionCount: 0 };
+	} catch (error) {
+		console.error("[history.repository] getWatchTotals failed:", error);
+		return new Error("Failed to get watch totals");
+	}
+}
+
+export function getChannelWatchTotals(since: string) {
+	try {
+		return database
+			.select({
+				channelName: watchSessions.channelName,
+				totalSeconds: totalSecondsColumn,
+				sessionCount: sessionCountColumn,
+				lastWatchedAt: sql<string>`max(${watchSessions.startedAt})`,
+			})
+			.from(watchSessions)
+			.where(gte(watchSessions.startedAt, since))
+			.groupBy(watchSessions.channelName)
+			.orderBy(desc(totalSecondsColumn))
+			.all();
+	} catch (error) {
+		console.error("[history.repository] getChannelWatchTotals failed:", error);
+		return new Error("Failed to get channel watch totals");
+	}
+}
+
+export function getDailyWatchTotals(since: string) {
+	try {
+		return database
+			.select({
+				date: localDateColumn,
+				totalSeconds: totalSecondsColumn,
+				sessionCount: sessionCountColumn,
+			})
+			.from(watchSessions)
+			.where(gte(watchSessions.startedAt, since))
+			.groupBy(localDateColumn)
+			.orderBy(localDateColumn)
+			.all();
+	} catch (error) {
+		console.error("[history.repository] getDailyWatchTotals failed:", error);
+		return new Error("Failed to get daily watch totals");
+	}
+}
+
+export function getRecentWatchSessions(limit = 50) {
+	try {
+		return database
+			.select({
+				id: watchSessions.id,
+				kind: watchSessions.kind,
+				channelName: watchSessions.channelName,
+				vodId: watchSessions.vodId,
+				quality: watchSessions.quality,
+				startedAt: watchSessions.startedAt,
+				endedAt: watchSessions.endedAt,
+				durationSeconds: watchSessions.durationSeconds,
+			})
+			.from(watchSessions)
+			.orderBy(desc(watchSessions.startedAt))
+			.limit(limit)
+			.all();
+	} catch (error) {
+		console.error("[history.repository] getRecentWatchSessions failed:", error);
+		return new Error("Failed to get recent watch sessions");
+	}
+}
@@ -0,0 +1,39 @@
+export type WatchSessionKind = "live" | "vod";
+
+export type WatchSessionInput = {
+	kind: WatchSessionKind;
+	channelName: string | null;
+	vodId: string | null;
+	quality: string;
+	startedAt: string;
+};
+
+export type WatchSession = WatchSessionInput & {
+	id: number;
+	endedAt: string | null;
+	durationSeconds: number | null;
+};
+
+export type ChannelWatchTotal = {
+	// null groups VOD launches whose channel couldn't be resolved
+	channelName: string | null;
+	totalSeconds: number;
+	sessionCount: number;
+	lastWatchedAt: string;
+};
+
+export type DailyWatchTotal = {
+	// Local calendar date, YYYY-MM-DD
+	date: string;
+	totalSeconds: number;
+	sessionCount: number;
+};
+
+export type HistoryResponse = {
+	days: number;
+	totalSeconds: number;
+	sessionCount: number;
+	channels: Array<ChannelWatchTotal>;
+	daily: Array<DailyWatchTotal>;
+	recent: Array<WatchSession>;
+};
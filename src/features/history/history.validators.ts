@@ -0,0 +1,111 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type {
+	ChannelWatchTotal,
+	DailyWatchTotal,
+	HistoryResponse,
+	WatchSession,
+} from "./history.types";
+
+export const HISTORY_RANGE_OPTIONS = [7, 30, 90, 365];
+
+const DEFAULT_HISTORY_DAYS = 30;
+const MAX_HISTORY_DAYS = 365;
+
+export function parseHistoryDays(value: string | null) {
+	if (value === null) {
+		return DEFAULT_HISTORY_DAYS;
+	}
+
+	const days = Number(value);
+
+	if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_DAYS) {
+		return new Error(`days must be an integer between 1 and ${MAX_HISTORY_DAYS}`);
+	}
+
+	return days;
+}
+
+function isNullableString(value: unknown) {
+	return value === null || typeof value === "string";
+}
+
+function isChannelWatchTotal(value: unknown): value is ChannelWatchTotal {
+	return (
+		isRecord(value) &&
+		isNullableString(value.channelName) &&
+		typeof value.totalSeconds === "number" &&
+		typeof value.sessionCount === "number" &&
+		typeof value.lastWatchedAt === "string"
+	);
+}
+
+function isDailyWatchTotal(value: unknown): value is DailyWatchTotal {
+	return (
+		isRecord(value) &&
+		typeof value.date === "string" &&
+		typeof value.totalSeconds === "number" &&
+		typeof value.sessionCount === "number"
+	);
+}
+
+function isWatchSession(value: unknown): value is WatchSession {
+	if (!isRecord(value)) {
+		return false;
+	}
+
+	return (
+		typeof value.id === "number" &&
+		(value.kind === "live" || value.kind === "vod") &&
+		isNullableString(value.channelName) &&
+		isNullableString(value.vodId) &&
+		typeof value.quality === "string" &&
+		typeof value.startedAt === "string" &&
+		isNullableString(value.endedAt) &&
+		(value.durationSeconds === null || typeof value.durationSeconds === "number")
+	);
+}
+
+function parseArray<T>(value: unknown, isItem: (item: unknown) => item is T) {
+	if (!Array.isArray(value)) {
+		return null;
+	}
+
+	const items: Array<T> = [];
+	for (const item of value) {
+		if (!isItem(item)) {
+			return null;
+		}
+		items.push(item);
+	}
+
+	return items;
+}
+
+export function parseHistoryResponse(data: unknown): HistoryResponse | Error {
+	if (
+		!isRecord(data) ||
+		typeof data.days !== "number" ||
+		typeof data.totalSeconds !== "number" ||
+		typeof data.sessionCount !== "number"
+	) {
+		return new Error("Invalid history response");
+	}
+
+	const channels = parseArray(data.channels, isChannelWatchTotal);
+	const daily = parseArray(data.daily, isDailyWatchTotal);
+	const recent = parseArray(data.recent, isWatchSession);
+
+	if (channels === null || daily === null || recent === null) {
+		return new Error("Invalid history response");
+	}
+
+	return {
+		days: data.days,
+		totalSeconds: data.totalSeconds,
+		sessionCount: data.sessionCount,
+		channels,
+		daily,
+		recent,
+	};
+}
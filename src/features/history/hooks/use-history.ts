@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { fetchHistory } from "@/src/features/history/api/history-queries";
+import { getHistoryQueryKey } from "@/src/shared/query-keys";
+
+export function useHistory(days: number) {
+	const { data, isLoading, error } = useQuery({
+		queryKey: getHistoryQueryKey(days),
+		queryFn: () => fetchHistory(days),
+	});
+
+	return {
+		data: data ?? null,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
@@ -0,0 +1,20 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+import { JSON_HEADERS } from "@/src/shared/utils/http";
+
+import type { LauncherSettingsUpdate } from "../launcher.types";
+
+export async function updateLauncherSettingsApi(update: LauncherSettingsUpdate) {
+	const response = await fetch("/api/launcher", {
+		method: "PUT",
+		headers: JSON_HEADERS,
+		body: JSON.stringify(update),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(
+			response,
+			"Failed to update launcher settings",
+		);
+		throw new Error(message);
+	}
+}
@@ -0,0 +1,20 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseLauncherSettingsResponse } from "../launcher.validators";
+
+export async function fetchLauncherSettings() {
+	const response = await fetch("/api/launcher");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch launcher settings");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseLauncherSettingsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
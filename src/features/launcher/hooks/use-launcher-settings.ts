@@ -0,0 +1,30 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { updateLauncherSettingsApi } from "@/src/features/launcher/api/launcher-mutations";
+import { fetchLauncherSettings } from "@/src/features/launcher/api/launcher-queries";
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+export function useLauncherSettings() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.launcherSettings,
+		queryFn: fetchLauncherSettings,
+		staleTime: 5 * 60 * 1000,
+	});
+
+	return {
+		settings: data ?? null,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+export function useUpdateLauncherSettings() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: updateLauncherSettingsApi,
+		onSettled: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.launcherSettings });
+		},
+	});
+}
@@ -0,0 +1,60 @@
+import { eq, sql } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { launcherSettings } from "@/src/db/schema";
+
+import type { LauncherSettingsUpdate } from "./launcher.types";
+
+export function getLauncherSettings() {
+	try {
+		const row = database
+			.select({
+				streamlinkPath: launcherSettings.streamlinkPath,
+				chatterinoPath: launcherSettings.chatterinoPath,
+				defaultPlayerProfileId: launcherSettings.defaultPlayerProfileId,
+				downloadDirectory: launcherSettings.downloadDirectory,
+				autoRecordFavorites: launcherSettings.autoRecordFavorites,
+				libraryDirectory: launcherSettings.libraryDirectory,
+				retentionDays: launcherSettings.retentionDays,
+				vodChaptersEnabled: launcherSettings.vodChaptersEnabled,
+			})
+			.from(launcherSettings)
+			.where(eq(launcherSettings.id, 1))
+			.get();
+
+		return (
+			row ?? {
+				streamlinkPath: null,
+				chatterinoPath: null,
+				defaultPlayerProfileId: null,
+				downloadDirectory: null,
+				autoRecordFavorites: false,
+				libraryDirectory: null,
+				retentionDays: null,
+				vodChaptersEnabled: false,
+			}
+		);
+	} catch (error) {
+		console.error("[launcher.repository] getLauncherSettings failed:", error);
+		return new Error("Failed to get launcher settings");
+	}
+}
+
+export function updateLauncherSettings(update: LauncherSettingsUpdate) {
+	try {
+		// The single settings row is seeded by a migration
+		database
+			.update(launcherSettings)
+			.set({
+				...update,
+				updatedAt: sql`CURRENT_TIMESTAMP`,
+			})
+			.where(eq(launcherSettings.id, 1))
+			.run();
+
+		return null;
+	} catch (error) {
+		console.error("[launcher.repository] updateLauncherSettings failed:", error);
+		return new Error("Failed to update launcher settings");
+	}
+}
@@ -0,0 +1,38 @@
+export type ExecutableKind = "streamlink" | "chatterino";
+
+export type ExecutableSource = "environment" | "settings" | "path" | "default-location";
+
+export type ResolvedExecutable = {
+	kind: ExecutableKind;
+	path: string;
+	source: ExecutableSource;
+};
+
+export type ExecutableStatus = {
+	kind: ExecutableKind;
+	path: string | null;
+	source: ExecutableSource | null;
+	probedLocations: Array<string>;
+};
+
+export type LauncherSettings = {
+	streamlinkPath: string | null;
+	chatterinoPath: string | null;
+	defaultPlayerProfileId: number | null;
+	downloadDirectory: string | null;
+	autoRecordFavorites: boolean;
+	libraryDirectory: string | null;
+	retentionDays: number | null;
+	vodChaptersEnabled: boolean;
+};
+
+export type LauncherSettingsUpdate = {
+	streamlinkPath?: string | null;
+	chatterinoPath?: string | null;
+	defaultPlayerProfileId?: number | null;
+	downloadDirectory?: string | null;
+	autoRecordFavorites?: boolean;
+	libraryDirectory?: string | null;
+	retentionDays?: number | null;
+	vodChaptersEnabled?: boolean;
+};
@@ -0,0 +1,135 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { LauncherSettings, LauncherSettingsUpdate } from "./launcher.types";
+
+const MAX_PATH_LENGTH = 1024;
+const MAX_RETENTION_DAYS = 3650;
+
+function parsePath(value: unknown, fieldName: string) {
+	if (value === null) {
+		return null;
+	}
+
+	if (typeof value !== "string") {
+		return new Error(`${fieldName} must be a string or null`);
+	}
+
+	const trimmed = value.trim();
+
+	if (trimmed === "") {
+		return null;
+	}
+
+	if (trimmed.length > MAX_PATH_LENGTH) {
+		return new Error(`${fieldName} must not exceed ${MAX_PATH_LENGTH} characters`);
+	}
+
+	return trimmed;
+}
+
+export function validateUpdateLauncherSettingsRequest(body: unknown) {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	const update: LauncherSettingsUpdate = {};
+
+	if ("streamlinkPath" in body) {
+		const streamlinkPath = parsePath(body.streamlinkPath, "streamlinkPath");
+		if (streamlinkPath instanceof Error) {
+			return streamlinkPath;
+		}
+		update.streamlinkPath = streamlinkPath;
+	}
+
+	if ("chatterinoPath" in body) {
+		const chatterinoPath = parsePath(body.chatterinoPath, "chatterinoPath");
+		if (chatterinoPath instanceof Error) {
+			return chatterinoPath;
+		}
+		update.chatterinoPath = chatterinoPath;
+	}
+
+	if ("defaultPlayerProfileId" in body) {
+		const defaultPlayerProfileId = body.defaultPlayerProfileId;
+		if (
+			defaultPlayerProfileId !== null &&
+			(typeof defaultPlayerProfileId !== "number" ||
+				!Number.isInteger(defaultPlayerProfileId))
+		) {
+			return new Error("defaultPlayerProfileId must be an integer or null");
+		}
+		update.defaultPlayerProfileId = defaultPlayerProfileId;
+	}
+
+	if ("downloadDirectory" in body) {
+		const downloadDirectory = parsePath(body.downloadDirectory, "downloadDirectory");
+		if (downloadDirectory instanceof Error) {
+			return downloadDirectory;
+		}
+		update.downloadDirectory = downloadDirectory;
+	}
+
+	if ("autoRecordFavorites" in body) {
+		if (typeof body.autoRecordFavorites !== "boolean") {
+			return new Error("autoRecordFavorites must be a boolean");
+		}
+		update.autoRecordFavorites = body.autoRecordFavorites;
+	}
+
+	if ("libraryDirectory" in body) {
+		const libraryDirectory = parsePath(body.libraryDirectory, "libraryDirectory");
+		if (libraryDirectory instanceof Error) {
+			return libraryDirectory;
+		}
+		update.libraryDirectory = libraryDirectory;
+	}
+
+	if ("retentionDays" in body) {
+		const retentionDays = body.retentionDays;
+		if (
+			retentionDays !== null &&
+			(typeof retentionDays !== "number" ||
+				!Number.isInteger(retentionDays) ||
+				retentionDays < 1 ||
+				retentionDays > MAX_RETENTION_DAYS)
+		) {
+			return new Error(
+				`retentionDays must be an integer between 1 and ${MAX_RETENTION_DAYS} or null`,
+			);
+		}
+		update.retentionDays = retentionDays;
+	}
+
+	if ("vodChaptersEnabled" in body) {
+		if (typeof body.vodChaptersEnabled !== "boolean") {
+			return new Error("vodChaptersEnabled must be a boolean");
+		}
+		update.vodChaptersEnabled = body.vodChaptersEnabled;
+	}
+
+	return update;
+}
+
+function isLauncherSettings(value: unknown): value is LauncherSettings {
+	return (
+		isRecord(value) &&
+		(value.streamlinkPath === null || typeof value.streamlinkPath === "string") &&
+		(value.chatterinoPath === null || typeof value.chatterinoPath === "string") &&
+		(value.defaultPlayerProfileId === null ||
+			typeof value.defaultPlayerProfileId === "number") &&
+		(value.downloadDirectory === null || typeof value.downloadDirectory === "string") &&
+		typeof value.autoRecordFavorites === "boolean" &&
+		(value.libraryDirectory === null || typeof value.libraryDirectory === "string") &&
+		(value.retentionDays === null || typeof value.retentionDays === "number") &&
+		typeof value.vodChaptersEnabled === "boolean"
+	);
+}
+
+export function parseLauncherSettingsResponse(data: unknown): LauncherSettings | Error {
+	if (!isRecord(data) || !isLauncherSettings(data.settings)) {
+		return new Error("Invalid launcher settings response");
+	}
+
+	return data.settings;
+}
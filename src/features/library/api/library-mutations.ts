@@ -0,0 +1,46 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseLibraryScanResponse, parseRetentionResponse } from "../library.validators";
+
+export async function scanLibraryApi() {
+	const response = await fetch("/api/library/scan", { method: "POST" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to scan library");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseLibraryScanResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
+
+export async function applyRetentionApi() {
+	const response = await fetch("/api/library/retention", { method: "POST" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to clean up library");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseRetentionResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
+
+export async function deleteLibraryFileApi(id: number) {
+	const response = await fetch(`/api/library/${id}`, { method: "DELETE" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to delete file");
+		throw new Error(message);
+	}
+}
@@ -0,0 +1,20 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseLibraryResponse } from "../library.validators";
+
+export async function fetchLibrary() {
+	const response = await fetch("/api/library");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch library");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseLibraryResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
@@ -0,0 +1,152 @@
+import { memo } from "react";
+
+import {
+	useDeleteLibraryFile,
+	useLibrary,
+	useScanLibrary,
+} from "@/src/features/library/hooks/use-library";
+import { formatBytes, formatDate } from "@/src/shared/utils/format";
+
+import type { LibraryFile, LibraryScanResult } from "@/src/features/library/library.types";
+
+function getFileName(path: string) {
+	return path.split(/[\\/]/).pop() ?? path;
+}
+
+function getScanSummary(scan: LibraryScanResult) {
+	return `Found ${scan.fileCount} files (${scan.addedCount} new, ${scan.removedCount} gone)`;
+}
+
+const LibrarySection = memo(function LibrarySection() {
+	const { library, isLoading, error } = useLibrary();
+	const scanMutation = useScanLibrary();
+	const deleteMutation = useDeleteLibraryFile();
+
+	function handleDelete(file: LibraryFile) {
+		if (!window.confirm(`Delete ${getFileName(file.path)} from disk?`)) {
+			return;
+		}
+
+		deleteMutation.mutate(file.id);
+	}
+
+	const mutationError = scanMutation.error ?? deleteMutation.error;
+
+	return (
+		<section className="mb-8">
+			<div className="mb-3 flex items-start gap-3">
+				<div className="flex-1">
+					<h3 className="text-lg font-semibold">Library</h3>
+					<p className="text-xs text-text-dim">
+						Watch plays a VOD from its local copy when there is a complete one.
+					</p>
+				</div>
+				<button
+					type="button"
+					onClick={() => scanMutation.mutate()}
+					disabled={scanMutation.isPending}
+					className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-1.5 text-xs font-semibold text-text-primary transition-all hover:border-twitch-purple enabled:cursor-pointer disabled:opacity-50"
+				>
+					{scanMutation.isPending ? "Scanning..." : "Scan folder"}
+				</button>
+			</div>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading library...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{mutationError !== null && (
+				<p className="mb-3 text-sm text-live">{mutationError.message}</p>
+			)}
+
+			{scanMutation.data !== undefined && (
+				<p className="mb-3 text-sm text-text-muted">{getScanSummary(scanMutation.data)}</p>
+			)}
+
+			{library !== null && (
+				<div className="flex max-w-[900px] flex-col gap-3">
+					<div className="rounded-lg border border-surface-border-muted bg-surface-card px-4 py-3">
+						<div className="flex flex-wrap items-baseline gap-x-4 text-sm text-text-primary">
+							<span>
+								<span className="font-semibold">
+									{formatBytes(library.usage.totalBytes)}
+								</span>{" "}
+								in {library.usage.fileCount} files
+							</span>
+							{library.usage.freeBytes !== null && (
+								<span className="text-text-muted">
+									{formatBytes(library.usage.freeBytes)} free
+								</span>
+							)}
+						</div>
+						<div
+							className="truncate font-mono text-xs text-text-dim"
+							title={library.usage.directory}
+						>
+							{library.usage.directory}
+						</div>
+						{library.usage.channels.length > 0 && (
+							<div className="mt-2 flex flex-wrap gap-2">
+								{library.usage.channels.map((channel) => (
+									<span
+										key={channel.channelName ?? ""}
+										className="rounded bg-surface-elevated px-2 py-1 text-xs text-text-muted"
+									>
+										{channel.channelName ?? "Other"}:{" "}
+										{formatBytes(channel.totalBytes)}
+									</span>
+								))}
+							</div>
+						)}
+					</div>
+
+					{library.files.length === 0 && (
+						<p className="text-sm text-text-dim">No video files in the library.</p>
+					)}
+
+					<ul className="flex flex-col gap-2">
+						{library.files.map((file) => {
+							const isDeleting =
+								deleteMutation.isPending && deleteMutation.variables === file.id;
+
+							return (
+								<li
+									key={file.id}
+									className="flex items-center gap-3 rounded-lg border border-surface-border-muted bg-surface-card px-4 py-2"
+								>
+									<div className="min-w-0 flex-1">
+										<div
+											className="truncate text-sm text-text-primary"
+											title={file.path}
+										>
+											{getFileName(file.path)}
+										</div>
+										<div className="flex flex-wrap items-center gap-x-3 text-xs text-text-muted">
+											<span>{formatBytes(file.sizeBytes)}</span>
+											{file.channelName !== null && (
+												<span>{file.channelName}</span>
+											)}
+											{file.vodId !== null && <span>VOD {file.vodId}</span>}
+											{file.isPartial && <span>Partial</span>}
+											<span>{formatDate(file.modifiedAt)}</span>
+										</div>
+									</div>
+									<button
+										type="button"
+										onClick={() => handleDelete(file)}
+										disabled={isDeleting}
+										className="rounded-md px-2 py-1 text-xs font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-live enabled:cursor-pointer disabled:opacity-50"
+									>
+										{isDeleting ? "Deleting..." : "Delete"}
+									</button>
+								</li>
+							);
+						})}
+					</ul>
+				</div>
+			)}
+		</section>
+	);
+});
+
+export { LibrarySection };
@@ -0,0 +1,170 @@
+import { memo, useState } from "react";
+
+import {
+	useLauncherSettings,
+	useUpdateLauncherSettings,
+} from "@/src/features/launcher/hooks/use-launcher-settings";
+import { useApplyRetention, useScanLibrary } from "@/src/features/library/hooks/use-library";
+import { formatBytes } from "@/src/shared/utils/format";
+
+const INPUT_CLASS_NAME =
+	"rounded border border-surface-border-muted bg-surface-elevated px-2 py-1.5 text-sm text-text-primary placeholder:text-text-dim focus:border-twitch-purple focus:outline-none";
+
+const LABEL_CLASS_NAME = "mb-1 block text-xs text-text-muted";
+
+const SAVE_BUTTON_CLASS_NAME =
+	"rounded bg-twitch-purple px-4 py-1.5 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover enabled:cursor-pointer disabled:opacity-50";
+
+function parseRetentionInput(value: string) {
+	if (value.trim() === "") {
+		return null;
+	}
+
+	const days = Number(value);
+
+	if (!Number.isInteger(days) || days < 1) {
+		return new Error("Days must be a whole number of at least 1");
+	}
+
+	return days;
+}
+
+const LibrarySettingsSection = memo(function LibrarySettingsSection() {
+	const { settings, isLoading, error } = useLauncherSettings();
+	const updateMutation = useUpdateLauncherSettings();
+	const scanMutation = useScanLibrary();
+	const retentionMutation = useApplyRetention();
+	// Null until edited, so saved values show once settings load
+	const [directoryInput, setDirectoryInput] = useState<string | null>(null);
+	const [retentionInput, setRetentionInput] = useState<string | null>(null);
+	const [validationError, setValidationError] = useState<string | null>(null);
+
+	const savedDirectory = settings?.libraryDirectory ?? "";
+	const directoryValue = directoryInput ?? savedDirectory;
+	const savedRetention = settings?.retentionDays?.toString() ?? "";
+	const retentionValue = retentionInput ?? savedRetention;
+
+	function handleDirectorySubmit(event: React.FormEvent) {
+		event.preventDefault();
+		updateMutation.mutate(
+			{ libraryDirectory: directoryValue.trim() === "" ? null : directoryValue.trim() },
+			{
+				onSuccess: () => {
+					setDirectoryInput(null);
+					// The library only mirrors one folder, so a new folder needs a fresh scan
+					scanMutation.mutate();
+				},
+			},
+		);
+	}
+
+	function handleRetentionSubmit(event: React.FormEvent) {
+		event.preventDefault();
+
+		const retentionDays = parseRetentionInput(retentionValue);
+
+		if (retentionDays instanceof Error) {
+			setValidationError(retentionDays.message);
+			return;
+		}
+
+		setValidationError(null);
+		updateMutation.mutate({ retentionDays }, { onSuccess: () => setRetentionInput(null) });
+	}
+
+	const errorMessage =
+		validationError ??
+		updateMutation.error?.message ??
+		retentionMutation.error?.message ??
+		null;
+
+	return (
+		<section className="mb-8">
+			<h3 className="text-lg font-semibold">Library Settings</h3>
+			<p className="mb-3 text-xs text-text-dim">
+				The library is rescanned every few hours and whenever its folder changes.
+			</p>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading settings...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{settings !== null && (
+				<div className="flex max-w-[700px] flex-col gap-3">
+					<form onSubmit={handleDirectorySubmit}>
+						<label htmlFor="library-directory" className={LABEL_CLASS_NAME}>
+							Library folder
+						</label>
+						<div className="flex gap-2">
+							<input
+								id="library-directory"
+								type="text"
+								value={directoryValue}
+								onChange={(event) => setDirectoryInput(event.target.value)}
+								placeholder="Same as the download folder"
+								className={`flex-1 ${INPUT_CLASS_NAME}`}
+							/>
+							<button
+								type="submit"
+								disabled={
+									updateMutation.isPending || directoryValue === savedDirectory
+								}
+								className={SAVE_BUTTON_CLASS_NAME}
+							>
+								Save
+							</button>
+						</div>
+					</form>
+
+					<form onSubmit={handleRetentionSubmit}>
+						<label htmlFor="library-retention-days" className={LABEL_CLASS_NAME}>
+							Delete downloaded VODs this many days after watching them (empty keeps
+							them)
+						</label>
+						<div className="flex gap-2">
+							<input
+								id="library-retention-days"
+								type="number"
+								min={1}
+								value={retentionValue}
+								onChange={(event) => setRetentionInput(event.target.value)}
+								placeholder="Never"
+								className={`w-32 ${INPUT_CLASS_NAME}`}
+							/>
+							<button
+								type="submit"
+								disabled={
+									updateMutation.isPending || retentionValue === savedRetention
+								}
+								className={SAVE_BUTTON_CLASS_NAME}
+							>
+								Save
+							</button>
+							<button
+								type="button"
+								onClick={() => retentionMutation.mutate()}
+								disabled={
+									retentionMutation.isPending || settings.retentionDays === null
+								}
+								className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-1.5 text-xs font-semibold text-text-primary transition-all hover:border-twitch-purple enabled:cursor-pointer disabled:opacity-50"
+							>
+								Clean up now
+							</button>
+						</div>
+					</form>
+
+					{retentionMutation.data !== undefined && (
+						<p className="text-sm text-text-muted">
+							Deleted {retentionMutation.data.deletedCount} files, freeing{" "}
+							{formatBytes(retentionMutation.data.freedBytes)}
+						</p>
+					)}
+
+					{errorMessage !== null && <p className="text-sm text-live">{errorMessage}</p>}
+				</div>
+			)}
+		</section>
+	);
+});
+
+export { LibrarySettingsSection };
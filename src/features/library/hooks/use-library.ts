@@ -0,0 +1,67 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+
+import {
+	applyRetentionApi,
+	deleteLibraryFileApi,
+	scanLibraryApi,
+} from "@/src/features/library/api/library-mutations";
+import { fetchLibrary } from "@/src/features/library/api/library-queries";
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+export function useLibrary() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.library,
+		queryFn: fetchLibrary,
+	});
+
+	return {
+		library: data ?? null,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+/**
+ * IDs of VODs with a complete local copy, which Watch plays instead of the Twitch stream.
+ */
+export function useLocalVodIds() {
+	const { library } = useLibrary();
+
+	return useMemo(() => {
+		const vodIds = new Set<string>();
+
+		for (const file of library?.files ?? []) {
+			if (file.vodId !== null && !file.isPartial) {
+				vodIds.add(file.vodId);
+			}
+		}
+
+		return vodIds;
+	}, [library]);
+}
+
+function useLibraryMutation<TVariables, TData>(
+	mutationFn: (variables: TVariables) => Promise<TData>,
+) {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn,
+		onSettled: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.library });
+		},
+	});
+}
+
+export function useScanLibrary() {
+	return useLibraryMutation(scanLibraryApi);
+}
+
+export function useApplyRetention() {
+	return useLibraryMutation(applyRetentionApi);
+}
+
+export function useDeleteLibraryFile() {
+	return useLibraryMutation(deleteLibraryFileApi);
+}
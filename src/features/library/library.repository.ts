@@ -0,0 +1,175 @@
+import { and, asc, desc, eq, lt, ne, sql } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { libraryFiles, watchedVods } from "@/src/db/schema";
+
+import type { LibraryFile, LibraryScanResult, ScannedLibraryFile } from "./library.types";
+
+const LIBRARY_FILE_COLUMNS = {
+	id: libraryFiles.id,
+	path: libraryFiles.path,
+	channelName: libraryFiles.channelName,
+	vodId: libraryFiles.vodId,
+	sizeBytes: libraryFiles.sizeBytes,
+	isPartial: libraryFiles.isPartial,
+	modifiedAt: libraryFiles.modifiedAt,
+	scannedAt: libraryFiles.scannedAt,
+};
+
+function getUpdatedColumns(file: ScannedLibraryFile, scannedAt: string) {
+	return {
+		channelName: file.channelName,
+		vodId: file.vodId,
+		sizeBytes: file.sizeBytes,
+		isPartial: file.isPartial,
+		modifiedAt: file.modifiedAt,
+		scannedAt,
+	};
+}
+
+export function getLibraryFiles(): Array<LibraryFile> | Error {
+	try {
+		return database
+			.select(LIBRARY_FILE_COLUMNS)
+			.from(libraryFiles)
+			.orderBy(desc(libraryFiles.modifiedAt), asc(libraryFiles.path))
+			.all();
+	} catch (error) {
+		console.error("[library.repository] getLibraryFiles failed:", error);
+		return new Error("Failed to get library files");
+	}
+}
+
+export function getLibraryFileById(id: number): LibraryFile | null | Error {
+	try {
+		const row = database
+			.select(LIBRARY_FILE_COLUMNS)
+			.from(libraryFiles)
+			.where(eq(libraryFiles.id, id))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[library.repository] getLibraryFileById failed:", error);
+		return new Error("Failed to get library file");
+	}
+}
+
+/**
+ * Finds a complete local copy of a VOD, preferring the largest file when it was
+ * downloaded more than once (usually the higher quality).
+ */
+export function getFullCopyByVodId(vodId: string): LibraryFile | null | Error {
+	try {
+		const row = database
+			.select(LIBRARY_FILE_COLUMNS)
+			.from(libraryFiles)
+			.where(and(eq(libraryFiles.vodId, vodId), eq(libraryFiles.isPartial, false)))
+			.orderBy(desc(libraryFiles.sizeBytes))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[library.repository] getFullCopyByVodId failed:", error);
+		return new Error("Failed to get local copy");
+	}
+}
+
+/**
+ * Files of VODs that were watched more than the given number of days ago.
+ * Files without a VOD (live recordings, unrecognized names) are never returned.
+ */
+export function getExpiredWatchedFiles(retentionDays: number): Array<LibraryFile> | Error {
+	try {
+		return database
+			.select(LIBRARY_FILE_COLUMNS)
+			.from(libraryFiles)
+			.innerJoin(watchedVods, eq(libraryFiles.vodId, watchedVods.vodId))
+			.where(lt(watchedVods.watchedAt, sql`datetime('now', ${`-${retentionDays} days`})`))
+			.all();
+	} catch (error) {
+		console.error("[library.repository] getExpiredWatchedFiles failed:", error);
+		return new Error("Failed to get expired library files");
+	}
+}
+
+export function upsertLibraryFile(file: ScannedLibraryFile, scannedAt: string) {
+	try {
+		database
+			.insert(libraryFiles)
+			.values({ ...file, scannedAt })
+			.onConflictDoUpdate({
+				target: libraryFiles.path,
+				set: getUpdatedColumns(file, scannedAt),
+			})
+			.run();
+
+		return null;
+	} catch (error) {
+		console.error("[library.repository] upsertLibraryFile failed:", error);
+		return new Error("Failed to save library file");
+	}
+}
+
+/**
+ * Replaces the library with the result of a scan. Rows for files the scan didn't find
+ * are removed, so the library always mirrors the folder.
+ */
+export function replaceLibraryFiles(
+	files: Array<ScannedLibraryFile>,
+	scannedAt: string,
+): LibraryScanResult | Error {
+	try {
+		return database.transaction((transaction) => {
+			const existingPaths = new Set(
+				transaction
+					.select({ path: libraryFiles.path })
+					.from(libraryFiles)
+					.all()
+					.map((row) => row.path),
+			);
+
+			let addedCount = 0;
+			for (const file of files) {
+				if (!existingPaths.has(file.path)) {
+					addedCount++;
+				}
+
+				transaction
+					.insert(libraryFiles)
+					.values({ ...file, scannedAt })
+					.onConflictDoUpdate({
+						target: libraryFiles.path,
+						set: getUpdatedColumns(file, scannedAt),
+					})
+					.run();
+			}
+
+			const removed = transaction
+				.delete(libraryFiles)
+				.where(ne(libraryFiles.scannedAt, scannedAt))
+				.returning({ id: libraryFiles.id })
+				.all();
+
+			return { fileCount: files.length, addedCount, removedCount: removed.length };
+		});
+	} catch (error) {
+		console.error("[library.repository] replaceLibraryFiles failed:", error);
+		return new Error("Failed to save library scan");
+	}
+}
+
+export function deleteLibraryFile(id: number) {
+	try {
+		const deleted = database
+			.delete(libraryFiles)
+			.where(eq(libraryFiles.id, id))
+			.returning({ id: libraryFiles.id })
+			.all();
+
+		return deleted.length > 0;
+	} catch (error) {
+		console.error("[library.repository] deleteLibraryFile failed:", error);
+		return new Error("Failed to delete library file");
+	}
+}
@@ -0,0 +1,44 @@
+export type LibraryFile = {
+	id: number;
+	path: string;
+	channelName: string | null;
+	vodId: string | null;
+	sizeBytes: number;
+	isPartial: boolean;
+	modifiedAt: string;
+	scannedAt: string;
+};
+
+export type ScannedLibraryFile = Omit<LibraryFile, "id" | "scannedAt">;
+
+export type LibraryChannelUsage = {
+	// Null groups files that sit directly in the library folder
+	channelName: string | null;
+	fileCount: number;
+	totalBytes: number;
+};
+
+export type LibraryUsage = {
+	directory: string;
+	fileCount: number;
+	totalBytes: number;
+	// Free space on the library's drive, when the platform reports it
+	freeBytes: number | null;
+	channels: Array<LibraryChannelUsage>;
+};
+
+export type Library = {
+	files: Array<LibraryFile>;
+	usage: LibraryUsage;
+};
+
+export type LibraryScanResult = {
+	fileCount: number;
+	addedCount: number;
+	removedCount: number;
+};
+
+export type RetentionResult = {
+	deletedCount: number;
+	freedBytes: number;
+};
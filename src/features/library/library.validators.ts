@@ -0,0 +1,106 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type {
+	Library,
+	LibraryChannelUsage,
+	LibraryFile,
+	LibraryScanResult,
+	LibraryUsage,
+	RetentionResult,
+} from "./library.types";
+
+export function parseLibraryFileId(value: string) {
+	const id = Number(value);
+
+	if (!Number.isInteger(id) || id <= 0) {
+		return new Error("Library file id must be a positive integer");
+	}
+
+	return id;
+}
+
+function isNullableString(value: unknown) {
+	return value === null || typeof value === "string";
+}
+
+function isLibraryFile(value: unknown): value is LibraryFile {
+	return (
+		isRecord(value) &&
+		typeof value.id === "number" &&
+		typeof value.path === "string" &&
+		isNullableString(value.channelName) &&
+		isNullableString(value.vodId) &&
+		typeof value.sizeBytes === "number" &&
+		typeof value.isPartial === "boolean" &&
+		typeof value.modifiedAt === "string" &&
+		typeof value.scannedAt === "string"
+	);
+}
+
+function isLibraryChannelUsage(value: unknown): value is LibraryChannelUsage {
+	return (
+		isRecord(value) &&
+		isNullableString(value.channelName) &&
+		typeof value.fileCount === "number" &&
+		typeof value.totalBytes === "number"
+	);
+}
+
+function isLibraryUsage(value: unknown): value is LibraryUsage {
+	return (
+		isRecord(value) &&
+		typeof value.directory === "string" &&
+		typeof value.fileCount === "number" &&
+		typeof value.totalBytes === "number" &&
+		(value.freeBytes === null || typeof value.freeBytes === "number") &&
+		Array.isArray(value.channels) &&
+		value.channels.every(isLibraryChannelUsage)
+	);
+}
+
+export function parseLibraryResponse(data: unknown): Library | Error {
+	if (
+		!isRecord(data) ||
+		!Array.isArray(data.files) ||
+		!data.files.every(isLibraryFile) ||
+		!isLibraryUsage(data.usage)
+	) {
+		return new Error("Invalid library response");
+	}
+
+	return { files: data.files, usage: data.usage };
+}
+
+export function parseLibraryScanResponse(data: unknown): LibraryScanResult | Error {
+	if (
+		!isRecord(data) ||
+		!isRecord(data.scan) ||
+		typeof data.scan.fileCount !== "number" ||
+		typeof data.scan.addedCount !== "number" ||
+		typeof data.scan.removedCount !== "number"
+	) {
+		return new Error("Invalid library scan response");
+	}
+
+	return {
+		fileCount: data.scan.fileCount,
+		addedCount: data.scan.addedCount,
+		removedCount: data.scan.removedCount,
+	};
+}
+
+export function parseRetentionResponse(data: unknown): RetentionResult | Error {
+	if (
+		!isRecord(data) ||
+		!isRecord(data.retention) ||
+		typeof data.retention.deletedCount !== "number" ||
+		typeof data.retention.freedBytes !== "number"
+	) {
+		return new Error("Invalid retention response");
+	}
+
+	return {
+		deletedCount: data.retention.deletedCount,
+		freedBytes: data.retention.freedBytes,
+	};
+}
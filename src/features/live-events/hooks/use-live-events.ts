@@ -0,0 +1,187 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+
+import { LIVE_EVENT_TYPES, isLiveEvent } from "@/src/features/live-events/live-events.validators";
+import { useNotificationAlert } from "@/src/features/notifications/hooks/use-notification-alert";
+import { isLiveNotification } from "@/src/features/notifications/notifications.validators";
+import {
+	getChannelDetailsQueryKey,
+	getStreamSessionsQueryKey,
+	QUERY_KEYS,
+} from "@/src/shared/query-keys";
+
+import type { Channel, ChannelDetails, Stream } from "@/src/features/channels/channels.types";
+import type { LiveEvent } from "@/src/features/live-events/live-events.types";
+import type { SidebarChannel } from "@/src/features/sidebar/sidebar.types";
+import type { QueryClient } from "@tanstack/react-query";
+
+type StreamPatch = Partial<Pick<Stream, "title" | "gameName" | "viewerCount">>;
+
+function parseEventData(event: MessageEvent<string>): unknown {
+	try {
+		return JSON.parse(event.data);
+	} catch {
+		return null;
+	}
+}
+
+// Unchanged channels keep their object reference so memoized cards skip re-rendering
+function patchChannels(channels: Array<Channel>, patches: Map<string, StreamPatch>) {
+	let hasChanges = false;
+	const result: Array<Channel> = [];
+
+	for (const channel of channels) {
+		const patch = patches.get(channel.id);
+		if (patch === undefined || channel.stream === null) {
+			result.push(channel);
+			continue;
+		}
+
+		hasChanges = true;
+		result.push({ ...channel, stream: { ...channel.stream, ...patch } });
+	}
+
+	return hasChanges ? result : channels;
+}
+
+function patchSidebarChannels(channels: Array<SidebarChannel>, patches: Map<string, StreamPatch>) {
+	let hasChanges = false;
+	const result: Array<SidebarChannel> = [];
+
+	for (const channel of channels) {
+		const patch = patches.get(channel.id);
+		if (patch === undefined || !channel.isLive) {
+			result.push(channel);
+			continue;
+		}
+
+		hasChanges = true;
+		result.push({
+			...channel,
+			viewerCount: patch.viewerCount ?? channel.viewerCount,
+			gameName: patch.gameName ?? channel.gameName,
+		});
+	}
+
+	return hasChanges ? result : channels;
+}
+
+function applyStreamPatches(queryClient: QueryClient, patches: Map<string, StreamPatch>) {
+	const channels = queryClient.getQueryData<Array<Channel>>(QUERY_KEYS.channels);
+	if (channels !== undefined) {
+		queryClient.setQueryData(QUERY_KEYS.channels, patchChannels(channels, patches));
+	}
+
+	const followedChannels = queryClient.getQueryData<Array<SidebarChannel>>(
+		QUERY_KEYS.followedChannels,
+	);
+	if (followedChannels !== undefined) {
+		queryClient.setQueryData(
+			QUERY_KEYS.followedChannels,
+			patchSidebarChannels(followedChannels, patches),
+		);
+	}
+
+	for (const [channelId, patch] of patches) {
+		const queryKey = getChannelDetailsQueryKey(channelId);
+		const details = queryClient.getQueryData<ChannelDetails>(queryKey);
+
+		if (details !== undefined && details.stream !== null) {
+			queryClient.setQueryData(queryKey, {
+				...details,
+				stream: { ...details.stream, ...patch },
+			});
+		}
+	}
+}
+
+// Going live or offline changes list membership and order, so those refetch instead
+async function invalidateLiveLists(queryClient: QueryClient, channelId: string | null) {
+	const invalidations = [
+		queryClient.invalidateQueries({ queryKey: QUERY_KEYS.channels }),
+		queryClient.invalidateQueries({ queryKey: QUERY_KEYS.followedChannels }),
+	];
+
+	if (channelId !== null) {
+		invalidations.push(
+			queryClient.invalidateQueries({ queryKey: getChannelDetailsQueryKey(channelId) }),
+			queryClient.invalidateQueries({ queryKey: getStreamSessionsQueryKey(channelId) }),
+		);
+	} else {
+		invalidations.push(queryClient.invalidateQueries({ queryKey: QUERY_KEYS.streamSessions }));
+	}
+
+	await Promise.all(invalidations);
+}
+
+function handleLiveEvent(queryClient: QueryClient, event: LiveEvent) {
+	if (event.type === "went-live" || event.type === "went-offline") {
+		void invalidateLiveLists(queryClient, event.channelId);
+		return;
+	}
+
+	const patches = new Map<string, StreamPatch>();
+
+	if (event.type === "title-changed") {
+		patches.set(event.channelId, { title: event.title });
+	} else if (event.type === "game-changed") {
+		patches.set(event.channelId, { gameName: event.gameName });
+	} else {
+		for (const update of event.viewers) {
+			patches.set(update.channelId, { viewerCount: update.viewerCount });
+		}
+	}
+
+	applyStreamPatches(queryClient, patches);
+}
+
+/**
+ * Keeps the live channel caches current from the server's event stream, which replaces
+ * per-query polling. Go-live notifications arrive on the same connection.
+ */
+export function useLiveEvents() {
+	const queryClient = useQueryClient();
+	const showNotificationAlert = useNotificationAlert();
+
+	useEffect(() => {
+		const eventSource = new EventSource("/api/events");
+		let hasConnected = false;
+
+		function handleOpen() {
+			// Events sent while reconnecting are lost, so catch up with a refetch
+			if (hasConnected) {
+				void invalidateLiveLists(queryClient, null);
+			}
+			hasConnected = true;
+		}
+
+		function handleEvent(event: MessageEvent<string>) {
+			const data = parseEventData(event);
+			if (isLiveEvent(data)) {
+				handleLiveEvent(queryClient, data);
+			}
+		}
+
+		function handleNotification(event: MessageEvent<string>) {
+			const data = parseEventData(event);
+			if (isLiveNotification(data)) {
+				showNotificationAlert(data);
+			}
+		}
+
+		eventSource.addEventListener("open", handleOpen);
+		eventSource.addEventListener("notification", handleNotification);
+		for (const type of LIVE_EVENT_TYPES) {
+			eventSource.addEventListener(type, handleEvent);
+		}
+
+		return () => {
+			eventSource.removeEventListener("open", handleOpen);
+			eventSource.removeEventListener("notification", handleNotification);
+			for (const type of LIVE_EVENT_TYPES) {
+				eventSource.removeEventListener(type, handleEvent);
+			}
+			eventSource.close();
+		};
+	}, [queryClient, showNotificationAlert]);
+}
@@ -0,0 +1,16 @@
+import type { Stream } from "@/src/features/channels/channels.types";
+
+export type ViewerCountUpdate = {
+	channelId: string;
+	viewerCount: number;
+};
+
+export type LiveEvent =
+	| { type: "went-live"; channelId: string; channelName: string; stream: Stream }
+	| { type: "went-offline"; channelId: string }
+	| { type: "title-changed"; channelId: string; title: string }
+	| { type: "game-changed"; channelId: string; gameName: string }
+	// Batched so a poll sends one event instead of one per live channel
+	| { type: "viewers-updated"; viewers: Array<ViewerCountUpdate> };
+
+export type LiveEventType = LiveEvent["type"];
@@ -0,0 +1,48 @@
+import { isStream } from "@/src/features/channels/channels.validators";
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { LiveEvent, LiveEventType, ViewerCountUpdate } from "./live-events.types";
+
+export const LIVE_EVENT_TYPES: Array<LiveEventType> = [
+	"went-live",
+	"went-offline",
+	"title-changed",
+	"game-changed",
+	"viewers-updated",
+];
+
+function isViewerCountUpdate(value: unknown): value is ViewerCountUpdate {
+	return (
+		isRecord(value) &&
+		typeof value.channelId === "string" &&
+		typeof value.viewerCount === "number"
+	);
+}
+
+export function isLiveEvent(value: unknown): value is LiveEvent {
+	if (!isRecord(value)) {
+		return false;
+	}
+
+	if (value.type === "viewers-updated") {
+		return Array.isArray(value.viewers) && value.viewers.every(isViewerCountUpdate);
+	}
+
+	if (typeof value.channelId !== "string") {
+		return false;
+	}
+
+	if (value.type === "went-live") {
+		return typeof value.channelName === "string" && isStream(value.stream);
+	}
+
+	if (value.type === "title-changed") {
+		return typeof value.title === "string";
+	}
+
+	if (value.type === "game-changed") {
+		return typeof value.gameName === "string";
+	}
+
+	return value.type === "went-offline";
+}
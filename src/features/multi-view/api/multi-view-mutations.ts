@@ -0,0 +1,59 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+import { JSON_HEADERS } from "@/src/shared/utils/http";
+
+import { parseMultiViewLaunchResponse } from "../multi-view.validators";
+
+import type { LayoutPresetInput, ScreenSize } from "../multi-view.types";
+
+export async function watchMultiView({
+	channels,
+	presetId,
+	screen,
+	profileId,
+}: {
+	channels: Array<string>;
+	presetId: number;
+	screen: ScreenSize;
+	profileId: number | null;
+}) {
+	const response = await fetch("/api/watch/multi", {
+		method: "POST",
+		headers: JSON_HEADERS,
+		body: JSON.stringify({ channels, presetId, screen, profileId }),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to launch multi-view");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseMultiViewLaunchResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
+
+export async function createLayoutPresetApi(input: LayoutPresetInput) {
+	const response = await fetch("/api/layout-presets", {
+		method: "POST",
+		headers: JSON_HEADERS,
+		body: JSON.stringify(input),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to create layout preset");
+		throw new Error(message);
+	}
+}
+
+export async function deleteLayoutPresetApi(id: number) {
+	const response = await fetch(`/api/layout-presets/${id}`, { method: "DELETE" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to delete layout preset");
+		throw new Error(message);
+	}
+}
@@ -0,0 +1,20 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseLayoutPresetsResponse } from "../multi-view.validators";
+
+export async function fetchLayoutPresets() {
+	const response = await fetch("/api/layout-presets");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch layout presets");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseLayoutPresetsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
@@ -0,0 +1,175 @@
+import { memo, useState } from "react";
+
+import { LayoutPreview } from "@/src/features/multi-view/components/layout-preview";
+import {
+	MAX_MULTI_VIEW_CHANNELS,
+	MIN_MULTI_VIEW_CHANNELS,
+} from "@/src/features/multi-view/multi-view.validators";
+
+import type { LayoutPresetInput, LayoutSlot } from "@/src/features/multi-view/multi-view.types";
+
+type LayoutPresetFormProps = {
+	initialValues: LayoutPresetInput;
+	isSubmitting: boolean;
+	errorMessage: string | null;
+	onSubmit: (input: LayoutPresetInput) => void;
+	onCancel: () => void;
+};
+
+type SlotField = keyof LayoutSlot;
+
+const SLOT_FIELDS: Array<{ field: SlotField; label: string }> = [
+	{ field: "x", label: "Left %" },
+	{ field: "y", label: "Top %" },
+	{ field: "width", label: "Width %" },
+	{ field: "height", label: "Height %" },
+];
+
+const INPUT_CLASS_NAME =
+	"w-full rounded border border-surface-border-muted bg-surface-elevated px-2 py-1.5 text-sm text-text-primary placeholder:text-text-dim focus:border-twitch-purple focus:outline-none";
+
+const LABEL_CLASS_NAME = "mb-1 block text-xs text-text-muted";
+
+function updateSlot(slots: Array<LayoutSlot>, index: number, field: SlotField, value: number) {
+	const updated: Array<LayoutSlot> = [];
+	for (let slotIndex = 0; slotIndex < slots.length; slotIndex++) {
+		const slot = slots[slotIndex];
+		if (slot === undefined) {
+			continue;
+		}
+		updated.push(slotIndex === index ? { ...slot, [field]: value } : slot);
+	}
+	return updated;
+}
+
+const LayoutPresetForm = memo(function LayoutPresetForm({
+	initialValues,
+	isSubmitting,
+	errorMessage,
+	onSubmit,
+	onCancel,
+}: LayoutPresetFormProps) {
+	const [name, setName] = useState(initialValues.name);
+	const [slots, setSlots] = useState(initialValues.slots);
+
+	function handleSlotChange(index: number, field: SlotField, value: string) {
+		const parsed = Number(value);
+		if (Number.isFinite(parsed)) {
+			setSlots((previous) => updateSlot(previous, index, field, parsed));
+		}
+	}
+
+	function handleAddSlot() {
+		setSlots((previous) => [...previous, { x: 0, y: 0, width: 50, height: 50 }]);
+	}
+
+	function handleRemoveSlot() {
+		setSlots((previous) => previous.slice(0, -1));
+	}
+
+	function handleSubmit(event: React.FormEvent) {
+		event.preventDefault();
+		onSubmit({ name: name.trim(), slots });
+	}
+
+	return (
+		<form
+			onSubmit={handleSubmit}
+			className="grid grid-cols-1 gap-4 rounded-lg border border-surface-border-muted bg-surface-card p-4 md:grid-cols-[1fr_200px]"
+		>
+			<div className="flex flex-col gap-3">
+				<div>
+					<label htmlFor="layout-preset-name" className={LABEL_CLASS_NAME}>
+						Name
+					</label>
+					<input
+						id="layout-preset-name"
+						type="text"
+						value={name}
+						onChange={(event) => setName(event.target.value)}
+						placeholder="Ultrawide 3-up"
+						className={INPUT_CLASS_NAME}
+						required
+					/>
+				</div>
+
+				{slots.map((slot, index) => (
+					<fieldset
+						key={index}
+						className="grid grid-cols-[auto_repeat(4,1fr)] items-end gap-2"
+					>
+						<legend className="sr-only">Window {index + 1}</legend>
+						<span className="pb-2 text-xs font-semibold text-text-muted">
+							{index === 0 ? "1 (audio)" : index + 1}
+						</span>
+						{SLOT_FIELDS.map(({ field, label }) => (
+							<div key={field}>
+								<label
+									htmlFor={`layout-slot-${index}-${field}`}
+									className={LABEL_CLASS_NAME}
+								>
+									{label}
+								</label>
+								<input
+									id={`layout-slot-${index}-${field}`}
+									type="number"
+									min={0}
+									max={100}
+									value={slot[field]}
+									onChange={(event) =>
+										handleSlotChange(index, field, event.target.value)
+									}
+									className={INPUT_CLASS_NAME}
+								/>
+							</div>
+						))}
+					</fieldset>
+				))}
+
+				<div className="flex gap-2">
+					<button
+						type="button"
+						onClick={handleAddSlot}
+						disabled={slots.length >= MAX_MULTI_VIEW_CHANNELS}
+						className="rounded-md px-3 py-1.5 text-xs font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary enabled:cursor-pointer disabled:opacity-50"
+					>
+						Add window
+					</button>
+					<button
+						type="button"
+						onClick={handleRemoveSlot}
+						disabled={slots.length <= MIN_MULTI_VIEW_CHANNELS}
+						className="rounded-md px-3 py-1.5 text-xs font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary enabled:cursor-pointer disabled:opacity-50"
+					>
+						Remove window
+					</button>
+				</div>
+			</div>
+
+			<LayoutPreview slots={slots} />
+
+			{errorMessage !== null && (
+				<p className="text-sm text-live md:col-span-2">{errorMessage}</p>
+			)}
+
+			<div className="flex gap-2 md:col-span-2">
+				<button
+					type="submit"
+					disabled={isSubmitting}
+					className="rounded bg-twitch-purple px-4 py-2 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover enabled:cursor-pointer disabled:opacity-50"
+				>
+					Create
+				</button>
+				<button
+					type="button"
+					onClick={onCancel}
+					className="rounded border border-surface-border-muted bg-surface-elevated px-4 py-2 text-sm font-semibold text-text-muted transition-all hover:text-text-primary cursor-pointer"
+				>
+					Cancel
+				</button>
+			</div>
+		</form>
+	);
+});
+
+export { LayoutPresetForm };
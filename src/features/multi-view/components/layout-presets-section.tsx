@@ -0,0 +1,124 @@
+import { memo, useState } from "react";
+
+import { LayoutPresetForm } from "@/src/features/multi-view/components/layout-preset-form";
+import { LayoutPreview } from "@/src/features/multi-view/components/layout-preview";
+import {
+	useCreateLayoutPreset,
+	useDeleteLayoutPreset,
+	useLayoutPresets,
+} from "@/src/features/multi-view/hooks/use-multi-view";
+import { PlusIcon } from "@/src/shared/components/icons";
+
+import type { LayoutPreset, LayoutPresetInput } from "@/src/features/multi-view/multi-view.types";
+
+const NEW_PRESET_VALUES: LayoutPresetInput = {
+	name: "",
+	slots: [
+		{ x: 0, y: 0, width: 50, height: 100 },
+		{ x: 50, y: 0, width: 50, height: 100 },
+	],
+};
+
+function getMutationErrorMessage(error: Error | null) {
+	if (error === null) {
+		return null;
+	}
+	return error.message;
+}
+
+const LayoutPresetsSection = memo(function LayoutPresetsSection() {
+	const [isCreating, setIsCreating] = useState(false);
+
+	const { presets, isLoading, error } = useLayoutPresets();
+	const createMutation = useCreateLayoutPreset();
+	const deleteMutation = useDeleteLayoutPreset();
+
+	function handleCreate(input: LayoutPresetInput) {
+		createMutation.mutate(input, {
+			onSuccess: () => setIsCreating(false),
+		});
+	}
+
+	function handleDelete(preset: LayoutPreset) {
+		if (!window.confirm(`Delete the "${preset.name}" layout preset?`)) {
+			return;
+		}
+
+		deleteMutation.mutate(preset.id);
+	}
+
+	function handleCancel() {
+		createMutation.reset();
+		setIsCreating(false);
+	}
+
+	return (
+		<section className="mb-8">
+			<div className="mb-4 flex items-center justify-between">
+				<div>
+					<h3 className="text-lg font-semibold">Multi-view Layouts</h3>
+					<p className="text-xs text-text-dim">
+						Window 1 is the primary stream and the only one with audio. Positioning
+						works with VLC and mpv profiles.
+					</p>
+				</div>
+				{!isCreating && (
+					<button
+						type="button"
+						onClick={() => setIsCreating(true)}
+						className="flex items-center gap-2 rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2 text-sm font-semibold text-text-primary transition-all hover:border-twitch-purple hover:bg-twitch-purple cursor-pointer"
+					>
+						<PlusIcon className="h-4 w-4" />
+						Add layout
+					</button>
+				)}
+			</div>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading layouts...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{isCreating && (
+				<div className="mb-4">
+					<LayoutPresetForm
+						initialValues={NEW_PRESET_VALUES}
+						isSubmitting={createMutation.isPending}
+						errorMessage={getMutationErrorMessage(createMutation.error)}
+						onSubmit={handleCreate}
+						onCancel={handleCancel}
+					/>
+				</div>
+			)}
+
+			{deleteMutation.error !== null && (
+				<p className="mb-3 text-sm text-live">{deleteMutation.error.message}</p>
+			)}
+
+			<ul className="grid grid-cols-2 gap-3 md:grid-cols-4">
+				{presets.map((preset) => (
+					<li
+						key={preset.id}
+						className="flex flex-col gap-2 rounded-lg border border-surface-border-muted bg-surface-card p-3"
+					>
+						<LayoutPreview slots={preset.slots} />
+						<div className="flex items-center justify-between gap-2">
+							<span className="truncate text-sm font-semibold text-text-primary">
+								{preset.name}
+							</span>
+							<button
+								type="button"
+								onClick={() => handleDelete(preset)}
+								disabled={deleteMutation.isPending}
+								className="rounded-md px-2 py-1 text-xs font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-live enabled:cursor-pointer disabled:opacity-50"
+							>
+								Delete
+							</button>
+						</div>
+					</li>
+				))}
+			</ul>
+		</section>
+	);
+});
+
+export { LayoutPresetsSection };
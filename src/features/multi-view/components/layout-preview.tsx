@@ -0,0 +1,46 @@
+import { memo } from "react";
+
+import type { LayoutSlot } from "@/src/features/multi-view/multi-view.types";
+
+type LayoutPreviewProps = {
+	slots: Array<LayoutSlot>;
+	className?: string;
+};
+
+// Slot geometry is user-defined, so it can only be expressed as inline styles
+function getSlotStyle(slot: LayoutSlot) {
+	return {
+		left: `${slot.x}%`,
+		top: `${slot.y}%`,
+		width: `${slot.width}%`,
+		height: `${slot.height}%`,
+	};
+}
+
+const LayoutPreview = memo(function LayoutPreview({ slots, className = "" }: LayoutPreviewProps) {
+	return (
+		<div
+			className={`relative aspect-video rounded border border-surface-border-muted bg-surface-elevated ${className}`}
+		>
+			{slots.map((slot, index) => (
+				<div
+					key={index}
+					style={getSlotStyle(slot)}
+					className="absolute flex items-center justify-center p-px"
+				>
+					<span
+						className={`flex h-full w-full items-center justify-center rounded-sm text-[10px] font-semibold ${
+							index === 0
+								? "bg-twitch-purple text-white"
+								: "bg-surface-border-muted text-text-muted"
+						}`}
+					>
+						{index + 1}
+					</span>
+				</div>
+			))}
+		</div>
+	);
+});
+
+export { LayoutPreview };
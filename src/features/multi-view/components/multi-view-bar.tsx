@@ -0,0 +1,209 @@
+import { memo, useState } from "react";
+
+import {
+	useLayoutPresets,
+	useWatchMultiView,
+} from "@/src/features/multi-view/hooks/use-multi-view";
+import {
+	MAX_MULTI_VIEW_CHANNELS,
+	MIN_MULTI_VIEW_CHANNELS,
+} from "@/src/features/multi-view/multi-view.validators";
+import { XMarkIcon } from "@/src/shared/components/icons";
+import { useMultiView } from "@/src/shared/context/multi-view-context";
+
+import type {
+	LayoutPreset,
+	MultiViewLaunchResponse,
+} from "@/src/features/multi-view/multi-view.types";
+
+function getFittingPresets(presets: Array<LayoutPreset>, channelCount: number) {
+	const fitting: Array<LayoutPreset> = [];
+	for (const preset of presets) {
+		if (preset.slots.length >= channelCount) {
+			fitting.push(preset);
+		}
+	}
+	return fitting;
+}
+
+// Falls back to the first fitting preset when the chosen one no longer has room
+function getActivePreset(fittingPresets: Array<LayoutPreset>, selectedPresetId: number | null) {
+	for (const preset of fittingPresets) {
+		if (preset.id === selectedPresetId) {
+			return preset;
+		}
+	}
+	return fittingPresets[0] ?? null;
+}
+
+function getFailureMessage(result: MultiViewLaunchResponse) {
+	if (result.failures.length === 0) {
+		return null;
+	}
+
+	const channels: Array<string> = [];
+	for (const failure of result.failures) {
+		channels.push(failure.channel);
+	}
+
+	return `Failed to launch: ${channels.join(", ")}`;
+}
+
+function getChipClassName(isPrimary: boolean) {
+	const base = "flex items-center gap-1.5 rounded-md border px-2.5 py-1.5 text-sm transition-all";
+
+	if (isPrimary) {
+		return `${base} border-twitch-purple bg-twitch-purple/20 text-text-primary`;
+	}
+
+	return `${base} border-surface-border-muted bg-surface-elevated text-text-muted hover:text-text-primary cursor-pointer`;
+}
+
+type ChannelChipProps = {
+	channelName: string;
+	isPrimary: boolean;
+	onMakePrimary: (channelName: string) => void;
+	onRemove: (channelName: string) => void;
+};
+
+const ChannelChip = memo(function ChannelChip({
+	channelName,
+	isPrimary,
+	onMakePrimary,
+	onRemove,
+}: ChannelChipProps) {
+	return (
+		<li className={getChipClassName(isPrimary)}>
+			<button
+				type="button"
+				onClick={() => onMakePrimary(channelName)}
+				disabled={isPrimary}
+				title={isPrimary ? "Primary stream (audio on)" : "Make primary (audio on)"}
+				className="enabled:cursor-pointer"
+			>
+				{channelName}
+				{isPrimary && (
+					<span className="ml-1.5 text-xs text-twitch-purple-light">Audio</span>
+				)}
+			</button>
+			<button
+				type="button"
+				onClick={() => onRemove(channelName)}
+				aria-label={`Remove ${channelName} from multi-view`}
+				className="text-text-dim hover:text-text-primary cursor-pointer"
+			>
+				<XMarkIcon className="w-4 h-4" />
+			</button>
+		</li>
+	);
+});
+
+const MultiViewBar = memo(function MultiViewBar() {
+	const { selectedChannels, toggleChannel, makePrimary, clearSelection } = useMultiView();
+	const { presets } = useLayoutPresets();
+	const watchMultiViewMutation = useWatchMultiView();
+	const [selectedPresetId, setSelectedPresetId] = useState<number | null>(null);
+	const [failureMessage, setFailureMessage] = useState<string | null>(null);
+
+	if (selectedChannels.length === 0) {
+		return null;
+	}
+
+	const fittingPresets = getFittingPresets(presets, selectedChannels.length);
+	const activePreset = getActivePreset(fittingPresets, selectedPresetId);
+	const hasEnoughChannels = selectedChannels.length >= MIN_MULTI_VIEW_CHANNELS;
+	const canLaunch =
+		hasEnoughChannels && activePreset !== null && !watchMultiViewMutation.isPending;
+
+	let statusMessage = failureMessage;
+	if (watchMultiViewMutation.error !== null) {
+		statusMessage = watchMultiViewMutation.error.message;
+	} else if (!hasEnoughChannels) {
+		statusMessage = `Select ${MIN_MULTI_VIEW_CHANNELS}-${MAX_MULTI_VIEW_CHANNELS} live channels`;
+	}
+
+	function handlePresetChange(event: React.ChangeEvent<HTMLSelectElement>) {
+		setSelectedPresetId(Number(event.target.value));
+	}
+
+	function handleLaunch() {
+		if (!canLaunch || activePreset === null) {
+			return;
+		}
+
+		setFailureMessage(null);
+		watchMultiViewMutation.mutate(
+			{ channels: selectedChannels, presetId: activePreset.id },
+			{
+				onSuccess: (result) => {
+					setFailureMessage(getFailureMessage(result));
+					if (result.failures.length === 0) {
+						clearSelection();
+					}
+				},
+			},
+		);
+	}
+
+	// The spacer keeps the bottom of the page reachable while the bar is shown
+	return (
+		<>
+			<div className="h-20" />
+			<div className="fixed bottom-0 left-0 right-0 z-40 border-t border-surface-border bg-surface-card/95 backdrop-blur px-6 py-3">
+				<div className="max-w-7xl mx-auto flex flex-wrap items-center gap-3">
+					<span className="text-sm font-semibold text-text-primary">Multi-view</span>
+
+					<ul className="flex flex-wrap items-center gap-2">
+						{selectedChannels.map((channelName, index) => (
+							<ChannelChip
+								key={channelName}
+								channelName={channelName}
+								isPrimary={index === 0}
+								onMakePrimary={makePrimary}
+								onRemove={toggleChannel}
+							/>
+						))}
+					</ul>
+
+					{statusMessage !== null && (
+						<span className="text-sm text-text-dim">{statusMessage}</span>
+					)}
+
+					<div className="ml-auto flex items-center gap-2">
+						<select
+							value={activePreset?.id ?? ""}
+							onChange={handlePresetChange}
+							disabled={fittingPresets.length === 0}
+							aria-label="Layout preset"
+							title="Layout preset"
+							className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2 text-sm text-text-primary focus:border-twitch-purple focus:outline-none enabled:cursor-pointer disabled:opacity-50"
+						>
+							{fittingPresets.map((preset) => (
+								<option key={preset.id} value={preset.id}>
+									{preset.name}
+								</option>
+							))}
+						</select>
+						<button
+							type="button"
+							onClick={clearSelection}
+							className="px-4 py-2 rounded-md text-sm font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary cursor-pointer"
+						>
+							Clear
+						</button>
+						<button
+							type="button"
+							onClick={handleLaunch}
+							disabled={!canLaunch}
+							className="px-4 py-2 rounded-md bg-twitch-purple text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover enabled:cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+						>
+							{watchMultiViewMutation.isPending ? "Launching..." : "Launch"}
+						</button>
+					</div>
+				</div>
+			</div>
+		</>
+	);
+});
+
+export { MultiViewBar };
@@ -0,0 +1,77 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import {
+	createLayoutPresetApi,
+	deleteLayoutPresetApi,
+	watchMultiView,
+} from "@/src/features/multi-view/api/multi-view-mutations";
+import { fetchLayoutPresets } from "@/src/features/multi-view/api/multi-view-queries";
+import { usePlayerProfileSelection } from "@/src/shared/context/player-profile-context";
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+import type { LayoutPreset } from "@/src/features/multi-view/multi-view.types";
+
+const EMPTY_PRESETS: Array<LayoutPreset> = [];
+
+type WatchMultiViewVariables = {
+	channels: Array<string>;
+	presetId: number;
+};
+
+// The browser knows the screen the player windows should be tiled across; the server doesn't
+function getScreenSize() {
+	return { width: window.screen.availWidth, height: window.screen.availHeight };
+}
+
+export function useLayoutPresets() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.layoutPresets,
+		queryFn: fetchLayoutPresets,
+		staleTime: 5 * 60 * 1000,
+	});
+
+	return {
+		presets: data ?? EMPTY_PRESETS,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+function useLayoutPresetsMutation<TVariables>(
+	mutationFn: (variables: TVariables) => Promise<void>,
+) {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn,
+		onSettled: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.layoutPresets });
+		},
+	});
+}
+
+export function useCreateLayoutPreset() {
+	return useLayoutPresetsMutation(createLayoutPresetApi);
+}
+
+export function useDeleteLayoutPreset() {
+	return useLayoutPresetsMutation(deleteLayoutPresetApi);
+}
+
+export function useWatchMultiView() {
+	const { selectedProfileId } = usePlayerProfileSelection();
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: ({ channels, presetId }: WatchMultiViewVariables) =>
+			watchMultiView({
+				channels,
+				presetId,
+				screen: getScreenSize(),
+				profileId: selectedProfileId,
+			}),
+		onSuccess: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.sessions });
+		},
+	});
+}
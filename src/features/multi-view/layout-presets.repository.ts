@@ -0,0 +1,151 @@
+import { asc, eq, sql } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { layoutPresets } from "@/src/db/schema";
+
+import { parseLayoutSlots } from "./multi-view.validators";
+
+import type { LayoutPreset, LayoutPresetInput } from "./multi-view.types";
+
+const LAYOUT_PRESET_COLUMNS = {
+	id: layoutPresets.id,
+	name: layoutPresets.name,
+	slots: layoutPresets.slots,
+};
+
+type LayoutPresetRow = {
+	id: number;
+	name: string;
+	slots: string;
+};
+
+function toLayoutPreset(row: LayoutPresetRow): LayoutPreset | Error {
+	let slotsValue: unknown;
+
+	try {
+		slotsValue = JSON.parse(row.slots);
+	} catch {
+		return new Error(`Layout preset "${row.name}" has invalid slots`);
+	}
+
+	const slots = parseLayoutSlots(slotsValue);
+	if (slots instanceof Error) {
+		return new Error(`Layout preset "${row.name}" has invalid slots: ${slots.message}`);
+	}
+
+	return { id: row.id, name: row.name, slots };
+}
+
+export function getAllLayoutPresets() {
+	try {
+		const rows = database
+			.select(LAYOUT_PRESET_COLUMNS)
+			.from(layoutPresets)
+			.orderBy(asc(layoutPresets.id))
+			.all();
+
+		const presets: Array<LayoutPreset> = [];
+		for (const row of rows) {
+			const preset = toLayoutPreset(row);
+			if (preset instanceof Error) {
+				// Skip a corrupted row rather than hiding every preset
+				console.warn("[layout-presets.repository]", preset.message);
+				continue;
+			}
+			presets.push(preset);
+		}
+
+		return presets;
+	} catch (error) {
+		console.error("[layout-presets.repository] getAllLayoutPresets failed:", error);
+		return new Error("Failed to get layout presets");
+	}
+}
+
+export function getLayoutPresetById(id: number) {
+	try {
+		const row = database
+			.select(LAYOUT_PRESET_COLUMNS)
+			.from(layoutPresets)
+			.where(eq(layoutPresets.id, id))
+			.get();
+
+		if (row === undefined) {
+			return null;
+		}
+
+		return toLayoutPreset(row);
+	} catch (error) {
+		console.error("[layout-presets.repository] getLayoutPresetById failed:", error);
+		return new Error("Failed to get layout preset");
+	}
+}
+
+export function getLayoutPresetByName(name: string) {
+	try {
+		const row = database
+			.select({ id: layoutPresets.id })
+			.from(layoutPresets)
+			.where(eq(layoutPresets.name, name))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[layout-presets.repository] getLayoutPresetByName failed:", error);
+		return new Error("Failed to get layout preset");
+	}
+}
+
+export function createLayoutPreset(input: LayoutPresetInput) {
+	try {
+		const row = database
+			.insert(layoutPresets)
+			.values({ name: input.name, slots: JSON.stringify(input.slots) })
+			.returning({ id: layoutPresets.id })
+			.get();
+
+		return { id: row.id, name: input.name, slots: input.slots };
+	} catch (error) {
+		console.error("[layout-presets.repository] createLayoutPreset failed:", error);
+		return new Error("Failed to create layout preset");
+	}
+}
+
+export function updateLayoutPreset(id: number, input: LayoutPresetInput) {
+	try {
+		const row = database
+			.update(layoutPresets)
+			.set({
+				name: input.name,
+				slots: JSON.stringify(input.slots),
+				updatedAt: sql`CURRENT_TIMESTAMP`,
+			})
+			.where(eq(layoutPresets.id, id))
+			.returning({ id: layoutPresets.id })
+			.get();
+
+		if (row === undefined) {
+			return null;
+		}
+
+		return { id: row.id, name: input.name, slots: input.slots };
+	} catch (error) {
+		console.error("[layout-presets.repository] updateLayoutPreset failed:", error);
+		return new Error("Failed to update layout preset");
+	}
+}
+
+export function deleteLayoutPreset(id: number) {
+	try {
+		const deleted = database
+			.delete(layoutPresets)
+			.where(eq(layoutPresets.id, id))
+			.returning({ id: layoutPresets.id })
+			.all();
+
+		return deleted.length > 0;
+	} catch (error) {
+		console.error("[layout-presets.repository] deleteLayoutPreset failed:", error);
+		return new Error("Failed to delete layout preset");
+	}
+}
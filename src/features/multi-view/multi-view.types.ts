@@ -0,0 +1,52 @@
+import type { PlayerSession } from "@/src/features/sessions/sessions.types";
+
+// Window position and size, each as a percentage of the screen
+export type LayoutSlot = {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+};
+
+export type LayoutPreset = {
+	id: number;
+	name: string;
+	slots: Array<LayoutSlot>;
+};
+
+export type LayoutPresetInput = {
+	name: string;
+	slots: Array<LayoutSlot>;
+};
+
+export type ScreenSize = {
+	width: number;
+	height: number;
+};
+
+// Pixel geometry for one player window
+export type PlayerWindow = {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	muted: boolean;
+};
+
+export type MultiViewRequest = {
+	channels: Array<string>;
+	presetId: number;
+	screen: ScreenSize;
+	profileId: number | null;
+	quality: string | null;
+};
+
+export type MultiViewLaunchFailure = {
+	channel: string;
+	error: string;
+};
+
+export type MultiViewLaunchResponse = {
+	sessions: Array<PlayerSession>;
+	failures: Array<MultiViewLaunchFailure>;
+};
@@ -0,0 +1,245 @@
+import { parseWatchProfileId } from "@/src/features/player-profiles/player-profiles.validators";
+import { isPlayerSession } from "@/src/features/sessions/sessions.validators";
+import { parseWatchQuality } from "@/src/shared/utils/stream-quality";
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { PlayerSession } from "@/src/features/sessions/sessions.types";
+
+import type {
+	LayoutPreset,
+	LayoutPresetInput,
+	LayoutSlot,
+	MultiViewLaunchFailure,
+	MultiViewLaunchResponse,
+	MultiViewRequest,
+	ScreenSize,
+} from "./multi-view.types";
+
+const MAX_NAME_LENGTH = 50;
+const MAX_SCREEN_DIMENSION = 16384;
+const CHANNEL_NAME_PATTERN = /^[a-zA-Z0-9_]{1,25}$/;
+
+export const MIN_MULTI_VIEW_CHANNELS = 2;
+export const MAX_MULTI_VIEW_CHANNELS = 4;
+
+function isPercentage(value: unknown): value is number {
+	return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 100;
+}
+
+function parseLayoutSlot(value: unknown, index: number): LayoutSlot | Error {
+	if (!isRecord(value)) {
+		return new Error(`slots[${index}] must be an object`);
+	}
+
+	const { x, y, width, height } = value;
+
+	if (!isPercentage(x) || !isPercentage(y) || !isPercentage(width) || !isPercentage(height)) {
+		return new Error(`slots[${index}] values must be percentages between 0 and 100`);
+	}
+
+	if (width === 0 || height === 0) {
+		return new Error(`slots[${index}] must have a non-zero width and height`);
+	}
+
+	if (x + width > 100 || y + height > 100) {
+		return new Error(`slots[${index}] must fit within the screen`);
+	}
+
+	return { x, y, width, height };
+}
+
+export function parseLayoutSlots(value: unknown): Array<LayoutSlot> | Error {
+	if (!Array.isArray(value)) {
+		return new Error("slots must be an array");
+	}
+
+	if (value.length < MIN_MULTI_VIEW_CHANNELS || value.length > MAX_MULTI_VIEW_CHANNELS) {
+		return new Error(
+			`slots must contain between ${MIN_MULTI_VIEW_CHANNELS} and ${MAX_MULTI_VIEW_CHANNELS} entries`,
+		);
+	}
+
+	const slots: Array<LayoutSlot> = [];
+	for (let index = 0; index < value.length; index++) {
+		const slot = parseLayoutSlot(value[index], index);
+		if (slot instanceof Error) {
+			return slot;
+		}
+		slots.push(slot);
+	}
+
+	return slots;
+}
+
+export function parseLayoutPresetId(value: string) {
+	const id = Number(value);
+
+	if (!Number.isInteger(id) || id <= 0) {
+		return new Error("Preset id must be a positive integer");
+	}
+
+	return id;
+}
+
+export function validateLayoutPresetRequest(body: unknown): LayoutPresetInput | Error {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	if (typeof body.name !== "string" || body.name.trim().length === 0) {
+		return new Error("name is required and must be a non-empty string");
+	}
+
+	const name = body.name.trim();
+
+	if (name.length > MAX_NAME_LENGTH) {
+		return new Error(`name must not exceed ${MAX_NAME_LENGTH} characters`);
+	}
+
+	const slots = parseLayoutSlots(body.slots);
+	if (slots instanceof Error) {
+		return slots;
+	}
+
+	return { name, slots };
+}
+
+function isScreenDimension(value: unknown): value is number {
+	return (
+		typeof value === "number" &&
+		Number.isInteger(value) &&
+		value > 0 &&
+		value <= MAX_SCREEN_DIMENSION
+	);
+}
+
+function parseScreenSize(value: unknown): ScreenSize | Error {
+	if (!isRecord(value) || !isScreenDimension(value.width) || !isScreenDimension(value.height)) {
+		return new Error(`screen must have integer width and height up to ${MAX_SCREEN_DIMENSION}`);
+	}
+
+	return { width: value.width, height: value.height };
+}
+
+function parseMultiViewChannels(value: unknown): Array<string> | Error {
+	if (!Array.isArray(value)) {
+		return new Error("channels must be an array");
+	}
+
+	if (value.length < MIN_MULTI_VIEW_CHANNELS || value.length > MAX_MULTI_VIEW_CHANNELS) {
+		return new Error(
+			`channels must contain between ${MIN_MULTI_VIEW_CHANNELS} and ${MAX_MULTI_VIEW_CHANNELS} entries`,
+		);
+	}
+
+	const channels: Array<string> = [];
+	const seen = new Set<string>();
+
+	for (const channel of value) {
+		if (typeof channel !== "string" || !CHANNEL_NAME_PATTERN.test(channel)) {
+			return new Error("channels must contain valid Twitch channel names");
+		}
+
+		const normalized = channel.toLowerCase();
+		if (seen.has(normalized)) {
+			return new Error(`Channel "${channel}" is listed more than once`);
+		}
+
+		seen.add(normalized);
+		channels.push(channel);
+	}
+
+	return channels;
+}
+
+/**
+ * The first channel in the list is the primary stream: it gets the first slot of the
+ * preset and is the only one launched with audio.
+ */
+export function validateMultiViewRequest(body: unknown): MultiViewRequest | Error {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	const channels = parseMultiViewChannels(body.channels);
+	if (channels instanceof Error) {
+		return channels;
+	}
+
+	if (typeof body.presetId !== "number" || !Number.isInteger(body.presetId)) {
+		return new Error("presetId must be an integer");
+	}
+
+	const screen = parseScreenSize(body.screen);
+	if (screen instanceof Error) {
+		return screen;
+	}
+
+	const profileId = parseWatchProfileId(body);
+	if (profileId instanceof Error) {
+		return profileId;
+	}
+
+	const quality = parseWatchQuality(body);
+	if (quality instanceof Error) {
+		return quality;
+	}
+
+	return { channels, presetId: body.presetId, screen, profileId, quality };
+}
+
+function isLayoutPreset(value: unknown): value is LayoutPreset {
+	if (!isRecord(value)) {
+		return false;
+	}
+
+	return (
+		typeof value.id === "number" &&
+		typeof value.name === "string" &&
+		!(parseLayoutSlots(value.slots) instanceof Error)
+	);
+}
+
+export function parseLayoutPresetsResponse(data: unknown): Array<LayoutPreset> | Error {
+	if (!isRecord(data) || !Array.isArray(data.presets)) {
+		return new Error("Invalid layout presets response");
+	}
+
+	const presets: Array<LayoutPreset> = [];
+	for (const preset of data.presets) {
+		if (!isLayoutPreset(preset)) {
+			return new Error("Invalid layout presets response");
+		}
+		presets.push(preset);
+	}
+
+	return presets;
+}
+
+function isMultiViewLaunchFailure(value: unknown): value is MultiViewLaunchFailure {
+	return isRecord(value) && typeof value.channel === "string" && typeof value.error === "string";
+}
+
+export function parseMultiViewLaunchResponse(data: unknown): MultiViewLaunchResponse | Error {
+	if (!isRecord(data) || !Array.isArray(data.sessions) || !Array.isArray(data.failures)) {
+		return new Error("Invalid multi-view response");
+	}
+
+	const sessions: Array<PlayerSession> = [];
+	for (const session of data.sessions) {
+		if (!isPlayerSession(session)) {
+			return new Error("Invalid multi-view response");
+		}
+		sessions.push(session);
+	}
+
+	const failures: Array<MultiViewLaunchFailure> = [];
+	for (const failure of data.failures) {
+		if (!isMultiViewLaunchFailure(failure)) {
+			return new Error("Invalid multi-view response");
+		}
+		failures.push(failure);
+	}
+
+	return { sessions, failures };
+}
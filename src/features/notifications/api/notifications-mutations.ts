@@ -0,0 +1,38 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+import { JSON_HEADERS } from "@/src/shared/utils/http";
+
+import type { NotificationRule } from "../notifications.types";
+
+export async function saveNotificationRuleApi({ channelId, ...input }: NotificationRule) {
+	const response = await fetch(`/api/notifications/rules/${channelId}`, {
+		method: "PUT",
+		headers: JSON_HEADERS,
+		body: JSON.stringify(input),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to save notification rule");
+		throw new Error(message);
+	}
+}
+
+export async function deleteNotificationRuleApi(channelId: string) {
+	const response = await fetch(`/api/notifications/rules/${channelId}`, { method: "DELETE" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(
+			response,
+			"Failed to delete notification rule",
+		);
+		throw new Error(message);
+	}
+}
+
+export async function clearNotificationsApi() {
+	const response = await fetch("/api/notifications", { method: "DELETE" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to clear notifications");
+		throw new Error(message);
+	}
+}
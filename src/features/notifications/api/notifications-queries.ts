@@ -0,0 +1,43 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import {
+	parseNotificationRulesResponse,
+	parseNotificationsResponse,
+} from "../notifications.validators";
+
+export async function fetchNotifications() {
+	const response = await fetch("/api/notifications");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch notifications");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseNotificationsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
+
+export async function fetchNotificationRules() {
+	const response = await fetch("/api/notifications/rules");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(
+			response,
+			"Failed to fetch notification rules",
+		);
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseNotificationRulesResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
@@ -0,0 +1,79 @@
+import { Link } from "@tanstack/react-router";
+import { memo } from "react";
+
+import {
+	useClearNotifications,
+	useNotifications,
+} from "@/src/features/notifications/hooks/use-notifications";
+import { formatDate } from "@/src/shared/utils/format";
+
+const NotificationHistory = memo(function NotificationHistory() {
+	const { notifications, isLoading, error } = useNotifications();
+	const clearMutation = useClearNotifications();
+
+	function handleClear() {
+		if (!window.confirm("Clear the notification history?")) {
+			return;
+		}
+
+		clearMutation.mutate();
+	}
+
+	return (
+		<section className="mb-8">
+			<div className="mb-3 flex items-center justify-between">
+				<h3 className="text-lg font-semibold">History</h3>
+				{notifications.length > 0 && (
+					<button
+						type="button"
+						onClick={handleClear}
+						disabled={clearMutation.isPending}
+						className="rounded-md px-2 py-1 text-xs font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-live enabled:cursor-pointer disabled:opacity-50"
+					>
+						Clear
+					</button>
+				)}
+			</div>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading notifications...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{clearMutation.error !== null && (
+				<p className="mb-3 text-sm text-live">{clearMutation.error.message}</p>
+			)}
+
+			{!isLoading && error === null && notifications.length === 0 && (
+				<p className="text-sm text-text-dim">No notifications yet.</p>
+			)}
+
+			<ul className="flex max-w-[700px] flex-col gap-1">
+				{notifications.map((notification) => (
+					<li
+						key={notification.id}
+						className="rounded-md px-2 py-2 hover:bg-surface-elevated"
+					>
+						<div className="flex items-baseline justify-between gap-3">
+							<Link
+								to="/channels/$id"
+								params={{ id: notification.channelId }}
+								className="truncate text-sm font-semibold text-twitch-purple-light hover:underline"
+							>
+								{notification.channelName}
+							</Link>
+							<span className="flex-shrink-0 text-xs text-text-dim">
+								{formatDate(notification.streamStartedAt)}
+							</span>
+						</div>
+						<div className="truncate text-xs text-text-muted">{notification.title}</div>
+						{notification.gameName !== "" && (
+							<div className="text-xs text-text-dim">{notification.gameName}</div>
+						)}
+					</li>
+				))}
+			</ul>
+		</section>
+	);
+});
+
+export { NotificationHistory };
@@ -0,0 +1,40 @@
+import { memo } from "react";
+
+import { useNotificationPermission } from "@/src/features/notifications/hooks/use-notifications";
+
+function getPermissionMessage(permission: NotificationPermission | "unsupported") {
+	if (permission === "unsupported") {
+		return "This browser doesn't support notifications. Alerts still show up in the history below.";
+	}
+
+	if (permission === "denied") {
+		return "Notifications are blocked for this site. Allow them in the browser's site settings.";
+	}
+
+	if (permission === "granted") {
+		return "Desktop notifications are on while draks-tv is open in a tab.";
+	}
+
+	return "Allow notifications to get an alert when a channel goes live.";
+}
+
+const NotificationPermission = memo(function NotificationPermission() {
+	const { permission, requestPermission } = useNotificationPermission();
+
+	return (
+		<section className="mb-8 flex items-center justify-between gap-4 rounded-lg border border-surface-border-muted bg-surface-card p-4">
+			<p className="text-sm text-text-muted">{getPermissionMessage(permission)}</p>
+			{permission === "default" && (
+				<button
+					type="button"
+					onClick={() => void requestPermission()}
+					className="flex-shrink-0 rounded bg-twitch-purple px-4 py-2 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover cursor-pointer"
+				>
+					Enable notifications
+				</button>
+			)}
+		</section>
+	);
+});
+
+export { NotificationPermission };
@@ -0,0 +1,175 @@
+import { memo, useState } from "react";
+
+import {
+	formatMinuteOfDay,
+	parseTimeOfDay,
+} from "@/src/features/notifications/notifications.validators";
+
+import type { NotificationRuleSettings } from "@/src/features/notifications/notifications.types";
+
+type NotificationRuleFormProps = {
+	channelId: string;
+	initialValues: NotificationRuleSettings;
+	isSubmitting: boolean;
+	errorMessage: string | null;
+	onSubmit: (settings: NotificationRuleSettings) => void;
+	onCancel: () => void;
+};
+
+const INPUT_CLASS_NAME =
+	"w-full rounded border border-surface-border-muted bg-surface-elevated px-2 py-1.5 text-sm text-text-primary placeholder:text-text-dim focus:border-twitch-purple focus:outline-none";
+
+const LABEL_CLASS_NAME = "mb-1 block text-xs text-text-muted";
+
+function formatOptionalMinute(minute: number | null) {
+	return minute === null ? "" : formatMinuteOfDay(minute);
+}
+
+function parseGameNamesInput(value: string) {
+	const gameNames: Array<string> = [];
+	for (const part of value.split(",")) {
+		const trimmed = part.trim();
+		if (trimmed !== "") {
+			gameNames.push(trimmed);
+		}
+	}
+	return gameNames;
+}
+
+const NotificationRuleForm = memo(function NotificationRuleForm({
+	channelId,
+	initialValues,
+	isSubmitting,
+	errorMessage,
+	onSubmit,
+	onCancel,
+}: NotificationRuleFormProps) {
+	const [isEnabled, setIsEnabled] = useState(initialValues.isEnabled);
+	const [gameNames, setGameNames] = useState(initialValues.gameNames.join(", "));
+	const [quietStart, setQuietStart] = useState(
+		formatOptionalMinute(initialValues.quietStartMinute),
+	);
+	const [quietEnd, setQuietEnd] = useState(formatOptionalMinute(initialValues.quietEndMinute));
+	const [minDowntimeMinutes, setMinDowntimeMinutes] = useState(
+		String(initialValues.minDowntimeMinutes),
+	);
+
+	const quietStartMinute = parseTimeOfDay(quietStart);
+	const quietEndMinute = parseTimeOfDay(quietEnd);
+	// Quiet hours need both ends; a half-filled range is ignored rather than rejected
+	const hasQuietHours = quietStartMinute !== null && quietEndMinute !== null;
+
+	function handleSubmit(event: React.FormEvent) {
+		event.preventDefault();
+		onSubmit({
+			isEnabled,
+			gameNames: parseGameNamesInput(gameNames),
+			quietStartMinute: hasQuietHours ? quietStartMinute : null,
+			quietEndMinute: hasQuietHours ? quietEndMinute : null,
+			minDowntimeMinutes: Number(minDowntimeMinutes),
+		});
+	}
+
+	return (
+		<form
+			onSubmit={handleSubmit}
+			className="mt-2 flex flex-col gap-3 rounded-lg border border-surface-border-muted bg-surface-card p-4"
+		>
+			<label className="flex items-center gap-2 text-sm text-text-primary">
+				<input
+					type="checkbox"
+					checked={isEnabled}
+					onChange={(event) => setIsEnabled(event.target.checked)}
+					className="accent-twitch-purple"
+				/>
+				Notify when this channel goes live
+			</label>
+
+			<div>
+				<label htmlFor={`notification-games-${channelId}`} className={LABEL_CLASS_NAME}>
+					Only for categories (comma separated, empty for any)
+				</label>
+				<input
+					id={`notification-games-${channelId}`}
+					type="text"
+					value={gameNames}
+					onChange={(event) => setGameNames(event.target.value)}
+					placeholder="Just Chatting, Elden Ring"
+					className={INPUT_CLASS_NAME}
+				/>
+			</div>
+
+			<div className="grid grid-cols-3 gap-3">
+				<div>
+					<label
+						htmlFor={`notification-quiet-start-${channelId}`}
+						className={LABEL_CLASS_NAME}
+					>
+						Quiet from
+					</label>
+					<input
+						id={`notification-quiet-start-${channelId}`}
+						type="time"
+						value={quietStart}
+						onChange={(event) => setQuietStart(event.target.value)}
+						className={INPUT_CLASS_NAME}
+					/>
+				</div>
+				<div>
+					<label
+						htmlFor={`notification-quiet-end-${channelId}`}
+						className={LABEL_CLASS_NAME}
+					>
+						Quiet until
+					</label>
+					<input
+						id={`notification-quiet-end-${channelId}`}
+						type="time"
+						value={quietEnd}
+						onChange={(event) => setQuietEnd(event.target.value)}
+						className={INPUT_CLASS_NAME}
+					/>
+				</div>
+				<div>
+					<label
+						htmlFor={`notification-downtime-${channelId}`}
+						className={LABEL_CLASS_NAME}
+					>
+						Offline at least (minutes)
+					</label>
+					<input
+						id={`notification-downtime-${channelId}`}
+						type="number"
+						min={0}
+						max={1440}
+						value={minDowntimeMinutes}
+						onChange={(event) => setMinDowntimeMinutes(event.target.value)}
+						className={INPUT_CLASS_NAME}
+						required
+					/>
+				</div>
+			</div>
+
+			{errorMessage !== null && <p className="text-sm text-live">{errorMessage}</p>}
+
+			<div className="flex gap-2">
+				<button
+					type="submit"
+					disabled={isSubmitting}
+					className="rounded bg-twitch-purple px-4 py-2 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover enabled:cursor-pointer disabled:opacity-50"
+				>
+					Save
+				</button>
+				<button
+					type="button"
+					onClick={onCancel}
+					className="rounded border border-surface-border-muted bg-surface-elevated px-4 py-2 text-sm font-semibold text-text-muted transition-all hover:text-text-primary cursor-pointer"
+				>
+					Cancel
+				</button>
+			</div>
+		</form>
+	);
+});
+
+export { NotificationRuleForm };
@@ -0,0 +1,182 @@
+import { Link } from "@tanstack/react-router";
+import { memo, useMemo, useState } from "react";
+
+import { NotificationRuleForm } from "@/src/features/notifications/components/notification-rule-form";
+import {
+	useDeleteNotificationRule,
+	useNotificationRules,
+	useSaveNotificationRule,
+} from "@/src/features/notifications/hooks/use-notifications";
+import {
+	DEFAULT_NOTIFICATION_RULE,
+	formatMinuteOfDay,
+} from "@/src/features/notifications/notifications.validators";
+import { useFollowedChannels } from "@/src/features/sidebar/hooks/use-followed-channels";
+
+import type {
+	NotificationRule,
+	NotificationRuleSettings,
+} from "@/src/features/notifications/notifications.types";
+
+type RuleRow = {
+	channelId: string;
+	channelName: string;
+	rule: NotificationRule | null;
+};
+
+function getRuleSummary(rule: NotificationRuleSettings) {
+	if (!rule.isEnabled) {
+		return "Off";
+	}
+
+	const parts: Array<string> = [];
+	parts.push(rule.gameNames.length === 0 ? "Any category" : rule.gameNames.join(", "));
+
+	if (rule.quietStartMinute !== null && rule.quietEndMinute !== null) {
+		parts.push(
+			`quiet ${formatMinuteOfDay(rule.quietStartMinute)}-${formatMinuteOfDay(rule.quietEndMinute)}`,
+		);
+	}
+
+	parts.push(`after ${rule.minDowntimeMinutes} min offline`);
+
+	return parts.join(" · ");
+}
+
+const NotificationRulesSection = memo(function NotificationRulesSection() {
+	const [editingChannelId, setEditingChannelId] = useState<string | null>(null);
+
+	const { rules, isLoading, error } = useNotificationRules();
+	const { channels } = useFollowedChannels();
+	const saveMutation = useSaveNotificationRule();
+	const deleteMutation = useDeleteNotificationRule();
+
+	// Favorites notify with the defaults until they get a rule of their own
+	const rows = useMemo(() => {
+		const rulesByChannelId = new Map<string, NotificationRule>();
+		for (const rule of rules) {
+			rulesByChannelId.set(rule.channelId, rule);
+		}
+
+		const result: Array<RuleRow> = [];
+		for (const channel of channels) {
+			if (channel.rank !== "favorite") {
+				continue;
+			}
+
+			result.push({
+				channelId: channel.id,
+				channelName: channel.channelName,
+				rule: rulesByChannelId.get(channel.id) ?? null,
+			});
+			rulesByChannelId.delete(channel.id);
+		}
+
+		for (const rule of rulesByChannelId.values()) {
+			result.push({ channelId: rule.channelId, channelName: rule.channelName, rule });
+		}
+
+		return result;
+	}, [channels, rules]);
+
+	function handleEdit(channelId: string) {
+		saveMutation.reset();
+		setEditingChannelId(channelId);
+	}
+
+	function handleSave(row: RuleRow, settings: NotificationRuleSettings) {
+		saveMutation.mutate(
+			{ channelId: row.channelId, channelName: row.channelName, ...settings },
+			{ onSuccess: () => setEditingChannelId(null) },
+		);
+	}
+
+	function handleCancel() {
+		saveMutation.reset();
+		setEditingChannelId(null);
+	}
+
+	return (
+		<section className="mb-8">
+			<h3 className="text-lg font-semibold">Rules</h3>
+			<p className="mb-3 text-xs text-text-dim">
+				Favorites notify for any category after 30 minutes offline until you edit their
+				rule. Turning a rule off keeps a favorite quiet.
+			</p>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading rules...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{deleteMutation.error !== null && (
+				<p className="mb-3 text-sm text-live">{deleteMutation.error.message}</p>
+			)}
+
+			{!isLoading && rows.length === 0 && (
+				<p className="text-sm text-text-dim">
+					Favorite a channel to get notified when it goes live.
+				</p>
+			)}
+
+			<ul className="flex max-w-[700px] flex-col gap-1">
+				{rows.map((row) => {
+					const isEditing = editingChannelId === row.channelId;
+					const isResetting =
+						deleteMutation.isPending && deleteMutation.variables === row.channelId;
+
+					return (
+						<li key={row.channelId} className="rounded-md px-2 py-2">
+							<div className="flex items-center gap-3">
+								<div className="min-w-0 flex-1">
+									<Link
+										to="/channels/$id"
+										params={{ id: row.channelId }}
+										className="block truncate text-sm font-semibold text-twitch-purple-light hover:underline"
+									>
+										{row.channelName}
+									</Link>
+									<div className="text-xs text-text-dim">
+										{row.rule === null
+											? `Default: ${getRuleSummary(DEFAULT_NOTIFICATION_RULE)}`
+											: getRuleSummary(row.rule)}
+									</div>
+								</div>
+								{!isEditing && (
+									<button
+										type="button"
+										onClick={() => handleEdit(row.channelId)}
+										className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-1.5 text-xs font-semibold text-text-primary transition-all hover:border-twitch-purple hover:bg-twitch-purple cursor-pointer"
+									>
+										Edit
+									</button>
+								)}
+								{row.rule !== null && !isEditing && (
+									<button
+										type="button"
+										onClick={() => deleteMutation.mutate(row.channelId)}
+										disabled={isResetting}
+										className="rounded-md px-2 py-1 text-xs font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-live enabled:cursor-pointer disabled:opacity-50"
+									>
+										{isResetting ? "Resetting..." : "Reset"}
+									</button>
+								)}
+							</div>
+							{isEditing && (
+								<NotificationRuleForm
+									channelId={row.channelId}
+									initialValues={row.rule ?? DEFAULT_NOTIFICATION_RULE}
+									isSubmitting={saveMutation.isPending}
+									errorMessage={saveMutation.error?.message ?? null}
+									onSubmit={(settings) => handleSave(row, settings)}
+									onCancel={handleCancel}
+								/>
+							)}
+						</li>
+					);
+				})}
+			</ul>
+		</section>
+	);
+});
+
+export { NotificationRulesSection };
@@ -0,0 +1,46 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "@tanstack/react-router";
+import { useCallback } from "react";
+
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+import type { LiveNotification } from "@/src/features/notifications/notifications.types";
+
+function getNotificationBody(notification: LiveNotification) {
+	if (notification.gameName === "") {
+		return notification.title;
+	}
+
+	return `${notification.gameName} - ${notification.title}`;
+}
+
+/**
+ * Shows a go-live notification from the event stream through the browser. History is
+ * refreshed either way, even without notification permission.
+ */
+export function useNotificationAlert() {
+	const queryClient = useQueryClient();
+	const navigate = useNavigate();
+
+	return useCallback(
+		(notification: LiveNotification) => {
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.notifications });
+
+			if (!("Notification" in window) || Notification.permission !== "granted") {
+				return;
+			}
+
+			const browserNotification = new Notification(`${notification.channelName} is live`, {
+				body: getNotificationBody(notification),
+				tag: `live-${notification.channelId}`,
+			});
+
+			browserNotification.addEventListener("click", () => {
+				window.focus();
+				void navigate({ to: "/channels/$id", params: { id: notification.channelId } });
+				browserNotification.close();
+			});
+		},
+		[queryClient, navigate],
+	);
+}
@@ -0,0 +1,104 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+import {
+	clearNotificationsApi,
+	deleteNotificationRuleApi,
+	saveNotificationRuleApi,
+} from "@/src/features/notifications/api/notifications-mutations";
+import {
+	fetchNotificationRules,
+	fetchNotifications,
+} from "@/src/features/notifications/api/notifications-queries";
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+import type {
+	LiveNotification,
+	NotificationRule,
+} from "@/src/features/notifications/notifications.types";
+
+const EMPTY_NOTIFICATIONS: Array<LiveNotification> = [];
+const EMPTY_RULES: Array<NotificationRule> = [];
+
+type NotificationPermissionState = NotificationPermission | "unsupported";
+
+function getNotificationPermission(): NotificationPermissionState {
+	if (typeof window === "undefined" || !("Notification" in window)) {
+		return "unsupported";
+	}
+
+	return Notification.permission;
+}
+
+export function useNotifications() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.notifications,
+		queryFn: fetchNotifications,
+	});
+
+	return {
+		notifications: data ?? EMPTY_NOTIFICATIONS,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+export function useNotificationRules() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.notificationRules,
+		queryFn: fetchNotificationRules,
+		staleTime: 5 * 60 * 1000,
+	});
+
+	return {
+		rules: data ?? EMPTY_RULES,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+function useNotificationRulesMutation<TVariables>(
+	mutationFn: (variables: TVariables) => Promise<void>,
+) {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn,
+		onSettled: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.notificationRules });
+		},
+	});
+}
+
+export function useSaveNotificationRule() {
+	return useNotificationRulesMutation(saveNotificationRuleApi);
+}
+
+export function useDeleteNotificationRule() {
+	return useNotificationRulesMutation(deleteNotificationRuleApi);
+}
+
+export function useClearNotifications() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: clearNotificationsApi,
+		onSettled: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.notifications });
+		},
+	});
+}
+
+export function useNotificationPermission() {
+	const [permission, setPermission] = useState(getNotificationPermission);
+
+	async function requestPermission() {
+		if (permission === "unsupported") {
+			return;
+		}
+
+		setPermission(await Notification.requestPermission());
+	}
+
+	return { permission, requestPermission };
+}
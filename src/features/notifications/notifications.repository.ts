@@ -0,0 +1,157 @@
+import { asc, desc, eq, sql } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { notificationRules, notifications } from "@/src/db/schema";
+
+import { parseGameNames } from "./notifications.validators";
+
+import type {
+	LiveNotificationInput,
+	NotificationRule,
+	NotificationRuleInput,
+} from "./notifications.types";
+
+const NOTIFICATION_RULE_COLUMNS = {
+	channelId: notificationRules.channelId,
+	channelName: notificationRules.channelName,
+	isEnabled: notificationRules.isEnabled,
+	gameNames: notificationRules.gameNames,
+	quietStartMinute: notificationRules.quietStartMinute,
+	quietEndMinute: notificationRules.quietEndMinute,
+	minDowntimeMinutes: notificationRules.minDowntimeMinutes,
+};
+
+const NOTIFICATION_COLUMNS = {
+	id: notifications.id,
+	channelId: notifications.channelId,
+	channelName: notifications.channelName,
+	title: notifications.title,
+	gameName: notifications.gameName,
+	streamStartedAt: notifications.streamStartedAt,
+	createdAt: notifications.createdAt,
+};
+
+type NotificationRuleRow = Omit<NotificationRule, "gameNames"> & {
+	gameNames: string;
+};
+
+function toNotificationRule(row: NotificationRuleRow): NotificationRule | Error {
+	let gameNamesValue: unknown;
+
+	try {
+		gameNamesValue = JSON.parse(row.gameNames);
+	} catch {
+		return new Error(`Notification rule for "${row.channelName}" has invalid game names`);
+	}
+
+	const gameNames = parseGameNames(gameNamesValue);
+	if (gameNames instanceof Error) {
+		return new Error(
+			`Notification rule for "${row.channelName}" has invalid game names: ${gameNames.message}`,
+		);
+	}
+
+	return { ...row, gameNames };
+}
+
+export function getNotificationRules() {
+	try {
+		const rows = database
+			.select(NOTIFICATION_RULE_COLUMNS)
+			.from(notificationRules)
+			.orderBy(asc(notificationRules.channelName))
+			.all();
+
+		const rules: Array<NotificationRule> = [];
+		for (const row of rows) {
+			const rule = toNotificationRule(row);
+			if (rule instanceof Error) {
+				// Skip a corrupted row rather than hiding every rule
+				console.warn("[notifications.repository]", rule.message);
+				continue;
+			}
+			rules.push(rule);
+		}
+
+		return rules;
+	} catch (error) {
+		console.error("[notifications.repository] getNotificationRules failed:", error);
+		return new Error("Failed to get notification rules");
+	}
+}
+
+export function upsertNotificationRule(channelId: string, input: NotificationRuleInput) {
+	try {
+		const values = {
+			channelName: input.channelName,
+			isEnabled: input.isEnabled,
+			gameNames: JSON.stringify(input.gameNames),
+			quietStartMinute: input.quietStartMinute,
+			quietEndMinute: input.quietEndMinute,
+			minDowntimeMinutes: input.minDowntimeMinutes,
+		};
+
+		database
+			.insert(notificationRules)
+			.values({ channelId, ...values })
+			.onConflictDoUpdate({
+				target: notificationRules.channelId,
+				set: { ...values, updatedAt: sql`CURRENT_TIMESTAMP` },
+			})
+			.run();
+
+		const rule: NotificationRule = { channelId, ...input };
+		return rule;
+	} catch (error) {
+		console.error("[notifications.repository] upsertNotificationRule failed:", error);
+		return new Error("Failed to save notification rule");
+	}
+}
+
+export function deleteNotificationRule(channelId: string) {
+	try {
+		const deleted = database
+			.delete(notificationRules)
+			.where(eq(notificationRules.channelId, channelId))
+			.returning({ channelId: notificationRules.channelId })
+			.all();
+
+		return deleted.length > 0;
+	} catch (error) {
+		console.error("[notifications.repository] deleteNotificationRule failed:", error);
+		return new Error("Failed to delete notification rule");
+	}
+}
+
+export function insertNotification(input: LiveNotificationInput) {
+	try {
+		return database.insert(notifications).values(input).returning(NOTIFICATION_COLUMNS).get();
+	} catch (error) {
+		console.error("[notifications.repository] insertNotification failed:", error);
+		return new Error("Failed to save notification");
+	}
+}
+
+export function getRecentNotifications(limit: number) {
+	try {
+		return database
+			.select(NOTIFICATION_COLUMNS)
+			.from(notifications)
+			.orderBy(desc(notifications.createdAt), desc(notifications.id))
+			.limit(limit)
+			.all();
+	} catch (error) {
+		console.error("[notifications.repository] getRecentNotifications failed:", error);
+		return new Error("Failed to get notifications");
+	}
+}
+
+export function clearNotifications() {
+	try {
+		database.delete(notifications).run();
+		return null;
+	} catch (error) {
+		console.error("[notifications.repository] clearNotifications failed:", error);
+		return new Error("Failed to clear notifications");
+	}
+}
@@ -0,0 +1,30 @@
+export type NotificationRuleSettings = {
+	isEnabled: boolean;
+	// Empty notifies for any category
+	gameNames: Array<string>;
+	// Minutes after local midnight, both null when there are no quiet hours
+	quietStartMinute: number | null;
+	quietEndMinute: number | null;
+	minDowntimeMinutes: number;
+};
+
+export type NotificationRule = NotificationRuleSettings & {
+	channelId: string;
+	channelName: string;
+};
+
+export type NotificationRuleInput = NotificationRuleSettings & {
+	channelName: string;
+};
+
+export type LiveNotification = {
+	id: number;
+	channelId: string;
+	channelName: string;
+	title: string;
+	gameName: string;
+	streamStartedAt: string;
+	createdAt: string;
+};
+
+export type LiveNotificationInput = Omit<LiveNotification, "id" | "createdAt">;
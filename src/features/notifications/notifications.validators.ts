@@ -0,0 +1,202 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type {
+	LiveNotification,
+	NotificationRule,
+	NotificationRuleInput,
+	NotificationRuleSettings,
+} from "./notifications.types";
+
+const MAX_CHANNEL_NAME_LENGTH = 100;
+const MAX_GAME_NAMES = 20;
+const MAX_GAME_NAME_LENGTH = 100;
+const MAX_MINUTE_OF_DAY = 24 * 60 - 1;
+const MAX_MIN_DOWNTIME_MINUTES = 24 * 60;
+const DEFAULT_NOTIFICATION_LIMIT = 50;
+const MAX_NOTIFICATION_LIMIT = 200;
+
+export const DEFAULT_NOTIFICATION_RULE: NotificationRuleSettings = {
+	isEnabled: true,
+	gameNames: [],
+	quietStartMinute: null,
+	quietEndMinute: null,
+	minDowntimeMinutes: 30,
+};
+
+function isMinuteOfDay(value: unknown): value is number {
+	return (
+		typeof value === "number" &&
+		Number.isInteger(value) &&
+		value >= 0 &&
+		value <= MAX_MINUTE_OF_DAY
+	);
+}
+
+// "HH:MM" is what <input type="time"> reads and writes
+export function formatMinuteOfDay(minute: number) {
+	const hours = Math.floor(minute / 60);
+	const minutes = minute % 60;
+	return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+export function parseTimeOfDay(value: string) {
+	const match = /^(\d{2}):(\d{2})$/.exec(value);
+	if (match === null) {
+		return null;
+	}
+
+	const minute = Number(match[1]) * 60 + Number(match[2]);
+	return isMinuteOfDay(minute) ? minute : null;
+}
+
+export function parseNotificationLimit(value: string | null) {
+	if (value === null) {
+		return DEFAULT_NOTIFICATION_LIMIT;
+	}
+
+	const limit = Number(value);
+
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_NOTIFICATION_LIMIT) {
+		return new Error(`limit must be an integer between 1 and ${MAX_NOTIFICATION_LIMIT}`);
+	}
+
+	return limit;
+}
+
+export function parseGameNames(value: unknown): Array<string> | Error {
+	if (!Array.isArray(value)) {
+		return new Error("gameNames must be an array");
+	}
+
+	if (value.length > MAX_GAME_NAMES) {
+		return new Error(`gameNames must not contain more than ${MAX_GAME_NAMES} entries`);
+	}
+
+	const gameNames: Array<string> = [];
+	for (const gameName of value) {
+		if (typeof gameName !== "string") {
+			return new Error("gameNames must only contain strings");
+		}
+
+		const trimmed = gameName.trim();
+
+		if (trimmed === "" || trimmed.length > MAX_GAME_NAME_LENGTH) {
+			return new Error(`gameNames entries must be 1-${MAX_GAME_NAME_LENGTH} characters`);
+		}
+
+		gameNames.push(trimmed);
+	}
+
+	return gameNames;
+}
+
+export function validateNotificationRuleRequest(body: unknown): NotificationRuleInput | Error {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	const { channelName, isEnabled, quietStartMinute, quietEndMinute, minDowntimeMinutes } = body;
+
+	if (
+		typeof channelName !== "string" ||
+		channelName.trim() === "" ||
+		channelName.length > MAX_CHANNEL_NAME_LENGTH
+	) {
+		return new Error(`channelName must be 1-${MAX_CHANNEL_NAME_LENGTH} characters`);
+	}
+
+	if (typeof isEnabled !== "boolean") {
+		return new Error("isEnabled must be a boolean");
+	}
+
+	const gameNames = parseGameNames(body.gameNames);
+	if (gameNames instanceof Error) {
+		return gameNames;
+	}
+
+	const hasQuietHours = quietStartMinute !== null || quietEndMinute !== null;
+	if (hasQuietHours && (!isMinuteOfDay(quietStartMinute) || !isMinuteOfDay(quietEndMinute))) {
+		return new Error(
+			`quietStartMinute and quietEndMinute must both be null or integers between 0 and ${MAX_MINUTE_OF_DAY}`,
+		);
+	}
+
+	if (
+		typeof minDowntimeMinutes !== "number" ||
+		!Number.isInteger(minDowntimeMinutes) ||
+		minDowntimeMinutes < 0 ||
+		minDowntimeMinutes > MAX_MIN_DOWNTIME_MINUTES
+	) {
+		return new Error(
+			`minDowntimeMinutes must be an integer between 0 and ${MAX_MIN_DOWNTIME_MINUTES}`,
+		);
+	}
+
+	return {
+		channelName: channelName.trim(),
+		isEnabled,
+		gameNames,
+		quietStartMinute: hasQuietHours ? Number(quietStartMinute) : null,
+		quietEndMinute: hasQuietHours ? Number(quietEndMinute) : null,
+		minDowntimeMinutes,
+	};
+}
+
+function isNotificationRule(value: unknown): value is NotificationRule {
+	return (
+		isRecord(value) &&
+		typeof value.channelId === "string" &&
+		typeof value.channelName === "string" &&
+		typeof value.isEnabled === "boolean" &&
+		Array.isArray(value.gameNames) &&
+		value.gameNames.every((gameName) => typeof gameName === "string") &&
+		(value.quietStartMinute === null || typeof value.quietStartMinute === "number") &&
+		(value.quietEndMinute === null || typeof value.quietEndMinute === "number") &&
+		typeof value.minDowntimeMinutes === "number"
+	);
+}
+
+export function parseNotificationRulesResponse(data: unknown): Array<NotificationRule> | Error {
+	if (!isRecord(data) || !Array.isArray(data.rules)) {
+		return new Error("Invalid notification rules response");
+	}
+
+	const rules: Array<NotificationRule> = [];
+	for (const rule of data.rules) {
+		if (!isNotificationRule(rule)) {
+			return new Error("Invalid notification rules response");
+		}
+		rules.push(rule);
+	}
+
+	return rules;
+}
+
+export function isLiveNotification(value: unknown): value is LiveNotification {
+	return (
+		isRecord(value) &&
+		typeof value.id === "number" &&
+		typeof value.channelId === "string" &&
+		typeof value.channelName === "string" &&
+		typeof value.title === "string" &&
+		typeof value.gameName === "string" &&
+		typeof value.streamStartedAt === "string" &&
+		typeof value.createdAt === "string"
+	);
+}
+
+export function parseNotificationsResponse(data: unknown): Array<LiveNotification> | Error {
+	if (!isRecord(data) || !Array.isArray(data.notifications)) {
+		return new Error("Invalid notifications response");
+	}
+
+	const notifications: Array<LiveNotification> = [];
+	for (const notification of data.notifications) {
+		if (!isLiveNotification(notification)) {
+			return new Error("Invalid notifications response");
+		}
+		notifications.push(notification);
+	}
+
+	return notifications;
+}
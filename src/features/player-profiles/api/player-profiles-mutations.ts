@@ -0,0 +1,61 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+import { JSON_HEADERS } from "@/src/shared/utils/http";
+
+import type { PlayerProfileInput } from "../player-profiles.types";
+
+export async function createPlayerProfileApi(input: PlayerProfileInput) {
+	const response = await fetch("/api/player-profiles", {
+		method: "POST",
+		headers: JSON_HEADERS,
+		body: JSON.stringify(input),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to create player profile");
+		throw new Error(message);
+	}
+}
+
+export async function updatePlayerProfileApi({
+	id,
+	input,
+}: {
+	id: number;
+	input: PlayerProfileInput;
+}) {
+	const response = await fetch(`/api/player-profiles/${id}`, {
+		method: "PUT",
+		headers: JSON_HEADERS,
+		body: JSON.stringify(input),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to update player profile");
+		throw new Error(message);
+	}
+}
+
+export async function deletePlayerProfileApi(id: number) {
+	const response = await fetch(`/api/player-profiles/${id}`, { method: "DELETE" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to delete player profile");
+		throw new Error(message);
+	}
+}
+
+export async function setDefaultPlayerProfileApi(profileId: number | null) {
+	const response = await fetch("/api/launcher", {
+		method: "PUT",
+		headers: JSON_HEADERS,
+		body: JSON.stringify({ defaultPlayerProfileId: profileId }),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(
+			response,
+			"Failed to set default player profile",
+		);
+		throw new Error(message);
+	}
+}
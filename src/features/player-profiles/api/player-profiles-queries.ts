@@ -0,0 +1,20 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parsePlayerProfilesResponse } from "../player-profiles.validators";
+
+export async function fetchPlayerProfiles() {
+	const response = await fetch("/api/player-profiles");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch player profiles");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parsePlayerProfilesResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
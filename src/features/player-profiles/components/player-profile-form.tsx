@@ -0,0 +1,218 @@
+import { memo, useState } from "react";
+
+import {
+	PLAYER_TYPES,
+	VOD_PASSTHROUGH_MODES,
+} from "@/src/features/player-profiles/player-profiles.validators";
+
+import type {
+	PlayerProfileInput,
+	PlayerType,
+	VodPassthrough,
+} from "@/src/features/player-profiles/player-profiles.types";
+
+type PlayerProfileFormProps = {
+	initialValues: PlayerProfileInput;
+	submitLabel: string;
+	isSubmitting: boolean;
+	errorMessage: string | null;
+	onSubmit: (input: PlayerProfileInput) => void;
+	onCancel: () => void;
+};
+
+const PLAYER_TYPE_LABELS: Record<PlayerType, string> = {
+	vlc: "VLC",
+	mpv: "mpv",
+	generic: "Generic command",
+};
+
+const VOD_PASSTHROUGH_LABELS: Record<VodPassthrough, string> = {
+	none: "None (Streamlink pipes the stream)",
+	hls: "HLS (player fetches the playlist)",
+	http: "HTTP",
+};
+
+const INPUT_CLASS_NAME =
+	"w-full rounded border border-surface-border-muted bg-surface-elevated px-2 py-1.5 text-sm text-text-primary placeholder:text-text-dim focus:border-twitch-purple focus:outline-none";
+
+const LABEL_CLASS_NAME = "mb-1 block text-xs text-text-muted";
+
+function toNullable(value: string) {
+	const trimmed = value.trim();
+	if (trimmed === "") {
+		return null;
+	}
+	return trimmed;
+}
+
+function parsePlayerType(value: string) {
+	for (const playerType of PLAYER_TYPES) {
+		if (playerType === value) {
+			return playerType;
+		}
+	}
+	return "generic";
+}
+
+function parseVodPassthrough(value: string) {
+	for (const mode of VOD_PASSTHROUGH_MODES) {
+		if (mode === value) {
+			return mode;
+		}
+	}
+	return "hls";
+}
+
+const PlayerProfileForm = memo(function PlayerProfileForm({
+	initialValues,
+	submitLabel,
+	isSubmitting,
+	errorMessage,
+	onSubmit,
+	onCancel,
+}: PlayerProfileFormProps) {
+	const [name, setName] = useState(initialValues.name);
+	const [playerType, setPlayerType] = useState<PlayerType>(initialValues.playerType);
+	const [playerPath, setPlayerPath] = useState(initialValues.playerPath ?? "");
+	const [playerArgs, setPlayerArgs] = useState(initialValues.playerArgs ?? "");
+	const [vodPassthrough, setVodPassthrough] = useState<VodPassthrough>(
+		initialValues.vodPassthrough,
+	);
+	const [windowTitle, setWindowTitle] = useState(initialValues.windowTitle ?? "");
+
+	function handleSubmit(event: React.FormEvent) {
+		event.preventDefault();
+
+		onSubmit({
+			name: name.trim(),
+			playerType,
+			playerPath: toNullable(playerPath),
+			playerArgs: toNullable(playerArgs),
+			vodPassthrough,
+			windowTitle: toNullable(windowTitle),
+		});
+	}
+
+	return (
+		<form
+			onSubmit={handleSubmit}
+			className="grid grid-cols-1 gap-3 rounded-lg border border-surface-border-muted bg-surface-card p-4 md:grid-cols-2"
+		>
+			<div>
+				<label htmlFor="player-profile-name" className={LABEL_CLASS_NAME}>
+					Name
+				</label>
+				<input
+					id="player-profile-name"
+					type="text"
+					value={name}
+					onChange={(event) => setName(event.target.value)}
+					placeholder="mpv (low latency)"
+					className={INPUT_CLASS_NAME}
+					required
+				/>
+			</div>
+
+			<div>
+				<label htmlFor="player-profile-type" className={LABEL_CLASS_NAME}>
+					Player type
+				</label>
+				<select
+					id="player-profile-type"
+					value={playerType}
+					onChange={(event) => setPlayerType(parsePlayerType(event.target.value))}
+					className={INPUT_CLASS_NAME}
+				>
+					{PLAYER_TYPES.map((type) => (
+						<option key={type} value={type}>
+							{PLAYER_TYPE_LABELS[type]}
+						</option>
+					))}
+				</select>
+			</div>
+
+			<div>
+				<label htmlFor="player-profile-path" className={LABEL_CLASS_NAME}>
+					Player executable (blank uses Streamlink&apos;s default player)
+				</label>
+				<input
+					id="player-profile-path"
+					type="text"
+					value={playerPath}
+					onChange={(event) => setPlayerPath(event.target.value)}
+					placeholder="/Applications/IINA.app/Contents/MacOS/iina-cli"
+					className={INPUT_CLASS_NAME}
+				/>
+			</div>
+
+			<div>
+				<label htmlFor="player-profile-args" className={LABEL_CLASS_NAME}>
+					Player arguments ({"{playerinput}"} is replaced with the stream)
+				</label>
+				<input
+					id="player-profile-args"
+					type="text"
+					value={playerArgs}
+					onChange={(event) => setPlayerArgs(event.target.value)}
+					placeholder="--stdin --no-stdin {playerinput}"
+					className={INPUT_CLASS_NAME}
+				/>
+			</div>
+
+			<div>
+				<label htmlFor="player-profile-passthrough" className={LABEL_CLASS_NAME}>
+					VOD passthrough
+				</label>
+				<select
+					id="player-profile-passthrough"
+					value={vodPassthrough}
+					onChange={(event) => setVodPassthrough(parseVodPassthrough(event.target.value))}
+					className={INPUT_CLASS_NAME}
+				>
+					{VOD_PASSTHROUGH_MODES.map((mode) => (
+						<option key={mode} value={mode}>
+							{VOD_PASSTHROUGH_LABELS[mode]}
+						</option>
+					))}
+				</select>
+			</div>
+
+			<div>
+				<label htmlFor="player-profile-title" className={LABEL_CLASS_NAME}>
+					Window title ({"{author}"}, {"{title}"}, {"{game}"} are supported)
+				</label>
+				<input
+					id="player-profile-title"
+					type="text"
+					value={windowTitle}
+					onChange={(event) => setWindowTitle(event.target.value)}
+					placeholder="{author} - {title}"
+					className={INPUT_CLASS_NAME}
+				/>
+			</div>
+
+			{errorMessage !== null && (
+				<p className="text-sm text-live md:col-span-2">{errorMessage}</p>
+			)}
+
+			<div className="flex gap-2 md:col-span-2">
+				<button
+					type="submit"
+					disabled={isSubmitting}
+					className="rounded bg-twitch-purple px-4 py-2 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover enabled:cursor-pointer disabled:opacity-50"
+				>
+					{submitLabel}
+				</button>
+				<button
+					type="button"
+					onClick={onCancel}
+					className="rounded border border-surface-border-muted bg-surface-elevated px-4 py-2 text-sm font-semibold text-text-muted transition-all hover:text-text-primary cursor-pointer"
+				>
+					Cancel
+				</button>
+			</div>
+		</form>
+	);
+});
+
+export { PlayerProfileForm };
@@ -0,0 +1,45 @@
+import { memo } from "react";
+
+import { usePlayerProfiles } from "@/src/features/player-profiles/hooks/use-player-profiles";
+import { usePlayerProfileSelection } from "@/src/shared/context/player-profile-context";
+
+import type { PlayerProfile } from "@/src/features/player-profiles/player-profiles.types";
+
+function getDefaultOptionLabel(profiles: Array<PlayerProfile>, defaultProfileId: number | null) {
+	for (const profile of profiles) {
+		if (profile.id === defaultProfileId) {
+			return `Default (${profile.name})`;
+		}
+	}
+
+	return "Default";
+}
+
+const PlayerProfileSelect = memo(function PlayerProfileSelect() {
+	const { profiles, defaultProfileId } = usePlayerProfiles();
+	const { selectedProfileId, selectProfile } = usePlayerProfileSelection();
+
+	function handleChange(event: React.ChangeEvent<HTMLSelectElement>) {
+		const value = Number(event.target.value);
+		selectProfile(value > 0 ? value : null);
+	}
+
+	return (
+		<select
+			value={selectedProfileId ?? ""}
+			onChange={handleChange}
+			aria-label="Player used for launches"
+			title="Player used for launches"
+			className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2 text-sm text-text-primary focus:border-twitch-purple focus:outline-none cursor-pointer"
+		>
+			<option value="">{getDefaultOptionLabel(profiles, defaultProfileId)}</option>
+			{profiles.map((profile) => (
+				<option key={profile.id} value={profile.id}>
+					{profile.name}
+				</option>
+			))}
+		</select>
+	);
+});
+
+export { PlayerProfileSelect };
@@ -0,0 +1,208 @@
+import { memo, useState } from "react";
+
+import { PlayerProfileForm } from "@/src/features/player-profiles/components/player-profile-form";
+import {
+	useCreatePlayerProfile,
+	useDeletePlayerProfile,
+	usePlayerProfiles,
+	useSetDefaultPlayerProfile,
+	useUpdatePlayerProfile,
+} from "@/src/features/player-profiles/hooks/use-player-profiles";
+import { PlusIcon } from "@/src/shared/components/icons";
+import { usePlayerProfileSelection } from "@/src/shared/context/player-profile-context";
+
+import type {
+	PlayerProfile,
+	PlayerProfileInput,
+} from "@/src/features/player-profiles/player-profiles.types";
+
+// null = no form open, "new" = creating, number = editing that profile
+type EditingState = null | "new" | number;
+
+const NEW_PROFILE_VALUES: PlayerProfileInput = {
+	name: "",
+	playerType: "generic",
+	playerPath: null,
+	playerArgs: null,
+	vodPassthrough: "hls",
+	windowTitle: "{author} - {title}",
+};
+
+function getProfileSummary(profile: PlayerProfile) {
+	const parts: Array<string> = [profile.playerPath ?? "Streamlink default player"];
+
+	if (profile.playerArgs !== null) {
+		parts.push(profile.playerArgs);
+	}
+
+	parts.push(`VOD passthrough: ${profile.vodPassthrough}`);
+
+	return parts.join(" · ");
+}
+
+function getMutationErrorMessage(error: Error | null) {
+	if (error === null) {
+		return null;
+	}
+	return error.message;
+}
+
+const PlayerProfilesSection = memo(function PlayerProfilesSection() {
+	const [editing, setEditing] = useState<EditingState>(null);
+
+	const { profiles, defaultProfileId, isLoading, error } = usePlayerProfiles();
+	const { selectedProfileId, selectProfile } = usePlayerProfileSelection();
+	const createMutation = useCreatePlayerProfile();
+	const updateMutation = useUpdatePlayerProfile();
+	const deleteMutation = useDeletePlayerProfile();
+	const setDefaultMutation = useSetDefaultPlayerProfile();
+
+	function handleCreate(input: PlayerProfileInput) {
+		createMutation.mutate(input, {
+			onSuccess: () => setEditing(null),
+		});
+	}
+
+	function handleUpdate(id: number, input: PlayerProfileInput) {
+		updateMutation.mutate(
+			{ id, input },
+			{
+				onSuccess: () => setEditing(null),
+			},
+		);
+	}
+
+	function handleDelete(profile: PlayerProfile) {
+		if (!window.confirm(`Delete the "${profile.name}" player profile?`)) {
+			return;
+		}
+
+		deleteMutation.mutate(profile.id, {
+			onSuccess: () => {
+				if (selectedProfileId === profile.id) {
+					selectProfile(null);
+				}
+			},
+		});
+	}
+
+	function handleCancel() {
+		createMutation.reset();
+		updateMutation.reset();
+		setEditing(null);
+	}
+
+	return (
+		<section className="mb-8">
+			<div className="mb-4 flex items-center justify-between">
+				<h3 className="text-lg font-semibold">Player Profiles</h3>
+				{editing === null && (
+					<button
+						type="button"
+						onClick={() => setEditing("new")}
+						className="flex items-center gap-2 rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2 text-sm font-semibold text-text-primary transition-all hover:border-twitch-purple hover:bg-twitch-purple cursor-pointer"
+					>
+						<PlusIcon className="h-4 w-4" />
+						Add profile
+					</button>
+				)}
+			</div>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading profiles...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{editing === "new" && (
+				<div className="mb-4">
+					<PlayerProfileForm
+						initialValues={NEW_PROFILE_VALUES}
+						submitLabel="Create"
+						isSubmitting={createMutation.isPending}
+						errorMessage={getMutationErrorMessage(createMutation.error)}
+						onSubmit={handleCreate}
+						onCancel={handleCancel}
+					/>
+				</div>
+			)}
+
+			{deleteMutation.error !== null && (
+				<p className="mb-3 text-sm text-live">{deleteMutation.error.message}</p>
+			)}
+
+			<ul className="flex flex-col gap-3">
+				{profiles.map((profile) => {
+					const isDefault = profile.id === defaultProfileId;
+
+					if (editing === profile.id) {
+						return (
+							<li key={profile.id}>
+								<PlayerProfileForm
+									initialValues={profile}
+									submitLabel="Save"
+									isSubmitting={updateMutation.isPending}
+									errorMessage={getMutationErrorMessage(updateMutation.error)}
+									onSubmit={(input) => handleUpdate(profile.id, input)}
+									onCancel={handleCancel}
+								/>
+							</li>
+						);
+					}
+
+					return (
+						<li
+							key={profile.id}
+							className="flex items-center gap-4 rounded-lg border border-surface-border-muted bg-surface-card px-4 py-3"
+						>
+							<div className="min-w-0 flex-1">
+								<div className="flex items-center gap-2">
+									<span className="font-semibold text-text-primary">
+										{profile.name}
+									</span>
+									<span className="rounded bg-surface-elevated px-2 py-0.5 text-xs uppercase text-text-muted">
+										{profile.playerType}
+									</span>
+									{isDefault && (
+										<span className="rounded bg-twitch-purple px-2 py-0.5 text-xs font-semibold text-white">
+											Default
+										</span>
+									)}
+								</div>
+								<p className="truncate text-xs text-text-dim">
+									{getProfileSummary(profile)}
+								</p>
+							</div>
+
+							{!isDefault && (
+								<button
+									type="button"
+									onClick={() => setDefaultMutation.mutate(profile.id)}
+									disabled={setDefaultMutation.isPending}
+									className="rounded-md px-3 py-1.5 text-xs font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary enabled:cursor-pointer disabled:opacity-50"
+								>
+									Make default
+								</button>
+							)}
+							<button
+								type="button"
+								onClick={() => setEditing(profile.id)}
+								className="rounded-md px-3 py-1.5 text-xs font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary cursor-pointer"
+							>
+								Edit
+							</button>
+							<button
+								type="button"
+								onClick={() => handleDelete(profile)}
+								disabled={deleteMutation.isPending}
+								className="rounded-md px-3 py-1.5 text-xs font-semibold text-text-muted transition-all hover:bg-surface-elevated hover:text-live enabled:cursor-pointer disabled:opacity-50"
+							>
+								Delete
+							</button>
+						</li>
+					);
+				})}
+			</ul>
+		</section>
+	);
+});
+
+export { PlayerProfilesSection };
@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+
+import {
+	createPlayerProfileApi,
+	deletePlayerProfileApi,
+	setDefaultPlayerProfileApi,
+	updatePlayerProfileApi,
+} from "@/src/features/player-profiles/api/player-profiles-mutations";
+import { fetchPlayerProfiles } from "@/src/features/player-profiles/api/player-profiles-queries";
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+import type { PlayerProfile } from "@/src/features/player-profiles/player-profiles.types";
+
+const EMPTY_PROFILES: Array<PlayerProfile> = [];
+
+export function usePlayerProfiles() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.playerProfiles,
+		queryFn: fetchPlayerProfiles,
+		staleTime: 5 * 60 * 1000,
+	});
+
+	const profiles = useMemo(() => data?.profiles ?? EMPTY_PROFILES, [data]);
+
+	return {
+		profiles,
+		defaultProfileId: data?.defaultProfileId ?? null,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+function usePlayerProfilesMutation<TVariables>(
+	mutationFn: (variables: TVariables) => Promise<void>,
+) {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn,
+		onSettled: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.playerProfiles });
+		},
+	});
+}
+
+export function useCreatePlayerProfile() {
+	return usePlayerProfilesMutation(createPlayerProfileApi);
+}
+
+export function useUpdatePlayerProfile() {
+	return usePlayerProfilesMutation(updatePlayerProfileApi);
+}
+
+export function useDeletePlayerProfile() {
+	return usePlayerProfilesMutation(deletePlayerProfileApi);
+}
+
+export function useSetDefaultPlayerProfile() {
+	return usePlayerProfilesMutation(setDefaultPlayerProfileApi);
+}
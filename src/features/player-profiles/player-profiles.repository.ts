@@ -0,0 +1,127 @@
+import { asc, eq, sql } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { launcherSettings, playerProfiles } from "@/src/db/schema";
+
+import type { PlayerProfileInput } from "./player-profiles.types";
+
+const PLAYER_PROFILE_COLUMNS = {
+	id: playerProfiles.id,
+	name: playerProfiles.name,
+	playerType: playerProfiles.playerType,
+	playerPath: playerProfiles.playerPath,
+	playerArgs: playerProfiles.playerArgs,
+	vodPassthrough: playerProfiles.vodPassthrough,
+	windowTitle: playerProfiles.windowTitle,
+};
+
+export function getAllPlayerProfiles() {
+	try {
+		return database
+			.select(PLAYER_PROFILE_COLUMNS)
+			.from(playerProfiles)
+			.orderBy(asc(playerProfiles.id))
+			.all();
+	} catch (error) {
+		console.error("[player-profiles.repository] getAllPlayerProfiles failed:", error);
+		return new Error("Failed to get player profiles");
+	}
+}
+
+export function getPlayerProfileById(id: number) {
+	try {
+		const row = database
+			.select(PLAYER_PROFILE_COLUMNS)
+			.from(playerProfiles)
+			.where(eq(playerProfiles.id, id))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[player-profiles.repository] getPlayerProfileById failed:", error);
+		return new Error("Failed to get player profile");
+	}
+}
+
+export function getDefaultPlayerProfile() {
+	try {
+		const row = database
+			.select(PLAYER_PROFILE_COLUMNS)
+			.from(launcherSettings)
+			.innerJoin(
+				playerProfiles,
+				eq(launcherSettings.defaultPlayerProfileId, playerProfiles.id),
+			)
+			.where(eq(launcherSettings.id, 1))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[player-profiles.repository] getDefaultPlayerProfile failed:", error);
+		return new Error("Failed to get default player profile");
+	}
+}
+
+export function getPlayerProfileByName(name: string) {
+	try {
+		const row = database
+			.select(PLAYER_PROFILE_COLUMNS)
+			.from(playerProfiles)
+			.where(eq(playerProfiles.name, name))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[player-profiles.repository] getPlayerProfileByName failed:", error);
+		return new Error("Failed to get player profile");
+	}
+}
+
+export function createPlayerProfile(input: PlayerProfileInput) {
+	try {
+		const row = database
+			.insert(playerProfiles)
+			.values(input)
+			.returning(PLAYER_PROFILE_COLUMNS)
+			.get();
+
+		return row;
+	} catch (error) {
+		console.error("[player-profiles.repository] createPlayerProfile failed:", error);
+		return new Error("Failed to create player profile");
+	}
+}
+
+export function updatePlayerProfile(id: number, input: PlayerProfileInput) {
+	try {
+		const row = database
+			.update(playerProfiles)
+			.set({
+				...input,
+				updatedAt: sql`CURRENT_TIMESTAMP`,
+			})
+			.where(eq(playerProfiles.id, id))
+			.returning(PLAYER_PROFILE_COLUMNS)
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[player-profiles.repository] updatePlayerProfile failed:", error);
+		return new Error("Failed to update player profile");
+	}
+}
+
+export function deletePlayerProfile(id: number) {
+	try {
+		const deleted = database
+			.delete(playerProfiles)
+			.where(eq(playerProfiles.id, id))
+			.returning({ id: playerProfiles.id })
+			.all();
+
+		return deleted.length > 0;
+	} catch (error) {
+		console.error("[player-profiles.repository] deletePlayerProfile failed:", error);
+		return new Error("Failed to delete player profile");
+	}
+}
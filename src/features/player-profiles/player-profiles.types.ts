@@ -0,0 +1,31 @@
+import type { playerProfiles } from "@/src/db/schema";
+
+export type PlayerType = "vlc" | "mpv" | "generic";
+
+export type VodPassthrough = "none" | "hls" | "http";
+
+export type PlayerProfileSelect = typeof playerProfiles.$inferSelect;
+
+export type PlayerProfile = {
+	id: number;
+	name: string;
+	playerType: PlayerType;
+	playerPath: string | null;
+	playerArgs: string | null;
+	vodPassthrough: VodPassthrough;
+	windowTitle: string | null;
+};
+
+export type PlayerProfileInput = {
+	name: string;
+	playerType: PlayerType;
+	playerPath: string | null;
+	playerArgs: string | null;
+	vodPassthrough: VodPassthrough;
+	windowTitle: string | null;
+};
+
+export type PlayerProfilesResponse = {
+	profiles: Array<PlayerProfile>;
+	defaultProfileId: number | null;
+};
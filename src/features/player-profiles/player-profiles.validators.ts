@@ -0,0 +1,167 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type {
+	PlayerProfile,
+	PlayerProfileInput,
+	PlayerProfilesResponse,
+	PlayerType,
+	VodPassthrough,
+} from "./player-profiles.types";
+
+const MAX_NAME_LENGTH = 50;
+const MAX_PATH_LENGTH = 1024;
+const MAX_ARGS_LENGTH = 1024;
+const MAX_WINDOW_TITLE_LENGTH = 200;
+
+export const PLAYER_TYPES: Array<PlayerType> = ["vlc", "mpv", "generic"];
+
+export const VOD_PASSTHROUGH_MODES: Array<VodPassthrough> = ["none", "hls", "http"];
+
+function isPlayerType(value: unknown): value is PlayerType {
+	return value === "vlc" || value === "mpv" || value === "generic";
+}
+
+function isVodPassthrough(value: unknown): value is VodPassthrough {
+	return value === "none" || value === "hls" || value === "http";
+}
+
+function parseOptionalText(value: unknown, fieldName: string, maxLength: number) {
+	if (value === undefined || value === null) {
+		return null;
+	}
+
+	if (typeof value !== "string") {
+		return new Error(`${fieldName} must be a string or null`);
+	}
+
+	const trimmed = value.trim();
+
+	if (trimmed === "") {
+		return null;
+	}
+
+	if (trimmed.length > maxLength) {
+		return new Error(`${fieldName} must not exceed ${maxLength} characters`);
+	}
+
+	return trimmed;
+}
+
+export function parsePlayerProfileId(value: string) {
+	const id = Number(value);
+
+	if (!Number.isInteger(id) || id <= 0) {
+		return new Error("Profile id must be a positive integer");
+	}
+
+	return id;
+}
+
+export function validatePlayerProfileRequest(body: unknown): PlayerProfileInput | Error {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	if (typeof body.name !== "string" || body.name.trim().length === 0) {
+		return new Error("name is required and must be a non-empty string");
+	}
+
+	const name = body.name.trim();
+
+	if (name.length > MAX_NAME_LENGTH) {
+		return new Error(`name must not exceed ${MAX_NAME_LENGTH} characters`);
+	}
+
+	if (!isPlayerType(body.playerType)) {
+		return new Error(`playerType must be one of: ${PLAYER_TYPES.join(", ")}`);
+	}
+
+	let vodPassthrough: VodPassthrough = "hls";
+	if (body.vodPassthrough !== undefined) {
+		if (!isVodPassthrough(body.vodPassthrough)) {
+			return new Error(`vodPassthrough must be one of: ${VOD_PASSTHROUGH_MODES.join(", ")}`);
+		}
+		vodPassthrough = body.vodPassthrough;
+	}
+
+	const playerPath = parseOptionalText(body.playerPath, "playerPath", MAX_PATH_LENGTH);
+	if (playerPath instanceof Error) {
+		return playerPath;
+	}
+
+	const playerArgs = parseOptionalText(body.playerArgs, "playerArgs", MAX_ARGS_LENGTH);
+	if (playerArgs instanceof Error) {
+		return playerArgs;
+	}
+
+	const windowTitle = parseOptionalText(body.windowTitle, "windowTitle", MAX_WINDOW_TITLE_LENGTH);
+	if (windowTitle instanceof Error) {
+		return windowTitle;
+	}
+
+	return {
+		name,
+		playerType: body.playerType,
+		playerPath,
+		playerArgs,
+		vodPassthrough,
+		windowTitle,
+	};
+}
+
+/**
+ * Reads the optional `profileId` from a watch request body.
+ * A missing body or missing field means "use the default profile".
+ */
+export function parseWatchProfileId(body: unknown) {
+	if (!isRecord(body) || body.profileId === undefined || body.profileId === null) {
+		return null;
+	}
+
+	if (typeof body.profileId !== "number" || !Number.isInteger(body.profileId)) {
+		return new Error("profileId must be an integer");
+	}
+
+	return body.profileId;
+}
+
+function isNullableString(value: unknown) {
+	return value === null || typeof value === "string";
+}
+
+function isPlayerProfile(value: unknown): value is PlayerProfile {
+	if (!isRecord(value)) {
+		return false;
+	}
+
+	return (
+		typeof value.id === "number" &&
+		typeof value.name === "string" &&
+		isPlayerType(value.playerType) &&
+		isNullableString(value.playerPath) &&
+		isNullableString(value.playerArgs) &&
+		isVodPassthrough(value.vodPassthrough) &&
+		isNullableString(value.windowTitle)
+	);
+}
+
+export function parsePlayerProfilesResponse(data: unknown): PlayerProfilesResponse | Error {
+	if (!isRecord(data) || !Array.isArray(data.profiles)) {
+		return new Error("Invalid player profiles response");
+	}
+
+	const defaultProfileId = data.defaultProfileId;
+	if (defaultProfileId !== null && typeof defaultProfileId !== "number") {
+		return new Error("Invalid player profiles response");
+	}
+
+	const profiles: Array<PlayerProfile> = [];
+	for (const profile of data.profiles) {
+		if (!isPlayerProfile(profile)) {
+			return new Error("Invalid player profiles response");
+		}
+		profiles.push(profile);
+	}
+
+	return { profiles, defaultProfileId };
+}
@@ -0,0 +1,132 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+import { JSON_HEADERS } from "@/src/shared/utils/http";
+
+import { parsePlaylistResponse, parsePlayNextResponse } from "../playlists.validators";
+
+export async function createPlaylistApi(name: string) {
+	const response = await fetch("/api/playlists", {
+		method: "POST",
+		headers: JSON_HEADERS,
+		body: JSON.stringify({ name }),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to create playlist");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parsePlaylistResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
+
+export async function renamePlaylistApi({ id, name }: { id: number; name: string }) {
+	const response = await fetch(`/api/playlists/${id}`, {
+		method: "PUT",
+		headers: JSON_HEADERS,
+		body: JSON.stringify({ name }),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to rename playlist");
+		throw new Error(message);
+	}
+}
+
+export async function deletePlaylistApi(id: number) {
+	const response = await fetch(`/api/playlists/${id}`, { method: "DELETE" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to delete playlist");
+		throw new Error(message);
+	}
+}
+
+export async function addToPlaylistApi({
+	playlistId,
+	vodId,
+}: {
+	playlistId: number;
+	vodId: string;
+}) {
+	const response = await fetch(`/api/playlists/${playlistId}/items`, {
+		method: "POST",
+		headers: JSON_HEADERS,
+		body: JSON.stringify({ vodId }),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to add VOD to playlist");
+		throw new Error(message);
+	}
+}
+
+export async function removeFromPlaylistApi({
+	playlistId,
+	vodId,
+}: {
+	playlistId: number;
+	vodId: string;
+}) {
+	const response = await fetch(`/api/playlists/${playlistId}/items/${vodId}`, {
+		method: "DELETE",
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(
+			response,
+			"Failed to remove VOD from playlist",
+		);
+		throw new Error(message);
+	}
+}
+
+export async function reorderPlaylistApi({
+	playlistId,
+	orderedVodIds,
+}: {
+	playlistId: number;
+	orderedVodIds: Array<string>;
+}) {
+	const response = await fetch(`/api/playlists/${playlistId}/reorder`, {
+		method: "PUT",
+		headers: JSON_HEADERS,
+		body: JSON.stringify({ orderedVodIds }),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to reorder playlist");
+		throw new Error(message);
+	}
+}
+
+export async function playNextApi({
+	playlistId,
+	profileId,
+}: {
+	playlistId: number;
+	profileId: number | null;
+}) {
+	const response = await fetch(`/api/playlists/${playlistId}/play-next`, {
+		method: "POST",
+		headers: JSON_HEADERS,
+		body: JSON.stringify({ profileId }),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to play next VOD");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parsePlayNextResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
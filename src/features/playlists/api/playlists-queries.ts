@@ -0,0 +1,37 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parsePlaylistDetailsResponse, parsePlaylistsResponse } from "../playlists.validators";
+
+export async function fetchPlaylists() {
+	const response = await fetch("/api/playlists");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch playlists");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parsePlaylistsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
+
+export async function fetchPlaylist(id: number) {
+	const response = await fetch(`/api/playlists/${id}`);
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch playlist");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parsePlaylistDetailsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
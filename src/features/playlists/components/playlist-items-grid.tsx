@@ -0,0 +1,216 @@
+import {
+	DndContext,
+	PointerSensor,
+	closestCenter,
+	useSensor,
+	useSensors,
+	type DragEndEvent,
+} from "@dnd-kit/core";
+import { SortableContext, arrayMove, rectSortingStrategy, useSortable } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { memo, useCallback, useMemo } from "react";
+
+import { useWatchVod } from "@/src/features/channels/hooks/use-launch";
+import { useLocalVodIds } from "@/src/features/library/hooks/use-library";
+import {
+	useRemoveFromPlaylist,
+	useReorderPlaylist,
+} from "@/src/features/playlists/hooks/use-playlists";
+import { useVodChaptersBulk } from "@/src/features/vod-chapters/hooks/use-vod-chapters";
+import { VodCard } from "@/src/features/vods/components/vod-card";
+import { useSaveVodProgress, useVodProgressBulk } from "@/src/features/vods/hooks/use-vod-progress";
+import { GripIcon, XMarkIcon } from "@/src/shared/components/icons";
+import { formatDurationSeconds } from "@/src/shared/utils/format";
+
+import type { PlaylistItem } from "@/src/features/playlists/playlists.types";
+import type { VodCardData } from "@/src/features/vods/components/vod-card";
+import type { SaveProgressInput, VodProgressSelect } from "@/src/features/vods/vods.types";
+import type { TwitchVideoChapter } from "@/src/services/twitch-service";
+
+function getVodCardData(item: PlaylistItem): VodCardData {
+	return {
+		id: item.vodId,
+		title: item.title,
+		channelName: item.channelName,
+		createdAt: item.vodCreatedAt,
+		durationSeconds: item.durationSeconds,
+		durationLabel: formatDurationSeconds(item.durationSeconds),
+		thumbnailUrl: item.thumbnailUrl,
+		videoType: item.videoType,
+	};
+}
+
+type PlaylistItemsGridProps = {
+	playlistId: number;
+	items: Array<PlaylistItem>;
+};
+
+type SortablePlaylistItemProps = {
+	item: PlaylistItem;
+	progress: VodProgressSelect | null;
+	chapters: Array<TwitchVideoChapter> | null;
+	hasLocalCopy: boolean;
+	onWatchVod: (vodId: string, startTimeSeconds?: number, quality?: string) => void;
+	onSaveProgress: (data: SaveProgressInput) => void;
+	onRemove: (vodId: string) => void;
+};
+
+const SortablePlaylistItem = memo(function SortablePlaylistItem({
+	item,
+	progress,
+	chapters,
+	hasLocalCopy,
+	onWatchVod,
+	onSaveProgress,
+	onRemove,
+}: SortablePlaylistItemProps) {
+	const {
+		attributes,
+		listeners,
+		setNodeRef,
+		setActivatorNodeRef,
+		transform,
+		transition,
+		isDragging,
+	} = useSortable({ id: item.vodId });
+
+	const style = useMemo(
+		() => ({
+			transform: CSS.Transform.toString(transform),
+			transition,
+		}),
+		[transform, transition],
+	);
+
+	const vodCardData = useMemo(() => getVodCardData(item), [item]);
+
+	return (
+		<div ref={setNodeRef} style={style} className="relative">
+			<div
+				ref={setActivatorNodeRef}
+				{...attributes}
+				{...listeners}
+				className="absolute -top-3 left-1/2 -translate-x-1/2 z-10 bg-surface-elevated border border-surface-border-muted rounded-md px-4 py-1 cursor-grab active:cursor-grabbing hover:bg-surface-card hover:border-twitch-purple transition-all"
+			>
+				<GripIcon className="w-4 h-4 text-text-dim rotate-90" />
+			</div>
+			<button
+				type="button"
+				onClick={() => onRemove(item.vodId)}
+				className="absolute -top-3 right-3 z-10 bg-surface-elevated border border-surface-border-muted rounded-md p-1 text-text-dim transition-all hover:border-live hover:text-live cursor-pointer"
+				title="Remove from playlist"
+				aria-label={`Remove ${item.title} from playlist`}
+			>
+				<XMarkIcon className="w-4 h-4" />
+			</button>
+			<div className={isDragging ? "opacity-50 scale-95" : ""}>
+				<VodCard
+					vod={vodCardData}
+					progress={progress}
+					chapters={chapters}
+					onWatch={onWatchVod}
+					onSaveProgress={onSaveProgress}
+					hasLocalCopy={hasLocalCopy}
+				/>
+			</div>
+		</div>
+	);
+});
+
+const PlaylistItemsGrid = memo(function PlaylistItemsGrid({
+	playlistId,
+	items,
+}: PlaylistItemsGridProps) {
+	const sensors = useSensors(
+		useSensor(PointerSensor, {
+			activationConstraint: { distance: 8 },
+		}),
+	);
+
+	const reorderMutation = useReorderPlaylist();
+	const removeMutation = useRemoveFromPlaylist();
+	const saveProgressMutation = useSaveVodProgress();
+	const watchVodMutation = useWatchVod();
+	const localVodIds = useLocalVodIds();
+
+	const vodIds = useMemo(() => items.map((item) => item.vodId), [items]);
+
+	const { data: vodProgressData } = useVodProgressBulk(vodIds);
+	const { chaptersByVodId } = useVodChaptersBulk(vodIds);
+
+	const vodProgressMap = useMemo(() => {
+		const map = new Map<string, VodProgressSelect>();
+		for (const progress of vodProgressData) {
+			map.set(progress.vodId, progress);
+		}
+		return map;
+	}, [vodProgressData]);
+
+	const handleWatchVod = useCallback(
+		(vodId: string, startTimeSeconds?: number, quality?: string) => {
+			watchVodMutation.mutate({ id: vodId, startTimeSeconds, quality });
+		},
+		[watchVodMutation],
+	);
+
+	const handleRemove = useCallback(
+		(vodId: string) => {
+			removeMutation.mutate({ playlistId, vodId });
+		},
+		[playlistId, removeMutation],
+	);
+
+	const handleDragEnd = useCallback(
+		(event: DragEndEvent) => {
+			const { active, over } = event;
+
+			if (over === null || active.id === over.id) {
+				return;
+			}
+
+			const oldIndex = vodIds.indexOf(String(active.id));
+			const newIndex = vodIds.indexOf(String(over.id));
+
+			if (oldIndex === -1 || newIndex === -1) {
+				return;
+			}
+
+			reorderMutation.mutate({
+				playlistId,
+				orderedVodIds: arrayMove(vodIds, oldIndex, newIndex),
+			});
+		},
+		[playlistId, vodIds, reorderMutation],
+	);
+
+	if (items.length === 0) {
+		return (
+			<p className="py-10 text-center text-sm text-text-dim">
+				Nothing here yet. Use the queue button on a VOD to add it to Watch Later.
+			</p>
+		);
+	}
+
+	return (
+		<DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+			<SortableContext items={vodIds} strategy={rectSortingStrategy}>
+				<div className="grid grid-cols-[repeat(auto-fill,minmax(320px,1fr))] gap-5 pt-4">
+					{items.map((item) => (
+						<SortablePlaylistItem
+							key={item.vodId}
+							item={item}
+							progress={vodProgressMap.get(item.vodId) ?? null}
+							chapters={chaptersByVodId.get(item.vodId) ?? null}
+							hasLocalCopy={localVodIds.has(item.vodId)}
+							onWatchVod={handleWatchVod}
+							onSaveProgress={saveProgressMutation.mutate}
+							onRemove={handleRemove}
+						/>
+					))}
+				</div>
+			</SortableContext>
+		</DndContext>
+	);
+});
+
+export { PlaylistItemsGrid };
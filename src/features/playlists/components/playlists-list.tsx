@@ -0,0 +1,73 @@
+import { Link } from "@tanstack/react-router";
+import { memo, useState } from "react";
+
+import { useCreatePlaylist, usePlaylists } from "@/src/features/playlists/hooks/use-playlists";
+import { formatDate } from "@/src/shared/utils/format";
+
+const PlaylistsList = memo(function PlaylistsList() {
+	const { playlists, isLoading, error } = usePlaylists();
+	const createMutation = useCreatePlaylist();
+	const [nameInput, setNameInput] = useState("");
+
+	function handleSubmit(event: React.FormEvent) {
+		event.preventDefault();
+		createMutation.mutate(nameInput, { onSuccess: () => setNameInput("") });
+	}
+
+	return (
+		<section className="mb-8">
+			<form onSubmit={handleSubmit} className="mb-5 flex max-w-[500px] gap-2">
+				<input
+					type="text"
+					value={nameInput}
+					onChange={(event) => setNameInput(event.target.value)}
+					placeholder="New playlist name"
+					aria-label="New playlist name"
+					maxLength={50}
+					className="flex-1 rounded border border-surface-border-muted bg-surface-elevated px-2 py-1.5 text-sm text-text-primary placeholder:text-text-dim focus:border-twitch-purple focus:outline-none"
+				/>
+				<button
+					type="submit"
+					disabled={createMutation.isPending || nameInput.trim() === ""}
+					className="rounded bg-twitch-purple px-4 py-1.5 text-sm font-semibold text-white transition-all hover:bg-twitch-purple-hover enabled:cursor-pointer disabled:opacity-50"
+				>
+					Create
+				</button>
+			</form>
+
+			{createMutation.error !== null && (
+				<p className="mb-3 text-sm text-live">{createMutation.error.message}</p>
+			)}
+
+			{isLoading && <p className="text-sm text-text-dim">Loading playlists...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			<ul className="flex max-w-[700px] flex-col gap-2">
+				{playlists.map((playlist) => (
+					<li key={playlist.id}>
+						<Link
+							to="/playlists/$id"
+							params={{ id: String(playlist.id) }}
+							className="flex items-center gap-3 rounded-lg border border-surface-border-muted bg-surface-card px-4 py-3 transition-all hover:border-twitch-purple"
+						>
+							<span className="flex-1 text-sm font-semibold text-text-primary">
+								{playlist.name}
+							</span>
+							<span className="text-xs text-text-muted">
+								{playlist.itemCount} {playlist.itemCount === 1 ? "VOD" : "VODs"}
+							</span>
+							{!playlist.isWatchLater && (
+								<span className="text-xs text-text-dim">
+									Created {formatDate(playlist.createdAt)}
+								</span>
+							)}
+						</Link>
+					</li>
+				))}
+			</ul>
+		</section>
+	);
+});
+
+export { PlaylistsList };
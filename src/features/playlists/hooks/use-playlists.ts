@@ -0,0 +1,198 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useMemo } from "react";
+
+import {
+	addToPlaylistApi,
+	createPlaylistApi,
+	deletePlaylistApi,
+	playNextApi,
+	removeFromPlaylistApi,
+	renamePlaylistApi,
+	reorderPlaylistApi,
+} from "@/src/features/playlists/api/playlists-mutations";
+import { fetchPlaylist, fetchPlaylists } from "@/src/features/playlists/api/playlists-queries";
+import { usePlayerProfileSelection } from "@/src/shared/context/player-profile-context";
+import { getPlaylistQueryKey, QUERY_KEYS } from "@/src/shared/query-keys";
+
+import type { PlaylistDetails, PlaylistItem } from "@/src/features/playlists/playlists.types";
+
+export function usePlaylists() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.playlists,
+		queryFn: fetchPlaylists,
+	});
+
+	return {
+		playlists: data ?? [],
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+export function usePlaylist(playlistId: number | null) {
+	const { data, isLoading, error } = useQuery({
+		queryKey: getPlaylistQueryKey(playlistId ?? 0),
+		queryFn: () => fetchPlaylist(playlistId ?? 0),
+		enabled: playlistId !== null,
+	});
+
+	return {
+		playlist: data?.playlist ?? null,
+		items: data?.items ?? [],
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+/**
+ * The Watch Later list and the VODs queued in it, for the queue buttons on VOD cards.
+ */
+export function useWatchLater() {
+	const { playlists } = usePlaylists();
+	const watchLaterId = playlists.find((playlist) => playlist.isWatchLater)?.id ?? null;
+	const { items } = usePlaylist(watchLaterId);
+
+	const queuedVodIds = useMemo(() => new Set(items.map((item) => item.vodId)), [items]);
+
+	return { watchLaterId, queuedVodIds };
+}
+
+// Item lists live under the playlists key, so this refreshes item counts and pages together
+function useInvalidatePlaylists() {
+	const queryClient = useQueryClient();
+
+	return async function invalidatePlaylists() {
+		await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.playlists });
+	};
+}
+
+export function useCreatePlaylist() {
+	const invalidatePlaylists = useInvalidatePlaylists();
+
+	return useMutation({
+		mutationFn: createPlaylistApi,
+		onSuccess: invalidatePlaylists,
+	});
+}
+
+export function useRenamePlaylist() {
+	const invalidatePlaylists = useInvalidatePlaylists();
+
+	return useMutation({
+		mutationFn: renamePlaylistApi,
+		onSuccess: invalidatePlaylists,
+	});
+}
+
+export function useDeletePlaylist() {
+	const invalidatePlaylists = useInvalidatePlaylists();
+
+	return useMutation({
+		mutationFn: deletePlaylistApi,
+		onSuccess: invalidatePlaylists,
+	});
+}
+
+export function useAddToPlaylist() {
+	const invalidatePlaylists = useInvalidatePlaylists();
+
+	return useMutation({
+		mutationFn: addToPlaylistApi,
+		onSettled: invalidatePlaylists,
+	});
+}
+
+export function useRemoveFromPlaylist() {
+	const invalidatePlaylists = useInvalidatePlaylists();
+
+	return useMutation({
+		mutationFn: removeFromPlaylistApi,
+		onSettled: invalidatePlaylists,
+	});
+}
+
+/**
+ * Adds a VOD to Watch Later, or takes it out if it's already queued.
+ */
+export function useToggleWatchLater() {
+	const { watchLaterId, queuedVodIds } = useWatchLater();
+	const addMutation = useAddToPlaylist();
+	const removeMutation = useRemoveFromPlaylist();
+
+	const toggleWatchLater = useCallback(
+		(vodId: string) => {
+			if (watchLaterId === null) {
+				return;
+			}
+
+			if (queuedVodIds.has(vodId)) {
+				removeMutation.mutate({ playlistId: watchLaterId, vodId });
+			} else {
+				addMutation.mutate({ playlistId: watchLaterId, vodId });
+			}
+		},
+		[watchLaterId, queuedVodIds, addMutation, removeMutation],
+	);
+
+	return { queuedVodIds, toggleWatchLater };
+}
+
+export function useReorderPlaylist() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: reorderPlaylistApi,
+		onMutate: async ({
+			playlistId,
+			orderedVodIds,
+		}: {
+			playlistId: number;
+			orderedVodIds: Array<string>;
+		}) => {
+			const queryKey = getPlaylistQueryKey(playlistId);
+			await queryClient.cancelQueries({ queryKey });
+
+			const previousDetails = queryClient.getQueryData<PlaylistDetails>(queryKey);
+
+			if (previousDetails !== undefined) {
+				const itemsByVodId = new Map<string, PlaylistItem>();
+				for (const item of previousDetails.items) {
+					itemsByVodId.set(item.vodId, item);
+				}
+
+				const reorderedItems: Array<PlaylistItem> = [];
+				for (const vodId of orderedVodIds) {
+					const item = itemsByVodId.get(vodId);
+					if (item !== undefined) {
+						reorderedItems.push(item);
+					}
+				}
+
+				queryClient.setQueryData(queryKey, { ...previousDetails, items: reorderedItems });
+			}
+
+			return { previousDetails };
+		},
+		onError: (_error, { playlistId }, context) => {
+			if (context?.previousDetails !== undefined) {
+				queryClient.setQueryData(getPlaylistQueryKey(playlistId), context.previousDetails);
+			}
+		},
+		onSettled: async (_data, _error, { playlistId }) => {
+			await queryClient.invalidateQueries({ queryKey: getPlaylistQueryKey(playlistId) });
+		},
+	});
+}
+
+export function usePlayNext() {
+	const { selectedProfileId } = usePlayerProfileSelection();
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: (playlistId: number) =>
+			playNextApi({ playlistId, profileId: selectedProfileId }),
+		onSuccess: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.sessions });
+		},
+	});
+}
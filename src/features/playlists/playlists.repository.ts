@@ -0,0 +1,237 @@
+import { and, asc, count, desc, eq, isNull, max, sql } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { playlistItems, playlists, vods, watchedVods } from "@/src/db/schema";
+
+import type { NewPlaylistItem, NextPlaylistItem, Playlist, PlaylistItem } from "./playlists.types";
+
+const PLAYLIST_COLUMNS = {
+	id: playlists.id,
+	name: playlists.name,
+	isWatchLater: playlists.isWatchLater,
+	itemCount: count(playlistItems.id),
+	createdAt: playlists.createdAt,
+};
+
+const PLAYLIST_ITEM_COLUMNS = {
+	id: playlistItems.id,
+	vodId: playlistItems.vodId,
+	channelName: playlistItems.channelName,
+	title: playlistItems.title,
+	durationSeconds: playlistItems.durationSeconds,
+	thumbnailUrl: playlistItems.thumbnailUrl,
+	videoType: playlistItems.videoType,
+	vodCreatedAt: playlistItems.vodCreatedAt,
+	addedAt: playlistItems.addedAt,
+};
+
+export function getPlaylists(): Array<Playlist> | Error {
+	try {
+		return database
+			.select(PLAYLIST_COLUMNS)
+			.from(playlists)
+			.leftJoin(playlistItems, eq(playlistItems.playlistId, playlists.id))
+			.groupBy(playlists.id)
+			.orderBy(desc(playlists.isWatchLater), asc(playlists.name))
+			.all();
+	} catch (error) {
+		console.error("[playlists.repository] getPlaylists failed:", error);
+		return new Error("Failed to get playlists");
+	}
+}
+
+export function getPlaylistById(id: number): Playlist | null | Error {
+	try {
+		const row = database
+			.select(PLAYLIST_COLUMNS)
+			.from(playlists)
+			.leftJoin(playlistItems, eq(playlistItems.playlistId, playlists.id))
+			.where(eq(playlists.id, id))
+			.groupBy(playlists.id)
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[playlists.repository] getPlaylistById failed:", error);
+		return new Error("Failed to get playlist");
+	}
+}
+
+export function getPlaylistByName(name: string) {
+	try {
+		const row = database
+			.select({ id: playlists.id })
+			.from(playlists)
+			.where(eq(playlists.name, name))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[playlists.repository] getPlaylistByName failed:", error);
+		return new Error("Failed to get playlist");
+	}
+}
+
+export function createPlaylist(name: string) {
+	try {
+		return database.insert(playlists).values({ name }).returning({ id: playlists.id }).get();
+	} catch (error) {
+		console.error("[playlists.repository] createPlaylist failed:", error);
+		return new Error("Failed to create playlist");
+	}
+}
+
+export function renamePlaylist(id: number, name: string) {
+	try {
+		database
+			.update(playlists)
+			.set({ name, updatedAt: sql`CURRENT_TIMESTAMP` })
+			.where(eq(playlists.id, id))
+			.run();
+
+		return null;
+	} catch (error) {
+		console.error("[playlists.repository] renamePlaylist failed:", error);
+		return new Error("Failed to rename playlist");
+	}
+}
+
+export function deletePlaylist(id: number) {
+	try {
+		const deleted = database
+			.delete(playlists)
+			.where(eq(playlists.id, id))
+			.returning({ id: playlists.id })
+			.all();
+
+		return deleted.length > 0;
+	} catch (error) {
+		console.error("[playlists.repository] deletePlaylist failed:", error);
+		return new Error("Failed to delete playlist");
+	}
+}
+
+export function getPlaylistItems(playlistId: number): Array<PlaylistItem> | Error {
+	try {
+		return database
+			.select(PLAYLIST_ITEM_COLUMNS)
+			.from(playlistItems)
+			.where(eq(playlistItems.playlistId, playlistId))
+			.orderBy(asc(playlistItems.sortOrder), asc(playlistItems.id))
+			.all();
+	} catch (error) {
+		console.error("[playlists.repository] getPlaylistItems failed:", error);
+		return new Error("Failed to get playlist items");
+	}
+}
+
+/**
+ * Appends a VOD to the end of a playlist. Adding a VOD that is already
+ * in the playlist keeps its current place.
+ */
+export function addPlaylistItem(playlistId: number, item: NewPlaylistItem) {
+	try {
+		database.transaction((transaction) => {
+			const result = transaction
+				.select({ maxOrder: max(playlistItems.sortOrder) })
+				.from(playlistItems)
+				.where(eq(playlistItems.playlistId, playlistId))
+				.get();
+
+			const sortOrder =
+				result?.maxOrder !== null && result?.maxOrder !== undefined
+					? result.maxOrder + 1
+					: 0;
+
+			transaction
+				.insert(playlistItems)
+				.values({ ...item, playlistId, sortOrder })
+				.onConflictDoNothing()
+				.run();
+
+			transaction
+				.update(playlists)
+				.set({ updatedAt: sql`CURRENT_TIMESTAMP` })
+				.where(eq(playlists.id, playlistId))
+				.run();
+		});
+
+		return null;
+	} catch (error) {
+		console.error("[playlists.repository] addPlaylistItem failed:", error);
+		return new Error("Failed to add VOD to playlist");
+	}
+}
+
+export function removePlaylistItem(playlistId: number, vodId: string) {
+	try {
+		const deleted = database
+			.delete(playlistItems)
+			.where(and(eq(playlistItems.playlistId, playlistId), eq(playlistItems.vodId, vodId)))
+			.returning({ id: playlistItems.id })
+			.all();
+
+		return deleted.length > 0;
+	} catch (error) {
+		console.error("[playlists.repository] removePlaylistItem failed:", error);
+		return new Error("Failed to remove VOD from playlist");
+	}
+}
+
+export function reorderPlaylistItems(playlistId: number, orderedVodIds: Array<string>) {
+	try {
+		database.transaction((transaction) => {
+			for (let index = 0; index < orderedVodIds.length; index++) {
+				const vodId = orderedVodIds[index];
+
+				if (vodId !== undefined) {
+					transaction
+						.update(playlistItems)
+						.set({ sortOrder: index })
+						.where(
+							and(
+								eq(playlistItems.playlistId, playlistId),
+								eq(playlistItems.vodId, vodId),
+							),
+						)
+						.run();
+				}
+			}
+		});
+
+		return null;
+	} catch (error) {
+		console.error("[playlists.repository] reorderPlaylistItems failed:", error);
+		return new Error("Failed to reorder playlist");
+	}
+}
+
+/**
+ * Finds the first item that hasn't been watched yet, with its saved position.
+ * VODs that aren't cached have no saved progress and start from the beginning.
+ */
+export function getNextUnwatchedItem(playlistId: number): NextPlaylistItem | null | Error {
+	try {
+		const row = database
+			.select({
+				...PLAYLIST_ITEM_COLUMNS,
+				cachedPositionSeconds: vods.playbackPositionSeconds,
+			})
+			.from(playlistItems)
+			.leftJoin(vods, eq(playlistItems.vodId, vods.vodId))
+			.leftJoin(watchedVods, eq(playlistItems.vodId, watchedVods.vodId))
+			.where(and(eq(playlistItems.playlistId, playlistId), isNull(watchedVods.vodId)))
+			.orderBy(asc(playlistItems.sortOrder), asc(playlistItems.id))
+			.get();
+
+		if (row === undefined) {
+			return null;
+		}
+
+		const { cachedPositionSeconds, ...item } = row;
+		return { ...item, playbackPositionSeconds: cachedPositionSeconds ?? 0 };
+	} catch (error) {
+		console.error("[playlists.repository] getNextUnwatchedItem failed:", error);
+		return new Error("Failed to get next playlist item");
+	}
+}
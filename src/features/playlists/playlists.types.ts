@@ -0,0 +1,38 @@
+import type { PlayerSession } from "@/src/features/sessions/sessions.types";
+import type { TwitchVideoType } from "@/src/services/twitch-service";
+
+export type Playlist = {
+	id: number;
+	name: string;
+	isWatchLater: boolean;
+	itemCount: number;
+	createdAt: string;
+};
+
+export type PlaylistItem = {
+	id: number;
+	vodId: string;
+	channelName: string;
+	title: string;
+	durationSeconds: number;
+	thumbnailUrl: string;
+	videoType: TwitchVideoType;
+	vodCreatedAt: string;
+	addedAt: string;
+};
+
+export type NewPlaylistItem = Omit<PlaylistItem, "id" | "addedAt">;
+
+export type PlaylistDetails = {
+	playlist: Playlist;
+	items: Array<PlaylistItem>;
+};
+
+export type NextPlaylistItem = PlaylistItem & {
+	playbackPositionSeconds: number;
+};
+
+export type PlayNextResponse = {
+	item: PlaylistItem;
+	session: PlayerSession;
+};
@@ -0,0 +1,141 @@
+import { isPlayerSession } from "@/src/features/sessions/sessions.validators";
+import { isTwitchVideoType } from "@/src/features/vods/vods.validators";
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { Playlist, PlaylistDetails, PlaylistItem, PlayNextResponse } from "./playlists.types";
+
+const MAX_NAME_LENGTH = 50;
+const MAX_PLAYLIST_ITEMS = 500;
+const VOD_ID_PATTERN = /^[0-9]+$/;
+
+export function parsePlaylistId(value: string) {
+	const id = Number(value);
+
+	if (!Number.isInteger(id) || id <= 0) {
+		return new Error("Playlist id must be a positive integer");
+	}
+
+	return id;
+}
+
+export function validatePlaylistNameRequest(body: unknown) {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	if (typeof body.name !== "string") {
+		return new Error("name is required and must be a string");
+	}
+
+	const name = body.name.trim();
+
+	if (name === "") {
+		return new Error("name must not be empty");
+	}
+
+	if (name.length > MAX_NAME_LENGTH) {
+		return new Error(`name must not exceed ${MAX_NAME_LENGTH} characters`);
+	}
+
+	return { name };
+}
+
+export function validateAddPlaylistItemRequest(body: unknown) {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	if (typeof body.vodId !== "string" || !VOD_ID_PATTERN.test(body.vodId)) {
+		return new Error("Invalid VOD ID");
+	}
+
+	return { vodId: body.vodId };
+}
+
+export function validateReorderPlaylistRequest(body: unknown) {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	if (!Array.isArray(body.orderedVodIds)) {
+		return new Error("orderedVodIds is required and must be an array");
+	}
+
+	if (body.orderedVodIds.length > MAX_PLAYLIST_ITEMS) {
+		return new Error(`orderedVodIds must not exceed ${MAX_PLAYLIST_ITEMS} items`);
+	}
+
+	const orderedVodIds: Array<string> = [];
+	for (const vodId of body.orderedVodIds) {
+		if (typeof vodId !== "string" || !VOD_ID_PATTERN.test(vodId)) {
+			return new Error("orderedVodIds must be an array of VOD IDs");
+		}
+
+		orderedVodIds.push(vodId);
+	}
+
+	return { orderedVodIds };
+}
+
+function isPlaylist(value: unknown): value is Playlist {
+	return (
+		isRecord(value) &&
+		typeof value.id === "number" &&
+		typeof value.name === "string" &&
+		typeof value.isWatchLater === "boolean" &&
+		typeof value.itemCount === "number" &&
+		typeof value.createdAt === "string"
+	);
+}
+
+function isPlaylistItem(value: unknown): value is PlaylistItem {
+	return (
+		isRecord(value) &&
+		typeof value.id === "number" &&
+		typeof value.vodId === "string" &&
+		typeof value.channelName === "string" &&
+		typeof value.title === "string" &&
+		typeof value.durationSeconds === "number" &&
+		typeof value.thumbnailUrl === "string" &&
+		isTwitchVideoType(value.videoType) &&
+		typeof value.vodCreatedAt === "string" &&
+		typeof value.addedAt === "string"
+	);
+}
+
+export function parsePlaylistsResponse(data: unknown): Array<Playlist> | Error {
+	if (!isRecord(data) || !Array.isArray(data.playlists) || !data.playlists.every(isPlaylist)) {
+		return new Error("Invalid playlists response");
+	}
+
+	return data.playlists;
+}
+
+export function parsePlaylistResponse(data: unknown): Playlist | Error {
+	if (!isRecord(data) || !isPlaylist(data.playlist)) {
+		return new Error("Invalid playlist response");
+	}
+
+	return data.playlist;
+}
+
+export function parsePlaylistDetailsResponse(data: unknown): PlaylistDetails | Error {
+	if (
+		!isRecord(data) ||
+		!isPlaylist(data.playlist) ||
+		!Array.isArray(data.items) ||
+		!data.items.every(isPlaylistItem)
+	) {
+		return new Error("Invalid playlist response");
+	}
+
+	return { playlist: data.playlist, items: data.items };
+}
+
+export function parsePlayNextResponse(data: unknown): PlayNextResponse | Error {
+	if (!isRecord(data) || !isPlaylistItem(data.item) || !isPlayerSession(data.session)) {
+		return new Error("Invalid play next response");
+	}
+
+	return { item: data.item, session: data.session };
+}
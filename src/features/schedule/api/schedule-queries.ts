@@ -0,0 +1,21 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseScheduleResponse } from "../schedule.validators";
+
+export async function fetchSchedule(start: string, end: string) {
+	const params = new URLSearchParams({ start, end });
+	const response = await fetch(`/api/schedule?${params.toString()}`);
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch schedule");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseScheduleResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
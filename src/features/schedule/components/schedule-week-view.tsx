@@ -0,0 +1,129 @@
+import { Link } from "@tanstack/react-router";
+import { memo, useState } from "react";
+
+import type { ScheduleSegment } from "@/src/features/schedule/schedule.types";
+
+type ScheduleWeekViewProps = {
+	weekStart: Date;
+	segments: Array<ScheduleSegment>;
+};
+
+const DAYS_PER_WEEK = 7;
+
+function getDayKey(date: Date) {
+	return date.toDateString();
+}
+
+function formatTime(value: string) {
+	return new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+function getTimeRangeLabel(segment: ScheduleSegment) {
+	if (segment.endTime === null) {
+		return formatTime(segment.startTime);
+	}
+
+	return `${formatTime(segment.startTime)} – ${formatTime(segment.endTime)}`;
+}
+
+function getWeekDays(weekStart: Date) {
+	const days: Array<Date> = [];
+	for (let offset = 0; offset < DAYS_PER_WEEK; offset++) {
+		const day = new Date(weekStart);
+		day.setDate(weekStart.getDate() + offset);
+		days.push(day);
+	}
+	return days;
+}
+
+// Segments are listed on the local day they start, even if they run past midnight
+function groupSegmentsByDay(segments: Array<ScheduleSegment>) {
+	const groups = new Map<string, Array<ScheduleSegment>>();
+	for (const segment of segments) {
+		const key = getDayKey(new Date(segment.startTime));
+		const group = groups.get(key);
+		if (group === undefined) {
+			groups.set(key, [segment]);
+		} else {
+			group.push(segment);
+		}
+	}
+	return groups;
+}
+
+const ScheduleWeekView = memo(function ScheduleWeekView({
+	weekStart,
+	segments,
+}: ScheduleWeekViewProps) {
+	const segmentsByDay = groupSegmentsByDay(segments);
+	const [todayKey] = useState(() => getDayKey(new Date()));
+
+	return (
+		<div className="grid grid-cols-1 gap-3 md:grid-cols-7">
+			{getWeekDays(weekStart).map((day) => {
+				const dayKey = getDayKey(day);
+				const daySegments = segmentsByDay.get(dayKey) ?? [];
+				const isToday = dayKey === todayKey;
+
+				return (
+					<div
+						key={dayKey}
+						className={`min-h-40 rounded-lg border bg-surface-card p-3 ${
+							isToday ? "border-twitch-purple" : "border-surface-border-muted"
+						}`}
+					>
+						<div className="mb-3 flex items-baseline justify-between">
+							<span className="text-sm font-semibold text-text-primary">
+								{day.toLocaleDateString([], { weekday: "short" })}
+							</span>
+							<span
+								className={`text-xs ${isToday ? "text-twitch-purple-light" : "text-text-dim"}`}
+							>
+								{day.toLocaleDateString([], { month: "short", day: "numeric" })}
+							</span>
+						</div>
+
+						{daySegments.length === 0 && (
+							<p className="text-xs text-text-dim">Nothing scheduled</p>
+						)}
+
+						<ul className="flex flex-col gap-2">
+							{daySegments.map((segment) => (
+								<li
+									key={segment.id}
+									className="rounded-md bg-surface-elevated px-2.5 py-2 text-xs"
+								>
+									<div className="mb-1 text-text-muted">
+										{getTimeRangeLabel(segment)}
+									</div>
+									<Link
+										to="/channels/$id"
+										params={{ id: segment.channelId }}
+										className="block truncate font-semibold text-twitch-purple-light hover:underline"
+									>
+										{segment.channelName}
+									</Link>
+									{segment.title !== "" && (
+										<div
+											className="mt-0.5 line-clamp-2 text-text-primary"
+											title={segment.title}
+										>
+											{segment.title}
+										</div>
+									)}
+									{segment.categoryName !== null && (
+										<div className="mt-0.5 truncate text-text-dim">
+											{segment.categoryName}
+										</div>
+									)}
+								</li>
+							))}
+						</ul>
+					</div>
+				);
+			})}
+		</div>
+	);
+});
+
+export { ScheduleWeekView };
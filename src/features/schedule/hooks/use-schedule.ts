@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { fetchSchedule } from "@/src/features/schedule/api/schedule-queries";
+import { getScheduleQueryKey } from "@/src/shared/query-keys";
+
+import type { ScheduleSegment } from "@/src/features/schedule/schedule.types";
+
+const EMPTY_SEGMENTS: Array<ScheduleSegment> = [];
+
+export function useSchedule(start: string, end: string) {
+	const { data, isLoading, error } = useQuery({
+		queryKey: getScheduleQueryKey(start, end),
+		queryFn: () => fetchSchedule(start, end),
+	});
+
+	return {
+		segments: data ?? EMPTY_SEGMENTS,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
@@ -0,0 +1,87 @@
+import { and, asc, eq, gt, gte, lt, notInArray, or } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { scheduleSegments } from "@/src/db/schema";
+
+import type { ScheduleSegment } from "./schedule.types";
+
+const SCHEDULE_SEGMENT_COLUMNS = {
+	id: scheduleSegments.id,
+	channelId: scheduleSegments.channelId,
+	channelName: scheduleSegments.channelName,
+	title: scheduleSegments.title,
+	categoryName: scheduleSegments.categoryName,
+	startTime: scheduleSegments.startTime,
+	endTime: scheduleSegments.endTime,
+	isRecurring: scheduleSegments.isRecurring,
+};
+
+/**
+ * Swaps a channel's cached segments for a fresh fetch, so edits and cancellations on
+ * Twitch drop the old occurrences.
+ */
+export function replaceChannelSchedule(
+	channelId: string,
+	segments: Array<ScheduleSegment>,
+	fetchedAt: string,
+) {
+	try {
+		database.transaction((transaction) => {
+			transaction
+				.delete(scheduleSegments)
+				.where(eq(scheduleSegments.channelId, channelId))
+				.run();
+
+			for (const segment of segments) {
+				transaction
+					.insert(scheduleSegments)
+					.values({ ...segment, fetchedAt })
+					.onConflictDoNothing()
+					.run();
+			}
+		});
+
+		return null;
+	} catch (error) {
+		console.error("[schedule.repository] replaceChannelSchedule failed:", error);
+		return new Error("Failed to save channel schedule");
+	}
+}
+
+export function pruneScheduleSegments(keepChannelIds: Array<string>) {
+	try {
+		database
+			.delete(scheduleSegments)
+			.where(
+				keepChannelIds.length > 0
+					? notInArray(scheduleSegments.channelId, keepChannelIds)
+					: undefined,
+			)
+			.run();
+
+		return null;
+	} catch (error) {
+		console.error("[schedule.repository] pruneScheduleSegments failed:", error);
+		return new Error("Failed to prune schedule segments");
+	}
+}
+
+// Segments without an end time count as overlapping only at their start
+export function getScheduleSegments(start: string, end: string) {
+	try {
+		return database
+			.select(SCHEDULE_SEGMENT_COLUMNS)
+			.from(scheduleSegments)
+			.where(
+				and(
+					lt(scheduleSegments.startTime, end),
+					or(gte(scheduleSegments.startTime, start), gt(scheduleSegments.endTime, start)),
+				),
+			)
+			.orderBy(asc(scheduleSegments.startTime))
+			.all();
+	} catch (error) {
+		console.error("[schedule.repository] getScheduleSegments failed:", error);
+		return new Error("Failed to get schedule segments");
+	}
+}
@@ -0,0 +1,16 @@
+export type ScheduleSegment = {
+	id: string;
+	channelId: string;
+	channelName: string;
+	title: string;
+	categoryName: string | null;
+	startTime: string;
+	// Null for segments without a set length
+	endTime: string | null;
+	isRecurring: boolean;
+};
+
+export type ScheduleRange = {
+	start: string;
+	end: string;
+};
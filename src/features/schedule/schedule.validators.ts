@@ -0,0 +1,67 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { ScheduleRange, ScheduleSegment } from "./schedule.types";
+
+const MAX_RANGE_DAYS = 31;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function parseTimestamp(value: string | null, fieldName: string) {
+	if (value === null) {
+		return new Error(`${fieldName} is required`);
+	}
+
+	const time = new Date(value).getTime();
+
+	if (Number.isNaN(time)) {
+		return new Error(`${fieldName} must be an ISO timestamp`);
+	}
+
+	return time;
+}
+
+export function parseScheduleRange(
+	startValue: string | null,
+	endValue: string | null,
+): ScheduleRange | Error {
+	const start = parseTimestamp(startValue, "start");
+	if (start instanceof Error) {
+		return start;
+	}
+
+	const end = parseTimestamp(endValue, "end");
+	if (end instanceof Error) {
+		return end;
+	}
+
+	if (end <= start) {
+		return new Error("end must be after start");
+	}
+
+	if (end - start > MAX_RANGE_DAYS * MS_PER_DAY) {
+		return new Error(`Range must not exceed ${MAX_RANGE_DAYS} days`);
+	}
+
+	return { start: new Date(start).toISOString(), end: new Date(end).toISOString() };
+}
+
+function isScheduleSegment(value: unknown): value is ScheduleSegment {
+	return (
+		isRecord(value) &&
+		typeof value.id === "string" &&
+		typeof value.channelId === "string" &&
+		typeof value.channelName === "string" &&
+		typeof value.title === "string" &&
+		(value.categoryName === null || typeof value.categoryName === "string") &&
+		typeof value.startTime === "string" &&
+		(value.endTime === null || typeof value.endTime === "string") &&
+		typeof value.isRecurring === "boolean"
+	);
+}
+
+export function parseScheduleResponse(data: unknown): Array<ScheduleSegment> | Error {
+	if (!Array.isArray(data) || !data.every(isScheduleSegment)) {
+		return new Error("Invalid schedule response");
+	}
+
+	return data;
+}
@@ -0,0 +1,10 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+export async function stopSession(sessionId: string) {
+	const response = await fetch(`/api/sessions/${sessionId}`, { method: "DELETE" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to stop session");
+		throw new Error(message);
+	}
+}
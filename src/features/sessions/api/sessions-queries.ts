@@ -0,0 +1,20 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseSessionsResponse } from "../sessions.validators";
+
+export async function fetchSessions() {
+	const response = await fetch("/api/sessions");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch sessions");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseSessionsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
@@ -0,0 +1,136 @@
+import { memo, useEffect, useRef, useState } from "react";
+
+import { useSessions, useStopSession } from "@/src/features/sessions/hooks/use-sessions";
+import { formatDurationSeconds } from "@/src/shared/utils/format";
+
+import type { PlayerSession } from "@/src/features/sessions/sessions.types";
+
+function getSessionKindLabel(session: PlayerSession) {
+	if (session.kind === "live") return "Live";
+	if (session.kind === "vod") return "VOD";
+	if (session.kind === "clip") return "Clip";
+	return "Chat";
+}
+
+function getSessionTitle(session: PlayerSession) {
+	if (session.title !== null) {
+		return session.title;
+	}
+
+	if (session.channelName !== null) {
+		return session.channelName;
+	}
+
+	return session.vodId ?? "Unknown";
+}
+
+function getElapsedLabel(startedAt: string) {
+	const elapsedSeconds = Math.floor((Date.now() - new Date(startedAt).getTime()) / 1000);
+	return formatDurationSeconds(elapsedSeconds);
+}
+
+type SessionRowProps = {
+	session: PlayerSession;
+	isStopping: boolean;
+	onStop: (sessionId: string) => void;
+};
+
+const SessionRow = memo(function SessionRow({ session, isStopping, onStop }: SessionRowProps) {
+	return (
+		<li className="flex items-center gap-3 px-4 py-3">
+			<span className="shrink-0 rounded bg-surface-elevated px-2 py-0.5 text-xs font-semibold uppercase text-text-muted">
+				{getSessionKindLabel(session)}
+			</span>
+			<div className="min-w-0 flex-1">
+				<div
+					className="truncate text-sm text-text-primary"
+					title={getSessionTitle(session)}
+				>
+					{getSessionTitle(session)}
+				</div>
+				<div className="text-xs text-text-dim">
+					{session.channelName !== null && session.title !== null && (
+						<span className="mr-2">{session.channelName}</span>
+					)}
+					<span>{getElapsedLabel(session.startedAt)}</span>
+				</div>
+			</div>
+			<button
+				type="button"
+				onClick={() => onStop(session.id)}
+				disabled={isStopping}
+				className="shrink-0 rounded-md border border-surface-border-muted px-3 py-1.5 text-xs font-semibold text-text-muted transition-all hover:border-live hover:text-live enabled:cursor-pointer disabled:opacity-50"
+			>
+				Stop
+			</button>
+		</li>
+	);
+});
+
+const NowWatchingIndicator = memo(function NowWatchingIndicator() {
+	const [isOpen, setIsOpen] = useState(false);
+	const containerRef = useRef<HTMLDivElement>(null);
+
+	const { runningSessions } = useSessions();
+	const stopSessionMutation = useStopSession();
+
+	useEffect(() => {
+		if (!isOpen) {
+			return;
+		}
+
+		function handlePointerDown(event: MouseEvent) {
+			if (
+				containerRef.current !== null &&
+				event.target instanceof Node &&
+				!containerRef.current.contains(event.target)
+			) {
+				setIsOpen(false);
+			}
+		}
+
+		document.addEventListener("mousedown", handlePointerDown);
+		return () => document.removeEventListener("mousedown", handlePointerDown);
+	}, [isOpen]);
+
+	if (runningSessions.length === 0) {
+		return null;
+	}
+
+	return (
+		<div ref={containerRef} className="relative">
+			<button
+				type="button"
+				onClick={() => setIsOpen((previous) => !previous)}
+				aria-expanded={isOpen}
+				className="flex items-center gap-2 rounded-md px-3 py-2.5 text-sm font-semibold text-twitch-purple-light transition-all hover:bg-surface-elevated cursor-pointer"
+			>
+				<span className="relative flex h-2.5 w-2.5">
+					<span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-twitch-purple opacity-75" />
+					<span className="relative inline-flex h-2.5 w-2.5 rounded-full bg-twitch-purple" />
+				</span>
+				Now watching ({runningSessions.length})
+			</button>
+
+			{isOpen && (
+				<div className="absolute right-0 top-full mt-2 w-96 overflow-hidden rounded-lg border border-surface-border bg-surface-card shadow-xl">
+					<ul className="divide-y divide-surface-border-muted">
+						{runningSessions.map((session) => (
+							<SessionRow
+								key={session.id}
+								session={session}
+								isStopping={
+									stopSessionMutation.isPending &&
+									stopSessionMutation.variables === session.id
+								}
+								onStop={stopSessionMutation.mutate}
+							/>
+						))}
+					</ul>
+				</div>
+			)}
+		</div>
+	);
+});
+
+export { NowWatchingIndicator };
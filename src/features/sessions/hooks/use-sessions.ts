@@ -0,0 +1,108 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useMemo, useRef } from "react";
+
+import { stopSession } from "@/src/features/sessions/api/sessions-mutations";
+import { fetchSessions } from "@/src/features/sessions/api/sessions-queries";
+import { QUERY_KEYS } from "@/src/shared/query-keys";
+
+import type { PlayerSession } from "@/src/features/sessions/sessions.types";
+
+const EMPTY_SESSIONS: Array<PlayerSession> = [];
+
+// Polled so closing a player window clears the indicator without a page refresh
+const SESSIONS_REFETCH_INTERVAL_MS = 5_000;
+
+export type WatchingState = {
+	liveChannelNames: Set<string>;
+	vodIds: Set<string>;
+};
+
+function getRunningSessions(sessions: Array<PlayerSession>) {
+	const running: Array<PlayerSession> = [];
+	for (const session of sessions) {
+		if (session.status === "running") {
+			running.push(session);
+		}
+	}
+	return running;
+}
+
+// Changes whenever a player exits, which is when the server saves the final VOD position
+// and the watch duration
+function getFinishedPlayerSessionsKey(sessions: Array<PlayerSession>) {
+	const ids: Array<string> = [];
+	for (const session of sessions) {
+		if (session.kind !== "chat" && session.status !== "running") {
+			ids.push(session.id);
+		}
+	}
+	return ids.join(",");
+}
+
+function getWatchingState(runningSessions: Array<PlayerSession>): WatchingState {
+	const liveChannelNames = new Set<string>();
+	const vodIds = new Set<string>();
+
+	for (const session of runningSessions) {
+		if (session.kind === "live" && session.channelName !== null) {
+			liveChannelNames.add(session.channelName.toLowerCase());
+		}
+		if (session.kind === "vod" && session.vodId !== null) {
+			vodIds.add(session.vodId);
+		}
+	}
+
+	return { liveChannelNames, vodIds };
+}
+
+export function useSessions() {
+	const queryClient = useQueryClient();
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.sessions,
+		queryFn: fetchSessions,
+		refetchInterval: SESSIONS_REFETCH_INTERVAL_MS,
+		refetchIntervalInBackground: false,
+	});
+
+	const sessions = data ?? EMPTY_SESSIONS;
+	const runningSessions = useMemo(() => getRunningSessions(sessions), [sessions]);
+	const watchingState = useMemo(() => getWatchingState(runningSessions), [runningSessions]);
+	const finishedPlayerSessionsKey = useMemo(
+		() => getFinishedPlayerSessionsKey(sessions),
+		[sessions],
+	);
+	const previousFinishedPlayerSessionsKey = useRef<string | null>(null);
+
+	useEffect(() => {
+		if (data === undefined) {
+			return;
+		}
+
+		const previousKey = previousFinishedPlayerSessionsKey.current;
+		previousFinishedPlayerSessionsKey.current = finishedPlayerSessionsKey;
+
+		if (previousKey !== null && previousKey !== finishedPlayerSessionsKey) {
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.vodProgress });
+			void queryClient.invalidateQueries({ queryKey: QUERY_KEYS.history });
+		}
+	}, [data, finishedPlayerSessionsKey, queryClient]);
+
+	return {
+		sessions,
+		runningSessions,
+		watchingState,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+export function useStopSession() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: stopSession,
+		onSettled: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.sessions });
+		},
+	});
+}
@@ -0,0 +1,19 @@
+export type PlayerSessionKind = "live" | "vod" | "clip" | "chat";
+
+export type PlayerSessionStatus = "running" | "exited" | "failed";
+
+export type PlayerSessionTarget = {
+	kind: PlayerSessionKind;
+	channelName: string | null;
+	vodId: string | null;
+	title: string | null;
+};
+
+export type PlayerSession = PlayerSessionTarget & {
+	id: string;
+	pid: number | null;
+	status: PlayerSessionStatus;
+	startedAt: string;
+	exitedAt: string | null;
+	exitCode: number | null;
+};
@@ -0,0 +1,52 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { PlayerSession } from "./sessions.types";
+
+function isNullableString(value: unknown) {
+	return value === null || typeof value === "string";
+}
+
+export function isPlayerSession(value: unknown): value is PlayerSession {
+	if (!isRecord(value)) {
+		return false;
+	}
+
+	const kindValid =
+		value.kind === "live" ||
+		value.kind === "vod" ||
+		value.kind === "clip" ||
+		value.kind === "chat";
+	const statusValid =
+		value.status === "running" || value.status === "exited" || value.status === "failed";
+	const pidValid = value.pid === null || typeof value.pid === "number";
+	const exitCodeValid = value.exitCode === null || typeof value.exitCode === "number";
+
+	return (
+		typeof value.id === "string" &&
+		kindValid &&
+		statusValid &&
+		pidValid &&
+		exitCodeValid &&
+		isNullableString(value.channelName) &&
+		isNullableString(value.vodId) &&
+		isNullableString(value.title) &&
+		typeof value.startedAt === "string" &&
+		isNullableString(value.exitedAt)
+	);
+}
+
+export function parseSessionsResponse(data: unknown): Array<PlayerSession> | Error {
+	if (!isRecord(data) || !Array.isArray(data.sessions)) {
+		return new Error("Invalid sessions response");
+	}
+
+	const sessions: Array<PlayerSession> = [];
+	for (const session of data.sessions) {
+		if (!isPlayerSession(session)) {
+			return new Error("Invalid sessions response");
+		}
+		sessions.push(session);
+	}
+
+	return sessions;
+}
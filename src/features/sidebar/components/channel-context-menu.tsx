@@ -0,0 +1,143 @@
+import { Link } from "@tanstack/react-router";
+import { memo, useEffect, useRef } from "react";
+
+import type { SidebarChannel } from "@/src/features/sidebar/sidebar.types";
+
+export type ChannelContextMenuState = {
+	channel: SidebarChannel;
+	x: number;
+	y: number;
+};
+
+type ChannelContextMenuProps = {
+	menu: ChannelContextMenuState;
+	onClose: () => void;
+	onFavoriteToggle: (id: string) => void;
+	onHide: (channel: SidebarChannel) => void;
+	onUnfollow: (channel: SidebarChannel) => void;
+};
+
+const MENU_ITEM_CLASS_NAME =
+	"block w-full px-3 py-2 text-left text-sm text-sidebar-text transition-colors hover:bg-sidebar-hover cursor-pointer";
+
+function getFollowSourceLabel(channel: SidebarChannel) {
+	if (channel.followSource === "twitch") {
+		return "Followed on Twitch";
+	}
+
+	if (channel.followSource === "local") {
+		return "Followed in this app";
+	}
+
+	return "Not followed";
+}
+
+const ChannelContextMenu = memo(function ChannelContextMenu({
+	menu,
+	onClose,
+	onFavoriteToggle,
+	onHide,
+	onUnfollow,
+}: ChannelContextMenuProps) {
+	const menuRef = useRef<HTMLDivElement>(null);
+	const { channel } = menu;
+
+	useEffect(() => {
+		function handlePointerDown(event: MouseEvent) {
+			if (
+				menuRef.current !== null &&
+				event.target instanceof Node &&
+				!menuRef.current.contains(event.target)
+			) {
+				onClose();
+			}
+		}
+
+		function handleKeyDown(event: KeyboardEvent) {
+			if (event.key === "Escape") {
+				onClose();
+			}
+		}
+
+		document.addEventListener("mousedown", handlePointerDown);
+		document.addEventListener("keydown", handleKeyDown);
+		window.addEventListener("resize", onClose);
+		// Capture so scrolling the sidebar list closes the menu too
+		window.addEventListener("scroll", onClose, true);
+
+		return () => {
+			document.removeEventListener("mousedown", handlePointerDown);
+			document.removeEventListener("keydown", handleKeyDown);
+			window.removeEventListener("resize", onClose);
+			window.removeEventListener("scroll", onClose, true);
+		};
+	}, [onClose]);
+
+	function handleFavoriteClick() {
+		onFavoriteToggle(channel.id);
+		onClose();
+	}
+
+	function handleHideClick() {
+		onHide(channel);
+		onClose();
+	}
+
+	function handleUnfollowClick() {
+		onUnfollow(channel);
+		onClose();
+	}
+
+	return (
+		<div
+			ref={menuRef}
+			role="menu"
+			style={{ left: menu.x, top: menu.y }}
+			className="fixed z-[60] min-w-48 overflow-hidden rounded-lg border border-sidebar-border bg-sidebar-bg py-1 shadow-lg"
+		>
+			<div className="border-b border-sidebar-border px-3 pb-2 pt-1">
+				<div className="truncate text-sm font-semibold text-sidebar-text">
+					{channel.channelName}
+				</div>
+				<div className="text-xs text-sidebar-text-dim">{getFollowSourceLabel(channel)}</div>
+			</div>
+			<Link
+				to="/channels/$id"
+				params={{ id: channel.id }}
+				role="menuitem"
+				onClick={onClose}
+				className={MENU_ITEM_CLASS_NAME}
+			>
+				View channel
+			</Link>
+			<button
+				type="button"
+				role="menuitem"
+				onClick={handleFavoriteClick}
+				className={MENU_ITEM_CLASS_NAME}
+			>
+				{channel.rank === "favorite" ? "Remove from favorites" : "Add to favorites"}
+			</button>
+			<button
+				type="button"
+				role="menuitem"
+				onClick={handleHideClick}
+				className={MENU_ITEM_CLASS_NAME}
+			>
+				Hide channel
+			</button>
+			{channel.followSource !== null && (
+				<button
+					type="button"
+					role="menuitem"
+					onClick={handleUnfollowClick}
+					className={`${MENU_ITEM_CLASS_NAME} text-live`}
+				>
+					Unfollow
+				</button>
+			)}
+		</div>
+	);
+});
+
+export { ChannelContextMenu };
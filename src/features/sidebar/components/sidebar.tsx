@@ -1,18 +1,29 @@
 import { useQueryClient } from "@tanstack/react-query";
-import { memo, useCallback, useMemo } from "react";
+import { memo, useCallback, useMemo, useState } from "react";
 
-import { toggleFavorite, watchLive } from "@/src/features/channels/api/channels-mutations";
+import { toggleFavorite } from "@/src/features/channels/api/channels-mutations";
+import { useUnfollowChannel } from "@/src/features/channels/hooks/use-channels";
+import { useWatchLive } from "@/src/features/channels/hooks/use-launch";
+import { useHideChannel } from "@/src/features/hidden-channels/hooks/use-hidden-channels";
+import { useSessions } from "@/src/features/sessions/hooks/use-sessions";
+import { ChannelContextMenu } from "@/src/features/sidebar/components/channel-context-menu";
 import { useFollowedChannels } from "@/src/features/sidebar/hooks/use-followed-channels";
-import { StarIcon } from "@/src/shared/components/icons";
+import { EyeSlashIcon, GridIcon, StarIcon } from "@/src/shared/components/icons";
+import { useMultiView } from "@/src/shared/context/multi-view-context";
 import { QUERY_KEYS } from "@/src/shared/query-keys";
 import { formatDate, formatViewers } from "@/src/shared/utils/format";
 
+import type { WatchingState } from "@/src/features/sessions/hooks/use-sessions";
+import type { ChannelContextMenuState } from "@/src/features/sidebar/components/channel-context-menu";
 import type { SidebarChannel } from "@/src/features/sidebar/sidebar.types";
 
 type ChannelItemProps = {
 	channel: SidebarChannel;
 	isExpanded: boolean;
+	isWatching: boolean;
 	onFavoriteToggle: (id: string) => void;
+	onHide: (channel: SidebarChannel) => void;
+	onOpenMenu: (channel: SidebarChannel, x: number, y: number) => void;
 };
 
 function getOfflineStatusText(lastSeenAt: string | null): string {
@@ -22,6 +33,16 @@ function getOfflineStatusText(lastSeenAt: string | null): string {
 	return "Offline";
 }
 
+function getMultiViewButtonClassName(isSelected: boolean) {
+	const base = "shrink-0 p-1.5 rounded-md transition-all duration-200 cursor-pointer";
+
+	if (isSelected) {
+		return `${base} opacity-100 text-twitch-purple-light`;
+	}
+
+	return `${base} opacity-0 group-hover:opacity-100 text-sidebar-text-dim hover:text-twitch-purple-light hover:bg-sidebar-hover`;
+}
+
 type CategorizedChannels = {
 	live: Array<SidebarChannel>;
 	offline: Array<SidebarChannel>;
@@ -45,10 +66,21 @@ function categorizeChannels(channels: Array<SidebarChannel>): CategorizedChannel
 type ChannelAvatarProps = {
 	channel: SidebarChannel;
 	isExpanded: boolean;
+	isWatching: boolean;
 };
 
-const ChannelAvatar = memo(function ChannelAvatar({ channel, isExpanded }: ChannelAvatarProps) {
-	const ringColor = channel.isLive ? "ring-live" : "ring-sidebar-text-dim";
+function getAvatarRingColor(isLive: boolean, isWatching: boolean) {
+	if (isWatching) return "ring-twitch-purple";
+	if (isLive) return "ring-live";
+	return "ring-sidebar-text-dim";
+}
+
+const ChannelAvatar = memo(function ChannelAvatar({
+	channel,
+	isExpanded,
+	isWatching,
+}: ChannelAvatarProps) {
+	const ringColor = getAvatarRingColor(channel.isLive, isWatching);
 	const glowClass = channel.isLive ? "shadow-[0_0_8px_rgba(255,68,68,0.5)]" : "";
 	const sizeClass = isExpanded ? "h-9 w-9" : "h-8 w-8";
 
@@ -79,12 +111,17 @@ const ChannelAvatar = memo(function ChannelAvatar({ channel, isExpanded }: Chann
 
 const ChannelStatusInfo = memo(function ChannelStatusInfo({
 	channel,
+	isWatching,
 }: {
 	channel: SidebarChannel;
+	isWatching: boolean;
 }) {
 	if (channel.isLive) {
 		return (
 			<div className="flex items-center gap-2 text-sm">
+				{isWatching && (
+					<span className="font-semibold text-twitch-purple-light">Watching</span>
+				)}
 				<span className="font-bold text-live">
 					{formatViewers(channel.viewerCount ?? 0)}
 				</span>
@@ -105,18 +142,25 @@ const ChannelStatusInfo = memo(function ChannelStatusInfo({
 const ChannelItem = memo(function ChannelItem({
 	channel,
 	isExpanded,
+	isWatching,
 	onFavoriteToggle,
+	onHide,
+	onOpenMenu,
 }: ChannelItemProps) {
-	const handleClick = useCallback(async () => {
-		try {
-			await watchLive(channel.channelName);
-		} catch (error) {
-			console.error(
-				"Failed to launch stream:",
-				error instanceof Error ? error.message : error,
-			);
-		}
-	}, [channel.channelName]);
+	const watchLiveMutation = useWatchLive();
+	const { isSelected, isFull, toggleChannel } = useMultiView();
+	const isInMultiView = isSelected(channel.channelName);
+
+	const handleClick = useCallback(() => {
+		watchLiveMutation.mutate(
+			{ channel: channel.channelName },
+			{
+				onError: (error) => {
+					console.error("Failed to launch stream:", error.message);
+				},
+			},
+		);
+	}, [watchLiveMutation, channel.channelName]);
 
 	const handleFavoriteClick = useCallback(
 		(event: React.MouseEvent) => {
@@ -126,43 +170,109 @@ const ChannelItem = memo(function ChannelItem({
 		[channel.id, onFavoriteToggle],
 	);
 
+	const handleHideClick = useCallback(
+		(event: React.MouseEvent) => {
+			event.stopPropagation();
+			onHide(channel);
+		},
+		[channel, onHide],
+	);
+
+	const handleMultiViewClick = useCallback(
+		(event: React.MouseEvent) => {
+			event.stopPropagation();
+			toggleChannel(channel.channelName);
+		},
+		[channel.channelName, toggleChannel],
+	);
+
+	const handleContextMenu = useCallback(
+		(event: React.MouseEvent) => {
+			event.preventDefault();
+			onOpenMenu(channel, event.clientX, event.clientY);
+		},
+		[channel, onOpenMenu],
+	);
+
 	if (!isExpanded) {
 		return (
 			<button
 				onClick={handleClick}
+				onContextMenu={handleContextMenu}
 				title={`${channel.channelName}${channel.isLive ? " (LIVE)" : ""}`}
 				className="group flex w-full items-center justify-center py-2 transition-colors hover:bg-sidebar-hover rounded-lg"
 			>
-				<ChannelAvatar channel={channel} isExpanded={false} />
+				<ChannelAvatar channel={channel} isExpanded={false} isWatching={isWatching} />
 			</button>
 		);
 	}
 
+	const isFavorite = channel.rank === "favorite";
+
 	return (
-		<div className="group flex w-full items-center gap-3 rounded-lg px-3 py-1.5 transition-colors hover:bg-sidebar-hover">
+		<div
+			onContextMenu={handleContextMenu}
+			className="group flex w-full items-center gap-3 rounded-lg px-3 py-1.5 transition-colors hover:bg-sidebar-hover"
+		>
 			<button
 				onClick={handleClick}
 				className="flex flex-1 items-center gap-3 text-left min-w-0 cursor-pointer"
 			>
-				<ChannelAvatar channel={channel} isExpanded={true} />
+				<ChannelAvatar channel={channel} isExpanded={true} isWatching={isWatching} />
 				<div className="min-w-0 flex-1">
-					<div className="truncate text-base font-semibold text-sidebar-text">
-						{channel.channelName}
+					<div className="flex items-center gap-2">
+						<span className="truncate text-base font-semibold text-sidebar-text">
+							{channel.channelName}
+						</span>
+						{channel.followSource === "local" && (
+							<span
+								className="shrink-0 rounded bg-sidebar-hover px-1.5 py-0.5 text-[10px] font-semibold uppercase text-sidebar-text-dim"
+								title="Followed in this app, not on Twitch"
+							>
+								Local
+							</span>
+						)}
+						{channel.unwatchedVodCount > 0 && (
+							<span
+								className="ml-auto shrink-0 rounded-full bg-twitch-purple px-1.5 py-0.5 text-[10px] font-semibold text-white"
+								title={`${channel.unwatchedVodCount} unwatched ${channel.unwatchedVodCount === 1 ? "VOD" : "VODs"}`}
+							>
+								{channel.unwatchedVodCount}
+							</span>
+						)}
 					</div>
-					<ChannelStatusInfo channel={channel} />
+					<ChannelStatusInfo channel={channel} isWatching={isWatching} />
 				</div>
 			</button>
+			{channel.isLive && (isInMultiView || !isFull) && (
+				<button
+					onClick={handleMultiViewClick}
+					className={getMultiViewButtonClassName(isInMultiView)}
+					title={isInMultiView ? "Remove from multi-view" : "Add to multi-view"}
+				>
+					<GridIcon className="h-5 w-5" />
+				</button>
+			)}
 			<button
 				onClick={handleFavoriteClick}
 				className={`shrink-0 p-1.5 rounded-md transition-all duration-200 opacity-0 group-hover:opacity-100 cursor-pointer ${
-					channel.isFavorite
+					isFavorite
 						? "opacity-100 text-favorite hover:text-favorite-hover"
 						: "text-sidebar-text-dim hover:text-favorite hover:bg-sidebar-hover"
 				}`}
-				title={channel.isFavorite ? "Remove from favorites" : "Add to favorites"}
+				title={isFavorite ? "Remove from favorites" : "Add to favorites"}
 			>
-				<StarIcon className="h-5 w-5" filled={channel.isFavorite} />
+				<StarIcon className="h-5 w-5" filled={isFavorite} />
 			</button>
+			{!isFavorite && (
+				<button
+					onClick={handleHideClick}
+					className="shrink-0 p-1.5 rounded-md transition-all duration-200 opacity-0 group-hover:opacity-100 cursor-pointer text-sidebar-text-dim hover:text-sidebar-text hover:bg-sidebar-hover"
+					title="Hide channel"
+				>
+					<EyeSlashIcon className="h-5 w-5" />
+				</button>
+			)}
 		</div>
 	);
 });
@@ -195,13 +305,19 @@ function SidebarError({ isExpanded, message }: SidebarErrorProps) {
 type ChannelListProps = {
 	channels: Array<SidebarChannel>;
 	isExpanded: boolean;
+	watchingState: WatchingState;
 	onFavoriteToggle: (id: string) => void;
+	onHide: (channel: SidebarChannel) => void;
+	onOpenMenu: (channel: SidebarChannel, x: number, y: number) => void;
 };
 
 const ChannelList = memo(function ChannelList({
 	channels,
 	isExpanded,
+	watchingState,
 	onFavoriteToggle,
+	onHide,
+	onOpenMenu,
 }: ChannelListProps) {
 	const { live: liveChannels, offline: offlineChannels } = useMemo(
 		() => categorizeChannels(channels),
@@ -225,7 +341,12 @@ const ChannelList = memo(function ChannelList({
 					key={channel.id}
 					channel={channel}
 					isExpanded={isExpanded}
+					isWatching={watchingState.liveChannelNames.has(
+						channel.channelName.toLowerCase(),
+					)}
 					onFavoriteToggle={onFavoriteToggle}
+					onHide={onHide}
+					onOpenMenu={onOpenMenu}
 				/>
 			))}
 
@@ -234,7 +355,10 @@ const ChannelList = memo(function ChannelList({
 					key={channel.id}
 					channel={channel}
 					isExpanded={isExpanded}
+					isWatching={false}
 					onFavoriteToggle={onFavoriteToggle}
+					onHide={onHide}
+					onOpenMenu={onOpenMenu}
 				/>
 			))}
 		</div>
@@ -243,6 +367,7 @@ const ChannelList = memo(function ChannelList({
 
 export function Sidebar({ isExpanded }: { isExpanded: boolean }) {
 	const { channels, isLoading, error } = useFollowedChannels();
+	const { watchingState } = useSessions();
 	const queryClient = useQueryClient();
 
 	// Stable callback reference - queryClient is stable from TanStack Query
@@ -255,6 +380,34 @@ export function Sidebar({ isExpanded }: { isExpanded: boolean }) {
 		[queryClient],
 	);
 
+	const { mutate: hideChannel } = useHideChannel();
+	const handleHide = useCallback(
+		(channel: SidebarChannel) => {
+			hideChannel({
+				channelId: channel.id,
+				channelName: channel.channelName,
+				profileImageUrl: channel.profileImage,
+			});
+		},
+		[hideChannel],
+	);
+
+	const { mutate: unfollowChannel } = useUnfollowChannel();
+	const handleUnfollow = useCallback(
+		(channel: SidebarChannel) => {
+			unfollowChannel(channel.id);
+		},
+		[unfollowChannel],
+	);
+
+	const [menu, setMenu] = useState<ChannelContextMenuState | null>(null);
+	const handleOpenMenu = useCallback((channel: SidebarChannel, x: number, y: number) => {
+		setMenu({ channel, x, y });
+	}, []);
+	const handleCloseMenu = useCallback(() => {
+		setMenu(null);
+	}, []);
+
 	return (
 		<aside
 			className={`fixed left-0 top-0 z-50 flex h-full flex-col border-r border-sidebar-border bg-sidebar-bg transition-all duration-300 ease-out ${
@@ -272,10 +425,22 @@ export function Sidebar({ isExpanded }: { isExpanded: boolean }) {
 					<ChannelList
 						channels={channels}
 						isExpanded={isExpanded}
+						watchingState={watchingState}
 						onFavoriteToggle={handleFavoriteToggle}
+						onHide={handleHide}
+						onOpenMenu={handleOpenMenu}
 					/>
 				)}
 			</div>
+			{menu !== null && (
+				<ChannelContextMenu
+					menu={menu}
+					onClose={handleCloseMenu}
+					onFavoriteToggle={handleFavoriteToggle}
+					onHide={handleHide}
+					onUnfollow={handleUnfollow}
+				/>
+			)}
 		</aside>
 	);
 }
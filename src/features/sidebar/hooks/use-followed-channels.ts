@@ -12,10 +12,9 @@ export function useFollowedChannels() {
 	const { data, isLoading, error } = useQuery({
 		queryKey: QUERY_KEYS.followedChannels,
 		queryFn: fetchFollowedChannels,
-		staleTime: 60_000,
+		// Kept current by useLiveEvents rather than polling
+		staleTime: Infinity,
 		gcTime: 10 * 60 * 1000,
-		refetchInterval: 60_000,
-		refetchIntervalInBackground: false,
 	});
 
 	const channels = useMemo(() => data ?? EMPTY_CHANNELS, [data]);
@@ -1,10 +1,15 @@
+import type { ChannelRank } from "@/src/features/channel-ranks/channel-ranks.types";
+import type { FollowSource } from "@/src/features/channels/channels.types";
+
 export type SidebarChannel = {
 	id: string;
 	channelName: string;
 	profileImage: string;
 	isLive: boolean;
-	isFavorite: boolean;
+	rank: ChannelRank;
+	followSource: FollowSource | null;
 	viewerCount: number | null;
 	lastSeenAt: string | null;
 	gameName: string | null;
+	unwatchedVodCount: number;
 };
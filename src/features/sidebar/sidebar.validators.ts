@@ -1,3 +1,5 @@
+import { isChannelRank } from "@/src/features/channel-ranks/channel-ranks.validators";
+import { isFollowSource } from "@/src/features/channels/channels.validators";
 import { isRecord } from "@/src/shared/utils/validation";
 
 import type { SidebarChannel } from "./sidebar.types";
@@ -20,10 +22,12 @@ export function isSidebarChannel(value: unknown): value is SidebarChannel {
 		typeof value.channelName === "string" &&
 		typeof value.profileImage === "string" &&
 		typeof value.isLive === "boolean" &&
-		typeof value.isFavorite === "boolean" &&
+		isChannelRank(value.rank) &&
+		(value.followSource === null || isFollowSource(value.followSource)) &&
 		viewerCountValid &&
 		lastSeenAtValid &&
-		gameNameValid
+		gameNameValid &&
+		typeof value.unwatchedVodCount === "number"
 	);
 }
 
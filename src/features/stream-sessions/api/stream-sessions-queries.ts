@@ -0,0 +1,20 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseStreamHeatmapResponse } from "../stream-sessions.validators";
+
+export async function fetchStreamHeatmap(channelId: string) {
+	const response = await fetch(`/api/channels/${channelId}/sessions`);
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch stream history");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseStreamHeatmapResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
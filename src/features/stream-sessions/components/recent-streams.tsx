@@ -0,0 +1,69 @@
+import { memo } from "react";
+
+import { formatDate, formatDurationSeconds, formatViewers } from "@/src/shared/utils/format";
+
+import type { StreamSession } from "@/src/features/stream-sessions/stream-sessions.types";
+
+type RecentStreamsProps = {
+	sessions: Array<StreamSession>;
+};
+
+const MAX_RECENT_STREAMS = 10;
+
+function getSessionDurationSeconds(session: StreamSession) {
+	const endMs = new Date(session.endedAt ?? session.lastSeenAt).getTime();
+	return Math.max(0, Math.round((endMs - new Date(session.startedAt).getTime()) / 1000));
+}
+
+function getGameNames(session: StreamSession) {
+	const gameNames = new Set<string>();
+	for (const segment of session.segments) {
+		if (segment.gameName !== "") {
+			gameNames.add(segment.gameName);
+		}
+	}
+	return Array.from(gameNames).join(" · ");
+}
+
+const RecentStreams = memo(function RecentStreams({ sessions }: RecentStreamsProps) {
+	if (sessions.length === 0) {
+		return <p className="text-sm text-text-dim">No streams recorded yet.</p>;
+	}
+
+	return (
+		<ul className="flex flex-col gap-2">
+			{sessions.slice(0, MAX_RECENT_STREAMS).map((session) => {
+				const lastTitle = session.segments.at(-1)?.title ?? "";
+
+				return (
+					<li
+						key={session.id}
+						className="rounded-lg border border-surface-border-muted bg-surface-card px-4 py-3"
+					>
+						<div className="mb-1 flex items-center justify-between gap-3">
+							<span className="truncate text-sm text-text-primary" title={lastTitle}>
+								{lastTitle || "Untitled stream"}
+							</span>
+							<span className="shrink-0 text-sm text-text-primary">
+								{formatDurationSeconds(getSessionDurationSeconds(session))}
+								{session.endedAt === null && (
+									<span className="ml-2 font-semibold text-live">Live</span>
+								)}
+							</span>
+						</div>
+						<div className="flex flex-wrap gap-3 text-xs text-text-dim">
+							<span>{formatDate(session.startedAt)}</span>
+							<span>{getGameNames(session)}</span>
+							<span>Peak {formatViewers(session.peakViewers)}</span>
+							{session.averageViewers !== null && (
+								<span>Avg {formatViewers(session.averageViewers)}</span>
+							)}
+						</div>
+					</li>
+				);
+			})}
+		</ul>
+	);
+});
+
+export { RecentStreams };
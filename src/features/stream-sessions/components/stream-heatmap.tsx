@@ -0,0 +1,61 @@
+import { memo } from "react";
+
+import type { StreamHeatmapGrid } from "@/src/features/stream-sessions/stream-sessions.types";
+
+type StreamHeatmapProps = {
+	heatmap: StreamHeatmapGrid;
+	days: number;
+};
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const HOUR_LABEL_STEP = 3;
+
+function formatHour(hour: number) {
+	return `${hour.toString().padStart(2, "0")}:00`;
+}
+
+// Cells are shaded by how many of the weeks in range had the channel live in that hour
+function getCellOpacity(count: number, weekCount: number) {
+	if (count === 0) {
+		return 0;
+	}
+
+	return Math.min(1, 0.15 + (count / weekCount) * 0.85);
+}
+
+const StreamHeatmap = memo(function StreamHeatmap({ heatmap, days }: StreamHeatmapProps) {
+	const weekCount = Math.max(1, Math.ceil(days / 7));
+
+	return (
+		<div className="overflow-x-auto">
+			<div className="grid min-w-[640px] grid-cols-[3rem_repeat(24,minmax(0,1fr))] gap-0.5 text-xs">
+				<span />
+				{heatmap[0]?.map((_, hour) => (
+					<span key={hour} className="text-text-dim">
+						{hour % HOUR_LABEL_STEP === 0 ? formatHour(hour).slice(0, 2) : ""}
+					</span>
+				))}
+
+				{heatmap.map((row, dayIndex) => (
+					<div key={DAY_LABELS[dayIndex]} className="contents">
+						<span className="pr-2 text-text-muted">{DAY_LABELS[dayIndex]}</span>
+						{row.map((count, hour) => (
+							<span
+								key={hour}
+								title={`${DAY_LABELS[dayIndex]} ${formatHour(hour)} · live on ${count} of ${weekCount} weeks`}
+								className="relative h-5 rounded-sm bg-surface-elevated"
+							>
+								<span
+									className="absolute inset-0 rounded-sm bg-twitch-purple"
+									style={{ opacity: getCellOpacity(count, weekCount) }}
+								/>
+							</span>
+						))}
+					</div>
+				))}
+			</div>
+		</div>
+	);
+});
+
+export { StreamHeatmap };
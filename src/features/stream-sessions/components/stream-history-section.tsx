@@ -0,0 +1,40 @@
+import { memo } from "react";
+
+import { RecentStreams } from "@/src/features/stream-sessions/components/recent-streams";
+import { StreamHeatmap } from "@/src/features/stream-sessions/components/stream-heatmap";
+import { useStreamHeatmap } from "@/src/features/stream-sessions/hooks/use-stream-sessions";
+
+type StreamHistorySectionProps = {
+	channelId: string;
+};
+
+const StreamHistorySection = memo(function StreamHistorySection({
+	channelId,
+}: StreamHistorySectionProps) {
+	const { streamHeatmap, isLoading, error } = useStreamHeatmap(channelId);
+
+	return (
+		<div className="mb-8 grid gap-6 lg:grid-cols-2">
+			<div>
+				<h3 className="mb-1 text-lg font-semibold">Typical schedule</h3>
+				<p className="mb-4 text-sm text-text-dim">
+					{streamHeatmap !== null
+						? `When this channel was live over the last ${streamHeatmap.days} days, in your local time.`
+						: "When this channel is usually live, in your local time."}
+				</p>
+				{isLoading && <p className="text-sm text-text-dim">Loading stream history...</p>}
+				{error !== null && <p className="text-sm text-live">{error.message}</p>}
+				{streamHeatmap !== null && (
+					<StreamHeatmap heatmap={streamHeatmap.heatmap} days={streamHeatmap.days} />
+				)}
+			</div>
+
+			<div>
+				<h3 className="mb-4 text-lg font-semibold">Recent streams</h3>
+				{streamHeatmap !== null && <RecentStreams sessions={streamHeatmap.sessions} />}
+			</div>
+		</div>
+	);
+});
+
+export { StreamHistorySection };
@@ -0,0 +1,21 @@
+import { memo } from "react";
+
+import { useUptimeSeconds } from "@/src/features/stream-sessions/hooks/use-stream-sessions";
+import { formatDurationSeconds } from "@/src/shared/utils/format";
+
+type StreamUptimeProps = {
+	startedAt: string;
+	className?: string;
+};
+
+const StreamUptime = memo(function StreamUptime({ startedAt, className }: StreamUptimeProps) {
+	const uptimeSeconds = useUptimeSeconds(startedAt);
+
+	return (
+		<span className={className} title={`Live since ${new Date(startedAt).toLocaleString()}`}>
+			Up {formatDurationSeconds(uptimeSeconds)}
+		</span>
+	);
+});
+
+export { StreamUptime };
@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+
+import { fetchStreamHeatmap } from "@/src/features/stream-sessions/api/stream-sessions-queries";
+import { getStreamSessionsQueryKey } from "@/src/shared/query-keys";
+
+const UPTIME_TICK_MS = 60_000;
+
+export function useStreamHeatmap(channelId: string) {
+	const { data, isLoading, error } = useQuery({
+		queryKey: getStreamSessionsQueryKey(channelId),
+		queryFn: () => fetchStreamHeatmap(channelId),
+	});
+
+	return {
+		streamHeatmap: data ?? null,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+// Uptime is shown in whole minutes, so re-rendering once a minute keeps it current
+export function useUptimeSeconds(startedAt: string) {
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		const interval = setInterval(() => setNow(Date.now()), UPTIME_TICK_MS);
+		return () => clearInterval(interval);
+	}, []);
+
+	return Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+}
@@ -0,0 +1,218 @@
+import { and, desc, eq, gte, isNull } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { streamSessions } from "@/src/db/schema";
+
+import { parseStreamSegments } from "./stream-sessions.validators";
+
+import type { StreamSegment, StreamSession } from "./stream-sessions.types";
+
+type StreamSample = {
+	channelId: string;
+	channelName: string;
+	startedAt: string;
+	title: string;
+	gameName: string;
+	viewerCount: number;
+};
+
+const STREAM_SESSION_COLUMNS = {
+	id: streamSessions.id,
+	channelId: streamSessions.channelId,
+	startedAt: streamSessions.startedAt,
+	endedAt: streamSessions.endedAt,
+	lastSeenAt: streamSessions.lastSeenAt,
+	peakViewers: streamSessions.peakViewers,
+	viewerSampleTotal: streamSessions.viewerSampleTotal,
+	viewerSampleCount: streamSessions.viewerSampleCount,
+	segments: streamSessions.segments,
+};
+
+type StreamSessionRow = {
+	id: number;
+	channelId: string;
+	startedAt: string;
+	endedAt: string | null;
+	lastSeenAt: string;
+	peakViewers: number;
+	viewerSampleTotal: number;
+	viewerSampleCount: number;
+	segments: string;
+};
+
+function readSegments(row: StreamSessionRow): Array<StreamSegment> {
+	let segmentsValue: unknown;
+
+	try {
+		segmentsValue = JSON.parse(row.segments);
+	} catch {
+		segmentsValue = null;
+	}
+
+	const segments = parseStreamSegments(segmentsValue);
+	if (segments instanceof Error) {
+		// Losing the title history shouldn't lose the session itself
+		console.warn(`[stream-sessions.repository] Session ${row.id} has invalid segments`);
+		return [];
+	}
+
+	return segments;
+}
+
+function toStreamSession(row: StreamSessionRow): StreamSession {
+	return {
+		id: row.id,
+		channelId: row.channelId,
+		startedAt: row.startedAt,
+		endedAt: row.endedAt,
+		lastSeenAt: row.lastSeenAt,
+		peakViewers: row.peakViewers,
+		averageViewers:
+			row.viewerSampleCount > 0
+				? Math.round(row.viewerSampleTotal / row.viewerSampleCount)
+				: null,
+		segments: readSegments(row),
+	};
+}
+
+/**
+ * Folds one live poll into the session table: live channels extend (or start) their
+ * session and open sessions missing from the poll end at the last time they were seen.
+ */
+export function recordStreamSamples(samples: Array<StreamSample>, sampledAt: string) {
+	try {
+		database.transaction((transaction) => {
+			const openRows = transaction
+				.select(STREAM_SESSION_COLUMNS)
+				.from(streamSessions)
+				.where(isNull(streamSessions.endedAt))
+				.all();
+
+			const openRowsByChannelId = new Map<string, StreamSessionRow>();
+			for (const row of openRows) {
+				openRowsByChannelId.set(row.channelId, row);
+			}
+
+			const liveChannelIds = new Set<string>();
+
+			for (const sample of samples) {
+				liveChannelIds.add(sample.channelId);
+
+				let row = openRowsByChannelId.get(sample.channelId);
+
+				// A new started_at means the old broadcast ended between polls
+				if (row !== undefined && row.startedAt !== sample.startedAt) {
+					transaction
+						.update(streamSessions)
+						.set({ endedAt: row.lastSeenAt })
+						.where(eq(streamSessions.id, row.id))
+						.run();
+					row = undefined;
+				}
+
+				// A failed poll can end a session early; the same broadcast picks it back up
+				row ??= transaction
+					.select(STREAM_SESSION_COLUMNS)
+					.from(streamSessions)
+					.where(
+						and(
+							eq(streamSessions.channelId, sample.channelId),
+							eq(streamSessions.startedAt, sample.startedAt),
+						),
+					)
+					.get();
+
+				const segment = { at: sampledAt, title: sample.title, gameName: sample.gameName };
+
+				if (row === undefined) {
+					transaction
+						.insert(streamSessions)
+						.values({
+							channelId: sample.channelId,
+							channelName: sample.channelName,
+							startedAt: sample.startedAt,
+							lastSeenAt: sampledAt,
+							peakViewers: sample.viewerCount,
+							viewerSampleTotal: sample.viewerCount,
+							viewerSampleCount: 1,
+							segments: JSON.stringify([{ ...segment, at: sample.startedAt }]),
+						})
+						.run();
+					continue;
+				}
+
+				const segments = readSegments(row);
+				const lastSegment = segments.at(-1);
+				if (
+					lastSegment === undefined ||
+					lastSegment.title !== sample.title ||
+					lastSegment.gameName !== sample.gameName
+				) {
+					segments.push(segment);
+				}
+
+				transaction
+					.update(streamSessions)
+					.set({
+						channelName: sample.channelName,
+						endedAt: null,
+						lastSeenAt: sampledAt,
+						peakViewers: Math.max(row.peakViewers, sample.viewerCount),
+						viewerSampleTotal: row.viewerSampleTotal + sample.viewerCount,
+						viewerSampleCount: row.viewerSampleCount + 1,
+						segments: JSON.stringify(segments),
+					})
+					.where(eq(streamSessions.id, row.id))
+					.run();
+			}
+
+			for (const row of openRows) {
+				if (!liveChannelIds.has(row.channelId)) {
+					transaction
+						.update(streamSessions)
+						.set({ endedAt: row.lastSeenAt })
+						.where(eq(streamSessions.id, row.id))
+						.run();
+				}
+			}
+		});
+
+		return null;
+	} catch (error) {
+		console.error("[stream-sessions.repository] recordStreamSamples failed:", error);
+		return new Error("Failed to record stream sessions");
+	}
+}
+
+export function endStreamSession(channelId: string, endedAt: string) {
+	try {
+		database
+			.update(streamSessions)
+			.set({ endedAt, lastSeenAt: endedAt })
+			.where(and(eq(streamSessions.channelId, channelId), isNull(streamSessions.endedAt)))
+			.run();
+
+		return null;
+	} catch (error) {
+		console.error("[stream-sessions.repository] endStreamSession failed:", error);
+		return new Error("Failed to end stream session");
+	}
+}
+
+export function getStreamSessions(channelId: string, since: string) {
+	try {
+		const rows = database
+			.select(STREAM_SESSION_COLUMNS)
+			.from(streamSessions)
+			.where(
+				and(eq(streamSessions.channelId, channelId), gte(streamSessions.startedAt, since)),
+			)
+			.orderBy(desc(streamSessions.startedAt))
+			.all();
+
+		return rows.map(toStreamSession);
+	} catch (error) {
+		console.error("[stream-sessions.repository] getStreamSessions failed:", error);
+		return new Error("Failed to get stream sessions");
+	}
+}
@@ -0,0 +1,26 @@
+export type StreamSegment = {
+	at: string;
+	title: string;
+	gameName: string;
+};
+
+export type StreamSession = {
+	id: number;
+	channelId: string;
+	startedAt: string;
+	// Null while the broadcast is still live
+	endedAt: string | null;
+	lastSeenAt: string;
+	peakViewers: number;
+	averageViewers: number | null;
+	segments: Array<StreamSegment>;
+};
+
+// 7 rows (Sunday first) of 24 hourly cells, each counting the days live during that hour
+export type StreamHeatmapGrid = Array<Array<number>>;
+
+export type StreamHeatmap = {
+	days: number;
+	sessions: Array<StreamSession>;
+	heatmap: StreamHeatmapGrid;
+};
@@ -0,0 +1,73 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { StreamHeatmap, StreamSegment, StreamSession } from "./stream-sessions.types";
+
+const DEFAULT_SCHEDULE_DAYS = 56;
+const MAX_SCHEDULE_DAYS = 365;
+
+export function parseStreamHeatmapDays(value: string | null) {
+	if (value === null) {
+		return DEFAULT_SCHEDULE_DAYS;
+	}
+
+	const days = Number(value);
+
+	if (!Number.isInteger(days) || days < 1 || days > MAX_SCHEDULE_DAYS) {
+		return new Error(`days must be an integer between 1 and ${MAX_SCHEDULE_DAYS}`);
+	}
+
+	return days;
+}
+
+function isStreamSegment(value: unknown): value is StreamSegment {
+	return (
+		isRecord(value) &&
+		typeof value.at === "string" &&
+		typeof value.title === "string" &&
+		typeof value.gameName === "string"
+	);
+}
+
+export function parseStreamSegments(value: unknown): Array<StreamSegment> | Error {
+	if (!Array.isArray(value) || !value.every(isStreamSegment)) {
+		return new Error("segments must be an array of { at, title, gameName }");
+	}
+
+	return value;
+}
+
+function isStreamSession(value: unknown): value is StreamSession {
+	return (
+		isRecord(value) &&
+		typeof value.id === "number" &&
+		typeof value.channelId === "string" &&
+		typeof value.startedAt === "string" &&
+		(value.endedAt === null || typeof value.endedAt === "string") &&
+		typeof value.lastSeenAt === "string" &&
+		typeof value.peakViewers === "number" &&
+		(value.averageViewers === null || typeof value.averageViewers === "number") &&
+		Array.isArray(value.segments) &&
+		value.segments.every(isStreamSegment)
+	);
+}
+
+function isHeatmap(value: unknown): value is Array<Array<number>> {
+	return (
+		Array.isArray(value) &&
+		value.every((row) => Array.isArray(row) && row.every((cell) => typeof cell === "number"))
+	);
+}
+
+export function parseStreamHeatmapResponse(data: unknown): StreamHeatmap | Error {
+	if (
+		!isRecord(data) ||
+		typeof data.days !== "number" ||
+		!Array.isArray(data.sessions) ||
+		!data.sessions.every(isStreamSession) ||
+		!isHeatmap(data.heatmap)
+	) {
+		return new Error("Invalid stream heatmap response");
+	}
+
+	return { days: data.days, sessions: data.sessions, heatmap: data.heatmap };
+}
@@ -0,0 +1,24 @@
+import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+
+import { parseVodChaptersResponse } from "../vod-chapters.validators";
+
+export async function fetchVodChapters(vodIds: Array<string>) {
+	if (vodIds.length === 0) {
+		return [];
+	}
+
+	const response = await fetch(`/api/vod-chapters?ids=${vodIds.join(",")}`);
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch VOD chapters");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseVodChaptersResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
@@ -0,0 +1,62 @@
+import { memo } from "react";
+
+import { formatSecondsToTime } from "@/src/shared/utils/format";
+
+import type { TwitchVideoChapter } from "@/src/services/twitch-service";
+
+type VodChapterTimelineProps = {
+	chapters: Array<TwitchVideoChapter>;
+	durationSeconds: number | null;
+	onChapterClick: (positionSeconds: number) => void;
+};
+
+function getChapterLabel(chapter: TwitchVideoChapter) {
+	return chapter.gameName ?? chapter.description;
+}
+
+const VodChapterTimeline = memo(function VodChapterTimeline({
+	chapters,
+	durationSeconds,
+	onChapterClick,
+}: VodChapterTimelineProps) {
+	const lastChapter = chapters.at(-1);
+
+	if (lastChapter === undefined) {
+		return null;
+	}
+
+	const totalSeconds =
+		durationSeconds ?? lastChapter.positionSeconds + lastChapter.durationSeconds;
+
+	if (totalSeconds <= 0) {
+		return null;
+	}
+
+	return (
+		<div className="mb-3 flex h-6 gap-px overflow-hidden rounded" aria-label="Chapters">
+			{chapters.map((chapter, index) => {
+				// Each chapter runs until the next one starts, so rounding never leaves gaps
+				const endSeconds = chapters[index + 1]?.positionSeconds ?? totalSeconds;
+				const lengthSeconds = Math.max(endSeconds - chapter.positionSeconds, 0);
+				const label = getChapterLabel(chapter);
+				const startLabel = formatSecondsToTime(chapter.positionSeconds);
+
+				return (
+					<button
+						key={chapter.positionSeconds}
+						type="button"
+						onClick={() => onChapterClick(chapter.positionSeconds)}
+						style={{ flex: `${lengthSeconds} 1 0%` }}
+						title={`${label} (${startLabel})`}
+						aria-label={`Watch from ${startLabel}: ${label}`}
+						className="min-w-1 truncate bg-surface-elevated px-1 text-[10px] font-medium text-text-muted transition-colors hover:bg-twitch-purple hover:text-white cursor-pointer"
+					>
+						{label}
+					</button>
+				);
+			})}
+		</div>
+	);
+});
+
+export { VodChapterTimeline };
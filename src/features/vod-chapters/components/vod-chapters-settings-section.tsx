@@ -0,0 +1,47 @@
+import { memo } from "react";
+
+import { useLauncherSettings } from "@/src/features/launcher/hooks/use-launcher-settings";
+import { useSetVodChaptersEnabled } from "@/src/features/vod-chapters/hooks/use-vod-chapters";
+
+const VodChaptersSettingsSection = memo(function VodChaptersSettingsSection() {
+	const { settings, isLoading, error } = useLauncherSettings();
+	const setEnabledMutation = useSetVodChaptersEnabled();
+
+	function handleEnabledChange(event: React.ChangeEvent<HTMLInputElement>) {
+		setEnabledMutation.mutate(event.target.checked);
+	}
+
+	return (
+		<section className="mb-8">
+			<h3 className="text-lg font-semibold">VOD Chapters</h3>
+			<p className="mb-3 text-xs text-text-dim">
+				Twitch only offers chapters through the undocumented API of its own website, which
+				this app has to call as the Twitch website. That isn't allowed by Twitch's developer
+				terms and can stop working at any time; chapters simply disappear when it does.
+			</p>
+
+			{isLoading && <p className="text-sm text-text-dim">Loading settings...</p>}
+
+			{error !== null && <p className="text-sm text-live">{error.message}</p>}
+
+			{settings !== null && (
+				<label className="flex items-center gap-2 text-sm text-text-primary">
+					<input
+						type="checkbox"
+						checked={settings.vodChaptersEnabled}
+						onChange={handleEnabledChange}
+						disabled={setEnabledMutation.isPending}
+						className="accent-twitch-purple"
+					/>
+					Show chapters on VODs
+				</label>
+			)}
+
+			{setEnabledMutation.error !== null && (
+				<p className="mt-2 text-sm text-live">{setEnabledMutation.error.message}</p>
+			)}
+		</section>
+	);
+});
+
+export { VodChaptersSettingsSection };
@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
+
+import { updateLauncherSettingsApi } from "@/src/features/launcher/api/launcher-mutations";
+import { fetchVodChapters } from "@/src/features/vod-chapters/api/vod-chapters-queries";
+import { getVodChaptersQueryKey, QUERY_KEYS } from "@/src/shared/query-keys";
+
+import type { TwitchVideoChapter } from "@/src/services/twitch-service";
+
+export function useVodChaptersBulk(vodIds: Array<string>) {
+	const { data, isLoading, error } = useQuery({
+		queryKey: getVodChaptersQueryKey(vodIds),
+		queryFn: () => fetchVodChapters(vodIds),
+		enabled: vodIds.length > 0,
+		staleTime: 10 * 60 * 1000,
+		gcTime: 30 * 60 * 1000,
+	});
+
+	const chaptersByVodId = useMemo(() => {
+		const map = new Map<string, Array<TwitchVideoChapter>>();
+
+		for (const item of data ?? []) {
+			map.set(item.vodId, item.chapters);
+		}
+
+		return map;
+	}, [data]);
+
+	return {
+		chaptersByVodId,
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+export function useSetVodChaptersEnabled() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: (enabled: boolean) =>
+			updateLauncherSettingsApi({ vodChaptersEnabled: enabled }),
+		// Chapter lists fetched while the setting was off are empty, so they have to refetch
+		onSettled: async () => {
+			await Promise.all([
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.launcherSettings }),
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.vodChapters }),
+			]);
+		},
+	});
+}
@@ -0,0 +1,96 @@
+import { inArray } from "drizzle-orm";
+
+import { database } from "@/src/db";
+import { vodChapters } from "@/src/db/schema";
+
+import { parseVodChapters } from "./vod-chapters.validators";
+
+import type { TwitchVideoChapter } from "@/src/services/twitch-service";
+
+type CachedVodChapters = {
+	chapters: Array<TwitchVideoChapter>;
+	fetchedAt: string;
+};
+
+function readChapters(vodId: string, value: string): Array<TwitchVideoChapter> | null {
+	let chaptersValue: unknown;
+
+	try {
+		chaptersValue = JSON.parse(value);
+	} catch {
+		chaptersValue = null;
+	}
+
+	const chapters = parseVodChapters(chaptersValue);
+	if (chapters instanceof Error) {
+		// Treated as a cache miss so the chapters get fetched again
+		console.warn(`[vod-chapters.repository] VOD ${vodId} has invalid chapters`);
+		return null;
+	}
+
+	return chapters;
+}
+
+export function getCachedVodChapters(vodIds: Array<string>) {
+	try {
+		const cached = new Map<string, CachedVodChapters>();
+
+		if (vodIds.length === 0) {
+			return cached;
+		}
+
+		const rows = database
+			.select({
+				vodId: vodChapters.vodId,
+				chapters: vodChapters.chapters,
+				fetchedAt: vodChapters.fetchedAt,
+			})
+			.from(vodChapters)
+			.where(inArray(vodChapters.vodId, vodIds))
+			.all();
+
+		for (const row of rows) {
+			const chapters = readChapters(row.vodId, row.chapters);
+
+			if (chapters !== null) {
+				cached.set(row.vodId, { chapters, fetchedAt: row.fetchedAt });
+			}
+		}
+
+		return cached;
+	} catch (error) {
+		console.error("[vod-chapters.repository] getCachedVodChapters failed:", error);
+		return new Error("Failed to get cached VOD chapters");
+	}
+}
+
+export function saveVodChapters(
+	chaptersByVodId: Map<string, Array<TwitchVideoChapter>>,
+	fetchedAt: string,
+) {
+	try {
+		if (chaptersByVodId.size === 0) {
+			return null;
+		}
+
+		database.transaction((transaction) => {
+			for (const [vodId, chapters] of chaptersByVodId) {
+				const serialized = JSON.stringify(chapters);
+
+				transaction
+					.insert(vodChapters)
+					.values({ vodId, chapters: serialized, fetchedAt })
+					.onConflictDoUpdate({
+						target: vodChapters.vodId,
+						set: { chapters: serialized, fetchedAt },
+					})
+					.run();
+			}
+		});
+
+		return null;
+	} catch (error) {
+		console.error("[vod-chapters.repository] saveVodChapters failed:", error);
+		return new Error("Failed to save VOD chapters");
+	}
+}
@@ -0,0 +1,7 @@
+import type { TwitchVideoChapter } from "@/src/services/twitch-service";
+
+export type VodChapterList = {
+	vodId: string;
+	// Empty when the VOD never changed category or Twitch has no markers for it
+	chapters: Array<TwitchVideoChapter>;
+};
@@ -0,0 +1,66 @@
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { VodChapterList } from "./vod-chapters.types";
+import type { TwitchVideoChapter } from "@/src/services/twitch-service";
+
+const VOD_ID_PATTERN = /^[0-9]+$/;
+const MAX_VOD_IDS = 100;
+
+export function parseVodChapterIds(idsParam: string | null): Array<string> | Error {
+	if (idsParam === null) {
+		return new Error("ids is required");
+	}
+
+	const ids = [...new Set(idsParam.split(",").filter(Boolean))];
+
+	if (ids.length === 0 || ids.length > MAX_VOD_IDS) {
+		return new Error(`ids must list 1-${MAX_VOD_IDS} VOD IDs`);
+	}
+
+	if (!ids.every((id) => VOD_ID_PATTERN.test(id))) {
+		return new Error("Invalid VOD ID");
+	}
+
+	return ids;
+}
+
+function isVodChapter(value: unknown): value is TwitchVideoChapter {
+	return (
+		isRecord(value) &&
+		typeof value.positionSeconds === "number" &&
+		typeof value.durationSeconds === "number" &&
+		(value.gameName === null || typeof value.gameName === "string") &&
+		typeof value.description === "string"
+	);
+}
+
+export function parseVodChapters(value: unknown): Array<TwitchVideoChapter> | Error {
+	if (!Array.isArray(value) || !value.every(isVodChapter)) {
+		return new Error(
+			"chapters must be an array of { positionSeconds, durationSeconds, gameName, description }",
+		);
+	}
+
+	return value;
+}
+
+function isVodChapterList(value: unknown): value is VodChapterList {
+	return (
+		isRecord(value) &&
+		typeof value.vodId === "string" &&
+		Array.isArray(value.chapters) &&
+		value.chapters.every(isVodChapter)
+	);
+}
+
+export function parseVodChaptersResponse(data: unknown): Array<VodChapterList> | Error {
+	if (
+		!isRecord(data) ||
+		!Array.isArray(data.chapters) ||
+		!data.chapters.every(isVodChapterList)
+	) {
+		return new Error("Invalid VOD chapters response");
+	}
+
+	return data.chapters;
+}
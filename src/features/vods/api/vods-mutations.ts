@@ -1,22 +1,38 @@
 import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
+import { JSON_HEADERS } from "@/src/shared/utils/http";
+
+import { parseSetWatchedResponse } from "../vods.validators";
 
 import type { SaveProgressInput } from "@/src/features/vods/vods.types";
 
 export async function watchVod({
 	id,
 	startTimeSeconds,
+	profileId,
+	quality,
 }: {
 	id: string;
-	startTimeSeconds?: number;
+	startTimeSeconds?: number | undefined;
+	profileId: number | null;
+	quality?: string | undefined;
 }) {
-	const options: RequestInit = { method: "POST" };
+	const body: { startTime?: number; profileId: number | null; quality?: string } = {
+		profileId,
+	};
+
+	if (quality !== undefined) {
+		body.quality = quality;
+	}
 
 	if (startTimeSeconds !== undefined && startTimeSeconds > 0) {
-		options.headers = { "Content-Type": "application/json" };
-		options.body = JSON.stringify({ startTime: startTimeSeconds });
+		body.startTime = startTimeSeconds;
 	}
 
-	const response = await fetch(`/api/watch/vod/${id}`, options);
+	const response = await fetch(`/api/watch/vod/${id}`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(body),
+	});
 
 	if (!response.ok) {
 		const message = await extractApiErrorMessage(response, "Failed to launch VOD");
@@ -36,3 +52,39 @@ export async function saveVodProgress(data: SaveProgressInput) {
 		throw new Error(message);
 	}
 }
+
+export async function dismissVodProgress(vodId: string) {
+	const response = await fetch(`/api/vod-progress/${vodId}/dismiss`, { method: "POST" });
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to dismiss VOD");
+		throw new Error(message);
+	}
+}
+
+export async function setVodsWatchedApi({
+	vodIds,
+	watched,
+}: {
+	vodIds: Array<string>;
+	watched: boolean;
+}) {
+	const response = await fetch("/api/vod-progress/watched", {
+		method: "PUT",
+		headers: JSON_HEADERS,
+		body: JSON.stringify({ vodIds, watched }),
+	});
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to update watched state");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseSetWatchedResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
@@ -1,11 +1,17 @@
 import { extractApiErrorMessage } from "@/src/shared/utils/api-errors";
 
-import { parseChannelSearchResponse, parseVodProgressResponse } from "../vods.validators";
+import {
+	parseChannelSearchResponse,
+	parseRecentProgressResponse,
+	parseVodProgressResponse,
+	parseWatchedVodIdsResponse,
+} from "../vods.validators";
 
-export async function fetchChannelSearch(channelName: string) {
-	const response = await fetch(
-		`/api/channels/search?channelName=${encodeURIComponent(channelName)}`,
-	);
+import type { TwitchVideoTypeFilter } from "@/src/services/twitch-service";
+
+export async function fetchChannelSearch(channelName: string, videoType: TwitchVideoTypeFilter) {
+	const params = new URLSearchParams({ channelName, type: videoType });
+	const response = await fetch(`/api/channels/search?${params.toString()}`);
 
 	if (!response.ok) {
 		const message = await extractApiErrorMessage(response, "Failed to fetch channel data");
@@ -41,3 +47,41 @@ export async function fetchVodProgressBulk(vodIds: Array<string>) {
 
 	return parsed;
 }
+
+export async function fetchRecentProgress() {
+	const response = await fetch("/api/vod-progress");
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch recent VODs");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseRecentProgressResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
+
+export async function fetchWatchedVodIds(vodIds: Array<string>) {
+	if (vodIds.length === 0) {
+		return [];
+	}
+
+	const response = await fetch(`/api/vod-progress/watched?ids=${vodIds.join(",")}`);
+
+	if (!response.ok) {
+		const message = await extractApiErrorMessage(response, "Failed to fetch watched VODs");
+		throw new Error(message);
+	}
+
+	const data: unknown = await response.json();
+	const parsed = parseWatchedVodIdsResponse(data);
+	if (parsed instanceof Error) {
+		throw parsed;
+	}
+
+	return parsed;
+}
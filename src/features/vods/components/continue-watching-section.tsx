@@ -0,0 +1,135 @@
+import { Link } from "@tanstack/react-router";
+import { memo } from "react";
+
+import { useWatchVod } from "@/src/features/channels/hooks/use-launch";
+import {
+	useDismissVodProgress,
+	useRecentProgress,
+} from "@/src/features/vods/hooks/use-vod-progress";
+import { XMarkIcon } from "@/src/shared/components/icons";
+import { formatSecondsToTime, formatThumbnail } from "@/src/shared/utils/format";
+
+import type { RecentVodProgress } from "@/src/features/vods/vods.types";
+
+function getProgressPercent(item: RecentVodProgress) {
+	if (item.durationSeconds <= 0) {
+		return 0;
+	}
+
+	return Math.min((item.playbackPositionSeconds / item.durationSeconds) * 100, 100);
+}
+
+type ContinueWatchingCardProps = {
+	item: RecentVodProgress;
+	onResume: (item: RecentVodProgress) => void;
+	onDismiss: (vodId: string) => void;
+};
+
+const ContinueWatchingCard = memo(function ContinueWatchingCard({
+	item,
+	onResume,
+	onDismiss,
+}: ContinueWatchingCardProps) {
+	const remainingSeconds = Math.max(item.durationSeconds - item.playbackPositionSeconds, 0);
+
+	return (
+		<div className="relative w-[260px] shrink-0 overflow-hidden rounded-lg border border-surface-border-muted bg-surface-card transition-all hover:border-surface-border">
+			<button
+				type="button"
+				onClick={() => onResume(item)}
+				className="relative block aspect-video w-full bg-surface-elevated cursor-pointer"
+				title={`Resume at ${formatSecondsToTime(item.playbackPositionSeconds)}`}
+			>
+				<img
+					src={formatThumbnail(item.thumbnailUrl, 320, 180)}
+					alt={item.title}
+					className="h-full w-full object-cover"
+					onError={(event) => {
+						const img = event.currentTarget;
+						img.style.display = "none";
+					}}
+				/>
+				{item.durationSeconds > 0 && (
+					<span className="absolute bottom-2 right-2 rounded bg-black/80 px-2 py-0.5 text-xs font-medium text-white">
+						{formatSecondsToTime(remainingSeconds)} left
+					</span>
+				)}
+				<div className="absolute bottom-0 left-0 right-0 h-1 bg-black/50">
+					<div
+						className="h-full bg-twitch-purple"
+						style={{ width: `${getProgressPercent(item)}%` }}
+					/>
+				</div>
+			</button>
+			<button
+				type="button"
+				onClick={() => onDismiss(item.vodId)}
+				className="absolute top-2 right-2 rounded bg-black/70 p-1 text-white/80 transition-all hover:bg-black hover:text-white cursor-pointer"
+				title="Remove from continue watching"
+				aria-label={`Remove ${item.title} from continue watching`}
+			>
+				<XMarkIcon className="h-4 w-4" />
+			</button>
+
+			<div className="p-3">
+				<div
+					className="mb-2 line-clamp-2 min-h-[2.5rem] text-sm text-text-primary"
+					title={item.title}
+				>
+					{item.title}
+				</div>
+				<Link
+					to="/channels/$id"
+					params={{ id: item.channelId }}
+					className="flex items-center gap-2 text-sm font-semibold text-twitch-purple-light hover:underline"
+				>
+					<img src={item.profileImageUrl} alt="" className="h-5 w-5 rounded-full" />
+					{item.channelName}
+				</Link>
+			</div>
+		</div>
+	);
+});
+
+const ContinueWatchingSection = memo(function ContinueWatchingSection() {
+	const { recentProgress } = useRecentProgress();
+	const watchVodMutation = useWatchVod();
+	const dismissMutation = useDismissVodProgress();
+
+	// Nothing in progress is the common case, so the row stays out of the way
+	if (recentProgress.length === 0) {
+		return null;
+	}
+
+	function handleResume(item: RecentVodProgress) {
+		watchVodMutation.mutate({
+			id: item.vodId,
+			startTimeSeconds: item.playbackPositionSeconds,
+		});
+	}
+
+	const mutationError = watchVodMutation.error ?? dismissMutation.error;
+
+	return (
+		<section className="mb-8">
+			<h2 className="mb-3 text-xl font-semibold">Continue Watching</h2>
+
+			{mutationError !== null && (
+				<p className="mb-3 text-sm text-live">{mutationError.message}</p>
+			)}
+
+			<div className="flex gap-4 overflow-x-auto pb-2">
+				{recentProgress.map((item) => (
+					<ContinueWatchingCard
+						key={item.vodId}
+						item={item}
+						onResume={handleResume}
+						onDismiss={dismissMutation.mutate}
+					/>
+				))}
+			</div>
+		</section>
+	);
+});
+
+export { ContinueWatchingSection };
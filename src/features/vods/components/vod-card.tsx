@@ -1,5 +1,8 @@
 import { memo, useState } from "react";
 
+import { VodChapterTimeline } from "@/src/features/vod-chapters/components/vod-chapter-timeline";
+import { CheckIcon, DownloadIcon, QueueIcon } from "@/src/shared/components/icons";
+import { QualitySelect } from "@/src/shared/components/quality-select";
 import {
 	formatDate,
 	formatSecondsToTime,
@@ -8,6 +11,7 @@ import {
 } from "@/src/shared/utils/format";
 
 import type { SaveProgressInput, VodProgressSelect } from "@/src/features/vods/vods.types";
+import type { TwitchVideoChapter, TwitchVideoType } from "@/src/services/twitch-service";
 
 type VodCardData = {
 	id: string;
@@ -17,25 +21,50 @@ type VodCardData = {
 	durationSeconds: number | null;
 	durationLabel: string;
 	thumbnailUrl: string;
+	videoType: TwitchVideoType;
 };
 
 type VodCardProps = {
 	vod: VodCardData;
 	progress: VodProgressSelect | null;
-	onWatch: (id: string, startTimeSeconds?: number) => void;
+	chapters: Array<TwitchVideoChapter> | null;
+	onWatch: (id: string, startTimeSeconds?: number, quality?: string) => void;
 	onSaveProgress: (data: SaveProgressInput) => void;
+	onDownload?: (id: string, quality?: string) => void;
+	onQueue?: (id: string) => void;
+	onToggleWatched?: (id: string, watched: boolean) => void;
+	// Already in Watch Later, so the queue button takes it back out
+	isQueued?: boolean;
+	isWatched?: boolean;
 	showOfflineBadge?: boolean;
+	// Watch plays the downloaded copy instead of streaming from Twitch
+	hasLocalCopy?: boolean;
 };
 
+function getVideoTypeLabel(videoType: TwitchVideoType) {
+	if (videoType === "highlight") return "Highlight";
+	if (videoType === "upload") return "Upload";
+	return "Broadcast";
+}
+
 const VodCard = memo(function VodCard({
 	vod,
 	progress,
+	chapters,
 	onWatch,
 	onSaveProgress,
+	onDownload,
+	onQueue,
+	onToggleWatched,
+	isQueued = false,
+	isWatched = false,
 	showOfflineBadge = false,
+	hasLocalCopy = false,
 }: VodCardProps) {
 	const [showSaveInput, setShowSaveInput] = useState(false);
 	const [saveInputValue, setSaveInputValue] = useState("");
+	// Empty string defers to the channel's preferred quality on the server
+	const [quality, setQuality] = useState("");
 
 	const thumbnailUrl = formatThumbnail(vod.thumbnailUrl, 440, 248);
 	const hasProgress = progress !== null;
@@ -54,16 +83,34 @@ const VodCard = memo(function VodCard({
 		saveButtonLabel = "Update";
 	}
 
+	const selectedQuality = quality === "" ? undefined : quality;
+
 	function handleWatchClick() {
-		onWatch(vod.id);
+		onWatch(vod.id, undefined, selectedQuality);
 	}
 
 	function handleResumeClick() {
 		if (hasProgress) {
-			onWatch(vod.id, progress.playbackPositionSeconds);
+			onWatch(vod.id, progress.playbackPositionSeconds, selectedQuality);
 		}
 	}
 
+	function handleChapterClick(positionSeconds: number) {
+		onWatch(vod.id, positionSeconds, selectedQuality);
+	}
+
+	function handleDownloadClick() {
+		onDownload?.(vod.id, selectedQuality);
+	}
+
+	function handleToggleWatchedClick() {
+		onToggleWatched?.(vod.id, !isWatched);
+	}
+
+	function handleQueueClick() {
+		onQueue?.(vod.id);
+	}
+
 	function handleSaveProgressClick() {
 		setShowSaveInput(true);
 		if (hasProgress) {
@@ -113,6 +160,23 @@ const VodCard = memo(function VodCard({
 						</span>
 					</div>
 				)}
+				<span className="absolute top-2 left-2 rounded bg-black/80 px-2 py-1 text-xs font-semibold uppercase text-white">
+					{getVideoTypeLabel(vod.videoType)}
+				</span>
+				{hasLocalCopy && (
+					<span
+						className="absolute top-2 right-2 rounded bg-twitch-purple px-2 py-1 text-xs font-semibold uppercase text-white"
+						title="Plays from the downloaded copy"
+					>
+						Local
+					</span>
+				)}
+				{isWatched && (
+					<span className="absolute bottom-2 left-2 flex items-center gap-1 rounded bg-black/80 px-2 py-1 text-xs font-semibold uppercase text-white">
+						<CheckIcon className="h-3.5 w-3.5" />
+						Watched
+					</span>
+				)}
 				<span className="absolute bottom-2 right-2 rounded bg-black/80 px-2 py-1 text-sm font-medium text-white">
 					{vod.durationLabel}
 				</span>
@@ -138,6 +202,14 @@ const VodCard = memo(function VodCard({
 					<span>{formatDate(vod.createdAt)}</span>
 				</div>
 
+				{chapters !== null && (
+					<VodChapterTimeline
+						chapters={chapters}
+						durationSeconds={vod.durationSeconds}
+						onChapterClick={handleChapterClick}
+					/>
+				)}
+
 				{hasProgress && (
 					<div className="mb-3 text-xs text-text-muted">
 						Watched {formatSecondsToTime(progress.playbackPositionSeconds)}
@@ -164,19 +236,19 @@ const VodCard = memo(function VodCard({
 								className="flex-1 rounded border border-surface-border-muted bg-surface-elevated px-2 py-1.5 text-sm text-text-primary placeholder:text-text-dim focus:border-twitch-purple focus:outline-none"
 								autoFocus
 							/>
-						<button
-							type="submit"
-							className="rounded bg-twitch-purple px-3 py-1.5 text-xs font-semibold text-white transition-all hover:bg-twitch-purple-hover cursor-pointer"
-						>
-							Save
-						</button>
-						<button
-							type="button"
-							onClick={handleCancelSave}
-							className="rounded border border-surface-border-muted bg-surface-elevated px-3 py-1.5 text-xs font-semibold text-text-muted transition-all hover:text-text-primary cursor-pointer"
-						>
-							Cancel
-						</button>
+							<button
+								type="submit"
+								className="rounded bg-twitch-purple px-3 py-1.5 text-xs font-semibold text-white transition-all hover:bg-twitch-purple-hover cursor-pointer"
+							>
+								Save
+							</button>
+							<button
+								type="button"
+								onClick={handleCancelSave}
+								className="rounded border border-surface-border-muted bg-surface-elevated px-3 py-1.5 text-xs font-semibold text-text-muted transition-all hover:text-text-primary cursor-pointer"
+							>
+								Cancel
+							</button>
 						</div>
 					</form>
 				)}
@@ -198,6 +270,12 @@ const VodCard = memo(function VodCard({
 					>
 						{watchButtonLabel}
 					</button>
+					<QualitySelect
+						value={quality}
+						defaultLabel="Default"
+						ariaLabel={`Quality for ${vod.title}`}
+						onChange={setQuality}
+					/>
 					{!showSaveInput && (
 						<button
 							type="button"
@@ -208,6 +286,49 @@ const VodCard = memo(function VodCard({
 							{saveButtonLabel}
 						</button>
 					)}
+					{onDownload !== undefined && (
+						<button
+							type="button"
+							onClick={handleDownloadClick}
+							className="rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2.5 text-text-muted transition-all hover:border-twitch-purple hover:text-text-primary cursor-pointer"
+							title="Download VOD"
+							aria-label={`Download ${vod.title}`}
+						>
+							<DownloadIcon className="h-4 w-4" />
+						</button>
+					)}
+					{onToggleWatched !== undefined && (
+						<button
+							type="button"
+							onClick={handleToggleWatchedClick}
+							className={`rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2.5 transition-all hover:border-twitch-purple hover:text-text-primary cursor-pointer ${isWatched ? "text-twitch-purple-light" : "text-text-muted"}`}
+							title={isWatched ? "Mark as unwatched" : "Mark as watched"}
+							aria-label={
+								isWatched
+									? `Mark ${vod.title} as unwatched`
+									: `Mark ${vod.title} as watched`
+							}
+							aria-pressed={isWatched}
+						>
+							<CheckIcon className="h-4 w-4" />
+						</button>
+					)}
+					{onQueue !== undefined && (
+						<button
+							type="button"
+							onClick={handleQueueClick}
+							className={`rounded-md border border-surface-border-muted bg-surface-elevated px-3 py-2.5 transition-all hover:border-twitch-purple hover:text-text-primary cursor-pointer ${isQueued ? "text-twitch-purple-light" : "text-text-muted"}`}
+							title={isQueued ? "Remove from Watch Later" : "Add to Watch Later"}
+							aria-label={
+								isQueued
+									? `Remove ${vod.title} from Watch Later`
+									: `Add ${vod.title} to Watch Later`
+							}
+							aria-pressed={isQueued}
+						>
+							<QueueIcon className="h-4 w-4" filled={isQueued} />
+						</button>
+					)}
 				</div>
 			</div>
 		</div>
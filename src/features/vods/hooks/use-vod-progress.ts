@@ -1,15 +1,24 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useMemo } from "react";
 
-import { saveVodProgress } from "@/src/features/vods/api/vods-mutations";
-import { fetchVodProgressBulk } from "@/src/features/vods/api/vods-queries";
+import {
+	dismissVodProgress,
+	saveVodProgress,
+	setVodsWatchedApi,
+} from "@/src/features/vods/api/vods-mutations";
+import {
+	fetchRecentProgress,
+	fetchVodProgressBulk,
+	fetchWatchedVodIds,
+} from "@/src/features/vods/api/vods-queries";
 import {
 	getVodProgressBulkQueryKey,
 	getVodProgressQueryKey,
+	getWatchedVodIdsQueryKey,
 	QUERY_KEYS,
 } from "@/src/shared/query-keys";
 
-import type { VodProgressSelect } from "@/src/features/vods/vods.types";
+import type { RecentVodProgress, VodProgressSelect } from "@/src/features/vods/vods.types";
 
 const EMPTY_PROGRESS: Array<VodProgressSelect> = [];
 
@@ -31,6 +40,17 @@ export function useVodProgressBulk(vodIds: Array<string>) {
 	};
 }
 
+export function useWatchedVodIds(vodIds: Array<string>) {
+	const { data } = useQuery({
+		queryKey: getWatchedVodIdsQueryKey(vodIds),
+		queryFn: () => fetchWatchedVodIds(vodIds),
+		enabled: vodIds.length > 0,
+		staleTime: 60_000,
+	});
+
+	return useMemo(() => new Set(data ?? []), [data]);
+}
+
 export function useSaveVodProgress() {
 	const queryClient = useQueryClient();
 
@@ -43,3 +63,63 @@ export function useSaveVodProgress() {
 		},
 	});
 }
+
+export function useRecentProgress() {
+	const { data, isLoading, error } = useQuery({
+		queryKey: QUERY_KEYS.vodProgressRecent,
+		queryFn: fetchRecentProgress,
+	});
+
+	return {
+		recentProgress: data ?? [],
+		isLoading,
+		error: error instanceof Error ? error : null,
+	};
+}
+
+export function useDismissVodProgress() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: dismissVodProgress,
+		onMutate: async (vodId: string) => {
+			await queryClient.cancelQueries({ queryKey: QUERY_KEYS.vodProgressRecent });
+
+			const previousProgress = queryClient.getQueryData<Array<RecentVodProgress>>(
+				QUERY_KEYS.vodProgressRecent,
+			);
+
+			if (previousProgress !== undefined) {
+				queryClient.setQueryData(
+					QUERY_KEYS.vodProgressRecent,
+					previousProgress.filter((item) => item.vodId !== vodId),
+				);
+			}
+
+			return { previousProgress };
+		},
+		onError: (_error, _vodId, context) => {
+			if (context?.previousProgress !== undefined) {
+				queryClient.setQueryData(QUERY_KEYS.vodProgressRecent, context.previousProgress);
+			}
+		},
+		onSettled: async () => {
+			await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.vodProgressRecent });
+		},
+	});
+}
+
+export function useSetVodsWatched() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: setVodsWatchedApi,
+		onSettled: async () => {
+			// Watched IDs live under the progress key; the sidebar shows unwatched counts
+			await Promise.all([
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.vodProgress }),
+				queryClient.invalidateQueries({ queryKey: QUERY_KEYS.followedChannels }),
+			]);
+		},
+	});
+}
@@ -3,15 +3,17 @@ import { useQuery } from "@tanstack/react-query";
 import { fetchChannelSearch } from "@/src/features/vods/api/vods-queries";
 import { getVodsQueryKey, QUERY_KEYS } from "@/src/shared/query-keys";
 
-export function useVodSearch(channelName: string | null) {
+import type { TwitchVideoTypeFilter } from "@/src/services/twitch-service";
+
+export function useVodSearch(channelName: string | null, videoType: TwitchVideoTypeFilter) {
 	const { data, isLoading, error } = useQuery({
-		queryKey: channelName !== null ? getVodsQueryKey(channelName) : QUERY_KEYS.vods,
+		queryKey: channelName !== null ? getVodsQueryKey(channelName, videoType) : QUERY_KEYS.vods,
 		queryFn: async () => {
 			if (channelName === null) {
 				return null;
 			}
 
-			return fetchChannelSearch(channelName);
+			return fetchChannelSearch(channelName, videoType);
 		},
 		enabled: channelName !== null,
 	});
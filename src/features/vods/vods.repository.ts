@@ -1,12 +1,14 @@
-import { and, desc, eq, gt, inArray, isNotNull, sql } from "drizzle-orm";
+import { and, count, desc, eq, gt, inArray, isNotNull, isNull, sql } from "drizzle-orm";
 
 import { database } from "@/src/db";
-import { vods } from "@/src/db/schema";
+import { followedChannels, vods, watchedVods } from "@/src/db/schema";
 import { parseDurationToSeconds } from "@/src/shared/utils/format";
 
+import { isWatchedProgress } from "./vods.validators";
+
 import type { SQL } from "drizzle-orm";
 import type { TwitchVideo } from "@/src/services/twitch-service";
-import type { SaveProgressInput } from "./vods.types";
+import type { RecentVodProgress, SaveProgressInput } from "./vods.types";
 
 export function upsertVodsFromTwitch(videos: Array<TwitchVideo>) {
 	try {
@@ -27,6 +29,7 @@ export function upsertVodsFromTwitch(videos: Array<TwitchVideo>) {
 						durationSeconds,
 						createdAt: video.createdAt,
 						thumbnailUrl: video.thumbnailUrl,
+						videoType: video.type,
 						fetchedAt: sql`CURRENT_TIMESTAMP`,
 					})
 					.onConflictDoUpdate({
@@ -36,6 +39,7 @@ export function upsertVodsFromTwitch(videos: Array<TwitchVideo>) {
 							durationSeconds,
 							createdAt: video.createdAt,
 							thumbnailUrl: video.thumbnailUrl,
+							videoType: video.type,
 							fetchedAt: sql`CURRENT_TIMESTAMP`,
 						},
 					})
@@ -70,6 +74,70 @@ export function getPlaybackProgress(vodId: string) {
 	}
 }
 
+export function getVodLaunchDetails(vodId: string) {
+	try {
+		const row = database
+			.select({
+				title: vods.title,
+				channelName: followedChannels.channelName,
+			})
+			.from(vods)
+			.innerJoin(followedChannels, eq(vods.channelId, followedChannels.channelId))
+			.where(eq(vods.vodId, vodId))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[vods.repository] getVodLaunchDetails failed:", error);
+		return new Error("Failed to get VOD details");
+	}
+}
+
+export function getCachedVodSummary(vodId: string) {
+	try {
+		const row = database
+			.select({
+				channelName: followedChannels.channelName,
+				title: vods.title,
+				durationSeconds: vods.durationSeconds,
+				createdAt: vods.createdAt,
+				thumbnailUrl: vods.thumbnailUrl,
+				videoType: vods.videoType,
+			})
+			.from(vods)
+			.innerJoin(followedChannels, eq(vods.channelId, followedChannels.channelId))
+			.where(eq(vods.vodId, vodId))
+			.get();
+
+		return row ?? null;
+	} catch (error) {
+		console.error("[vods.repository] getCachedVodSummary failed:", error);
+		return new Error("Failed to get VOD details");
+	}
+}
+
+export function getVodsByChannelId(channelId: string, limit: number) {
+	try {
+		return database
+			.select({
+				id: vods.vodId,
+				title: vods.title,
+				durationSeconds: vods.durationSeconds,
+				createdAt: vods.createdAt,
+				thumbnailUrl: vods.thumbnailUrl,
+				videoType: vods.videoType,
+			})
+			.from(vods)
+			.where(eq(vods.channelId, channelId))
+			.orderBy(desc(vods.createdAt))
+			.limit(limit)
+			.all();
+	} catch (error) {
+		console.error("[vods.repository] getVodsByChannelId failed:", error);
+		return new Error("Failed to get channel VODs");
+	}
+}
+
 export function getPlaybackProgressBulk(vodIds: Array<string>) {
 	try {
 		if (vodIds.length === 0) {
@@ -104,31 +172,47 @@ export function savePlaybackProgress(data: SaveProgressInput) {
 			return new Error("Duration cannot be negative");
 		}
 
+		// New progress brings a dismissed VOD back to continue watching
 		const updateValues: {
 			playbackPositionSeconds: number;
 			playbackUpdatedAt: SQL<unknown>;
+			progressDismissedAt: null;
 			durationSeconds?: number;
 		} = {
 			playbackPositionSeconds: data.positionSeconds,
 			playbackUpdatedAt: sql`CURRENT_TIMESTAMP`,
+			progressDismissedAt: null,
 		};
 
 		if (data.durationSeconds !== undefined) {
 			updateValues.durationSeconds = data.durationSeconds;
 		}
 
-		const result = database
-			.update(vods)
-			.set(updateValues)
-			.where(eq(vods.vodId, data.vodId))
-			.returning({ vodId: vods.vodId })
-			.get();
+		const result = database.transaction((transaction) => {
+			const updated = transaction
+				.update(vods)
+				.set(updateValues)
+				.where(eq(vods.vodId, data.vodId))
+				.returning({ durationSeconds: vods.durationSeconds })
+				.get();
 
-		if (result === undefined) {
-			return new Error("VOD not found");
-		}
+			// Reaching the end marks the VOD watched; seeking back later doesn't undo it
+			if (
+				updated !== undefined &&
+				isWatchedProgress(data.positionSeconds, updated.durationSeconds)
+			) {
+				transaction
+					.insert(watchedVods)
+					.values({ vodId: data.vodId })
+					.onConflictDoNothing()
+					.run();
+			}
 
-		return null;
+			return updated;
+		});
+
+		// Only VODs of followed channels are cached, so other VODs have nowhere to save to
+		return result !== undefined;
 	} catch (error) {
 		console.error("[vods.repository] savePlaybackProgress failed:", error);
 		return new Error("Failed to save playback progress");
@@ -154,7 +238,11 @@ export function deletePlaybackProgress(vodId: string) {
 	}
 }
 
-export function getRecentProgress(limit = 10) {
+/**
+ * VODs with saved progress for the continue watching row, most recently played first.
+ * Watched and dismissed VODs are left out.
+ */
+export function getRecentProgress(limit = 10): Array<RecentVodProgress> | Error {
 	try {
 		const rows = database
 			.select({
@@ -162,9 +250,25 @@ export function getRecentProgress(limit = 10) {
 				playbackPositionSeconds: vods.playbackPositionSeconds,
 				durationSeconds: vods.durationSeconds,
 				playbackUpdatedAt: vods.playbackUpdatedAt,
+				title: vods.title,
+				createdAt: vods.createdAt,
+				thumbnailUrl: vods.thumbnailUrl,
+				videoType: vods.videoType,
+				channelId: followedChannels.channelId,
+				channelName: followedChannels.channelName,
+				profileImageUrl: followedChannels.profileImageUrl,
 			})
 			.from(vods)
-			.where(and(gt(vods.playbackPositionSeconds, 0), isNotNull(vods.playbackUpdatedAt)))
+			.innerJoin(followedChannels, eq(vods.channelId, followedChannels.channelId))
+			.leftJoin(watchedVods, eq(watchedVods.vodId, vods.vodId))
+			.where(
+				and(
+					gt(vods.playbackPositionSeconds, 0),
+					isNotNull(vods.playbackUpdatedAt),
+					isNull(vods.progressDismissedAt),
+					isNull(watchedVods.vodId),
+				),
+			)
 			.orderBy(desc(vods.playbackUpdatedAt))
 			.limit(limit)
 			.all();
@@ -175,3 +279,98 @@ export function getRecentProgress(limit = 10) {
 		return new Error("Failed to get recent progress");
 	}
 }
+
+/**
+ * Hides a VOD from continue watching. Its saved position is kept for resuming.
+ */
+export function dismissRecentProgress(vodId: string) {
+	try {
+		const dismissed = database
+			.update(vods)
+			.set({ progressDismissedAt: sql`CURRENT_TIMESTAMP` })
+			.where(eq(vods.vodId, vodId))
+			.returning({ vodId: vods.vodId })
+			.all();
+
+		return dismissed.length > 0;
+	} catch (error) {
+		console.error("[vods.repository] dismissRecentProgress failed:", error);
+		return new Error("Failed to dismiss VOD progress");
+	}
+}
+
+export function getWatchedVodIds(vodIds: Array<string>) {
+	try {
+		if (vodIds.length === 0) {
+			return [];
+		}
+
+		const rows = database
+			.select({ vodId: watchedVods.vodId })
+			.from(watchedVods)
+			.where(inArray(watchedVods.vodId, vodIds))
+			.all();
+
+		return rows.map((row) => row.vodId);
+	} catch (error) {
+		console.error("[vods.repository] getWatchedVodIds failed:", error);
+		return new Error("Failed to get watched VODs");
+	}
+}
+
+/**
+ * Marks VODs watched or unwatched and returns how many changed. Works for any VOD ID,
+ * cached or not. Marking keeps the saved position, and VODs that were already watched
+ * keep their original completion time.
+ */
+export function setVodsWatched(vodIds: Array<string>, watched: boolean) {
+	try {
+		if (vodIds.length === 0) {
+			return 0;
+		}
+
+		if (watched) {
+			const inserted = database
+				.insert(watchedVods)
+				.values(vodIds.map((vodId) => ({ vodId })))
+				.onConflictDoNothing()
+				.returning({ vodId: watchedVods.vodId })
+				.all();
+
+			return inserted.length;
+		}
+
+		const deleted = database
+			.delete(watchedVods)
+			.where(inArray(watchedVods.vodId, vodIds))
+			.returning({ vodId: watchedVods.vodId })
+			.all();
+
+		return deleted.length;
+	} catch (error) {
+		console.error("[vods.repository] setVodsWatched failed:", error);
+		return new Error("Failed to update watched state");
+	}
+}
+
+export function getUnwatchedVodCounts() {
+	try {
+		const rows = database
+			.select({ channelId: vods.channelId, unwatchedCount: count() })
+			.from(vods)
+			.leftJoin(watchedVods, eq(watchedVods.vodId, vods.vodId))
+			.where(isNull(watchedVods.vodId))
+			.groupBy(vods.channelId)
+			.all();
+
+		const countsByChannelId = new Map<string, number>();
+		for (const row of rows) {
+			countsByChannelId.set(row.channelId, row.unwatchedCount);
+		}
+
+		return countsByChannelId;
+	} catch (error) {
+		console.error("[vods.repository] getUnwatchedVodCounts failed:", error);
+		return new Error("Failed to count unwatched VODs");
+	}
+}
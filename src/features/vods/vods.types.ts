@@ -1,5 +1,5 @@
 import type { vods } from "@/src/db/schema";
-import type { TwitchChannel, TwitchVideo } from "@/src/services/twitch-service";
+import type { TwitchChannel, TwitchVideo, TwitchVideoType } from "@/src/services/twitch-service";
 
 export type VodSelect = typeof vods.$inferSelect;
 
@@ -10,12 +10,23 @@ export type VodProgressSelect = {
 	playbackUpdatedAt: string | null;
 };
 
+export type RecentVodProgress = VodProgressSelect & {
+	title: string;
+	createdAt: string;
+	thumbnailUrl: string;
+	videoType: TwitchVideoType;
+	channelId: string;
+	channelName: string;
+	profileImageUrl: string;
+};
+
 export type VodSummary = {
 	id: string;
 	title: string;
 	durationSeconds: number;
 	createdAt: string;
 	thumbnailUrl: string;
+	videoType: TwitchVideoType;
 };
 
 export type SaveProgressInput = {
@@ -1,7 +1,50 @@
 import { isRecord } from "@/src/shared/utils/validation";
 
-import type { ChannelSearchResponse, VodProgressSelect } from "./vods.types";
-import type { TwitchChannel, TwitchVideo } from "@/src/services/twitch-service";
+import type { ChannelSearchResponse, RecentVodProgress, VodProgressSelect } from "./vods.types";
+import type {
+	TwitchChannel,
+	TwitchVideo,
+	TwitchVideoType,
+	TwitchVideoTypeFilter,
+} from "@/src/services/twitch-service";
+
+export const VIDEO_TYPE_FILTERS: Array<TwitchVideoTypeFilter> = [
+	"archive",
+	"highlight",
+	"upload",
+	"all",
+];
+
+// A VOD counts as watched once playback got this far into it
+const WATCHED_PROGRESS_PERCENT = 90;
+
+const MAX_WATCHED_VOD_IDS = 100;
+const VOD_ID_PATTERN = /^[0-9]+$/;
+
+export function isTwitchVideoType(value: unknown): value is TwitchVideoType {
+	return value === "archive" || value === "highlight" || value === "upload";
+}
+
+// Archives stay the default so existing callers keep getting past broadcasts only
+export function parseVideoTypeFilter(value: string | null): TwitchVideoTypeFilter | Error {
+	if (value === null) {
+		return "archive";
+	}
+
+	for (const filter of VIDEO_TYPE_FILTERS) {
+		if (filter === value) {
+			return filter;
+		}
+	}
+
+	return new Error(`type must be one of: ${VIDEO_TYPE_FILTERS.join(", ")}`);
+}
+
+export function isWatchedProgress(positionSeconds: number, durationSeconds: number) {
+	return (
+		durationSeconds > 0 && positionSeconds * 100 >= durationSeconds * WATCHED_PROGRESS_PERCENT
+	);
+}
 
 function isTwitchChannel(value: unknown): value is TwitchChannel {
 	if (!isRecord(value)) {
@@ -28,7 +71,8 @@ function isTwitchVideo(value: unknown): value is TwitchVideo {
 		typeof value.title === "string" &&
 		typeof value.duration === "string" &&
 		typeof value.createdAt === "string" &&
-		typeof value.thumbnailUrl === "string"
+		typeof value.thumbnailUrl === "string" &&
+		isTwitchVideoType(value.type)
 	);
 }
 
@@ -113,3 +157,99 @@ export function parseSaveProgressBody(body: unknown) {
 		durationSeconds,
 	};
 }
+
+// The watched lookup and the bulk update cap and check VOD IDs the same way
+function parseWatchedVodIdList(fieldName: string, values: Array<unknown>) {
+	if (values.length === 0 || values.length > MAX_WATCHED_VOD_IDS) {
+		return new Error(`${fieldName} must list 1-${MAX_WATCHED_VOD_IDS} VOD IDs`);
+	}
+
+	const vodIds: Array<string> = [];
+	for (const vodId of values) {
+		if (typeof vodId !== "string" || !VOD_ID_PATTERN.test(vodId)) {
+			return new Error(`${fieldName} must only contain VOD IDs`);
+		}
+
+		vodIds.push(vodId);
+	}
+
+	return vodIds;
+}
+
+export function parseWatchedVodIdsParam(idsParam: string | null) {
+	if (idsParam === null) {
+		return new Error("ids is required");
+	}
+
+	const ids = idsParam.split(",");
+
+	return parseWatchedVodIdList("ids", ids);
+}
+
+export function validateSetWatchedRequest(body: unknown) {
+	if (!isRecord(body)) {
+		return new Error("Request body must be an object");
+	}
+
+	if (typeof body.watched !== "boolean") {
+		return new Error("watched is required and must be a boolean");
+	}
+
+	if (!Array.isArray(body.vodIds)) {
+		return new Error("vodIds is required and must be an array");
+	}
+
+	const vodIds = parseWatchedVodIdList("vodIds", body.vodIds);
+
+	if (vodIds instanceof Error) {
+		return vodIds;
+	}
+
+	return { vodIds, watched: body.watched };
+}
+
+export function parseWatchedVodIdsResponse(data: unknown): Array<string> | Error {
+	if (
+		!isRecord(data) ||
+		!Array.isArray(data.watchedVodIds) ||
+		!data.watchedVodIds.every((vodId) => typeof vodId === "string")
+	) {
+		return new Error("Invalid watched VODs response");
+	}
+
+	return data.watchedVodIds;
+}
+
+export function parseSetWatchedResponse(data: unknown) {
+	if (!isRecord(data) || typeof data.updatedCount !== "number") {
+		return new Error("Invalid watched response");
+	}
+
+	return { updatedCount: data.updatedCount };
+}
+
+function isRecentVodProgress(value: unknown): value is RecentVodProgress {
+	return (
+		isRecord(value) &&
+		typeof value.title === "string" &&
+		typeof value.createdAt === "string" &&
+		typeof value.thumbnailUrl === "string" &&
+		isTwitchVideoType(value.videoType) &&
+		typeof value.channelId === "string" &&
+		typeof value.channelName === "string" &&
+		typeof value.profileImageUrl === "string" &&
+		isVodProgressSelect(value)
+	);
+}
+
+export function parseRecentProgressResponse(data: unknown): Array<RecentVodProgress> | Error {
+	if (
+		!isRecord(data) ||
+		!Array.isArray(data.progress) ||
+		!data.progress.every(isRecentVodProgress)
+	) {
+		return new Error("Invalid recent progress response");
+	}
+
+	return data.progress;
+}
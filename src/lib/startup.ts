@@ -1,3 +1,8 @@
+import {
+	EXECUTABLE_KINDS,
+	ExecutableNotFoundError,
+	resolveExecutable,
+} from "@/src/services/launcher-config-service";
 import { populateInitialCache, startBackgroundRefresh } from "@/src/services/video-cache-service";
 
 async function initializeVideoCache() {
@@ -17,4 +22,20 @@ async function initializeVideoCache() {
 	startBackgroundRefresh();
 }
 
-export { initializeVideoCache };
+function validateLauncherExecutables() {
+	for (const kind of EXECUTABLE_KINDS) {
+		const result = resolveExecutable(kind);
+
+		if (result instanceof ExecutableNotFoundError) {
+			console.warn(`[startup] ${result.message} Probed locations:`);
+			for (const location of result.probedLocations) {
+				console.warn(`[startup]   ${location}`);
+			}
+			continue;
+		}
+
+		console.log(`[startup] Found ${kind} at ${result.path} (${result.source})`);
+	}
+}
+
+export { initializeVideoCache, validateLauncherExecutables };
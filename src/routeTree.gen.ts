@@ -9,43 +9,160 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './app/__root'
-import { Route as VodsRouteImport } from './app/vods'
 import { Route as IndexRouteImport } from './app/index'
-import { Route as ApiVodProgressIndexRouteImport } from './app/api/vod-progress/index'
-import { Route as ApiVideosIndexRouteImport } from './app/api/videos/index'
-import { Route as ApiFavoritesIndexRouteImport } from './app/api/favorites/index'
+import { Route as BrowseRouteImport } from './app/browse'
+import { Route as DownloadsRouteImport } from './app/downloads'
+import { Route as HiddenChannelsRouteImport } from './app/hidden-channels'
+import { Route as HistoryRouteImport } from './app/history'
+import { Route as NotificationsRouteImport } from './app/notifications'
+import { Route as ScheduleRouteImport } from './app/schedule'
+import { Route as SettingsRouteImport } from './app/settings'
+import { Route as VodsRouteImport } from './app/vods'
+import { Route as ChannelsIdRouteImport } from './app/channels/$id'
+import { Route as PlaylistsIndexRouteImport } from './app/playlists/index'
+import { Route as PlaylistsIdRouteImport } from './app/playlists/$id'
 import { Route as ApiChannelsIndexRouteImport } from './app/api/channels/index'
-import { Route as ApiVodProgressIdIndexRouteImport } from './app/api/vod-progress/$id/index'
-import { Route as ApiFavoritesReorderIndexRouteImport } from './app/api/favorites/reorder/index'
-import { Route as ApiChatChannelIndexRouteImport } from './app/api/chat/$channel/index'
-import { Route as ApiChannelsSearchIndexRouteImport } from './app/api/channels/search/index'
-import { Route as ApiChannelsFollowedIndexRouteImport } from './app/api/channels/followed/index'
-import { Route as ApiAuthUrlIndexRouteImport } from './app/api/auth/url/index'
-import { Route as ApiAuthStatusIndexRouteImport } from './app/api/auth/status/index'
-import { Route as ApiAuthLogoutIndexRouteImport } from './app/api/auth/logout/index'
+import { Route as ApiClipsIndexRouteImport } from './app/api/clips/index'
+import { Route as ApiDownloadsIndexRouteImport } from './app/api/downloads/index'
+import { Route as ApiEventsIndexRouteImport } from './app/api/events/index'
+import { Route as ApiFavoritesIndexRouteImport } from './app/api/favorites/index'
+import { Route as ApiHiddenChannelsIndexRouteImport } from './app/api/hidden-channels/index'
+import { Route as ApiHistoryIndexRouteImport } from './app/api/history/index'
+import { Route as ApiLauncherIndexRouteImport } from './app/api/launcher/index'
+import { Route as ApiLayoutPresetsIndexRouteImport } from './app/api/layout-presets/index'
+import { Route as ApiLibraryIndexRouteImport } from './app/api/library/index'
+import { Route as ApiNotificationsIndexRouteImport } from './app/api/notifications/index'
+import { Route as ApiPlayerProfilesIndexRouteImport } from './app/api/player-profiles/index'
+import { Route as ApiPlaylistsIndexRouteImport } from './app/api/playlists/index'
+import { Route as ApiScheduleDoticsIndexRouteImport } from './app/api/schedule[.]ics/index'
+import { Route as ApiScheduleIndexRouteImport } from './app/api/schedule/index'
+import { Route as ApiSessionsIndexRouteImport } from './app/api/sessions/index'
+import { Route as ApiVideosIndexRouteImport } from './app/api/videos/index'
+import { Route as ApiVodChaptersIndexRouteImport } from './app/api/vod-chapters/index'
+import { Route as ApiVodProgressIndexRouteImport } from './app/api/vod-progress/index'
 import { Route as ApiAuthCallbackIndexRouteImport } from './app/api/auth/callback/index'
-import { Route as ApiWatchVodIdIndexRouteImport } from './app/api/watch/vod/$id/index'
-import { Route as ApiWatchLiveChannelIndexRouteImport } from './app/api/watch/live/$channel/index'
+import { Route as ApiAuthLogoutIndexRouteImport } from './app/api/auth/logout/index'
+import { Route as ApiAuthStatusIndexRouteImport } from './app/api/auth/status/index'
+import { Route as ApiAuthUrlIndexRouteImport } from './app/api/auth/url/index'
+import { Route as ApiBrowseCategoriesIndexRouteImport } from './app/api/browse/categories/index'
+import { Route as ApiBrowseChannelsIndexRouteImport } from './app/api/browse/channels/index'
+import { Route as ApiBrowseSectionsIndexRouteImport } from './app/api/browse/sections/index'
+import { Route as ApiChannelsIdIndexRouteImport } from './app/api/channels/$id/index'
+import { Route as ApiChannelsFollowedIndexRouteImport } from './app/api/channels/followed/index'
+import { Route as ApiChannelsSearchIndexRouteImport } from './app/api/channels/search/index'
+import { Route as ApiChatChannelIndexRouteImport } from './app/api/chat/$channel/index'
+import { Route as ApiDownloadsIdIndexRouteImport } from './app/api/downloads/$id/index'
+import { Route as ApiEventsubStatusIndexRouteImport } from './app/api/eventsub/status/index'
+import { Route as ApiEventsubWebhookIndexRouteImport } from './app/api/eventsub/webhook/index'
+import { Route as ApiFavoritesReorderIndexRouteImport } from './app/api/favorites/reorder/index'
+import { Route as ApiHiddenChannelsIdIndexRouteImport } from './app/api/hidden-channels/$id/index'
+import { Route as ApiLayoutPresetsIdIndexRouteImport } from './app/api/layout-presets/$id/index'
+import { Route as ApiLibraryIdIndexRouteImport } from './app/api/library/$id/index'
+import { Route as ApiLibraryRetentionIndexRouteImport } from './app/api/library/retention/index'
+import { Route as ApiLibraryScanIndexRouteImport } from './app/api/library/scan/index'
+import { Route as ApiNotificationsRulesIndexRouteImport } from './app/api/notifications/rules/index'
+import { Route as ApiPlayerProfilesIdIndexRouteImport } from './app/api/player-profiles/$id/index'
+import { Route as ApiPlaylistsIdIndexRouteImport } from './app/api/playlists/$id/index'
+import { Route as ApiSessionsIdIndexRouteImport } from './app/api/sessions/$id/index'
+import { Route as ApiVodProgressIdIndexRouteImport } from './app/api/vod-progress/$id/index'
+import { Route as ApiVodProgressWatchedIndexRouteImport } from './app/api/vod-progress/watched/index'
+import { Route as ApiWatchMultiIndexRouteImport } from './app/api/watch/multi/index'
+import { Route as ApiBrowseSectionsIdIndexRouteImport } from './app/api/browse/sections/$id/index'
+import { Route as ApiChannelsIdFollowIndexRouteImport } from './app/api/channels/$id/follow/index'
+import { Route as ApiChannelsIdQualityIndexRouteImport } from './app/api/channels/$id/quality/index'
+import { Route as ApiChannelsIdRankIndexRouteImport } from './app/api/channels/$id/rank/index'
+import { Route as ApiChannelsIdSessionsIndexRouteImport } from './app/api/channels/$id/sessions/index'
+import { Route as ApiDownloadsIdCancelIndexRouteImport } from './app/api/downloads/$id/cancel/index'
 import { Route as ApiFavoritesToggleIdIndexRouteImport } from './app/api/favorites/toggle/$id/index'
+import { Route as ApiNotificationsRulesIdIndexRouteImport } from './app/api/notifications/rules/$id/index'
+import { Route as ApiPlaylistsIdItemsIndexRouteImport } from './app/api/playlists/$id/items/index'
+import { Route as ApiPlaylistsIdPlayNextIndexRouteImport } from './app/api/playlists/$id/play-next/index'
+import { Route as ApiPlaylistsIdReorderIndexRouteImport } from './app/api/playlists/$id/reorder/index'
+import { Route as ApiVodProgressIdDismissIndexRouteImport } from './app/api/vod-progress/$id/dismiss/index'
+import { Route as ApiWatchClipIdIndexRouteImport } from './app/api/watch/clip/$id/index'
+import { Route as ApiWatchLiveChannelIndexRouteImport } from './app/api/watch/live/$channel/index'
+import { Route as ApiWatchVodIdIndexRouteImport } from './app/api/watch/vod/$id/index'
+import { Route as ApiBrowseSectionsIdStreamsIndexRouteImport } from './app/api/browse/sections/$id/streams/index'
+import { Route as ApiPlaylistsIdItemsVodIdIndexRouteImport } from './app/api/playlists/$id/items/$vodId/index'
 
+const IndexRoute = IndexRouteImport.update({
+  id: '/',
+  path: '/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const BrowseRoute = BrowseRouteImport.update({
+  id: '/browse',
+  path: '/browse',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const DownloadsRoute = DownloadsRouteImport.update({
+  id: '/downloads',
+  path: '/downloads',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const HiddenChannelsRoute = HiddenChannelsRouteImport.update({
+  id: '/hidden-channels',
+  path: '/hidden-channels',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const HistoryRoute = HistoryRouteImport.update({
+  id: '/history',
+  path: '/history',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const NotificationsRoute = NotificationsRouteImport.update({
+  id: '/notifications',
+  path: '/notifications',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ScheduleRoute = ScheduleRouteImport.update({
+  id: '/schedule',
+  path: '/schedule',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const SettingsRoute = SettingsRouteImport.update({
+  id: '/settings',
+  path: '/settings',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const VodsRoute = VodsRouteImport.update({
   id: '/vods',
   path: '/vods',
   getParentRoute: () => rootRouteImport,
 } as any)
-const IndexRoute = IndexRouteImport.update({
-  id: '/',
-  path: '/',
+const ChannelsIdRoute = ChannelsIdRouteImport.update({
+  id: '/channels/$id',
+  path: '/channels/$id',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiVodProgressIndexRoute = ApiVodProgressIndexRouteImport.update({
-  id: '/api/vod-progress/',
-  path: '/api/vod-progress/',
+const PlaylistsIndexRoute = PlaylistsIndexRouteImport.update({
+  id: '/playlists/',
+  path: '/playlists/',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiVideosIndexRoute = ApiVideosIndexRouteImport.update({
-  id: '/api/videos/',
-  path: '/api/videos/',
+const PlaylistsIdRoute = PlaylistsIdRouteImport.update({
+  id: '/playlists/$id',
+  path: '/playlists/$id',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiChannelsIndexRoute = ApiChannelsIndexRouteImport.update({
+  id: '/api/channels/',
+  path: '/api/channels/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiClipsIndexRoute = ApiClipsIndexRouteImport.update({
+  id: '/api/clips/',
+  path: '/api/clips/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiDownloadsIndexRoute = ApiDownloadsIndexRouteImport.update({
+  id: '/api/downloads/',
+  path: '/api/downloads/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiEventsIndexRoute = ApiEventsIndexRouteImport.update({
+  id: '/api/events/',
+  path: '/api/events/',
   getParentRoute: () => rootRouteImport,
 } as any)
 const ApiFavoritesIndexRoute = ApiFavoritesIndexRouteImport.update({
@@ -53,30 +170,115 @@ const ApiFavoritesIndexRoute = ApiFavoritesIndexRouteImport.update({
   path: '/api/favorites/',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiChannelsIndexRoute = ApiChannelsIndexRouteImport.update({
-  id: '/api/channels/',
-  path: '/api/channels/',
+const ApiHiddenChannelsIndexRoute = ApiHiddenChannelsIndexRouteImport.update({
+  id: '/api/hidden-channels/',
+  path: '/api/hidden-channels/',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiVodProgressIdIndexRoute = ApiVodProgressIdIndexRouteImport.update({
-  id: '/api/vod-progress/$id/',
-  path: '/api/vod-progress/$id/',
+const ApiHistoryIndexRoute = ApiHistoryIndexRouteImport.update({
+  id: '/api/history/',
+  path: '/api/history/',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiFavoritesReorderIndexRoute =
-  ApiFavoritesReorderIndexRouteImport.update({
-    id: '/api/favorites/reorder/',
-    path: '/api/favorites/reorder/',
+const ApiLauncherIndexRoute = ApiLauncherIndexRouteImport.update({
+  id: '/api/launcher/',
+  path: '/api/launcher/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiLayoutPresetsIndexRoute = ApiLayoutPresetsIndexRouteImport.update({
+  id: '/api/layout-presets/',
+  path: '/api/layout-presets/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiLibraryIndexRoute = ApiLibraryIndexRouteImport.update({
+  id: '/api/library/',
+  path: '/api/library/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiNotificationsIndexRoute = ApiNotificationsIndexRouteImport.update({
+  id: '/api/notifications/',
+  path: '/api/notifications/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiPlayerProfilesIndexRoute = ApiPlayerProfilesIndexRouteImport.update({
+  id: '/api/player-profiles/',
+  path: '/api/player-profiles/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiPlaylistsIndexRoute = ApiPlaylistsIndexRouteImport.update({
+  id: '/api/playlists/',
+  path: '/api/playlists/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiScheduleDoticsIndexRoute = ApiScheduleDoticsIndexRouteImport.update({
+  id: '/api/schedule.ics/',
+  path: '/api/schedule.ics/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiScheduleIndexRoute = ApiScheduleIndexRouteImport.update({
+  id: '/api/schedule/',
+  path: '/api/schedule/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiSessionsIndexRoute = ApiSessionsIndexRouteImport.update({
+  id: '/api/sessions/',
+  path: '/api/sessions/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiVideosIndexRoute = ApiVideosIndexRouteImport.update({
+  id: '/api/videos/',
+  path: '/api/videos/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiVodChaptersIndexRoute = ApiVodChaptersIndexRouteImport.update({
+  id: '/api/vod-chapters/',
+  path: '/api/vod-chapters/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiVodProgressIndexRoute = ApiVodProgressIndexRouteImport.update({
+  id: '/api/vod-progress/',
+  path: '/api/vod-progress/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAuthCallbackIndexRoute = ApiAuthCallbackIndexRouteImport.update({
+  id: '/api/auth/callback/',
+  path: '/api/auth/callback/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAuthLogoutIndexRoute = ApiAuthLogoutIndexRouteImport.update({
+  id: '/api/auth/logout/',
+  path: '/api/auth/logout/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAuthStatusIndexRoute = ApiAuthStatusIndexRouteImport.update({
+  id: '/api/auth/status/',
+  path: '/api/auth/status/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAuthUrlIndexRoute = ApiAuthUrlIndexRouteImport.update({
+  id: '/api/auth/url/',
+  path: '/api/auth/url/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiBrowseCategoriesIndexRoute =
+  ApiBrowseCategoriesIndexRouteImport.update({
+    id: '/api/browse/categories/',
+    path: '/api/browse/categories/',
     getParentRoute: () => rootRouteImport,
   } as any)
-const ApiChatChannelIndexRoute = ApiChatChannelIndexRouteImport.update({
-  id: '/api/chat/$channel/',
-  path: '/api/chat/$channel/',
+const ApiBrowseChannelsIndexRoute = ApiBrowseChannelsIndexRouteImport.update({
+  id: '/api/browse/channels/',
+  path: '/api/browse/channels/',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiChannelsSearchIndexRoute = ApiChannelsSearchIndexRouteImport.update({
-  id: '/api/channels/search/',
-  path: '/api/channels/search/',
+const ApiBrowseSectionsIndexRoute = ApiBrowseSectionsIndexRouteImport.update({
+  id: '/api/browse/sections/',
+  path: '/api/browse/sections/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiChannelsIdIndexRoute = ApiChannelsIdIndexRouteImport.update({
+  id: '/api/channels/$id/',
+  path: '/api/channels/$id/',
   getParentRoute: () => rootRouteImport,
 } as any)
 const ApiChannelsFollowedIndexRoute =
@@ -85,35 +287,135 @@ const ApiChannelsFollowedIndexRoute =
     path: '/api/channels/followed/',
     getParentRoute: () => rootRouteImport,
   } as any)
-const ApiAuthUrlIndexRoute = ApiAuthUrlIndexRouteImport.update({
-  id: '/api/auth/url/',
-  path: '/api/auth/url/',
+const ApiChannelsSearchIndexRoute = ApiChannelsSearchIndexRouteImport.update({
+  id: '/api/channels/search/',
+  path: '/api/channels/search/',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiAuthStatusIndexRoute = ApiAuthStatusIndexRouteImport.update({
-  id: '/api/auth/status/',
-  path: '/api/auth/status/',
+const ApiChatChannelIndexRoute = ApiChatChannelIndexRouteImport.update({
+  id: '/api/chat/$channel/',
+  path: '/api/chat/$channel/',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiAuthLogoutIndexRoute = ApiAuthLogoutIndexRouteImport.update({
-  id: '/api/auth/logout/',
-  path: '/api/auth/logout/',
+const ApiDownloadsIdIndexRoute = ApiDownloadsIdIndexRouteImport.update({
+  id: '/api/downloads/$id/',
+  path: '/api/downloads/$id/',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiAuthCallbackIndexRoute = ApiAuthCallbackIndexRouteImport.update({
-  id: '/api/auth/callback/',
-  path: '/api/auth/callback/',
+const ApiEventsubStatusIndexRoute = ApiEventsubStatusIndexRouteImport.update({
+  id: '/api/eventsub/status/',
+  path: '/api/eventsub/status/',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiWatchVodIdIndexRoute = ApiWatchVodIdIndexRouteImport.update({
-  id: '/api/watch/vod/$id/',
-  path: '/api/watch/vod/$id/',
+const ApiEventsubWebhookIndexRoute = ApiEventsubWebhookIndexRouteImport.update({
+  id: '/api/eventsub/webhook/',
+  path: '/api/eventsub/webhook/',
   getParentRoute: () => rootRouteImport,
 } as any)
-const ApiWatchLiveChannelIndexRoute =
-  ApiWatchLiveChannelIndexRouteImport.update({
-    id: '/api/watch/live/$channel/',
-    path: '/api/watch/live/$channel/',
+const ApiFavoritesReorderIndexRoute =
+  ApiFavoritesReorderIndexRouteImport.update({
+    id: '/api/favorites/reorder/',
+    path: '/api/favorites/reorder/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiHiddenChannelsIdIndexRoute =
+  ApiHiddenChannelsIdIndexRouteImport.update({
+    id: '/api/hidden-channels/$id/',
+    path: '/api/hidden-channels/$id/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiLayoutPresetsIdIndexRoute = ApiLayoutPresetsIdIndexRouteImport.update({
+  id: '/api/layout-presets/$id/',
+  path: '/api/layout-presets/$id/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiLibraryIdIndexRoute = ApiLibraryIdIndexRouteImport.update({
+  id: '/api/library/$id/',
+  path: '/api/library/$id/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiLibraryRetentionIndexRoute =
+  ApiLibraryRetentionIndexRouteImport.update({
+    id: '/api/library/retention/',
+    path: '/api/library/retention/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiLibraryScanIndexRoute = ApiLibraryScanIndexRouteImport.update({
+  id: '/api/library/scan/',
+  path: '/api/library/scan/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiNotificationsRulesIndexRoute =
+  ApiNotificationsRulesIndexRouteImport.update({
+    id: '/api/notifications/rules/',
+    path: '/api/notifications/rules/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiPlayerProfilesIdIndexRoute =
+  ApiPlayerProfilesIdIndexRouteImport.update({
+    id: '/api/player-profiles/$id/',
+    path: '/api/player-profiles/$id/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiPlaylistsIdIndexRoute = ApiPlaylistsIdIndexRouteImport.update({
+  id: '/api/playlists/$id/',
+  path: '/api/playlists/$id/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiSessionsIdIndexRoute = ApiSessionsIdIndexRouteImport.update({
+  id: '/api/sessions/$id/',
+  path: '/api/sessions/$id/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiVodProgressIdIndexRoute = ApiVodProgressIdIndexRouteImport.update({
+  id: '/api/vod-progress/$id/',
+  path: '/api/vod-progress/$id/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiVodProgressWatchedIndexRoute =
+  ApiVodProgressWatchedIndexRouteImport.update({
+    id: '/api/vod-progress/watched/',
+    path: '/api/vod-progress/watched/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiWatchMultiIndexRoute = ApiWatchMultiIndexRouteImport.update({
+  id: '/api/watch/multi/',
+  path: '/api/watch/multi/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiBrowseSectionsIdIndexRoute =
+  ApiBrowseSectionsIdIndexRouteImport.update({
+    id: '/api/browse/sections/$id/',
+    path: '/api/browse/sections/$id/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiChannelsIdFollowIndexRoute =
+  ApiChannelsIdFollowIndexRouteImport.update({
+    id: '/api/channels/$id/follow/',
+    path: '/api/channels/$id/follow/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiChannelsIdQualityIndexRoute =
+  ApiChannelsIdQualityIndexRouteImport.update({
+    id: '/api/channels/$id/quality/',
+    path: '/api/channels/$id/quality/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiChannelsIdRankIndexRoute = ApiChannelsIdRankIndexRouteImport.update({
+  id: '/api/channels/$id/rank/',
+  path: '/api/channels/$id/rank/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiChannelsIdSessionsIndexRoute =
+  ApiChannelsIdSessionsIndexRouteImport.update({
+    id: '/api/channels/$id/sessions/',
+    path: '/api/channels/$id/sessions/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiDownloadsIdCancelIndexRoute =
+  ApiDownloadsIdCancelIndexRouteImport.update({
+    id: '/api/downloads/$id/cancel/',
+    path: '/api/downloads/$id/cancel/',
     getParentRoute: () => rootRouteImport,
   } as any)
 const ApiFavoritesToggleIdIndexRoute =
@@ -122,154 +424,667 @@ const ApiFavoritesToggleIdIndexRoute =
     path: '/api/favorites/toggle/$id/',
     getParentRoute: () => rootRouteImport,
   } as any)
+const ApiNotificationsRulesIdIndexRoute =
+  ApiNotificationsRulesIdIndexRouteImport.update({
+    id: '/api/notifications/rules/$id/',
+    path: '/api/notifications/rules/$id/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiPlaylistsIdItemsIndexRoute =
+  ApiPlaylistsIdItemsIndexRouteImport.update({
+    id: '/api/playlists/$id/items/',
+    path: '/api/playlists/$id/items/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiPlaylistsIdPlayNextIndexRoute =
+  ApiPlaylistsIdPlayNextIndexRouteImport.update({
+    id: '/api/playlists/$id/play-next/',
+    path: '/api/playlists/$id/play-next/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiPlaylistsIdReorderIndexRoute =
+  ApiPlaylistsIdReorderIndexRouteImport.update({
+    id: '/api/playlists/$id/reorder/',
+    path: '/api/playlists/$id/reorder/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiVodProgressIdDismissIndexRoute =
+  ApiVodProgressIdDismissIndexRouteImport.update({
+    id: '/api/vod-progress/$id/dismiss/',
+    path: '/api/vod-progress/$id/dismiss/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiWatchClipIdIndexRoute = ApiWatchClipIdIndexRouteImport.update({
+  id: '/api/watch/clip/$id/',
+  path: '/api/watch/clip/$id/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiWatchLiveChannelIndexRoute =
+  ApiWatchLiveChannelIndexRouteImport.update({
+    id: '/api/watch/live/$channel/',
+    path: '/api/watch/live/$channel/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiWatchVodIdIndexRoute = ApiWatchVodIdIndexRouteImport.update({
+  id: '/api/watch/vod/$id/',
+  path: '/api/watch/vod/$id/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiBrowseSectionsIdStreamsIndexRoute =
+  ApiBrowseSectionsIdStreamsIndexRouteImport.update({
+    id: '/api/browse/sections/$id/streams/',
+    path: '/api/browse/sections/$id/streams/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiPlaylistsIdItemsVodIdIndexRoute =
+  ApiPlaylistsIdItemsVodIdIndexRouteImport.update({
+    id: '/api/playlists/$id/items/$vodId/',
+    path: '/api/playlists/$id/items/$vodId/',
+    getParentRoute: () => rootRouteImport,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/browse': typeof BrowseRoute
+  '/downloads': typeof DownloadsRoute
+  '/hidden-channels': typeof HiddenChannelsRoute
+  '/history': typeof HistoryRoute
+  '/notifications': typeof NotificationsRoute
+  '/schedule': typeof ScheduleRoute
+  '/settings': typeof SettingsRoute
   '/vods': typeof VodsRoute
+  '/channels/$id': typeof ChannelsIdRoute
+  '/playlists/$id': typeof PlaylistsIdRoute
+  '/playlists/': typeof PlaylistsIndexRoute
   '/api/channels/': typeof ApiChannelsIndexRoute
+  '/api/clips/': typeof ApiClipsIndexRoute
+  '/api/downloads/': typeof ApiDownloadsIndexRoute
+  '/api/events/': typeof ApiEventsIndexRoute
   '/api/favorites/': typeof ApiFavoritesIndexRoute
+  '/api/hidden-channels/': typeof ApiHiddenChannelsIndexRoute
+  '/api/history/': typeof ApiHistoryIndexRoute
+  '/api/launcher/': typeof ApiLauncherIndexRoute
+  '/api/layout-presets/': typeof ApiLayoutPresetsIndexRoute
+  '/api/library/': typeof ApiLibraryIndexRoute
+  '/api/notifications/': typeof ApiNotificationsIndexRoute
+  '/api/player-profiles/': typeof ApiPlayerProfilesIndexRoute
+  '/api/playlists/': typeof ApiPlaylistsIndexRoute
+  '/api/schedule.ics/': typeof ApiScheduleDoticsIndexRoute
+  '/api/schedule/': typeof ApiScheduleIndexRoute
+  '/api/sessions/': typeof ApiSessionsIndexRoute
   '/api/videos/': typeof ApiVideosIndexRoute
+  '/api/vod-chapters/': typeof ApiVodChaptersIndexRoute
   '/api/vod-progress/': typeof ApiVodProgressIndexRoute
   '/api/auth/callback/': typeof ApiAuthCallbackIndexRoute
   '/api/auth/logout/': typeof ApiAuthLogoutIndexRoute
   '/api/auth/status/': typeof ApiAuthStatusIndexRoute
   '/api/auth/url/': typeof ApiAuthUrlIndexRoute
+  '/api/browse/categories/': typeof ApiBrowseCategoriesIndexRoute
+  '/api/browse/channels/': typeof ApiBrowseChannelsIndexRoute
+  '/api/browse/sections/': typeof ApiBrowseSectionsIndexRoute
+  '/api/channels/$id/': typeof ApiChannelsIdIndexRoute
   '/api/channels/followed/': typeof ApiChannelsFollowedIndexRoute
   '/api/channels/search/': typeof ApiChannelsSearchIndexRoute
   '/api/chat/$channel/': typeof ApiChatChannelIndexRoute
+  '/api/downloads/$id/': typeof ApiDownloadsIdIndexRoute
+  '/api/eventsub/status/': typeof ApiEventsubStatusIndexRoute
+  '/api/eventsub/webhook/': typeof ApiEventsubWebhookIndexRoute
   '/api/favorites/reorder/': typeof ApiFavoritesReorderIndexRoute
+  '/api/hidden-channels/$id/': typeof ApiHiddenChannelsIdIndexRoute
+  '/api/layout-presets/$id/': typeof ApiLayoutPresetsIdIndexRoute
+  '/api/library/$id/': typeof ApiLibraryIdIndexRoute
+  '/api/library/retention/': typeof ApiLibraryRetentionIndexRoute
+  '/api/library/scan/': typeof ApiLibraryScanIndexRoute
+  '/api/notifications/rules/': typeof ApiNotificationsRulesIndexRoute
+  '/api/player-profiles/$id/': typeof ApiPlayerProfilesIdIndexRoute
+  '/api/playlists/$id/': typeof ApiPlaylistsIdIndexRoute
+  '/api/sessions/$id/': typeof ApiSessionsIdIndexRoute
   '/api/vod-progress/$id/': typeof ApiVodProgressIdIndexRoute
+  '/api/vod-progress/watched/': typeof ApiVodProgressWatchedIndexRoute
+  '/api/watch/multi/': typeof ApiWatchMultiIndexRoute
+  '/api/browse/sections/$id/': typeof ApiBrowseSectionsIdIndexRoute
+  '/api/channels/$id/follow/': typeof ApiChannelsIdFollowIndexRoute
+  '/api/channels/$id/quality/': typeof ApiChannelsIdQualityIndexRoute
+  '/api/channels/$id/rank/': typeof ApiChannelsIdRankIndexRoute
+  '/api/channels/$id/sessions/': typeof ApiChannelsIdSessionsIndexRoute
+  '/api/downloads/$id/cancel/': typeof ApiDownloadsIdCancelIndexRoute
   '/api/favorites/toggle/$id/': typeof ApiFavoritesToggleIdIndexRoute
+  '/api/notifications/rules/$id/': typeof ApiNotificationsRulesIdIndexRoute
+  '/api/playlists/$id/items/': typeof ApiPlaylistsIdItemsIndexRoute
+  '/api/playlists/$id/play-next/': typeof ApiPlaylistsIdPlayNextIndexRoute
+  '/api/playlists/$id/reorder/': typeof ApiPlaylistsIdReorderIndexRoute
+  '/api/vod-progress/$id/dismiss/': typeof ApiVodProgressIdDismissIndexRoute
+  '/api/watch/clip/$id/': typeof ApiWatchClipIdIndexRoute
   '/api/watch/live/$channel/': typeof ApiWatchLiveChannelIndexRoute
   '/api/watch/vod/$id/': typeof ApiWatchVodIdIndexRoute
+  '/api/browse/sections/$id/streams/': typeof ApiBrowseSectionsIdStreamsIndexRoute
+  '/api/playlists/$id/items/$vodId/': typeof ApiPlaylistsIdItemsVodIdIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/browse': typeof BrowseRoute
+  '/downloads': typeof DownloadsRoute
+  '/hidden-channels': typeof HiddenChannelsRoute
+  '/history': typeof HistoryRoute
+  '/notifications': typeof NotificationsRoute
+  '/schedule': typeof ScheduleRoute
+  '/settings': typeof SettingsRoute
   '/vods': typeof VodsRoute
+  '/channels/$id': typeof ChannelsIdRoute
+  '/playlists/$id': typeof PlaylistsIdRoute
+  '/playlists': typeof PlaylistsIndexRoute
   '/api/channels': typeof ApiChannelsIndexRoute
+  '/api/clips': typeof ApiClipsIndexRoute
+  '/api/downloads': typeof ApiDownloadsIndexRoute
+  '/api/events': typeof ApiEventsIndexRoute
   '/api/favorites': typeof ApiFavoritesIndexRoute
+  '/api/hidden-channels': typeof ApiHiddenChannelsIndexRoute
+  '/api/history': typeof ApiHistoryIndexRoute
+  '/api/launcher': typeof ApiLauncherIndexRoute
+  '/api/layout-presets': typeof ApiLayoutPresetsIndexRoute
+  '/api/library': typeof ApiLibraryIndexRoute
+  '/api/notifications': typeof ApiNotificationsIndexRoute
+  '/api/player-profiles': typeof ApiPlayerProfilesIndexRoute
+  '/api/playlists': typeof ApiPlaylistsIndexRoute
+  '/api/schedule.ics': typeof ApiScheduleDoticsIndexRoute
+  '/api/schedule': typeof ApiScheduleIndexRoute
+  '/api/sessions': typeof ApiSessionsIndexRoute
   '/api/videos': typeof ApiVideosIndexRoute
+  '/api/vod-chapters': typeof ApiVodChaptersIndexRoute
   '/api/vod-progress': typeof ApiVodProgressIndexRoute
   '/api/auth/callback': typeof ApiAuthCallbackIndexRoute
   '/api/auth/logout': typeof ApiAuthLogoutIndexRoute
   '/api/auth/status': typeof ApiAuthStatusIndexRoute
   '/api/auth/url': typeof ApiAuthUrlIndexRoute
+  '/api/browse/categories': typeof ApiBrowseCategoriesIndexRoute
+  '/api/browse/channels': typeof ApiBrowseChannelsIndexRoute
+  '/api/browse/sections': typeof ApiBrowseSectionsIndexRoute
+  '/api/channels/$id': typeof ApiChannelsIdIndexRoute
   '/api/channels/followed': typeof ApiChannelsFollowedIndexRoute
   '/api/channels/search': typeof ApiChannelsSearchIndexRoute
   '/api/chat/$channel': typeof ApiChatChannelIndexRoute
+  '/api/downloads/$id': typeof ApiDownloadsIdIndexRoute
+  '/api/eventsub/status': typeof ApiEventsubStatusIndexRoute
+  '/api/eventsub/webhook': typeof ApiEventsubWebhookIndexRoute
   '/api/favorites/reorder': typeof ApiFavoritesReorderIndexRoute
+  '/api/hidden-channels/$id': typeof ApiHiddenChannelsIdIndexRoute
+  '/api/layout-presets/$id': typeof ApiLayoutPresetsIdIndexRoute
+  '/api/library/$id': typeof ApiLibraryIdIndexRoute
+  '/api/library/retention': typeof ApiLibraryRetentionIndexRoute
+  '/api/library/scan': typeof ApiLibraryScanIndexRoute
+  '/api/notifications/rules': typeof ApiNotificationsRulesIndexRoute
+  '/api/player-profiles/$id': typeof ApiPlayerProfilesIdIndexRoute
+  '/api/playlists/$id': typeof ApiPlaylistsIdIndexRoute
+  '/api/sessions/$id': typeof ApiSessionsIdIndexRoute
   '/api/vod-progress/$id': typeof ApiVodProgressIdIndexRoute
+  '/api/vod-progress/watched': typeof ApiVodProgressWatchedIndexRoute
+  '/api/watch/multi': typeof ApiWatchMultiIndexRoute
+  '/api/browse/sections/$id': typeof ApiBrowseSectionsIdIndexRoute
+  '/api/channels/$id/follow': typeof ApiChannelsIdFollowIndexRoute
+  '/api/channels/$id/quality': typeof ApiChannelsIdQualityIndexRoute
+  '/api/channels/$id/rank': typeof ApiChannelsIdRankIndexRoute
+  '/api/channels/$id/sessions': typeof ApiChannelsIdSessionsIndexRoute
+  '/api/downloads/$id/cancel': typeof ApiDownloadsIdCancelIndexRoute
   '/api/favorites/toggle/$id': typeof ApiFavoritesToggleIdIndexRoute
+  '/api/notifications/rules/$id': typeof ApiNotificationsRulesIdIndexRoute
+  '/api/playlists/$id/items': typeof ApiPlaylistsIdItemsIndexRoute
+  '/api/playlists/$id/play-next': typeof ApiPlaylistsIdPlayNextIndexRoute
+  '/api/playlists/$id/reorder': typeof ApiPlaylistsIdReorderIndexRoute
+  '/api/vod-progress/$id/dismiss': typeof ApiVodProgressIdDismissIndexRoute
+  '/api/watch/clip/$id': typeof ApiWatchClipIdIndexRoute
   '/api/watch/live/$channel': typeof ApiWatchLiveChannelIndexRoute
   '/api/watch/vod/$id': typeof ApiWatchVodIdIndexRoute
+  '/api/browse/sections/$id/streams': typeof ApiBrowseSectionsIdStreamsIndexRoute
+  '/api/playlists/$id/items/$vodId': typeof ApiPlaylistsIdItemsVodIdIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/browse': typeof BrowseRoute
+  '/downloads': typeof DownloadsRoute
+  '/hidden-channels': typeof HiddenChannelsRoute
+  '/history': typeof HistoryRoute
+  '/notifications': typeof NotificationsRoute
+  '/schedule': typeof ScheduleRoute
+  '/settings': typeof SettingsRoute
   '/vods': typeof VodsRoute
+  '/channels/$id': typeof ChannelsIdRoute
+  '/playlists/$id': typeof PlaylistsIdRoute
+  '/playlists/': typeof PlaylistsIndexRoute
   '/api/channels/': typeof ApiChannelsIndexRoute
+  '/api/clips/': typeof ApiClipsIndexRoute
+  '/api/downloads/': typeof ApiDownloadsIndexRoute
+  '/api/events/': typeof ApiEventsIndexRoute
   '/api/favorites/': typeof ApiFavoritesIndexRoute
+  '/api/hidden-channels/': typeof ApiHiddenChannelsIndexRoute
+  '/api/history/': typeof ApiHistoryIndexRoute
+  '/api/launcher/': typeof ApiLauncherIndexRoute
+  '/api/layout-presets/': typeof ApiLayoutPresetsIndexRoute
+  '/api/library/': typeof ApiLibraryIndexRoute
+  '/api/notifications/': typeof ApiNotificationsIndexRoute
+  '/api/player-profiles/': typeof ApiPlayerProfilesIndexRoute
+  '/api/playlists/': typeof ApiPlaylistsIndexRoute
+  '/api/schedule.ics/': typeof ApiScheduleDoticsIndexRoute
+  '/api/schedule/': typeof ApiScheduleIndexRoute
+  '/api/sessions/': typeof ApiSessionsIndexRoute
   '/api/videos/': typeof ApiVideosIndexRoute
+  '/api/vod-chapters/': typeof ApiVodChaptersIndexRoute
   '/api/vod-progress/': typeof ApiVodProgressIndexRoute
   '/api/auth/callback/': typeof ApiAuthCallbackIndexRoute
   '/api/auth/logout/': typeof ApiAuthLogoutIndexRoute
   '/api/auth/status/': typeof ApiAuthStatusIndexRoute
   '/api/auth/url/': typeof ApiAuthUrlIndexRoute
+  '/api/browse/categories/': typeof ApiBrowseCategoriesIndexRoute
+  '/api/browse/channels/': typeof ApiBrowseChannelsIndexRoute
+  '/api/browse/sections/': typeof ApiBrowseSectionsIndexRoute
+  '/api/channels/$id/': typeof ApiChannelsIdIndexRoute
   '/api/channels/followed/': typeof ApiChannelsFollowedIndexRoute
   '/api/channels/search/': typeof ApiChannelsSearchIndexRoute
   '/api/chat/$channel/': typeof ApiChatChannelIndexRoute
+  '/api/downloads/$id/': typeof ApiDownloadsIdIndexRoute
+  '/api/eventsub/status/': typeof ApiEventsubStatusIndexRoute
+  '/api/eventsub/webhook/': typeof ApiEventsubWebhookIndexRoute
   '/api/favorites/reorder/': typeof ApiFavoritesReorderIndexRoute
+  '/api/hidden-channels/$id/': typeof ApiHiddenChannelsIdIndexRoute
+  '/api/layout-presets/$id/': typeof ApiLayoutPresetsIdIndexRoute
+  '/api/library/$id/': typeof ApiLibraryIdIndexRoute
+  '/api/library/retention/': typeof ApiLibraryRetentionIndexRoute
+  '/api/library/scan/': typeof ApiLibraryScanIndexRoute
+  '/api/notifications/rules/': typeof ApiNotificationsRulesIndexRoute
+  '/api/player-profiles/$id/': typeof ApiPlayerProfilesIdIndexRoute
+  '/api/playlists/$id/': typeof ApiPlaylistsIdIndexRoute
+  '/api/sessions/$id/': typeof ApiSessionsIdIndexRoute
   '/api/vod-progress/$id/': typeof ApiVodProgressIdIndexRoute
+  '/api/vod-progress/watched/': typeof ApiVodProgressWatchedIndexRoute
+  '/api/watch/multi/': typeof ApiWatchMultiIndexRoute
+  '/api/browse/sections/$id/': typeof ApiBrowseSectionsIdIndexRoute
+  '/api/channels/$id/follow/': typeof ApiChannelsIdFollowIndexRoute
+  '/api/channels/$id/quality/': typeof ApiChannelsIdQualityIndexRoute
+  '/api/channels/$id/rank/': typeof ApiChannelsIdRankIndexRoute
+  '/api/channels/$id/sessions/': typeof ApiChannelsIdSessionsIndexRoute
+  '/api/downloads/$id/cancel/': typeof ApiDownloadsIdCancelIndexRoute
   '/api/favorites/toggle/$id/': typeof ApiFavoritesToggleIdIndexRoute
+  '/api/notifications/rules/$id/': typeof ApiNotificationsRulesIdIndexRoute
+  '/api/playlists/$id/items/': typeof ApiPlaylistsIdItemsIndexRoute
+  '/api/playlists/$id/play-next/': typeof ApiPlaylistsIdPlayNextIndexRoute
+  '/api/playlists/$id/reorder/': typeof ApiPlaylistsIdReorderIndexRoute
+  '/api/vod-progress/$id/dismiss/': typeof ApiVodProgressIdDismissIndexRoute
+  '/api/watch/clip/$id/': typeof ApiWatchClipIdIndexRoute
   '/api/watch/live/$channel/': typeof ApiWatchLiveChannelIndexRoute
   '/api/watch/vod/$id/': typeof ApiWatchVodIdIndexRoute
+  '/api/browse/sections/$id/streams/': typeof ApiBrowseSectionsIdStreamsIndexRoute
+  '/api/playlists/$id/items/$vodId/': typeof ApiPlaylistsIdItemsVodIdIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/browse'
+    | '/downloads'
+    | '/hidden-channels'
+    | '/history'
+    | '/notifications'
+    | '/schedule'
+    | '/settings'
     | '/vods'
+    | '/channels/$id'
+    | '/playlists/$id'
+    | '/playlists/'
     | '/api/channels/'
+    | '/api/clips/'
+    | '/api/downloads/'
+    | '/api/events/'
     | '/api/favorites/'
+    | '/api/hidden-channels/'
+    | '/api/history/'
+    | '/api/launcher/'
+    | '/api/layout-presets/'
+    | '/api/library/'
+    | '/api/notifications/'
+    | '/api/player-profiles/'
+    | '/api/playlists/'
+    | '/api/schedule.ics/'
+    | '/api/schedule/'
+    | '/api/sessions/'
     | '/api/videos/'
+    | '/api/vod-chapters/'
     | '/api/vod-progress/'
     | '/api/auth/callback/'
     | '/api/auth/logout/'
     | '/api/auth/status/'
     | '/api/auth/url/'
+    | '/api/browse/categories/'
+    | '/api/browse/channels/'
+    | '/api/browse/sections/'
+    | '/api/channels/$id/'
     | '/api/channels/followed/'
     | '/api/channels/search/'
     | '/api/chat/$channel/'
+    | '/api/downloads/$id/'
+    | '/api/eventsub/status/'
+    | '/api/eventsub/webhook/'
     | '/api/favorites/reorder/'
+    | '/api/hidden-channels/$id/'
+    | '/api/layout-presets/$id/'
+    | '/api/library/$id/'
+    | '/api/library/retention/'
+    | '/api/library/scan/'
+    | '/api/notifications/rules/'
+    | '/api/player-profiles/$id/'
+    | '/api/playlists/$id/'
+    | '/api/sessions/$id/'
     | '/api/vod-progress/$id/'
+    | '/api/vod-progress/watched/'
+    | '/api/watch/multi/'
+    | '/api/browse/sections/$id/'
+    | '/api/channels/$id/follow/'
+    | '/api/channels/$id/quality/'
+    | '/api/channels/$id/rank/'
+    | '/api/channels/$id/sessions/'
+    | '/api/downloads/$id/cancel/'
     | '/api/favorites/toggle/$id/'
+    | '/api/notifications/rules/$id/'
+    | '/api/playlists/$id/items/'
+    | '/api/playlists/$id/play-next/'
+    | '/api/playlists/$id/reorder/'
+    | '/api/vod-progress/$id/dismiss/'
+    | '/api/watch/clip/$id/'
     | '/api/watch/live/$channel/'
     | '/api/watch/vod/$id/'
+    | '/api/browse/sections/$id/streams/'
+    | '/api/playlists/$id/items/$vodId/'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/browse'
+    | '/downloads'
+    | '/hidden-channels'
+    | '/history'
+    | '/notifications'
+    | '/schedule'
+    | '/settings'
     | '/vods'
+    | '/channels/$id'
+    | '/playlists/$id'
+    | '/playlists'
     | '/api/channels'
+    | '/api/clips'
+    | '/api/downloads'
+    | '/api/events'
     | '/api/favorites'
+    | '/api/hidden-channels'
+    | '/api/history'
+    | '/api/launcher'
+    | '/api/layout-presets'
+    | '/api/library'
+    | '/api/notifications'
+    | '/api/player-profiles'
+    | '/api/playlists'
+    | '/api/schedule.ics'
+    | '/api/schedule'
+    | '/api/sessions'
     | '/api/videos'
+    | '/api/vod-chapters'
     | '/api/vod-progress'
     | '/api/auth/callback'
     | '/api/auth/logout'
     | '/api/auth/status'
     | '/api/auth/url'
+    | '/api/browse/categories'
+    | '/api/browse/channels'
+    | '/api/browse/sections'
+    | '/api/channels/$id'
     | '/api/channels/followed'
     | '/api/channels/search'
     | '/api/chat/$channel'
+    | '/api/downloads/$id'
+    | '/api/eventsub/status'
+    | '/api/eventsub/webhook'
     | '/api/favorites/reorder'
+    | '/api/hidden-channels/$id'
+    | '/api/layout-presets/$id'
+    | '/api/library/$id'
+    | '/api/library/retention'
+    | '/api/library/scan'
+    | '/api/notifications/rules'
+    | '/api/player-profiles/$id'
+    | '/api/playlists/$id'
+    | '/api/sessions/$id'
     | '/api/vod-progress/$id'
+    | '/api/vod-progress/watched'
+    | '/api/watch/multi'
+    | '/api/browse/sections/$id'
+    | '/api/channels/$id/follow'
+    | '/api/channels/$id/quality'
+    | '/api/channels/$id/rank'
+    | '/api/channels/$id/sessions'
+    | '/api/downloads/$id/cancel'
     | '/api/favorites/toggle/$id'
+    | '/api/notifications/rules/$id'
+    | '/api/playlists/$id/items'
+    | '/api/playlists/$id/play-next'
+    | '/api/playlists/$id/reorder'
+    | '/api/vod-progress/$id/dismiss'
+    | '/api/watch/clip/$id'
     | '/api/watch/live/$channel'
     | '/api/watch/vod/$id'
+    | '/api/browse/sections/$id/streams'
+    | '/api/playlists/$id/items/$vodId'
   id:
     | '__root__'
     | '/'
+    | '/browse'
+    | '/downloads'
+    | '/hidden-channels'
+    | '/history'
+    | '/notifications'
+    | '/schedule'
+    | '/settings'
     | '/vods'
+    | '/channels/$id'
+    | '/playlists/$id'
+    | '/playlists/'
     | '/api/channels/'
+    | '/api/clips/'
+    | '/api/downloads/'
+    | '/api/events/'
     | '/api/favorites/'
+    | '/api/hidden-channels/'
+    | '/api/history/'
+    | '/api/launcher/'
+    | '/api/layout-presets/'
+    | '/api/library/'
+    | '/api/notifications/'
+    | '/api/player-profiles/'
+    | '/api/playlists/'
+    | '/api/schedule.ics/'
+    | '/api/schedule/'
+    | '/api/sessions/'
     | '/api/videos/'
+    | '/api/vod-chapters/'
     | '/api/vod-progress/'
     | '/api/auth/callback/'
     | '/api/auth/logout/'
     | '/api/auth/status/'
     | '/api/auth/url/'
+    | '/api/browse/categories/'
+    | '/api/browse/channels/'
+    | '/api/browse/sections/'
+    | '/api/channels/$id/'
     | '/api/channels/followed/'
     | '/api/channels/search/'
     | '/api/chat/$channel/'
+    | '/api/downloads/$id/'
+    | '/api/eventsub/status/'
+    | '/api/eventsub/webhook/'
     | '/api/favorites/reorder/'
+    | '/api/hidden-channels/$id/'
+    | '/api/layout-presets/$id/'
+    | '/api/library/$id/'
+    | '/api/library/retention/'
+    | '/api/library/scan/'
+    | '/api/notifications/rules/'
+    | '/api/player-profiles/$id/'
+    | '/api/playlists/$id/'
+    | '/api/sessions/$id/'
     | '/api/vod-progress/$id/'
+    | '/api/vod-progress/watched/'
+    | '/api/watch/multi/'
+    | '/api/browse/sections/$id/'
+    | '/api/channels/$id/follow/'
+    | '/api/channels/$id/quality/'
+    | '/api/channels/$id/rank/'
+    | '/api/channels/$id/sessions/'
+    | '/api/downloads/$id/cancel/'
     | '/api/favorites/toggle/$id/'
+    | '/api/notifications/rules/$id/'
+    | '/api/playlists/$id/items/'
+    | '/api/playlists/$id/play-next/'
+    | '/api/playlists/$id/reorder/'
+    | '/api/vod-progress/$id/dismiss/'
+    | '/api/watch/clip/$id/'
     | '/api/watch/live/$channel/'
     | '/api/watch/vod/$id/'
+    | '/api/browse/sections/$id/streams/'
+    | '/api/playlists/$id/items/$vodId/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  BrowseRoute: typeof BrowseRoute
+  DownloadsRoute: typeof DownloadsRoute
+  HiddenChannelsRoute: typeof HiddenChannelsRoute
+  HistoryRoute: typeof HistoryRoute
+  NotificationsRoute: typeof NotificationsRoute
+  ScheduleRoute: typeof ScheduleRoute
+  SettingsRoute: typeof SettingsRoute
   VodsRoute: typeof VodsRoute
+  ChannelsIdRoute: typeof ChannelsIdRoute
+  PlaylistsIdRoute: typeof PlaylistsIdRoute
+  PlaylistsIndexRoute: typeof PlaylistsIndexRoute
   ApiChannelsIndexRoute: typeof ApiChannelsIndexRoute
+  ApiClipsIndexRoute: typeof ApiClipsIndexRoute
+  ApiDownloadsIndexRoute: typeof ApiDownloadsIndexRoute
+  ApiEventsIndexRoute: typeof ApiEventsIndexRoute
   ApiFavoritesIndexRoute: typeof ApiFavoritesIndexRoute
+  ApiHiddenChannelsIndexRoute: typeof ApiHiddenChannelsIndexRoute
+  ApiHistoryIndexRoute: typeof ApiHistoryIndexRoute
+  ApiLauncherIndexRoute: typeof ApiLauncherIndexRoute
+  ApiLayoutPresetsIndexRoute: typeof ApiLayoutPresetsIndexRoute
+  ApiLibraryIndexRoute: typeof ApiLibraryIndexRoute
+  ApiNotificationsIndexRoute: typeof ApiNotificationsIndexRoute
+  ApiPlayerProfilesIndexRoute: typeof ApiPlayerProfilesIndexRoute
+  ApiPlaylistsIndexRoute: typeof ApiPlaylistsIndexRoute
+  ApiScheduleDoticsIndexRoute: typeof ApiScheduleDoticsIndexRoute
+  ApiScheduleIndexRoute: typeof ApiScheduleIndexRoute
+  ApiSessionsIndexRoute: typeof ApiSessionsIndexRoute
   ApiVideosIndexRoute: typeof ApiVideosIndexRoute
+  ApiVodChaptersIndexRoute: typeof ApiVodChaptersIndexRoute
   ApiVodProgressIndexRoute: typeof ApiVodProgressIndexRoute
   ApiAuthCallbackIndexRoute: typeof ApiAuthCallbackIndexRoute
   ApiAuthLogoutIndexRoute: typeof ApiAuthLogoutIndexRoute
   ApiAuthStatusIndexRoute: typeof ApiAuthStatusIndexRoute
   ApiAuthUrlIndexRoute: typeof ApiAuthUrlIndexRoute
+  ApiBrowseCategoriesIndexRoute: typeof ApiBrowseCategoriesIndexRoute
+  ApiBrowseChannelsIndexRoute: typeof ApiBrowseChannelsIndexRoute
+  ApiBrowseSectionsIndexRoute: typeof ApiBrowseSectionsIndexRoute
+  ApiChannelsIdIndexRoute: typeof ApiChannelsIdIndexRoute
   ApiChannelsFollowedIndexRoute: typeof ApiChannelsFollowedIndexRoute
   ApiChannelsSearchIndexRoute: typeof ApiChannelsSearchIndexRoute
   ApiChatChannelIndexRoute: typeof ApiChatChannelIndexRoute
+  ApiDownloadsIdIndexRoute: typeof ApiDownloadsIdIndexRoute
+  ApiEventsubStatusIndexRoute: typeof ApiEventsubStatusIndexRoute
+  ApiEventsubWebhookIndexRoute: typeof ApiEventsubWebhookIndexRoute
   ApiFavoritesReorderIndexRoute: typeof ApiFavoritesReorderIndexRoute
+  ApiHiddenChannelsIdIndexRoute: typeof ApiHiddenChannelsIdIndexRoute
+  ApiLayoutPresetsIdIndexRoute: typeof ApiLayoutPresetsIdIndexRoute
+  ApiLibraryIdIndexRoute: typeof ApiLibraryIdIndexRoute
+  ApiLibraryRetentionIndexRoute: typeof ApiLibraryRetentionIndexRoute
+  ApiLibraryScanIndexRoute: typeof ApiLibraryScanIndexRoute
+  ApiNotificationsRulesIndexRoute: typeof ApiNotificationsRulesIndexRoute
+  ApiPlayerProfilesIdIndexRoute: typeof ApiPlayerProfilesIdIndexRoute
+  ApiPlaylistsIdIndexRoute: typeof ApiPlaylistsIdIndexRoute
+  ApiSessionsIdIndexRoute: typeof ApiSessionsIdIndexRoute
   ApiVodProgressIdIndexRoute: typeof ApiVodProgressIdIndexRoute
+  ApiVodProgressWatchedIndexRoute: typeof ApiVodProgressWatchedIndexRoute
+  ApiWatchMultiIndexRoute: typeof ApiWatchMultiIndexRoute
+  ApiBrowseSectionsIdIndexRoute: typeof ApiBrowseSectionsIdIndexRoute
+  ApiChannelsIdFollowIndexRoute: typeof ApiChannelsIdFollowIndexRoute
+  ApiChannelsIdQualityIndexRoute: typeof ApiChannelsIdQualityIndexRoute
+  ApiChannelsIdRankIndexRoute: typeof ApiChannelsIdRankIndexRoute
+  ApiChannelsIdSessionsIndexRoute: typeof ApiChannelsIdSessionsIndexRoute
+  ApiDownloadsIdCancelIndexRoute: typeof ApiDownloadsIdCancelIndexRoute
   ApiFavoritesToggleIdIndexRoute: typeof ApiFavoritesToggleIdIndexRoute
+  ApiNotificationsRulesIdIndexRoute: typeof ApiNotificationsRulesIdIndexRoute
+  ApiPlaylistsIdItemsIndexRoute: typeof ApiPlaylistsIdItemsIndexRoute
+  ApiPlaylistsIdPlayNextIndexRoute: typeof ApiPlaylistsIdPlayNextIndexRoute
+  ApiPlaylistsIdReorderIndexRoute: typeof ApiPlaylistsIdReorderIndexRoute
+  ApiVodProgressIdDismissIndexRoute: typeof ApiVodProgressIdDismissIndexRoute
+  ApiWatchClipIdIndexRoute: typeof ApiWatchClipIdIndexRoute
   ApiWatchLiveChannelIndexRoute: typeof ApiWatchLiveChannelIndexRoute
   ApiWatchVodIdIndexRoute: typeof ApiWatchVodIdIndexRoute
+  ApiBrowseSectionsIdStreamsIndexRoute: typeof ApiBrowseSectionsIdStreamsIndexRoute
+  ApiPlaylistsIdItemsVodIdIndexRoute: typeof ApiPlaylistsIdItemsVodIdIndexRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/': {
+      id: '/'
+      path: '/'
+      fullPath: '/'
+      preLoaderRoute: typeof IndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/browse': {
+      id: '/browse'
+      path: '/browse'
+      fullPath: '/browse'
+      preLoaderRoute: typeof BrowseRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/downloads': {
+      id: '/downloads'
+      path: '/downloads'
+      fullPath: '/downloads'
+      preLoaderRoute: typeof DownloadsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/hidden-channels': {
+      id: '/hidden-channels'
+      path: '/hidden-channels'
+      fullPath: '/hidden-channels'
+      preLoaderRoute: typeof HiddenChannelsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/history': {
+      id: '/history'
+      path: '/history'
+      fullPath: '/history'
+      preLoaderRoute: typeof HistoryRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/notifications': {
+      id: '/notifications'
+      path: '/notifications'
+      fullPath: '/notifications'
+      preLoaderRoute: typeof NotificationsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/schedule': {
+      id: '/schedule'
+      path: '/schedule'
+      fullPath: '/schedule'
+      preLoaderRoute: typeof ScheduleRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/settings': {
+      id: '/settings'
+      path: '/settings'
+      fullPath: '/settings'
+      preLoaderRoute: typeof SettingsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/vods': {
       id: '/vods'
       path: '/vods'
@@ -277,25 +1092,53 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof VodsRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/': {
-      id: '/'
-      path: '/'
-      fullPath: '/'
-      preLoaderRoute: typeof IndexRouteImport
+    '/channels/$id': {
+      id: '/channels/$id'
+      path: '/channels/$id'
+      fullPath: '/channels/$id'
+      preLoaderRoute: typeof ChannelsIdRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/vod-progress/': {
-      id: '/api/vod-progress/'
-      path: '/api/vod-progress'
-      fullPath: '/api/vod-progress/'
-      preLoaderRoute: typeof ApiVodProgressIndexRouteImport
+    '/playlists/': {
+      id: '/playlists/'
+      path: '/playlists'
+      fullPath: '/playlists/'
+      preLoaderRoute: typeof PlaylistsIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/videos/': {
-      id: '/api/videos/'
-      path: '/api/videos'
-      fullPath: '/api/videos/'
-      preLoaderRoute: typeof ApiVideosIndexRouteImport
+    '/playlists/$id': {
+      id: '/playlists/$id'
+      path: '/playlists/$id'
+      fullPath: '/playlists/$id'
+      preLoaderRoute: typeof PlaylistsIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/channels/': {
+      id: '/api/channels/'
+      path: '/api/channels'
+      fullPath: '/api/channels/'
+      preLoaderRoute: typeof ApiChannelsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/clips/': {
+      id: '/api/clips/'
+      path: '/api/clips'
+      fullPath: '/api/clips/'
+      preLoaderRoute: typeof ApiClipsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/downloads/': {
+      id: '/api/downloads/'
+      path: '/api/downloads'
+      fullPath: '/api/downloads/'
+      preLoaderRoute: typeof ApiDownloadsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/events/': {
+      id: '/api/events/'
+      path: '/api/events'
+      fullPath: '/api/events/'
+      preLoaderRoute: typeof ApiEventsIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/api/favorites/': {
@@ -305,67 +1148,102 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiFavoritesIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/channels/': {
-      id: '/api/channels/'
-      path: '/api/channels'
-      fullPath: '/api/channels/'
-      preLoaderRoute: typeof ApiChannelsIndexRouteImport
+    '/api/hidden-channels/': {
+      id: '/api/hidden-channels/'
+      path: '/api/hidden-channels'
+      fullPath: '/api/hidden-channels/'
+      preLoaderRoute: typeof ApiHiddenChannelsIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/vod-progress/$id/': {
-      id: '/api/vod-progress/$id/'
-      path: '/api/vod-progress/$id'
-      fullPath: '/api/vod-progress/$id/'
-      preLoaderRoute: typeof ApiVodProgressIdIndexRouteImport
+    '/api/history/': {
+      id: '/api/history/'
+      path: '/api/history'
+      fullPath: '/api/history/'
+      preLoaderRoute: typeof ApiHistoryIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/favorites/reorder/': {
-      id: '/api/favorites/reorder/'
-      path: '/api/favorites/reorder'
-      fullPath: '/api/favorites/reorder/'
-      preLoaderRoute: typeof ApiFavoritesReorderIndexRouteImport
+    '/api/launcher/': {
+      id: '/api/launcher/'
+      path: '/api/launcher'
+      fullPath: '/api/launcher/'
+      preLoaderRoute: typeof ApiLauncherIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/chat/$channel/': {
-      id: '/api/chat/$channel/'
-      path: '/api/chat/$channel'
-      fullPath: '/api/chat/$channel/'
-      preLoaderRoute: typeof ApiChatChannelIndexRouteImport
+    '/api/layout-presets/': {
+      id: '/api/layout-presets/'
+      path: '/api/layout-presets'
+      fullPath: '/api/layout-presets/'
+      preLoaderRoute: typeof ApiLayoutPresetsIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/channels/search/': {
-      id: '/api/channels/search/'
-      path: '/api/channels/search'
-      fullPath: '/api/channels/search/'
-      preLoaderRoute: typeof ApiChannelsSearchIndexRouteImport
+    '/api/library/': {
+      id: '/api/library/'
+      path: '/api/library'
+      fullPath: '/api/library/'
+      preLoaderRoute: typeof ApiLibraryIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/channels/followed/': {
-      id: '/api/channels/followed/'
-      path: '/api/channels/followed'
-      fullPath: '/api/channels/followed/'
-      preLoaderRoute: typeof ApiChannelsFollowedIndexRouteImport
+    '/api/notifications/': {
+      id: '/api/notifications/'
+      path: '/api/notifications'
+      fullPath: '/api/notifications/'
+      preLoaderRoute: typeof ApiNotificationsIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/auth/url/': {
-      id: '/api/auth/url/'
-      path: '/api/auth/url'
-      fullPath: '/api/auth/url/'
-      preLoaderRoute: typeof ApiAuthUrlIndexRouteImport
+    '/api/player-profiles/': {
+      id: '/api/player-profiles/'
+      path: '/api/player-profiles'
+      fullPath: '/api/player-profiles/'
+      preLoaderRoute: typeof ApiPlayerProfilesIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/auth/status/': {
-      id: '/api/auth/status/'
-      path: '/api/auth/status'
-      fullPath: '/api/auth/status/'
-      preLoaderRoute: typeof ApiAuthStatusIndexRouteImport
+    '/api/playlists/': {
+      id: '/api/playlists/'
+      path: '/api/playlists'
+      fullPath: '/api/playlists/'
+      preLoaderRoute: typeof ApiPlaylistsIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/auth/logout/': {
-      id: '/api/auth/logout/'
-      path: '/api/auth/logout'
-      fullPath: '/api/auth/logout/'
-      preLoaderRoute: typeof ApiAuthLogoutIndexRouteImport
+    '/api/schedule.ics/': {
+      id: '/api/schedule.ics/'
+      path: '/api/schedule.ics'
+      fullPath: '/api/schedule.ics/'
+      preLoaderRoute: typeof ApiScheduleDoticsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/schedule/': {
+      id: '/api/schedule/'
+      path: '/api/schedule'
+      fullPath: '/api/schedule/'
+      preLoaderRoute: typeof ApiScheduleIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/sessions/': {
+      id: '/api/sessions/'
+      path: '/api/sessions'
+      fullPath: '/api/sessions/'
+      preLoaderRoute: typeof ApiSessionsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/videos/': {
+      id: '/api/videos/'
+      path: '/api/videos'
+      fullPath: '/api/videos/'
+      preLoaderRoute: typeof ApiVideosIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/vod-chapters/': {
+      id: '/api/vod-chapters/'
+      path: '/api/vod-chapters'
+      fullPath: '/api/vod-chapters/'
+      preLoaderRoute: typeof ApiVodChaptersIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/vod-progress/': {
+      id: '/api/vod-progress/'
+      path: '/api/vod-progress'
+      fullPath: '/api/vod-progress/'
+      preLoaderRoute: typeof ApiVodProgressIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/api/auth/callback/': {
@@ -375,18 +1253,228 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiAuthCallbackIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/watch/vod/$id/': {
-      id: '/api/watch/vod/$id/'
-      path: '/api/watch/vod/$id'
-      fullPath: '/api/watch/vod/$id/'
-      preLoaderRoute: typeof ApiWatchVodIdIndexRouteImport
+    '/api/auth/logout/': {
+      id: '/api/auth/logout/'
+      path: '/api/auth/logout'
+      fullPath: '/api/auth/logout/'
+      preLoaderRoute: typeof ApiAuthLogoutIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
-    '/api/watch/live/$channel/': {
-      id: '/api/watch/live/$channel/'
-      path: '/api/watch/live/$channel'
-      fullPath: '/api/watch/live/$channel/'
-      preLoaderRoute: typeof ApiWatchLiveChannelIndexRouteImport
+    '/api/auth/status/': {
+      id: '/api/auth/status/'
+      path: '/api/auth/status'
+      fullPath: '/api/auth/status/'
+      preLoaderRoute: typeof ApiAuthStatusIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/auth/url/': {
+      id: '/api/auth/url/'
+      path: '/api/auth/url'
+      fullPath: '/api/auth/url/'
+      preLoaderRoute: typeof ApiAuthUrlIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/browse/categories/': {
+      id: '/api/browse/categories/'
+      path: '/api/browse/categories'
+      fullPath: '/api/browse/categories/'
+      preLoaderRoute: typeof ApiBrowseCategoriesIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/browse/channels/': {
+      id: '/api/browse/channels/'
+      path: '/api/browse/channels'
+      fullPath: '/api/browse/channels/'
+      preLoaderRoute: typeof ApiBrowseChannelsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/browse/sections/': {
+      id: '/api/browse/sections/'
+      path: '/api/browse/sections'
+      fullPath: '/api/browse/sections/'
+      preLoaderRoute: typeof ApiBrowseSectionsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/channels/$id/': {
+      id: '/api/channels/$id/'
+      path: '/api/channels/$id'
+      fullPath: '/api/channels/$id/'
+      preLoaderRoute: typeof ApiChannelsIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/channels/followed/': {
+      id: '/api/channels/followed/'
+      path: '/api/channels/followed'
+      fullPath: '/api/channels/followed/'
+      preLoaderRoute: typeof ApiChannelsFollowedIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/channels/search/': {
+      id: '/api/channels/search/'
+      path: '/api/channels/search'
+      fullPath: '/api/channels/search/'
+      preLoaderRoute: typeof ApiChannelsSearchIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/chat/$channel/': {
+      id: '/api/chat/$channel/'
+      path: '/api/chat/$channel'
+      fullPath: '/api/chat/$channel/'
+      preLoaderRoute: typeof ApiChatChannelIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/downloads/$id/': {
+      id: '/api/downloads/$id/'
+      path: '/api/downloads/$id'
+      fullPath: '/api/downloads/$id/'
+      preLoaderRoute: typeof ApiDownloadsIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/eventsub/status/': {
+      id: '/api/eventsub/status/'
+      path: '/api/eventsub/status'
+      fullPath: '/api/eventsub/status/'
+      preLoaderRoute: typeof ApiEventsubStatusIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/eventsub/webhook/': {
+      id: '/api/eventsub/webhook/'
+      path: '/api/eventsub/webhook'
+      fullPath: '/api/eventsub/webhook/'
+      preLoaderRoute: typeof ApiEventsubWebhookIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/favorites/reorder/': {
+      id: '/api/favorites/reorder/'
+      path: '/api/favorites/reorder'
+      fullPath: '/api/favorites/reorder/'
+      preLoaderRoute: typeof ApiFavoritesReorderIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/hidden-channels/$id/': {
+      id: '/api/hidden-channels/$id/'
+      path: '/api/hidden-channels/$id'
+      fullPath: '/api/hidden-channels/$id/'
+      preLoaderRoute: typeof ApiHiddenChannelsIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/layout-presets/$id/': {
+      id: '/api/layout-presets/$id/'
+      path: '/api/layout-presets/$id'
+      fullPath: '/api/layout-presets/$id/'
+      preLoaderRoute: typeof ApiLayoutPresetsIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/library/$id/': {
+      id: '/api/library/$id/'
+      path: '/api/library/$id'
+      fullPath: '/api/library/$id/'
+      preLoaderRoute: typeof ApiLibraryIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/library/retention/': {
+      id: '/api/library/retention/'
+      path: '/api/library/retention'
+      fullPath: '/api/library/retention/'
+      preLoaderRoute: typeof ApiLibraryRetentionIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/library/scan/': {
+      id: '/api/library/scan/'
+      path: '/api/library/scan'
+      fullPath: '/api/library/scan/'
+      preLoaderRoute: typeof ApiLibraryScanIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/notifications/rules/': {
+      id: '/api/notifications/rules/'
+      path: '/api/notifications/rules'
+      fullPath: '/api/notifications/rules/'
+      preLoaderRoute: typeof ApiNotificationsRulesIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/player-profiles/$id/': {
+      id: '/api/player-profiles/$id/'
+      path: '/api/player-profiles/$id'
+      fullPath: '/api/player-profiles/$id/'
+      preLoaderRoute: typeof ApiPlayerProfilesIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/playlists/$id/': {
+      id: '/api/playlists/$id/'
+      path: '/api/playlists/$id'
+      fullPath: '/api/playlists/$id/'
+      preLoaderRoute: typeof ApiPlaylistsIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/sessions/$id/': {
+      id: '/api/sessions/$id/'
+      path: '/api/sessions/$id'
+      fullPath: '/api/sessions/$id/'
+      preLoaderRoute: typeof ApiSessionsIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/vod-progress/$id/': {
+      id: '/api/vod-progress/$id/'
+      path: '/api/vod-progress/$id'
+      fullPath: '/api/vod-progress/$id/'
+      preLoaderRoute: typeof ApiVodProgressIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/vod-progress/watched/': {
+      id: '/api/vod-progress/watched/'
+      path: '/api/vod-progress/watched'
+      fullPath: '/api/vod-progress/watched/'
+      preLoaderRoute: typeof ApiVodProgressWatchedIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/watch/multi/': {
+      id: '/api/watch/multi/'
+      path: '/api/watch/multi'
+      fullPath: '/api/watch/multi/'
+      preLoaderRoute: typeof ApiWatchMultiIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/browse/sections/$id/': {
+      id: '/api/browse/sections/$id/'
+      path: '/api/browse/sections/$id'
+      fullPath: '/api/browse/sections/$id/'
+      preLoaderRoute: typeof ApiBrowseSectionsIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/channels/$id/follow/': {
+      id: '/api/channels/$id/follow/'
+      path: '/api/channels/$id/follow'
+      fullPath: '/api/channels/$id/follow/'
+      preLoaderRoute: typeof ApiChannelsIdFollowIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/channels/$id/quality/': {
+      id: '/api/channels/$id/quality/'
+      path: '/api/channels/$id/quality'
+      fullPath: '/api/channels/$id/quality/'
+      preLoaderRoute: typeof ApiChannelsIdQualityIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/channels/$id/rank/': {
+      id: '/api/channels/$id/rank/'
+      path: '/api/channels/$id/rank'
+      fullPath: '/api/channels/$id/rank/'
+      preLoaderRoute: typeof ApiChannelsIdRankIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/channels/$id/sessions/': {
+      id: '/api/channels/$id/sessions/'
+      path: '/api/channels/$id/sessions'
+      fullPath: '/api/channels/$id/sessions/'
+      preLoaderRoute: typeof ApiChannelsIdSessionsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/downloads/$id/cancel/': {
+      id: '/api/downloads/$id/cancel/'
+      path: '/api/downloads/$id/cancel'
+      fullPath: '/api/downloads/$id/cancel/'
+      preLoaderRoute: typeof ApiDownloadsIdCancelIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/api/favorites/toggle/$id/': {
@@ -396,28 +1484,155 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiFavoritesToggleIdIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/notifications/rules/$id/': {
+      id: '/api/notifications/rules/$id/'
+      path: '/api/notifications/rules/$id'
+      fullPath: '/api/notifications/rules/$id/'
+      preLoaderRoute: typeof ApiNotificationsRulesIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/playlists/$id/items/': {
+      id: '/api/playlists/$id/items/'
+      path: '/api/playlists/$id/items'
+      fullPath: '/api/playlists/$id/items/'
+      preLoaderRoute: typeof ApiPlaylistsIdItemsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/playlists/$id/play-next/': {
+      id: '/api/playlists/$id/play-next/'
+      path: '/api/playlists/$id/play-next'
+      fullPath: '/api/playlists/$id/play-next/'
+      preLoaderRoute: typeof ApiPlaylistsIdPlayNextIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/playlists/$id/reorder/': {
+      id: '/api/playlists/$id/reorder/'
+      path: '/api/playlists/$id/reorder'
+      fullPath: '/api/playlists/$id/reorder/'
+      preLoaderRoute: typeof ApiPlaylistsIdReorderIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/vod-progress/$id/dismiss/': {
+      id: '/api/vod-progress/$id/dismiss/'
+      path: '/api/vod-progress/$id/dismiss'
+      fullPath: '/api/vod-progress/$id/dismiss/'
+      preLoaderRoute: typeof ApiVodProgressIdDismissIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/watch/clip/$id/': {
+      id: '/api/watch/clip/$id/'
+      path: '/api/watch/clip/$id'
+      fullPath: '/api/watch/clip/$id/'
+      preLoaderRoute: typeof ApiWatchClipIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/watch/live/$channel/': {
+      id: '/api/watch/live/$channel/'
+      path: '/api/watch/live/$channel'
+      fullPath: '/api/watch/live/$channel/'
+      preLoaderRoute: typeof ApiWatchLiveChannelIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/watch/vod/$id/': {
+      id: '/api/watch/vod/$id/'
+      path: '/api/watch/vod/$id'
+      fullPath: '/api/watch/vod/$id/'
+      preLoaderRoute: typeof ApiWatchVodIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/browse/sections/$id/streams/': {
+      id: '/api/browse/sections/$id/streams/'
+      path: '/api/browse/sections/$id/streams'
+      fullPath: '/api/browse/sections/$id/streams/'
+      preLoaderRoute: typeof ApiBrowseSectionsIdStreamsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/playlists/$id/items/$vodId/': {
+      id: '/api/playlists/$id/items/$vodId/'
+      path: '/api/playlists/$id/items/$vodId'
+      fullPath: '/api/playlists/$id/items/$vodId/'
+      preLoaderRoute: typeof ApiPlaylistsIdItemsVodIdIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  BrowseRoute: BrowseRoute,
+  DownloadsRoute: DownloadsRoute,
+  HiddenChannelsRoute: HiddenChannelsRoute,
+  HistoryRoute: HistoryRoute,
+  NotificationsRoute: NotificationsRoute,
+  ScheduleRoute: ScheduleRoute,
+  SettingsRoute: SettingsRoute,
   VodsRoute: VodsRoute,
+  ChannelsIdRoute: ChannelsIdRoute,
+  PlaylistsIdRoute: PlaylistsIdRoute,
+  PlaylistsIndexRoute: PlaylistsIndexRoute,
   ApiChannelsIndexRoute: ApiChannelsIndexRoute,
+  ApiClipsIndexRoute: ApiClipsIndexRoute,
+  ApiDownloadsIndexRoute: ApiDownloadsIndexRoute,
+  ApiEventsIndexRoute: ApiEventsIndexRoute,
   ApiFavoritesIndexRoute: ApiFavoritesIndexRoute,
+  ApiHiddenChannelsIndexRoute: ApiHiddenChannelsIndexRoute,
+  ApiHistoryIndexRoute: ApiHistoryIndexRoute,
+  ApiLauncherIndexRoute: ApiLauncherIndexRoute,
+  ApiLayoutPresetsIndexRoute: ApiLayoutPresetsIndexRoute,
+  ApiLibraryIndexRoute: ApiLibraryIndexRoute,
+  ApiNotificationsIndexRoute: ApiNotificationsIndexRoute,
+  ApiPlayerProfilesIndexRoute: ApiPlayerProfilesIndexRoute,
+  ApiPlaylistsIndexRoute: ApiPlaylistsIndexRoute,
+  ApiScheduleDoticsIndexRoute: ApiScheduleDoticsIndexRoute,
+  ApiScheduleIndexRoute: ApiScheduleIndexRoute,
+  ApiSessionsIndexRoute: ApiSessionsIndexRoute,
   ApiVideosIndexRoute: ApiVideosIndexRoute,
+  ApiVodChaptersIndexRoute: ApiVodChaptersIndexRoute,
   ApiVodProgressIndexRoute: ApiVodProgressIndexRoute,
   ApiAuthCallbackIndexRoute: ApiAuthCallbackIndexRoute,
   ApiAuthLogoutIndexRoute: ApiAuthLogoutIndexRoute,
   ApiAuthStatusIndexRoute: ApiAuthStatusIndexRoute,
   ApiAuthUrlIndexRoute: ApiAuthUrlIndexRoute,
+  ApiBrowseCategoriesIndexRoute: ApiBrowseCategoriesIndexRoute,
+  ApiBrowseChannelsIndexRoute: ApiBrowseChannelsIndexRoute,
+  ApiBrowseSectionsIndexRoute: ApiBrowseSectionsIndexRoute,
+  ApiChannelsIdIndexRoute: ApiChannelsIdIndexRoute,
   ApiChannelsFollowedIndexRoute: ApiChannelsFollowedIndexRoute,
   ApiChannelsSearchIndexRoute: ApiChannelsSearchIndexRoute,
   ApiChatChannelIndexRoute: ApiChatChannelIndexRoute,
+  ApiDownloadsIdIndexRoute: ApiDownloadsIdIndexRoute,
+  ApiEventsubStatusIndexRoute: ApiEventsubStatusIndexRoute,
+  ApiEventsubWebhookIndexRoute: ApiEventsubWebhookIndexRoute,
   ApiFavoritesReorderIndexRoute: ApiFavoritesReorderIndexRoute,
+  ApiHiddenChannelsIdIndexRoute: ApiHiddenChannelsIdIndexRoute,
+  ApiLayoutPresetsIdIndexRoute: ApiLayoutPresetsIdIndexRoute,
+  ApiLibraryIdIndexRoute: ApiLibraryIdIndexRoute,
+  ApiLibraryRetentionIndexRoute: ApiLibraryRetentionIndexRoute,
+  ApiLibraryScanIndexRoute: ApiLibraryScanIndexRoute,
+  ApiNotificationsRulesIndexRoute: ApiNotificationsRulesIndexRoute,
+  ApiPlayerProfilesIdIndexRoute: ApiPlayerProfilesIdIndexRoute,
+  ApiPlaylistsIdIndexRoute: ApiPlaylistsIdIndexRoute,
+  ApiSessionsIdIndexRoute: ApiSessionsIdIndexRoute,
   ApiVodProgressIdIndexRoute: ApiVodProgressIdIndexRoute,
+  ApiVodProgressWatchedIndexRoute: ApiVodProgressWatchedIndexRoute,
+  ApiWatchMultiIndexRoute: ApiWatchMultiIndexRoute,
+  ApiBrowseSectionsIdIndexRoute: ApiBrowseSectionsIdIndexRoute,
+  ApiChannelsIdFollowIndexRoute: ApiChannelsIdFollowIndexRoute,
+  ApiChannelsIdQualityIndexRoute: ApiChannelsIdQualityIndexRoute,
+  ApiChannelsIdRankIndexRoute: ApiChannelsIdRankIndexRoute,
+  ApiChannelsIdSessionsIndexRoute: ApiChannelsIdSessionsIndexRoute,
+  ApiDownloadsIdCancelIndexRoute: ApiDownloadsIdCancelIndexRoute,
   ApiFavoritesToggleIdIndexRoute: ApiFavoritesToggleIdIndexRoute,
+  ApiNotificationsRulesIdIndexRoute: ApiNotificationsRulesIdIndexRoute,
+  ApiPlaylistsIdItemsIndexRoute: ApiPlaylistsIdItemsIndexRoute,
+  ApiPlaylistsIdPlayNextIndexRoute: ApiPlaylistsIdPlayNextIndexRoute,
+  ApiPlaylistsIdReorderIndexRoute: ApiPlaylistsIdReorderIndexRoute,
+  ApiVodProgressIdDismissIndexRoute: ApiVodProgressIdDismissIndexRoute,
+  ApiWatchClipIdIndexRoute: ApiWatchClipIdIndexRoute,
   ApiWatchLiveChannelIndexRoute: ApiWatchLiveChannelIndexRoute,
   ApiWatchVodIdIndexRoute: ApiWatchVodIdIndexRoute,
+  ApiBrowseSectionsIdStreamsIndexRoute: ApiBrowseSectionsIdStreamsIndexRoute,
+  ApiPlaylistsIdItemsVodIdIndexRoute: ApiPlaylistsIdItemsVodIdIndexRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
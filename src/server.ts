@@ -1,6 +1,11 @@
 import handler, { createServerEntry } from "@tanstack/react-start/server-entry";
 
-import { initializeVideoCache } from "./lib/startup";
+import { initializeDownloads } from "@/src/services/download-service";
+import { startEventSub } from "@/src/services/eventsub-service";
+import { startLibraryMaintenance } from "@/src/services/library-service";
+import { startLiveStatePolling } from "@/src/services/live-state-service";
+
+import { initializeVideoCache, validateLauncherExecutables } from "./lib/startup";
 
 // Prevent re-initialization on hot reload in development
 declare global {
@@ -10,11 +15,23 @@ declare global {
 if (!globalThis.__vodCacheInitialized) {
 	globalThis.__vodCacheInitialized = true;
 
+	validateLauncherExecutables();
+
+	// Fails downloads a previous run left behind and resumes the queue
+	initializeDownloads();
+
+	// Picks up files added or deleted while the server was down, then rescans periodically
+	startLibraryMaintenance();
+
 	// Start initialization in background - do NOT block requests
 	// First requests may have cache misses, which fall back to direct Twitch API calls
 	initializeVideoCache().catch((error) => {
 		console.error("[startup] Video cache initialization failed:", error);
 	});
+
+	// One poller owns live state; API routes and the event stream read from it
+	startLiveStatePolling();
+	startEventSub();
 }
 
 export default createServerEntry({
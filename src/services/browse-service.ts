@@ -0,0 +1,75 @@
+import { setBrowseSectionCategory } from "@/src/features/browse/browse.repository";
+import { getChannelIdsByRank } from "@/src/features/channel-ranks/channel-ranks.repository";
+import { getGames, getStreamsByGame } from "@/src/services/twitch-service";
+
+import type { BrowseSection } from "@/src/features/browse/browse.types";
+import type { TwitchStream } from "@/src/services/twitch-service";
+
+export class CategoryNotFoundError extends Error {
+	constructor(categoryName: string) {
+		super(`Category "${categoryName}" not found on Twitch`);
+		this.name = "CategoryNotFoundError";
+	}
+}
+
+/**
+ * Sections can be configured by name alone (the seeded defaults are), so the Twitch
+ * category id is looked up on first use and remembered.
+ */
+async function resolveCategoryId(section: BrowseSection) {
+	if (section.categoryId !== null) {
+		return section.categoryId;
+	}
+
+	const games = await getGames({ names: [section.categoryName] });
+
+	if (games instanceof Error) {
+		return games;
+	}
+
+	const game = games[0];
+	if (game === undefined) {
+		return new CategoryNotFoundError(section.categoryName);
+	}
+
+	const saveResult = setBrowseSectionCategory(section.id, game.id, game.boxArtUrl);
+	if (saveResult instanceof Error) {
+		// Not fatal: the lookup simply runs again next time
+		console.warn("[browse-service] Failed to save category id:", saveResult.message);
+	}
+
+	return game.id;
+}
+
+export async function getBrowseSectionStreams(
+	section: BrowseSection,
+	params: { limit: number; cursor?: string | undefined },
+) {
+	const categoryId = await resolveCategoryId(section);
+
+	if (categoryId instanceof Error) {
+		return categoryId;
+	}
+
+	const hiddenChannelIds = getChannelIdsByRank("hidden");
+
+	if (hiddenChannelIds instanceof Error) {
+		return hiddenChannelIds;
+	}
+
+	const page = await getStreamsByGame(categoryId, params);
+
+	if (page instanceof Error) {
+		return page;
+	}
+
+	// Filtering after the fetch can leave a page short; "view more" still follows the cursor
+	const streams: Array<TwitchStream> = [];
+	for (const stream of page.streams) {
+		if (!hiddenChannelIds.has(stream.userId)) {
+			streams.push(stream);
+		}
+	}
+
+	return { streams, cursor: page.cursor };
+}
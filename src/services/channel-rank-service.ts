@@ -0,0 +1,112 @@
+import {
+	clearChannelRank,
+	getChannelRank,
+	setChannelRank,
+} from "@/src/features/channel-ranks/channel-ranks.repository";
+import { resolveChannelRank } from "@/src/features/channel-ranks/channel-ranks.validators";
+import { getFollowedChannelIdentity } from "@/src/features/channels/followed-channels.repository";
+import { getUsers } from "@/src/services/twitch-service";
+
+import type { ChannelRank } from "@/src/features/channel-ranks/channel-ranks.types";
+
+export class ChannelNotFoundError extends Error {
+	constructor(channelId: string) {
+		super(`Channel ${channelId} not found`);
+		this.name = "ChannelNotFoundError";
+	}
+}
+
+// Ranks can be set on channels we don't follow, so fall back to Twitch for the name
+export async function resolveChannelIdentity(channelId: string) {
+	const followed = getFollowedChannelIdentity(channelId);
+
+	if (followed instanceof Error) {
+		return followed;
+	}
+
+	if (followed !== null) {
+		return { channelName: followed.channelName, profileImageUrl: followed.profileImageUrl };
+	}
+
+	const stored = getChannelRank(channelId);
+
+	if (stored instanceof Error) {
+		return stored;
+	}
+
+	if (stored !== null) {
+		return { channelName: stored.channelName, profileImageUrl: stored.profileImageUrl };
+	}
+
+	const users = await getUsers({ ids: [channelId] });
+
+	if (users instanceof Error) {
+		return users;
+	}
+
+	const user = users[0];
+	if (user === undefined) {
+		return new ChannelNotFoundError(channelId);
+	}
+
+	return { channelName: user.displayName, profileImageUrl: user.profileImageUrl };
+}
+
+/**
+ * Stores a rank for the channel, or clears it with null so the channel falls back
+ * to its follow state. Returns the rank the channel ends up with.
+ */
+export async function updateChannelRank(channelId: string, rank: ChannelRank | null) {
+	const followed = getFollowedChannelIdentity(channelId);
+
+	if (followed instanceof Error) {
+		return followed;
+	}
+
+	if (rank === null) {
+		const clearResult = clearChannelRank(channelId);
+
+		if (clearResult instanceof Error) {
+			return clearResult;
+		}
+
+		return resolveChannelRank(null, followed !== null);
+	}
+
+	const identity = await resolveChannelIdentity(channelId);
+
+	if (identity instanceof Error) {
+		return identity;
+	}
+
+	const setResult = setChannelRank({ channelId, rank, ...identity });
+
+	if (setResult instanceof Error) {
+		return setResult;
+	}
+
+	return rank;
+}
+
+export async function toggleFavoriteRank(channelId: string) {
+	const stored = getChannelRank(channelId);
+
+	if (stored instanceof Error) {
+		return stored;
+	}
+
+	if (stored?.rank !== "favorite") {
+		const result = await updateChannelRank(channelId, "favorite");
+		return result instanceof Error ? result : true;
+	}
+
+	const followed = getFollowedChannelIdentity(channelId);
+
+	if (followed instanceof Error) {
+		return followed;
+	}
+
+	// An unfollowed favorite stays tracked rather than vanishing from every list
+	const result = await updateChannelRank(channelId, followed !== null ? null : "known");
+	return result instanceof Error ? result : false;
+}
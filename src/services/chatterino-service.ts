@@ -1,48 +1,24 @@
-import { spawn } from "child_process";
-import { existsSync } from "fs";
-
-const CHATTERINO_PATH = "C:\\Program Files\\Chatterino\\chatterino.exe";
+import { resolveExecutable } from "@/src/services/launcher-config-service";
+import { spawnTrackedProcess } from "@/src/services/player-session-service";
 
 export function launchChatterino(channelName: string) {
-	return new Promise<void | Error>((promiseResolve) => {
-		const sanitizedChannel = channelName.toLowerCase().replace(/[^a-z0-9_]/g, "");
-
-		if (!sanitizedChannel) {
-			promiseResolve(new Error("Invalid channel name"));
-			return;
-		}
+	const sanitizedChannel = channelName.toLowerCase().replace(/[^a-z0-9_]/g, "");
 
-		if (!existsSync(CHATTERINO_PATH)) {
-			promiseResolve(new Error(`Chatterino executable not found: ${CHATTERINO_PATH}`));
-			return;
-		}
+	if (!sanitizedChannel) {
+		return Promise.resolve(new Error("Invalid channel name"));
+	}
 
-		const commandArguments = ["-c", sanitizedChannel];
+	const executable = resolveExecutable("chatterino");
 
-		try {
-			const child = spawn(
-				"cmd.exe",
-				["/c", "start", "", CHATTERINO_PATH, ...commandArguments],
-				{
-					detached: true,
-					stdio: "ignore",
-					windowsHide: true,
-				},
-			);
+	if (executable instanceof Error) {
+		return Promise.resolve(executable);
+	}
 
-			child.once("error", (error: Error) => {
-				promiseResolve(new Error(`Failed to launch Chatterino: ${error.message}`));
-			});
-			child.once("spawn", () => {
-				child.unref();
-				promiseResolve();
-			});
-		} catch (error) {
-			if (error instanceof Error) {
-				promiseResolve(new Error(`Failed to launch Chatterino: ${error.message}`));
-				return;
-			}
-			promiseResolve(new Error("Failed to launch Chatterino: unknown error"));
-		}
-	});
+	// Spawned directly (not through `cmd /c start`) so the session tracks Chatterino itself
+	return spawnTrackedProcess(
+		executable.path,
+		["-c", sanitizedChannel],
+		{ kind: "chat", channelName: sanitizedChannel, vodId: null, title: null },
+		"Failed to launch Chatterino",
+	);
 }
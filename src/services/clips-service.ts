@@ -0,0 +1,67 @@
+import { getCachedClips, upsertClips } from "@/src/features/clips/clips.repository";
+import { getClipPeriodStart } from "@/src/features/clips/clips.validators";
+import { getClips, getGames } from "@/src/services/twitch-service";
+
+import type { ClipsQuery, ClipsResponse } from "@/src/features/clips/clips.types";
+
+const CLIPS_FETCH_LIMIT = 40;
+
+export class CategoryNotFoundError extends Error {
+	constructor(gameName: string) {
+		super(`Category ${gameName} not found`);
+		this.name = "CategoryNotFoundError";
+	}
+}
+
+async function resolveClipFilter(query: ClipsQuery) {
+	if ("channelId" in query.source) {
+		return { broadcasterId: query.source.channelId };
+	}
+
+	const games = await getGames({ names: [query.source.gameName] });
+
+	if (games instanceof Error) {
+		return games;
+	}
+
+	const game = games[0];
+
+	if (game === undefined) {
+		return new CategoryNotFoundError(query.source.gameName);
+	}
+
+	return { gameId: game.id };
+}
+
+/**
+ * Fetches the top clips for a channel or category and caches them. When Twitch fails
+ * the cached clips for the same filter are served instead.
+ */
+export async function getClipsForQuery(query: ClipsQuery): Promise<ClipsResponse | Error> {
+	const filter = await resolveClipFilter(query);
+
+	if (filter instanceof Error) {
+		return filter;
+	}
+
+	const startedAt = getClipPeriodStart(query.period);
+	const clips = await getClips({ ...filter, startedAt, limit: CLIPS_FETCH_LIMIT });
+
+	if (clips instanceof Error) {
+		const cached = getCachedClips({ ...filter, since: startedAt, limit: CLIPS_FETCH_LIMIT });
+
+		if (cached instanceof Error || cached.length === 0) {
+			return clips;
+		}
+
+		console.warn("[clips] Serving cached clips after Twitch error:", clips.message);
+		return { clips: cached, isCached: true };
+	}
+
+	const upsertResult = upsertClips(clips, new Date().toISOString());
+	if (upsertResult instanceof Error) {
+		console.warn("[clips] Failed to cache clips:", upsertResult.message);
+	}
+
+	return { clips, isCached: false };
+}
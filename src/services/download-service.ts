@@ -0,0 +1,526 @@
+import { spawn } from "child_process";
+import { mkdirSync, statSync } from "fs";
+import { dirname, join, resolve } from "path";
+
+import { getChannelRankMap } from "@/src/features/channel-ranks/channel-ranks.repository";
+import {
+	getPreferredQualityByChannelName,
+	getPreferredQualityByVodId,
+} from "@/src/features/channels/followed-channels.repository";
+import {
+	failInterruptedDownloads,
+	finishDownload,
+	getDownloadById,
+	getQueuedDownloads,
+	hasActiveLiveRecording,
+	insertDownload,
+	markDownloadRunning,
+	updateDownloadProgress,
+} from "@/src/features/downloads/downloads.repository";
+import { getLauncherSettings } from "@/src/features/launcher/launcher.repository";
+import { upsertLibraryFile } from "@/src/features/library/library.repository";
+import { getVodLaunchDetails } from "@/src/features/vods/vods.repository";
+import { resolveExecutable } from "@/src/services/launcher-config-service";
+import { killProcessTree } from "@/src/services/player-session-service";
+import { getVideoById, VideoNotFoundError } from "@/src/services/twitch-service";
+import { DEFAULT_STREAM_QUALITY } from "@/src/shared/utils/stream-quality";
+
+import type { CreateDownloadRequest, Download } from "@/src/features/downloads/downloads.types";
+import type { TwitchStream } from "@/src/services/twitch-service";
+import type { ChildProcess } from "child_process";
+
+type ActiveDownload = {
+	kind: Download["kind"];
+	child: ChildProcess;
+	progressIntervalId: ReturnType<typeof setInterval>;
+	isCanceled: boolean;
+	isFinished: boolean;
+	lastErrorLine: string | null;
+};
+
+type CreateDownloadOptions = {
+	isAutoRecording: boolean;
+};
+
+// Live recordings never wait; they would miss the broadcast
+const MAX_CONCURRENT_VOD_DOWNLOADS = 2;
+const PROGRESS_INTERVAL_MS = 5_000;
+const DEFAULT_DOWNLOAD_DIRECTORY = "data/downloads";
+
+const activeDownloads = new Map<number, ActiveDownload>();
+
+export class AlreadyRecordingError extends Error {
+	constructor(channelName: string) {
+		super(`${channelName} is already being recorded`);
+		this.name = "AlreadyRecordingError";
+	}
+}
+
+export function getDownloadDirectory() {
+	const settings = getLauncherSettings();
+
+	if (settings instanceof Error) {
+		console.warn("[downloads] Failed to read launcher settings:", settings.message);
+	} else if (settings.downloadDirectory !== null) {
+		return settings.downloadDirectory;
+	}
+
+	return resolve(process.cwd(), DEFAULT_DOWNLOAD_DIRECTORY);
+}
+
+function sanitizeFileNamePart(value: string) {
+	return value.toLowerCase().replace(/[^a-z0-9_-]/g, "_");
+}
+
+// One folder per channel; the timestamp keeps repeated downloads of the same VOD apart
+function getOutputPath(channelName: string, label: string, createdAt: string) {
+	const timestamp = createdAt.replace(/[:.]/g, "-");
+
+	return join(
+		getDownloadDirectory(),
+		sanitizeFileNamePart(channelName),
+		`${timestamp}_${sanitizeFileNamePart(label)}.ts`,
+	);
+}
+
+function getFileSize(path: string) {
+	try {
+		return statSync(path, { throwIfNoEntry: false })?.size ?? 0;
+	} catch {
+		return 0;
+	}
+}
+
+function getStreamlinkArguments(download: Download) {
+	if (download.kind === "live") {
+		return [
+			`twitch.tv/${download.channelName}`,
+			download.quality,
+			"--output",
+			download.outputPath,
+		];
+	}
+
+	const args = [
+		`twitch.tv/videos/${download.vodId ?? ""}`,
+		download.quality,
+		"--output",
+		download.outputPath,
+	];
+
+	const startOffsetSeconds = download.startOffsetSeconds ?? 0;
+	if (startOffsetSeconds > 0) {
+		args.push("--hls-start-offset", startOffsetSeconds.toString());
+	}
+
+	if (download.endOffsetSeconds !== null) {
+		args.push("--hls-duration", (download.endOffsetSeconds - startOffsetSeconds).toString());
+	}
+
+	return args;
+}
+
+// Makes the file playable from the library right away instead of after the next scan
+function addToLibrary(download: Download) {
+	let stats;
+	try {
+		stats = statSync(download.outputPath, { throwIfNoEntry: false });
+	} catch {
+		return;
+	}
+
+	if (stats === undefined) {
+		return;
+	}
+
+	const result = upsertLibraryFile(
+		{
+			path: resolve(download.outputPath),
+			channelName: sanitizeFileNamePart(download.channelName),
+			vodId: download.vodId,
+			sizeBytes: stats.size,
+			isPartial: download.startOffsetSeconds !== null || download.endOffsetSeconds !== null,
+			modifiedAt: stats.mtime.toISOString(),
+		},
+		new Date().toISOString(),
+	);
+
+	if (result instanceof Error) {
+		console.warn(
+			`[downloads] Failed to add download ${download.id} to the library:`,
+			result.message,
+		);
+	}
+}
+
+function completeDownload(download: Download, active: ActiveDownload, exitCode: number | null) {
+	if (active.isFinished) {
+		return;
+	}
+
+	active.isFinished = true;
+	clearInterval(active.progressIntervalId);
+	activeDownloads.delete(download.id);
+
+	let status: "completed" | "failed" | "canceled" = "completed";
+	let error: string | null = null;
+
+	if (active.isCanceled) {
+		status = "canceled";
+	} else if (exitCode !== 0) {
+		status = "failed";
+		error = active.lastErrorLine ?? `Streamlink exited with code ${exitCode ?? "none"}`;
+	}
+
+	const result = finishDownload(download.id, {
+		status,
+		bytesWritten: getFileSize(download.outputPath),
+		error,
+		finishedAt: new Date().toISOString(),
+	});
+
+	if (result instanceof Error) {
+		console.warn(`[downloads] Failed to save download ${download.id}:`, result.message);
+	}
+
+	console.log(`[downloads] ${download.kind} download ${download.id} ${status}`);
+
+	if (status === "completed") {
+		addToLibrary(download);
+	}
+
+	startQueuedDownloads();
+}
+
+// Streamlink reports failures such as "error: No playable streams found" on its output
+function trackErrorLines(active: ActiveDownload, chunk: Buffer) {
+	for (const line of chunk.toString().split(/\r?\n/)) {
+		if (/\berror:/i.test(line)) {
+			active.lastErrorLine = line.trim();
+		}
+	}
+}
+
+function failDownload(download: Download, message: string) {
+	const result = finishDownload(download.id, {
+		status: "failed",
+		bytesWritten: 0,
+		error: message,
+		finishedAt: new Date().toISOString(),
+	});
+
+	if (result instanceof Error) {
+		console.warn(`[downloads] Failed to save download ${download.id}:`, result.message);
+	}
+}
+
+function startDownload(download: Download) {
+	const executable = resolveExecutable("streamlink");
+
+	if (executable instanceof Error) {
+		failDownload(download, executable.message);
+		return;
+	}
+
+	try {
+		mkdirSync(dirname(download.outputPath), { recursive: true });
+	} catch (error) {
+		failDownload(
+			download,
+			`Failed to create download folder: ${error instanceof Error ? error.message : "unknown error"}`,
+		);
+		return;
+	}
+
+	const runningResult = markDownloadRunning(download.id, new Date().toISOString());
+	if (runningResult instanceof Error) {
+		console.warn(`[downloads] Failed to start download ${download.id}:`, runningResult.message);
+		return;
+	}
+
+	let child: ChildProcess;
+	try {
+		// Detached so cancelling can stop Streamlink's whole process group
+		child = spawn(executable.path, getStreamlinkArguments(download), {
+			detached: true,
+			stdio: ["ignore", "pipe", "pipe"],
+			windowsHide: true,
+		});
+	} catch (error) {
+		failDownload(
+			download,
+			`Failed to launch Streamlink: ${error instanceof Error ? error.message : "unknown error"}`,
+		);
+		return;
+	}
+
+	const active: ActiveDownload = {
+		kind: download.kind,
+		child,
+		progressIntervalId: setInterval(() => {
+			updateDownloadProgress(download.id, getFileSize(download.outputPath));
+		}, PROGRESS_INTERVAL_MS),
+		isCanceled: false,
+		isFinished: false,
+		lastErrorLine: null,
+	};
+
+	activeDownloads.set(download.id, active);
+
+	child.stdout?.on("data", (chunk: Buffer) => trackErrorLines(active, chunk));
+	child.stderr?.on("data", (chunk: Buffer) => trackErrorLines(active, chunk));
+	child.once("error", (error: Error) => {
+		active.lastErrorLine = `Failed to launch Streamlink: ${error.message}`;
+		completeDownload(download, active, null);
+	});
+	child.once("exit", (code) => completeDownload(download, active, code));
+
+	console.log(`[downloads] Started ${download.kind} download ${download.id}`);
+}
+
+/**
+ * Starts queued downloads. Live recordings start right away; VODs wait for a free slot
+ * so several long downloads don't compete for bandwidth.
+ */
+export function startQueuedDownloads() {
+	const queued = getQueuedDownloads();
+
+	if (queued instanceof Error) {
+		console.warn("[downloads] Failed to load queued downloads:", queued.message);
+		return;
+	}
+
+	let runningVodCount = 0;
+	for (const active of activeDownloads.values()) {
+		if (active.kind === "vod") {
+			runningVodCount++;
+		}
+	}
+
+	for (const download of queued) {
+		if (download.kind === "vod") {
+			if (runningVodCount >= MAX_CONCURRENT_VOD_DOWNLOADS) {
+				continue;
+			}
+			runningVodCount++;
+		}
+
+		startDownload(download);
+	}
+}
+
+export function initializeDownloads() {
+	const failedCount = failInterruptedDownloads(new Date().toISOString());
+
+	if (failedCount instanceof Error) {
+		console.warn("[downloads] Failed to clean up interrupted downloads:", failedCount.message);
+	} else if (failedCount > 0) {
+		console.log(`[downloads] Marked ${failedCount} interrupted downloads as failed`);
+	}
+
+	startQueuedDownloads();
+}
+
+async function resolveVodDetails(vodId: string) {
+	const cached = getVodLaunchDetails(vodId);
+
+	if (cached instanceof Error || cached !== null) {
+		return cached;
+	}
+
+	// VODs from channels we don't follow aren't cached
+	const video = await getVideoById(vodId);
+
+	if (video instanceof Error) {
+		return video;
+	}
+
+	if (video === null) {
+		return new VideoNotFoundError(vodId);
+	}
+
+	return { channelName: video.userName, title: video.title };
+}
+
+function resolveQuality(request: CreateDownloadRequest) {
+	if (request.quality !== null) {
+		return request.quality;
+	}
+
+	const preferredQuality =
+		request.kind === "vod"
+			? getPreferredQualityByVodId(request.vodId)
+			: getPreferredQualityByChannelName(request.channelName);
+
+	if (preferredQuality instanceof Error) {
+		return preferredQuality;
+	}
+
+	return preferredQuality ?? DEFAULT_STREAM_QUALITY;
+}
+
+export async function createDownload(
+	request: CreateDownloadRequest,
+	{ isAutoRecording }: CreateDownloadOptions = { isAutoRecording: false },
+): Promise<Download | Error> {
+	const quality = resolveQuality(request);
+
+	if (quality instanceof Error) {
+		return quality;
+	}
+
+	const createdAt = new Date().toISOString();
+	let download: Download | Error;
+
+	if (request.kind === "live") {
+		const isRecording = hasActiveLiveRecording(request.channelName);
+
+		if (isRecording instanceof Error) {
+			return isRecording;
+		}
+
+		if (isRecording) {
+			return new AlreadyRecordingError(request.channelName);
+		}
+
+		download = insertDownload({
+			kind: "live",
+			channelName: request.channelName,
+			vodId: null,
+			title: null,
+			quality,
+			startOffsetSeconds: null,
+			endOffsetSeconds: null,
+			outputPath: getOutputPath(request.channelName, "live", createdAt),
+			isAutoRecording,
+			createdAt,
+		});
+	} else {
+		const details = await resolveVodDetails(request.vodId);
+
+		if (details instanceof Error) {
+			return details;
+		}
+
+		download = insertDownload({
+			kind: "vod",
+			channelName: details.channelName,
+			vodId: request.vodId,
+			title: details.title,
+			quality,
+			startOffsetSeconds: request.startOffsetSeconds,
+			endOffsetSeconds: request.endOffsetSeconds,
+			outputPath: getOutputPath(details.channelName, `vod-${request.vodId}`, createdAt),
+			isAutoRecording,
+			createdAt,
+		});
+	}
+
+	if (download instanceof Error) {
+		return download;
+	}
+
+	startQueuedDownloads();
+
+	const current = getDownloadById(download.id);
+	return current instanceof Error || current === null ? download : current;
+}
+
+/**
+ * Cancels a queued or running download. Running downloads are marked canceled once
+ * Streamlink exits, and the partial file is kept. Returns null if the download does not exist.
+ */
+export function cancelDownload(id: number) {
+	const download = getDownloadById(id);
+
+	if (download === null || download instanceof Error) {
+		return download;
+	}
+
+	const active = activeDownloads.get(id);
+
+	if (active === undefined) {
+		if (download.status === "queued") {
+			const result = finishDownload(id, {
+				status: "canceled",
+				bytesWritten: 0,
+				error: null,
+				finishedAt: new Date().toISOString(),
+			});
+
+			if (result instanceof Error) {
+				return result;
+			}
+		}
+
+		return getDownloadById(id);
+	}
+
+	if (active.child.pid !== undefined) {
+		try {
+			active.isCanceled = true;
+			killProcessTree(active.child.pid);
+		} catch (error) {
+			console.error("[downloads] cancelDownload failed:", error);
+			return new Error("Failed to cancel download");
+		}
+	}
+
+	return download;
+}
+
+/**
+ * Starts recording favorites that just went live when auto-recording is on. Recording is
+ * best-effort: failures are logged and never affect live state updates.
+ */
+export function recordWentLiveFavorites(
+	wentLive: Array<{ channelId: string }>,
+	liveStreams: Array<TwitchStream>,
+) {
+	const settings = getLauncherSettings();
+
+	if (settings instanceof Error) {
+		console.warn("[downloads] Failed to read launcher settings:", settings.message);
+		return;
+	}
+
+	if (!settings.autoRecordFavorites) {
+		return;
+	}
+
+	const ranks = getChannelRankMap();
+
+	if (ranks instanceof Error) {
+		console.warn("[downloads] Failed to load channel ranks:", ranks.message);
+		return;
+	}
+
+	const streamsByChannelId = new Map<string, TwitchStream>();
+	for (const stream of liveStreams) {
+		streamsByChannelId.set(stream.userId, stream);
+	}
+
+	for (const channel of wentLive) {
+		const stream = streamsByChannelId.get(channel.channelId);
+
+		if (stream === undefined || ranks.get(channel.channelId)?.rank !== "favorite") {
+			continue;
+		}
+
+		createDownload(
+			{ kind: "live", channelName: stream.userLogin, quality: null },
+			{ isAutoRecording: true },
+		)
+			.then((result) => {
+				if (result instanceof Error && !(result instanceof AlreadyRecordingError)) {
+					console.warn(
+						`[downloads] Failed to auto-record ${stream.userLogin}:`,
+						result.message,
+					);
+				}
+			})
+			.catch((error: unknown) => {
+				console.error(`[downloads] Failed to auto-record ${stream.userLogin}:`, error);
+			});
+	}
+}
@@ -0,0 +1,417 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+import { getAuth } from "@/src/features/auth/auth.repository";
+import { getChannelIdsByRank } from "@/src/features/channel-ranks/channel-ranks.repository";
+import {
+	EVENTSUB_SUBSCRIPTION_TYPES,
+	EVENTSUB_SUBSCRIPTION_VERSIONS,
+	parseEventSubLiveUpdate,
+	parseEventSubWebSocketMessage,
+} from "@/src/features/eventsub/eventsub.validators";
+import { applyPushedLiveUpdate, setPushConnected } from "@/src/services/live-state-service";
+import {
+	createEventSubSubscription,
+	deleteEventSubSubscription,
+} from "@/src/services/twitch-service";
+import { getEventSubWebSocketUrl, isEventSubEnabled } from "@/src/shared/utils/eventsub-config";
+
+import type { EventSubSession, EventSubStatus } from "@/src/features/eventsub/eventsub.types";
+
+// Twitch allows 300 enabled subscriptions per WebSocket and each channel takes three
+const MAX_SUBSCRIBED_CHANNELS = 100;
+// Twitch's guidance: drop messages older than this to guard against replays
+const MAX_MESSAGE_AGE_MS = 10 * 60 * 1000;
+const DEFAULT_KEEPALIVE_TIMEOUT_SECONDS = 10;
+const KEEPALIVE_GRACE_MS = 5 * 1000;
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 5 * 60 * 1000;
+// Also connects after a login and picks up favorites changed since the last sync
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+let socket: WebSocket | null = null;
+let session: EventSubSession | null = null;
+let connectedAt: string | null = null;
+let lastError: string | null = null;
+let keepaliveTimeoutId: ReturnType<typeof setTimeout> | null = null;
+let reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+let reconnectAttempts = 0;
+let isSyncing = false;
+
+// Subscription ids per channel, so unfavorited channels can be unsubscribed
+const subscriptionsByChannelId = new Map<string, Array<string>>();
+// Message ids seen within MAX_MESSAGE_AGE_MS, for dropping Twitch's redeliveries
+const seenMessageIds = new Map<string, number>();
+
+function pruneSeenMessageIds(now: number) {
+	for (const [messageId, receivedAt] of seenMessageIds) {
+		if (now - receivedAt > MAX_MESSAGE_AGE_MS) {
+			seenMessageIds.delete(messageId);
+		}
+	}
+}
+
+/**
+ * Rejects duplicate and stale messages. Shared by the WebSocket client and the webhook
+ * receiver since Twitch may redeliver over either transport.
+ */
+export function isFreshEventSubMessage(messageId: string, messageTimestamp: string) {
+	const now = Date.now();
+	const sentAt = new Date(messageTimestamp).getTime();
+
+	if (Number.isNaN(sentAt) || now - sentAt > MAX_MESSAGE_AGE_MS) {
+		return false;
+	}
+
+	pruneSeenMessageIds(now);
+
+	if (seenMessageIds.has(messageId)) {
+		return false;
+	}
+
+	seenMessageIds.set(messageId, now);
+	return true;
+}
+
+/**
+ * Checks a webhook delivery's Twitch-Eventsub-Message-Signature header, an HMAC-SHA256
+ * over the message id, timestamp and raw body.
+ */
+export function verifyEventSubSignature(params: {
+	secret: string;
+	messageId: string;
+	messageTimestamp: string;
+	body: string;
+	signature: string;
+}) {
+	const expected = `sha256=${createHmac("sha256", params.secret)
+		.update(params.messageId + params.messageTimestamp + params.body)
+		.digest("hex")}`;
+
+	const expectedBuffer = Buffer.from(expected);
+	const signatureBuffer = Buffer.from(params.signature);
+
+	return (
+		expectedBuffer.length === signatureBuffer.length &&
+		timingSafeEqual(expectedBuffer, signatureBuffer)
+	);
+}
+
+export async function handleEventSubNotification(subscriptionType: string, event: unknown) {
+	const update = parseEventSubLiveUpdate(subscriptionType, event);
+
+	if (update instanceof Error) {
+		console.warn("[eventsub] Ignoring malformed notification:", update.message);
+		return;
+	}
+
+	if (update === null) {
+		return;
+	}
+
+	await applyPushedLiveUpdate(update);
+}
+
+function getSubscribedChannelCount() {
+	return subscriptionsByChannelId.size;
+}
+
+export function getEventSubStatus(): EventSubStatus {
+	return {
+		isEnabled: isEventSubEnabled(),
+		isConnected: session !== null,
+		subscribedChannelCount: getSubscribedChannelCount(),
+		connectedAt,
+		lastError,
+	};
+}
+
+async function unsubscribeChannel(channelId: string) {
+	const subscriptionIds = subscriptionsByChannelId.get(channelId) ?? [];
+	subscriptionsByChannelId.delete(channelId);
+
+	for (const subscriptionId of subscriptionIds) {
+		const result = await deleteEventSubSubscription(subscriptionId);
+		if (result instanceof Error) {
+			console.warn(`[eventsub] Failed to unsubscribe from ${channelId}:`, result.message);
+		}
+	}
+}
+
+async function subscribeChannel(channelId: string, sessionId: string) {
+	const subscriptionIds: Array<string> = [];
+
+	for (const type of EVENTSUB_SUBSCRIPTION_TYPES) {
+		const result = await createEventSubSubscription({
+			type,
+			version: EVENTSUB_SUBSCRIPTION_VERSIONS[type],
+			broadcasterUserId: channelId,
+			sessionId,
+		});
+
+		if (result instanceof Error) {
+			lastError = `Failed to subscribe to ${type} for ${channelId}: ${result.message}`;
+			console.warn(`[eventsub] ${lastError}`);
+			continue;
+		}
+
+		subscriptionIds.push(result.id);
+	}
+
+	subscriptionsByChannelId.set(channelId, subscriptionIds);
+
+	// Half-subscribed channels are undone so the next sync retries them whole
+	if (subscriptionIds.length < EVENTSUB_SUBSCRIPTION_TYPES.length) {
+		await unsubscribeChannel(channelId);
+	}
+}
+
+/**
+ * Subscribes favorites that aren't subscribed yet and drops channels that stopped being
+ * favorites. Subscriptions die with the socket, so a new session starts from scratch.
+ */
+async function syncSubscriptions() {
+	const sessionId = session?.id;
+
+	if (sessionId === undefined || isSyncing) {
+		return;
+	}
+
+	const favoriteIds = getChannelIdsByRank("favorite");
+
+	if (favoriteIds instanceof Error) {
+		console.warn("[eventsub] Failed to load favorites:", favoriteIds.message);
+		return;
+	}
+
+	isSyncing = true;
+
+	try {
+		const wantedIds = [...favoriteIds].slice(0, MAX_SUBSCRIBED_CHANNELS);
+		if (favoriteIds.size > MAX_SUBSCRIBED_CHANNELS) {
+			console.warn(
+				`[eventsub] Only the first ${MAX_SUBSCRIBED_CHANNELS} favorites get pushed updates; the rest are polled`,
+			);
+		}
+
+		const wantedIdSet = new Set(wantedIds);
+		for (const channelId of subscriptionsByChannelId.keys()) {
+			if (!wantedIdSet.has(channelId)) {
+				await unsubscribeChannel(channelId);
+			}
+		}
+
+		for (const channelId of wantedIds) {
+			// The socket dropped or moved mid-sync; the next welcome starts over
+			if (session?.id !== sessionId) {
+				return;
+			}
+
+			if (!subscriptionsByChannelId.has(channelId)) {
+				await subscribeChannel(channelId, sessionId);
+			}
+		}
+	} finally {
+		isSyncing = false;
+	}
+}
+
+function clearKeepaliveTimeout() {
+	if (keepaliveTimeoutId !== null) {
+		clearTimeout(keepaliveTimeoutId);
+		keepaliveTimeoutId = null;
+	}
+}
+
+// Twitch sends a keepalive when there's nothing else to say; silence means the socket is dead
+function resetKeepaliveTimeout() {
+	clearKeepaliveTimeout();
+
+	const timeoutSeconds = session?.keepaliveTimeoutSeconds ?? DEFAULT_KEEPALIVE_TIMEOUT_SECONDS;
+	keepaliveTimeoutId = setTimeout(
+		() => {
+			console.warn("[eventsub] Keepalive timed out, reconnecting");
+			socket?.close();
+		},
+		timeoutSeconds * 1000 + KEEPALIVE_GRACE_MS,
+	);
+}
+
+function scheduleReconnect() {
+	if (reconnectTimeoutId !== null) {
+		return;
+	}
+
+	const delay = Math.min(MIN_RECONNECT_DELAY_MS * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+	reconnectAttempts += 1;
+
+	reconnectTimeoutId = setTimeout(() => {
+		reconnectTimeoutId = null;
+		connectIfAuthenticated();
+	}, delay);
+}
+
+function handleWelcome(source: WebSocket, welcomeSession: EventSubSession) {
+	const previousSocket = socket;
+	const isMigration = previousSocket !== null && previousSocket !== source && session !== null;
+
+	socket = source;
+	session = welcomeSession;
+	reconnectAttempts = 0;
+	lastError = null;
+	connectedAt = new Date().toISOString();
+	resetKeepaliveTimeout();
+	setPushConnected(true);
+
+	// Subscriptions move with a session_reconnect, so only a fresh session resubscribes
+	if (isMigration) {
+		previousSocket.close();
+		return;
+	}
+
+	subscriptionsByChannelId.clear();
+	syncSubscriptions().catch((error: unknown) => {
+		console.error("[eventsub] Subscription sync failed:", error);
+	});
+}
+
+function handleSocketMessage(source: WebSocket, data: unknown) {
+	if (typeof data !== "string") {
+		return;
+	}
+
+	let parsedData: unknown;
+	try {
+		parsedData = JSON.parse(data);
+	} catch {
+		console.warn("[eventsub] Ignoring non-JSON message");
+		return;
+	}
+
+	const message = parseEventSubWebSocketMessage(parsedData);
+
+	if (message instanceof Error) {
+		console.warn("[eventsub] Ignoring message:", message.message);
+		return;
+	}
+
+	if (!isFreshEventSubMessage(message.messageId, message.messageTimestamp)) {
+		return;
+	}
+
+	if (message.messageType === "session_welcome") {
+		handleWelcome(source, message.session);
+		return;
+	}
+
+	// Anything else from a socket we're migrating away from is stale
+	if (source !== socket) {
+		return;
+	}
+
+	resetKeepaliveTimeout();
+
+	if (message.messageType === "session_reconnect") {
+		if (message.session.reconnectUrl !== null) {
+			openSocket(message.session.reconnectUrl);
+		}
+		return;
+	}
+
+	if (message.messageType === "revocation") {
+		console.warn(
+			`[eventsub] ${message.subscriptionType} subscription revoked: ${message.status}`,
+		);
+		for (const [channelId, subscriptionIds] of subscriptionsByChannelId) {
+			if (subscriptionIds.includes(message.subscriptionId)) {
+				subscriptionsByChannelId.delete(channelId);
+			}
+		}
+		return;
+	}
+
+	if (message.messageType === "notification") {
+		handleEventSubNotification(message.subscriptionType, message.event).catch(
+			(error: unknown) => {
+				console.error("[eventsub] Failed to apply notification:", error);
+			},
+		);
+	}
+}
+
+function handleSocketClose(source: WebSocket, code: number) {
+	// Closing the old socket after a reconnect is expected
+	if (source !== socket) {
+		return;
+	}
+
+	console.warn(`[eventsub] Socket closed (${code}), falling back to polling`);
+
+	socket = null;
+	session = null;
+	connectedAt = null;
+	subscriptionsByChannelId.clear();
+	clearKeepaliveTimeout();
+	setPushConnected(false);
+	scheduleReconnect();
+}
+
+function openSocket(url: string) {
+	let nextSocket: WebSocket;
+
+	try {
+		nextSocket = new WebSocket(url);
+	} catch (error) {
+		lastError = error instanceof Error ? error.message : "Failed to open EventSub socket";
+		console.warn("[eventsub] Failed to open socket:", lastError);
+		scheduleReconnect();
+		return;
+	}
+
+	// A fresh connection owns the client straight away; a reconnect waits for its welcome
+	if (socket === null) {
+		socket = nextSocket;
+	}
+
+	nextSocket.addEventListener("message", (event: MessageEvent) => {
+		handleSocketMessage(nextSocket, event.data);
+	});
+	nextSocket.addEventListener("error", () => {
+		lastError = "EventSub socket error";
+	});
+	nextSocket.addEventListener("close", (event: CloseEvent) => {
+		handleSocketClose(nextSocket, event.code);
+	});
+}
+
+function connectIfAuthenticated() {
+	if (socket !== null || reconnectTimeoutId !== null) {
+		return;
+	}
+
+	const auth = getAuth();
+
+	// Subscriptions need a user token; the sync interval retries after login
+	if (auth instanceof Error || auth.accessToken === null) {
+		return;
+	}
+
+	openSocket(getEventSubWebSocketUrl());
+}
+
+export function startEventSub() {
+	if (!isEventSubEnabled()) {
+		console.log("[eventsub] Disabled, live state is polled only");
+		return;
+	}
+
+	connectIfAuthenticated();
+
+	setInterval(() => {
+		connectIfAuthenticated();
+		syncSubscriptions().catch((error: unknown) => {
+			console.error("[eventsub] Subscription sync failed:", error);
+		});
+	}, SYNC_INTERVAL_MS);
+
+	console.log("[eventsub] Started");
+}
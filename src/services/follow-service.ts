@@ -0,0 +1,70 @@
+import {
+	addLocalFollow,
+	deleteFollowedChannel,
+	getFollowedChannelDetails,
+} from "@/src/features/channels/followed-channels.repository";
+import { unignoreFollow } from "@/src/features/channels/ignored-follows.repository";
+import { resolveChannelIdentity } from "@/src/services/channel-rank-service";
+import { refreshVideosForChannels } from "@/src/services/video-cache-service";
+
+/**
+ * Follows a channel locally. Twitch has no follow write API, so this only affects
+ * the app: the channel joins the sidebar, live grid and background refresh.
+ */
+export async function followChannel(channelId: string) {
+	const identity = await resolveChannelIdentity(channelId);
+
+	if (identity instanceof Error) {
+		return identity;
+	}
+
+	const unignoreResult = unignoreFollow(channelId);
+
+	if (unignoreResult instanceof Error) {
+		return unignoreResult;
+	}
+
+	const followResult = addLocalFollow(
+		{
+			channelId,
+			channelName: identity.channelName,
+			profileImageUrl: identity.profileImageUrl ?? "",
+		},
+		new Date().toISOString(),
+	);
+
+	if (followResult instanceof Error) {
+		return followResult;
+	}
+
+	// Fills in the latest VOD and last-seen time the sidebar shows for offline channels
+	refreshVideosForChannels([channelId]).catch((error: unknown) => {
+		console.error("[follow] Failed to refresh VODs for new follow:", error);
+	});
+
+	return null;
+}
+
+/**
+ * Unfollows a channel in the app. A Twitch follow can't be removed from here, so it
+ * is remembered and skipped by the sync until it disappears from Twitch as well.
+ * Returns false if the channel wasn't followed.
+ */
+export function unfollowChannel(channelId: string) {
+	const followed = getFollowedChannelDetails(channelId);
+
+	if (followed instanceof Error) {
+		return followed;
+	}
+
+	if (followed === null) {
+		return false;
+	}
+
+	const deleted = deleteFollowedChannel(
+		channelId,
+		followed.isTwitchFollow ? followed.channelName : null,
+	);
+
+	return deleted;
+}
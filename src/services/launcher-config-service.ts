@@ -0,0 +1,200 @@
+import { statSync } from "fs";
+import { homedir } from "os";
+import { delimiter, join } from "path";
+
+import { getLauncherSettings } from "@/src/features/launcher/launcher.repository";
+
+import type {
+	ExecutableKind,
+	ExecutableSource,
+	ExecutableStatus,
+	ResolvedExecutable,
+} from "@/src/features/launcher/launcher.types";
+
+type ExecutableDefinition = {
+	label: string;
+	environmentVariable: string;
+	commandName: string;
+	settingsKey: "streamlinkPath" | "chatterinoPath";
+};
+
+type ProbeCandidate = {
+	path: string;
+	source: ExecutableSource;
+};
+
+export const EXECUTABLE_KINDS: Array<ExecutableKind> = ["streamlink", "chatterino"];
+
+const EXECUTABLE_DEFINITIONS: Record<ExecutableKind, ExecutableDefinition> = {
+	streamlink: {
+		label: "Streamlink",
+		environmentVariable: "STREAMLINK_PATH",
+		commandName: "streamlink",
+		settingsKey: "streamlinkPath",
+	},
+	chatterino: {
+		label: "Chatterino",
+		environmentVariable: "CHATTERINO_PATH",
+		commandName: "chatterino",
+		settingsKey: "chatterinoPath",
+	},
+};
+
+export class ExecutableNotFoundError extends Error {
+	readonly probedLocations: Array<string>;
+
+	constructor(label: string, environmentVariable: string, probedLocations: Array<string>) {
+		super(
+			`${label} executable not found. Set ${environmentVariable} or configure the path in launcher settings.`,
+		);
+		this.name = "ExecutableNotFoundError";
+		this.probedLocations = probedLocations;
+	}
+}
+
+function isExecutableFile(path: string) {
+	try {
+		const stats = statSync(path, { throwIfNoEntry: false });
+		return stats !== undefined && stats.isFile();
+	} catch {
+		return false;
+	}
+}
+
+function getWindowsLocalAppData() {
+	return process.env.LOCALAPPDATA ?? join(homedir(), "AppData", "Local");
+}
+
+function getWindowsProgramFiles() {
+	return process.env.ProgramFiles ?? "C:\\Program Files";
+}
+
+function getDefaultLocations(kind: ExecutableKind) {
+	if (process.platform === "win32") {
+		if (kind === "streamlink") {
+			return [
+				join(getWindowsLocalAppData(), "Programs", "Streamlink", "bin", "streamlink.exe"),
+				join(getWindowsProgramFiles(), "Streamlink", "bin", "streamlink.exe"),
+			];
+		}
+
+		return [
+			join(getWindowsProgramFiles(), "Chatterino", "chatterino.exe"),
+			join(getWindowsLocalAppData(), "Programs", "Chatterino", "chatterino.exe"),
+		];
+	}
+
+	if (process.platform === "darwin") {
+		if (kind === "streamlink") {
+			return ["/opt/homebrew/bin/streamlink", "/usr/local/bin/streamlink"];
+		}
+
+		return [
+			"/Applications/Chatterino.app/Contents/MacOS/chatterino",
+			join(homedir(), "Applications", "Chatterino.app", "Contents", "MacOS", "chatterino"),
+		];
+	}
+
+	if (kind === "streamlink") {
+		return [
+			"/usr/bin/streamlink",
+			"/usr/local/bin/streamlink",
+			join(homedir(), ".local", "bin", "streamlink"),
+		];
+	}
+
+	return [
+		"/usr/bin/chatterino",
+		"/usr/local/bin/chatterino",
+		join(homedir(), ".local", "bin", "chatterino"),
+		"/var/lib/flatpak/exports/bin/com.chatterino.chatterino",
+	];
+}
+
+function getPathCandidates(commandName: string) {
+	const pathValue = process.env.PATH ?? process.env.Path ?? "";
+	const directories = pathValue.split(delimiter);
+	const fileName = process.platform === "win32" ? `${commandName}.exe` : commandName;
+
+	const candidates: Array<string> = [];
+	for (const directory of directories) {
+		if (directory !== "") {
+			candidates.push(join(directory, fileName));
+		}
+	}
+
+	return candidates;
+}
+
+function getProbeCandidates(kind: ExecutableKind) {
+	const definition = EXECUTABLE_DEFINITIONS[kind];
+	const candidates: Array<ProbeCandidate> = [];
+
+	const environmentPath = process.env[definition.environmentVariable];
+	if (environmentPath !== undefined && environmentPath.trim() !== "") {
+		candidates.push({ path: environmentPath.trim(), source: "environment" });
+	}
+
+	const settings = getLauncherSettings();
+	if (settings instanceof Error) {
+		console.warn("[launcher-config] Failed to read launcher settings:", settings.message);
+	} else {
+		const settingsPath = settings[definition.settingsKey];
+		if (settingsPath !== null) {
+			candidates.push({ path: settingsPath, source: "settings" });
+		}
+	}
+
+	for (const path of getPathCandidates(definition.commandName)) {
+		candidates.push({ path, source: "path" });
+	}
+
+	for (const path of getDefaultLocations(kind)) {
+		candidates.push({ path, source: "default-location" });
+	}
+
+	return candidates;
+}
+
+/**
+ * Finds an executable by probing, in order: the environment variable override,
+ * the persisted launcher settings, every PATH directory, then per-OS install locations.
+ */
+export function resolveExecutable(
+	kind: ExecutableKind,
+): ResolvedExecutable | ExecutableNotFoundError {
+	const definition = EXECUTABLE_DEFINITIONS[kind];
+	const probedLocations: Array<string> = [];
+
+	for (const candidate of getProbeCandidates(kind)) {
+		probedLocations.push(candidate.path);
+
+		if (isExecutableFile(candidate.path)) {
+			return { kind, path: candidate.path, source: candidate.source };
+		}
+	}
+
+	return new ExecutableNotFoundError(
+		definition.label,
+		definition.environmentVariable,
+		probedLocations,
+	);
+}
+
+export function getExecutableStatus(kind: ExecutableKind): ExecutableStatus {
+	const result = resolveExecutable(kind);
+
+	if (result instanceof ExecutableNotFoundError) {
+		return { kind, path: null, source: null, probedLocations: result.probedLocations };
+	}
+
+	return { kind, path: result.path, source: result.source, probedLocations: [] };
+}
+
+export function getLaunchErrorDetails(error: Error): Record<string, unknown> {
+	if (error instanceof ExecutableNotFoundError) {
+		return { probedLocations: error.probedLocations };
+	}
+
+	return {};
+}
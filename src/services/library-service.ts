@@ -0,0 +1,342 @@
+import { existsSync, statfsSync, unlinkSync } from "fs";
+import { readdir, stat } from "fs/promises";
+import { basename, extname, join, relative, resolve, sep } from "path";
+
+import { getDownloads } from "@/src/features/downloads/downloads.repository";
+import { getLauncherSettings } from "@/src/features/launcher/launcher.repository";
+import {
+	deleteLibraryFile,
+	getExpiredWatchedFiles,
+	getFullCopyByVodId,
+	getLibraryFileById,
+	getLibraryFiles,
+	replaceLibraryFiles,
+} from "@/src/features/library/library.repository";
+import { getDownloadDirectory } from "@/src/services/download-service";
+
+import type { Download } from "@/src/features/downloads/downloads.types";
+import type {
+	Library,
+	LibraryChannelUsage,
+	LibraryFile,
+	RetentionResult,
+	ScannedLibraryFile,
+} from "@/src/features/library/library.types";
+
+const VIDEO_EXTENSIONS = new Set([".ts", ".mp4", ".mkv", ".flv", ".webm"]);
+// Downloads nest one folder per channel; this leaves room for hand-made folders too
+const MAX_SCAN_DEPTH = 4;
+const MAINTENANCE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// The first scan waits until startup is done so it doesn't compete with the first requests
+const MAINTENANCE_STARTUP_DELAY_MS = 60 * 1000;
+
+// Downloads are named "..._vod-<id>.ts"; other tools tend to put the bare ID in the name
+const DOWNLOAD_VOD_ID_PATTERN = /vod-(\d+)/;
+const BARE_VOD_ID_PATTERN = /(?:^|\D)(\d{9,12})(?:\D|$)/;
+
+let maintenanceIntervalId: ReturnType<typeof setInterval> | null = null;
+
+export function getLibraryDirectory() {
+	const settings = getLauncherSettings();
+
+	if (settings instanceof Error) {
+		console.warn("[library] Failed to read launcher settings:", settings.message);
+	} else if (settings.libraryDirectory !== null) {
+		return resolve(settings.libraryDirectory);
+	}
+
+	return resolve(getDownloadDirectory());
+}
+
+function isMissingFileError(error: unknown) {
+	return error instanceof Error && "code" in error && error.code === "ENOENT";
+}
+
+async function findVideoFiles(directory: string, depth: number, results: Array<string>) {
+	const entries = await readdir(directory, { withFileTypes: true });
+
+	for (const entry of entries) {
+		const path = join(directory, entry.name);
+
+		if (entry.isDirectory()) {
+			if (depth < MAX_SCAN_DEPTH) {
+				await findVideoFiles(path, depth + 1, results);
+			}
+			continue;
+		}
+
+		if (entry.isFile() && VIDEO_EXTENSIONS.has(extname(entry.name).toLowerCase())) {
+			results.push(path);
+		}
+	}
+}
+
+function parseVodIdFromFileName(path: string) {
+	const fileName = basename(path, extname(path));
+	const match = DOWNLOAD_VOD_ID_PATTERN.exec(fileName) ?? BARE_VOD_ID_PATTERN.exec(fileName);
+
+	return match?.[1] ?? null;
+}
+
+// A copy is partial when it covers a range of the VOD or its download never finished
+function isPartialDownload(download: Download) {
+	return (
+		download.status !== "completed" ||
+		download.startOffsetSeconds !== null ||
+		download.endOffsetSeconds !== null
+	);
+}
+
+async function toScannedFile(
+	directory: string,
+	path: string,
+	downloadsByPath: Map<string, Download>,
+): Promise<ScannedLibraryFile | null> {
+	let stats;
+	try {
+		stats = await stat(path);
+	} catch {
+		// Deleted between listing the folder and reading it
+		return null;
+	}
+
+	// Files directly in the library folder have no channel folder
+	const relativePath = relative(directory, path);
+	const segments = relativePath.split(sep);
+	const channelName = segments.length > 1 ? (segments[0] ?? null) : null;
+	const download = downloadsByPath.get(path);
+
+	return {
+		path,
+		channelName,
+		vodId: download?.vodId ?? parseVodIdFromFileName(path),
+		sizeBytes: stats.size,
+		isPartial: download !== undefined && isPartialDownload(download),
+		modifiedAt: stats.mtime.toISOString(),
+	};
+}
+
+/**
+ * Rebuilds the library from the video files in the library folder. Files that came from
+ * a download take their VOD from it; anything else is matched by its file name.
+ */
+export async function scanLibrary() {
+	const directory = getLibraryDirectory();
+	const paths: Array<string> = [];
+
+	try {
+		await findVideoFiles(directory, 0, paths);
+	} catch (error) {
+		// Nothing has been downloaded yet, so the folder doesn't exist
+		if (!isMissingFileError(error)) {
+			console.error("[library] scanLibrary failed:", error);
+			return new Error(`Failed to scan ${directory}`);
+		}
+	}
+
+	const downloads = getDownloads();
+
+	if (downloads instanceof Error) {
+		return downloads;
+	}
+
+	const downloadsByPath = new Map<string, Download>();
+	for (const download of downloads) {
+		downloadsByPath.set(resolve(download.outputPath), download);
+	}
+
+	const files: Array<ScannedLibraryFile> = [];
+	for (const path of paths) {
+		const file = await toScannedFile(directory, path, downloadsByPath);
+		if (file !== null) {
+			files.push(file);
+		}
+	}
+
+	return replaceLibraryFiles(files, new Date().toISOString());
+}
+
+function getFreeBytes(directory: string) {
+	try {
+		const stats = statfsSync(directory);
+		return stats.bavail * stats.bsize;
+	} catch {
+		return null;
+	}
+}
+
+export function getLibrary(): Library | Error {
+	const files = getLibraryFiles();
+
+	if (files instanceof Error) {
+		return files;
+	}
+
+	const directory = getLibraryDirectory();
+	const channelsByName = new Map<string | null, LibraryChannelUsage>();
+	let totalBytes = 0;
+
+	for (const file of files) {
+		totalBytes += file.sizeBytes;
+
+		const channel = channelsByName.get(file.channelName) ?? {
+			channelName: file.channelName,
+			fileCount: 0,
+			totalBytes: 0,
+		};
+		channel.fileCount++;
+		channel.totalBytes += file.sizeBytes;
+		channelsByName.set(file.channelName, channel);
+	}
+
+	const channels = [...channelsByName.values()].toSorted(
+		(first, second) => second.totalBytes - first.totalBytes,
+	);
+
+	return {
+		files,
+		usage: {
+			directory,
+			fileCount: files.length,
+			totalBytes,
+			freeBytes: getFreeBytes(directory),
+			channels,
+		},
+	};
+}
+
+/**
+ * Returns the complete local copy of a VOD to play instead of streaming it.
+ * Copies deleted outside the app are dropped from the library here.
+ */
+export function getLocalVodCopy(vodId: string) {
+	const file = getFullCopyByVodId(vodId);
+
+	if (file === null || file instanceof Error) {
+		return file;
+	}
+
+	if (!existsSync(file.path)) {
+		deleteLibraryFile(file.id);
+		return null;
+	}
+
+	return file;
+}
+
+function removeFile(file: LibraryFile) {
+	try {
+		unlinkSync(file.path);
+	} catch (error) {
+		if (!isMissingFileError(error)) {
+			console.error(`[library] Failed to delete ${file.path}:`, error);
+			return new Error("Failed to delete file");
+		}
+	}
+
+	const result = deleteLibraryFile(file.id);
+	return result instanceof Error ? result : null;
+}
+
+/**
+ * Deletes a library file from disk. Returns null if the file is not in the library.
+ */
+export function deleteLibraryFileFromDisk(id: number) {
+	const file = getLibraryFileById(id);
+
+	if (file === null || file instanceof Error) {
+		return file;
+	}
+
+	const result = removeFile(file);
+	return result instanceof Error ? result : file;
+}
+
+/**
+ * Deletes local copies of VODs that were watched more than the configured number
+ * of days ago. Does nothing while retention is off.
+ *
+ * Only files the app downloaded itself are deleted. The library folder can be any
+ * folder, and a file matched to a VOD by its name alone may not be ours to remove.
+ */
+export function applyRetention(): RetentionResult | Error {
+	const settings = getLauncherSettings();
+
+	if (settings instanceof Error) {
+		return settings;
+	}
+
+	if (settings.retentionDays === null) {
+		return { deletedCount: 0, freedBytes: 0 };
+	}
+
+	const expiredFiles = getExpiredWatchedFiles(settings.retentionDays);
+
+	if (expiredFiles instanceof Error) {
+		return expiredFiles;
+	}
+
+	const downloads = getDownloads();
+
+	if (downloads instanceof Error) {
+		return downloads;
+	}
+
+	const downloadedPaths = new Set(downloads.map((download) => resolve(download.outputPath)));
+
+	let deletedCount = 0;
+	let freedBytes = 0;
+	for (const file of expiredFiles) {
+		if (!downloadedPaths.has(resolve(file.path))) {
+			continue;
+		}
+
+		if (removeFile(file) === null) {
+			deletedCount++;
+			freedBytes += file.sizeBytes;
+		}
+	}
+
+	if (deletedCount > 0) {
+		console.log(`[library] Retention deleted ${deletedCount} watched files`);
+	}
+
+	return { deletedCount, freedBytes };
+}
+
+async function runMaintenance() {
+	const scan = await scanLibrary();
+
+	if (scan instanceof Error) {
+		console.warn("[library] Scan failed:", scan.message);
+	} else {
+		console.log(
+			`[library] Scanned ${scan.fileCount} files (${scan.addedCount} new, ${scan.removedCount} gone)`,
+		);
+	}
+
+	const retention = applyRetention();
+
+	if (retention instanceof Error) {
+		console.warn("[library] Retention failed:", retention.message);
+	}
+}
+
+function runMaintenanceInBackground() {
+	runMaintenance().catch((error: unknown) => {
+		console.error("[library] Maintenance failed:", error);
+	});
+}
+
+/**
+ * Scans the library and applies retention shortly after startup and then every few
+ * hours, so files added or deleted outside the app show up without a manual scan.
+ */
+export function startLibraryMaintenance() {
+	if (maintenanceIntervalId !== null) {
+		return;
+	}
+
+	setTimeout(runMaintenanceInBackground, MAINTENANCE_STARTUP_DELAY_MS);
+	maintenanceIntervalId = setInterval(runMaintenanceInBackground, MAINTENANCE_INTERVAL_MS);
+}
@@ -0,0 +1,417 @@
+import { getAuth } from "@/src/features/auth/auth.repository";
+import { updateLiveStates } from "@/src/features/channels/followed-channels.repository";
+import {
+	endStreamSession,
+	recordStreamSamples,
+} from "@/src/features/stream-sessions/stream-sessions.repository";
+import { recordWentLiveFavorites } from "@/src/services/download-service";
+import { notifyWentLive } from "@/src/services/notification-service";
+import { getTrackedChannelList, getTrackedStreams } from "@/src/services/tracked-channels-service";
+import { getChannelInformation } from "@/src/services/twitch-service";
+import { refreshVideosForChannels } from "@/src/services/video-cache-service";
+
+import type { Stream } from "@/src/features/channels/channels.types";
+import type { EventSubLiveUpdate } from "@/src/features/eventsub/eventsub.types";
+import type { LiveEvent, ViewerCountUpdate } from "@/src/features/live-events/live-events.types";
+import type { TrackedChannelList, TrackedStreams } from "@/src/services/tracked-channels-service";
+import type { TwitchStream } from "@/src/services/twitch-service";
+
+const LIVE_POLL_INTERVAL_MS = 30 * 1000;
+// With EventSub pushing favorites, polling only needs to keep viewer counts and the rest fresh
+const PUSH_CONNECTED_POLL_INTERVAL_MS = 2 * 60 * 1000;
+const LIVE_THUMBNAIL_URL_TEMPLATE =
+	"https://static-cdn.jtvnw.net/previews-ttv/live_user_{login}-{width}x{height}.jpg";
+
+type LiveStateSnapshot = TrackedStreams & {
+	userId: string;
+	polledChannelIds: Set<string>;
+	polledAt: number;
+};
+
+type LiveEventListener = (event: LiveEvent) => void;
+
+let snapshot: LiveStateSnapshot | null = null;
+let inFlightPoll: Promise<LiveStateSnapshot | Error> | null = null;
+let pollTimeoutId: ReturnType<typeof setTimeout> | null = null;
+let isPushConnected = false;
+
+const listeners = new Set<LiveEventListener>();
+
+export function subscribeToLiveEvents(listener: LiveEventListener) {
+	listeners.add(listener);
+
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+function getPollIntervalMs() {
+	return isPushConnected ? PUSH_CONNECTED_POLL_INTERVAL_MS : LIVE_POLL_INTERVAL_MS;
+}
+
+function publish(event: LiveEvent) {
+	for (const listener of listeners) {
+		listener(event);
+	}
+}
+
+function transformStream(stream: TwitchStream): Stream {
+	return {
+		title: stream.title,
+		gameName: stream.gameName,
+		viewerCount: stream.viewerCount,
+		thumbnailUrl: stream.thumbnailUrl,
+		startedAt: stream.startedAt,
+	};
+}
+
+function publishChanges(
+	previousStreams: Map<string, TwitchStream>,
+	currentStreams: Map<string, TwitchStream>,
+	trackedList: TrackedChannelList,
+) {
+	const hiddenChannelIds = new Set<string>();
+	for (const channel of trackedList.channels) {
+		if (channel.rank === "hidden") {
+			hiddenChannelIds.add(channel.channelId);
+		}
+	}
+
+	const viewers: Array<ViewerCountUpdate> = [];
+
+	for (const [channelId, stream] of currentStreams) {
+		if (hiddenChannelIds.has(channelId)) {
+			continue;
+		}
+
+		const previous = previousStreams.get(channelId);
+
+		if (previous === undefined) {
+			publish({
+				type: "went-live",
+				channelId,
+				channelName: stream.userName,
+				stream: transformStream(stream),
+			});
+			continue;
+		}
+
+		if (previous.title !== stream.title) {
+			publish({ type: "title-changed", channelId, title: stream.title });
+		}
+
+		if (previous.gameName !== stream.gameName) {
+			publish({ type: "game-changed", channelId, gameName: stream.gameName });
+		}
+
+		if (previous.viewerCount !== stream.viewerCount) {
+			viewers.push({ channelId, viewerCount: stream.viewerCount });
+		}
+	}
+
+	for (const channelId of previousStreams.keys()) {
+		if (!currentStreams.has(channelId) && !hiddenChannelIds.has(channelId)) {
+			publish({ type: "went-offline", channelId });
+		}
+	}
+
+	if (viewers.length > 0) {
+		publish({ type: "viewers-updated", viewers });
+	}
+}
+
+function applyLiveStateChanges(followedLiveStreams: Array<TwitchStream>) {
+	const lastSeenAt = new Date().toISOString();
+	const updateResult = updateLiveStates(
+		followedLiveStreams.map((stream) => stream.userId),
+		lastSeenAt,
+	);
+
+	if (updateResult instanceof Error) {
+		console.warn("[live-state] Failed to update live states:", updateResult.message);
+		return;
+	}
+
+	if (updateResult.wentLive.length > 0) {
+		notifyWentLive(updateResult.wentLive, followedLiveStreams);
+		recordWentLiveFavorites(updateResult.wentLive, followedLiveStreams);
+	}
+
+	if (updateResult.wentOffline.length > 0) {
+		refreshVideosForChannels(updateResult.wentOffline).catch((error: unknown) => {
+			console.error("[live-state] Failed to refresh offline channels:", error);
+		});
+	}
+}
+
+function recordStreamSessions(liveStreamsByChannelId: Map<string, TwitchStream>) {
+	const samples = Array.from(liveStreamsByChannelId.values(), (stream) => ({
+		channelId: stream.userId,
+		channelName: stream.userName,
+		startedAt: stream.startedAt,
+		title: stream.title,
+		gameName: stream.gameName,
+		viewerCount: stream.viewerCount,
+	}));
+
+	const result = recordStreamSamples(samples, new Date().toISOString());
+
+	if (result instanceof Error) {
+		console.warn("[live-state] Failed to record stream sessions:", result.message);
+	}
+}
+
+async function pollLiveState(userId: string): Promise<LiveStateSnapshot | Error> {
+	const trackedList = getTrackedChannelList();
+
+	if (trackedList instanceof Error) {
+		return trackedList;
+	}
+
+	const streams = await getTrackedStreams(userId, trackedList);
+
+	if (streams instanceof Error) {
+		return streams;
+	}
+
+	const previous = snapshot;
+	const polledChannelIds = new Set<string>();
+	for (const channel of trackedList.channels) {
+		polledChannelIds.add(channel.channelId);
+	}
+
+	snapshot = { ...streams, userId, polledChannelIds, polledAt: Date.now() };
+
+	// The first poll (or a new login) has nothing to diff against
+	if (previous !== null && previous.userId === userId) {
+		publishChanges(
+			previous.liveStreamsByChannelId,
+			streams.liveStreamsByChannelId,
+			trackedList,
+		);
+	}
+
+	applyLiveStateChanges(streams.followedLiveStreams);
+	// Only polls sample viewer counts, so pushed updates don't skew the averages
+	recordStreamSessions(streams.liveStreamsByChannelId);
+
+	return snapshot;
+}
+
+// Concurrent callers share one Twitch round trip
+function requestPoll(userId: string) {
+	if (inFlightPoll !== null) {
+		return inFlightPoll;
+	}
+
+	inFlightPoll = pollLiveState(userId).finally(() => {
+		inFlightPoll = null;
+	});
+
+	return inFlightPoll;
+}
+
+function isSnapshotUsable(
+	current: LiveStateSnapshot | null,
+	userId: string,
+	trackedList: TrackedChannelList,
+): current is LiveStateSnapshot {
+	if (current === null || current.userId !== userId) {
+		return false;
+	}
+
+	// Past two intervals the poller has been failing, so requests fetch for themselves
+	if (Date.now() - current.polledAt > 2 * getPollIntervalMs()) {
+		return false;
+	}
+
+	// A channel followed or ranked since the last poll has no known live state yet
+	return trackedList.channels.every((channel) => current.polledChannelIds.has(channel.channelId));
+}
+
+/**
+ * Returns the tracked channels with the poller's latest live streams. Only polls Twitch
+ * when the poller hasn't covered the current channels recently.
+ */
+export async function getLiveState(userId: string) {
+	const trackedList = getTrackedChannelList();
+
+	if (trackedList instanceof Error) {
+		return trackedList;
+	}
+
+	let current = snapshot;
+
+	if (!isSnapshotUsable(current, userId, trackedList)) {
+		const polled = await requestPoll(userId);
+
+		if (polled instanceof Error) {
+			return polled;
+		}
+
+		current = polled;
+	}
+
+	return {
+		channels: trackedList.channels,
+		liveStreamsByChannelId: current.liveStreamsByChannelId,
+	};
+}
+
+async function runScheduledPoll() {
+	const auth = getAuth();
+
+	if (auth instanceof Error) {
+		console.warn("[live-state] Failed to read auth:", auth.message);
+		return;
+	}
+
+	// Nothing to poll until someone logs in
+	if (auth.accessToken === null || auth.userId === null) {
+		return;
+	}
+
+	const result = await requestPoll(auth.userId);
+
+	if (result instanceof Error) {
+		console.warn("[live-state] Poll failed:", result.message);
+	}
+}
+
+function scheduleNextPoll() {
+	if (pollTimeoutId !== null) {
+		clearTimeout(pollTimeoutId);
+	}
+
+	pollTimeoutId = setTimeout(() => {
+		pollTimeoutId = null;
+		runScheduledPoll()
+			.catch((error: unknown) => {
+				console.error("[live-state] Poll failed:", error);
+			})
+			.finally(scheduleNextPoll);
+	}, getPollIntervalMs());
+}
+
+export function startLiveStatePolling() {
+	runScheduledPoll()
+		.catch((error: unknown) => {
+			console.error("[live-state] Initial poll failed:", error);
+		})
+		.finally(scheduleNextPoll);
+
+	console.log("[live-state] Polling started");
+}
+
+/**
+ * Called by the EventSub client as its socket comes and goes. Losing the socket polls
+ * right away, since pushed changes may have been missed while it was down.
+ */
+export function setPushConnected(isConnected: boolean) {
+	if (isPushConnected === isConnected) {
+		return;
+	}
+
+	isPushConnected = isConnected;
+	console.log(
+		`[live-state] EventSub ${isConnected ? "connected, polling less often" : "down, polling every 30s"}`,
+	);
+
+	if (isConnected) {
+		scheduleNextPoll();
+		return;
+	}
+
+	runScheduledPoll()
+		.catch((error: unknown) => {
+			console.error("[live-state] Fallback poll failed:", error);
+		})
+		.finally(scheduleNextPoll);
+}
+
+async function createPushedStream(
+	update: Extract<EventSubLiveUpdate, { type: "online" }>,
+): Promise<TwitchStream> {
+	let title = "";
+	let gameName = "";
+
+	// stream.online carries no title or category, and Helix streams can lag behind the event
+	const information = await getChannelInformation([update.channelId]);
+	if (information instanceof Error) {
+		console.warn("[live-state] Failed to get channel information:", information.message);
+	} else if (information[0] !== undefined) {
+		title = information[0].title;
+		gameName = information[0].gameName;
+	}
+
+	return {
+		userId: update.channelId,
+		userLogin: update.channelLogin,
+		userName: update.channelName,
+		title,
+		gameName,
+		// The next poll fills in the real count
+		viewerCount: 0,
+		thumbnailUrl: LIVE_THUMBNAIL_URL_TEMPLATE.replace("{login}", update.channelLogin),
+		startedAt: update.startedAt,
+	};
+}
+
+/**
+ * Applies an EventSub change to the latest snapshot without waiting for the next poll,
+ * then publishes and stores it exactly like a poll would.
+ */
+export async function applyPushedLiveUpdate(update: EventSubLiveUpdate) {
+	if (snapshot === null) {
+		// Nothing to diff against yet; the first poll picks the change up
+		return;
+	}
+
+	const trackedList = getTrackedChannelList();
+
+	if (trackedList instanceof Error) {
+		console.warn("[live-state] Failed to apply pushed update:", trackedList.message);
+		return;
+	}
+
+	let pushedStream: TwitchStream | null = null;
+	if (update.type === "online" && !snapshot.liveStreamsByChannelId.has(update.channelId)) {
+		pushedStream = await createPushedStream(update);
+	}
+
+	// Re-read after the await in case a poll landed meanwhile
+	const current = snapshot;
+	const liveStreamsByChannelId = new Map(current.liveStreamsByChannelId);
+
+	if (pushedStream !== null && !liveStreamsByChannelId.has(update.channelId)) {
+		liveStreamsByChannelId.set(update.channelId, pushedStream);
+	} else if (update.type === "offline") {
+		liveStreamsByChannelId.delete(update.channelId);
+
+		const endResult = endStreamSession(update.channelId, new Date().toISOString());
+		if (endResult instanceof Error) {
+			console.warn("[live-state] Failed to end stream session:", endResult.message);
+		}
+	} else if (update.type === "update") {
+		const existing = liveStreamsByChannelId.get(update.channelId);
+		if (existing !== undefined) {
+			liveStreamsByChannelId.set(update.channelId, {
+				...existing,
+				title: update.title,
+				gameName: update.gameName,
+			});
+		}
+	}
+
+	const followedLiveStreams: Array<TwitchStream> = [];
+	for (const stream of liveStreamsByChannelId.values()) {
+		if (trackedList.followedChannelIds.has(stream.userId)) {
+			followedLiveStreams.push(stream);
+		}
+	}
+
+	snapshot = { ...current, liveStreamsByChannelId, followedLiveStreams };
+
+	publishChanges(current.liveStreamsByChannelId, liveStreamsByChannelId, trackedList);
+	applyLiveStateChanges(followedLiveStreams);
+}
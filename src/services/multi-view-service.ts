@@ -0,0 +1,85 @@
+import { launchLiveStream } from "@/src/services/streamlink-service";
+import { recordWatchSession } from "@/src/services/watch-history-service";
+
+import type {
+	LayoutPreset,
+	MultiViewLaunchFailure,
+	PlayerWindow,
+	ScreenSize,
+} from "@/src/features/multi-view/multi-view.types";
+import type { PlayerProfile } from "@/src/features/player-profiles/player-profiles.types";
+import type { PlayerSession } from "@/src/features/sessions/sessions.types";
+
+type MultiViewStream = {
+	channel: string;
+	quality: string;
+};
+
+type MultiViewOptions = {
+	profile: PlayerProfile | null;
+	preset: LayoutPreset;
+	screen: ScreenSize;
+};
+
+/**
+ * Converts the preset's percentage slots into pixel windows. Only the first
+ * window (the primary stream) keeps its audio.
+ */
+export function getLayoutWindows(preset: LayoutPreset, screen: ScreenSize, count: number) {
+	const windows: Array<PlayerWindow> = [];
+
+	for (let index = 0; index < count && index < preset.slots.length; index++) {
+		const slot = preset.slots[index];
+		if (slot === undefined) {
+			break;
+		}
+
+		windows.push({
+			x: Math.round((slot.x / 100) * screen.width),
+			y: Math.round((slot.y / 100) * screen.height),
+			width: Math.round((slot.width / 100) * screen.width),
+			height: Math.round((slot.height / 100) * screen.height),
+			muted: index > 0,
+		});
+	}
+
+	return windows;
+}
+
+/**
+ * Launches each stream in its own player window. Streams are started one after
+ * another so windows open in slot order, and one failure doesn't stop the rest.
+ */
+export async function launchMultiView(
+	streams: Array<MultiViewStream>,
+	{ profile, preset, screen }: MultiViewOptions,
+) {
+	const windows = getLayoutWindows(preset, screen, streams.length);
+	const sessions: Array<PlayerSession> = [];
+	const failures: Array<MultiViewLaunchFailure> = [];
+	let firstError: Error | null = null;
+
+	for (let index = 0; index < streams.length; index++) {
+		const stream = streams[index];
+		if (stream === undefined) {
+			break;
+		}
+
+		const result = await launchLiveStream(stream.channel, {
+			profile,
+			quality: stream.quality,
+			window: windows[index],
+		});
+
+		if (result instanceof Error) {
+			firstError ??= result;
+			failures.push({ channel: stream.channel, error: result.message });
+			continue;
+		}
+
+		recordWatchSession(result, stream.quality);
+		sessions.push(result);
+	}
+
+	return { sessions, failures, firstError };
+}
@@ -0,0 +1,153 @@
+import { getChannelRankMap } from "@/src/features/channel-ranks/channel-ranks.repository";
+import {
+	getNotificationRules,
+	insertNotification,
+} from "@/src/features/notifications/notifications.repository";
+import { DEFAULT_NOTIFICATION_RULE } from "@/src/features/notifications/notifications.validators";
+
+import type {
+	LiveNotification,
+	NotificationRuleSettings,
+} from "@/src/features/notifications/notifications.types";
+import type { TwitchStream } from "@/src/services/twitch-service";
+
+type WentLiveChannel = {
+	channelId: string;
+	channelName: string;
+	previousLastSeenAt: string | null;
+};
+
+type NotificationListener = (notification: LiveNotification) => void;
+
+const listeners = new Set<NotificationListener>();
+
+export function subscribeToNotifications(listener: NotificationListener) {
+	listeners.add(listener);
+
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+function getMinuteOfDay(date: Date) {
+	return date.getHours() * 60 + date.getMinutes();
+}
+
+// Quiet hours use the server's local time, which is the viewer's for this desktop app
+function isWithinQuietHours(rule: NotificationRuleSettings, now: Date) {
+	if (rule.quietStartMinute === null || rule.quietEndMinute === null) {
+		return false;
+	}
+
+	const minute = getMinuteOfDay(now);
+
+	if (rule.quietStartMinute <= rule.quietEndMinute) {
+		return minute >= rule.quietStartMinute && minute < rule.quietEndMinute;
+	}
+
+	// Wraps past midnight, e.g. 23:00-07:00
+	return minute >= rule.quietStartMinute || minute < rule.quietEndMinute;
+}
+
+function matchesGameFilter(rule: NotificationRuleSettings, gameName: string) {
+	if (rule.gameNames.length === 0) {
+		return true;
+	}
+
+	const normalizedGameName = gameName.toLowerCase();
+	return rule.gameNames.some((name) => name.toLowerCase() === normalizedGameName);
+}
+
+function hasBeenOfflineLongEnough(
+	rule: NotificationRuleSettings,
+	previousLastSeenAt: string,
+	now: Date,
+) {
+	const offlineMs = now.getTime() - new Date(previousLastSeenAt).getTime();
+	return offlineMs >= rule.minDowntimeMinutes * 60 * 1000;
+}
+
+function shouldNotify(
+	rule: NotificationRuleSettings,
+	channel: WentLiveChannel,
+	stream: TwitchStream,
+	now: Date,
+) {
+	if (!rule.isEnabled || !matchesGameFilter(rule, stream.gameName)) {
+		return false;
+	}
+
+	if (isWithinQuietHours(rule, now)) {
+		return false;
+	}
+
+	// Channels never seen before are recorded silently so the first sync doesn't notify for everything
+	if (channel.previousLastSeenAt === null) {
+		return false;
+	}
+
+	return hasBeenOfflineLongEnough(rule, channel.previousLastSeenAt, now);
+}
+
+/**
+ * Applies notification rules to channels that just went live. Channels with a stored rule
+ * use it; favorites without one use the defaults; everything else stays quiet.
+ */
+export function notifyWentLive(wentLive: Array<WentLiveChannel>, liveStreams: Array<TwitchStream>) {
+	const rules = getNotificationRules();
+	if (rules instanceof Error) {
+		console.warn("[notifications] Failed to load rules:", rules.message);
+		return;
+	}
+
+	const ranks = getChannelRankMap();
+	if (ranks instanceof Error) {
+		console.warn("[notifications] Failed to load channel ranks:", ranks.message);
+		return;
+	}
+
+	const rulesByChannelId = new Map<string, NotificationRuleSettings>();
+	for (const rule of rules) {
+		rulesByChannelId.set(rule.channelId, rule);
+	}
+
+	const streamsByChannelId = new Map<string, TwitchStream>();
+	for (const stream of liveStreams) {
+		streamsByChannelId.set(stream.userId, stream);
+	}
+
+	const now = new Date();
+
+	for (const channel of wentLive) {
+		const stream = streamsByChannelId.get(channel.channelId);
+		if (stream === undefined) {
+			continue;
+		}
+
+		let rule = rulesByChannelId.get(channel.channelId);
+		if (rule === undefined && ranks.get(channel.channelId)?.rank === "favorite") {
+			rule = DEFAULT_NOTIFICATION_RULE;
+		}
+
+		if (rule === undefined || !shouldNotify(rule, channel, stream, now)) {
+			continue;
+		}
+
+		const notification = insertNotification({
+			channelId: channel.channelId,
+			channelName: stream.userName,
+			title: stream.title,
+			gameName: stream.gameName,
+			streamStartedAt: stream.startedAt,
+		});
+
+		if (notification instanceof Error) {
+			console.warn("[notifications] Failed to save notification:", notification.message);
+			continue;
+		}
+
+		for (const listener of listeners) {
+			listener(notification);
+		}
+	}
+}
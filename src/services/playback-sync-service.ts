@@ -0,0 +1,264 @@
+import { randomBytes } from "crypto";
+import { unlink } from "fs";
+import { connect, createServer } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { savePlaybackProgress } from "@/src/features/vods/vods.repository";
+import { onPlayerSessionExit } from "@/src/services/player-session-service";
+import { isRecord } from "@/src/shared/utils/validation";
+
+import type { PlayerType } from "@/src/features/player-profiles/player-profiles.types";
+
+const SYNC_INTERVAL_MS = 15_000;
+const PLAYER_REQUEST_TIMEOUT_MS = 2_000;
+
+export type PlaybackPoller = {
+	// Extra player arguments that enable the remote-control interface
+	playerArgs: Array<string>;
+	// Current position in seconds, or null if the player isn't reporting one yet
+	readPosition: () => Promise<number | null>;
+	dispose: () => void;
+};
+
+type PlaybackSyncOptions = {
+	sessionId: string;
+	vodId: string;
+	poller: PlaybackPoller;
+	// Added to the player's position when Streamlink already skipped ahead (--hls-start-offset)
+	positionOffsetSeconds: number;
+};
+
+function findFreePort() {
+	return new Promise<number | Error>((promiseResolve) => {
+		const server = createServer();
+
+		server.once("error", (error) => {
+			promiseResolve(new Error(`Failed to find a free port: ${error.message}`));
+		});
+		server.listen(0, "127.0.0.1", () => {
+			const address = server.address();
+			const port = typeof address === "object" && address !== null ? address.port : null;
+
+			server.close(() => {
+				if (port === null) {
+					promiseResolve(new Error("Failed to find a free port"));
+					return;
+				}
+				promiseResolve(port);
+			});
+		});
+	});
+}
+
+async function readVlcPosition(port: number, password: string) {
+	try {
+		const response = await fetch(`http://127.0.0.1:${port}/requests/status.json`, {
+			headers: {
+				Authorization: `Basic ${Buffer.from(`:${password}`).toString("base64")}`,
+			},
+			signal: AbortSignal.timeout(PLAYER_REQUEST_TIMEOUT_MS),
+		});
+
+		if (!response.ok) {
+			return null;
+		}
+
+		const data: unknown = await response.json();
+
+		if (!isRecord(data) || typeof data.time !== "number") {
+			return null;
+		}
+
+		return data.time;
+	} catch {
+		// The interface isn't up yet, or the player is closing
+		return null;
+	}
+}
+
+async function createVlcPoller(): Promise<PlaybackPoller | Error> {
+	const port = await findFreePort();
+
+	if (port instanceof Error) {
+		return port;
+	}
+
+	const password = randomBytes(16).toString("hex");
+
+	return {
+		playerArgs: [
+			"--extraintf",
+			"http",
+			"--http-host",
+			"127.0.0.1",
+			"--http-port",
+			port.toString(),
+			"--http-password",
+			password,
+		],
+		readPosition: () => readVlcPosition(port, password),
+		dispose: () => {},
+	};
+}
+
+function readMpvPosition(socketPath: string) {
+	return new Promise<number | null>((promiseResolve) => {
+		const socket = connect(socketPath);
+		let buffer = "";
+
+		function finish(position: number | null) {
+			socket.destroy();
+			promiseResolve(position);
+		}
+
+		socket.setTimeout(PLAYER_REQUEST_TIMEOUT_MS, () => finish(null));
+		socket.once("error", () => finish(null));
+		socket.once("connect", () => {
+			socket.write(
+				`${JSON.stringify({ command: ["get_property", "time-pos"], request_id: 1 })}\n`,
+			);
+		});
+		socket.on("data", (chunk) => {
+			buffer += chunk.toString();
+
+			// mpv also pushes unrelated event lines; wait for the reply to our request
+			for (const line of buffer.split("\n")) {
+				if (line.trim() === "") {
+					continue;
+				}
+
+				let message: unknown;
+				try {
+					message = JSON.parse(line);
+				} catch {
+					continue;
+				}
+
+				if (isRecord(message) && message.request_id === 1) {
+					finish(typeof message.data === "number" ? message.data : null);
+					return;
+				}
+			}
+		});
+	});
+}
+
+function createMpvPoller(): PlaybackPoller {
+	const socketName = `draks-tv-mpv-${randomBytes(8).toString("hex")}`;
+	const socketPath =
+		process.platform === "win32"
+			? `\\\\.\\pipe\\${socketName}`
+			: join(tmpdir(), `${socketName}.sock`);
+
+	return {
+		playerArgs: [`--input-ipc-server=${socketPath}`],
+		readPosition: () => readMpvPosition(socketPath),
+		dispose: () => {
+			if (process.platform !== "win32") {
+				// mpv normally removes its socket, this only cleans up after crashes
+				unlink(socketPath, () => {});
+			}
+		},
+	};
+}
+
+/**
+ * Prepares a remote-control channel for players that expose their playback position.
+ * Returns null for player types that can't be polled.
+ */
+export async function createPlaybackPoller(playerType: PlayerType) {
+	if (playerType === "vlc") {
+		return createVlcPoller();
+	}
+
+	if (playerType === "mpv") {
+		return createMpvPoller();
+	}
+
+	return null;
+}
+
+/**
+ * Polls the player while the session runs and saves the last known position
+ * once more when the player exits. VODs that aren't cached have nowhere to save
+ * to, so syncing stops after the first attempt for those.
+ */
+export function startPlaybackSync({
+	sessionId,
+	vodId,
+	poller,
+	positionOffsetSeconds,
+}: PlaybackSyncOptions) {
+	let lastSavedPosition: number | null = null;
+	let lastKnownPosition: number | null = null;
+	let isSyncing = true;
+
+	function stopSync() {
+		if (!isSyncing) {
+			return;
+		}
+
+		isSyncing = false;
+		clearInterval(intervalId);
+		poller.dispose();
+	}
+
+	function savePosition(positionSeconds: number) {
+		if (positionSeconds === lastSavedPosition) {
+			return;
+		}
+
+		const result = savePlaybackProgress({ vodId, positionSeconds });
+
+		if (result instanceof Error) {
+			console.warn(
+				`[playback-sync] Failed to save progress for VOD ${vodId}: ${result.message}`,
+			);
+			return;
+		}
+
+		if (!result) {
+			console.warn(`[playback-sync] VOD ${vodId} is not cached, stopping progress sync`);
+			stopSync();
+			return;
+		}
+
+		lastSavedPosition = positionSeconds;
+	}
+
+	async function poll() {
+		const position = await poller.readPosition();
+
+		// The sync may have stopped while the player was answering
+		if (position === null || !isSyncing) {
+			return;
+		}
+
+		lastKnownPosition = positionOffsetSeconds + Math.floor(position);
+		savePosition(lastKnownPosition);
+	}
+
+	const intervalId = setInterval(() => {
+		poll().catch((error: unknown) => {
+			console.warn("[playback-sync] Poll failed:", error);
+		});
+	}, SYNC_INTERVAL_MS);
+
+	const isTracked = onPlayerSessionExit(sessionId, () => {
+		if (!isSyncing) {
+			return;
+		}
+
+		stopSync();
+
+		// The player is gone by now, so the final save uses the last successful poll
+		if (lastKnownPosition !== null && lastKnownPosition > 0) {
+			savePosition(lastKnownPosition);
+		}
+	});
+
+	if (!isTracked) {
+		stopSync();
+	}
+}
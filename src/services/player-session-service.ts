@@ -0,0 +1,181 @@
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+
+import type { PlayerSession, PlayerSessionTarget } from "@/src/features/sessions/sessions.types";
+import type { ChildProcess } from "child_process";
+
+type SessionEntry = {
+	session: PlayerSession;
+	child: ChildProcess;
+	exitListeners: Array<(session: PlayerSession) => void>;
+};
+
+// Exited sessions are kept briefly so the UI can show how a player ended
+const MAX_FINISHED_SESSIONS = 20;
+
+const sessions = new Map<string, SessionEntry>();
+
+function pruneFinishedSessions() {
+	const finishedIds: Array<string> = [];
+	for (const [id, entry] of sessions) {
+		if (entry.session.status !== "running") {
+			finishedIds.push(id);
+		}
+	}
+
+	// Map preserves insertion order, so the oldest sessions come first
+	const excess = finishedIds.length - MAX_FINISHED_SESSIONS;
+	for (let index = 0; index < excess; index++) {
+		const id = finishedIds[index];
+		if (id !== undefined) {
+			sessions.delete(id);
+		}
+	}
+}
+
+function markSessionFinished(entry: SessionEntry, exitCode: number | null) {
+	if (entry.session.status !== "running") {
+		return;
+	}
+
+	entry.session.status = exitCode === 0 || exitCode === null ? "exited" : "failed";
+	entry.session.exitCode = exitCode;
+	entry.session.exitedAt = new Date().toISOString();
+
+	console.log(
+		`[player-session] ${entry.session.kind} session ${entry.session.id} exited with code ${exitCode ?? "none"}`,
+	);
+
+	for (const listener of entry.exitListeners) {
+		listener({ ...entry.session });
+	}
+	entry.exitListeners = [];
+
+	pruneFinishedSessions();
+}
+
+/**
+ * Spawns a detached process and registers it as a session. The child is unref'd so the
+ * server never waits on it, but the handle is kept to record its exit and allow stopping it.
+ */
+export function spawnTrackedProcess(
+	command: string,
+	args: Array<string>,
+	target: PlayerSessionTarget,
+	errorPrefix: string,
+) {
+	return new Promise<PlayerSession | Error>((promiseResolve) => {
+		try {
+			const child = spawn(command, args, {
+				detached: true,
+				stdio: "ignore",
+				windowsHide: true,
+			});
+
+			child.once("error", (error: Error) => {
+				promiseResolve(new Error(`${errorPrefix}: ${error.message}`));
+			});
+			child.once("spawn", () => {
+				child.unref();
+
+				const session: PlayerSession = {
+					...target,
+					id: randomUUID(),
+					pid: child.pid ?? null,
+					status: "running",
+					startedAt: new Date().toISOString(),
+					exitedAt: null,
+					exitCode: null,
+				};
+				const entry: SessionEntry = { session, child, exitListeners: [] };
+
+				sessions.set(session.id, entry);
+				child.once("exit", (code) => markSessionFinished(entry, code));
+
+				promiseResolve({ ...session });
+			});
+		} catch (error) {
+			if (error instanceof Error) {
+				promiseResolve(new Error(`${errorPrefix}: ${error.message}`));
+				return;
+			}
+			promiseResolve(new Error(`${errorPrefix}: unknown error`));
+		}
+	});
+}
+
+export function getPlayerSessions() {
+	const result: Array<PlayerSession> = [];
+	for (const entry of sessions.values()) {
+		result.push({ ...entry.session });
+	}
+	return result;
+}
+
+export function getPlayerSession(sessionId: string) {
+	const entry = sessions.get(sessionId);
+
+	if (entry === undefined) {
+		return null;
+	}
+
+	return { ...entry.session };
+}
+
+/**
+ * Registers a callback for when a running session's process exits.
+ * Returns false if the session is unknown or has already finished.
+ */
+export function onPlayerSessionExit(sessionId: string, listener: (session: PlayerSession) => void) {
+	const entry = sessions.get(sessionId);
+
+	if (entry === undefined || entry.session.status !== "running") {
+		return false;
+	}
+
+	entry.exitListeners.push(listener);
+	return true;
+}
+
+export function killProcessTree(pid: number) {
+	if (process.platform === "win32") {
+		// taskkill /T also stops the player Streamlink spawned
+		spawn("taskkill", ["/pid", pid.toString(), "/T", "/F"], {
+			stdio: "ignore",
+			windowsHide: true,
+		});
+		return;
+	}
+
+	// Detached children lead their own process group; a negative pid signals the whole group
+	try {
+		process.kill(-pid, "SIGTERM");
+	} catch {
+		process.kill(pid, "SIGTERM");
+	}
+}
+
+/**
+ * Stops a running session along with any player it spawned.
+ * Returns null if the session does not exist.
+ */
+export function stopPlayerSession(sessionId: string) {
+	const entry = sessions.get(sessionId);
+
+	if (entry === undefined) {
+		return null;
+	}
+
+	if (entry.session.status !== "running" || entry.session.pid === null) {
+		return { ...entry.session };
+	}
+
+	try {
+		killProcessTree(entry.session.pid);
+	} catch (error) {
+		console.error("[player-session] stopPlayerSession failed:", error);
+		return new Error("Failed to stop player session");
+	}
+
+	return { ...entry.session };
+}
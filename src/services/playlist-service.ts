@@ -0,0 +1,57 @@
+import { addPlaylistItem } from "@/src/features/playlists/playlists.repository";
+import { getCachedVodSummary } from "@/src/features/vods/vods.repository";
+import { getVideoById, VideoNotFoundError } from "@/src/services/twitch-service";
+import { parseDurationToSeconds } from "@/src/shared/utils/format";
+
+import type { NewPlaylistItem } from "@/src/features/playlists/playlists.types";
+
+async function resolvePlaylistItem(vodId: string): Promise<NewPlaylistItem | Error> {
+	const cached = getCachedVodSummary(vodId);
+
+	if (cached instanceof Error) {
+		return cached;
+	}
+
+	if (cached !== null) {
+		return {
+			vodId,
+			channelName: cached.channelName,
+			title: cached.title,
+			durationSeconds: cached.durationSeconds,
+			thumbnailUrl: cached.thumbnailUrl,
+			videoType: cached.videoType,
+			vodCreatedAt: cached.createdAt,
+		};
+	}
+
+	// VODs from channels we don't follow aren't cached
+	const video = await getVideoById(vodId);
+
+	if (video instanceof Error) {
+		return video;
+	}
+
+	if (video === null) {
+		return new VideoNotFoundError(vodId);
+	}
+
+	return {
+		vodId,
+		channelName: video.userName,
+		title: video.title,
+		durationSeconds: parseDurationToSeconds(video.duration) ?? 0,
+		thumbnailUrl: video.thumbnailUrl,
+		videoType: video.type,
+		vodCreatedAt: video.createdAt,
+	};
+}
+
+export async function addVodToPlaylist(playlistId: number, vodId: string) {
+	const item = await resolvePlaylistItem(vodId);
+
+	if (item instanceof Error) {
+		return item;
+	}
+
+	return addPlaylistItem(playlistId, item);
+}
@@ -0,0 +1,93 @@
+import {
+	pruneScheduleSegments,
+	replaceChannelSchedule,
+} from "@/src/features/schedule/schedule.repository";
+import { getChannelSchedule } from "@/src/services/twitch-service";
+import { formatICalendar, getDefaultEventEnd } from "@/src/shared/utils/icalendar";
+import { TWITCH_WEB_BASE_URL } from "@/src/shared/utils/twitch-urls";
+
+import type { ScheduleSegment } from "@/src/features/schedule/schedule.types";
+import type { CalendarEvent } from "@/src/shared/utils/icalendar";
+
+const BATCH_SIZE = 3;
+const BATCH_DELAY_MS = 500;
+
+// Twitch timestamps drop milliseconds; normalizing keeps string comparisons in SQL exact
+function normalizeTimestamp(value: string) {
+	return new Date(value).toISOString();
+}
+
+async function refreshScheduleForChannel(channelId: string) {
+	const schedule = await getChannelSchedule(channelId);
+
+	if (schedule instanceof Error) {
+		return schedule;
+	}
+
+	const segments: Array<ScheduleSegment> = schedule.segments.map((segment) => ({
+		id: segment.id,
+		channelId,
+		channelName: schedule.broadcasterName,
+		title: segment.title,
+		categoryName: segment.categoryName,
+		startTime: normalizeTimestamp(segment.startTime),
+		endTime: segment.endTime === null ? null : normalizeTimestamp(segment.endTime),
+		isRecurring: segment.isRecurring,
+	}));
+
+	return replaceChannelSchedule(channelId, segments, new Date().toISOString());
+}
+
+/**
+ * Re-imports the Twitch schedules of the given channels and drops cached segments
+ * for channels no longer in the list.
+ */
+export async function refreshSchedulesForChannels(channelIds: Array<string>) {
+	const pruneResult = pruneScheduleSegments(channelIds);
+	if (pruneResult instanceof Error) {
+		console.warn("[schedule] Failed to prune schedules:", pruneResult.message);
+	}
+
+	for (let batchStart = 0; batchStart < channelIds.length; batchStart += BATCH_SIZE) {
+		const batch = channelIds.slice(batchStart, batchStart + BATCH_SIZE);
+
+		const results = await Promise.all(
+			batch.map((channelId) => refreshScheduleForChannel(channelId)),
+		);
+
+		for (const [index, result] of results.entries()) {
+			if (result instanceof Error) {
+				console.warn(
+					`[schedule] Failed to refresh schedule for ${batch[index]}:`,
+					result.message,
+				);
+			}
+		}
+
+		if (batchStart + BATCH_SIZE < channelIds.length) {
+			await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+		}
+	}
+}
+
+function toCalendarEvent(segment: ScheduleSegment): CalendarEvent {
+	const channelUrl = `${TWITCH_WEB_BASE_URL}/${segment.channelName.toLowerCase()}`;
+	const descriptionLines = [segment.title];
+	if (segment.categoryName !== null) {
+		descriptionLines.push(`Category: ${segment.categoryName}`);
+	}
+	descriptionLines.push(channelUrl);
+
+	return {
+		uid: `${segment.id}@draks-tv`,
+		start: segment.startTime,
+		end: segment.endTime ?? getDefaultEventEnd(segment.startTime),
+		summary: `${segment.channelName}: ${segment.title || "Stream"}`,
+		description: descriptionLines.join("\n"),
+		url: channelUrl,
+	};
+}
+
+export function formatScheduleCalendar(segments: Array<ScheduleSegment>) {
+	return formatICalendar("Twitch favorites", segments.map(toCalendarEvent));
+}
@@ -0,0 +1,55 @@
+import { getStreamSessions } from "@/src/features/stream-sessions/stream-sessions.repository";
+
+import type {
+	StreamHeatmap,
+	StreamHeatmapGrid,
+	StreamSession,
+} from "@/src/features/stream-sessions/stream-sessions.types";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_WEEK = 7;
+const HOURS_PER_DAY = 24;
+
+/**
+ * Buckets sessions by weekday and hour in server-local time, which is the viewer's
+ * time since the app runs on their machine. Each cell counts the distinct days the
+ * channel was live at some point in that hour.
+ */
+function buildStreamHeatmapGrid(sessions: Array<StreamSession>): StreamHeatmapGrid {
+	const heatmap = Array.from({ length: DAYS_PER_WEEK }, () =>
+		Array.from({ length: HOURS_PER_DAY }, () => 0),
+	);
+	const countedHours = new Set<string>();
+
+	for (const session of sessions) {
+		const endMs = new Date(session.endedAt ?? session.lastSeenAt).getTime();
+		const cursor = new Date(session.startedAt);
+		cursor.setMinutes(0, 0, 0);
+
+		while (cursor.getTime() < endMs) {
+			const hourKey = `${cursor.toDateString()}:${cursor.getHours()}`;
+
+			const row = heatmap[cursor.getDay()];
+
+			if (row !== undefined && !countedHours.has(hourKey)) {
+				countedHours.add(hourKey);
+				row[cursor.getHours()] = (row[cursor.getHours()] ?? 0) + 1;
+			}
+
+			cursor.setHours(cursor.getHours() + 1);
+		}
+	}
+
+	return heatmap;
+}
+
+export function getStreamHeatmap(channelId: string, days: number): StreamHeatmap | Error {
+	const since = new Date(Date.now() - days * MS_PER_DAY).toISOString();
+	const sessions = getStreamSessions(channelId, since);
+
+	if (sessions instanceof Error) {
+		return sessions;
+	}
+
+	return { days, sessions, heatmap: buildStreamHeatmapGrid(sessions) };
+}
@@ -1,86 +1,337 @@
-import { spawn } from "child_process";
-import { homedir } from "os";
-import { resolve } from "path";
-
-const STREAMLINK_PATH = resolve(
-	homedir(),
-	"AppData",
-	"Local",
-	"Programs",
-	"Streamlink",
-	"bin",
-	"streamlink.exe",
-);
-
-function launchStream(url: string) {
-	return new Promise<void | Error>((promiseResolve) => {
-		try {
-			const child = spawn(STREAMLINK_PATH, [url, "best"], {
-				detached: true,
-				stdio: "ignore",
-				windowsHide: true,
-			});
-
-			child.once("error", (error) => {
-				promiseResolve(new Error(error.message));
-			});
-			child.once("spawn", () => {
-				child.unref();
-				promiseResolve();
-			});
-		} catch (error) {
-			if (error instanceof Error) {
-				promiseResolve(new Error(error.message));
-				return;
-			}
-			promiseResolve(new Error("Failed to launch stream: unknown error"));
+import { resolveExecutable } from "@/src/services/launcher-config-service";
+import { createPlaybackPoller, startPlaybackSync } from "@/src/services/playback-sync-service";
+import { spawnTrackedProcess } from "@/src/services/player-session-service";
+
+import type {
+	PlayerProfile,
+	PlayerType,
+} from "@/src/features/player-profiles/player-profiles.types";
+import type { PlayerWindow } from "@/src/features/multi-view/multi-view.types";
+import type { PlayerSessionTarget } from "@/src/features/sessions/sessions.types";
+
+type StreamKind = "live" | "vod" | "clip";
+
+type LaunchOptions = {
+	profile: PlayerProfile | null;
+	quality: string;
+};
+
+type LiveLaunchOptions = LaunchOptions & {
+	window?: PlayerWindow | undefined;
+};
+
+type VodLaunchOptions = LaunchOptions & {
+	startTimeSeconds?: number | undefined;
+	channelName: string | null;
+	title: string | null;
+};
+
+type LocalVodLaunchOptions = {
+	profile: PlayerProfile | null;
+	startTimeSeconds?: number | undefined;
+	channelName: string | null;
+	title: string | null;
+};
+
+type ClipLaunchOptions = LaunchOptions & {
+	channelName: string | null;
+	title: string | null;
+};
+
+// Streamlink falls back to VLC when no player is configured, so local files do the same
+const DEFAULT_PLAYER_COMMANDS: Record<PlayerType, string | null> = {
+	vlc: "vlc",
+	mpv: "mpv",
+	generic: null,
+};
+
+/**
+ * Combines the profile's argument template with arguments the app needs to add.
+ * Streamlink appends the stream itself when the template has no {playerinput}.
+ */
+function getPlayerArgsTemplate(profile: PlayerProfile, extraPlayerArgs: Array<string>) {
+	if (extraPlayerArgs.length === 0) {
+		return profile.playerArgs;
+	}
+
+	return [...extraPlayerArgs, profile.playerArgs ?? "{playerinput}"].join(" ");
+}
+
+/**
+ * Translates a player profile into Streamlink options. Without a profile, Streamlink
+ * picks its own default player and VODs keep HLS passthrough for seeking support.
+ */
+function getPlayerArguments(
+	profile: PlayerProfile | null,
+	kind: StreamKind,
+	extraPlayerArgs: Array<string> = [],
+) {
+	const args: Array<string> = [];
+
+	if (profile === null) {
+		if (kind === "vod") {
+			args.push("--player-passthrough", "hls");
 		}
-	});
+		return args;
+	}
+
+	if (profile.playerPath !== null) {
+		args.push("--player", profile.playerPath);
+	}
+
+	const playerArgs = getPlayerArgsTemplate(profile, extraPlayerArgs);
+	if (playerArgs !== null) {
+		args.push("--player-args", playerArgs);
+	}
+
+	if (profile.windowTitle !== null) {
+		args.push("--title", profile.windowTitle);
+	}
+
+	// Passthrough hands the HLS URL directly to the player, which enables proper
+	// seeking and duration display for VODs
+	if (kind === "vod" && profile.vodPassthrough !== "none") {
+		args.push("--player-passthrough", profile.vodPassthrough);
+	}
+
+	return args;
+}
+
+// With passthrough the player fetches the playlist itself, so it has to do the seeking
+function getPlayerStartArgument(playerType: PlayerType | null, startTimeSeconds: number) {
+	if (playerType === "vlc") {
+		return `--start-time=${startTimeSeconds}`;
+	}
+
+	if (playerType === "mpv") {
+		return `--start=${startTimeSeconds}`;
+	}
+
+	return null;
+}
+
+// Only VLC and mpv have known flags for window placement and starting muted
+function getPlayerWindowArguments(playerType: PlayerType, window: PlayerWindow) {
+	if (playerType === "vlc") {
+		// Position flags only apply when the video isn't embedded in the main interface
+		const args = [
+			"--no-embedded-video",
+			`--video-x=${window.x}`,
+			`--video-y=${window.y}`,
+			`--width=${window.width}`,
+			`--height=${window.height}`,
+		];
+		// Volume 0 rather than --no-audio, which drops the audio track and can't be unmuted
+		if (window.muted) {
+			args.push("--volume=0");
+		}
+		return args;
+	}
+
+	if (playerType === "mpv") {
+		const args = [`--geometry=${window.width}x${window.height}+${window.x}+${window.y}`];
+		if (window.muted) {
+			args.push("--mute=yes");
+		}
+		return args;
+	}
+
+	return [];
+}
+
+// Splits a --player-args template the way a shell would, minus escapes and expansion
+function splitPlayerArgs(template: string) {
+	const args: Array<string> = [];
+	for (const match of template.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+		args.push(match[1] ?? match[2] ?? match[3] ?? "");
+	}
+	return args;
 }
 
-export function launchLiveStream(channel: string) {
+function launchStreamlink(args: Array<string>, target: PlayerSessionTarget) {
+	const executable = resolveExecutable("streamlink");
+
+	if (executable instanceof Error) {
+		return Promise.resolve(executable);
+	}
+
+	return spawnTrackedProcess(executable.path, args, target, "Failed to launch stream");
+}
+
+export function launchLiveStream(channel: string, { profile, quality, window }: LiveLaunchOptions) {
 	const sanitizedChannel = channel.replace(/[^a-zA-Z0-9_]/g, "");
-	return launchStream(`twitch.tv/${sanitizedChannel}`);
+	const windowArgs =
+		profile !== null && window !== undefined
+			? getPlayerWindowArguments(profile.playerType, window)
+			: [];
+	const args = [
+		`twitch.tv/${sanitizedChannel}`,
+		quality,
+		...getPlayerArguments(profile, "live", windowArgs),
+	];
+
+	return launchStreamlink(args, {
+		kind: "live",
+		channelName: sanitizedChannel,
+		vodId: null,
+		title: null,
+	});
 }
 
-export function launchVod(vodId: string, startTimeSeconds?: number) {
+export async function launchVod(
+	vodId: string,
+	{ profile, quality, startTimeSeconds, channelName, title }: VodLaunchOptions,
+) {
 	const sanitizedId = vodId.replace(/[^0-9]/g, "");
 
 	if (!sanitizedId) {
-		return Promise.resolve(new Error("Invalid VOD ID"));
+		return new Error("Invalid VOD ID");
 	}
 
-	const url = `twitch.tv/videos/${sanitizedId}`;
-
-	// Use --player-passthrough hls to pass the HLS stream directly to VLC
-	// This enables proper seeking and duration display for VODs
-	const args = [url, "best", "--player-passthrough", "hls"];
+	const playerType = profile?.playerType ?? null;
+	const isPassthrough = profile === null || profile.vodPassthrough !== "none";
+	const extraPlayerArgs: Array<string> = [];
+	const streamlinkArgs: Array<string> = [];
+	let positionOffsetSeconds = 0;
 
 	if (startTimeSeconds !== undefined && startTimeSeconds > 0) {
-		args.push("--hls-start-offset", startTimeSeconds.toString());
-	}
-
-	return new Promise<void | Error>((promiseResolve) => {
-		try {
-			const child = spawn(STREAMLINK_PATH, args, {
-				detached: true,
-				stdio: "ignore",
-				windowsHide: true,
-			});
-
-			child.once("error", (error) => {
-				promiseResolve(new Error(error.message));
-			});
-			child.once("spawn", () => {
-				child.unref();
-				promiseResolve();
-			});
-		} catch (error) {
-			if (error instanceof Error) {
-				promiseResolve(new Error(error.message));
-				return;
-			}
-			promiseResolve(new Error("Failed to launch stream: unknown error"));
+		const playerStartArgument = isPassthrough
+			? getPlayerStartArgument(playerType, startTimeSeconds)
+			: null;
+
+		if (playerStartArgument !== null) {
+			extraPlayerArgs.push(playerStartArgument);
+		} else {
+			streamlinkArgs.push("--hls-start-offset", startTimeSeconds.toString());
 		}
+
+		// Without passthrough the player only sees the stream from the offset onward
+		if (!isPassthrough) {
+			positionOffsetSeconds = startTimeSeconds;
+		}
+	}
+
+	let poller = playerType !== null ? await createPlaybackPoller(playerType) : null;
+
+	if (poller instanceof Error) {
+		console.warn(`[streamlink] Playback sync disabled: ${poller.message}`);
+		poller = null;
+	}
+
+	if (poller !== null) {
+		extraPlayerArgs.push(...poller.playerArgs);
+	}
+
+	const args = [
+		`twitch.tv/videos/${sanitizedId}`,
+		quality,
+		...getPlayerArguments(profile, "vod", extraPlayerArgs),
+		...streamlinkArgs,
+	];
+
+	const session = await launchStreamlink(args, {
+		kind: "vod",
+		channelName,
+		vodId: sanitizedId,
+		title,
 	});
+
+	if (session instanceof Error) {
+		poller?.dispose();
+		return session;
+	}
+
+	if (poller !== null) {
+		startPlaybackSync({
+			sessionId: session.id,
+			vodId: sanitizedId,
+			poller,
+			positionOffsetSeconds,
+		});
+	}
+
+	return session;
+}
+
+/**
+ * Plays a downloaded copy of a VOD directly in the player, without Streamlink.
+ * Playback progress is synced the same way as when streaming the VOD.
+ */
+export async function launchLocalVod(
+	vodId: string,
+	filePath: string,
+	{ profile, startTimeSeconds, channelName, title }: LocalVodLaunchOptions,
+) {
+	const playerType = profile?.playerType ?? "vlc";
+	const playerCommand = profile?.playerPath ?? DEFAULT_PLAYER_COMMANDS[playerType];
+
+	if (playerCommand === null) {
+		return new Error("The player profile needs a player path to play local files");
+	}
+
+	const args: Array<string> = [];
+
+	if (startTimeSeconds !== undefined && startTimeSeconds > 0) {
+		const playerStartArgument = getPlayerStartArgument(playerType, startTimeSeconds);
+		if (playerStartArgument !== null) {
+			args.push(playerStartArgument);
+		}
+	}
+
+	let poller = await createPlaybackPoller(playerType);
+
+	if (poller instanceof Error) {
+		console.warn(`[streamlink] Playback sync disabled: ${poller.message}`);
+		poller = null;
+	}
+
+	if (poller !== null) {
+		args.push(...poller.playerArgs);
+	}
+
+	// The profile's template places the file through {playerinput}, like it does the stream
+	const template = profile?.playerArgs ?? "{playerinput}";
+	for (const arg of splitPlayerArgs(template)) {
+		args.push(arg.replaceAll("{playerinput}", filePath));
+	}
+	if (!template.includes("{playerinput}")) {
+		args.push(filePath);
+	}
+
+	const session = await spawnTrackedProcess(
+		playerCommand,
+		args,
+		{ kind: "vod", channelName, vodId, title },
+		"Failed to launch player",
+	);
+
+	if (session instanceof Error) {
+		poller?.dispose();
+		return session;
+	}
+
+	if (poller !== null) {
+		startPlaybackSync({ sessionId: session.id, vodId, poller, positionOffsetSeconds: 0 });
+	}
+
+	return session;
+}
+
+export function launchClip(
+	clipId: string,
+	{ profile, quality, channelName, title }: ClipLaunchOptions,
+) {
+	const sanitizedId = clipId.replace(/[^a-zA-Z0-9_-]/g, "");
+
+	if (!sanitizedId) {
+		return Promise.resolve(new Error("Invalid clip ID"));
+	}
+
+	const args = [
+		`https://clips.twitch.tv/${sanitizedId}`,
+		quality,
+		...getPlayerArguments(profile, "clip"),
+	];
+
+	return launchStreamlink(args, { kind: "clip", channelName, vodId: null, title });
 }
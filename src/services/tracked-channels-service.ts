@@ -0,0 +1,139 @@
+import { getChannelRankMap } from "@/src/features/channel-ranks/channel-ranks.repository";
+import { getAllFollowedChannels } from "@/src/features/channels/followed-channels.repository";
+import { getFollowedStreams, getStreams } from "@/src/services/twitch-service";
+
+import type { ChannelRank } from "@/src/features/channel-ranks/channel-ranks.types";
+import type { FollowSource } from "@/src/features/channels/channels.types";
+import type { TwitchStream } from "@/src/services/twitch-service";
+
+export type TrackedChannel = {
+	channelId: string;
+	channelName: string;
+	profileImageUrl: string;
+	rank: ChannelRank;
+	sortOrder: number;
+	followSource: FollowSource | null;
+	lastSeenAt: string | null;
+	preferredQuality: string | null;
+};
+
+export class TrackedStreamsError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "TrackedStreamsError";
+	}
+}
+
+export type TrackedChannelList = {
+	channels: Array<TrackedChannel>;
+	followedChannelIds: Set<string>;
+	// Twitch's followed-streams endpoint only knows about Twitch follows
+	otherChannelIds: Array<string>;
+};
+
+export type TrackedStreams = {
+	liveStreamsByChannelId: Map<string, TwitchStream>;
+	followedLiveStreams: Array<TwitchStream>;
+};
+
+/**
+ * Merges Twitch and local follows with ranked channels we don't follow. Hidden channels
+ * are included so callers decide where they show.
+ */
+export function getTrackedChannelList(): TrackedChannelList | Error {
+	const followedChannels = getAllFollowedChannels();
+
+	if (followedChannels instanceof Error) {
+		return followedChannels;
+	}
+
+	const ranks = getChannelRankMap();
+
+	if (ranks instanceof Error) {
+		return ranks;
+	}
+
+	const channels: Array<TrackedChannel> = [];
+	const followedChannelIds = new Set<string>();
+	const otherChannelIds: Array<string> = [];
+
+	for (const channel of followedChannels) {
+		const stored = ranks.get(channel.channelId);
+		followedChannelIds.add(channel.channelId);
+
+		if (!channel.isTwitchFollow) {
+			otherChannelIds.push(channel.channelId);
+		}
+
+		channels.push({
+			channelId: channel.channelId,
+			channelName: channel.channelName,
+			profileImageUrl: channel.profileImageUrl,
+			rank: stored?.rank ?? "followed",
+			sortOrder: stored?.sortOrder ?? 0,
+			followSource: channel.isTwitchFollow ? "twitch" : "local",
+			lastSeenAt: channel.lastSeenAt,
+			preferredQuality: channel.preferredQuality,
+		});
+	}
+
+	for (const stored of ranks.values()) {
+		if (followedChannelIds.has(stored.channelId) || stored.rank === "hidden") {
+			continue;
+		}
+
+		otherChannelIds.push(stored.channelId);
+		channels.push({
+			channelId: stored.channelId,
+			channelName: stored.channelName,
+			profileImageUrl: stored.profileImageUrl ?? "",
+			rank: stored.rank,
+			sortOrder: stored.sortOrder,
+			followSource: null,
+			lastSeenAt: null,
+			preferredQuality: null,
+		});
+	}
+
+	return { channels, followedChannelIds, otherChannelIds };
+}
+
+export async function getTrackedStreams(
+	userId: string,
+	trackedList: TrackedChannelList,
+): Promise<TrackedStreams | TrackedStreamsError> {
+	const followedStreams = await getFollowedStreams(userId);
+
+	if (followedStreams instanceof Error) {
+		return new TrackedStreamsError(followedStreams.message);
+	}
+
+	const liveStreamsByChannelId = new Map<string, TwitchStream>();
+	const followedLiveStreams: Array<TwitchStream> = [];
+	for (const stream of followedStreams) {
+		liveStreamsByChannelId.set(stream.userId, stream);
+		followedLiveStreams.push(stream);
+	}
+
+	if (trackedList.otherChannelIds.length > 0) {
+		const otherStreams = await getStreams({ userIds: trackedList.otherChannelIds });
+
+		// Twitch follows are the core of every list, so don't fail on the extras
+		if (otherStreams instanceof Error) {
+			console.warn(
+				"[tracked-channels] Failed to fetch streams for local and ranked channels:",
+				otherStreams.message,
+			);
+		} else {
+			for (const stream of otherStreams) {
+				liveStreamsByChannelId.set(stream.userId, stream);
+
+				if (trackedList.followedChannelIds.has(stream.userId)) {
+					followedLiveStreams.push(stream);
+				}
+			}
+		}
+	}
+
+	return { liveStreamsByChannelId, followedLiveStreams };
+}
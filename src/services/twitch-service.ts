@@ -1,7 +1,9 @@
 import { getAuth, setAuth, clearAuth } from "@/src/features/auth/auth.repository";
-import { FORM_HEADERS } from "@/src/shared/utils/http";
+import { FORM_HEADERS, JSON_HEADERS } from "@/src/shared/utils/http";
+import { getEventSubSubscriptionsUrl } from "@/src/shared/utils/eventsub-config";
 import { getTwitchClientId, getTwitchClientSecret } from "@/src/shared/utils/twitch-config";
 import {
+	TWITCH_GQL_URL,
 	TWITCH_HELIX_BASE_URL,
 	TWITCH_OAUTH_REVOKE_URL,
 	TWITCH_OAUTH_TOKEN_URL,
@@ -33,6 +35,22 @@ type TwitchVideoResponse = {
 	duration: string;
 	created_at: string;
 	thumbnail_url: string;
+	type: TwitchVideoType;
+};
+
+type TwitchClipResponse = {
+	id: string;
+	broadcaster_id: string;
+	broadcaster_name: string;
+	creator_name: string;
+	video_id: string;
+	game_id: string;
+	title: string;
+	view_count: number;
+	created_at: string;
+	thumbnail_url: string;
+	duration: number;
+	vod_offset: number | null;
 };
 
 type TwitchFollowedChannelResponse = {
@@ -42,6 +60,23 @@ type TwitchFollowedChannelResponse = {
 	followed_at: string;
 };
 
+type TwitchCategoryResponse = {
+	id: string;
+	name: string;
+	box_art_url: string;
+};
+
+type TwitchSearchChannelResponse = {
+	id: string;
+	broadcaster_login: string;
+	display_name: string;
+	is_live: boolean;
+	game_name: string;
+	title: string;
+	thumbnail_url: string;
+	started_at: string;
+};
+
 export type TwitchChannel = {
 	id: string;
 	login: string;
@@ -60,6 +95,11 @@ export type TwitchStream = {
 	startedAt: string;
 };
 
+export type TwitchVideoType = "archive" | "highlight" | "upload";
+
+// "all" is Twitch's own value for requesting every type at once
+export type TwitchVideoTypeFilter = TwitchVideoType | "all";
+
 export type TwitchVideo = {
 	id: string;
 	userId: string;
@@ -68,6 +108,23 @@ export type TwitchVideo = {
 	duration: string;
 	createdAt: string;
 	thumbnailUrl: string;
+	type: TwitchVideoType;
+};
+
+export type TwitchClip = {
+	id: string;
+	broadcasterId: string;
+	broadcasterName: string;
+	creatorName: string;
+	// Null when the source VOD is gone or was never saved
+	videoId: string | null;
+	gameId: string;
+	title: string;
+	viewCount: number;
+	createdAt: string;
+	thumbnailUrl: string;
+	durationSeconds: number;
+	vodOffsetSeconds: number | null;
 };
 
 export type TwitchFollowedChannel = {
@@ -77,6 +134,24 @@ export type TwitchFollowedChannel = {
 	followedAt: string;
 };
 
+export type TwitchCategory = {
+	id: string;
+	name: string;
+	boxArtUrl: string;
+};
+
+export type TwitchSearchChannel = {
+	id: string;
+	login: string;
+	displayName: string;
+	isLive: boolean;
+	gameName: string;
+	title: string;
+	profileImageUrl: string;
+	// Empty string when the channel is offline
+	startedAt: string;
+};
+
 type TwitchResponse<T> = {
 	data: Array<T>;
 	pagination?: {
@@ -142,7 +217,33 @@ async function refreshAccessToken() {
 	return true;
 }
 
-async function twitchFetch<T>(endpoint: string, isRetry: boolean = false) {
+export class TwitchApiError extends Error {
+	status: number;
+
+	constructor(status: number) {
+		super(`Twitch API error: ${status}`);
+		this.name = "TwitchApiError";
+		this.status = status;
+	}
+}
+
+export class VideoNotFoundError extends Error {
+	constructor(vodId: string) {
+		super(`VOD ${vodId} not found`);
+		this.name = "VideoNotFoundError";
+	}
+}
+
+type TwitchRequestOptions = {
+	method?: "GET" | "POST" | "DELETE";
+	body?: unknown;
+};
+
+async function twitchRequest(
+	url: string,
+	options: TwitchRequestOptions,
+	isRetry: boolean = false,
+): Promise<Response | Error> {
 	const clientId = getTwitchClientId();
 
 	if (clientId === undefined) {
@@ -174,25 +275,43 @@ async function twitchFetch<T>(endpoint: string, isRetry: boolean = false) {
 		}
 	}
 
-	const response = await fetch(`${TWITCH_HELIX_BASE_URL}${endpoint}`, {
-		headers: {
-			"Client-ID": clientId,
-			Authorization: `Bearer ${authResult.accessToken}`,
-		},
+	const headers: Record<string, string> = {
+		"Client-ID": clientId,
+		Authorization: `Bearer ${authResult.accessToken}`,
+	};
+
+	if (options.body !== undefined) {
+		Object.assign(headers, JSON_HEADERS);
+	}
+
+	const response = await fetch(url, {
+		method: options.method ?? "GET",
+		headers,
+		body: options.body === undefined ? null : JSON.stringify(options.body),
 	});
 
 	if (response.status === 401 && !isRetry) {
 		const wasRefreshed = await refreshAccessToken();
 
 		if (wasRefreshed) {
-			return twitchFetch<T>(endpoint, true);
+			return twitchRequest(url, options, true);
 		}
 
 		return new Error("Not authenticated");
 	}
 
 	if (!response.ok) {
-		return new Error(`Twitch API error: ${response.status}`);
+		return new TwitchApiError(response.status);
+	}
+
+	return response;
+}
+
+async function twitchFetch<T>(endpoint: string) {
+	const response = await twitchRequest(`${TWITCH_HELIX_BASE_URL}${endpoint}`, {});
+
+	if (response instanceof Error) {
+		return response;
 	}
 
 	return response.json() as Promise<TwitchResponse<T>>;
@@ -229,6 +348,24 @@ function mapTwitchVideo(video: TwitchVideoResponse): TwitchVideo {
 		duration: video.duration,
 		createdAt: video.created_at,
 		thumbnailUrl: video.thumbnail_url,
+		type: video.type,
+	};
+}
+
+function mapTwitchClip(clip: TwitchClipResponse): TwitchClip {
+	return {
+		id: clip.id,
+		broadcasterId: clip.broadcaster_id,
+		broadcasterName: clip.broadcaster_name,
+		creatorName: clip.creator_name,
+		videoId: clip.video_id === "" ? null : clip.video_id,
+		gameId: clip.game_id,
+		title: clip.title,
+		viewCount: clip.view_count,
+		createdAt: clip.created_at,
+		thumbnailUrl: clip.thumbnail_url,
+		durationSeconds: clip.duration,
+		vodOffsetSeconds: clip.vod_offset,
 	};
 }
 
@@ -241,6 +378,28 @@ function mapTwitchFollowedChannel(channel: TwitchFollowedChannelResponse): Twitc
 	};
 }
 
+function mapTwitchCategory(category: TwitchCategoryResponse): TwitchCategory {
+	return {
+		id: category.id,
+		name: category.name,
+		boxArtUrl: category.box_art_url,
+	};
+}
+
+function mapTwitchSearchChannel(channel: TwitchSearchChannelResponse): TwitchSearchChannel {
+	return {
+		id: channel.id,
+		login: channel.broadcaster_login,
+		displayName: channel.display_name,
+		isLive: channel.is_live,
+		gameName: channel.game_name,
+		title: channel.title,
+		// Search results carry the profile image in thumbnail_url
+		profileImageUrl: channel.thumbnail_url,
+		startedAt: channel.started_at,
+	};
+}
+
 export async function getUsers(params: { ids?: Array<string>; logins?: Array<string> }) {
 	const queryParts: Array<string> = [];
 
@@ -279,9 +438,96 @@ export async function getFollowedStreams(userId: string) {
 	return result.data.map(mapTwitchStream);
 }
 
-export async function getVideos(userId: string, limit: number = 1) {
+export async function getStreams(params: { userIds: Array<string> }) {
+	const streams: Array<TwitchStream> = [];
+
+	// Helix accepts at most 100 user_id params per request
+	for (let index = 0; index < params.userIds.length; index += 100) {
+		const userIdParams = params.userIds.slice(index, index + 100).map((id) => `user_id=${id}`);
+		const result = await twitchFetch<TwitchStreamResponse>(
+			`/streams?${userIdParams.join("&")}&first=100`,
+		);
+
+		if (result instanceof Error) {
+			return result;
+		}
+
+		for (const stream of result.data) {
+			streams.push(mapTwitchStream(stream));
+		}
+	}
+
+	return streams;
+}
+
+export async function getStreamsByGame(
+	gameId: string,
+	params: { limit: number; cursor?: string | undefined },
+) {
+	let endpoint = `/streams?game_id=${encodeURIComponent(gameId)}&first=${params.limit}`;
+
+	if (params.cursor !== undefined) {
+		endpoint += `&after=${encodeURIComponent(params.cursor)}`;
+	}
+
+	const result = await twitchFetch<TwitchStreamResponse>(endpoint);
+
+	if (result instanceof Error) {
+		return result;
+	}
+
+	return {
+		streams: result.data.map(mapTwitchStream),
+		cursor: result.pagination?.cursor ?? null,
+	};
+}
+
+export async function getGames(params: { names: Array<string> }) {
+	if (params.names.length === 0) {
+		return [];
+	}
+
+	const nameParams = params.names.map((name) => `name=${encodeURIComponent(name)}`);
+	const result = await twitchFetch<TwitchCategoryResponse>(`/games?${nameParams.join("&")}`);
+
+	if (result instanceof Error) {
+		return result;
+	}
+
+	return result.data.map(mapTwitchCategory);
+}
+
+export async function searchCategories(query: string, limit: number = 10) {
+	const result = await twitchFetch<TwitchCategoryResponse>(
+		`/search/categories?query=${encodeURIComponent(query)}&first=${limit}`,
+	);
+
+	if (result instanceof Error) {
+		return result;
+	}
+
+	return result.data.map(mapTwitchCategory);
+}
+
+export async function searchChannels(query: string, limit: number = 10) {
+	const result = await twitchFetch<TwitchSearchChannelResponse>(
+		`/search/channels?query=${encodeURIComponent(query)}&first=${limit}`,
+	);
+
+	if (result instanceof Error) {
+		return result;
+	}
+
+	return result.data.map(mapTwitchSearchChannel);
+}
+
+export async function getVideos(
+	userId: string,
+	limit: number = 1,
+	type: TwitchVideoTypeFilter = "archive",
+) {
 	const result = await twitchFetch<TwitchVideoResponse>(
-		`/videos?user_id=${userId}&type=archive&first=${limit}`,
+		`/videos?user_id=${userId}&type=${type}&first=${limit}`,
 	);
 
 	if (result instanceof Error) {
@@ -291,6 +537,55 @@ export async function getVideos(userId: string, limit: number = 1) {
 	return result.data.map(mapTwitchVideo);
 }
 
+export async function getVideoById(videoId: string) {
+	const result = await twitchFetch<TwitchVideoResponse>(`/videos?id=${videoId}`);
+
+	// Deleted and unknown videos come back as 404 rather than an empty list
+	if (result instanceof TwitchApiError && result.status === 404) {
+		return null;
+	}
+
+	if (result instanceof Error) {
+		return result;
+	}
+
+	const video = result.data[0];
+	return video !== undefined ? mapTwitchVideo(video) : null;
+}
+
+export async function getClips(params: {
+	broadcasterId?: string | undefined;
+	gameId?: string | undefined;
+	startedAt?: string | undefined;
+	limit: number;
+}) {
+	const queryParts = [`first=${params.limit}`];
+
+	if (params.broadcasterId !== undefined) {
+		queryParts.push(`broadcaster_id=${params.broadcasterId}`);
+	} else if (params.gameId !== undefined) {
+		queryParts.push(`game_id=${encodeURIComponent(params.gameId)}`);
+	} else {
+		return new Error("Must provide broadcasterId or gameId");
+	}
+
+	// Without ended_at Twitch only returns the week after started_at
+	if (params.startedAt !== undefined) {
+		queryParts.push(
+			`started_at=${encodeURIComponent(params.startedAt)}`,
+			`ended_at=${encodeURIComponent(new Date().toISOString())}`,
+		);
+	}
+
+	const result = await twitchFetch<TwitchClipResponse>(`/clips?${queryParts.join("&")}`);
+
+	if (result instanceof Error) {
+		return result;
+	}
+
+	return result.data.map(mapTwitchClip);
+}
+
 export async function getFollowedChannels(userId: string) {
 	const allChannels: Array<TwitchFollowedChannel> = [];
 	let cursor: string | undefined;
@@ -342,3 +637,287 @@ export async function revokeToken(token: string) {
 		);
 	}
 }
+
+type TwitchChannelInformationResponse = {
+	broadcaster_id: string;
+	title: string;
+	game_name: string;
+};
+
+export type TwitchChannelInformation = {
+	broadcasterId: string;
+	title: string;
+	gameName: string;
+};
+
+function mapTwitchChannelInformation(
+	channel: TwitchChannelInformationResponse,
+): TwitchChannelInformation {
+	return {
+		broadcasterId: channel.broadcaster_id,
+		title: channel.title,
+		gameName: channel.game_name,
+	};
+}
+
+export async function getChannelInformation(broadcasterIds: Array<string>) {
+	if (broadcasterIds.length === 0) {
+		return [];
+	}
+
+	const idParams = broadcasterIds.map((id) => `broadcaster_id=${id}`);
+	const result = await twitchFetch<TwitchChannelInformationResponse>(
+		`/channels?${idParams.join("&")}`,
+	);
+
+	if (result instanceof Error) {
+		return result;
+	}
+
+	return result.data.map(mapTwitchChannelInformation);
+}
+
+type TwitchEventSubSubscriptionResponse = {
+	id: string;
+	type: string;
+	status: string;
+};
+
+export async function createEventSubSubscription(params: {
+	type: string;
+	version: string;
+	broadcasterUserId: string;
+	sessionId: string;
+}) {
+	const response = await twitchRequest(getEventSubSubscriptionsUrl(), {
+		method: "POST",
+		body: {
+			type: params.type,
+			version: params.version,
+			condition: { broadcaster_user_id: params.broadcasterUserId },
+			transport: { method: "websocket", session_id: params.sessionId },
+		},
+	});
+
+	if (response instanceof Error) {
+		return response;
+	}
+
+	const result = (await response.json()) as TwitchResponse<TwitchEventSubSubscriptionResponse>;
+	const subscription = result.data[0];
+
+	if (subscription === undefined) {
+		return new Error("Twitch API returned no subscription");
+	}
+
+	return { id: subscription.id, type: subscription.type, status: subscription.status };
+}
+
+export async function deleteEventSubSubscription(subscriptionId: string) {
+	const url = new URL(getEventSubSubscriptionsUrl());
+	url.searchParams.set("id", subscriptionId);
+
+	const response = await twitchRequest(url.toString(), { method: "DELETE" });
+
+	if (response instanceof Error) {
+		return response;
+	}
+
+	return null;
+}
+
+type TwitchScheduleSegmentResponse = {
+	id: string;
+	start_time: string;
+	end_time: string | null;
+	title: string;
+	canceled_until: string | null;
+	category: { id: string; name: string } | null;
+	is_recurring: boolean;
+};
+
+type TwitchScheduleResponse = {
+	data: {
+		broadcaster_id: string;
+		broadcaster_name: string;
+		segments: Array<TwitchScheduleSegmentResponse> | null;
+	};
+};
+
+export type TwitchScheduleSegment = {
+	id: string;
+	title: string;
+	startTime: string;
+	endTime: string | null;
+	categoryName: string | null;
+	isRecurring: boolean;
+};
+
+export type TwitchSchedule = {
+	broadcasterId: string;
+	broadcasterName: string;
+	segments: Array<TwitchScheduleSegment>;
+};
+
+function mapTwitchScheduleSegment(segment: TwitchScheduleSegmentResponse): TwitchScheduleSegment {
+	return {
+		id: segment.id,
+		title: segment.title,
+		startTime: segment.start_time,
+		endTime: segment.end_time,
+		categoryName: segment.category?.name ?? null,
+		isRecurring: segment.is_recurring,
+	};
+}
+
+export async function getChannelSchedule(
+	broadcasterId: string,
+	limit: number = 25,
+): Promise<TwitchSchedule | Error> {
+	const response = await twitchRequest(
+		`${TWITCH_HELIX_BASE_URL}/schedule?broadcaster_id=${broadcasterId}&first=${limit}`,
+		{},
+	);
+
+	// Twitch answers 404 for channels that never set up a schedule
+	if (response instanceof TwitchApiError && response.status === 404) {
+		return { broadcasterId, broadcasterName: "", segments: [] };
+	}
+
+	if (response instanceof Error) {
+		return response;
+	}
+
+	const result = (await response.json()) as TwitchScheduleResponse;
+	const segments: Array<TwitchScheduleSegment> = [];
+
+	for (const segment of result.data.segments ?? []) {
+		// Canceled occurrences stay in the response until their slot passes
+		if (segment.canceled_until === null) {
+			segments.push(mapTwitchScheduleSegment(segment));
+		}
+	}
+
+	return {
+		broadcasterId: result.data.broadcaster_id,
+		broadcasterName: result.data.broadcaster_name,
+		segments,
+	};
+}
+
+type TwitchVideoMomentResponse = {
+	description: string;
+	positionMilliseconds: number;
+	durationMilliseconds: number;
+	details: { game?: { displayName: string } | null } | null;
+};
+
+type TwitchVideoMomentsResponse = {
+	data?: {
+		video: {
+			id: string;
+			moments: { edges: Array<{ node: TwitchVideoMomentResponse }> } | null;
+		} | null;
+	};
+	errors?: Array<{ message: string }>;
+};
+
+export type TwitchVideoChapter = {
+	positionSeconds: number;
+	durationSeconds: number;
+	gameName: string | null;
+	description: string;
+};
+
+// Helix only exposes stream markers for the token's own channel, so chapters come from the
+// GQL API behind Twitch's web player, which only accepts its own public client id. That API
+// is undocumented, can change without notice and isn't covered by Twitch's developer terms,
+// which is why chapters are an opt-in setting that is off by default.
+const TWITCH_WEB_CLIENT_ID = "kimne78kx3ncx6brgo4mv6wki5h1ko";
+// Twitch rejects batches larger than this
+const GQL_BATCH_SIZE = 30;
+// The endpoint is undocumented, so a hung request must not hold up the VOD list
+const GQL_REQUEST_TIMEOUT_MS = 5_000;
+
+const VIDEO_CHAPTERS_QUERY = `query VideoChapters($id: ID!) {
+	video(id: $id) {
+		id
+		moments(momentRequestType: VIDEO_CHAPTER_MARKERS) {
+			edges {
+				node {
+					description
+					positionMilliseconds
+					durationMilliseconds
+					details {
+						... on GameChangeMomentDetails {
+							game { displayName }
+						}
+					}
+				}
+			}
+		}
+	}
+}`;
+
+function mapTwitchVideoChapter(moment: TwitchVideoMomentResponse): TwitchVideoChapter {
+	return {
+		positionSeconds: Math.floor(moment.positionMilliseconds / 1000),
+		durationSeconds: Math.round(moment.durationMilliseconds / 1000),
+		gameName: moment.details?.game?.displayName ?? null,
+		description: moment.description,
+	};
+}
+
+/**
+ * Fetches chapter markers per video. Videos that no longer exist map to an empty list so
+ * callers can cache the miss; videos whose lookup errored are left out.
+ */
+export async function getVideoChapters(
+	videoIds: Array<string>,
+): Promise<Map<string, Array<TwitchVideoChapter>> | Error> {
+	const chaptersByVideoId = new Map<string, Array<TwitchVideoChapter>>();
+
+	for (let index = 0; index < videoIds.length; index += GQL_BATCH_SIZE) {
+		const batch = videoIds.slice(index, index + GQL_BATCH_SIZE);
+
+		try {
+			const response = await fetch(TWITCH_GQL_URL, {
+				method: "POST",
+				headers: { "Client-ID": TWITCH_WEB_CLIENT_ID, ...JSON_HEADERS },
+				body: JSON.stringify(
+					batch.map((id) => ({ query: VIDEO_CHAPTERS_QUERY, variables: { id } })),
+				),
+				signal: AbortSignal.timeout(GQL_REQUEST_TIMEOUT_MS),
+			});
+
+			if (!response.ok) {
+				return new TwitchApiError(response.status);
+			}
+
+			const results = (await response.json()) as Array<TwitchVideoMomentsResponse>;
+
+			for (const [resultIndex, result] of results.entries()) {
+				const videoId = batch[resultIndex];
+
+				if (
+					videoId === undefined ||
+					result.data === undefined ||
+					result.errors !== undefined
+				) {
+					continue;
+				}
+
+				const edges = result.data.video?.moments?.edges ?? [];
+				const chapters = edges.map((edge) => mapTwitchVideoChapter(edge.node));
+				chapters.sort((a, b) => a.positionSeconds - b.positionSeconds);
+				chaptersByVideoId.set(videoId, chapters);
+			}
+		} catch (error) {
+			return new Error(
+				`Video chapters request failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	return chaptersByVideoId;
+}
@@ -1,13 +1,19 @@
 import { getAuth } from "@/src/features/auth/auth.repository";
 import {
 	getFavoriteChannelIds,
+	getLocalOnlyFollowIds,
 	getProfileImagesByChannelIds,
 	removeUnfollowedChannels,
+	updateFollowedChannelIdentities,
 	updateLatestVod,
-	updateLiveStates,
 	upsertFollowedChannels,
 } from "@/src/features/channels/followed-channels.repository";
+import {
+	getIgnoredFollowIds,
+	pruneIgnoredFollows,
+} from "@/src/features/channels/ignored-follows.repository";
 import { upsertVodsFromTwitch } from "@/src/features/vods/vods.repository";
+import { refreshSchedulesForChannels } from "@/src/services/schedule-service";
 import {
 	getFollowedChannels,
 	getFollowedStreams,
@@ -15,6 +21,8 @@ import {
 	getVideos,
 } from "@/src/services/twitch-service";
 
+import type { TwitchChannel } from "@/src/services/twitch-service";
+
 const VOD_REFRESH_INTERVAL_MS = 30 * 60 * 1000;
 const VIDEOS_FETCH_LIMIT = 5;
 const BATCH_SIZE = 3;
@@ -76,7 +84,20 @@ async function refreshFollowedChannels() {
 		return followedResult;
 	}
 
-	const channelIds = followedResult.map((channel) => channel.broadcasterId);
+	const ignoredFollowIds = getIgnoredFollowIds();
+	if (ignoredFollowIds instanceof Error) {
+		return ignoredFollowIds;
+	}
+
+	const pruneResult = pruneIgnoredFollows(followedResult.map((channel) => channel.broadcasterId));
+	if (pruneResult instanceof Error) {
+		return pruneResult;
+	}
+
+	const twitchFollows = followedResult.filter(
+		(channel) => !ignoredFollowIds.has(channel.broadcasterId),
+	);
+	const channelIds = twitchFollows.map((channel) => channel.broadcasterId);
 	const profileImages = await fetchProfileImages(channelIds);
 
 	const missingProfileIds = channelIds.filter((channelId) => !profileImages.has(channelId));
@@ -94,7 +115,7 @@ async function refreshFollowedChannels() {
 
 	const fetchedAt = new Date().toISOString();
 
-	const upsertInputs = followedResult.map((channel) => {
+	const upsertInputs = twitchFollows.map((channel) => {
 		const fetchedProfileImage = profileImages.get(channel.broadcasterId);
 		let profileImageUrl = "";
 
@@ -125,7 +146,35 @@ async function refreshFollowedChannels() {
 		return removeResult;
 	}
 
-	return null;
+	return refreshLocalFollows();
+}
+
+async function refreshLocalFollows() {
+	const localFollowIds = getLocalOnlyFollowIds();
+	if (localFollowIds instanceof Error) {
+		return localFollowIds;
+	}
+
+	if (localFollowIds.length === 0) {
+		return null;
+	}
+
+	const users: Array<TwitchChannel> = [];
+	for (const batch of chunkArray(localFollowIds, 100)) {
+		const result = await getUsers({ ids: batch });
+		if (result instanceof Error) {
+			return result;
+		}
+		users.push(...result);
+	}
+
+	return updateFollowedChannelIdentities(
+		users.map((user) => ({
+			channelId: user.id,
+			channelName: user.displayName,
+			profileImageUrl: user.profileImageUrl,
+		})),
+	);
 }
 
 async function refreshVideosForChannel(channelId: string) {
@@ -168,26 +217,6 @@ export async function refreshVideosForChannels(channelIds: Array<string>) {
 	}
 }
 
-export function scheduleLiveStateUpdate(
-	liveChannelIds: Array<string>,
-	logLabel: string,
-	shouldRefreshOffline: boolean,
-) {
-	setTimeout(() => {
-		const lastSeenAt = new Date().toISOString();
-		const updateResult = updateLiveStates(liveChannelIds, lastSeenAt);
-		if (updateResult instanceof Error) {
-			console.warn(`[${logLabel}] Failed to update live states:`, updateResult.message);
-			return;
-		}
-		if (shouldRefreshOffline && updateResult.length > 0) {
-			refreshVideosForChannels(updateResult).catch((error: unknown) => {
-				console.error(`[${logLabel}] Failed to refresh offline channels:`, error);
-			});
-		}
-	}, 0);
-}
-
 export function scheduleLatestVodUpdate(channelId: string, vodId: string, vodCreatedAt: string) {
 	setTimeout(() => {
 		const updateResult = updateLatestVod(channelId, vodId, vodCreatedAt);
@@ -235,6 +264,7 @@ export function startBackgroundRefresh() {
 		}
 
 		await refreshVideosForChannels(favorites);
+		await refreshSchedulesForChannels(favorites);
 		logMemoryUsage("refresh end");
 	};
 
@@ -0,0 +1,83 @@
+import { getLauncherSettings } from "@/src/features/launcher/launcher.repository";
+import {
+	getCachedVodChapters,
+	saveVodChapters,
+} from "@/src/features/vod-chapters/vod-chapters.repository";
+import { getVideoChapters } from "@/src/services/twitch-service";
+
+import type { VodChapterList } from "@/src/features/vod-chapters/vod-chapters.types";
+import type { TwitchVideoChapter } from "@/src/services/twitch-service";
+
+// VODs of a broadcast that is still live keep gaining chapters, so the cache expires
+const CHAPTERS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Returns chapters for each VOD, fetching the missing and expired ones from Twitch. Chapters
+ * come from an undocumented endpoint, so they are only fetched once the user opts in, and
+ * when Twitch fails expired chapters are served and VODs with nothing cached are left out
+ * rather than failing the request.
+ */
+export async function getVodChapterLists(
+	vodIds: Array<string>,
+): Promise<Array<VodChapterList> | Error> {
+	const settings = getLauncherSettings();
+
+	if (settings instanceof Error) {
+		console.warn("[vod-chapters] Failed to read launcher settings:", settings.message);
+		return [];
+	}
+
+	if (!settings.vodChaptersEnabled) {
+		return [];
+	}
+
+	const cached = getCachedVodChapters(vodIds);
+
+	if (cached instanceof Error) {
+		return cached;
+	}
+
+	const now = new Date();
+	const staleBefore = new Date(now.getTime() - CHAPTERS_CACHE_TTL_MS).toISOString();
+	const idsToFetch: Array<string> = [];
+
+	for (const vodId of vodIds) {
+		const entry = cached.get(vodId);
+
+		if (entry === undefined || entry.fetchedAt < staleBefore) {
+			idsToFetch.push(vodId);
+		}
+	}
+
+	let fetched = new Map<string, Array<TwitchVideoChapter>>();
+
+	if (idsToFetch.length > 0) {
+		const result = await getVideoChapters(idsToFetch);
+
+		if (result instanceof Error) {
+			console.warn(
+				"[vod-chapters] Falling back to cached chapters after Twitch error:",
+				result.message,
+			);
+		} else {
+			fetched = result;
+
+			const saveResult = saveVodChapters(fetched, now.toISOString());
+			if (saveResult instanceof Error) {
+				console.warn("[vod-chapters] Failed to cache chapters:", saveResult.message);
+			}
+		}
+	}
+
+	const chapterLists: Array<VodChapterList> = [];
+
+	for (const vodId of vodIds) {
+		const chapters = fetched.get(vodId) ?? cached.get(vodId)?.chapters;
+
+		if (chapters !== undefined) {
+			chapterLists.push({ vodId, chapters });
+		}
+	}
+
+	return chapterLists;
+}
@@ -0,0 +1,49 @@
+import { createWatchSession, finishWatchSession } from "@/src/features/history/history.repository";
+import { getPlayerSession, onPlayerSessionExit } from "@/src/services/player-session-service";
+
+import type { PlayerSession } from "@/src/features/sessions/sessions.types";
+
+function getDurationSeconds(startedAt: string, endedAt: string) {
+	const elapsedMs = new Date(endedAt).getTime() - new Date(startedAt).getTime();
+	return Math.max(0, Math.round(elapsedMs / 1000));
+}
+
+/**
+ * Records a launched live or VOD player in the watch history and fills in its
+ * duration once the player exits. History is best-effort: failures are logged
+ * and never fail the launch itself.
+ */
+export function recordWatchSession(session: PlayerSession, quality: string) {
+	// Clips last seconds, so only live streams and VODs count as watch time
+	if (session.kind === "chat" || session.kind === "clip") {
+		return;
+	}
+
+	const created = createWatchSession({
+		kind: session.kind,
+		channelName: session.channelName?.toLowerCase() ?? null,
+		vodId: session.vodId,
+		quality,
+		startedAt: session.startedAt,
+	});
+
+	if (created instanceof Error) {
+		return;
+	}
+
+	const watchSessionId = created;
+
+	function finish(finishedSession: PlayerSession) {
+		const endedAt = finishedSession.exitedAt ?? new Date().toISOString();
+		const durationSeconds = getDurationSeconds(finishedSession.startedAt, endedAt);
+
+		finishWatchSession(watchSessionId, endedAt, durationSeconds);
+	}
+
+	const isListening = onPlayerSessionExit(session.id, finish);
+
+	// The player may already be gone (e.g. it failed right after spawning)
+	if (!isListening) {
+		finish(getPlayerSession(session.id) ?? session);
+	}
+}
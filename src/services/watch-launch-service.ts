@@ -0,0 +1,168 @@
+import {
+	getPreferredQualityByChannelName,
+	getPreferredQualityByVodId,
+} from "@/src/features/channels/followed-channels.repository";
+import {
+	getDefaultPlayerProfile,
+	getPlayerProfileById,
+} from "@/src/features/player-profiles/player-profiles.repository";
+import { getLaunchErrorDetails } from "@/src/services/launcher-config-service";
+import { getLocalVodCopy } from "@/src/services/library-service";
+import { launchLiveStream, launchLocalVod, launchVod } from "@/src/services/streamlink-service";
+import { recordWatchSession } from "@/src/services/watch-history-service";
+import { DEFAULT_STREAM_QUALITY, LOCAL_FILE_QUALITY } from "@/src/shared/utils/stream-quality";
+
+import type { PlayerProfile } from "@/src/features/player-profiles/player-profiles.types";
+
+type WatchLiveOptions = {
+	profile: PlayerProfile | null;
+	requestedQuality: string | null;
+};
+
+type WatchVodOptions = WatchLiveOptions & {
+	startTimeSeconds?: number | undefined;
+	channelName: string | null;
+	title: string | null;
+};
+
+export class PlayerProfileNotFoundError extends Error {
+	constructor(profileId: number) {
+		super(`Player profile ${profileId} not found`);
+		this.name = "PlayerProfileNotFoundError";
+	}
+}
+
+// Lets routes tell a player that failed to start apart from a failed lookup before it
+export class PlayerLaunchError extends Error {
+	readonly details: Record<string, unknown>;
+
+	constructor(cause: Error) {
+		super(cause.message);
+		this.name = "PlayerLaunchError";
+		this.details = getLaunchErrorDetails(cause);
+	}
+}
+
+/**
+ * Returns the profile a watch request asked for, or the default profile when it named
+ * none. Null means no profile is set up and Streamlink picks the player itself.
+ */
+export function resolveWatchProfile(profileId: number | null) {
+	if (profileId === null) {
+		return getDefaultPlayerProfile();
+	}
+
+	const profile = getPlayerProfileById(profileId);
+
+	if (profile === null) {
+		return new PlayerProfileNotFoundError(profileId);
+	}
+
+	return profile;
+}
+
+// Quality fallback for every launch: the request, then the channel's saved preference, then "best"
+function withPreferredQuality(
+	requestedQuality: string | null,
+	getPreferredQuality: () => string | null | Error,
+) {
+	if (requestedQuality !== null) {
+		return requestedQuality;
+	}
+
+	const preferredQuality = getPreferredQuality();
+
+	if (preferredQuality instanceof Error) {
+		return preferredQuality;
+	}
+
+	return preferredQuality ?? DEFAULT_STREAM_QUALITY;
+}
+
+export function resolveChannelQuality(requestedQuality: string | null, channelName: string) {
+	return withPreferredQuality(requestedQuality, () =>
+		getPreferredQualityByChannelName(channelName),
+	);
+}
+
+export function resolveVodQuality(requestedQuality: string | null, vodId: string) {
+	return withPreferredQuality(requestedQuality, () => getPreferredQualityByVodId(vodId));
+}
+
+/**
+ * Launches a live stream at the resolved quality and records it in the watch history.
+ */
+export async function watchLiveStream(
+	channelName: string,
+	{ profile, requestedQuality }: WatchLiveOptions,
+) {
+	const quality = resolveChannelQuality(requestedQuality, channelName);
+
+	if (quality instanceof Error) {
+		return quality;
+	}
+
+	const session = await launchLiveStream(channelName, { profile, quality });
+
+	if (session instanceof Error) {
+		return new PlayerLaunchError(session);
+	}
+
+	recordWatchSession(session, quality);
+
+	return session;
+}
+
+/**
+ * Launches a VOD and records it in the watch history. A downloaded copy plays instantly
+ * and works offline, so it wins over streaming from Twitch.
+ */
+export async function watchVod(
+	vodId: string,
+	{ profile, requestedQuality, startTimeSeconds, channelName, title }: WatchVodOptions,
+) {
+	const localCopy = getLocalVodCopy(vodId);
+
+	if (localCopy instanceof Error) {
+		return localCopy;
+	}
+
+	if (localCopy !== null) {
+		const localSession = await launchLocalVod(vodId, localCopy.path, {
+			profile,
+			startTimeSeconds,
+			channelName,
+			title,
+		});
+
+		if (localSession instanceof Error) {
+			return new PlayerLaunchError(localSession);
+		}
+
+		recordWatchSession(localSession, LOCAL_FILE_QUALITY);
+
+		return localSession;
+	}
+
+	const quality = resolveVodQuality(requestedQuality, vodId);
+
+	if (quality instanceof Error) {
+		return quality;
+	}
+
+	const session = await launchVod(vodId, {
+		profile,
+		quality,
+		startTimeSeconds,
+		channelName,
+		title,
+	});
+
+	if (session instanceof Error) {
+		return new PlayerLaunchError(session);
+	}
+
+	recordWatchSession(session, quality);
+
+	return session;
+}
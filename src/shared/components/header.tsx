@@ -1,7 +1,20 @@
 import { Link } from "@tanstack/react-router";
 import { memo } from "react";
 
-import { ArrowPathIcon, FilmIcon, MenuIcon } from "./icons";
+import { PlayerProfileSelect } from "@/src/features/player-profiles/components/player-profile-select";
+import { NowWatchingIndicator } from "@/src/features/sessions/components/now-watching-indicator";
+
+import {
+	ArrowPathIcon,
+	CalendarIcon,
+	ClockIcon,
+	CogIcon,
+	CompassIcon,
+	DownloadIcon,
+	FilmIcon,
+	MenuIcon,
+	QueueIcon,
+} from "./icons";
 
 type HeaderProps = {
 	onRefresh: () => void;
@@ -28,6 +41,18 @@ const Header = memo(function Header({ onRefresh, onToggleSidebar, isRefreshing }
 			</div>
 
 			<div className="flex items-center gap-3">
+				<NowWatchingIndicator />
+
+				<PlayerProfileSelect />
+
+				<Link
+					to="/browse"
+					className="flex items-center gap-2 px-4 py-2.5 rounded-md text-text-muted text-sm font-semibold transition-all hover:bg-surface-elevated hover:text-text-primary cursor-pointer"
+				>
+					<CompassIcon className="w-4 h-4" />
+					Browse
+				</Link>
+
 				<Link
 					to="/vods"
 					className="flex items-center gap-2 px-4 py-2.5 rounded-md text-text-muted text-sm font-semibold transition-all hover:bg-surface-elevated hover:text-text-primary cursor-pointer"
@@ -36,6 +61,46 @@ const Header = memo(function Header({ onRefresh, onToggleSidebar, isRefreshing }
 					VODs
 				</Link>
 
+				<Link
+					to="/playlists"
+					className="flex items-center gap-2 px-4 py-2.5 rounded-md text-text-muted text-sm font-semibold transition-all hover:bg-surface-elevated hover:text-text-primary cursor-pointer"
+				>
+					<QueueIcon className="w-4 h-4" />
+					Playlists
+				</Link>
+
+				<Link
+					to="/schedule"
+					className="flex items-center gap-2 px-4 py-2.5 rounded-md text-text-muted text-sm font-semibold transition-all hover:bg-surface-elevated hover:text-text-primary cursor-pointer"
+				>
+					<CalendarIcon className="w-4 h-4" />
+					Schedule
+				</Link>
+
+				<Link
+					to="/history"
+					className="flex items-center gap-2 px-4 py-2.5 rounded-md text-text-muted text-sm font-semibold transition-all hover:bg-surface-elevated hover:text-text-primary cursor-pointer"
+				>
+					<ClockIcon className="w-4 h-4" />
+					History
+				</Link>
+
+				<Link
+					to="/downloads"
+					className="flex items-center gap-2 px-4 py-2.5 rounded-md text-text-muted text-sm font-semibold transition-all hover:bg-surface-elevated hover:text-text-primary cursor-pointer"
+				>
+					<DownloadIcon className="w-4 h-4" />
+					Downloads
+				</Link>
+
+				<Link
+					to="/settings"
+					className="p-2.5 rounded-md text-text-muted transition-all hover:bg-surface-elevated hover:text-text-primary cursor-pointer"
+					title="Settings"
+				>
+					<CogIcon className="w-5 h-5" />
+				</Link>
+
 				<button
 					onClick={onRefresh}
 					disabled={isRefreshing}
@@ -174,6 +174,142 @@ function GripIcon({ className }: IconProps) {
 	);
 }
 
+function CogIcon({ className }: IconProps) {
+	return (
+		<svg
+			className={className}
+			viewBox="0 0 24 24"
+			fill="none"
+			stroke="currentColor"
+			strokeWidth="2"
+		>
+			<circle cx="12" cy="12" r="3" />
+			<path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 4.68 15a1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 9 4.68a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z" />
+		</svg>
+	);
+}
+
+function GridIcon({ className }: IconProps) {
+	return (
+		<svg
+			className={className}
+			viewBox="0 0 24 24"
+			fill="none"
+			stroke="currentColor"
+			strokeWidth="2"
+		>
+			<rect x="3" y="3" width="7" height="7" rx="1" />
+			<rect x="14" y="3" width="7" height="7" rx="1" />
+			<rect x="3" y="14" width="7" height="7" rx="1" />
+			<rect x="14" y="14" width="7" height="7" rx="1" />
+		</svg>
+	);
+}
+
+function ClockIcon({ className }: IconProps) {
+	return (
+		<svg
+			className={className}
+			viewBox="0 0 24 24"
+			fill="none"
+			stroke="currentColor"
+			strokeWidth="2"
+		>
+			<circle cx="12" cy="12" r="9" />
+			<path d="M12 7v5l3 3" />
+		</svg>
+	);
+}
+
+function CompassIcon({ className }: IconProps) {
+	return (
+		<svg
+			className={className}
+			viewBox="0 0 24 24"
+			fill="none"
+			stroke="currentColor"
+			strokeWidth="2"
+		>
+			<circle cx="12" cy="12" r="9" />
+			<path d="M15.5 8.5l-2 5-5 2 2-5 5-2z" />
+		</svg>
+	);
+}
+
+function EyeSlashIcon({ className }: IconProps) {
+	return (
+		<svg
+			className={className}
+			viewBox="0 0 24 24"
+			fill="none"
+			stroke="currentColor"
+			strokeWidth="2"
+		>
+			<path d="M3 3l18 18" />
+			<path d="M10.6 5.1A9.8 9.8 0 0112 5c5 0 8.5 4.5 9.5 7a13.5 13.5 0 01-2.6 3.9M6.6 6.6A13.4 13.4 0 002.5 12c1 2.5 4.5 7 9.5 7a9.6 9.6 0 005.4-1.6" />
+			<path d="M9.9 9.9a3 3 0 004.2 4.2" />
+		</svg>
+	);
+}
+
+function CalendarIcon({ className }: IconProps) {
+	return (
+		<svg
+			className={className}
+			viewBox="0 0 24 24"
+			fill="none"
+			stroke="currentColor"
+			strokeWidth="2"
+		>
+			<rect x="3.5" y="5" width="17" height="15.5" rx="2" />
+			<path d="M3.5 10h17M8 3v4M16 3v4" />
+		</svg>
+	);
+}
+
+function DownloadIcon({ className }: IconProps) {
+	return (
+		<svg
+			className={className}
+			viewBox="0 0 24 24"
+			fill="none"
+			stroke="currentColor"
+			strokeWidth="2"
+		>
+			<path d="M12 3.5v12M7 10.5l5 5 5-5M4 20.5h16" />
+		</svg>
+	);
+}
+
+function CheckIcon({ className }: IconProps) {
+	return (
+		<svg
+			className={className}
+			viewBox="0 0 24 24"
+			fill="none"
+			stroke="currentColor"
+			strokeWidth="2"
+		>
+			<path d="M5 12.5l4.5 4.5L19 7.5" />
+		</svg>
+	);
+}
+
+function QueueIcon({ className, filled }: IconProps & { filled?: boolean }) {
+	return (
+		<svg
+			className={className}
+			viewBox="0 0 24 24"
+			fill="none"
+			stroke="currentColor"
+			strokeWidth="2"
+		>
+			<path d="M4 6h12M4 12h8M4 18h8" />
+			<path d={filled ? "M14.5 16.5l2.5 2.5 4.5-5" : "M18 13v8M14 17h8"} />
+		</svg>
+	);
+}
+
 export {
 	PlusIcon,
 	FilmIcon,
@@ -188,4 +324,13 @@ export {
 	MenuIcon,
 	ChatIcon,
 	GripIcon,
+	CogIcon,
+	GridIcon,
+	ClockIcon,
+	CompassIcon,
+	EyeSlashIcon,
+	CalendarIcon,
+	DownloadIcon,
+	QueueIcon,
+	CheckIcon,
 };
@@ -0,0 +1,52 @@
+import { memo } from "react";
+
+import { getStreamQualityLabel, STREAM_QUALITY_OPTIONS } from "@/src/shared/utils/stream-quality";
+
+type QualitySelectProps = {
+	// Empty string selects the fallback described by defaultLabel
+	value: string;
+	defaultLabel: string;
+	ariaLabel: string;
+	disabled?: boolean;
+	onChange: (value: string) => void;
+};
+
+function isPresetQuality(value: string) {
+	for (const option of STREAM_QUALITY_OPTIONS) {
+		if (option.value === value) {
+			return true;
+		}
+	}
+	return false;
+}
+
+const QualitySelect = memo(function QualitySelect({
+	value,
+	defaultLabel,
+	ariaLabel,
+	disabled = false,
+	onChange,
+}: QualitySelectProps) {
+	const isCustomValue = value !== "" && !isPresetQuality(value);
+
+	return (
+		<select
+			value={value}
+			onChange={(event) => onChange(event.target.value)}
+			disabled={disabled}
+			aria-label={ariaLabel}
+			title={ariaLabel}
+			className="rounded-md border border-surface-border-muted bg-surface-elevated px-2 py-2.5 text-sm text-text-muted transition-all hover:text-text-primary focus:border-twitch-purple focus:outline-none enabled:cursor-pointer disabled:opacity-50"
+		>
+			<option value="">{defaultLabel}</option>
+			{STREAM_QUALITY_OPTIONS.map((option) => (
+				<option key={option.value} value={option.value}>
+					{option.label}
+				</option>
+			))}
+			{isCustomValue && <option value={value}>{getStreamQualityLabel(value)}</option>}
+		</select>
+	);
+});
+
+export { QualitySelect };
@@ -0,0 +1,84 @@
+import { createContext, useCallback, useContext, useMemo, useState } from "react";
+
+import { MAX_MULTI_VIEW_CHANNELS } from "@/src/features/multi-view/multi-view.validators";
+
+import type { ReactNode } from "react";
+
+type MultiViewContextValue = {
+	// Channel names in launch order; the first one is the primary stream with audio
+	selectedChannels: Array<string>;
+	isSelected: (channelName: string) => boolean;
+	isFull: boolean;
+	toggleChannel: (channelName: string) => void;
+	makePrimary: (channelName: string) => void;
+	clearSelection: () => void;
+};
+
+const MultiViewContext = createContext<MultiViewContextValue | null>(null);
+
+type MultiViewProviderProps = {
+	children: ReactNode;
+};
+
+function MultiViewProvider({ children }: MultiViewProviderProps) {
+	const [selectedChannels, setSelectedChannels] = useState<Array<string>>([]);
+
+	const isSelected = useCallback(
+		(channelName: string) => selectedChannels.includes(channelName),
+		[selectedChannels],
+	);
+
+	const toggleChannel = useCallback((channelName: string) => {
+		setSelectedChannels((previous) => {
+			if (previous.includes(channelName)) {
+				return previous.filter((name) => name !== channelName);
+			}
+
+			if (previous.length >= MAX_MULTI_VIEW_CHANNELS) {
+				return previous;
+			}
+
+			return [...previous, channelName];
+		});
+	}, []);
+
+	const makePrimary = useCallback((channelName: string) => {
+		setSelectedChannels((previous) => {
+			if (!previous.includes(channelName)) {
+				return previous;
+			}
+
+			return [channelName, ...previous.filter((name) => name !== channelName)];
+		});
+	}, []);
+
+	const clearSelection = useCallback(() => {
+		setSelectedChannels([]);
+	}, []);
+
+	const value = useMemo(
+		() => ({
+			selectedChannels,
+			isSelected,
+			isFull: selectedChannels.length >= MAX_MULTI_VIEW_CHANNELS,
+			toggleChannel,
+			makePrimary,
+			clearSelection,
+		}),
+		[selectedChannels, isSelected, toggleChannel, makePrimary, clearSelection],
+	);
+
+	return <MultiViewContext.Provider value={value}>{children}</MultiViewContext.Provider>;
+}
+
+function useMultiView() {
+	const context = useContext(MultiViewContext);
+
+	if (context === null) {
+		throw new Error("useMultiView must be used within MultiViewProvider");
+	}
+
+	return context;
+}
+
+export { MultiViewProvider, useMultiView };
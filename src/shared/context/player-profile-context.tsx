@@ -0,0 +1,63 @@
+import { createContext, useCallback, useContext, useMemo, useState } from "react";
+
+import type { ReactNode } from "react";
+
+type PlayerProfileContextValue = {
+	// null means "use the default profile configured on the server"
+	selectedProfileId: number | null;
+	selectProfile: (profileId: number | null) => void;
+};
+
+const PlayerProfileContext = createContext<PlayerProfileContextValue | null>(null);
+
+const PLAYER_PROFILE_STORAGE_KEY = "player-profile-id";
+
+function getSavedProfileId(): number | null {
+	if (typeof window === "undefined") {
+		return null;
+	}
+
+	const saved = Number(localStorage.getItem(PLAYER_PROFILE_STORAGE_KEY));
+
+	if (!Number.isInteger(saved) || saved <= 0) {
+		return null;
+	}
+
+	return saved;
+}
+
+type PlayerProfileProviderProps = {
+	children: ReactNode;
+};
+
+function PlayerProfileProvider({ children }: PlayerProfileProviderProps) {
+	const [selectedProfileId, setSelectedProfileId] = useState(getSavedProfileId);
+
+	const selectProfile = useCallback((profileId: number | null) => {
+		if (profileId === null) {
+			localStorage.removeItem(PLAYER_PROFILE_STORAGE_KEY);
+		} else {
+			localStorage.setItem(PLAYER_PROFILE_STORAGE_KEY, String(profileId));
+		}
+		setSelectedProfileId(profileId);
+	}, []);
+
+	const value = useMemo(
+		() => ({ selectedProfileId, selectProfile }),
+		[selectedProfileId, selectProfile],
+	);
+
+	return <PlayerProfileContext.Provider value={value}>{children}</PlayerProfileContext.Provider>;
+}
+
+function usePlayerProfileSelection() {
+	const context = useContext(PlayerProfileContext);
+
+	if (context === null) {
+		throw new Error("usePlayerProfileSelection must be used within PlayerProfileProvider");
+	}
+
+	return context;
+}
+
+export { PlayerProfileProvider, usePlayerProfileSelection };
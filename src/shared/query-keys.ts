@@ -2,13 +2,53 @@ export const QUERY_KEYS = {
 	auth: ["auth"] as const,
 	channels: ["channels"] as const,
 	followedChannels: ["followed-channels"] as const,
+	channelDetails: ["channel-details"] as const,
 	vods: ["vods"] as const,
 	vodProgress: ["vod-progress"] as const,
 	vodProgressRecent: ["vod-progress", "recent"] as const,
+	playerProfiles: ["player-profiles"] as const,
+	sessions: ["sessions"] as const,
+	layoutPresets: ["layout-presets"] as const,
+	history: ["history"] as const,
+	browseSections: ["browse-sections"] as const,
+	browseSearch: ["browse-search"] as const,
+	browseStreams: ["browse-streams"] as const,
+	hiddenChannels: ["hidden-channels"] as const,
+	notifications: ["notifications"] as const,
+	notificationRules: ["notification-rules"] as const,
+	eventSubStatus: ["eventsub-status"] as const,
+	streamSessions: ["stream-sessions"] as const,
+	schedule: ["schedule"] as const,
+	clips: ["clips"] as const,
+	vodChapters: ["vod-chapters"] as const,
+	launcherSettings: ["launcher-settings"] as const,
+	downloads: ["downloads"] as const,
+	library: ["library"] as const,
+	playlists: ["playlists"] as const,
 } as const;
 
-export function getVodsQueryKey(channelLogin: string) {
-	return ["vods", channelLogin] as const;
+export function getChannelDetailsQueryKey(channelId: string) {
+	return ["channel-details", channelId] as const;
+}
+
+export function getPlaylistQueryKey(playlistId: number) {
+	return ["playlists", playlistId] as const;
+}
+
+export function getStreamSessionsQueryKey(channelId: string) {
+	return ["stream-sessions", channelId] as const;
+}
+
+export function getScheduleQueryKey(start: string, end: string) {
+	return ["schedule", start, end] as const;
+}
+
+export function getClipsQueryKey(source: string, period: string) {
+	return ["clips", source, period] as const;
+}
+
+export function getVodsQueryKey(channelLogin: string, videoType: string) {
+	return ["vods", channelLogin, videoType] as const;
 }
 
 export function getVodProgressQueryKey(vodId: string) {
@@ -18,3 +58,27 @@ export function getVodProgressQueryKey(vodId: string) {
 export function getVodProgressBulkQueryKey(vodIds: Array<string>) {
 	return ["vod-progress", "bulk", vodIds.toSorted().join(",")] as const;
 }
+
+export function getWatchedVodIdsQueryKey(vodIds: Array<string>) {
+	return ["vod-progress", "watched", vodIds.toSorted().join(",")] as const;
+}
+
+export function getVodChaptersQueryKey(vodIds: Array<string>) {
+	return ["vod-chapters", vodIds.toSorted().join(",")] as const;
+}
+
+export function getHistoryQueryKey(days: number) {
+	return ["history", days] as const;
+}
+
+export function getBrowseStreamsQueryKey(sectionId: number) {
+	return ["browse-streams", sectionId] as const;
+}
+
+export function getCategorySearchQueryKey(query: string) {
+	return ["browse-search", "categories", query] as const;
+}
+
+export function getBrowseChannelSearchQueryKey(query: string) {
+	return ["browse-search", "channels", query] as const;
+}
@@ -0,0 +1,75 @@
+// EventSub endpoints can be pointed at the Twitch CLI's mock server for local testing:
+// `twitch event websocket start-server` then
+// EVENTSUB_WEBSOCKET_URL=ws://127.0.0.1:8080/ws
+// EVENTSUB_SUBSCRIPTIONS_URL=http://127.0.0.1:8080/eventsub/subscriptions
+
+import {
+	TWITCH_EVENTSUB_SUBSCRIPTIONS_URL,
+	TWITCH_EVENTSUB_WEBSOCKET_URL,
+} from "@/src/shared/utils/twitch-urls";
+
+const ALLOWED_WEBSOCKET_PROTOCOLS = ["ws:", "wss:"];
+const ALLOWED_HTTP_PROTOCOLS = ["http:", "https:"];
+// Twitch requires webhook secrets of 10-100 characters
+const MIN_WEBHOOK_SECRET_LENGTH = 10;
+const MAX_WEBHOOK_SECRET_LENGTH = 100;
+
+function parseUrl(value: string | undefined, allowedProtocols: Array<string>, fallback: string) {
+	if (value === undefined || value === "") {
+		return fallback;
+	}
+
+	try {
+		const url = new URL(value);
+		if (allowedProtocols.includes(url.protocol)) {
+			return url.toString();
+		}
+	} catch {
+		// Fall through to the default
+	}
+
+	console.warn(`[eventsub] Ignoring invalid URL override: ${value}`);
+	return fallback;
+}
+
+function parseWebhookSecret(value: string | undefined) {
+	if (
+		value === undefined ||
+		value.length < MIN_WEBHOOK_SECRET_LENGTH ||
+		value.length > MAX_WEBHOOK_SECRET_LENGTH
+	) {
+		return undefined;
+	}
+
+	return value;
+}
+
+const EVENTSUB_ENABLED = process.env.EVENTSUB_ENABLED !== "false";
+const EVENTSUB_WEBSOCKET_URL = parseUrl(
+	process.env.EVENTSUB_WEBSOCKET_URL,
+	ALLOWED_WEBSOCKET_PROTOCOLS,
+	TWITCH_EVENTSUB_WEBSOCKET_URL,
+);
+const EVENTSUB_SUBSCRIPTIONS_URL = parseUrl(
+	process.env.EVENTSUB_SUBSCRIPTIONS_URL,
+	ALLOWED_HTTP_PROTOCOLS,
+	TWITCH_EVENTSUB_SUBSCRIPTIONS_URL,
+);
+const EVENTSUB_WEBHOOK_SECRET = parseWebhookSecret(process.env.EVENTSUB_WEBHOOK_SECRET);
+
+export function isEventSubEnabled() {
+	return EVENTSUB_ENABLED;
+}
+
+export function getEventSubWebSocketUrl() {
+	return EVENTSUB_WEBSOCKET_URL;
+}
+
+export function getEventSubSubscriptionsUrl() {
+	return EVENTSUB_SUBSCRIPTIONS_URL;
+}
+
+// The webhook receiver stays disabled until a secret is configured
+export function getEventSubWebhookSecret() {
+	return EVENTSUB_WEBHOOK_SECRET;
+}
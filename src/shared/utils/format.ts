@@ -46,6 +46,22 @@ export function formatDurationSeconds(durationSeconds: number): string {
 	return `${minutes}m`;
 }
 
+export function formatBytes(bytes: number): string {
+	if (bytes >= 1024 ** 3) {
+		return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+	}
+
+	if (bytes >= 1024 ** 2) {
+		return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+	}
+
+	if (bytes >= 1024) {
+		return `${Math.round(bytes / 1024)} KB`;
+	}
+
+	return `${bytes} B`;
+}
+
 export function formatDate(dateString: string): string {
 	const date = new Date(dateString);
 
@@ -0,0 +1,80 @@
+export type CalendarEvent = {
+	uid: string;
+	start: string;
+	end: string;
+	summary: string;
+	description: string;
+	url: string;
+};
+
+// Calendar apps expect a default length for events that have none
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+const MAX_LINE_OCTETS = 75;
+
+function formatDateTime(value: string) {
+	return new Date(value)
+		.toISOString()
+		.replaceAll(/[-:]/g, "")
+		.replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string) {
+	return value
+		.replaceAll("\\", "\\\\")
+		.replaceAll(";", "\\;")
+		.replaceAll(",", "\\,")
+		.replaceAll(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 limits content lines to 75 octets, continued with a leading space
+function foldLine(line: string) {
+	const encoder = new TextEncoder();
+	const parts: Array<string> = [];
+	let current = "";
+
+	for (const character of line) {
+		const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+		if (encoder.encode(current + character).length > limit) {
+			parts.push(current);
+			current = "";
+		}
+		current += character;
+	}
+
+	parts.push(current);
+	return parts.join("\r\n ");
+}
+
+export function getDefaultEventEnd(start: string) {
+	return new Date(new Date(start).getTime() + DEFAULT_EVENT_DURATION_MS).toISOString();
+}
+
+export function formatICalendar(name: string, events: Array<CalendarEvent>) {
+	const stamp = formatDateTime(new Date().toISOString());
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		"PRODID:-//draks-tv//Stream Schedule//EN",
+		"CALSCALE:GREGORIAN",
+		"METHOD:PUBLISH",
+		`X-WR-CALNAME:${escapeText(name)}`,
+	];
+
+	for (const event of events) {
+		lines.push(
+			"BEGIN:VEVENT",
+			`UID:${escapeText(event.uid)}`,
+			`DTSTAMP:${stamp}`,
+			`DTSTART:${formatDateTime(event.start)}`,
+			`DTEND:${formatDateTime(event.end)}`,
+			`SUMMARY:${escapeText(event.summary)}`,
+			`DESCRIPTION:${escapeText(event.description)}`,
+			`URL:${event.url}`,
+			"END:VEVENT",
+		);
+	}
+
+	lines.push("END:VCALENDAR");
+
+	return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,71 @@
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+type EventSender = (event: string, data: unknown) => void;
+
+/**
+ * Opens a text/event-stream response. `subscribe` receives a sender and returns its
+ * cleanup, which runs once the client disconnects.
+ */
+export function createEventStreamResponse(
+	request: Request,
+	subscribe: (send: EventSender) => () => void,
+) {
+	const encoder = new TextEncoder();
+	let cleanup: (() => void) | null = null;
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			let isClosed = false;
+
+			function enqueue(chunk: string) {
+				if (isClosed) {
+					return;
+				}
+
+				try {
+					controller.enqueue(encoder.encode(chunk));
+				} catch {
+					close();
+				}
+			}
+
+			// Comment lines keep proxies and the browser from timing the connection out
+			const heartbeat = setInterval(() => enqueue(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+			const unsubscribe = subscribe((event, data) => {
+				enqueue(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+			});
+
+			function close() {
+				if (isClosed) {
+					return;
+				}
+
+				isClosed = true;
+				clearInterval(heartbeat);
+				unsubscribe();
+				request.signal.removeEventListener("abort", close);
+
+				try {
+					controller.close();
+				} catch {
+					// Already closed by the runtime
+				}
+			}
+
+			cleanup = close;
+			request.signal.addEventListener("abort", close);
+			enqueue(": connected\n\n");
+		},
+		cancel() {
+			cleanup?.();
+		},
+	});
+
+	return new Response(stream, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache",
+			Connection: "keep-alive",
+		},
+	});
+}
@@ -0,0 +1,89 @@
+import { isRecord } from "./validation";
+
+// Streamlink quality selection, shared by the watch routes and the quality pickers
+
+export const DEFAULT_STREAM_QUALITY = "best";
+
+// Recorded in watch history when a VOD played from a downloaded copy instead of Twitch
+export const LOCAL_FILE_QUALITY = "local";
+
+const MAX_QUALITY_LENGTH = 100;
+const MAX_QUALITY_CHAIN_LENGTH = 5;
+
+// Named qualities Streamlink always understands, plus Twitch variants like 720p60 or 1080p60_alt
+const QUALITY_PATTERN = /^(best|worst|audio_only|source|\d{3,4}p(\d{2})?(_alt)?)$/;
+
+export type StreamQualityOption = {
+	value: string;
+	label: string;
+};
+
+/**
+ * Presets shown in the quality pickers. Each value is a Streamlink fallback chain:
+ * the first quality the stream actually offers wins.
+ */
+export const STREAM_QUALITY_OPTIONS: Array<StreamQualityOption> = [
+	{ value: "best", label: "Best" },
+	{ value: "1080p60,1080p,best", label: "1080p" },
+	{ value: "720p60,720p,best", label: "720p" },
+	{ value: "480p,best", label: "480p" },
+	{ value: "360p,worst", label: "360p" },
+	{ value: "audio_only", label: "Audio only" },
+];
+
+/**
+ * Validates a single quality or a comma-separated fallback chain such as `720p60,720p,best`.
+ * Returns the normalized chain (lowercase, no whitespace) or an Error.
+ */
+export function parseStreamQuality(value: unknown) {
+	if (typeof value !== "string") {
+		return new Error("quality must be a string");
+	}
+
+	if (value.length > MAX_QUALITY_LENGTH) {
+		return new Error(`quality must not exceed ${MAX_QUALITY_LENGTH} characters`);
+	}
+
+	const qualities: Array<string> = [];
+	for (const part of value.split(",")) {
+		const quality = part.trim().toLowerCase();
+
+		if (!QUALITY_PATTERN.test(quality)) {
+			return new Error(`Invalid quality "${part.trim()}"`);
+		}
+
+		qualities.push(quality);
+	}
+
+	if (qualities.length > MAX_QUALITY_CHAIN_LENGTH) {
+		return new Error(`quality must not list more than ${MAX_QUALITY_CHAIN_LENGTH} fallbacks`);
+	}
+
+	return qualities.join(",");
+}
+
+export function getStreamQualityLabel(quality: string) {
+	if (quality === LOCAL_FILE_QUALITY) {
+		return "Local file";
+	}
+
+	for (const option of STREAM_QUALITY_OPTIONS) {
+		if (option.value === quality) {
+			return option.label;
+		}
+	}
+
+	return quality;
+}
+
+/**
+ * Reads the optional `quality` from a watch request body.
+ * Returns null when the caller did not ask for a specific quality.
+ */
+export function parseWatchQuality(body: unknown) {
+	if (!isRecord(body) || body.quality === undefined || body.quality === null) {
+		return null;
+	}
+
+	return parseStreamQuality(body.quality);
+}
@@ -3,3 +3,7 @@ export const TWITCH_OAUTH_TOKEN_URL = "https://id.twitch.tv/oauth2/token";
 export const TWITCH_OAUTH_AUTHORIZE_URL = "https://id.twitch.tv/oauth2/authorize";
 export const TWITCH_OAUTH_REVOKE_URL = "https://id.twitch.tv/oauth2/revoke";
 export const TWITCH_HELIX_BASE_URL = "https://api.twitch.tv/helix";
+export const TWITCH_WEB_BASE_URL = "https://www.twitch.tv";
+export const TWITCH_EVENTSUB_WEBSOCKET_URL = "wss://eventsub.wss.twitch.tv/ws";
+export const TWITCH_EVENTSUB_SUBSCRIPTIONS_URL = `${TWITCH_HELIX_BASE_URL}/eventsub/subscriptions`;
+export const TWITCH_GQL_URL = "https://gql.twitch.tv/gql";